@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."MissedRunPolicy" AS ENUM ('RUN_ONCE', 'SKIP');
+
+-- AlterTable
+ALTER TABLE "public"."scheduled_scans" ADD COLUMN     "missedRunPolicy" "public"."MissedRunPolicy" NOT NULL DEFAULT 'RUN_ONCE';
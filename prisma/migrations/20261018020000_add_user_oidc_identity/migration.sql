@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "UserAuthSource" AS ENUM ('LOCAL', 'OIDC');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "authSource" "UserAuthSource" NOT NULL DEFAULT 'LOCAL',
+ADD COLUMN "externalId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_externalId_key" ON "users"("externalId");
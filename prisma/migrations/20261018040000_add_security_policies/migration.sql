@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PolicyScope" AS ENUM ('GLOBAL', 'REPOSITORY', 'IMAGE_PATTERN');
+
+-- CreateEnum
+CREATE TYPE "PolicyAction" AS ENUM ('FAIL', 'WARN');
+
+-- CreateEnum
+CREATE TYPE "PolicyVerdict" AS ENUM ('PASS', 'WARN', 'FAIL');
+
+-- CreateTable
+CREATE TABLE "security_policies" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "action" "PolicyAction" NOT NULL DEFAULT 'FAIL',
+    "scope" "PolicyScope" NOT NULL DEFAULT 'GLOBAL',
+    "repositoryId" TEXT,
+    "imagePattern" TEXT,
+    "rules" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "security_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scan_policy_evaluations" (
+    "id" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "verdict" "PolicyVerdict" NOT NULL,
+    "policyCount" INTEGER NOT NULL DEFAULT 0,
+    "violationCount" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL,
+    "evaluatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scan_policy_evaluations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_policies_enabled_idx" ON "security_policies"("enabled");
+CREATE INDEX "security_policies_repositoryId_idx" ON "security_policies"("repositoryId");
+CREATE UNIQUE INDEX "scan_policy_evaluations_scanId_key" ON "scan_policy_evaluations"("scanId");
+CREATE INDEX "scan_policy_evaluations_verdict_idx" ON "scan_policy_evaluations"("verdict");
+
+-- AddForeignKey
+ALTER TABLE "security_policies" ADD CONSTRAINT "security_policies_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scan_policy_evaluations" ADD CONSTRAINT "scan_policy_evaluations_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "scans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ExceptionScope" AS ENUM ('IMAGE', 'IMAGE_PATTERN', 'REPOSITORY', 'GLOBAL');
+
+-- CreateEnum
+CREATE TYPE "ExceptionJustification" AS ENUM ('FALSE_POSITIVE', 'NOT_AFFECTED', 'MITIGATED', 'RISK_ACCEPTED', 'NO_FIX_AVAILABLE');
+
+-- CreateEnum
+CREATE TYPE "ExceptionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "vulnerability_exceptions" (
+    "id" TEXT NOT NULL,
+    "scope" "ExceptionScope" NOT NULL DEFAULT 'IMAGE',
+    "imageId" TEXT,
+    "repositoryId" TEXT,
+    "imagePattern" TEXT,
+    "cveId" TEXT,
+    "packageName" TEXT,
+    "justification" "ExceptionJustification" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "ExceptionStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "requestedBy" TEXT,
+    "approvedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decisionComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vulnerability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vulnerability_exceptions_status_expiresAt_idx" ON "vulnerability_exceptions"("status", "expiresAt");
+CREATE INDEX "vulnerability_exceptions_imageId_idx" ON "vulnerability_exceptions"("imageId");
+CREATE INDEX "vulnerability_exceptions_repositoryId_idx" ON "vulnerability_exceptions"("repositoryId");
+CREATE INDEX "vulnerability_exceptions_cveId_idx" ON "vulnerability_exceptions"("cveId");
+
+-- AddForeignKey
+ALTER TABLE "vulnerability_exceptions" ADD CONSTRAINT "vulnerability_exceptions_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "images"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vulnerability_exceptions" ADD CONSTRAINT "vulnerability_exceptions_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
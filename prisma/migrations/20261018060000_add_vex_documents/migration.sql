@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "VexFormat" AS ENUM ('OPENVEX', 'CYCLONEDX');
+
+-- CreateEnum
+CREATE TYPE "VexStatus" AS ENUM ('NOT_AFFECTED', 'AFFECTED', 'FIXED', 'UNDER_INVESTIGATION');
+
+-- CreateTable
+CREATE TABLE "vex_documents" (
+    "id" TEXT NOT NULL,
+    "format" "VexFormat" NOT NULL,
+    "documentId" TEXT,
+    "source" TEXT NOT NULL,
+    "author" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "importedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vex_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vex_statements" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "vulnerabilityId" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "products" JSONB NOT NULL,
+    "status" "VexStatus" NOT NULL,
+    "justification" TEXT,
+    "impactStatement" TEXT,
+    "actionStatement" TEXT,
+    "timestamp" TIMESTAMP(3),
+
+    CONSTRAINT "vex_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vex_documents_format_documentId_idx" ON "vex_documents"("format", "documentId");
+CREATE INDEX "vex_statements_documentId_idx" ON "vex_statements"("documentId");
+CREATE INDEX "vex_statements_vulnerabilityId_idx" ON "vex_statements"("vulnerabilityId");
+
+-- AddForeignKey
+ALTER TABLE "vex_statements" ADD CONSTRAINT "vex_statements_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "vex_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ThreatFeed" AS ENUM ('EPSS', 'KEV');
+
+-- AlterTable
+ALTER TABLE "vulnerabilities" ADD COLUMN     "epssPercentile" DOUBLE PRECISION,
+ADD COLUMN     "epssScore" DOUBLE PRECISION,
+ADD COLUMN     "kevDateAdded" TIMESTAMP(3),
+ADD COLUMN     "knownExploited" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "scan_vulnerability_findings" ADD COLUMN     "epssPercentile" DOUBLE PRECISION,
+ADD COLUMN     "epssScore" DOUBLE PRECISION,
+ADD COLUMN     "knownExploited" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "epss_scores" (
+    "cveId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "percentile" DOUBLE PRECISION NOT NULL,
+    "scoreDate" TIMESTAMP(3),
+
+    CONSTRAINT "epss_scores_pkey" PRIMARY KEY ("cveId")
+);
+
+-- CreateTable
+CREATE TABLE "kev_entries" (
+    "cveId" TEXT NOT NULL,
+    "vendorProject" TEXT,
+    "product" TEXT,
+    "vulnerabilityName" TEXT,
+    "dateAdded" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3),
+    "requiredAction" TEXT,
+    "knownRansomwareUse" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+
+    CONSTRAINT "kev_entries_pkey" PRIMARY KEY ("cveId")
+);
+
+-- CreateTable
+CREATE TABLE "threat_feed_imports" (
+    "id" TEXT NOT NULL,
+    "feed" "ThreatFeed" NOT NULL,
+    "source" TEXT NOT NULL,
+    "fileName" TEXT,
+    "checksum" TEXT NOT NULL,
+    "feedVersion" TEXT,
+    "feedDate" TIMESTAMP(3),
+    "entryCount" INTEGER NOT NULL,
+    "findingCount" INTEGER NOT NULL,
+    "importedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "threat_feed_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vulnerabilities_epssScore_idx" ON "vulnerabilities"("epssScore");
+
+-- CreateIndex
+CREATE INDEX "vulnerabilities_knownExploited_idx" ON "vulnerabilities"("knownExploited");
+
+-- CreateIndex
+CREATE INDEX "scan_vulnerability_findings_epssScore_idx" ON "scan_vulnerability_findings"("epssScore");
+
+-- CreateIndex
+CREATE INDEX "scan_vulnerability_findings_knownExploited_idx" ON "scan_vulnerability_findings"("knownExploited");
+
+-- CreateIndex
+CREATE INDEX "epss_scores_score_idx" ON "epss_scores"("score");
+
+-- CreateIndex
+CREATE INDEX "threat_feed_imports_feed_createdAt_idx" ON "threat_feed_imports"("feed", "createdAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "vulnerability_sla" (
+    "imageName" TEXT NOT NULL,
+    "cveId" TEXT NOT NULL,
+    "severity" "Severity" NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "suppressed" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vulnerability_sla_pkey" PRIMARY KEY ("imageName","cveId")
+);
+
+-- CreateIndex
+CREATE INDEX "vulnerability_sla_cveId_idx" ON "vulnerability_sla"("cveId");
+
+-- CreateIndex
+CREATE INDEX "vulnerability_sla_dueAt_idx" ON "vulnerability_sla"("dueAt");
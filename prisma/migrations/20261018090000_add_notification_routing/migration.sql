@@ -0,0 +1,88 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('TEAMS', 'SLACK', 'GOTIFY', 'APPRISE');
+
+-- CreateEnum
+CREATE TYPE "NotificationEvent" AS ENUM ('SCAN_COMPLETED', 'SCAN_FAILED', 'POLICY_VIOLATION', 'NEW_CRITICAL', 'AGENT_OFFLINE', 'PATCH_COMPLETED', 'EXCEPTIONS_EXPIRED', 'SLA_BREACH', 'SYSTEM_ALERT', 'TEST');
+
+-- CreateEnum
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'SENDING', 'RETRYING', 'SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "notification_channels" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "config" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "channelId" TEXT NOT NULL,
+    "events" "NotificationEvent"[],
+    "minSeverity" "Severity",
+    "imagePattern" TEXT,
+    "repositoryId" TEXT,
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "event" "NotificationEvent" NOT NULL,
+    "title" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "responseStatus" INTEGER,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_channels_name_key" ON "notification_channels"("name");
+
+-- CreateIndex
+CREATE INDEX "notification_rules_channelId_idx" ON "notification_rules"("channelId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_nextAttemptAt_idx" ON "notification_deliveries"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_channelId_createdAt_idx" ON "notification_deliveries"("channelId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_createdAt_idx" ON "notification_deliveries"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_rules" ADD CONSTRAINT "notification_rules_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_rules" ADD CONSTRAINT "notification_rules_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "notification_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationChannelType" ADD VALUE 'EMAIL';
+
+-- AlterEnum
+ALTER TYPE "NotificationEvent" ADD VALUE 'DAILY_DIGEST';
+ALTER TYPE "NotificationEvent" ADD VALUE 'WEEKLY_DIGEST';
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationChannelType" ADD VALUE 'WEBHOOK';
+
+-- AlterEnum
+ALTER TYPE "NotificationEvent" ADD VALUE 'SCAN_STARTED';
+ALTER TYPE "NotificationEvent" ADD VALUE 'IMAGE_DISCOVERED';
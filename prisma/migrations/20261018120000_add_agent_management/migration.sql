@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "draining" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "keyRotatedAt" TIMESTAMP(3);
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "AgentJobAttemptOutcome" AS ENUM ('COMPLETED', 'FAILED', 'EXPIRED', 'RELEASED');
+
+-- AlterTable
+ALTER TABLE "agent_jobs" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "agent_job_attempts" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "agentId" TEXT,
+    "attempt" INTEGER NOT NULL,
+    "outcome" "AgentJobAttemptOutcome",
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "errorMessage" TEXT,
+
+    CONSTRAINT "agent_job_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_jobs_status_leaseExpiresAt_idx" ON "agent_jobs"("status", "leaseExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "agent_job_attempts_jobId_idx" ON "agent_job_attempts"("jobId");
+
+-- CreateIndex
+CREATE INDEX "agent_job_attempts_agentId_outcome_idx" ON "agent_job_attempts"("agentId", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "agent_job_attempts" ADD CONSTRAINT "agent_job_attempts_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "agent_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "agent_job_attempts" ADD CONSTRAINT "agent_job_attempts_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: jobs handed out before leases count as their first attempt.
+-- Jobs still assigned get a fresh lease, so they are requeued if their agent is gone.
+INSERT INTO "agent_job_attempts" ("id", "jobId", "agentId", "attempt", "outcome", "assignedAt", "endedAt", "errorMessage")
+SELECT 'backfill_' || "id", "id", "agentId", 1,
+       CASE "status" WHEN 'COMPLETED' THEN 'COMPLETED'::"AgentJobAttemptOutcome" WHEN 'FAILED' THEN 'FAILED'::"AgentJobAttemptOutcome" END,
+       COALESCE("assignedAt", "createdAt"), "completedAt", "errorMessage"
+FROM "agent_jobs"
+WHERE "agentId" IS NOT NULL AND "status" <> 'PENDING';
+
+UPDATE "agent_jobs" SET "attempts" = 1 WHERE "agentId" IS NOT NULL AND "status" <> 'PENDING';
+UPDATE "agent_jobs" SET "leaseExpiresAt" = CURRENT_TIMESTAMP + INTERVAL '5 minutes' WHERE "status" IN ('ASSIGNED', 'RUNNING');
@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "RepositoryTagEventType" AS ENUM ('NEW', 'MOVED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "repository_tags" (
+    "id" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "imageName" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "digest" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "repository_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "repository_tag_events" (
+    "id" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "imageName" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "type" "RepositoryTagEventType" NOT NULL,
+    "previousDigest" TEXT,
+    "digest" TEXT,
+    "ruleId" TEXT,
+    "scanId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "repository_tag_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "repository_scan_rules" (
+    "id" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "imagePattern" TEXT,
+    "tagPattern" TEXT NOT NULL,
+    "onNewTag" BOOLEAN NOT NULL DEFAULT true,
+    "onDigestChange" BOOLEAN NOT NULL DEFAULT false,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "repository_scan_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "repository_tags_repositoryId_imageName_tag_key" ON "repository_tags"("repositoryId", "imageName", "tag");
+
+-- CreateIndex
+CREATE INDEX "repository_tags_repositoryId_deletedAt_idx" ON "repository_tags"("repositoryId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "repository_tag_events_repositoryId_createdAt_idx" ON "repository_tag_events"("repositoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "repository_tag_events_createdAt_idx" ON "repository_tag_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "repository_scan_rules_repositoryId_enabled_idx" ON "repository_scan_rules"("repositoryId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "repository_tags" ADD CONSTRAINT "repository_tags_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repository_tag_events" ADD CONSTRAINT "repository_tag_events_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repository_tag_events" ADD CONSTRAINT "repository_tag_events_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "repository_scan_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repository_tag_events" ADD CONSTRAINT "repository_tag_events_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "scans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repository_scan_rules" ADD CONSTRAINT "repository_scan_rules_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
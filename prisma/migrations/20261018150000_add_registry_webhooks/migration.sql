@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "repositories" ADD COLUMN     "webhookSecret" TEXT,
+ADD COLUMN     "tagsSyncedAt" TIMESTAMP(3);
+
+-- Repositories synced before webhooks have their baseline of tags already
+UPDATE "repositories" SET "tagsSyncedAt" = CURRENT_TIMESTAMP WHERE "id" IN (SELECT DISTINCT "repositoryId" FROM "repository_tags");
+
+-- AlterTable
+ALTER TABLE "repository_tag_events" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'sync';
@@ -0,0 +1,171 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Command line client for CI pipelines.
+ *
+ *   harborguard scan <image[:tag][@digest]> [--fail-on critical|high|medium|low|none]
+ *
+ * Starts (or reuses) a scan through /api/scans/gate, waits for it and exits
+ * with the gate's verdict: 0 passed, 1 failed, 2 scan or request error,
+ * 3 timed out. The server URL and API token come from HARBORGUARD_URL and
+ * HARBORGUARD_TOKEN (a token with the scans:write scope) or --url/--token.
+ * Only Node built-ins are used so the file can be copied into CI images.
+ */
+
+import { parseArgs } from 'util';
+
+const EXIT_ERROR = 2;
+const EXIT_TIMEOUT = 3;
+
+// Longest single request; the CLI keeps calling until --timeout runs out
+const MAX_POLL_SECONDS = 120;
+
+const USAGE = `Usage: harborguard scan <image[:tag][@digest]> [options]
+
+Options:
+  --fail-on <severity>   Fail on vulnerabilities at or above critical, high, medium or low
+                         (default: none, only FAIL policies fail the build)
+  --digest <digest>      Reuse a running or recent scan of this digest, or scan exactly it
+  --max-age <hours>      Reuse completed scans up to this age (default: 24, 0 always scans)
+  --repository-id <id>   Registry repository to pull from
+  --timeout <seconds>    Give up after this long (default: 1800)
+  --url <url>            HarborGuard URL (default: $HARBORGUARD_URL)
+  --token <token>        API token (default: $HARBORGUARD_TOKEN)
+  --json                 Print the gate result as JSON
+  -h, --help             Show this help`;
+
+interface GateResult {
+  done: boolean;
+  scanId: string;
+  image: string;
+  digest: string;
+  reused: boolean;
+  status: string;
+  scanPath: string;
+  counts: Record<string, number>;
+  policy: { verdict: string | null; violationCount: number; failedPolicies: string[]; warnedPolicies: string[] };
+  failOn: string;
+  passed: boolean | null;
+  exitCode: number | null;
+  reasons: string[];
+}
+
+function parseImageRef(ref: string): { image: string; tag: string; digest?: string } {
+  const [name, digest] = ref.split('@');
+  const lastSlash = name.lastIndexOf('/');
+  const lastColon = name.lastIndexOf(':');
+  if (lastColon > lastSlash) {
+    return { image: name.slice(0, lastColon), tag: name.slice(lastColon + 1), digest };
+  }
+  return { image: name, tag: 'latest', digest };
+}
+
+function printSummary(baseUrl: string, result: GateResult) {
+  const { counts, policy } = result;
+  console.log(`${result.image} (${result.digest})`);
+  console.log(`  scan:     ${result.status}${result.reused ? ' (reused)' : ''}  ${baseUrl}${result.scanPath}`);
+  console.log(`  findings: ${counts.critical} critical, ${counts.high} high, ${counts.medium} medium, ${counts.low} low`);
+  console.log(`  policy:   ${policy.verdict ?? 'not evaluated'}${policy.warnedPolicies.length ? ` (warnings: ${policy.warnedPolicies.join(', ')})` : ''}`);
+  if (result.passed) {
+    console.log('PASSED');
+  } else {
+    console.log('FAILED');
+    for (const reason of result.reasons) console.log(`  - ${reason}`);
+  }
+}
+
+async function scan(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'fail-on': { type: 'string', default: 'none' },
+      digest: { type: 'string' },
+      'max-age': { type: 'string', default: '24' },
+      'repository-id': { type: 'string' },
+      timeout: { type: 'string', default: '1800' },
+      url: { type: 'string', default: process.env.HARBORGUARD_URL },
+      token: { type: 'string', default: process.env.HARBORGUARD_TOKEN },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_ERROR;
+  }
+  if (!values.url) {
+    console.error('Set HARBORGUARD_URL or pass --url');
+    return EXIT_ERROR;
+  }
+
+  const baseUrl = values.url.replace(/\/+$/, '');
+  const ref = parseImageRef(positionals[0]);
+  const deadline = Date.now() + Number(values.timeout) * 1000;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (values.token) headers.Authorization = `Bearer ${values.token}`;
+
+  let scanId: string | undefined;
+  while (true) {
+    const remaining = Math.ceil((deadline - Date.now()) / 1000);
+    const body = scanId
+      ? { scanId, failOn: values['fail-on'], timeout: Math.max(0, Math.min(remaining, MAX_POLL_SECONDS)) }
+      : {
+          image: ref.image,
+          tag: ref.tag,
+          digest: values.digest ?? ref.digest,
+          repositoryId: values['repository-id'],
+          failOn: values['fail-on'],
+          maxAgeHours: Number(values['max-age']),
+          timeout: Math.max(0, Math.min(remaining, MAX_POLL_SECONDS)),
+        };
+
+    const response = await fetch(`${baseUrl}/api/scans/gate`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.status !== 200 && response.status !== 202) {
+      console.error(`HarborGuard returned ${response.status}: ${data.error || response.statusText}`);
+      return EXIT_ERROR;
+    }
+
+    const result = data as GateResult;
+    scanId = result.scanId;
+
+    if (result.done && result.exitCode !== null) {
+      if (values.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printSummary(baseUrl, result);
+      }
+      return result.exitCode;
+    }
+
+    if (Date.now() >= deadline) {
+      console.error(`Timed out waiting for scan ${scanId} (${result.status}); see ${baseUrl}${result.scanPath}`);
+      return EXIT_TIMEOUT;
+    }
+    if (!values.json) console.error(`Waiting for scan ${scanId} (${result.status})...`);
+  }
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'scan') return scan(args);
+
+  console.log(USAGE);
+  return command === '-h' || command === '--help' ? 0 : EXIT_ERROR;
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error('harborguard:', error instanceof Error ? error.message : error);
+    process.exitCode = EXIT_ERROR;
+  });
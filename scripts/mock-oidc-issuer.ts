@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * Run a local mock OIDC issuer for trying out single sign-on by hand.
+ *
+ *   npx tsx scripts/mock-oidc-issuer.ts [port] [group,group...]
+ *
+ * Point Settings > Single Sign-On at the printed issuer and client ID. Every
+ * login is approved immediately as "mock.user" with the given groups.
+ */
+
+import { startMockOidcIssuer } from '../tests/playwright/mock-oidc-issuer';
+
+async function main() {
+  const port = parseInt(process.argv[2] || '9400');
+  const groups = (process.argv[3] || 'hg-admins').split(',').map(g => g.trim()).filter(Boolean);
+
+  const issuer = await startMockOidcIssuer({
+    port,
+    user: {
+      sub: 'mock-user-1',
+      preferred_username: 'mock.user',
+      email: 'mock.user@example.com',
+      name: 'Mock User',
+      groups,
+    },
+  });
+
+  console.log(`Mock OIDC issuer listening at ${issuer.issuer}`);
+  console.log(`  client ID: ${issuer.clientId}`);
+  console.log(`  groups:    ${groups.join(', ')}`);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock OIDC issuer:', error);
+  process.exit(1);
+});
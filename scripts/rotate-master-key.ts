@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-encrypt every stored registry credential with the current master key.
+ *
+ *   HG_MASTER_KEY=<new> HG_MASTER_KEY_PREVIOUS=<old> npx tsx scripts/rotate-master-key.ts
+ *   npx tsx scripts/rotate-master-key.ts --generate-key
+ *
+ * Rows encrypted with a key listed in HG_MASTER_KEY_PREVIOUS and rows still
+ * in plaintext are rewritten under HG_MASTER_KEY, each with a fresh data key.
+ * Remove the old key from HG_MASTER_KEY_PREVIOUS once this reports no failures.
+ */
+
+import crypto from 'crypto';
+import { getCurrentMasterKeyId } from '../src/lib/crypto/envelope';
+import { reencryptRepositoryCredentials } from '../src/lib/registry/credentials';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  if (process.argv.includes('--generate-key')) {
+    console.log(crypto.randomBytes(32).toString('base64'));
+    return;
+  }
+
+  const keyId = getCurrentMasterKeyId();
+  if (!keyId) {
+    console.error('HG_MASTER_KEY (or HG_MASTER_KEY_FILE) must be set to the new master key');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Re-encrypting registry credentials with master key ${keyId}...`);
+  const result = await reencryptRepositoryCredentials({ all: true });
+  console.log(`  updated: ${result.updated}, unchanged: ${result.unchanged}, failed: ${result.failed}`);
+
+  if (result.failed > 0) {
+    console.error('Some credentials could not be decrypted; make sure every old key is listed in HG_MASTER_KEY_PREVIOUS');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
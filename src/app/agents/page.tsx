@@ -0,0 +1,578 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { History, KeyRound, Pause, Pencil, Play, Plus, Power, RefreshCw, Server, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CreateAgentDialog, type IssuedAgentKey } from "@/components/dialogs/create-agent-dialog";
+
+type AgentStatus = "ACTIVE" | "INACTIVE" | "DISCONNECTED";
+type JobStatus = "PENDING" | "ASSIGNED" | "RUNNING" | "COMPLETED" | "FAILED";
+type AttemptOutcome = "COMPLETED" | "FAILED" | "EXPIRED" | "RELEASED";
+
+interface JobStats {
+  total: number;
+  completed: number;
+  failed: number;
+  expired: number;
+  failureRate: number | null;
+}
+
+interface Agent {
+  id: string;
+  name: string;
+  status: AgentStatus;
+  lastSeenAt: string | null;
+  registeredAt: string;
+  hostname: string | null;
+  os: string | null;
+  arch: string | null;
+  sensorVersion: string | null;
+  scannerVersions: Record<string, string> | null;
+  capabilities: string[];
+  draining: boolean;
+  keyRotatedAt: string | null;
+  metadata: { activeScans?: number } | null;
+  jobStats: JobStats;
+}
+
+interface AgentJob {
+  id: string;
+  type: "SCAN" | "PATCH";
+  status: JobStatus;
+  createdAt: string;
+  assignedAt: string | null;
+  completedAt: string | null;
+  errorMessage: string | null;
+  attempts: number;
+  leaseExpiresAt: string | null;
+  // This agent's attempts of the job
+  attemptLog: Array<{
+    attempt: number;
+    outcome: AttemptOutcome | null;
+    assignedAt: string;
+    endedAt: string | null;
+    errorMessage: string | null;
+  }>;
+  scan: { id: string; status: string; image: { name: string; tag: string } } | null;
+}
+
+const AGENT_STATUS: Record<AgentStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  ACTIVE: { label: "Active", variant: "default" },
+  DISCONNECTED: { label: "Disconnected", variant: "destructive" },
+  INACTIVE: { label: "Disabled", variant: "secondary" },
+};
+
+const JOB_STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "outline",
+  ASSIGNED: "outline",
+  RUNNING: "secondary",
+  COMPLETED: "default",
+  FAILED: "destructive",
+};
+
+const ATTEMPT_OUTCOME_LABELS: Record<AttemptOutcome, string> = {
+  COMPLETED: "completed",
+  FAILED: "failed",
+  EXPIRED: "lease expired",
+  RELEASED: "handed back",
+};
+
+const headClass = "text-caption uppercase tracking-widest";
+const actionClass = "rounded-none border-white/10 hover:bg-white/5";
+
+function EmptyRow({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-center py-12">
+      <div className="text-caption uppercase tracking-widest text-muted-foreground/40">{children}</div>
+    </div>
+  );
+}
+
+function formatFailureRate(stats: JobStats): string {
+  return stats.failureRate === null ? "No finished jobs" : `${Math.round(stats.failureRate * 100)}% failed`;
+}
+
+function formatDuration(job: AgentJob): string {
+  if (!job.assignedAt || !job.completedAt) return "—";
+  const seconds = Math.round((new Date(job.completedAt).getTime() - new Date(job.assignedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function describeAttempt(attempt: AgentJob["attemptLog"][number]): string {
+  if (!attempt.outcome) return `Attempt ${attempt.attempt}: in progress`;
+  const ended = attempt.endedAt ? ` ${formatDistanceToNow(new Date(attempt.endedAt), { addSuffix: true })}` : "";
+  return `Attempt ${attempt.attempt}: ${ATTEMPT_OUTCOME_LABELS[attempt.outcome]}${ended}`;
+}
+
+function JobHistoryCard({ agent, refreshKey }: { agent: Agent; refreshKey: number }) {
+  const [jobs, setJobs] = useState<AgentJob[]>([]);
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<JobStats>(agent.jobStats);
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(null);
+  const [status, setStatus] = useState<JobStatus | "ALL">("ALL");
+  const [loading, setLoading] = useState(true);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const query = status === "ALL" ? "" : `&status=${status}`;
+      const response = await fetch(`/api/agents/${agent.id}/jobs?limit=100${query}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setJobs(data.jobs);
+      setTotal(data.total);
+      setStats(data.stats);
+      setMaxAttempts(data.maxAttempts);
+    } catch (error) {
+      console.error("Failed to fetch agent jobs:", error);
+      toast.error("Failed to load the job history");
+    } finally {
+      setLoading(false);
+    }
+  }, [agent.id, status]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs, refreshKey]);
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+              <History className="h-4 w-4 text-accent" />
+              Job History · {agent.name}
+            </CardTitle>
+            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              {stats.total} attempts · {stats.completed} completed · {stats.failed} failed · {stats.expired} leases expired · {formatFailureRate(stats)}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Select value={status} onValueChange={(value) => setStatus(value as JobStatus | "ALL")}>
+              <SelectTrigger className="w-40 rounded-none border-white/10 text-caption uppercase tracking-widest">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-overlay border-white/10 rounded-none">
+                <SelectItem value="ALL">All statuses</SelectItem>
+                {(Object.keys(JOB_STATUS_VARIANTS) as JobStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" title="Refresh" onClick={fetchJobs} className={`${actionClass} h-9`}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <EmptyRow>Loading jobs...</EmptyRow>
+        ) : jobs.length === 0 ? (
+          <EmptyRow>No jobs handed to this agent yet</EmptyRow>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10">
+                  <TableHead className={headClass}>Job</TableHead>
+                  <TableHead className={headClass}>Image</TableHead>
+                  <TableHead className={headClass}>Status</TableHead>
+                  <TableHead className={headClass}>Attempts</TableHead>
+                  <TableHead className={headClass}>Duration</TableHead>
+                  <TableHead className={headClass}>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id} className="border-white/10">
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-body-sm text-foreground">{job.type}</span>
+                        <span className="text-caption font-mono text-muted-foreground/60">{job.id}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-caption font-mono text-muted-foreground/80">
+                      {job.scan ? `${job.scan.image.name}:${job.scan.image.tag}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        <Badge variant={JOB_STATUS_VARIANTS[job.status]} className="rounded-none uppercase tracking-widest text-caption w-fit">
+                          {job.status}
+                        </Badge>
+                        {job.errorMessage && (
+                          <span className="text-caption text-red-400 max-w-xs truncate" title={job.errorMessage}>
+                            {job.errorMessage}
+                          </span>
+                        )}
+                        {job.leaseExpiresAt && (
+                          <span className="text-caption text-muted-foreground/60">
+                            Lease ends {formatDistanceToNow(new Date(job.leaseExpiresAt), { addSuffix: true })}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-caption text-muted-foreground/80">
+                          {job.attempts}{maxAttempts ? ` of ${maxAttempts}` : ""}
+                        </span>
+                        {job.attemptLog.map((attempt) => (
+                          <span
+                            key={attempt.attempt}
+                            title={attempt.errorMessage || undefined}
+                            className={`text-caption ${attempt.outcome === "EXPIRED" || attempt.outcome === "FAILED" ? "text-red-400" : "text-muted-foreground/60"}`}
+                          >
+                            {describeAttempt(attempt)}
+                          </span>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-caption text-muted-foreground/80">{formatDuration(job)}</TableCell>
+                    <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                      {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {total > jobs.length && (
+              <div className="border-t border-white/10 py-3 text-center text-caption uppercase tracking-widest text-muted-foreground/40">
+                Showing the latest {jobs.length} of {total} jobs
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AgentsPage() {
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [denied, setDenied] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyRefresh, setHistoryRefresh] = useState(0);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<IssuedAgentKey | null>(null);
+
+  const fetchAgents = useCallback(async () => {
+    try {
+      const response = await fetch("/api/agents");
+      if (response.status === 403) {
+        setDenied(true);
+        return;
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setAgents(await response.json());
+      setHistoryRefresh((key) => key + 1);
+    } catch (error) {
+      console.error("Failed to fetch agents:", error);
+      toast.error("Failed to load agents");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAgents();
+  }, [fetchAgents]);
+
+  const updateAgent = async (agent: Agent, changes: { name?: string; enabled?: boolean; draining?: boolean }, success: string) => {
+    try {
+      const response = await fetch(`/api/agents/${agent.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to update agent");
+        return;
+      }
+      toast.success(success);
+      fetchAgents();
+    } catch {
+      toast.error("Failed to update agent");
+    }
+  };
+
+  const handleRename = (agent: Agent) => {
+    const name = prompt("New name for the agent", agent.name)?.trim();
+    if (!name || name === agent.name) return;
+    updateAgent(agent, { name }, `Agent renamed to "${name}"`);
+  };
+
+  const handleDrain = (agent: Agent) => {
+    if (agent.draining) {
+      updateAgent(agent, { draining: false }, `"${agent.name}" takes new jobs again`);
+      return;
+    }
+    if (!confirm(`Drain "${agent.name}"? It finishes its running jobs but is handed no new ones.`)) return;
+    updateAgent(agent, { draining: true }, `"${agent.name}" is draining`);
+  };
+
+  const handleToggleEnabled = (agent: Agent) => {
+    if (agent.status === "INACTIVE") {
+      updateAgent(agent, { enabled: true }, `"${agent.name}" enabled`);
+      return;
+    }
+    if (!confirm(`Disable "${agent.name}"? Its key is rejected until it is enabled again, and its unfinished jobs go back to the queue.`)) return;
+    updateAgent(agent, { enabled: false }, `"${agent.name}" disabled`);
+  };
+
+  const handleRotateKey = async (agent: Agent) => {
+    if (!confirm(`Rotate the key of "${agent.name}"? The current key stops working immediately.`)) return;
+    try {
+      const response = await fetch(`/api/agents/${agent.id}/rotate-key`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || "Failed to rotate key");
+        return;
+      }
+      setIssuedKey({ agentName: agent.name, apiKey: data.apiKey });
+      setIsCreateDialogOpen(true);
+      fetchAgents();
+    } catch {
+      toast.error("Failed to rotate key");
+    }
+  };
+
+  const handleDelete = async (agent: Agent) => {
+    if (!confirm(`Delete agent "${agent.name}"? Its key stops working and its unfinished jobs go back to the queue.`)) return;
+    try {
+      const response = await fetch(`/api/agents/${agent.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete agent");
+        return;
+      }
+      toast.success(`Agent "${agent.name}" deleted`);
+      if (selectedId === agent.id) setSelectedId(null);
+      fetchAgents();
+    } catch {
+      toast.error("Failed to delete agent");
+    }
+  };
+
+  const selected = agents.find((agent) => agent.id === selectedId);
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="flex items-start justify-between gap-4 mb-8">
+            <div className="space-y-1">
+              <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Administration</p>
+              <h1 className="text-2xl tracking-tight text-foreground">
+                Agents
+              </h1>
+              <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                Remote sensors that run scans for this instance
+              </p>
+            </div>
+            <Button
+              onClick={() => setIsCreateDialogOpen(true)}
+              disabled={denied}
+              className="rounded-none uppercase tracking-widest text-caption"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Create Agent
+            </Button>
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                    <Server className="h-4 w-4 text-accent" />
+                    Agents
+                  </CardTitle>
+                  <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                    Agents without a heartbeat for two minutes count as disconnected. Draining agents finish their jobs but get no new ones.
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" title="Refresh" onClick={fetchAgents} className={`${actionClass} h-9 shrink-0`}>
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <EmptyRow>Loading agents...</EmptyRow>
+              ) : denied ? (
+                <EmptyRow>Agents can only be managed from the local network</EmptyRow>
+              ) : agents.length === 0 ? (
+                <EmptyRow>No agents yet</EmptyRow>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className={headClass}>Agent</TableHead>
+                      <TableHead className={headClass}>Status</TableHead>
+                      <TableHead className={headClass}>Heartbeat</TableHead>
+                      <TableHead className={headClass}>Versions</TableHead>
+                      <TableHead className={headClass}>Capabilities</TableHead>
+                      <TableHead className={headClass}>Jobs</TableHead>
+                      <TableHead className={`${headClass} text-right`}>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {agents.map((agent) => {
+                      const status = AGENT_STATUS[agent.status];
+                      const platform = [agent.hostname, [agent.os, agent.arch].filter(Boolean).join("/")].filter(Boolean).join(" · ");
+                      return (
+                        <TableRow
+                          key={agent.id}
+                          className={`border-white/10 ${agent.id === selectedId ? "bg-white/5" : ""}`}
+                        >
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="text-body-sm text-foreground">{agent.name}</span>
+                              <span className="text-caption text-muted-foreground/60">{platform || "Not registered yet"}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col gap-1">
+                              <Badge variant={status.variant} className="rounded-none uppercase tracking-widest text-caption w-fit">
+                                {status.label}
+                              </Badge>
+                              {agent.draining && (
+                                <Badge variant="outline" className="rounded-none uppercase tracking-widest text-caption w-fit border-white/10">
+                                  Draining
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                            <div className="flex flex-col">
+                              <span>
+                                {agent.lastSeenAt
+                                  ? formatDistanceToNow(new Date(agent.lastSeenAt), { addSuffix: true })
+                                  : "Never"}
+                              </span>
+                              {agent.status === "ACTIVE" && !!agent.metadata?.activeScans && (
+                                <span>{agent.metadata.activeScans} active scans</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col text-caption font-mono text-muted-foreground/80">
+                              <span>sensor {agent.sensorVersion || "—"}</span>
+                              {Object.entries(agent.scannerVersions || {}).map(([scanner, version]) => (
+                                <span key={scanner} className="text-muted-foreground/60">{scanner} {String(version)}</span>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1 max-w-xs">
+                              {agent.capabilities.map((capability) => (
+                                <Badge key={capability} variant="outline" className="rounded-none font-mono text-caption border-white/10">
+                                  {capability}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="text-body-sm text-foreground">{agent.jobStats.total}</span>
+                              <span className={`text-caption ${agent.jobStats.failed + agent.jobStats.expired > 0 ? "text-red-400" : "text-muted-foreground/60"}`}>
+                                {formatFailureRate(agent.jobStats)}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="outline" size="sm" title="Job history" onClick={() => setSelectedId(agent.id)} className={actionClass}>
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button variant="outline" size="sm" title="Rename" onClick={() => handleRename(agent)} className={actionClass}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={agent.draining ? "Resume handing out jobs" : "Drain"}
+                                disabled={agent.status === "INACTIVE"}
+                                onClick={() => handleDrain(agent)}
+                                className={actionClass}
+                              >
+                                {agent.draining ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={agent.keyRotatedAt
+                                  ? `Rotate key (last rotated ${formatDistanceToNow(new Date(agent.keyRotatedAt), { addSuffix: true })})`
+                                  : "Rotate key"}
+                                onClick={() => handleRotateKey(agent)}
+                                className={actionClass}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={agent.status === "INACTIVE" ? "Enable" : "Disable"}
+                                onClick={() => handleToggleEnabled(agent)}
+                                className={`${actionClass} ${agent.status === "INACTIVE" ? "" : "text-amber-400"}`}
+                              >
+                                <Power className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Delete agent"
+                                onClick={() => handleDelete(agent)}
+                                className={`${actionClass} text-red-400`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {selected && <JobHistoryCard key={selected.id} agent={selected} refreshKey={historyRefresh} />}
+        </div>
+      </div>
+
+      <CreateAgentDialog
+        open={isCreateDialogOpen}
+        onOpenChange={(open) => {
+          setIsCreateDialogOpen(open);
+          if (!open) setIssuedKey(null);
+        }}
+        onAgentCreated={fetchAgents}
+        issuedKey={issuedKey}
+      />
+    </div>
+  );
+}
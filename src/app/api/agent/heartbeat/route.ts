@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { extractBearerToken, validateApiKey } from '@/lib/agent/api-keys';
+import { renewLeases } from '@/lib/agent/leases';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,11 +16,12 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
+    const now = new Date();
 
     await prisma.agent.update({
       where: { id: agent.id },
       data: {
-        lastSeenAt: new Date(),
+        lastSeenAt: now,
         status: 'ACTIVE',
         metadata: {
           activeScans: body.activeScans ?? 0,
@@ -29,7 +31,10 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({ ok: true });
+    // A live agent keeps the jobs it holds
+    const renewedJobs = await renewLeases(agent.id, now);
+
+    return NextResponse.json({ ok: true, renewedJobs });
   } catch (error) {
     console.error('Heartbeat error:', error);
     return NextResponse.json({ error: 'Heartbeat failed' }, { status: 500 });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { extractBearerToken, validateApiKey } from '@/lib/agent/api-keys';
+import { finishJob, startJob } from '@/lib/agent/leases';
 
 export async function POST(
   request: NextRequest,
@@ -21,8 +22,9 @@ export async function POST(
     const body = await request.json();
     const { status, error: errorMessage } = body;
 
-    if (!['completed', 'failed'].includes(status)) {
-      return NextResponse.json({ error: 'Status must be "completed" or "failed"' }, { status: 400 });
+    // "running" only renews the lease; "completed" and "failed" finish the job
+    if (!['running', 'completed', 'failed'].includes(status)) {
+      return NextResponse.json({ error: 'Status must be "running", "completed" or "failed"' }, { status: 400 });
     }
 
     const job = await prisma.agentJob.findUnique({ where: { id: jobId } });
@@ -30,20 +32,19 @@ export async function POST(
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
     if (job.agentId !== agent.id) {
+      // Also when its lease expired and the job went back to the queue
       return NextResponse.json({ error: 'Job not assigned to this agent' }, { status: 403 });
     }
     if (job.status === 'COMPLETED' || job.status === 'FAILED') {
       return NextResponse.json({ error: 'Job already finalized' }, { status: 409 });
     }
 
-    await prisma.agentJob.update({
-      where: { id: jobId },
-      data: {
-        status: status === 'completed' ? 'COMPLETED' : 'FAILED',
-        completedAt: new Date(),
-        errorMessage: errorMessage ?? null,
-      },
-    });
+    const held = status === 'running'
+      ? await startJob(jobId, agent.id)
+      : await finishJob(job, agent.id, status === 'completed' ? 'COMPLETED' : 'FAILED', errorMessage ?? null);
+    if (!held) {
+      return NextResponse.json({ error: 'Job is no longer held by this agent' }, { status: 409 });
+    }
 
     return NextResponse.json({ ok: true });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { extractBearerToken, validateApiKey } from '@/lib/agent/api-keys';
+import { claimJob, requeueExpiredJobs } from '@/lib/agent/leases';
+import { config } from '@/lib/config';
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,6 +16,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
     }
 
+    // Draining agents finish what they run but get nothing new
+    if (agent.draining) {
+      return NextResponse.json({ jobs: [], leaseSeconds: config.agentJobLeaseSeconds });
+    }
+
+    // Jobs lost by other agents are offered again right away
+    await requeueExpiredJobs();
+
     // Find pending jobs (unassigned or assigned to this agent)
     const jobs = await prisma.agentJob.findMany({
       where: {
@@ -31,25 +41,24 @@ export async function GET(request: NextRequest) {
       (j) => j.type === 'SCAN' || (j.type === 'PATCH' && agent.capabilities.includes('patch')),
     );
 
-    // Atomically claim jobs — only succeed if still PENDING
+    // Atomically claim jobs with a lease — only succeed if still PENDING
     const claimedJobs = [];
     for (const job of filteredJobs) {
-      const result = await prisma.agentJob.updateMany({
-        where: { id: job.id, status: 'PENDING' },
-        data: { agentId: agent.id, status: 'ASSIGNED', assignedAt: new Date() },
-      });
-      if (result.count > 0) {
+      if (await claimJob(job, agent.id)) {
         claimedJobs.push(job);
       }
     }
 
+    // The lease is renewed by heartbeats and status updates
     return NextResponse.json({
       jobs: claimedJobs.map((j) => ({
         id: j.id,
         type: j.type,
         createdAt: j.createdAt.toISOString(),
+        attempt: j.attempts + 1,
         ...(j.payload as object),
       })),
+      leaseSeconds: config.agentJobLeaseSeconds,
     });
   } catch (error) {
     console.error('Job polling error:', error);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AgentJobStatus, Prisma } from '@/generated/prisma';
+import { prisma } from '@/lib/prisma';
+import { getAgentJobStats, isLocalRequest } from '@/lib/agent/management';
+import { config } from '@/lib/config';
+
+const JOB_STATUSES: AgentJobStatus[] = ['PENDING', 'ASSIGNED', 'RUNNING', 'COMPLETED', 'FAILED'];
+const MAX_LIMIT = 200;
+
+/**
+ * The jobs handed to the agent, newest first, with its attempts of each
+ * (including the ones it lost when its lease expired) and its failure rate
+ * over all finished attempts. Filter with ?status= (the job's current
+ * status); page with ?limit= (default 50, maximum 200) and ?offset=.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isLocalRequest(request)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status')?.toUpperCase();
+    const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : 50;
+    const offset = searchParams.get('offset') ? Number(searchParams.get('offset')) : 0;
+
+    if (status && !(JOB_STATUSES as string[]).includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${JOB_STATUSES.join(', ')}` }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: 'offset must be a non-negative integer' }, { status: 400 });
+    }
+
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const where: Prisma.AgentJobWhereInput = {
+      OR: [{ agentId: id }, { attemptLog: { some: { agentId: id } } }],
+      ...(status ? { status: status as AgentJobStatus } : {}),
+    };
+
+    const [jobs, total, stats] = await Promise.all([
+      prisma.agentJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit,
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          createdAt: true,
+          assignedAt: true,
+          completedAt: true,
+          errorMessage: true,
+          attempts: true,
+          leaseExpiresAt: true,
+          attemptLog: {
+            where: { agentId: id },
+            orderBy: { attempt: 'asc' },
+            select: { attempt: true, outcome: true, assignedAt: true, endedAt: true, errorMessage: true },
+          },
+          scan: { select: { id: true, status: true, image: { select: { name: true, tag: true } } } },
+        },
+      }),
+      prisma.agentJob.count({ where }),
+      getAgentJobStats([id]),
+    ]);
+
+    return NextResponse.json({
+      jobs,
+      total,
+      maxAttempts: config.agentJobMaxAttempts,
+      stats: stats.get(id),
+    });
+  } catch (error) {
+    console.error('Agent job history error:', error);
+    return NextResponse.json({ error: 'Failed to fetch agent jobs' }, { status: 500 });
+  }
+}
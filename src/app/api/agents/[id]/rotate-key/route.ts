@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { generateApiKey } from '@/lib/agent/api-keys';
+import { isLocalRequest } from '@/lib/agent/management';
+import { auditLogger } from '@/lib/audit-logger';
+
+/**
+ * Replace the agent's API key. The old key stops working at once and the
+ * new one is only returned here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isLocalRequest(request)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const { key, hash } = generateApiKey();
+    const updated = await prisma.agent.update({
+      where: { id },
+      data: { apiKeyHash: hash, keyRotatedAt: new Date() },
+      select: { id: true, name: true, keyRotatedAt: true },
+    });
+
+    await auditLogger.agentChange(request, 'rotate_key', agent.name, { agentId: id });
+
+    return NextResponse.json({ ...updated, apiKey: key });
+  } catch (error) {
+    console.error('Agent key rotation error:', error);
+    return NextResponse.json({ error: 'Failed to rotate agent key' }, { status: 500 });
+  }
+}
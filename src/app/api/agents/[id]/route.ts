@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { releaseAgentJobs } from '@/lib/agent/leases';
+import { isLocalRequest, MAX_AGENT_NAME_LENGTH } from '@/lib/agent/management';
+import { auditLogger } from '@/lib/audit-logger';
+
+const UpdateAgentSchema = z.object({
+  name: z.string().trim().min(1, 'Agent name is required')
+    .max(MAX_AGENT_NAME_LENGTH, `Agent name must be at most ${MAX_AGENT_NAME_LENGTH} characters`)
+    .optional(),
+  // Disabled agents are rejected with their key until enabled again
+  enabled: z.boolean().optional(),
+  draining: z.boolean().optional(),
+});
+
+/**
+ * Rename, disable or enable an agent, or start or stop draining it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isLocalRequest(request)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const parsed = UpdateAgentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 });
+    }
+
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true, name: true, status: true } });
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const { name, enabled, draining } = parsed.data;
+    // Re-enabled agents count as disconnected until their next heartbeat
+    const status = enabled === false ? 'INACTIVE'
+      : enabled === true && agent.status === 'INACTIVE' ? 'DISCONNECTED'
+      : undefined;
+
+    const updated = await prisma.agent.update({
+      where: { id },
+      data: { name, draining, status },
+      select: { id: true, name: true, status: true, draining: true },
+    });
+
+    // A disabled agent cannot report back, so its running jobs go to others too
+    if (enabled === false || draining === true) {
+      await releaseAgentJobs(id, { inFlight: enabled === false });
+    }
+
+    await auditLogger.agentChange(request, 'update', updated.name, {
+      agentId: id,
+      ...(name !== undefined && name !== agent.name && { previousName: agent.name }),
+      ...(enabled !== undefined && { enabled }),
+      ...(draining !== undefined && { draining }),
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Agent update error:', error);
+    return NextResponse.json({ error: 'Failed to update agent' }, { status: 500 });
+  }
+}
+
+/**
+ * Delete an agent, revoking its key. Its job history is kept without the
+ * agent, and jobs it had not finished are queued again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isLocalRequest(request)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const requeued = await releaseAgentJobs(id, { inFlight: true });
+    await prisma.agent.delete({ where: { id } });
+    await auditLogger.agentChange(request, 'delete', agent.name, { agentId: id, requeuedJobs: requeued });
+
+    return NextResponse.json({ success: true, requeuedJobs: requeued });
+  } catch (error) {
+    console.error('Agent deletion error:', error);
+    return NextResponse.json({ error: 'Failed to delete agent' }, { status: 500 });
+  }
+}
@@ -1,20 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { generateApiKey } from '@/lib/agent/api-keys';
-
-function isLocalRequest(request: NextRequest): boolean {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const ip = forwarded?.split(',')[0] || realIP || 'localhost';
-  const allowedIPs = ['127.0.0.1', '::1', 'localhost', '::ffff:127.0.0.1'];
-  if (allowedIPs.some((a) => ip === a)) return true;
-  if (ip.startsWith('10.')) return true;
-  if (ip.startsWith('172.')) {
-    const secondOctet = parseInt(ip.split('.')[1], 10);
-    if (secondOctet >= 16 && secondOctet <= 31) return true;
-  }
-  return false;
-}
+import { AGENT_STALE_MS, markStaleAgents } from '@/lib/agent/liveness';
+import { getAgentJobStats, isLocalRequest, MAX_AGENT_NAME_LENGTH } from '@/lib/agent/management';
+import { auditLogger } from '@/lib/audit-logger';
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,17 +24,18 @@ export async function GET(request: NextRequest) {
         scannerVersions: true,
         capabilities: true,
         s3Configured: true,
+        draining: true,
+        keyRotatedAt: true,
+        metadata: true,
         _count: { select: { scanJobs: true } },
       },
       orderBy: { registeredAt: 'desc' },
     });
 
-    // Batch-mark stale agents as disconnected
-    const staleThreshold = new Date(Date.now() - 2 * 60 * 1000);
-    await prisma.agent.updateMany({
-      where: { status: 'ACTIVE', lastSeenAt: { lt: staleThreshold } },
-      data: { status: 'DISCONNECTED' },
-    });
+    // Mark stale agents as disconnected
+    const now = new Date();
+    const staleThreshold = new Date(now.getTime() - AGENT_STALE_MS);
+    await markStaleAgents(now);
 
     // Reflect in response without re-querying
     for (const agent of agents) {
@@ -54,7 +44,14 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json(agents);
+    const jobStats = await getAgentJobStats(agents.map((agent) => agent.id));
+
+    return NextResponse.json(
+      agents.map((agent) => ({
+        ...agent,
+        jobStats: jobStats.get(agent.id),
+      })),
+    );
   } catch (error) {
     console.error('Agent list error:', error);
     return NextResponse.json({ error: 'Failed to list agents' }, { status: 500 });
@@ -68,11 +65,17 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
 
-    if (!name || typeof name !== 'string') {
+    if (!name) {
       return NextResponse.json({ error: 'Agent name is required' }, { status: 400 });
     }
+    if (name.length > MAX_AGENT_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Agent name must be at most ${MAX_AGENT_NAME_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
 
     const { key, hash } = generateApiKey();
 
@@ -83,6 +86,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await auditLogger.agentChange(request, 'create', agent.name, { agentId: agent.id });
+
     return NextResponse.json(
       {
         id: agent.id,
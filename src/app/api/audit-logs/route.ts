@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { EventType, LogCategory, LogAction } from '@/generated/prisma';
 import { apiError } from '@/lib/api/api-utils';
+import { getRequestUser } from '@/lib/auth';
 
 const auditLogQuerySchema = z.object({
   page: z.string().optional().default('1'),
@@ -10,6 +11,7 @@ const auditLogQuerySchema = z.object({
   eventType: z.string().optional(),
   category: z.string().optional(),
   userIp: z.string().optional(),
+  username: z.string().optional(),
   resource: z.string().optional(),
   search: z.string().optional(),
   startDate: z.string().optional(),
@@ -104,6 +106,10 @@ export async function GET(request: NextRequest) {
       where.userIp = { contains: query.userIp };
     }
     
+    if (query.username) {
+      where.username = { contains: query.username };
+    }
+    
     if (query.resource) {
       where.resource = { contains: query.resource };
     }
@@ -113,6 +119,7 @@ export async function GET(request: NextRequest) {
         { action: { contains: query.search } },
         { resource: { contains: query.search } },
         { userIp: { contains: query.search } },
+        { username: { contains: query.search } },
         { eventType: { contains: query.search } },
       ];
     }
@@ -167,12 +174,16 @@ export async function POST(request: NextRequest) {
     // Protect IP in demo mode
     const protectedIp = process.env.NEXT_PUBLIC_DEMO_MODE === 'true' ? 'DEMO_PROTECT' : body.userIp;
 
+    // Events are attributed to the signed-in user, never to a user named in the body
+    const user = getRequestUser(request);
+
     const auditLogData = {
       eventType: mapEventType(body.eventType),
       category: mapLogCategory(body.category),
       userIp: protectedIp,
       userAgent: body.userAgent || null,
-      userId: body.userId || null,
+      userId: user ? user.id : body.userId || null,
+      username: user?.username ?? null,
       resource: body.resource || null,
       action: mapLogAction(body.action),
       details: body.details || null,
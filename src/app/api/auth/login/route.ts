@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger, getUserIpFromRequest } from '@/lib/audit-logger'
+import { createSession, setSessionCookie, userSelect, verifyPassword } from '@/lib/auth'
+
+const LoginSchema = z.object({
+  username: z.string().min(1).max(64),
+  password: z.string().min(1).max(1024),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = LoginSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const { username, password } = parsed.data
+    const user = await prisma.user.findUnique({ where: { username } })
+
+    // Verify even when the user is unknown so response timing does not reveal valid usernames
+    const valid = await verifyPassword(password, user?.passwordHash)
+    if (!user || !valid || !user.isActive) {
+      await auditLogger.userLogin(request, username, false)
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      )
+    }
+
+    const { token, expiresAt } = await createSession(user.id, {
+      userIp: getUserIpFromRequest(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+      select: userSelect,
+    })
+
+    await auditLogger.userLogin(request, user.username, true, user.id)
+
+    const response = NextResponse.json({ user: updatedUser, expiresAt })
+    setSessionCookie(request, response, token, expiresAt)
+    return response
+  } catch (error) {
+    return apiError(error, 'Failed to log in')
+  }
+}
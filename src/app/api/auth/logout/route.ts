@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { clearSessionCookie, getRequestUser, getSessionToken, revokeSession } from '@/lib/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    await revokeSession(getSessionToken(request))
+
+    const user = getRequestUser(request)
+    if (user) {
+      await auditLogger.userLogout(request, user.username, user.id)
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    return apiError(error, 'Failed to log out')
+  }
+}
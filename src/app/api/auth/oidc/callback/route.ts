@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLogger, getUserIpFromRequest } from '@/lib/audit-logger'
+import {
+  completeAuthorization,
+  createSession,
+  decodeTransaction,
+  getOidcRedirectUri,
+  getOidcSettings,
+  getPublicBaseUrl,
+  isOidcConfigured,
+  markUsersExist,
+  OIDC_TRANSACTION_COOKIE,
+  provisionOidcUser,
+  resolveNextUrl,
+  setSessionCookie,
+} from '@/lib/auth'
+
+function loginError(baseUrl: string, message: string): NextResponse {
+  const loginUrl = new URL('/login', baseUrl)
+  loginUrl.searchParams.set('error', message)
+  const response = NextResponse.redirect(loginUrl)
+  response.cookies.set(OIDC_TRANSACTION_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 })
+  return response
+}
+
+/**
+ * Redirect target registered with the OIDC provider. Exchanges the code,
+ * verifies the ID token, provisions the user and starts a session.
+ */
+export async function GET(request: NextRequest) {
+  const baseUrl = getPublicBaseUrl(request)
+  const params = request.nextUrl.searchParams
+  let claims: Record<string, any> | null = null
+
+  try {
+    const providerError = params.get('error')
+    if (providerError) {
+      return loginError(baseUrl, params.get('error_description') || `Identity provider returned "${providerError}"`)
+    }
+
+    const transaction = decodeTransaction(request.cookies.get(OIDC_TRANSACTION_COOKIE)?.value)
+    const code = params.get('code')
+    if (!transaction || !code || params.get('state') !== transaction.state) {
+      return loginError(baseUrl, 'Sign-in attempt expired or was not started here; please try again')
+    }
+
+    const settings = await getOidcSettings()
+    if (!isOidcConfigured(settings)) {
+      return loginError(baseUrl, 'Single sign-on is not configured')
+    }
+
+    claims = await completeAuthorization(settings, code, getOidcRedirectUri(request), transaction)
+
+    let result
+    try {
+      result = await provisionOidcUser(claims, settings)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      await auditLogger.userLogin(request, claims.preferred_username || claims.email || claims.sub, false, undefined, 'oidc', reason)
+      return loginError(baseUrl, reason)
+    }
+
+    const { user, created } = result
+    if (created) {
+      markUsersExist()
+    }
+
+    const { token, expiresAt } = await createSession(user.id, {
+      userIp: getUserIpFromRequest(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    await auditLogger.userLogin(request, user.username, true, user.id, 'oidc')
+
+    const response = NextResponse.redirect(resolveNextUrl(transaction.next, baseUrl))
+    response.cookies.set(OIDC_TRANSACTION_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 })
+    setSessionCookie(request, response, token, expiresAt)
+    return response
+  } catch (error) {
+    console.error('OIDC callback failed:', error)
+    if (claims) {
+      await auditLogger.userLogin(request, claims.preferred_username || claims.sub, false, undefined, 'oidc')
+    }
+    return loginError(baseUrl, 'Single sign-on failed; check the server logs for details')
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createAuthorizationRequest,
+  encodeTransaction,
+  getOidcRedirectUri,
+  getOidcSettings,
+  getPublicBaseUrl,
+  isHttpsRequest,
+  isOidcConfigured,
+  OIDC_TRANSACTION_COOKIE,
+  OIDC_TRANSACTION_TTL_SECONDS,
+  safeNextPath,
+} from '@/lib/auth'
+
+/**
+ * Redirect the browser to the OIDC provider to sign in.
+ */
+export async function GET(request: NextRequest) {
+  const baseUrl = getPublicBaseUrl(request)
+
+  try {
+    const settings = await getOidcSettings()
+    if (!isOidcConfigured(settings)) {
+      const loginUrl = new URL('/login', baseUrl)
+      loginUrl.searchParams.set('error', 'Single sign-on is not configured')
+      return NextResponse.redirect(loginUrl)
+    }
+
+    const next = safeNextPath(request.nextUrl.searchParams.get('next'))
+    const { url, transaction } = await createAuthorizationRequest(settings, getOidcRedirectUri(request), next)
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_TRANSACTION_COOKIE, encodeTransaction(transaction), {
+      httpOnly: true,
+      // Lax so the cookie is sent on the provider's top-level redirect back
+      sameSite: 'lax',
+      secure: isHttpsRequest(request),
+      path: '/api/auth/oidc',
+      maxAge: OIDC_TRANSACTION_TTL_SECONDS,
+    })
+    return response
+  } catch (error) {
+    console.error('Failed to start OIDC login:', error)
+    const loginUrl = new URL('/login', baseUrl)
+    loginUrl.searchParams.set('error', 'Could not reach the identity provider')
+    return NextResponse.redirect(loginUrl)
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { config } from '@/lib/config'
+import { apiError } from '@/lib/api/api-utils'
+import { getOidcSettings, getRequestUser, hasUsers, isOidcConfigured, userSelect } from '@/lib/auth'
+
+/**
+ * Current authentication state for the dashboard: whether auth is enforced,
+ * whether the initial admin still has to be created, whether single sign-on
+ * is available, and the signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authEnabled = config.authEnabled && process.env.NEXT_PUBLIC_DEMO_MODE !== 'true'
+    const setupRequired = authEnabled && !(await hasUsers())
+
+    const requestUser = getRequestUser(request)
+    const user = requestUser
+      ? await prisma.user.findUnique({ where: { id: requestUser.id }, select: userSelect })
+      : null
+
+    const ssoEnabled = authEnabled && isOidcConfigured(await getOidcSettings())
+
+    return NextResponse.json({ authEnabled, setupRequired, ssoEnabled, user })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch session')
+  }
+}
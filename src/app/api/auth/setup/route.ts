@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger, getUserIpFromRequest } from '@/lib/audit-logger'
+import {
+  createSession,
+  hashPassword,
+  markUsersExist,
+  MIN_PASSWORD_LENGTH,
+  setSessionCookie,
+  userSelect,
+  USERNAME_PATTERN,
+  USERNAME_PATTERN_MESSAGE,
+} from '@/lib/auth'
+
+const SetupSchema = z.object({
+  username: z.string().min(1).max(64).regex(USERNAME_PATTERN, USERNAME_PATTERN_MESSAGE),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(1024),
+  displayName: z.string().max(255).optional(),
+  email: z.string().email().optional().or(z.literal('')),
+})
+
+/**
+ * Create the initial admin account. Only allowed while no users exist.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = SetupSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { username, password, displayName, email } = parsed.data
+    const passwordHash = await hashPassword(password)
+
+    const user = await prisma.$transaction(async (tx) => {
+      if (await tx.user.count() > 0) return null
+      return tx.user.create({
+        data: {
+          username,
+          passwordHash,
+          displayName: displayName || null,
+          email: email || null,
+          role: 'ADMIN',
+          lastLoginAt: new Date(),
+        },
+        select: userSelect,
+      })
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Setup has already been completed' },
+        { status: 409 }
+      )
+    }
+
+    markUsersExist()
+
+    const { token, expiresAt } = await createSession(user.id, {
+      userIp: getUserIpFromRequest(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    await auditLogger.userChange(request, 'create', user.username, { role: user.role, initialSetup: true })
+
+    const response = NextResponse.json({ user, expiresAt }, { status: 201 })
+    setSessionCookie(request, response, token, expiresAt)
+    return response
+  } catch (error) {
+    return apiError(error, 'Failed to complete setup')
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { describeExceptionMatch, ExceptionDecisionSchema } from '@/lib/exceptions/rules'
+import { EXCEPTION_INCLUDE } from '@/lib/exceptions/service'
+import { refreshExceptionTargets } from '@/lib/exceptions/expiry'
+
+/**
+ * Approve or reject a pending exception. Approval takes effect immediately:
+ * the latest scans of the covered images are re-evaluated.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json()
+    const parsed = ExceptionDecisionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.vulnerabilityException.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Vulnerability exception not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: `Exception is already ${existing.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    if (parsed.data.decision === 'APPROVED' && existing.expiresAt && existing.expiresAt <= new Date()) {
+      return NextResponse.json(
+        { error: 'Exception has already passed its expiry date; update it before approving' },
+        { status: 409 }
+      )
+    }
+
+    // Only decide on the exception as it was read: an edit or another decision since wins
+    const { count } = await prisma.vulnerabilityException.updateMany({
+      where: { id, status: 'PENDING', updatedAt: existing.updatedAt },
+      data: {
+        status: parsed.data.decision,
+        approvedBy: getRequestUser(request)?.username,
+        decidedAt: new Date(),
+        decisionComment: parsed.data.comment || null,
+      },
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Exception was changed or decided meanwhile; reload it and decide again' },
+        { status: 409 }
+      )
+    }
+
+    const updated = await prisma.vulnerabilityException.findUniqueOrThrow({
+      where: { id },
+      include: EXCEPTION_INCLUDE,
+    })
+
+    await auditLogger.exceptionChange(
+      request,
+      parsed.data.decision === 'APPROVED' ? 'approve' : 'reject',
+      describeExceptionMatch(updated),
+      { exceptionId: id, requestedBy: updated.requestedBy, comment: updated.decisionComment }
+    )
+
+    if (updated.status === 'APPROVED') {
+      await refreshExceptionTargets([updated])
+    }
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to record exception decision');
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { describeExceptionMatch, isExceptionActive, VulnerabilityExceptionInputSchema } from '@/lib/exceptions/rules'
+import { EXCEPTION_INCLUDE, toExceptionData, validateExceptionScope } from '@/lib/exceptions/service'
+import { refreshExceptionTargets } from '@/lib/exceptions/expiry'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const exception = await prisma.vulnerabilityException.findUnique({
+      where: { id },
+      include: EXCEPTION_INCLUDE,
+    })
+
+    if (!exception) {
+      return NextResponse.json(
+        { error: 'Vulnerability exception not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(exception)
+  } catch (error) {
+    return apiError(error, 'Failed to fetch vulnerability exception');
+  }
+}
+
+/**
+ * Replace an exception. Any change sends it back for approval, and the
+ * findings it covered count again until it is re-approved.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json()
+    const parsed = VulnerabilityExceptionInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.vulnerabilityException.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Vulnerability exception not found' },
+        { status: 404 }
+      )
+    }
+
+    const scopeError = await validateExceptionScope(parsed.data)
+    if (scopeError) {
+      return NextResponse.json(
+        { error: scopeError },
+        { status: 404 }
+      )
+    }
+
+    const updated = await prisma.vulnerabilityException.update({
+      where: { id },
+      data: {
+        ...toExceptionData(parsed.data),
+        status: 'PENDING',
+        approvedBy: null,
+        decidedAt: null,
+        decisionComment: null,
+      },
+      include: EXCEPTION_INCLUDE,
+    })
+
+    await auditLogger.exceptionChange(request, 'update', describeExceptionMatch(updated), {
+      exceptionId: id,
+      scope: updated.scope,
+      justification: updated.justification,
+      expiresAt: updated.expiresAt,
+      previousStatus: existing.status,
+    })
+
+    if (isExceptionActive(existing)) {
+      await refreshExceptionTargets([existing])
+    }
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to update vulnerability exception');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const exception = await prisma.vulnerabilityException.findUnique({ where: { id } })
+    if (!exception) {
+      return NextResponse.json(
+        { error: 'Vulnerability exception not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.vulnerabilityException.delete({ where: { id } })
+    await auditLogger.exceptionChange(request, 'delete', describeExceptionMatch(exception), {
+      exceptionId: id,
+      status: exception.status,
+    })
+
+    if (isExceptionActive(exception)) {
+      await refreshExceptionTargets([exception])
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete vulnerability exception');
+  }
+}
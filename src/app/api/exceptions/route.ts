@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { describeExceptionMatch, EXCEPTION_STATUSES, VulnerabilityExceptionInputSchema } from '@/lib/exceptions/rules'
+import { EXCEPTION_INCLUDE, toExceptionData, validateExceptionScope } from '@/lib/exceptions/service'
+import type { ExceptionStatus } from '@/generated/prisma'
+
+/**
+ * List exceptions, newest first. Filter with ?status=, ?imageId= (exceptions
+ * scoped to that image) and ?cveId=.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')?.toUpperCase()
+    const imageId = searchParams.get('imageId')
+    const cveId = searchParams.get('cveId')
+
+    if (status && !(EXCEPTION_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      )
+    }
+
+    const exceptions = await prisma.vulnerabilityException.findMany({
+      where: {
+        ...(status ? { status: status as ExceptionStatus } : {}),
+        ...(imageId ? { imageId } : {}),
+        ...(cveId ? { cveId: cveId.toUpperCase() } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: EXCEPTION_INCLUDE,
+    })
+
+    return NextResponse.json({ exceptions })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch vulnerability exceptions')
+  }
+}
+
+/**
+ * Request an exception. It has no effect until an admin approves it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = VulnerabilityExceptionInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const scopeError = await validateExceptionScope(parsed.data)
+    if (scopeError) {
+      return NextResponse.json(
+        { error: scopeError },
+        { status: 404 }
+      )
+    }
+
+    const created = await prisma.vulnerabilityException.create({
+      data: {
+        ...toExceptionData(parsed.data),
+        status: 'PENDING',
+        requestedBy: getRequestUser(request)?.username,
+      },
+      include: EXCEPTION_INCLUDE,
+    })
+
+    await auditLogger.exceptionChange(request, 'create', describeExceptionMatch(created), {
+      exceptionId: created.id,
+      scope: created.scope,
+      justification: created.justification,
+      expiresAt: created.expiresAt,
+    })
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create vulnerability exception')
+  }
+}
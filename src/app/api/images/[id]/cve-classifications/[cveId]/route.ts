@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { recalculateImageRiskScores } from '@/lib/scan-aggregations-server';
+import { refreshSlaForImage } from '@/lib/sla/service';
 import { apiError } from '@/lib/api/api-utils';
+import { getRequestUser } from '@/lib/auth';
 
 const UpdateCveClassificationSchema = z.object({
   isFalsePositive: z.boolean().optional(),
@@ -136,6 +138,7 @@ export async function PUT(
       },
       data: {
         ...validatedData,
+        createdBy: getRequestUser(request)?.username ?? validatedData.createdBy,
         updatedAt: new Date(),
       },
     });
@@ -143,6 +146,7 @@ export async function PUT(
     // Recalculate risk scores for all scans of this image
     try {
       await recalculateImageRiskScores(imageId);
+      await refreshSlaForImage(imageId);
     } catch (error) {
       console.error('Failed to recalculate risk scores after CVE classification update:', error);
       // Don't fail the request if risk score calculation fails
@@ -219,6 +223,7 @@ export async function DELETE(
     // Recalculate risk scores for all scans of this image
     try {
       await recalculateImageRiskScores(imageId);
+      await refreshSlaForImage(imageId);
     } catch (error) {
       console.error('Failed to recalculate risk scores after CVE classification deletion:', error);
       // Don't fail the request if risk score calculation fails
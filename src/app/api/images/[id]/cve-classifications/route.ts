@@ -3,7 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { auditLogger } from '@/lib/audit-logger';
 import { recalculateImageRiskScores } from '@/lib/scan-aggregations-server';
+import { refreshSlaForImage } from '@/lib/sla/service';
 import { apiError } from '@/lib/api/api-utils';
+import { getRequestUser } from '@/lib/auth';
 
 const CveClassificationSchema = z.object({
   cveId: z.string().min(1, 'CVE ID is required'),
@@ -55,6 +57,8 @@ export async function POST(
     const body = await request.json();
 
     const validatedData = CveClassificationSchema.parse(body);
+    // Attribute the classification to the signed-in user when authentication is enabled
+    const createdBy = getRequestUser(request)?.username ?? validatedData.createdBy;
 
     // Check if image exists
     const image = await prisma.image.findUnique({
@@ -112,7 +116,7 @@ export async function POST(
         data: {
           isFalsePositive: validatedData.isFalsePositive,
           comment: validatedData.comment,
-          createdBy: validatedData.createdBy,
+          createdBy,
           updatedAt: new Date(),
         },
       });
@@ -124,7 +128,7 @@ export async function POST(
           imageId,
           isFalsePositive: validatedData.isFalsePositive,
           comment: validatedData.comment,
-          createdBy: validatedData.createdBy,
+          createdBy,
         },
       });
     }
@@ -141,6 +145,7 @@ export async function POST(
     // Recalculate risk scores for all scans of this image
     try {
       await recalculateImageRiskScores(imageId);
+      await refreshSlaForImage(imageId);
     } catch (error) {
       console.error('Failed to recalculate risk scores after CVE classification:', error);
       // Don't fail the request if risk score calculation fails
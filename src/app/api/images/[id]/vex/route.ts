@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api/api-utils';
+import { buildCycloneDxVex, buildOpenVex, VEX_EXPORT_FORMATS, type VexExportFormat } from '@/lib/vex/export';
+import { getImageVexEntries } from '@/lib/vex/service';
+
+/**
+ * Export the VEX status of an image's vulnerabilities as a downloadable
+ * OpenVEX (default) or CycloneDX VEX document: GET ?format=openvex|cyclonedx.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = (new URL(request.url).searchParams.get('format') || 'openvex').toLowerCase();
+
+    if (!(VEX_EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format: ${format}. Use ${VEX_EXPORT_FORMATS.join(' or ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getImageVexEntries(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const { image, entries } = result;
+    const document = (format as VexExportFormat) === 'cyclonedx'
+      ? buildCycloneDxVex(image, entries)
+      : buildOpenVex(image, entries);
+
+    const filename = `${image.name}_${image.tag}`.replace(/[^a-zA-Z0-9._-]/g, '_')
+      + (format === 'cyclonedx' ? '.cdx.vex.json' : '.openvex.json');
+    const headers = new Headers();
+    headers.set('Content-Type', 'application/json');
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return new NextResponse(JSON.stringify(document, null, 2), { headers });
+  } catch (error) {
+    return apiError(error, 'Failed to export VEX document');
+  }
+}
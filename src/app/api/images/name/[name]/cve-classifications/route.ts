@@ -4,6 +4,9 @@ import { z } from 'zod';
 import { auditLogger } from '@/lib/audit-logger';
 import { recalculateImageRiskScores } from '@/lib/scan-aggregations-server';
 import { apiError } from '@/lib/api/api-utils';
+import { getRequestUser } from '@/lib/auth';
+import { threatIntelFields } from '@/lib/threat-feeds/import';
+import { refreshImageSla } from '@/lib/sla/service';
 
 const CveClassificationSchema = z.object({
   cveId: z.string().min(1, 'CVE ID is required'),
@@ -82,6 +85,8 @@ export async function POST(
     const body = await request.json();
 
     const validatedData = CveClassificationSchema.parse(body);
+    // Attribute the classification to the signed-in user when authentication is enabled
+    const createdBy = getRequestUser(request)?.username ?? validatedData.createdBy;
 
     // Get all images with this name (all tags)
     const images = await prisma.image.findMany({
@@ -110,6 +115,7 @@ export async function POST(
           severity: 'INFO', // Default severity, should be updated later
           title: `Vulnerability ${validatedData.cveId}`,
           description: `Vulnerability classification for ${validatedData.cveId}`,
+          ...(await threatIntelFields(validatedData.cveId)),
         }
       });
     }
@@ -153,7 +159,7 @@ export async function POST(
           data: {
             isFalsePositive: validatedData.isFalsePositive,
             comment: validatedData.comment,
-            createdBy: validatedData.createdBy,
+            createdBy,
             updatedAt: new Date()
           }
         });
@@ -164,7 +170,7 @@ export async function POST(
             imageId: image.id,
             isFalsePositive: validatedData.isFalsePositive,
             comment: validatedData.comment,
-            createdBy: validatedData.createdBy,
+            createdBy,
           }
         });
       }
@@ -186,6 +192,7 @@ export async function POST(
       for (const image of images) {
         await recalculateImageRiskScores(image.id);
       }
+      await refreshImageSla(imageName);
     } catch (error) {
       console.warn('Failed to recalculate risk scores:', error);
       // Don't fail the request if risk score calculation fails
@@ -215,6 +215,13 @@ export async function DELETE(
         name: decodedName
       }
     })
+
+    // Remediation SLAs are tracked per image name
+    await prisma.vulnerabilitySla.deleteMany({
+      where: {
+        imageName: decodedName
+      }
+    })
     
     // Log the image deletion action
     await auditLogger.imageDelete(request, decodedName);
@@ -3,11 +3,22 @@ import { prisma } from '@/lib/prisma'
 import puppeteer from 'puppeteer'
 import { apiError } from '@/lib/api/api-utils'
 import { loadScannerDataFromS3 } from '@/lib/storage/s3'
+import type { VulnerabilityException } from '@/generated/prisma'
+import { findException, formatExceptionLabel } from '@/lib/exceptions/rules'
+import { getActiveExceptionsForImage } from '@/lib/exceptions/service'
+import { findSuppressingVexStatement, formatVexLabel } from '@/lib/vex/rules'
+import { getVexStatements, type ImportedVexStatement } from '@/lib/vex/service'
 
 let activePdfRenders = 0;
 const MAX_CONCURRENT_PDFS = 2;
 
-function generateHtmlReport(scan: any, decodedImageName: string, scannerData: Record<string, any>): string {
+function generateHtmlReport(
+  scan: any,
+  decodedImageName: string,
+  scannerData: Record<string, any>,
+  exceptions: VulnerabilityException[],
+  vexStatements: ImportedVexStatement[]
+): string {
   const metadata = scan.metadata
 
   const trivyVulns = scannerData.trivy?.Results?.[0]?.Vulnerabilities || []
@@ -21,14 +32,18 @@ function generateHtmlReport(scan: any, decodedImageName: string, scannerData: Re
       vulnerability: vuln.VulnerabilityID || '-',
       severity: vuln.Severity || 'UNKNOWN',
       fixedVersion: vuln.FixedVersion || 'Not available',
-      source: 'Trivy'
+      source: 'Trivy',
+      exception: findException(exceptions, { cveId: vuln.VulnerabilityID || '', packageName: vuln.PkgName || '' }),
+      vex: findSuppressingVexStatement(vexStatements, scan.image, { cveId: vuln.VulnerabilityID || '', packageName: vuln.PkgName || '', installedVersion: vuln.InstalledVersion })
     })),
     ...grypeVulns.map((match: any) => ({
       package: match.artifact?.name || '-',
       vulnerability: match.vulnerability?.id || '-',
       severity: match.vulnerability?.severity || 'UNKNOWN',
       fixedVersion: match.vulnerability?.fix?.versions?.[0] || 'Not available',
-      source: 'Grype'
+      source: 'Grype',
+      exception: findException(exceptions, { cveId: match.vulnerability?.id || '', packageName: match.artifact?.name || '' }),
+      vex: findSuppressingVexStatement(vexStatements, scan.image, { cveId: match.vulnerability?.id || '', packageName: match.artifact?.name || '', installedVersion: match.artifact?.version })
     }))
   ]
 
@@ -540,6 +555,7 @@ function generateHtmlReport(scan: any, decodedImageName: string, scannerData: Re
               <th>Severity</th>
               <th>Fixed Version</th>
               <th>Source</th>
+              <th>Exception</th>
             </tr>
           </thead>
           <tbody>
@@ -550,6 +566,7 @@ function generateHtmlReport(scan: any, decodedImageName: string, scannerData: Re
                 <td><span class="severity-badge severity-${vuln.severity.toLowerCase()}">${vuln.severity}</span></td>
                 <td>${vuln.fixedVersion}</td>
                 <td style="color: #6B7280; font-size: 12px;">${vuln.source}</td>
+                <td style="color: #6B7280; font-size: 12px;">${vuln.exception ? formatExceptionLabel(vuln.exception) : vuln.vex ? formatVexLabel(vuln.vex) : ''}</td>
               </tr>
             `).join('')}
           </tbody>
@@ -635,7 +652,12 @@ export async function GET(
     ]);
     const scannerData = { trivy: trivyData, grype: grypeData, dockle: dockleData };
 
-    const htmlContent = generateHtmlReport(scan, decodedImageName, scannerData)
+    const [exceptions, vexStatements] = await Promise.all([
+      getActiveExceptionsForImage(scan.imageId),
+      getVexStatements(scan.image),
+    ])
+
+    const htmlContent = generateHtmlReport(scan, decodedImageName, scannerData, exceptions, vexStatements)
 
     browser = await puppeteer.launch({
       headless: true,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { generateSarifReport } from '@/lib/reporting/sarif-report'
+import { apiError } from '@/lib/api/api-utils'
+import { loadScannerDataFromS3 } from '@/lib/storage/s3'
+import { getActiveExceptionsForImage } from '@/lib/exceptions/service'
+import { getVexStatements } from '@/lib/vex/service'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ name: string; scanId: string }> }
+) {
+  try {
+    const { name, scanId } = await params
+    const decodedImageName = decodeURIComponent(name)
+
+    const scan = await prisma.scan.findUnique({
+      where: { id: scanId },
+      include: {
+        image: true,
+        metadata: true
+      }
+    })
+
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+
+    if (scan.image.name !== decodedImageName) {
+      return NextResponse.json({ error: 'Scan does not belong to this image' }, { status: 404 })
+    }
+
+    // Raw scanner output carries the package paths, layers and secrets
+    const [trivy, grype, dockle, vulnerabilities, compliance, exceptions, vexStatements] = await Promise.all([
+      loadScannerDataFromS3(scan.metadata, 'trivy'),
+      loadScannerDataFromS3(scan.metadata, 'grype'),
+      loadScannerDataFromS3(scan.metadata, 'dockle'),
+      prisma.scanVulnerabilityFinding.findMany({ where: { scanId } }),
+      prisma.scanComplianceFinding.findMany({ where: { scanId } }),
+      getActiveExceptionsForImage(scan.imageId),
+      getVexStatements(scan.image),
+    ])
+
+    const sarif = generateSarifReport(scan, {
+      vulnerabilities,
+      compliance,
+      scannerData: { trivy: trivy ?? undefined, grype: grype ?? undefined, dockle: dockle ?? undefined },
+      exceptions,
+      vexStatements,
+    })
+
+    const filename = `${decodedImageName.replace('/', '_')}_${scanId}_report.sarif`
+    const headers = new Headers()
+    headers.set('Content-Type', 'application/sarif+json')
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`)
+
+    return new NextResponse(JSON.stringify(sarif, null, 2), { headers })
+  } catch (error) {
+    return apiError(error, 'Failed to generate SARIF report');
+  }
+}
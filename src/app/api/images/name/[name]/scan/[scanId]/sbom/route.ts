@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { logger } from '@/lib/logger'
+import { SBOM_FORMATS, type SbomFormat } from '@/lib/sbom/model'
+import { loadSbomModel, renderSbom } from '@/lib/sbom/service'
+
+/**
+ * SBOM of the scanned image from its normalized package findings:
+ * GET ?format=cyclonedx (default, JSON)|cyclonedx-xml|spdx (JSON).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; scanId: string }> }
+) {
+  try {
+    const { name, scanId } = await params
+    const decodedImageName = decodeURIComponent(name)
+    const format = (new URL(request.url).searchParams.get('format') || 'cyclonedx').toLowerCase()
+
+    if (!(SBOM_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format: ${format}. Use ${SBOM_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const model = await loadSbomModel(scanId)
+    if (!model) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+
+    if (model.scan.image.name !== decodedImageName) {
+      return NextResponse.json({ error: 'Scan does not belong to this image' }, { status: 404 })
+    }
+
+    if (model.scan.status !== 'SUCCESS' && model.scan.status !== 'PARTIAL') {
+      return NextResponse.json({ error: 'Scan has not completed' }, { status: 409 })
+    }
+
+    const sbom = renderSbom(model, format as SbomFormat)
+    if (!sbom.validation.valid) {
+      logger.error(`[SBOM] Generated ${format} SBOM for scan ${scanId} is invalid: ${sbom.validation.errors.slice(0, 5).join('; ')}`)
+      return NextResponse.json(
+        { error: 'Generated SBOM failed validation', details: sbom.validation.errors },
+        { status: 500 }
+      )
+    }
+
+    const filename = `${decodedImageName.replace('/', '_')}_${scanId}_sbom.${sbom.extension}`
+    const headers = new Headers()
+    headers.set('Content-Type', sbom.contentType)
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`)
+
+    return new NextResponse(sbom.body, { headers })
+  } catch (error) {
+    return apiError(error, 'Failed to generate SBOM');
+  }
+}
@@ -3,6 +3,8 @@ import { prisma } from '@/lib/prisma'
 import { generateXlsxReport } from '@/lib/reporting/xlsx-report'
 import { apiError } from '@/lib/api/api-utils'
 import { loadScannerDataFromS3 } from '@/lib/storage/s3'
+import { getActiveExceptionsForImage } from '@/lib/exceptions/service'
+import { getVexStatements } from '@/lib/vex/service'
 
 export async function GET(
   _request: NextRequest,
@@ -35,7 +37,18 @@ export async function GET(
     );
     const scannerData = Object.fromEntries(scannerEntries.filter(([, v]) => v != null));
 
-    const xlsxBuffer = generateXlsxReport(scan, decodedImageName, Object.keys(scannerData).length > 0 ? scannerData : undefined)
+    const [exceptions, vexStatements] = await Promise.all([
+      getActiveExceptionsForImage(scan.imageId),
+      getVexStatements(scan.image),
+    ])
+
+    const xlsxBuffer = generateXlsxReport(
+      scan,
+      decodedImageName,
+      Object.keys(scannerData).length > 0 ? scannerData : undefined,
+      exceptions,
+      vexStatements
+    )
 
     const filename = `${decodedImageName.replace('/', '_')}_${scanId}_report.xlsx`
     const headers = new Headers()
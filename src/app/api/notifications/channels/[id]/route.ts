@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { NotificationChannelInputSchema } from '@/lib/notification-routing/rules'
+import {
+  findMissingChannelField,
+  mergeChannelConfig,
+  toChannelResponse,
+  writeChannelConfig,
+} from '@/lib/notification-routing/service'
+
+/**
+ * Replace a channel. Secrets sent back masked keep their stored value.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = NotificationChannelInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.notificationChannel.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Notification channel not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, type, enabled } = parsed.data
+    const channelConfig = mergeChannelConfig(type, parsed.data.config, existing)
+    const missing = findMissingChannelField(type, channelConfig)
+    if (missing) {
+      return NextResponse.json(
+        { error: missing },
+        { status: 400 }
+      )
+    }
+
+    const duplicate = await prisma.notificationChannel.findFirst({ where: { name, id: { not: id } }, select: { id: true } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `A channel named "${name}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const updated = await prisma.notificationChannel.update({
+      where: { id },
+      data: { name, type, enabled, config: writeChannelConfig(channelConfig) },
+    })
+
+    await auditLogger.notificationChange(request, 'update', 'channel', updated.name, {
+      channelId: id,
+      type: updated.type,
+      enabled: updated.enabled,
+    })
+
+    return NextResponse.json(toChannelResponse(updated))
+  } catch (error) {
+    return apiError(error, 'Failed to update notification channel')
+  }
+}
+
+/**
+ * Delete a channel along with its rules and delivery log.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const channel = await prisma.notificationChannel.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Notification channel not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.notificationChannel.delete({ where: { id } })
+    await auditLogger.notificationChange(request, 'delete', 'channel', channel.name, { channelId: id })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete notification channel')
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { getRequestUser } from '@/lib/auth'
+import { notificationService } from '@/lib/notifications'
+import { buildDigest, type DigestPeriod } from '@/lib/notification-routing/digest'
+
+/**
+ * Send a test message to the channel, also when it is disabled. With
+ * ?digest=daily|weekly the current digest is sent instead, to preview it.
+ * The result is returned and recorded in the delivery log.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const digest = request.nextUrl.searchParams.get('digest') as DigestPeriod | null
+    if (digest && digest !== 'daily' && digest !== 'weekly') {
+      return NextResponse.json(
+        { error: 'digest must be daily or weekly' },
+        { status: 400 }
+      )
+    }
+
+    const channel = await prisma.notificationChannel.findUnique({ where: { id } })
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Notification channel not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await notificationService.sendTest(
+      channel,
+      getRequestUser(request)?.username,
+      digest ? await buildDigest(digest) : undefined
+    )
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to send test message', responseStatus: result.responseStatus ?? null },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true, responseStatus: result.responseStatus ?? null })
+  } catch (error) {
+    return apiError(error, 'Failed to send test message')
+  }
+}
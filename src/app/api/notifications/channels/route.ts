@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { NotificationChannelInputSchema } from '@/lib/notification-routing/rules'
+import {
+  findMissingChannelField,
+  mergeChannelConfig,
+  toChannelResponse,
+  writeChannelConfig,
+} from '@/lib/notification-routing/service'
+
+export async function GET() {
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { rules: true } } },
+    })
+
+    return NextResponse.json({ channels: channels.map(toChannelResponse) })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch notification channels')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = NotificationChannelInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { name, type, enabled } = parsed.data
+    const channelConfig = mergeChannelConfig(type, parsed.data.config)
+    const missing = findMissingChannelField(type, channelConfig)
+    if (missing) {
+      return NextResponse.json(
+        { error: missing },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.notificationChannel.findUnique({ where: { name }, select: { id: true } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `A channel named "${name}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const created = await prisma.notificationChannel.create({
+      data: {
+        name,
+        type,
+        enabled,
+        config: writeChannelConfig(channelConfig),
+        createdBy: getRequestUser(request)?.username,
+      },
+    })
+
+    await auditLogger.notificationChange(request, 'create', 'channel', created.name, {
+      channelId: created.id,
+      type: created.type,
+    })
+
+    return NextResponse.json(toChannelResponse(created), { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create notification channel')
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { prisma } from '@/lib/prisma'
+import { notificationService } from '@/lib/notifications'
+import { requeueDelivery } from '@/lib/notification-routing/service'
+
+/**
+ * Send a failed or retrying delivery again now instead of waiting for the
+ * next scheduled attempt. Returns the delivery with the outcome.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const delivery = await prisma.notificationDelivery.findUnique({ where: { id }, select: { id: true, event: true } })
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Notification delivery not found' },
+        { status: 404 }
+      )
+    }
+    if (delivery.event === 'TEST') {
+      return NextResponse.json(
+        { error: 'Test messages are not retried; send a new one from the channel' },
+        { status: 409 }
+      )
+    }
+    if (!(await requeueDelivery(id))) {
+      return NextResponse.json(
+        { error: 'Only failed or retrying deliveries can be retried' },
+        { status: 409 }
+      )
+    }
+
+    await notificationService.deliver(id)
+
+    const updated = await prisma.notificationDelivery.findUnique({
+      where: { id },
+      include: {
+        channel: { select: { id: true, name: true, type: true } },
+        rule: { select: { id: true, name: true } },
+      },
+    })
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to retry notification delivery')
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { NotificationDeliveryStatus, NotificationEvent, Prisma } from '@/generated/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { prisma } from '@/lib/prisma'
+import { NOTIFICATION_EVENT_LABELS } from '@/lib/notification-routing/rules'
+
+const DELIVERY_STATUSES: NotificationDeliveryStatus[] = ['PENDING', 'SENDING', 'RETRYING', 'SENT', 'FAILED']
+const MAX_LIMIT = 500
+
+/**
+ * The delivery log, newest first. Filter with ?status=, ?event= and
+ * ?channelId=; page with ?limit= (default 100, maximum 500) and ?offset=.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams
+    const status = params.get('status')?.toUpperCase()
+    const event = params.get('event')?.toUpperCase()
+    const limit = params.get('limit') ? Number(params.get('limit')) : 100
+    const offset = params.get('offset') ? Number(params.get('offset')) : 0
+
+    if (status && !(DELIVERY_STATUSES as string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (event && !(event in NOTIFICATION_EVENT_LABELS)) {
+      return NextResponse.json(
+        { error: `Unknown event: ${event}` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'offset must be a non-negative integer' },
+        { status: 400 }
+      )
+    }
+
+    const where: Prisma.NotificationDeliveryWhereInput = {
+      ...(status ? { status: status as NotificationDeliveryStatus } : {}),
+      ...(event ? { event: event as NotificationEvent } : {}),
+      ...(params.get('channelId') ? { channelId: params.get('channelId')! } : {}),
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.notificationDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit,
+        include: {
+          channel: { select: { id: true, name: true, type: true } },
+          rule: { select: { id: true, name: true } },
+        },
+      }),
+      prisma.notificationDelivery.count({ where }),
+    ])
+
+    return NextResponse.json({ deliveries, total })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch notification deliveries')
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { NotificationRuleInputSchema } from '@/lib/notification-routing/rules'
+
+const RULE_INCLUDE = {
+  channel: { select: { id: true, name: true, type: true, enabled: true } },
+  repository: { select: { id: true, name: true } },
+} as const
+
+/**
+ * Replace a rule. Deliveries already queued, e.g. held back by quiet hours,
+ * are not affected.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = NotificationRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.notificationRule.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Notification rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const rule = parsed.data
+    const channel = await prisma.notificationChannel.findUnique({ where: { id: rule.channelId }, select: { id: true } })
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Notification channel not found' },
+        { status: 404 }
+      )
+    }
+    if (rule.repositoryId) {
+      const repository = await prisma.repository.findUnique({ where: { id: rule.repositoryId }, select: { id: true } })
+      if (!repository) {
+        return NextResponse.json(
+          { error: 'Repository not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const updated = await prisma.notificationRule.update({
+      where: { id },
+      data: {
+        ...rule,
+        minSeverity: rule.minSeverity ?? null,
+        imagePattern: rule.imagePattern || null,
+        repositoryId: rule.repositoryId || null,
+        quietHoursStart: rule.quietHoursStart || null,
+        quietHoursEnd: rule.quietHoursEnd || null,
+      },
+      include: RULE_INCLUDE,
+    })
+
+    await auditLogger.notificationChange(request, 'update', 'rule', updated.name, {
+      ruleId: id,
+      channel: updated.channel.name,
+      enabled: updated.enabled,
+      events: updated.events,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to update notification rule')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const rule = await prisma.notificationRule.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Notification rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.notificationRule.delete({ where: { id } })
+    await auditLogger.notificationChange(request, 'delete', 'rule', rule.name, { ruleId: id })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete notification rule')
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { NotificationRuleInputSchema } from '@/lib/notification-routing/rules'
+
+const RULE_INCLUDE = {
+  channel: { select: { id: true, name: true, type: true, enabled: true } },
+  repository: { select: { id: true, name: true } },
+} as const
+
+export async function GET() {
+  try {
+    const rules = await prisma.notificationRule.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: RULE_INCLUDE,
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch notification rules')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = NotificationRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const rule = parsed.data
+    const channel = await prisma.notificationChannel.findUnique({ where: { id: rule.channelId }, select: { id: true } })
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Notification channel not found' },
+        { status: 404 }
+      )
+    }
+    if (rule.repositoryId) {
+      const repository = await prisma.repository.findUnique({ where: { id: rule.repositoryId }, select: { id: true } })
+      if (!repository) {
+        return NextResponse.json(
+          { error: 'Repository not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const created = await prisma.notificationRule.create({
+      data: {
+        ...rule,
+        minSeverity: rule.minSeverity ?? null,
+        imagePattern: rule.imagePattern || null,
+        repositoryId: rule.repositoryId || null,
+        quietHoursStart: rule.quietHoursStart || null,
+        quietHoursEnd: rule.quietHoursEnd || null,
+        createdBy: getRequestUser(request)?.username,
+      },
+      include: RULE_INCLUDE,
+    })
+
+    await auditLogger.notificationChange(request, 'create', 'rule', created.name, {
+      ruleId: created.id,
+      channel: created.channel.name,
+      events: created.events,
+    })
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create notification rule')
+  }
+}
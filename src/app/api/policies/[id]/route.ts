@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { SecurityPolicyInputSchema } from '@/lib/policy/rules'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const policy = await prisma.securityPolicy.findUnique({
+      where: { id },
+      include: { repository: { select: { id: true, name: true } } },
+    })
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Security policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(policy)
+  } catch (error) {
+    return apiError(error, 'Failed to fetch security policy');
+  }
+}
+
+/**
+ * Replace a policy. Stored verdicts are not re-evaluated; new scans use the
+ * updated rules and existing scans can be re-evaluated from the scan page.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json()
+    const parsed = SecurityPolicyInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.securityPolicy.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Security policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const { scope, repositoryId, imagePattern, ...policy } = parsed.data
+
+    if (scope === 'REPOSITORY') {
+      const repository = await prisma.repository.findUnique({ where: { id: repositoryId! }, select: { id: true } })
+      if (!repository) {
+        return NextResponse.json(
+          { error: 'Repository not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const updated = await prisma.securityPolicy.update({
+      where: { id },
+      data: {
+        ...policy,
+        description: policy.description ?? null,
+        scope,
+        repositoryId: scope === 'REPOSITORY' ? repositoryId : null,
+        imagePattern: scope === 'IMAGE_PATTERN' ? imagePattern : null,
+      },
+      include: { repository: { select: { id: true, name: true } } },
+    })
+
+    await auditLogger.policyChange(request, 'update', updated.name, {
+      policyId: id,
+      enabled: updated.enabled,
+      action: updated.action,
+      scope: updated.scope,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to update security policy');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const policy = await prisma.securityPolicy.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Security policy not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.securityPolicy.delete({ where: { id } })
+    await auditLogger.policyChange(request, 'delete', policy.name, { policyId: id })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete security policy');
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { SecurityPolicyInputSchema } from '@/lib/policy/rules'
+
+export async function GET() {
+  try {
+    const policies = await prisma.securityPolicy.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { repository: { select: { id: true, name: true } } },
+    })
+
+    return NextResponse.json({ policies })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch security policies')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = SecurityPolicyInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { scope, repositoryId, imagePattern, ...policy } = parsed.data
+
+    if (scope === 'REPOSITORY') {
+      const repository = await prisma.repository.findUnique({ where: { id: repositoryId! }, select: { id: true } })
+      if (!repository) {
+        return NextResponse.json(
+          { error: 'Repository not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const created = await prisma.securityPolicy.create({
+      data: {
+        ...policy,
+        scope,
+        repositoryId: scope === 'REPOSITORY' ? repositoryId : null,
+        imagePattern: scope === 'IMAGE_PATTERN' ? imagePattern : null,
+        createdBy: getRequestUser(request)?.username,
+      },
+      include: { repository: { select: { id: true, name: true } } },
+    })
+
+    await auditLogger.policyChange(request, 'create', created.name, {
+      policyId: created.id,
+      action: created.action,
+      scope: created.scope,
+    })
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create security policy')
+  }
+}
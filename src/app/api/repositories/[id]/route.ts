@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
 import { RegistryService } from '@/lib/registry/RegistryService'
+import { encryptRepositoryPassword } from '@/lib/registry/credentials'
 import { apiError } from '@/lib/api/api-utils'
 
 const UpdateRepositorySchema = z.object({
@@ -54,7 +55,7 @@ export async function PATCH(
         ...(data.skipTlsVerify !== undefined && { skipTlsVerify: data.skipTlsVerify }),
         ...(data.registryPort !== undefined && { registryPort: data.registryPort }),
         ...(data.username !== undefined && { username: data.username }),
-        ...(data.password !== undefined && { encryptedPassword: data.password }),
+        ...(data.password !== undefined && { encryptedPassword: encryptRepositoryPassword(data.password) }),
         updatedAt: new Date()
       }
     })
@@ -62,7 +63,7 @@ export async function PATCH(
     // Invalidate cache after update
     await registryService.invalidateCache(id)
     
-    const { encryptedPassword, ...safeUpdated } = updated
+    const { encryptedPassword, webhookSecret, ...safeUpdated } = updated
     return NextResponse.json(safeUpdated)
   } catch (error) {
     return apiError(error, 'Failed to update repository');
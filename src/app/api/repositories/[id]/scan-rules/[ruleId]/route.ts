@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { ScanRuleInputSchema } from '@/lib/registry/sync/scan-rules'
+
+async function findRule(repositoryId: string, ruleId: string) {
+  return prisma.repositoryScanRule.findFirst({
+    where: { id: ruleId, repositoryId },
+    include: { repository: { select: { name: true } } },
+  })
+}
+
+/**
+ * Replace a rule. Applies from the next sync; scans it started stay in the
+ * discovery feed.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const { id, ruleId } = await params
+    const body = await request.json()
+    const parsed = ScanRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await findRule(id, ruleId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Scan rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const rule = parsed.data
+    const updated = await prisma.repositoryScanRule.update({
+      where: { id: ruleId },
+      data: { ...rule, imagePattern: rule.imagePattern || null },
+    })
+
+    await auditLogger.scanRuleChange(request, 'update', existing.repository.name, updated.name, {
+      ruleId,
+      enabled: updated.enabled,
+      imagePattern: updated.imagePattern,
+      tagPattern: updated.tagPattern,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiError(error, 'Failed to update scan rule')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const { id, ruleId } = await params
+
+    const rule = await findRule(id, ruleId)
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Scan rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.repositoryScanRule.delete({ where: { id: ruleId } })
+    await auditLogger.scanRuleChange(request, 'delete', rule.repository.name, rule.name, { ruleId })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete scan rule')
+  }
+}
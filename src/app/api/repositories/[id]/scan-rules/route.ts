@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { ScanRuleInputSchema } from '@/lib/registry/sync/scan-rules'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const repository = await prisma.repository.findUnique({ where: { id }, select: { id: true } })
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    const rules = await prisma.repositoryScanRule.findMany({
+      where: { repositoryId: id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch scan rules')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = ScanRuleInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const repository = await prisma.repository.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    const rule = parsed.data
+    const created = await prisma.repositoryScanRule.create({
+      data: { ...rule, imagePattern: rule.imagePattern || null, repositoryId: id },
+    })
+
+    await auditLogger.scanRuleChange(request, 'create', repository.name, created.name, {
+      ruleId: created.id,
+      imagePattern: created.imagePattern,
+      tagPattern: created.tagPattern,
+    })
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create scan rule')
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getPublicBaseUrl } from '@/lib/auth/oidc'
+import { WEBHOOK_FORMAT_LABELS } from '@/lib/registry/webhooks/formats'
+import { generateWebhookSecret } from '@/lib/registry/webhooks/receiver'
+
+function webhookUrl(request: NextRequest, repositoryId: string): string {
+  return `${getPublicBaseUrl(request)}/api/webhooks/registry/${repositoryId}`
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const repository = await prisma.repository.findUnique({ where: { id }, select: { id: true, webhookSecret: true } })
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      enabled: repository.webhookSecret !== null,
+      url: webhookUrl(request, id),
+      formats: WEBHOOK_FORMAT_LABELS,
+    })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch webhook')
+  }
+}
+
+/**
+ * Enable the webhook, or replace its secret. The secret is only returned
+ * here; the previous one stops working at once.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const repository = await prisma.repository.findUnique({ where: { id }, select: { id: true, name: true, webhookSecret: true } })
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    const { secret, encrypted } = generateWebhookSecret()
+    await prisma.repository.update({ where: { id }, data: { webhookSecret: encrypted } })
+    await auditLogger.repositoryWebhookChange(request, repository.webhookSecret ? 'rotate_secret' : 'enable', repository.name)
+
+    return NextResponse.json({ enabled: true, url: webhookUrl(request, id), secret })
+  } catch (error) {
+    return apiError(error, 'Failed to enable webhook')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const repository = await prisma.repository.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.repository.update({ where: { id }, data: { webhookSecret: null } })
+    await auditLogger.repositoryWebhookChange(request, 'disable', repository.name)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to disable webhook')
+  }
+}
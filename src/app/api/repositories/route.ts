@@ -11,6 +11,7 @@ const CreateRepositorySchema = z.object({
   username: z.string().optional().default(''),
   password: z.string().optional().default(''),
   organization: z.string().optional().nullable(),
+  authUrl: z.string().url().optional().nullable().or(z.literal('')),
   protocol: z.string().optional(),
   skipTlsVerify: z.boolean().optional(),
   registryPort: z.number().int().positive().optional().nullable(),
@@ -40,7 +41,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, type, registryUrl, username, password, organization, protocol, skipTlsVerify, registryPort, testConnection } = parsed.data
+    const { name, type, registryUrl, username, password, organization, authUrl, protocol, skipTlsVerify, registryPort, testConnection } = parsed.data
 
     const { repository, testResult } = await registryService.createRepository({
       name,
@@ -49,6 +50,7 @@ export async function POST(request: NextRequest) {
       username,
       password,
       organization: organization ?? undefined,
+      authUrl: authUrl || undefined,
       protocol,
       skipTlsVerify,
       registryPort: registryPort ?? undefined,
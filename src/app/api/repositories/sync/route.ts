@@ -1,26 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { RegistrySyncService } from '@/lib/registry/sync/RegistrySyncService';
+import { getRegistrySyncService } from '@/lib/registry/sync/RegistrySyncService';
 import { apiError } from '@/lib/api/api-utils';
 
-// Create a singleton instance
-let syncService: RegistrySyncService | null = null;
-
-function getSyncService() {
-  if (!syncService) {
-    syncService = new RegistrySyncService(prisma);
-    // Start auto-sync with 5 minute interval by default
-    syncService.startAutoSync(5 * 60 * 1000);
-  }
-  return syncService;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { repositoryId, forceRefresh = false, action = 'sync' } = body;
     
-    const service = getSyncService();
+    const service = getRegistrySyncService();
     
     if (action === 'sync') {
       if (repositoryId) {
@@ -93,7 +80,7 @@ export async function GET(request: NextRequest) {
     const repositoryId = searchParams.get('repositoryId');
     const includeRecentTags = searchParams.get('recentTags') === 'true';
     
-    const service = getSyncService();
+    const service = getRegistrySyncService();
     
     if (repositoryId) {
       // Get status for specific repository
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+
+const QuerySchema = z.object({
+  repositoryId: z.string().min(1).optional(),
+  type: z.enum(['NEW', 'MOVED', 'DELETED']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+/**
+ * The discovery feed: tag changes found by registry syncs, newest first,
+ * with the scans auto-scan rules started for them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = QuerySchema.safeParse({
+      repositoryId: searchParams.get('repositoryId') || undefined,
+      type: searchParams.get('type') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { repositoryId, type, limit } = parsed.data
+    const events = await prisma.repositoryTagEvent.findMany({
+      where: { ...(repositoryId && { repositoryId }), ...(type && { type }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        repository: { select: { id: true, name: true } },
+        rule: { select: { id: true, name: true } },
+        scan: { select: { id: true, status: true } },
+      },
+    })
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch tag events')
+  }
+}
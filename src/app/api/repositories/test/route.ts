@@ -10,7 +10,7 @@ const registryService = new RegistryService(prisma)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { type, registryUrl, username, password, organization, skipTlsVerify, registryPort } = body
+    const { type, registryUrl, username, password, organization, authUrl, skipTlsVerify, registryPort } = body
 
     console.log('[Test Connection] Request received:', {
       type,
@@ -22,7 +22,8 @@ export async function POST(request: NextRequest) {
       hasPassword: !!password
     })
 
-    if (!type || !username || !password) {
+    // ECR can fall back to the server's AWS credentials
+    if (!type || (String(type).toUpperCase() !== 'ECR' && (!username || !password))) {
       console.error('[Test Connection] Missing required fields')
       return NextResponse.json(
         { error: 'Missing required fields: type, username, password' },
@@ -78,7 +79,7 @@ export async function POST(request: NextRequest) {
         username,
         encryptedPassword: password,
         organization: organization || null,
-        authUrl: null,
+        authUrl: authUrl || null,
         groupId: null,
         skipTlsVerify: skipTlsVerify || false,
         registryPort: registryPort || null,
@@ -89,6 +90,8 @@ export async function POST(request: NextRequest) {
         capabilities: null,
         rateLimits: null,
         healthCheck: null,
+        webhookSecret: null,
+        tagsSyncedAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { apiError } from '@/lib/api/api-utils';
+import { getRequestUser } from '@/lib/auth';
+import { threatIntelFields } from '@/lib/threat-feeds/import';
 
 const CveClassificationSchema = z.object({
   cveId: z.string().min(1, 'CVE ID is required'),
@@ -102,6 +104,7 @@ export async function POST(
         data: {
           cveId: validatedData.cveId,
           severity: vulnFinding?.severity || 'INFO', // Use actual severity or INFO as default
+          ...(await threatIntelFields(validatedData.cveId)),
         }
       });
     }
@@ -168,7 +171,7 @@ export async function POST(
           imageVulnerabilityId: imageVulnerability.id,
           isFalsePositive: validatedData.isFalsePositive ?? false,
           comment: validatedData.comment,
-          createdBy: validatedData.createdBy || 'system',
+          createdBy: getRequestUser(request)?.username ?? (validatedData.createdBy || 'system'),
         }
       });
     }
@@ -2,6 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { serializeForJson } from '@/lib/utils/type-utils';
 import { apiError } from '@/lib/api/api-utils';
+import {
+  buildAliasMap,
+  correlateVulnerabilities,
+  countVulnerabilityScanners,
+  findingAliases,
+  getCorrelationKey,
+  CORRELATION_FINDING_TYPE,
+} from '@/lib/scanner/FindingCorrelator';
+import { findException } from '@/lib/exceptions/rules';
+import { getActiveExceptionsForImage } from '@/lib/exceptions/service';
+import { findVexStatement } from '@/lib/vex/rules';
+import { getVexStatements, toVexSummary } from '@/lib/vex/service';
 
 export async function GET(
   request: NextRequest,
@@ -80,7 +92,7 @@ export async function GET(
 
     // Fetch vulnerabilities
     if (type === 'vulnerabilities' || type === 'all') {
-      const [vulnerabilities, vulnTotal] = await Promise.all([
+      const [vulnerabilities, vulnTotal, scanFindings, storedCorrelations, exceptions, vexStatements, slaEntries] = await Promise.all([
         prisma.scanVulnerabilityFinding.findMany({
           where: buildWhereClause('vulnerabilities'),
           orderBy: [
@@ -91,8 +103,43 @@ export async function GET(
           take: limit,
           skip: offset
         }),
-        prisma.scanVulnerabilityFinding.count({ where: buildWhereClause('vulnerabilities') })
+        prisma.scanVulnerabilityFinding.count({ where: buildWhereClause('vulnerabilities') }),
+        // All findings of the scan, for alias resolution and de-duplicated totals
+        prisma.scanVulnerabilityFinding.findMany({
+          where: { scanId },
+          select: { source: true, cveId: true, packageName: true, severity: true, rawFinding: true }
+        }),
+        prisma.scanFindingCorrelation.findMany({
+          where: { scanId, findingType: CORRELATION_FINDING_TYPE }
+        }),
+        getActiveExceptionsForImage(scan.imageId),
+        getVexStatements(scan.image),
+        prisma.vulnerabilitySla.findMany({
+          where: { imageName: scan.image.name },
+          select: { cveId: true, firstSeenAt: true, dueAt: true, resolvedAt: true, suppressed: true }
+        })
       ]);
+      const slaByCve = new Map(slaEntries.map(({ cveId, ...sla }) => [cveId, sla]));
+
+      // Scans ingested before correlation was stored are correlated on the fly
+      const scannerCount = countVulnerabilityScanners(
+        scan.metadata?.scannerVersions,
+        new Set(scanFindings.map(f => f.source))
+      );
+      const correlations = storedCorrelations.length > 0 || scanFindings.length === 0
+        ? storedCorrelations.map(c => ({ ...c, sources: c.sources as string[] }))
+        : correlateVulnerabilities(scanFindings, scannerCount);
+      const correlationByKey = new Map(correlations.map(c => [c.correlationKey, c]));
+      const aliasMap = buildAliasMap(scanFindings);
+
+      const uniqueBySeverity: Record<string, number> = { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0, INFO: 0 };
+      let uniqueTotal = 0;
+      for (const correlation of correlations) {
+        if (severity && correlation.severity !== severity.toUpperCase()) continue;
+        if (source && !correlation.sources.includes(source)) continue;
+        uniqueTotal++;
+        if (correlation.severity) uniqueBySeverity[correlation.severity]++;
+      }
 
       // Group vulnerabilities by source for summary
       const vulnBySource: Record<string, any> = {};
@@ -121,7 +168,40 @@ export async function GET(
         total: vulnTotal,
         bySeverity: vulnBySeverity,
         bySource: Object.values(vulnBySource),
-        findings: vulnerabilities,
+        // Each vulnerability once per package, however many scanners reported it
+        unique: { total: uniqueTotal, bySeverity: uniqueBySeverity, scannerCount },
+        findings: vulnerabilities.map(vuln => {
+          const correlationKey = getCorrelationKey(vuln, aliasMap);
+          const correlation = correlationByKey.get(correlationKey);
+          const match = { ...vuln, aliases: findingAliases(vuln.rawFinding) };
+          const exception = findException(exceptions, match);
+          const vex = findVexStatement(vexStatements, scan.image, match);
+          return {
+            ...vuln,
+            correlationKey,
+            correlation: correlation
+              ? {
+                  sources: correlation.sources,
+                  sourceCount: correlation.sourceCount,
+                  scannerCount,
+                  confidenceScore: correlation.confidenceScore
+                }
+              : null,
+            // Approved exception covering this finding, if any
+            exception: exception
+              ? {
+                  id: exception.id,
+                  justification: exception.justification,
+                  reason: exception.reason,
+                  expiresAt: exception.expiresAt
+                }
+              : null,
+            // Latest imported VEX statement about this finding; NOT_AFFECTED and FIXED suppress it
+            vex: vex ? toVexSummary(vex) : null,
+            // Remediation SLA of the CVE across all tags of the image
+            sla: slaByCve.get(vuln.cveId) ?? null
+          };
+        }),
         pagination: { total: vulnTotal, limit, offset, hasMore: offset + limit < vulnTotal }
       };
     }
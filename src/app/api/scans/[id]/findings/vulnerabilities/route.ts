@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { apiError } from '@/lib/api/api-utils';
+import { buildAliasMap, getCorrelationKey, parseCorrelationKey, CORRELATION_FINDING_TYPE } from '@/lib/scanner/FindingCorrelator';
 
 export async function GET(
   request: NextRequest,
@@ -25,7 +26,7 @@ export async function GET(
       const correlations = await prisma.scanFindingCorrelation.findMany({
         where: {
           scanId: id,
-          findingType: 'vulnerability'
+          findingType: CORRELATION_FINDING_TYPE
         },
         orderBy: [
           { sourceCount: 'desc' },
@@ -34,10 +35,9 @@ export async function GET(
         ]
       });
       
-      // Batch-fetch all findings for correlated CVEs in a single query
-      const allCveIds = correlations.map(c => c.correlationKey);
+      // Batch-fetch the scan's findings and group them in memory by correlation key
       const allFindings = await prisma.scanVulnerabilityFinding.findMany({
-        where: { scanId: id, cveId: { in: allCveIds } },
+        where: { scanId: id },
         select: {
           cveId: true,
           source: true,
@@ -48,25 +48,33 @@ export async function GET(
           cvssScore: true,
           title: true,
           description: true,
-          vulnerabilityUrl: true
+          vulnerabilityUrl: true,
+          rawFinding: true
         }
       });
 
-      // Group findings in memory by cveId
-      const findingsByCve = new Map<string, typeof allFindings>();
+      const aliasMap = buildAliasMap(allFindings);
+      const findingsByKey = new Map<string, typeof allFindings>();
       allFindings.forEach(f => {
-        if (!findingsByCve.has(f.cveId)) findingsByCve.set(f.cveId, []);
-        findingsByCve.get(f.cveId)!.push(f);
+        const key = getCorrelationKey(f, aliasMap);
+        if (!findingsByKey.has(key)) findingsByKey.set(key, []);
+        findingsByKey.get(key)!.push(f);
       });
 
-      const groupedFindings = correlations.map((corr) => ({
-        cveId: corr.correlationKey,
-        sources: corr.sources,
-        sourceCount: corr.sourceCount,
-        confidenceScore: corr.confidenceScore,
-        severity: corr.severity,
-        findings: findingsByCve.get(corr.correlationKey) || []
-      }));
+      const groupedFindings = correlations.map((corr) => {
+        const findings = findingsByKey.get(corr.correlationKey) || [];
+        const { vulnerabilityId, packageName } = parseCorrelationKey(corr.correlationKey);
+        return {
+          cveId: findings.find(f => f.cveId.toUpperCase() === vulnerabilityId)?.cveId ?? vulnerabilityId,
+          packageName: findings[0]?.packageName ?? packageName,
+          correlationKey: corr.correlationKey,
+          sources: corr.sources,
+          sourceCount: corr.sourceCount,
+          confidenceScore: corr.confidenceScore,
+          severity: corr.severity,
+          findings: findings.map(({ rawFinding, ...finding }) => finding)
+        };
+      });
       
       return NextResponse.json({
         total: correlations.length,
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { evaluateScanPolicies } from '@/lib/policy/evaluator'
+
+function toResponse(scan: { id: string; status: string }, evaluation: {
+  verdict: string;
+  policyCount: number;
+  violationCount: number;
+  results: unknown;
+  evaluatedAt: Date;
+} | null) {
+  return {
+    scanId: scan.id,
+    scanStatus: scan.status,
+    // Null until a completed scan has been evaluated
+    verdict: evaluation?.verdict ?? null,
+    policyCount: evaluation?.policyCount ?? 0,
+    violationCount: evaluation?.violationCount ?? 0,
+    evaluatedAt: evaluation?.evaluatedAt ?? null,
+    results: evaluation?.results ?? [],
+  }
+}
+
+/**
+ * The stored policy verdict of a scan, with the violating findings per policy.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const scan = await prisma.scan.findUnique({
+      where: { id },
+      select: { id: true, status: true, policyEvaluation: true },
+    })
+
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(toResponse(scan, scan.policyEvaluation))
+  } catch (error) {
+    return apiError(error, 'Failed to fetch policy verdict');
+  }
+}
+
+/**
+ * Re-evaluate the scan against the current policies.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const scan = await prisma.scan.findUnique({ where: { id }, select: { id: true, status: true } })
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+
+    const evaluation = await evaluateScanPolicies(id)
+    return NextResponse.json(toResponse(scan, evaluation))
+  } catch (error) {
+    return apiError(error, 'Failed to evaluate policies');
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiError } from '@/lib/api/api-utils';
+import { serializeForJson } from '@/lib/utils/type-utils';
+import { diffScans, findLatestScanForTag, renderScanDiffMarkdown } from '@/lib/scanner/ScanDiff';
+
+const DiffQuerySchema = z.object({
+  base: z.string().min(1).optional(),
+  head: z.string().min(1).optional(),
+  image: z.string().min(1).optional(),
+  baseTag: z.string().min(1).optional(),
+  headTag: z.string().min(1).optional(),
+  format: z.enum(['json', 'markdown']).default('json'),
+  download: z.enum(['true', 'false']).optional(),
+}).refine(
+  query => (query.base && query.head) || (query.image && query.baseTag && query.headTag),
+  { message: 'Provide base and head scan ids, or an image with baseTag and headTag' }
+);
+
+/**
+ * Diff two scans: GET /api/scans/diff?base=<scanId>&head=<scanId>, or the
+ * latest completed scans of two tags with ?image=<name>&baseTag=&headTag=.
+ * format=markdown returns a PR-comment-ready summary; download=true adds a
+ * Content-Disposition header.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = DiffQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid query' }, { status: 400 });
+    }
+    const query = parsed.data;
+
+    let baseScanId = query.base;
+    let headScanId = query.head;
+    if (!baseScanId || !headScanId) {
+      [baseScanId, headScanId] = await Promise.all([
+        findLatestScanForTag(query.image!, query.baseTag!),
+        findLatestScanForTag(query.image!, query.headTag!),
+      ]).then(ids => ids.map(id => id ?? undefined));
+      if (!baseScanId || !headScanId) {
+        const missing = !baseScanId ? query.baseTag : query.headTag;
+        return NextResponse.json({ error: `No completed scan of ${query.image}:${missing}` }, { status: 404 });
+      }
+    }
+
+    const diff = await diffScans(baseScanId, headScanId);
+    if (!diff) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 });
+    }
+
+    const headers = new Headers();
+    const filename = `${diff.head.image}_${diff.base.tag}_to_${diff.head.tag}_diff`.replace(/[^a-zA-Z0-9._-]/g, '_');
+
+    if (query.format === 'markdown') {
+      headers.set('Content-Type', 'text/markdown; charset=utf-8');
+      if (query.download === 'true') headers.set('Content-Disposition', `attachment; filename="${filename}.md"`);
+      return new NextResponse(renderScanDiffMarkdown(diff), { headers });
+    }
+
+    if (query.download === 'true') headers.set('Content-Disposition', `attachment; filename="${filename}.json"`);
+    return NextResponse.json(serializeForJson(diff), { headers });
+  } catch (error) {
+    return apiError(error, 'Failed to diff scans');
+  }
+}
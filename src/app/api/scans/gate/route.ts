@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { scannerService, detectScanMode } from '@/lib/scanner'
+import {
+  GATE_SEVERITIES,
+  findReusableScan,
+  getScanGateResult,
+  waitForScan,
+} from '@/lib/scanner/ScanGate'
+
+const GateSchema = z.object({
+  // Keep waiting on a scan returned by an earlier call that timed out
+  scanId: z.string().optional(),
+  image: z.string().min(1).optional(),
+  tag: z.string().min(1).default('latest'),
+  // Reuse a running or recent scan of the image with this digest, or scan exactly that manifest
+  digest: z.string().regex(/^sha256:[a-f0-9]{64}$/, 'digest must be a sha256: manifest digest').optional(),
+  registry: z.string().optional(),
+  repositoryId: z.string().optional(),
+  source: z.enum(['registry', 'local']).optional(),
+  failOn: z.enum(GATE_SEVERITIES).default('none'),
+  // Seconds to wait before answering 202 with the scan still running
+  timeout: z.number().int().min(0).max(600).default(120),
+  // Completed scans of the same digest up to this age are reused; 0 always scans
+  maxAgeHours: z.number().min(0).max(24 * 30).default(24),
+}).refine(
+  (data) => data.scanId || data.image || data.digest,
+  { message: 'Provide an image, a digest or a scanId' }
+)
+
+/**
+ * Start (or reuse) a scan, wait for it to finish and return a compact
+ * verdict for CI. Answers 200 once the scan is done and 202 when `timeout`
+ * passes first; call again with the returned scanId to keep waiting.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = GateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const options = parsed.data
+    let scanId = options.scanId
+    let reused = !!scanId
+
+    if (scanId) {
+      const scan = await prisma.scan.findUnique({ where: { id: scanId }, select: { id: true } })
+      if (!scan) {
+        return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+      }
+    } else {
+      const existing = options.digest ? await findReusableScan(options.digest, options.maxAgeHours) : null
+
+      if (existing) {
+        scanId = existing.id
+        reused = true
+      } else {
+        if (!options.image) {
+          return NextResponse.json(
+            { error: `No scan of ${options.digest} to reuse; provide the image to scan it` },
+            { status: 404 }
+          )
+        }
+
+        const scanMode = await detectScanMode()
+        if (scanMode === 'unavailable') {
+          return NextResponse.json(
+            { error: 'No scanner available. Register a sensor agent or deploy the monolith image with the sensor module.' },
+            { status: 503 }
+          )
+        }
+
+        const result = await scannerService.startScan({
+          image: options.image,
+          tag: options.tag,
+          // Scan the manifest CI asked about even if the tag has moved since
+          ...(options.digest && { digest: options.digest }),
+          registry: options.registry,
+          repositoryId: options.repositoryId,
+          source: options.source,
+        })
+        scanId = result.scanId
+
+        await auditLogger.scanStart(request, `${options.image}:${options.tag}`, options.source || 'registry')
+      }
+    }
+
+    const done = await waitForScan(scanId, options.timeout * 1000, request.signal)
+    const result = await getScanGateResult(scanId, options.failOn, reused)
+
+    return NextResponse.json(result, { status: done && result.done ? 200 : 202 })
+  } catch (error) {
+    return apiError(error, 'Failed to run scan gate')
+  }
+}
@@ -6,6 +6,7 @@ import { prisma } from '@/lib/prisma';
 import { scannerService, detectScanMode } from '@/lib/scanner';
 import type { ScanRequest } from '@/types';
 import { apiError } from '@/lib/api/api-utils';
+import { isNewImage, notifyImageDiscovered } from '@/lib/notification-routing/events';
 
 export async function POST(request: NextRequest) {
   try {
@@ -67,6 +68,7 @@ export async function POST(request: NextRequest) {
         try {
           // Upsert the image - create if doesn't exist, or update if it does
           const imageDigest = image.digest || image.id;
+          const discovered = await isNewImage(image.repository, image.tag);
 
           dbImage = await prisma.image.upsert({
             where: {
@@ -89,6 +91,7 @@ export async function POST(request: NextRequest) {
               sizeBytes: BigInt(parseInt(image.size.replace(/[^\d]/g, '')) * 1024 * 1024), // Convert MB to bytes
             }
           });
+          if (discovered) notifyImageDiscovered(dbImage.id).catch(() => {});
           
           // Prepare scan request
           const scanRequest: ScanRequest = {
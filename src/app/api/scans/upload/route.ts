@@ -7,6 +7,7 @@ import { extractBearerToken, validateApiKey } from '@/lib/agent/api-keys'
 import { ingestEnvelope } from '@/lib/scanner/SensorBridge'
 import { scannerService } from '@/lib/scanner'
 import { auditLogger } from '@/lib/audit-logger'
+import { isNewImage, notifyImageDiscovered } from '@/lib/notification-routing/events'
 
 // Validation schema for legacy scan upload
 const ScanUploadSchema = z.object({
@@ -99,6 +100,7 @@ export async function POST(request: NextRequest) {
       where: { digest: validatedData.image.digest },
     })
     if (!image) {
+      const discovered = await isNewImage(validatedData.image.name, validatedData.image.tag)
       image = await prisma.image.create({
         data: {
           name: validatedData.image.name,
@@ -109,6 +111,7 @@ export async function POST(request: NextRequest) {
           sizeBytes: validatedData.image.sizeBytes ? BigInt(validatedData.image.sizeBytes) : null,
         },
       })
+      if (discovered) notifyImageDiscovered(image.id).catch(() => {})
     }
 
     const scanMetadata = await prisma.scanMetadata.create({
@@ -218,6 +221,7 @@ async function handleEnvelopeUpload(envelope: any, agentId: string | null) {
   }
 
   const digest = envelope.image?.digest || `sensor:${envelopeScanId}`
+  const discovered = await isNewImage(envelope.image?.name || 'unknown', envelope.image?.tag || 'latest')
 
   const image = await prisma.image.upsert({
     where: { digest },
@@ -234,6 +238,7 @@ async function handleEnvelopeUpload(envelope: any, agentId: string | null) {
       sizeBytes: envelope.image?.sizeBytes ? BigInt(envelope.image.sizeBytes) : null,
     },
   })
+  if (discovered) notifyImageDiscovered(image.id).catch(() => {})
 
   const scan = await prisma.scan.create({
     data: {
@@ -2,15 +2,26 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
 import { apiError } from '@/lib/api/api-utils'
+import { getNextRunAt, validateCron } from '@/lib/scheduler/cron'
+import { validateImagePattern } from '@/lib/scheduler/ScheduledScanExecutor'
 
 const UpdateScheduledScanSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().max(1000).optional().nullable(),
-  schedule: z.string().min(1).optional(),
+  // An empty schedule clears the cron expression (manual execution only)
+  schedule: z.string().nullable().optional()
+    .transform(value => value === undefined ? undefined : (value?.trim() || null))
+    .refine(value => !value || validateCron(value) === null, {
+      message: 'Invalid cron expression',
+    }),
   enabled: z.boolean().optional(),
   imageSelectionMode: z.enum(['ALL', 'SPECIFIC', 'PATTERN', 'REPOSITORY']).optional(),
-  imagePattern: z.string().optional().nullable(),
+  imagePattern: z.string().optional().nullable()
+    .refine(value => !value || validateImagePattern(value) === null, {
+      message: 'Invalid image pattern',
+    }),
   selectedImageIds: z.array(z.string()).optional(),
+  missedRunPolicy: z.enum(['RUN_ONCE', 'SKIP']).optional(),
 })
 
 export async function GET(
@@ -109,7 +120,8 @@ export async function PUT(
       enabled,
       imageSelectionMode,
       imagePattern,
-      selectedImageIds
+      selectedImageIds,
+      missedRunPolicy
     } = parsed.data
 
     // Check if scheduled scan exists
@@ -136,15 +148,15 @@ export async function PUT(
     if (enabled !== undefined) updateData.enabled = enabled
     if (imageSelectionMode !== undefined) updateData.imageSelectionMode = imageSelectionMode
     if (imagePattern !== undefined) updateData.imagePattern = imagePattern
-
-    // Calculate next run time if schedule changed and enabled
-    if (schedule !== undefined && enabled) {
-      // TODO: Implement proper cron parsing
-      const nextRunAt = new Date()
-      nextRunAt.setDate(nextRunAt.getDate() + 1)
-      updateData.nextRunAt = nextRunAt
-    } else if (!enabled) {
-      updateData.nextRunAt = null
+    if (missedRunPolicy !== undefined) updateData.missedRunPolicy = missedRunPolicy
+
+    // Recalculate the next run from the effective schedule and enabled state
+    const effectiveSchedule = schedule !== undefined ? schedule : existingScan.schedule
+    const effectiveEnabled = enabled !== undefined ? enabled : existingScan.enabled
+    if (schedule !== undefined || enabled !== undefined) {
+      updateData.nextRunAt = effectiveSchedule && effectiveEnabled
+        ? getNextRunAt(effectiveSchedule)
+        : null
     }
 
     // Handle image selection updates
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { apiError } from '@/lib/api/api-utils'
+import { getRequestUser } from '@/lib/auth'
+import { getNextRunAt, validateCron } from '@/lib/scheduler/cron'
+import { validateImagePattern } from '@/lib/scheduler/ScheduledScanExecutor'
 
 export async function GET(request: NextRequest) {
   try {
@@ -86,7 +89,8 @@ export async function POST(request: NextRequest) {
       imageSelectionMode,
       imagePattern,
       selectedImageIds = [],
-      source: rawSource = 'MANUAL'
+      source: rawSource = 'MANUAL',
+      missedRunPolicy = 'RUN_ONCE'
     } = body
 
     // Normalize source to valid enum value
@@ -108,6 +112,23 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (schedule) {
+      const cronError = validateCron(schedule)
+      if (cronError) {
+        return NextResponse.json(
+          { error: `Invalid cron expression: ${cronError}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!['RUN_ONCE', 'SKIP'].includes(missedRunPolicy)) {
+      return NextResponse.json(
+        { error: 'Missed run policy must be RUN_ONCE or SKIP' },
+        { status: 400 }
+      )
+    }
+
     // Validate pattern-based selection
     if (imageSelectionMode === 'PATTERN' && !imagePattern) {
       return NextResponse.json(
@@ -116,6 +137,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (imagePattern) {
+      const patternError = validateImagePattern(imagePattern)
+      if (patternError) {
+        return NextResponse.json(
+          { error: `Invalid image pattern: ${patternError}` },
+          { status: 400 }
+        )
+      }
+    }
+
     // Validate specific image selection
     if (imageSelectionMode === 'SPECIFIC' && (!selectedImageIds || selectedImageIds.length === 0)) {
       return NextResponse.json(
@@ -155,13 +186,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate next run time if schedule is provided
-    let nextRunAt = null
-    if (schedule && enabled) {
-      // TODO: Implement cron parsing to calculate next run time
-      // For now, just set it to tomorrow
-      nextRunAt = new Date()
-      nextRunAt.setDate(nextRunAt.getDate() + 1)
-    }
+    const nextRunAt = schedule && enabled ? getNextRunAt(schedule) : null
 
     // Create the scheduled scan
     const scheduledScan = await prisma.scheduledScan.create({
@@ -173,7 +198,9 @@ export async function POST(request: NextRequest) {
         imageSelectionMode,
         imagePattern,
         source,
+        missedRunPolicy,
         nextRunAt,
+        createdBy: getRequestUser(request)?.username,
         selectedImages: {
           create: imagesToAdd
         }
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { getOidcRedirectUri, getOidcSettings, OIDC_SETTING_KEYS } from '@/lib/auth'
+
+const RoleSchema = z.enum(['VIEWER', 'TRIAGER', 'OPERATOR', 'ADMIN'])
+
+const UpdateOidcSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  issuer: z.string().trim().refine(value => value === '' || /^https?:\/\/[^\s]+$/.test(value), {
+    message: 'Issuer must be an http(s) URL',
+  }).optional(),
+  clientId: z.string().trim().max(255).optional(),
+  // Omit to keep the stored secret, send an empty string to clear it
+  clientSecret: z.string().max(1024).optional(),
+  scopes: z.string().trim().max(512).refine(value => value.split(/\s+/).includes('openid'), {
+    message: 'Scopes must include "openid"',
+  }).optional(),
+  groupsClaim: z.string().trim().min(1).max(255).optional(),
+  usernameClaim: z.string().trim().min(1).max(255).optional(),
+  roleMappings: z.array(z.object({
+    group: z.string().trim().min(1, 'Group name is required').max(255),
+    role: RoleSchema,
+  })).max(100).optional(),
+  defaultRole: RoleSchema.nullable().optional(),
+  autoProvision: z.boolean().optional(),
+})
+
+async function toResponse(request: NextRequest) {
+  const settings = await getOidcSettings()
+  const { clientSecret, ...rest } = settings
+  return {
+    ...rest,
+    clientSecretSet: !!clientSecret,
+    clientSecretFromEnv: !!process.env.OIDC_CLIENT_SECRET,
+    redirectUri: getOidcRedirectUri(request),
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await toResponse(request))
+  } catch (error) {
+    return apiError(error, 'Failed to load single sign-on settings')
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = UpdateOidcSettingsSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      )
+    }
+
+    const data = parsed.data
+    const current = await getOidcSettings()
+    const enabled = data.enabled ?? current.enabled
+    const issuer = data.issuer ?? current.issuer
+    const clientId = data.clientId ?? current.clientId
+    if (enabled && (!issuer || !clientId)) {
+      return NextResponse.json(
+        { error: 'Issuer and client ID are required to enable single sign-on' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, string | null> = {}
+    if (data.enabled !== undefined) updates[OIDC_SETTING_KEYS.enabled] = String(data.enabled)
+    if (data.issuer !== undefined) updates[OIDC_SETTING_KEYS.issuer] = data.issuer.replace(/\/+$/, '')
+    if (data.clientId !== undefined) updates[OIDC_SETTING_KEYS.clientId] = data.clientId
+    if (data.clientSecret !== undefined) updates[OIDC_SETTING_KEYS.clientSecret] = data.clientSecret || null
+    if (data.scopes !== undefined) updates[OIDC_SETTING_KEYS.scopes] = data.scopes
+    if (data.groupsClaim !== undefined) updates[OIDC_SETTING_KEYS.groupsClaim] = data.groupsClaim
+    if (data.usernameClaim !== undefined) updates[OIDC_SETTING_KEYS.usernameClaim] = data.usernameClaim
+    if (data.roleMappings !== undefined) updates[OIDC_SETTING_KEYS.roleMappings] = JSON.stringify(data.roleMappings)
+    if (data.defaultRole !== undefined) updates[OIDC_SETTING_KEYS.defaultRole] = data.defaultRole
+    if (data.autoProvision !== undefined) updates[OIDC_SETTING_KEYS.autoProvision] = String(data.autoProvision)
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === null) {
+        await prisma.appSetting.deleteMany({ where: { key } })
+      } else {
+        await prisma.appSetting.upsert({
+          where: { key },
+          update: { value },
+          create: { key, value },
+        })
+      }
+    }
+
+    return NextResponse.json(await toResponse(request))
+  } catch (error) {
+    return apiError(error, 'Failed to update single sign-on settings')
+  }
+}
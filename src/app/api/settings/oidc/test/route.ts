@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { discoverProvider } from '@/lib/auth'
+
+const TestOidcSchema = z.object({
+  issuer: z.string().trim().regex(/^https?:\/\/[^\s]+$/, 'Issuer must be an http(s) URL'),
+})
+
+/**
+ * Fetch the issuer's discovery document to check the configuration.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = TestOidcSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const metadata = await discoverProvider(parsed.data.issuer.replace(/\/+$/, ''))
+    return NextResponse.json({
+      success: true,
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+      jwksUri: metadata.jwks_uri,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Discovery failed' },
+      { status: 502 }
+    )
+  }
+}
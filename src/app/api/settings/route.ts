@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { SLA_SETTING_KEYS } from '@/lib/sla/rules';
+import { getSlaPolicy, recalculateSlaDueDates } from '@/lib/sla/service';
 
 const ALLOWED_KEYS: Record<string, { min?: number; max?: number; type: 'number' | 'boolean' }> = {
   cleanupOldScansDays: { min: 1, max: 365, type: 'number' },
   cleanupAuditLogsDays: { min: 1, max: 365, type: 'number' },
   cleanupBulkScansDays: { min: 1, max: 365, type: 'number' },
   cleanupS3Artifacts: { type: 'boolean' },
+  // Remediation SLA days per severity; 0 means no SLA
+  slaCriticalDays: { min: 0, max: 730, type: 'number' },
+  slaHighDays: { min: 0, max: 730, type: 'number' },
+  slaMediumDays: { min: 0, max: 730, type: 'number' },
+  slaLowDays: { min: 0, max: 730, type: 'number' },
+  slaBreachReport: { type: 'boolean' },
 };
 
 const DEFAULTS: Record<string, string> = {
@@ -13,11 +21,17 @@ const DEFAULTS: Record<string, string> = {
   cleanupAuditLogsDays: '30',
   cleanupBulkScansDays: '30',
   cleanupS3Artifacts: 'true',
+  slaCriticalDays: '7',
+  slaHighDays: '30',
+  slaMediumDays: '90',
+  slaLowDays: '180',
+  slaBreachReport: 'true',
 };
 
 export async function GET() {
   try {
-    const rows = await prisma.appSetting.findMany();
+    // Other features (e.g. single sign-on) keep their own keys in this table
+    const rows = await prisma.appSetting.findMany({ where: { key: { in: Object.keys(ALLOWED_KEYS) } } });
     const settings: Record<string, string> = { ...DEFAULTS };
     for (const row of rows) {
       settings[row.key] = row.value;
@@ -79,8 +93,14 @@ export async function PUT(request: NextRequest) {
       });
     }
 
+    // Due dates are stored, so they follow the new SLA days right away
+    const slaKeys: string[] = Object.values(SLA_SETTING_KEYS);
+    if (updates.some(({ key }) => slaKeys.includes(key))) {
+      await recalculateSlaDueDates(await getSlaPolicy());
+    }
+
     // Return full settings after update
-    const rows = await prisma.appSetting.findMany();
+    const rows = await prisma.appSetting.findMany({ where: { key: { in: Object.keys(ALLOWED_KEYS) } } });
     const settings: Record<string, string> = { ...DEFAULTS };
     for (const row of rows) {
       settings[row.key] = row.value;
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma, Severity } from '@/generated/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { prisma } from '@/lib/prisma'
+import { isSlaSeverity, SLA_STATUSES, type SlaStatus } from '@/lib/sla/rules'
+import { slaStatusWhere } from '@/lib/sla/service'
+
+const MAX_LIMIT = 1000
+
+/**
+ * Open SLA-tracked findings, soonest due first. Filter with ?imageName=,
+ * ?cveId=, ?severity= and ?status=OVERDUE|DUE_SOON|ON_TRACK; ?limit= caps the
+ * rows returned (default and maximum 1000).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams
+    const status = params.get('status')?.toUpperCase()
+    const severity = params.get('severity')?.toUpperCase()
+    const limit = params.get('limit') ? Number(params.get('limit')) : MAX_LIMIT
+
+    if (status && !(SLA_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${SLA_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (severity && !isSlaSeverity(severity)) {
+      return NextResponse.json(
+        { error: 'severity must be CRITICAL, HIGH, MEDIUM or LOW' },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    const where: Prisma.VulnerabilitySlaWhereInput = {
+      ...(status ? slaStatusWhere(status as SlaStatus) : { resolvedAt: null }),
+      ...(severity ? { severity: severity as Severity } : {}),
+      ...(params.get('imageName') ? { imageName: params.get('imageName')! } : {}),
+      ...(params.get('cveId') ? { cveId: params.get('cveId')! } : {}),
+    }
+
+    const [findings, total] = await Promise.all([
+      prisma.vulnerabilitySla.findMany({
+        where,
+        orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { cveId: 'asc' }],
+        take: limit,
+      }),
+      prisma.vulnerabilitySla.count({ where }),
+    ])
+
+    return NextResponse.json({ findings, total })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch SLA findings')
+  }
+}
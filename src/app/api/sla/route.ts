@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { getSlaSummary } from '@/lib/sla/service'
+
+/**
+ * Open vulnerability findings per remediation SLA status and severity, with
+ * the SLA days in effect. Suppressed findings and severities without an SLA
+ * are not counted.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getSlaSummary())
+  } catch (error) {
+    return apiError(error, 'Failed to fetch SLA summary')
+  }
+}
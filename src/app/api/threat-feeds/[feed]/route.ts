@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { importThreatFeedFile } from '@/lib/threat-feeds/import'
+import { THREAT_FEEDS, type ThreatFeedName } from '@/lib/threat-feeds/rules'
+
+/**
+ * Import a downloaded feed file sent as the request body: the EPSS scores CSV
+ * (plain or gzipped) for /epss, the CISA KEV catalog JSON for /kev.
+ * ?fileName= records the original file name. The feed's previous contents
+ * are replaced and findings re-scored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ feed: string }> }
+) {
+  try {
+    const { feed } = await params
+
+    if (!THREAT_FEEDS.includes(feed as ThreatFeedName)) {
+      return NextResponse.json(
+        { error: `Unknown feed. Use one of: ${THREAT_FEEDS.join(', ')}` },
+        { status: 404 }
+      )
+    }
+
+    const content = Buffer.from(await request.arrayBuffer())
+    if (content.length === 0) {
+      return NextResponse.json(
+        { error: 'Request body must contain the feed file' },
+        { status: 400 }
+      )
+    }
+
+    const fileName = new URL(request.url).searchParams.get('fileName')?.trim() || null
+    const result = await importThreatFeedFile(feed as ThreatFeedName, content, {
+      source: 'upload',
+      fileName,
+      importedBy: getRequestUser(request)?.username ?? null,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    await auditLogger.threatFeedImport(request, feed, fileName ?? 'upload', {
+      importId: result.import.id,
+      entryCount: result.import.entryCount,
+      findingCount: result.import.findingCount,
+      imagesUpdated: result.imagesUpdated,
+    })
+
+    return NextResponse.json(
+      { import: result.import, imagesUpdated: result.imagesUpdated },
+      { status: 201 }
+    )
+  } catch (error) {
+    return apiError(error, 'Failed to import threat feed')
+  }
+}
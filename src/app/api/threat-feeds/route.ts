@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { config } from '@/lib/config'
+import { getThreatFeedStatus } from '@/lib/threat-feeds/import'
+
+/**
+ * Entries loaded and the latest import of the EPSS and KEV feeds, and whether
+ * a feed directory is mounted.
+ */
+export async function GET() {
+  try {
+    const status = await getThreatFeedStatus()
+    return NextResponse.json({ ...status, feedsDirectory: config.threatFeedsDir ?? null })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch threat feed status')
+  }
+}
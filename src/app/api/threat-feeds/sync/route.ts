@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError } from '@/lib/api/api-utils'
+import { getRequestUser } from '@/lib/auth'
+import { config } from '@/lib/config'
+import { syncThreatFeedsDir } from '@/lib/threat-feeds/sync'
+
+/**
+ * Import new EPSS and KEV files from THREAT_FEEDS_DIR now instead of waiting
+ * for the hourly check.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!config.threatFeedsDir) {
+      return NextResponse.json(
+        { error: 'THREAT_FEEDS_DIR is not configured' },
+        { status: 409 }
+      )
+    }
+
+    const results = await syncThreatFeedsDir(config.threatFeedsDir, getRequestUser(request)?.username ?? null)
+    return NextResponse.json({ results })
+  } catch (error) {
+    return apiError(error, 'Failed to sync threat feeds')
+  }
+}
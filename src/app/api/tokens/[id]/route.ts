@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { apiTokenSelect, getRequestUser } from '@/lib/auth'
+
+/**
+ * Revoke a token. Revoked tokens are kept so their history stays visible.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const requestUser = getRequestUser(request)
+
+    const apiToken = await prisma.apiToken.findUnique({
+      where: { id },
+      select: apiTokenSelect,
+    })
+
+    // Other users' tokens are reported as missing rather than forbidden
+    if (!apiToken || !requestUser || (apiToken.user.id !== requestUser.id && requestUser.role !== 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'API token not found' },
+        { status: 404 }
+      )
+    }
+
+    if (apiToken.revokedAt) {
+      return NextResponse.json(apiToken)
+    }
+
+    const revoked = await prisma.apiToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: apiTokenSelect,
+    })
+
+    await auditLogger.apiTokenChange(request, 'revoke', apiToken.name, apiToken.user.username, { tokenId: id })
+
+    return NextResponse.json(revoked)
+  } catch (error) {
+    return apiError(error, 'Failed to revoke API token');
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import {
+  API_TOKEN_SCOPES,
+  apiTokenSelect,
+  createApiToken,
+  getRequestUser,
+} from '@/lib/auth'
+
+const CreateTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+  // Null creates a token that never expires
+  expiresInDays: z.number().int().min(1).max(3650).nullable().default(90),
+  // Admins may issue tokens for service accounts; defaults to the caller
+  userId: z.string().optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const requestUser = getRequestUser(request)
+    if (!requestUser) {
+      return NextResponse.json({ tokens: [] })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const all = searchParams.get('all') === 'true' && requestUser.role === 'ADMIN'
+
+    const tokens = await prisma.apiToken.findMany({
+      where: all ? {} : { userId: requestUser.id },
+      select: apiTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ tokens })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch API tokens')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const requestUser = getRequestUser(request)
+    if (!requestUser) {
+      return NextResponse.json(
+        { error: 'API tokens belong to a user account; create an admin account first' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const parsed = CreateTokenSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data
+    const userId = parsed.data.userId || requestUser.id
+
+    const owner = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true, authSource: true, isActive: true },
+    })
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Tokens act as their owner, so nobody may mint one for another person
+    if (owner.id !== requestUser.id && (requestUser.role !== 'ADMIN' || owner.authSource !== 'SERVICE')) {
+      return NextResponse.json(
+        { error: 'Tokens can only be created for yourself or, by admins, for service accounts' },
+        { status: 403 }
+      )
+    }
+
+    if (!owner.isActive) {
+      return NextResponse.json(
+        { error: `User ${owner.username} is deactivated` },
+        { status: 400 }
+      )
+    }
+
+    const expiresAt = expiresInDays === null
+      ? null
+      : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+    const { token, id } = await createApiToken({
+      userId: owner.id,
+      name,
+      scopes,
+      expiresAt,
+      createdBy: requestUser.username,
+    })
+
+    await auditLogger.apiTokenChange(request, 'create', name, owner.username, {
+      tokenId: id,
+      scopes,
+      expiresAt: expiresAt?.toISOString() ?? null,
+    })
+
+    const apiToken = await prisma.apiToken.findUnique({
+      where: { id },
+      select: apiTokenSelect,
+    })
+
+    // The plaintext token is only ever returned here
+    return NextResponse.json({ token, apiToken }, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create API token')
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import {
+  getRequestUser,
+  hashPassword,
+  isLastActiveAdmin,
+  MIN_PASSWORD_LENGTH,
+  revokeUserSessions,
+  userSelect,
+} from '@/lib/auth'
+
+const UpdateUserSchema = z.object({
+  displayName: z.string().max(255).optional().nullable(),
+  email: z.string().email().optional().nullable().or(z.literal('')),
+  role: z.enum(['VIEWER', 'TRIAGER', 'OPERATOR', 'ADMIN']).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(1024).optional(),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: userSelect,
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    return apiError(error, 'Failed to fetch user');
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json()
+    const parsed = UpdateUserSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { displayName, email, role, isActive, password } = parsed.data
+
+    const existingUser = await prisma.user.findUnique({ where: { id } })
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (password !== undefined && existingUser.authSource === 'OIDC') {
+      return NextResponse.json(
+        { error: 'Single sign-on users authenticate with their identity provider' },
+        { status: 400 }
+      )
+    }
+
+    if (password !== undefined && existingUser.authSource === 'SERVICE') {
+      return NextResponse.json(
+        { error: 'Service accounts authenticate with API tokens' },
+        { status: 400 }
+      )
+    }
+
+    const losesAdmin = (role !== undefined && role !== 'ADMIN') || isActive === false
+    if (losesAdmin && await isLastActiveAdmin(id)) {
+      return NextResponse.json(
+        { error: 'Cannot demote or deactivate the last active admin' },
+        { status: 409 }
+      )
+    }
+
+    const updateData: any = {}
+    if (displayName !== undefined) updateData.displayName = displayName || null
+    if (email !== undefined) updateData.email = email || null
+    if (role !== undefined) updateData.role = role
+    if (isActive !== undefined) updateData.isActive = isActive
+    if (password !== undefined) updateData.passwordHash = await hashPassword(password)
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: updateData,
+      select: userSelect,
+    })
+
+    // Deactivation and password resets sign the user out everywhere
+    if (isActive === false || password !== undefined) {
+      await revokeUserSessions(id)
+    }
+
+    await auditLogger.userChange(request, 'update', user.username, {
+      role,
+      isActive,
+      passwordChanged: password !== undefined,
+    })
+
+    return NextResponse.json(user)
+  } catch (error) {
+    return apiError(error, 'Failed to update user');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const existingUser = await prisma.user.findUnique({ where: { id } })
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (getRequestUser(request)?.id === id) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 409 }
+      )
+    }
+
+    if (await isLastActiveAdmin(id)) {
+      return NextResponse.json(
+        { error: 'Cannot delete the last active admin' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.user.delete({ where: { id } })
+    await auditLogger.userChange(request, 'delete', existingUser.username)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete user');
+  }
+}
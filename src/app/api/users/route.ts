@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import {
+  hashPassword,
+  hasUsers,
+  markUsersExist,
+  MIN_PASSWORD_LENGTH,
+  userSelect,
+  USERNAME_PATTERN,
+  USERNAME_PATTERN_MESSAGE,
+} from '@/lib/auth'
+
+const CreateUserSchema = z.object({
+  username: z.string().min(1).max(64).regex(USERNAME_PATTERN, USERNAME_PATTERN_MESSAGE),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(1024).optional(),
+  displayName: z.string().max(255).optional().nullable(),
+  email: z.string().email().optional().nullable().or(z.literal('')),
+  role: z.enum(['VIEWER', 'TRIAGER', 'OPERATOR', 'ADMIN']).default('VIEWER'),
+  // Service accounts cannot sign in and only authenticate with API tokens
+  serviceAccount: z.boolean().default(false),
+}).refine(data => data.serviceAccount ? !data.password : !!data.password, {
+  message: 'Local users need a password; service accounts cannot have one',
+})
+
+export async function GET() {
+  try {
+    const users = await prisma.user.findMany({
+      select: {
+        ...userSelect,
+        _count: { select: { sessions: true } },
+      },
+      orderBy: { username: 'asc' },
+    })
+
+    return NextResponse.json({ users })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch users')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = CreateUserSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { username, password, displayName, email, role, serviceAccount } = parsed.data
+
+    // A service account as the first user would enable authentication with nobody able to sign in
+    if (serviceAccount && !(await hasUsers())) {
+      return NextResponse.json(
+        { error: 'Create an admin account before adding service accounts' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.user.findUnique({ where: { username } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `User "${username}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username,
+        passwordHash: password ? await hashPassword(password) : null,
+        authSource: serviceAccount ? 'SERVICE' : 'LOCAL',
+        displayName: displayName || null,
+        email: email || null,
+        role,
+      },
+      select: userSelect,
+    })
+    markUsersExist()
+
+    await auditLogger.userChange(request, 'create', user.username, { role, serviceAccount })
+
+    return NextResponse.json(user, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'Failed to create user')
+  }
+}
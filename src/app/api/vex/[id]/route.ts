@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { refreshVexTargets } from '@/lib/vex/import'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const document = await prisma.vexDocument.findUnique({
+      where: { id },
+      include: { statements: { orderBy: { vulnerabilityId: 'asc' } } },
+    })
+    if (!document) {
+      return NextResponse.json(
+        { error: 'VEX document not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(document)
+  } catch (error) {
+    return apiError(error, 'Failed to fetch VEX document')
+  }
+}
+
+/**
+ * Remove a document; findings its statements suppressed count again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const document = await prisma.vexDocument.findUnique({
+      where: { id },
+      include: { statements: { select: { vulnerabilityId: true, aliases: true } } },
+    })
+    if (!document) {
+      return NextResponse.json(
+        { error: 'VEX document not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.vexDocument.delete({ where: { id } })
+    await auditLogger.vexChange(request, 'delete', document.source, {
+      vexDocumentId: id,
+      format: document.format,
+      documentId: document.documentId,
+      statementCount: document.statements.length,
+    })
+
+    await refreshVexTargets(document.statements.flatMap(statement => [statement.vulnerabilityId, ...statement.aliases]))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiError(error, 'Failed to delete VEX document')
+  }
+}
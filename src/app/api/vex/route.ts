@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { getRequestUser } from '@/lib/auth'
+import { importVexDocument, refreshVexTargets } from '@/lib/vex/import'
+import { parseVexDocument } from '@/lib/vex/parse'
+
+/**
+ * List imported VEX documents, newest first, with their statement counts.
+ */
+export async function GET() {
+  try {
+    const documents = await prisma.vexDocument.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { statements: true } } },
+    })
+
+    return NextResponse.json({ documents })
+  } catch (error) {
+    return apiError(error, 'Failed to fetch VEX documents')
+  }
+}
+
+/**
+ * Import an OpenVEX document or a CycloneDX BOM with VEX analysis, sent as the
+ * request body. ?source= names the publisher shown next to covered findings
+ * (default: the document's author). Statements saying an image is not
+ * affected, or that the issue is fixed, suppress the findings they cover.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseVexDocument(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const source = new URL(request.url).searchParams.get('source')?.trim()
+      || parsed.data.author
+      || 'Imported VEX'
+    const { document, replaced } = await importVexDocument(parsed.data, {
+      source,
+      importedBy: getRequestUser(request)?.username ?? null,
+    })
+
+    await auditLogger.vexChange(request, 'import', source, {
+      vexDocumentId: document.id,
+      format: document.format,
+      documentId: document.documentId,
+      statementCount: parsed.data.statements.length,
+      replaced: replaced.map(previous => previous.id),
+    })
+
+    // Vulnerabilities only the replaced versions covered count again too
+    const imagesUpdated = await refreshVexTargets(
+      [...parsed.data.statements, ...replaced.flatMap(previous => previous.statements)]
+        .flatMap(statement => [statement.vulnerabilityId, ...statement.aliases])
+    )
+
+    return NextResponse.json(
+      { document, statementCount: parsed.data.statements.length, replaced: replaced.length, imagesUpdated },
+      { status: 201 }
+    )
+  } catch (error) {
+    return apiError(error, 'Failed to import VEX document')
+  }
+}
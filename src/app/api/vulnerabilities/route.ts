@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { apiError } from '@/lib/api/api-utils';
+import { CORRELATION_FINDING_TYPE, parseCorrelationKey } from '@/lib/scanner/FindingCorrelator';
+import { DUE_SOON_DAYS, SLA_STATUSES, type SlaStatus } from '@/lib/sla/rules';
 
 interface VulnerabilityData {
   cveId: string;
@@ -18,8 +20,38 @@ interface VulnerabilityData {
   fixedVersion?: string;
   publishedDate?: string;
   references?: string[];
+  epssScore?: number;
+  epssPercentile?: number;
+  knownExploited: boolean;
+  slaDueAt?: string;
 }
 
+const SORT_OPTIONS = ['severity', 'cvss', 'epss', 'kev', 'sla'] as const;
+
+type SortOption = typeof SORT_OPTIONS[number];
+
+// ORDER BY over cve_aggregates; every option falls back to severity, then CVSS
+function orderByClause(sort: SortOption, alias: string): string {
+  const column = (name: string) => `${alias}${name}`;
+  const bySeverity = `${column('severity_priority')} DESC, ${column('"maxCvssScore"')} DESC NULLS LAST`;
+  const order = {
+    severity: bySeverity,
+    cvss: `${column('"maxCvssScore"')} DESC NULLS LAST, ${column('severity_priority')} DESC`,
+    epss: `${column('"maxEpssScore"')} DESC NULLS LAST, ${bySeverity}`,
+    // Known exploited first, then by exploit probability
+    kev: `${column('"knownExploited"')} DESC, ${column('"maxEpssScore"')} DESC NULLS LAST, ${bySeverity}`,
+    // Soonest (or longest overdue) remediation deadline first
+    sla: `${column('"slaDueAt"')} ASC NULLS LAST, ${bySeverity}`,
+  }[sort];
+  return `${order}, ${column('"cveId"')} ASC`;
+}
+
+// Earliest due date among the images with the CVE open and not suppressed
+const SLA_DUE_AT = `(
+  SELECT MIN(sla."dueAt") FROM "vulnerability_sla" sla
+  WHERE sla."cveId" = "scan_vulnerability_findings"."cveId" AND sla."resolvedAt" IS NULL AND NOT sla.suppressed
+)`;
+
 // Severity order for SQL sorting (maps to numeric priority)
 const SEVERITY_ORDER = `
   CASE severity
@@ -40,8 +72,33 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search') || '';
     const severity = searchParams.get('severity') || '';
     const includeTotal = searchParams.get('includeTotal') !== 'false';
+    const sort = (searchParams.get('sort') || 'severity') as SortOption;
+    const knownExploitedOnly = searchParams.get('kev') === 'true';
+    const minEpss = searchParams.get('minEpss') ? Number(searchParams.get('minEpss')) : null;
+    const slaStatus = (searchParams.get('sla')?.toUpperCase() || null) as SlaStatus | null;
     const maxAffectedImages = 10;
 
+    if (!SORT_OPTIONS.includes(sort)) {
+      return NextResponse.json(
+        { error: `sort must be one of: ${SORT_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (minEpss !== null && !(minEpss >= 0 && minEpss <= 1)) {
+      return NextResponse.json(
+        { error: 'minEpss must be a probability between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    if (slaStatus && !SLA_STATUSES.includes(slaStatus)) {
+      return NextResponse.json(
+        { error: `sla must be one of: ${SLA_STATUSES.map(status => status.toLowerCase()).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Build WHERE clause for SQL
     let whereConditions: string[] = [];
     let params: any[] = [];
@@ -62,6 +119,29 @@ export async function GET(request: NextRequest) {
 
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
+    // Exploitation filters apply to the CVE as a whole, across its findings
+    const havingConditions: string[] = [];
+
+    if (knownExploitedOnly) {
+      havingConditions.push(`BOOL_OR("knownExploited")`);
+    }
+
+    if (minEpss !== null) {
+      havingConditions.push(`MAX("epssScore") >= $${paramIndex}`);
+      params.push(minEpss);
+      paramIndex++;
+    }
+
+    if (slaStatus === 'OVERDUE') {
+      havingConditions.push(`${SLA_DUE_AT} < NOW()`);
+    } else if (slaStatus === 'DUE_SOON') {
+      havingConditions.push(`${SLA_DUE_AT} >= NOW() AND ${SLA_DUE_AT} < NOW() + make_interval(days => ${DUE_SOON_DAYS})`);
+    } else if (slaStatus === 'ON_TRACK') {
+      havingConditions.push(`${SLA_DUE_AT} >= NOW() + make_interval(days => ${DUE_SOON_DAYS})`);
+    }
+
+    const havingClause = havingConditions.length > 0 ? `HAVING ${havingConditions.join(' AND ')}` : '';
+
     // Single optimized query to get paginated, sorted CVEs with all aggregations
     // Uses composite indexes on (cveId, severity, cvssScore) for efficient window function
     // and (cveId, scanId) for efficient COUNT DISTINCT
@@ -69,6 +149,10 @@ export async function GET(request: NextRequest) {
       cveId: string;
       severity: string;
       maxCvssScore: number | null;
+      maxEpssScore: number | null;
+      maxEpssPercentile: number | null;
+      knownExploited: boolean;
+      slaDueAt: Date | null;
       scanCount: bigint;
       description: string | null;
       packageName: string | null;
@@ -86,11 +170,16 @@ export async function GET(request: NextRequest) {
             ELSE 0
           END) as severity_priority,
           MAX("cvssScore") as "maxCvssScore",
+          MAX("epssScore") as "maxEpssScore",
+          MAX("epssPercentile") as "maxEpssPercentile",
+          BOOL_OR("knownExploited") as "knownExploited",
+          ${SLA_DUE_AT} as "slaDueAt",
           COUNT(DISTINCT "scanId") as "scanCount"
         FROM "scan_vulnerability_findings"
         ${whereClause}
         GROUP BY "cveId"
-        ORDER BY severity_priority DESC, "maxCvssScore" DESC NULLS LAST, "cveId" ASC
+        ${havingClause}
+        ORDER BY ${orderByClause(sort, '')}
         LIMIT $${paramIndex}
         OFFSET $${paramIndex + 1}
       ),
@@ -117,12 +206,16 @@ export async function GET(request: NextRequest) {
         ca."cveId",
         tf.severity,
         ca."maxCvssScore",
+        ca."maxEpssScore",
+        ca."maxEpssPercentile",
+        ca."knownExploited",
+        ca."slaDueAt",
         ca."scanCount",
         tf.description,
         tf."packageName"
       FROM cve_aggregates ca
       INNER JOIN top_findings tf ON tf."cveId" = ca."cveId"
-      ORDER BY ca.severity_priority DESC, ca."maxCvssScore" DESC NULLS LAST, ca."cveId" ASC
+      ORDER BY ${orderByClause(sort, 'ca.')}
       `,
       ...params,
       limit,
@@ -147,14 +240,16 @@ export async function GET(request: NextRequest) {
     let total: number | undefined;
     if (includeTotal) {
       const countResult = await prisma.$queryRawUnsafe<Array<{ count: bigint }>>(
-        `SELECT COUNT(DISTINCT "cveId") as count FROM "scan_vulnerability_findings" ${whereClause}`,
+        havingClause
+          ? `SELECT COUNT(*) as count FROM (SELECT "cveId" FROM "scan_vulnerability_findings" ${whereClause} GROUP BY "cveId" ${havingClause}) matching`
+          : `SELECT COUNT(DISTINCT "cveId") as count FROM "scan_vulnerability_findings" ${whereClause}`,
         ...params.slice(0, paramIndex - 1)
       );
       total = Number(countResult[0]?.count || 0);
     }
 
     // Fetch detailed findings and metadata in parallel
-    const [vulnerabilityFindings, correlations] = await Promise.all([
+    const [vulnerabilityFindings, correlations, kevEntries] = await Promise.all([
       prisma.scanVulnerabilityFinding.findMany({
         where: {
           cveId: { in: finalCveIds }
@@ -185,8 +280,8 @@ export async function GET(request: NextRequest) {
       }),
       prisma.scanFindingCorrelation.findMany({
         where: {
-          findingType: 'vulnerability',
-          correlationKey: { in: finalCveIds }
+          findingType: CORRELATION_FINDING_TYPE,
+          OR: finalCveIds.map(cveId => ({ correlationKey: { startsWith: `${cveId.toUpperCase()}|` } }))
         },
         select: {
           correlationKey: true,
@@ -194,8 +289,21 @@ export async function GET(request: NextRequest) {
           sourceCount: true,
           confidenceScore: true
         }
+      }),
+      prisma.kevEntry.findMany({
+        where: {
+          cveId: { in: cveAggregations.filter(c => c.knownExploited).map(c => c.cveId.toUpperCase()) }
+        },
+        select: {
+          cveId: true,
+          dateAdded: true,
+          dueDate: true,
+          requiredAction: true,
+          knownRansomwareUse: true
+        }
       })
     ]);
+    const kevMap = new Map(kevEntries.map(entry => [entry.cveId, entry]));
 
     // Get classifications for affected images
     const imageIds = [...new Set(vulnerabilityFindings.map(f => f.scan.imageId))];
@@ -273,9 +381,14 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const correlationMap = new Map<string, any>();
+    // Correlations are per scan and package; keep the strongest agreement seen for each CVE
+    const correlationMap = new Map<string, typeof correlations[0]>();
     correlations.forEach(corr => {
-      correlationMap.set(corr.correlationKey, corr);
+      const { vulnerabilityId } = parseCorrelationKey(corr.correlationKey);
+      const current = correlationMap.get(vulnerabilityId);
+      if (!current || corr.confidenceScore > current.confidenceScore) {
+        correlationMap.set(vulnerabilityId, corr);
+      }
     });
 
     // Build aggregation lookup map
@@ -288,7 +401,7 @@ export async function GET(request: NextRequest) {
     const vulnerabilities = finalCveIds.map((cveId) => {
       const cveData = cveDataMap.get(cveId);
       const aggregated = aggregationMap.get(cveId);
-      const correlation = correlationMap.get(cveId);
+      const correlation = correlationMap.get(cveId.toUpperCase());
 
       return {
         cveId: cveId,
@@ -306,7 +419,12 @@ export async function GET(request: NextRequest) {
         references: cveData ? Array.from(cveData.references) : [],
         sources: cveData ? Array.from(cveData.sources) : [],
         sourceCount: correlation?.sourceCount || (cveData?.sources.size || 0),
-        confidenceScore: correlation?.confidenceScore
+        confidenceScore: correlation?.confidenceScore,
+        epssScore: aggregated?.maxEpssScore ?? undefined,
+        epssPercentile: aggregated?.maxEpssPercentile ?? undefined,
+        knownExploited: aggregated?.knownExploited ?? false,
+        kev: kevMap.get(cveId.toUpperCase()),
+        slaDueAt: aggregated?.slaDueAt?.toISOString()
       };
     });
 
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError } from '@/lib/api/api-utils'
+import { auditLogger } from '@/lib/audit-logger'
+import { parseRegistryWebhook, verifyWebhookSecret } from '@/lib/registry/webhooks/formats'
+import { getWebhookSecret, handleRegistryPushes } from '@/lib/registry/webhooks/receiver'
+
+// Push notifications are small; anything larger is not from a registry
+const MAX_BODY_BYTES = 1024 * 1024
+
+/**
+ * Receive a push notification of the repository's registry and queue a
+ * scan of every pushed tag. The format is detected from the request.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ repositoryId: string }> }
+) {
+  try {
+    const { repositoryId } = await params
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+      select: { id: true, name: true, webhookSecret: true },
+    })
+    const secret = repository ? getWebhookSecret(repository) : null
+    if (!repository || !secret) {
+      return NextResponse.json(
+        { error: 'No webhook is enabled for this repository' },
+        { status: 404 }
+      )
+    }
+
+    const rawBody = await request.text()
+    if (Buffer.byteLength(rawBody) > MAX_BODY_BYTES) {
+      return NextResponse.json(
+        { error: 'Notification is too large' },
+        { status: 413 }
+      )
+    }
+
+    if (!verifyWebhookSecret(secret, request.headers, rawBody, request.nextUrl.searchParams)) {
+      return NextResponse.json(
+        { error: 'Invalid or missing webhook secret' },
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Notification is not valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseRegistryWebhook(request.headers, body)
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Unsupported notification format' },
+        { status: 400 }
+      )
+    }
+
+    // Pings, pulls and deletions are acknowledged without scanning
+    if (parsed.pushes.length === 0) {
+      return NextResponse.json({ format: parsed.format, received: 0, results: [] })
+    }
+
+    const results = await handleRegistryPushes(repository.id, parsed.pushes)
+    for (const result of results) {
+      if (result.status === 'queued') {
+        auditLogger.scanStart(request, `${result.image}:${result.tag}`, 'registry webhook').catch(() => {})
+      }
+    }
+
+    return NextResponse.json(
+      { format: parsed.format, received: parsed.pushes.length, results },
+      { status: 202 }
+    )
+  } catch (error) {
+    return apiError(error, 'Failed to process registry webhook')
+  }
+}
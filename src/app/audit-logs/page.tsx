@@ -28,6 +28,7 @@ export interface AuditLogFiltersState {
   eventType?: string;
   category?: string;
   userIp?: string;
+  username?: string;
   resource?: string;
   search?: string;
   startDate?: string;
@@ -41,6 +42,7 @@ interface AuditLog {
   userIp: string;
   userAgent?: string;
   userId?: string;
+  username?: string;
   resource?: string;
   action: string;
   details?: Record<string, any>;
@@ -118,6 +120,12 @@ function AuditLogsTable({ filters }: { filters: AuditLogFiltersState }) {
         variant: (value: string) => getCategoryVariant(value),
       },
     },
+    {
+      key: 'username',
+      header: 'User',
+      type: 'text',
+      accessorFn: (row: AuditLog) => row.username || '—',
+    },
     {
       key: 'userIp',
       header: 'User IP',
@@ -204,6 +212,12 @@ function AuditLogsTable({ filters }: { filters: AuditLogFiltersState }) {
                       <p className="text-body-sm text-foreground mt-1">{selectedLog.resource}</p>
                     </div>
                   )}
+                  {selectedLog.username && (
+                    <div>
+                      <p className="text-caption uppercase tracking-widest text-muted-foreground/50">User</p>
+                      <p className="text-body-sm text-foreground mt-1">{selectedLog.username}</p>
+                    </div>
+                  )}
                   {selectedLog.userId && (
                     <div>
                       <p className="text-caption uppercase tracking-widest text-muted-foreground/50">User ID</p>
@@ -271,6 +285,16 @@ const getEventTypeLabel = (eventType: string) => {
     bulk_scan_start: 'Bulk Scan Start',
     user_login: 'User Login',
     user_logout: 'User Logout',
+    user_change: 'User Change',
+    api_token_change: 'API Token Change',
+    policy_change: 'Policy Change',
+    exception_change: 'Exception Change',
+    vex_change: 'VEX Change',
+    threat_feed_import: 'Threat Feed Import',
+    notification_change: 'Notification Change',
+    agent_change: 'Agent Change',
+    scan_rule_change: 'Scan Rule Change',
+    repository_webhook_change: 'Repository Webhook Change',
     system_error: 'System Error',
   };
   return labels[eventType] || eventType;
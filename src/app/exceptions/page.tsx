@@ -0,0 +1,489 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Check, FileCheck, Pencil, Plus, ShieldOff, Trash2, Upload, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  VulnerabilityExceptionDialog,
+  type VulnerabilityException,
+} from "@/components/dialogs/vulnerability-exception-dialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { describeExceptionMatch, JUSTIFICATION_LABELS } from "@/lib/exceptions/rules";
+
+function describeScope(exception: VulnerabilityException): string {
+  switch (exception.scope) {
+    case "GLOBAL":
+      return "All images";
+    case "IMAGE":
+      return exception.image ? `${exception.image.name}:${exception.image.tag}` : "Image";
+    case "REPOSITORY":
+      return exception.repository?.name ?? "Repository";
+    case "IMAGE_PATTERN":
+      return exception.imagePattern ?? "";
+  }
+}
+
+interface VexDocument {
+  id: string;
+  format: "OPENVEX" | "CYCLONEDX";
+  documentId: string | null;
+  source: string;
+  author: string | null;
+  issuedAt: string | null;
+  importedBy: string | null;
+  createdAt: string;
+  _count: { statements: number };
+}
+
+function VexDocumentsCard({ canImport }: { canImport: boolean }) {
+  const [documents, setDocuments] = useState<VexDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [source, setSource] = useState("");
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const response = await fetch("/api/vex");
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setDocuments(data.documents);
+    } catch (error) {
+      console.error("Failed to fetch VEX documents:", error);
+      toast.error("Failed to load VEX documents");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const query = source.trim() ? `?source=${encodeURIComponent(source.trim())}` : "";
+      const response = await fetch(`/api/vex${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || "Failed to import VEX document");
+        return;
+      }
+      toast.success(`Imported ${data.statementCount} VEX statement(s)${data.replaced ? ", replacing the previous version" : ""}`);
+      setSource("");
+      fetchDocuments();
+    } catch {
+      toast.error("Failed to import VEX document");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleDelete = async (vexDocument: VexDocument) => {
+    if (!confirm(`Delete the VEX document from ${vexDocument.source}? Findings it suppressed count again.`)) return;
+    try {
+      const response = await fetch(`/api/vex/${vexDocument.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete VEX document");
+        return;
+      }
+      toast.success("VEX document deleted");
+      fetchDocuments();
+    } catch {
+      toast.error("Failed to delete VEX document");
+    }
+  };
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+            <FileCheck className="h-4 w-4 text-accent" />
+            VEX Documents
+          </CardTitle>
+          <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+            OpenVEX and CycloneDX VEX from vendors or other teams; not affected and fixed statements suppress findings
+          </CardDescription>
+        </div>
+        {canImport && (
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Source (default: author)"
+              aria-label="VEX source"
+              className="w-56"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+            />
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <Button
+              variant="outline"
+              disabled={importing}
+              onClick={() => fileInput.current?.click()}
+              className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {importing ? "Importing..." : "Import VEX"}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              Loading VEX documents...
+            </div>
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              No VEX documents imported
+            </div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10">
+                <TableHead className="text-caption uppercase tracking-widest">Source</TableHead>
+                <TableHead className="text-caption uppercase tracking-widest">Format</TableHead>
+                <TableHead className="text-caption uppercase tracking-widest">Statements</TableHead>
+                <TableHead className="text-caption uppercase tracking-widest">Issued</TableHead>
+                <TableHead className="text-caption uppercase tracking-widest">Imported</TableHead>
+                {canImport && <TableHead className="text-caption uppercase tracking-widest text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((vexDocument) => (
+                <TableRow key={vexDocument.id} className="border-white/10">
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="text-body-sm text-foreground">{vexDocument.source}</span>
+                      {vexDocument.documentId && (
+                        <span className="text-caption text-muted-foreground/60 font-mono">{vexDocument.documentId}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground">
+                    {vexDocument.format === "CYCLONEDX" ? "CycloneDX" : "OpenVEX"}
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground">{vexDocument._count.statements}</TableCell>
+                  <TableCell className="text-caption text-muted-foreground">
+                    {vexDocument.issuedAt ? new Date(vexDocument.issuedAt).toLocaleDateString() : "-"}
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground">
+                    {new Date(vexDocument.createdAt).toLocaleDateString()}
+                    {vexDocument.importedBy ? ` by ${vexDocument.importedBy}` : ""}
+                  </TableCell>
+                  {canImport && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Delete VEX document"
+                        onClick={() => handleDelete(vexDocument)}
+                        className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const STATUS_VARIANTS: Record<VulnerabilityException["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "secondary",
+  APPROVED: "default",
+  REJECTED: "destructive",
+  EXPIRED: "outline",
+};
+
+export default function ExceptionsPage() {
+  const { can } = useCurrentUser();
+  const canRequest = can("TRIAGER");
+  const canDecide = can("ADMIN");
+  const [exceptions, setExceptions] = useState<VulnerabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingException, setEditingException] = useState<VulnerabilityException | null>(null);
+
+  const fetchExceptions = useCallback(async () => {
+    try {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await fetch(`/api/exceptions${query}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setExceptions(data.exceptions);
+    } catch (error) {
+      console.error("Failed to fetch exceptions:", error);
+      toast.error("Failed to load vulnerability exceptions");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const openDialog = (exception: VulnerabilityException | null) => {
+    setEditingException(exception);
+    setIsDialogOpen(true);
+  };
+
+  const handleDecision = async (exception: VulnerabilityException, decision: "APPROVED" | "REJECTED") => {
+    if (decision === "REJECTED" && !confirm(`Reject the exception for ${describeExceptionMatch(exception)}?`)) return;
+    try {
+      const response = await fetch(`/api/exceptions/${exception.id}/decision`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to record decision");
+        return;
+      }
+      toast.success(decision === "APPROVED" ? "Exception approved" : "Exception rejected");
+      fetchExceptions();
+    } catch {
+      toast.error("Failed to record decision");
+    }
+  };
+
+  const handleDelete = async (exception: VulnerabilityException) => {
+    if (!confirm(`Delete the exception for ${describeExceptionMatch(exception)}? Findings it covered count again.`)) return;
+    try {
+      const response = await fetch(`/api/exceptions/${exception.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete exception");
+        return;
+      }
+      toast.success("Exception deleted");
+      fetchExceptions();
+    } catch {
+      toast.error("Failed to delete exception");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="flex items-start justify-between gap-4 mb-8">
+            <div className="space-y-1">
+              <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Governance</p>
+              <h1 className="text-2xl tracking-tight text-foreground">
+                Vulnerability Exceptions
+              </h1>
+              <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                Approved, time-boxed risk acceptance and VEX statements for findings
+              </p>
+            </div>
+            {canRequest && (
+              <Button
+                onClick={() => openDialog(null)}
+                className="rounded-none uppercase tracking-widest text-caption"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Request Exception
+              </Button>
+            )}
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                  <ShieldOff className="h-4 w-4 text-accent" />
+                  Exceptions
+                </CardTitle>
+                <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                  Approved exceptions apply to risk scores, policy verdicts and reports until they expire
+                </CardDescription>
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40" aria-label="Filter by status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="PENDING">Pending</SelectItem>
+                  <SelectItem value="APPROVED">Approved</SelectItem>
+                  <SelectItem value="REJECTED">Rejected</SelectItem>
+                  <SelectItem value="EXPIRED">Expired</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    Loading exceptions...
+                  </div>
+                </div>
+              ) : exceptions.length === 0 ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    No vulnerability exceptions
+                  </div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="text-caption uppercase tracking-widest">Finding</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Applies To</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Justification</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Expires</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Status</TableHead>
+                      {canRequest && <TableHead className="text-caption uppercase tracking-widest text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {exceptions.map((exception) => (
+                      <TableRow key={exception.id} className="border-white/10">
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="text-body-sm text-foreground font-mono">{describeExceptionMatch(exception)}</span>
+                            <span className="text-caption text-muted-foreground/60">{exception.reason}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">
+                          <span className={exception.scope === "IMAGE_PATTERN" ? "font-mono" : undefined}>
+                            {describeScope(exception)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground">
+                          {JUSTIFICATION_LABELS[exception.justification]}
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground">
+                          {exception.expiresAt ? new Date(exception.expiresAt).toLocaleDateString() : "Never"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <Badge
+                              variant={STATUS_VARIANTS[exception.status]}
+                              className="rounded-none uppercase tracking-widest text-caption w-fit"
+                            >
+                              {exception.status.toLowerCase()}
+                            </Badge>
+                            <span className="text-caption text-muted-foreground/60">
+                              {exception.approvedBy
+                                ? `${exception.status === "REJECTED" ? "Rejected" : "Approved"} by ${exception.approvedBy}`
+                                : exception.requestedBy ? `Requested by ${exception.requestedBy}` : null}
+                            </span>
+                            {exception.decisionComment && (
+                              <span className="text-caption text-muted-foreground/60 italic">{exception.decisionComment}</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        {canRequest && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {canDecide && exception.status === "PENDING" && (
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    title="Approve exception"
+                                    onClick={() => handleDecision(exception, "APPROVED")}
+                                    className="rounded-none border-white/10 hover:bg-white/5 text-green-400"
+                                  >
+                                    <Check className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    title="Reject exception"
+                                    onClick={() => handleDecision(exception, "REJECTED")}
+                                    className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Edit exception"
+                                onClick={() => openDialog(exception)}
+                                className="rounded-none border-white/10 hover:bg-white/5"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Delete exception"
+                                onClick={() => handleDelete(exception)}
+                                className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <VexDocumentsCard canImport={canRequest} />
+        </div>
+      </div>
+
+      <VulnerabilityExceptionDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={fetchExceptions}
+        exception={editingException}
+      />
+    </div>
+  );
+}
@@ -24,7 +24,7 @@ import { CveClassificationDialog } from "@/components/dialogs/cve-classification
 import { PatchAnalysis } from "@/components/analysis/patch-analysis";
 import { useScanData } from "@/hooks/useScanData";
 import { useCveClassifications } from "@/hooks/useCveClassifications";
-import { ScanSummaryCard, RawScannerTabs } from "@/components/scan-results";
+import { ScanSummaryCard, RawScannerTabs, PolicyVerdictCard } from "@/components/scan-results";
 
 export default function ScanResultsPage() {
   const params = useParams();
@@ -167,6 +167,44 @@ export default function ScanResultsPage() {
     }
   };
 
+  const handleGenerateSarifReport = async () => {
+    try {
+      const response = await fetch(
+        `/api/images/name/${encodeURIComponent(decodedImageName)}/scan/${scanId}/sarif-report`
+      );
+      if (!response.ok) throw new Error("SARIF generation failed");
+      downloadBlob(await response.blob(), `${decodedImageName.replace("/", "_")}_${scanId}_report.sarif`);
+    } catch (error) {
+      console.error("SARIF generation failed:", error);
+    }
+  };
+
+  const handleExportVex = async (format: "openvex" | "cyclonedx") => {
+    const imageId = scanData?.imageId || scanData?.scan?.imageId;
+    if (!imageId) return;
+    try {
+      const response = await fetch(`/api/images/${imageId}/vex?format=${format}`);
+      if (!response.ok) throw new Error("VEX export failed");
+      const extension = format === "cyclonedx" ? "cdx.vex.json" : "openvex.json";
+      downloadBlob(await response.blob(), `${decodedImageName.replace("/", "_")}_${scanId}.${extension}`);
+    } catch (error) {
+      console.error("VEX export failed:", error);
+    }
+  };
+
+  const handleExportSbom = async (format: "cyclonedx" | "cyclonedx-xml" | "spdx") => {
+    try {
+      const response = await fetch(
+        `/api/images/name/${encodeURIComponent(decodedImageName)}/scan/${scanId}/sbom?format=${format}`
+      );
+      if (!response.ok) throw new Error("SBOM export failed");
+      const extension = format === "spdx" ? "spdx.json" : format === "cyclonedx-xml" ? "cdx.xml" : "cdx.json";
+      downloadBlob(await response.blob(), `${decodedImageName.replace("/", "_")}_${scanId}_sbom.${extension}`);
+    } catch (error) {
+      console.error("SBOM export failed:", error);
+    }
+  };
+
   const handleDownloadZip = async () => {
     try {
       const response = await fetch(
@@ -262,10 +300,16 @@ export default function ScanResultsPage() {
           diveResults={diveResults}
           onGeneratePdf={handleGeneratePdfReport}
           onGenerateXlsx={handleGenerateXlsxReport}
+          onGenerateSarif={handleGenerateSarifReport}
           onDownloadZip={handleDownloadZip}
           onDownloadReport={handleDownloadReport}
+          onExportVex={handleExportVex}
+          onExportSbom={handleExportSbom}
         />
 
+        {/* Security policy verdict */}
+        <PolicyVerdictCard scanId={scanId} />
+
         {/* View Mode Toggle - Only show if raw output is enabled */}
         {showRawOutput ? (
           <Card className="bg-surface-1 border-white/10 rounded-none">
@@ -27,8 +27,9 @@ import { UnifiedTable } from "@/components/table/unified-table";
 import { ColumnDefinition, ContextMenuItem } from "@/components/table/types";
 import { ImagePageSkeleton } from "@/components/images/image-loading";
 import { toast } from "sonner";
-import { Download, Upload, Trash2 } from "lucide-react";
+import { Download, Upload, Trash2, GitCompare } from "lucide-react";
 import { ExportImageDialogEnhanced } from "@/components/dialogs/export-image-dialog-enhanced";
+import { ScanDiffDialog } from "@/components/dialogs/scan-diff-dialog";
 import { getImageName } from "@/lib/utils/image-utils";
 import { resolveRegistryDisplay } from "@/lib/registry/registry-utils";
 
@@ -46,6 +47,10 @@ export default function ImageDetailsPage() {
     digest?: string;
   }>({ imageName: "", tag: "" });
 
+  // State for the scan comparison dialog
+  const [diffDialogOpen, setDiffDialogOpen] = useState(false);
+  const [diffHeadScanId, setDiffHeadScanId] = useState<string | undefined>();
+
   // Use DatabaseProvider for images (scans are fetched locally for this image)
   const {
     images,
@@ -478,13 +483,29 @@ export default function ImageDetailsPage() {
         {/* Historical Scans */}
         <Card className="bg-surface-1 border-white/10 rounded-none">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
-              <CalendarClock className="h-4 w-4 text-accent" />
-              All Scans Across Tags
-            </CardTitle>
-            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
-              Security scans for all versions of {imageData.name}
-            </CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                  <CalendarClock className="h-4 w-4 text-accent" />
+                  All Scans Across Tags
+                </CardTitle>
+                <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                  Security scans for all versions of {imageData.name}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setDiffHeadScanId(undefined);
+                  setDiffDialogOpen(true);
+                }}
+                className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+              >
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare Scans
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             <UnifiedTable
@@ -503,6 +524,18 @@ export default function ImageDetailsPage() {
         </Card>
       </div>
 
+      <ScanDiffDialog
+        open={diffDialogOpen}
+        onOpenChange={setDiffDialogOpen}
+        scans={imageData.scans.map((scan: any) => ({
+          id: scan.id,
+          tag: scan.tag || "latest",
+          startedAt: scan.startedAt,
+          status: scan.status,
+        }))}
+        headScanId={diffHeadScanId}
+      />
+
       {/* Export Dialog */}
       <ExportImageDialogEnhanced
         open={exportDialogOpen}
@@ -600,6 +633,14 @@ export default function ImageDetailsPage() {
           }
         },
       },
+      {
+        label: 'Compare With Previous Scan',
+        icon: <GitCompare className="mr-2 h-4 w-4" />,
+        action: modalAction(() => {
+          setDiffHeadScanId(row.scanId);
+          setDiffDialogOpen(true);
+        }),
+      },
       {
         label: 'Export Image',
         icon: <Upload className="mr-2 h-4 w-4" />,
@@ -31,7 +31,10 @@ import {
 } from "@/components/ui/loading";
 import { getSeverityBadgeVariant } from "@/lib/utils/severity-utils";
 import { getImageName } from "@/lib/utils/image-utils";
-import { useVulnerabilityLibrary, VulnerabilityData } from "@/hooks/useVulnerabilityLibrary";
+import { useVulnerabilityLibrary, VulnerabilityData, VulnerabilityPrioritization } from "@/hooks/useVulnerabilityLibrary";
+import { Badge } from "@/components/ui/badge";
+import { formatEpss } from "@/lib/threat-feeds/rules";
+import { SlaBadge } from "@/components/shared/sla-badge";
 
 export default function LibraryHomePage() {
   const router = useRouter();
@@ -52,6 +55,12 @@ export default function LibraryHomePage() {
     setSearch,
     severityFilter,
     setSeverityFilter,
+    exploitFilter,
+    setExploitFilter,
+    slaFilter,
+    setSlaFilter,
+    prioritization,
+    setPrioritization,
   } = useVulnerabilityLibrary();
 
   // Modal state
@@ -91,7 +100,7 @@ export default function LibraryHomePage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <TableLoadingSkeleton columns={8} rows={10} />
+                <TableLoadingSkeleton columns={11} rows={10} />
               </CardContent>
             </Card>
           </div>
@@ -117,7 +126,7 @@ export default function LibraryHomePage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
                 <div className="text-center">
                   <p className="text-2xl tracking-tight text-foreground">{stats.totalCves}</p>
                   <p className="text-caption uppercase tracking-widest text-muted-foreground/50">Total CVEs</p>
@@ -134,6 +143,14 @@ export default function LibraryHomePage() {
                   </p>
                   <p className="text-caption uppercase tracking-widest text-muted-foreground/50">High</p>
                 </div>
+                <div className="text-center">
+                  <p className="text-2xl tracking-tight text-red-400">
+                    {stats.knownExploitedCves}
+                  </p>
+                  <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                    Known Exploited
+                  </p>
+                </div>
                 <div className="text-center">
                   <p className="text-2xl tracking-tight text-orange-400">
                     {stats.highRiskCves}
@@ -208,6 +225,54 @@ export default function LibraryHomePage() {
                       <SelectItem value="low">Low</SelectItem>
                     </SelectContent>
                   </Select>
+                  <Select
+                    value={exploitFilter || "all"}
+                    onValueChange={(value) =>
+                      setExploitFilter(value === "all" ? "" : value)
+                    }
+                  >
+                    <SelectTrigger className="w-40 rounded-none border-white/10 text-caption uppercase tracking-widest">
+                      <SelectValue placeholder="Exploitation" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-overlay border-white/10 rounded-none">
+                      <SelectItem value="all">Any Exploitation</SelectItem>
+                      <SelectItem value="kev">Known Exploited</SelectItem>
+                      <SelectItem value="0.5">EPSS ≥ 50%</SelectItem>
+                      <SelectItem value="0.1">EPSS ≥ 10%</SelectItem>
+                      <SelectItem value="0.01">EPSS ≥ 1%</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={slaFilter || "all"}
+                    onValueChange={(value) =>
+                      setSlaFilter(value === "all" ? "" : value)
+                    }
+                  >
+                    <SelectTrigger className="w-40 rounded-none border-white/10 text-caption uppercase tracking-widest">
+                      <SelectValue placeholder="SLA" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-overlay border-white/10 rounded-none">
+                      <SelectItem value="all">Any SLA</SelectItem>
+                      <SelectItem value="overdue">SLA Overdue</SelectItem>
+                      <SelectItem value="due_soon">Due Within 7 Days</SelectItem>
+                      <SelectItem value="on_track">On Track</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={prioritization}
+                    onValueChange={(value) => setPrioritization(value as VulnerabilityPrioritization)}
+                  >
+                    <SelectTrigger className="w-44 rounded-none border-white/10 text-caption uppercase tracking-widest">
+                      <SelectValue placeholder="Prioritize by" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-overlay border-white/10 rounded-none">
+                      <SelectItem value="severity">By Severity</SelectItem>
+                      <SelectItem value="cvss">By CVSS</SelectItem>
+                      <SelectItem value="epss">By EPSS</SelectItem>
+                      <SelectItem value="kev">Exploited First</SelectItem>
+                      <SelectItem value="sla">Deadline First</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <div className="text-caption uppercase tracking-widest text-muted-foreground/50">
                     {pagination.total !== undefined
                       ? `${pagination.total} total vulnerabilities`
@@ -243,7 +308,7 @@ export default function LibraryHomePage() {
 
                 {vulnerabilities.length === 0 && !loading && (
                   <div className="text-center py-8 text-caption uppercase tracking-widest text-muted-foreground/40">
-                    {search || severityFilter
+                    {search || severityFilter || exploitFilter || slaFilter
                       ? `No vulnerabilities found matching current filters`
                       : "No vulnerabilities found"}
                   </div>
@@ -288,6 +353,52 @@ export default function LibraryHomePage() {
         sortable: true,
         accessorFn: (row: VulnerabilityData) => row.cvssScore ? row.cvssScore.toFixed(1) : 'N/A',
       },
+      {
+        key: 'epssScore',
+        header: 'EPSS',
+        type: 'custom',
+        sortable: true,
+        accessorFn: (row: VulnerabilityData) => row.epssScore ?? -1,
+        cellProps: {
+          render: (row: VulnerabilityData) => (
+            <span
+              className="text-body-sm tabular-nums"
+              title={row.epssPercentile !== undefined ? `Percentile ${formatEpss(row.epssPercentile)}` : undefined}
+            >
+              {formatEpss(row.epssScore)}
+            </span>
+          ),
+        },
+      },
+      {
+        key: 'knownExploited',
+        header: 'KEV',
+        type: 'custom',
+        sortable: true,
+        accessorFn: (row: VulnerabilityData) => (row.knownExploited ? 1 : 0),
+        cellProps: {
+          render: (row: VulnerabilityData) => row.knownExploited ? (
+            <Badge
+              variant="destructive"
+              title={row.kev ? `Added to KEV ${new Date(row.kev.dateAdded).toLocaleDateString()}${row.kev.knownRansomwareUse ? ' · used in ransomware campaigns' : ''}` : undefined}
+            >
+              {row.kev?.knownRansomwareUse ? 'Exploited · Ransomware' : 'Exploited'}
+            </Badge>
+          ) : (
+            <span className="text-body-sm text-muted-foreground/40">—</span>
+          ),
+        },
+      },
+      {
+        key: 'slaDueAt',
+        header: 'SLA',
+        type: 'custom',
+        sortable: true,
+        accessorFn: (row: VulnerabilityData) => row.slaDueAt ?? '',
+        cellProps: {
+          render: (row: VulnerabilityData) => <SlaBadge dueAt={row.slaDueAt} />,
+        },
+      },
       {
         key: 'packageName',
         header: 'Package',
@@ -0,0 +1,195 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { AlertCircle, KeyRound, LogIn, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { resolveNextUrl, safeNextPath } from "@/lib/auth/redirects";
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get("next"));
+  const loginError = searchParams.get("error");
+  const { user, authEnabled, setupRequired, ssoEnabled, loading } = useCurrentUser();
+
+  const [username, setUsername] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [displayName, setDisplayName] = React.useState("");
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!loading && user) {
+      window.location.href = resolveNextUrl(nextPath, window.location.origin).href;
+    }
+  }, [loading, user, nextPath]);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (setupRequired && password !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(setupRequired ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          setupRequired
+            ? { username, password, displayName: displayName || undefined }
+            : { username, password }
+        ),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        toast.error(err.error || (setupRequired ? "Failed to create admin account" : "Failed to sign in"));
+        return;
+      }
+      // Full navigation so every component picks up the new session
+      window.location.href = resolveNextUrl(nextPath, window.location.origin).href;
+    } catch {
+      toast.error(setupRequired ? "Failed to create admin account" : "Failed to sign in");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loading || user) {
+    return (
+      <div className="text-caption uppercase tracking-widest text-muted-foreground/40">Loading...</div>
+    );
+  }
+
+  if (!authEnabled) {
+    return (
+      <Card className="w-full max-w-md bg-surface-1 border-white/10 rounded-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+            <ShieldCheck className="h-4 w-4 text-accent" />
+            Authentication Disabled
+          </CardTitle>
+          <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+            This instance runs without user accounts (AUTH_ENABLED=false).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full rounded-none uppercase tracking-widest text-caption">
+            <Link href="/">Go to dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+          {setupRequired ? <ShieldCheck className="h-4 w-4 text-accent" /> : <LogIn className="h-4 w-4 text-accent" />}
+          {setupRequired ? "Create Admin Account" : "Sign In"}
+        </CardTitle>
+        <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+          {setupRequired
+            ? "No users exist yet. The first account is an admin; sign-in is required once it is created."
+            : "Sign in to continue to HarborGuard"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loginError && (
+          <Alert variant="destructive" className="rounded-none">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loginError}</AlertDescription>
+          </Alert>
+        )}
+        {ssoEnabled && (
+          <>
+            <Button asChild variant="outline" className="w-full rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+              <a href={`/api/auth/oidc/login?next=${encodeURIComponent(nextPath)}`}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Sign in with SSO
+              </a>
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="h-px flex-1 bg-white/10" />
+              <span className="text-caption uppercase tracking-widest text-muted-foreground/40">or</span>
+              <div className="h-px flex-1 bg-white/10" />
+            </div>
+          </>
+        )}
+        <form onSubmit={submit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="username" className="text-caption uppercase tracking-widest text-muted-foreground/60">Username</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              autoFocus
+              required
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          {setupRequired && (
+            <div className="space-y-2">
+              <Label htmlFor="displayName" className="text-caption uppercase tracking-widest text-muted-foreground/60">Display name</Label>
+              <Input
+                id="displayName"
+                placeholder="Optional"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-caption uppercase tracking-widest text-muted-foreground/60">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete={setupRequired ? "new-password" : "current-password"}
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          {setupRequired && (
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword" className="text-caption uppercase tracking-widest text-muted-foreground/60">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </div>
+          )}
+          <Button type="submit" disabled={submitting} className="w-full rounded-none uppercase tracking-widest text-caption">
+            {submitting
+              ? (setupRequired ? "Creating..." : "Signing in...")
+              : (setupRequired ? "Create Admin" : "Sign In")}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LoginPage() {
+  // Rendered as a full-screen overlay so the dashboard chrome stays hidden until signed in
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background p-6">
+      <React.Suspense fallback={null}>
+        <LoginForm />
+      </React.Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,596 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { BellRing, History, Newspaper, Pencil, Plus, RefreshCw, RotateCcw, Route, Send, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  NotificationChannelDialog,
+  type NotificationChannel,
+} from "@/components/dialogs/notification-channel-dialog";
+import { NotificationRuleDialog, type NotificationRule } from "@/components/dialogs/notification-rule-dialog";
+import { CHANNEL_TYPE_LABELS, NOTIFICATION_EVENT_LABELS } from "@/lib/notification-routing/rules";
+
+type DeliveryStatus = "PENDING" | "SENDING" | "RETRYING" | "SENT" | "FAILED";
+
+interface NotificationDelivery {
+  id: string;
+  event: keyof typeof NOTIFICATION_EVENT_LABELS;
+  title: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  channel: { id: string; name: string; type: NotificationChannel["type"] };
+  rule: { id: string; name: string } | null;
+}
+
+const STATUS_VARIANTS: Record<DeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "outline",
+  SENDING: "outline",
+  RETRYING: "secondary",
+  SENT: "default",
+  FAILED: "destructive",
+};
+
+const headClass = "text-caption uppercase tracking-widest";
+
+function EmptyRow({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-center py-12">
+      <div className="text-caption uppercase tracking-widest text-muted-foreground/40">{children}</div>
+    </div>
+  );
+}
+
+function describeFilters(rule: NotificationRule): string {
+  const filters = [
+    rule.minSeverity ? `${rule.minSeverity} and above` : "Any severity",
+    ...(rule.repository ? [rule.repository.name] : []),
+    ...(rule.imagePattern ? [rule.imagePattern] : []),
+  ];
+  return filters.join(" · ");
+}
+
+function DeliveryLogCard({ refreshKey }: { refreshKey: number }) {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<DeliveryStatus | "ALL">("ALL");
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const query = status === "ALL" ? "" : `&status=${status}`;
+      const response = await fetch(`/api/notifications/deliveries?limit=100${query}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setDeliveries(data.deliveries);
+      setTotal(data.total);
+    } catch (error) {
+      console.error("Failed to fetch notification deliveries:", error);
+      toast.error("Failed to load the delivery log");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries, refreshKey]);
+
+  const handleRetry = async (delivery: NotificationDelivery) => {
+    setRetrying(delivery.id);
+    try {
+      const response = await fetch(`/api/notifications/deliveries/${delivery.id}/retry`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || "Failed to retry delivery");
+        return;
+      }
+      if (data.status === "SENT") {
+        toast.success(`Sent to ${delivery.channel.name}`);
+      } else {
+        toast.error(data.lastError || `Delivery to ${delivery.channel.name} failed again`);
+      }
+      fetchDeliveries();
+    } catch {
+      toast.error("Failed to retry delivery");
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+              <History className="h-4 w-4 text-accent" />
+              Delivery Log
+            </CardTitle>
+            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Failed deliveries are retried up to five times with increasing delays; entries are kept 30 days
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Select value={status} onValueChange={(value) => setStatus(value as DeliveryStatus | "ALL")}>
+              <SelectTrigger className="w-40 rounded-none border-white/10 text-caption uppercase tracking-widest">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-overlay border-white/10 rounded-none">
+                <SelectItem value="ALL">All statuses</SelectItem>
+                {(Object.keys(STATUS_VARIANTS) as DeliveryStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Refresh"
+              onClick={fetchDeliveries}
+              className="rounded-none border-white/10 hover:bg-white/5 h-9"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <EmptyRow>Loading deliveries...</EmptyRow>
+        ) : deliveries.length === 0 ? (
+          <EmptyRow>No notifications sent yet</EmptyRow>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10">
+                <TableHead className={headClass}>Notification</TableHead>
+                <TableHead className={headClass}>Channel</TableHead>
+                <TableHead className={headClass}>Status</TableHead>
+                <TableHead className={headClass}>Attempts</TableHead>
+                <TableHead className={headClass}>Response</TableHead>
+                <TableHead className={headClass}>Created</TableHead>
+                <TableHead className={`${headClass} text-right`}>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} className="border-white/10">
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="text-body-sm text-foreground">{delivery.title}</span>
+                      <span className="text-caption text-muted-foreground/60">
+                        {NOTIFICATION_EVENT_LABELS[delivery.event]}{delivery.rule ? ` · ${delivery.rule.name}` : ""}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground/80">{delivery.channel.name}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Badge variant={STATUS_VARIANTS[delivery.status]} className="rounded-none uppercase tracking-widest text-caption w-fit">
+                        {delivery.status}
+                      </Badge>
+                      {delivery.nextAttemptAt && delivery.status !== "SENDING" && (
+                        <span className="text-caption text-muted-foreground/60">
+                          Next {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground/80">{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="flex flex-col">
+                      {delivery.responseStatus !== null && (
+                        <span className="text-caption font-mono text-muted-foreground/80">HTTP {delivery.responseStatus}</span>
+                      )}
+                      {delivery.lastError && (
+                        <span className="text-caption text-red-400 truncate" title={delivery.lastError}>{delivery.lastError}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-caption text-muted-foreground/80">
+                    {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(delivery.status === "FAILED" || delivery.status === "RETRYING") && delivery.event !== "TEST" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Retry now"
+                        disabled={retrying === delivery.id}
+                        onClick={() => handleRetry(delivery)}
+                        className="rounded-none border-white/10 hover:bg-white/5"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {total > deliveries.length && (
+          <p className="px-6 py-3 text-caption uppercase tracking-widest text-muted-foreground/50">
+            Showing the latest {deliveries.length} of {total} deliveries
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function NotificationsPage() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [channelDialogOpen, setChannelDialogOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<NotificationRule | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  // Bumped after test messages so the delivery log shows them
+  const [logRefresh, setLogRefresh] = useState(0);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [channelsResponse, rulesResponse] = await Promise.all([
+        fetch("/api/notifications/channels"),
+        fetch("/api/notifications/rules"),
+      ]);
+      if (!channelsResponse.ok) throw new Error(`HTTP ${channelsResponse.status}`);
+      if (!rulesResponse.ok) throw new Error(`HTTP ${rulesResponse.status}`);
+      setChannels((await channelsResponse.json()).channels);
+      setRules((await rulesResponse.json()).rules);
+    } catch (error) {
+      console.error("Failed to fetch notification settings:", error);
+      toast.error("Failed to load notification settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const openChannelDialog = (channel: NotificationChannel | null) => {
+    setEditingChannel(channel);
+    setChannelDialogOpen(true);
+  };
+
+  const openRuleDialog = (rule: NotificationRule | null) => {
+    setEditingRule(rule);
+    setRuleDialogOpen(true);
+  };
+
+  const handleTest = async (channel: NotificationChannel, digest?: "daily") => {
+    setTesting(channel.id);
+    try {
+      const query = digest ? `?digest=${digest}` : "";
+      const response = await fetch(`/api/notifications/channels/${channel.id}/test${query}`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.error || "Failed to send test message");
+      } else {
+        toast.success(digest ? `Daily digest sent to ${channel.name}` : `Test message sent to ${channel.name}`);
+      }
+      setLogRefresh((value) => value + 1);
+    } catch {
+      toast.error("Failed to send test message");
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const toggleChannel = async (channel: NotificationChannel, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: channel.name, type: channel.type, config: channel.config, enabled }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to update channel");
+        return;
+      }
+      fetchAll();
+    } catch {
+      toast.error("Failed to update channel");
+    }
+  };
+
+  const toggleRule = async (rule: NotificationRule, enabled: boolean) => {
+    const { id, channel, repository, ...rest } = rule;
+    try {
+      const response = await fetch(`/api/notifications/rules/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rest, enabled }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to update rule");
+        return;
+      }
+      fetchAll();
+    } catch {
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const handleDelete = async (kind: "channels" | "rules", id: string, name: string) => {
+    const warning = kind === "channels" ? " Its rules and delivery log are deleted as well." : "";
+    if (!confirm(`Delete "${name}"?${warning}`)) return;
+    try {
+      const response = await fetch(`/api/notifications/${kind}/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete");
+        return;
+      }
+      toast.success(`"${name}" deleted`);
+      fetchAll();
+      setLogRefresh((value) => value + 1);
+    } catch {
+      toast.error("Failed to delete");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="space-y-1 mb-8">
+            <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Administration</p>
+            <h1 className="text-2xl tracking-tight text-foreground">
+              Notifications
+            </h1>
+            <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Channels, routing rules and delivery history
+            </p>
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                    <BellRing className="h-4 w-4 text-accent" />
+                    Channels
+                  </CardTitle>
+                  <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                    Email, Teams, Slack, Gotify and Apprise targets; a channel receives nothing until a rule routes to it
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={() => openChannelDialog(null)}
+                  className="rounded-none uppercase tracking-widest text-caption shrink-0"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Channel
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <EmptyRow>Loading channels...</EmptyRow>
+              ) : channels.length === 0 ? (
+                <EmptyRow>No notification channels yet</EmptyRow>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className={headClass}>Channel</TableHead>
+                      <TableHead className={headClass}>Type</TableHead>
+                      <TableHead className={headClass}>Rules</TableHead>
+                      <TableHead className={headClass}>Enabled</TableHead>
+                      <TableHead className={`${headClass} text-right`}>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {channels.map((channel) => (
+                      <TableRow key={channel.id} className="border-white/10">
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="text-body-sm text-foreground">{channel.name}</span>
+                            {channel.createdBy === "environment" && (
+                              <span className="text-caption text-muted-foreground/60">Imported from environment variables</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">{CHANNEL_TYPE_LABELS[channel.type]}</TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">{channel._count?.rules ?? 0}</TableCell>
+                        <TableCell>
+                          <Switch checked={channel.enabled} onCheckedChange={(enabled) => toggleChannel(channel, enabled)} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={testing === channel.id}
+                              onClick={() => handleTest(channel)}
+                              className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+                            >
+                              <Send className="mr-2 h-4 w-4" />
+                              {testing === channel.id ? "Sending..." : "Send Test"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Send the current daily digest"
+                              disabled={testing === channel.id}
+                              onClick={() => handleTest(channel, "daily")}
+                              className="rounded-none border-white/10 hover:bg-white/5"
+                            >
+                              <Newspaper className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Edit channel"
+                              onClick={() => openChannelDialog(channel)}
+                              className="rounded-none border-white/10 hover:bg-white/5"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Delete channel"
+                              onClick={() => handleDelete("channels", channel.id, channel.name)}
+                              className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                    <Route className="h-4 w-4 text-accent" />
+                    Routing Rules
+                  </CardTitle>
+                  <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                    Each rule sends the selected events to one channel; notifications due in quiet hours go out when they end
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={() => openRuleDialog(null)}
+                  disabled={channels.length === 0}
+                  className="rounded-none uppercase tracking-widest text-caption shrink-0"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Rule
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <EmptyRow>Loading rules...</EmptyRow>
+              ) : rules.length === 0 ? (
+                <EmptyRow>No routing rules yet; no notifications are sent</EmptyRow>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className={headClass}>Rule</TableHead>
+                      <TableHead className={headClass}>Events</TableHead>
+                      <TableHead className={headClass}>Filters</TableHead>
+                      <TableHead className={headClass}>Quiet Hours</TableHead>
+                      <TableHead className={headClass}>Enabled</TableHead>
+                      <TableHead className={`${headClass} text-right`}>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map((rule) => (
+                      <TableRow key={rule.id} className="border-white/10">
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="text-body-sm text-foreground">{rule.name}</span>
+                            <span className="text-caption text-muted-foreground/60">to {rule.channel.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <ul className="space-y-0.5">
+                            {rule.events.map((event) => (
+                              <li key={event} className="text-caption text-muted-foreground">{NOTIFICATION_EVENT_LABELS[event]}</li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">{describeFilters(rule)}</TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">
+                          {rule.quietHoursStart && rule.quietHoursEnd
+                            ? `${rule.quietHoursStart}–${rule.quietHoursEnd} ${rule.timezone}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Switch checked={rule.enabled} onCheckedChange={(enabled) => toggleRule(rule, enabled)} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Edit rule"
+                              onClick={() => openRuleDialog(rule)}
+                              className="rounded-none border-white/10 hover:bg-white/5"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Delete rule"
+                              onClick={() => handleDelete("rules", rule.id, rule.name)}
+                              className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <DeliveryLogCard refreshKey={logRefresh} />
+        </div>
+      </div>
+
+      <NotificationChannelDialog
+        open={channelDialogOpen}
+        onOpenChange={setChannelDialogOpen}
+        onSaved={fetchAll}
+        channel={editingChannel}
+      />
+      <NotificationRuleDialog
+        open={ruleDialogOpen}
+        onOpenChange={setRuleDialogOpen}
+        onSaved={fetchAll}
+        channels={channels}
+        rule={editingRule}
+      />
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useScans } from "@/hooks/useScans";
 import { getImageName } from "@/lib/utils/image-utils";
 import { groupScansByImage } from "@/lib/utils/scan-table-utils";
+import type { SlaSummary } from "@/lib/sla/rules";
 
 export default function Page() {
   const { scans, stats, loading, dataReady, error } = useScans();
@@ -23,6 +24,14 @@ export default function Page() {
   // State for dialogs
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [imageToDelete, setImageToDelete] = React.useState<string>("");
+  const [sla, setSla] = React.useState<SlaSummary | null>(null);
+
+  React.useEffect(() => {
+    fetch("/api/sla")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setSla(data))
+      .catch(() => setSla(null));
+  }, []);
 
   // Show skeleton until data is fully processed and ready to display
   const showSkeleton = loading || !dataReady;
@@ -61,6 +70,7 @@ export default function Page() {
           loading={showSkeleton}
           scanData={showSkeleton ? mockData : scans}
           stats={showSkeleton ? mockStats : stats}
+          sla={sla}
         />
         {showSkeleton ? (
           <>
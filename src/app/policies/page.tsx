@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Pencil, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SecurityPolicyDialog, type SecurityPolicy } from "@/components/dialogs/security-policy-dialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { describeRule } from "@/lib/policy/rules";
+
+function describeScope(policy: SecurityPolicy): string {
+  switch (policy.scope) {
+    case "GLOBAL":
+      return "All images";
+    case "REPOSITORY":
+      return policy.repository?.name ?? "Repository";
+    case "IMAGE_PATTERN":
+      return policy.imagePattern ?? "";
+  }
+}
+
+export default function PoliciesPage() {
+  const { can } = useCurrentUser();
+  const canEdit = can("ADMIN");
+  const [policies, setPolicies] = useState<SecurityPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SecurityPolicy | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch("/api/policies");
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch (error) {
+      console.error("Failed to fetch policies:", error);
+      toast.error("Failed to load security policies");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openDialog = (policy: SecurityPolicy | null) => {
+    setEditingPolicy(policy);
+    setIsDialogOpen(true);
+  };
+
+  const handleToggle = async (policy: SecurityPolicy, enabled: boolean) => {
+    const { id, repository, ...rest } = policy;
+    try {
+      const response = await fetch(`/api/policies/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rest, enabled }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to update policy");
+        return;
+      }
+      fetchPolicies();
+    } catch {
+      toast.error("Failed to update policy");
+    }
+  };
+
+  const handleDelete = async (policy: SecurityPolicy) => {
+    if (!confirm(`Delete policy "${policy.name}"? Stored scan verdicts are kept until scans are re-evaluated.`)) return;
+    try {
+      const response = await fetch(`/api/policies/${policy.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete policy");
+        return;
+      }
+      toast.success(`Policy "${policy.name}" deleted`);
+      fetchPolicies();
+    } catch {
+      toast.error("Failed to delete policy");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="flex items-start justify-between gap-4 mb-8">
+            <div className="space-y-1">
+              <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Governance</p>
+              <h1 className="text-2xl tracking-tight text-foreground">
+                Security Policies
+              </h1>
+              <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                Pass/fail gates evaluated after every scan
+              </p>
+            </div>
+            {canEdit && (
+              <Button
+                onClick={() => openDialog(null)}
+                className="rounded-none uppercase tracking-widest text-caption"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Create Policy
+              </Button>
+            )}
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                <ShieldCheck className="h-4 w-4 text-accent" />
+                Policies
+              </CardTitle>
+              <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                A violated fail policy fails the scan verdict; warn policies only flag it
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    Loading policies...
+                  </div>
+                </div>
+              ) : policies.length === 0 ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    No security policies yet; every scan passes
+                  </div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="text-caption uppercase tracking-widest">Policy</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Rules</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Applies To</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">On Violation</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Enabled</TableHead>
+                      {canEdit && <TableHead className="text-caption uppercase tracking-widest text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map((policy) => (
+                      <TableRow key={policy.id} className="border-white/10">
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="text-body-sm text-foreground">{policy.name}</span>
+                            {policy.description && (
+                              <span className="text-caption text-muted-foreground/60">{policy.description}</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <ul className="space-y-0.5">
+                            {policy.rules.map((rule, index) => (
+                              <li key={index} className="text-caption text-muted-foreground">{describeRule(rule)}</li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                        <TableCell className="text-caption text-muted-foreground/80">
+                          <span className={policy.scope === "IMAGE_PATTERN" ? "font-mono" : undefined}>
+                            {describeScope(policy)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={policy.action === "FAIL" ? "destructive" : "secondary"}
+                            className="rounded-none uppercase tracking-widest text-caption"
+                          >
+                            {policy.action === "FAIL" ? "Fail" : "Warn"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={policy.enabled}
+                            disabled={!canEdit}
+                            onCheckedChange={(enabled) => handleToggle(policy, enabled)}
+                          />
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Edit policy"
+                                onClick={() => openDialog(policy)}
+                                className="rounded-none border-white/10 hover:bg-white/5"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Delete policy"
+                                onClick={() => handleDelete(policy)}
+                                className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <SecurityPolicyDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={fetchPolicies}
+        policy={editingPolicy}
+      />
+    </div>
+  );
+}
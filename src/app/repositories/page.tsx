@@ -12,6 +12,21 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   Plus,
   Trash2,
@@ -23,9 +38,15 @@ import {
   GitBranch,
   RefreshCw,
   Loader2,
+  Radar,
+  ListFilter,
+  Webhook,
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { AddRepositoryDialog } from "@/components/dialogs/add-repository-dialog";
+import { ScanRulesDialog } from "@/components/dialogs/scan-rules-dialog";
+import { RepositoryWebhookDialog } from "@/components/dialogs/repository-webhook-dialog";
 import { toast } from "sonner";
 
 interface Repository {
@@ -40,6 +61,160 @@ interface Repository {
   repositoryCount?: number;
 }
 
+type TagEventType = "NEW" | "MOVED" | "DELETED";
+
+interface TagEvent {
+  id: string;
+  imageName: string;
+  tag: string;
+  type: TagEventType;
+  previousDigest: string | null;
+  digest: string | null;
+  createdAt: string;
+  repository: { id: string; name: string };
+  rule: { id: string; name: string } | null;
+  scan: { id: string; status: string } | null;
+  source: "sync" | "webhook";
+}
+
+const TAG_EVENT_LABELS: Record<TagEventType, string> = {
+  NEW: "New tag",
+  MOVED: "Digest changed",
+  DELETED: "Deleted",
+};
+
+const TAG_EVENT_CLASSES: Record<TagEventType, string> = {
+  NEW: "bg-green-900/30 text-green-400 border-green-500/30",
+  MOVED: "bg-amber-900/30 text-amber-400 border-amber-500/30",
+  DELETED: "bg-white/5 text-muted-foreground border-white/10",
+};
+
+const headClass = "text-caption uppercase tracking-widest";
+
+function shortDigest(digest: string | null): string {
+  return digest ? digest.replace(/^sha256:/, "").slice(0, 12) : "unknown";
+}
+
+function DiscoveryFeedCard({ refreshKey }: { refreshKey: number }) {
+  const [events, setEvents] = useState<TagEvent[]>([]);
+  const [type, setType] = useState<TagEventType | "ALL">("ALL");
+  const [loading, setLoading] = useState(true);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const query = type === "ALL" ? "" : `&type=${type}`;
+      const response = await fetch(`/api/repositories/tag-events?limit=50${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch tag events:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [type]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents, refreshKey]);
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+              <Radar className="h-4 w-4 text-accent" />
+              Discovery Feed
+            </CardTitle>
+            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Tags that appeared, moved or were deleted since the previous sync
+            </CardDescription>
+          </div>
+          <Select value={type} onValueChange={(value) => setType(value as TagEventType | "ALL")}>
+            <SelectTrigger className="w-44 rounded-none border-white/10 text-caption uppercase tracking-widest">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-overlay border-white/10 rounded-none">
+              <SelectItem value="ALL">All changes</SelectItem>
+              {(Object.keys(TAG_EVENT_LABELS) as TagEventType[]).map((value) => (
+                <SelectItem key={value} value={value}>{TAG_EVENT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-caption uppercase tracking-widest text-muted-foreground/40">Loading changes...</div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              No tag changes yet; the first sync of a repository only records its tags
+            </div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10">
+                <TableHead className={headClass}>Image</TableHead>
+                <TableHead className={headClass}>Change</TableHead>
+                <TableHead className={headClass}>Digest</TableHead>
+                <TableHead className={headClass}>Auto-Scan</TableHead>
+                <TableHead className={headClass}>Found</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} className="border-white/10">
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="text-body-sm font-mono text-foreground">{event.imageName}:{event.tag}</span>
+                      <span className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                        {event.repository.name}{event.source === "webhook" && " · pushed"}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`rounded-none uppercase tracking-widest text-caption ${TAG_EVENT_CLASSES[event.type]}`}>
+                      {TAG_EVENT_LABELS[event.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-caption font-mono text-muted-foreground/80">
+                    {event.type === "MOVED"
+                      ? `${shortDigest(event.previousDigest)} → ${shortDigest(event.digest)}`
+                      : shortDigest(event.type === "DELETED" ? event.previousDigest : event.digest)}
+                  </TableCell>
+                  <TableCell className="text-caption">
+                    {event.scan ? (
+                      <a
+                        href={`/images/${encodeURIComponent(event.imageName)}/${event.scan.id}`}
+                        className="uppercase tracking-widest text-accent hover:underline"
+                      >
+                        {event.rule?.name ?? (event.source === "webhook" ? "Push" : "Scan")} · {event.scan.status}
+                      </a>
+                    ) : (
+                      <span className="uppercase tracking-widest text-muted-foreground/40">
+                        {event.rule ? event.rule.name : "Not scanned"}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                    {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface SyncStatus {
   [key: string]: {
     lastSync: string | null;
@@ -55,6 +230,9 @@ export default function RepositoriesPage() {
   const [syncStatuses, setSyncStatuses] = useState<SyncStatus>({});
   const [syncingRepos, setSyncingRepos] = useState<Set<string>>(new Set());
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [rulesRepository, setRulesRepository] = useState<Repository | null>(null);
+  const [webhookRepository, setWebhookRepository] = useState<Repository | null>(null);
+  const [feedRefreshKey, setFeedRefreshKey] = useState(0);
 
   const breadcrumbs = [
     { label: "Dashboard", href: "/" },
@@ -70,6 +248,7 @@ export default function RepositoriesPage() {
       const interval = setInterval(() => {
         fetchRepositories();
         fetchSyncStatuses();
+        setFeedRefreshKey((key) => key + 1);
       }, 30000);
       
       return () => clearInterval(interval);
@@ -214,6 +393,7 @@ export default function RepositoriesPage() {
         setTimeout(() => {
           fetchRepositories();
           fetchSyncStatuses();
+          setFeedRefreshKey((key) => key + 1);
         }, 2000);
       } else {
         toast.error("Failed to start sync");
@@ -249,6 +429,7 @@ export default function RepositoriesPage() {
         setTimeout(() => {
           fetchRepositories();
           fetchSyncStatuses();
+          setFeedRefreshKey((key) => key + 1);
         }, 2000);
       } else {
         toast.error("Failed to start sync");
@@ -399,6 +580,25 @@ export default function RepositoriesPage() {
                           <FlaskConical className="mr-1 h-3 w-3" />
                           Test
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Auto-scan rules"
+                          onClick={() => setRulesRepository(repo)}
+                          className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+                        >
+                          <ListFilter className="mr-1 h-3 w-3" />
+                          Rules
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Push webhook"
+                          onClick={() => setWebhookRepository(repo)}
+                          className="rounded-none border-white/10 hover:bg-white/5"
+                        >
+                          <Webhook className="h-3 w-3" />
+                        </Button>
                         <Button
                           size="sm"
                           variant="outline"
@@ -414,8 +614,20 @@ export default function RepositoriesPage() {
               ))}
             </div>
           )}
+
+          {repositories.length > 0 && <DiscoveryFeedCard refreshKey={feedRefreshKey} />}
         </div>
       </div>
+      <ScanRulesDialog
+        open={rulesRepository !== null}
+        onOpenChange={(open) => !open && setRulesRepository(null)}
+        repository={rulesRepository}
+      />
+      <RepositoryWebhookDialog
+        open={webhookRepository !== null}
+        onOpenChange={(open) => !open && setWebhookRepository(null)}
+        repository={webhookRepository}
+      />
       <AddRepositoryDialog
         open={isAddDialogOpen}
         onOpenChange={setIsAddDialogOpen}
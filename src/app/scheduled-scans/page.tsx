@@ -48,6 +48,7 @@ interface ScheduledScan {
   source: string;
   imageSelectionMode: string;
   imagePattern?: string;
+  missedRunPolicy?: string;
   selectedImages: any[];
   scanHistory: any[];
   _count: {
@@ -443,7 +444,10 @@ export default function ScheduledScansPage() {
                     });
 
                     if (!response.ok) {
-                      throw new Error("Failed to save scheduled scan");
+                      const body = await response.json().catch(() => ({}));
+                      throw new Error(
+                        typeof body.error === "string" ? body.error : "Failed to save scheduled scan"
+                      );
                     }
 
                     toast.success(
@@ -456,7 +460,9 @@ export default function ScheduledScansPage() {
                     fetchScheduledScans();
                   } catch (error) {
                     console.error("Error saving scheduled scan:", error);
-                    toast.error("Failed to save scheduled scan");
+                    toast.error(
+                      error instanceof Error ? error.message : "Failed to save scheduled scan"
+                    );
                   }
                 }}
                 onCancel={() => {
@@ -2,19 +2,27 @@
 
 import * as React from "react";
 import { toast } from "sonner";
-import { Settings, Trash2, Database, Cloud } from "lucide-react";
+import { Settings, Trash2, Database, Cloud, Timer } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { OidcSettingsCard } from "@/components/settings/oidc-settings-card";
+import { ThreatFeedsCard } from "@/components/settings/threat-feeds-card";
+import { SLA_SETTING_KEYS, SLA_SEVERITIES } from "@/lib/sla/rules";
 
 interface Settings {
   cleanupOldScansDays: string;
   cleanupAuditLogsDays: string;
   cleanupBulkScansDays: string;
   cleanupS3Artifacts: string;
+  slaCriticalDays: string;
+  slaHighDays: string;
+  slaMediumDays: string;
+  slaLowDays: string;
+  slaBreachReport: string;
 }
 
 export default function SettingsPage() {
@@ -50,6 +58,11 @@ export default function SettingsPage() {
           cleanupAuditLogsDays: Number(settings.cleanupAuditLogsDays),
           cleanupBulkScansDays: Number(settings.cleanupBulkScansDays),
           cleanupS3Artifacts: settings.cleanupS3Artifacts,
+          slaCriticalDays: Number(settings.slaCriticalDays),
+          slaHighDays: Number(settings.slaHighDays),
+          slaMediumDays: Number(settings.slaMediumDays),
+          slaLowDays: Number(settings.slaLowDays),
+          slaBreachReport: settings.slaBreachReport,
         }),
       });
       if (!res.ok) {
@@ -85,7 +98,7 @@ export default function SettingsPage() {
             Settings
           </h1>
           <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
-            Configure data retention and cleanup policies
+            Configure data retention, cleanup policies, remediation SLAs, single sign-on and threat feeds
           </p>
         </div>
         <Button onClick={save} disabled={saving || !dirty} className="rounded-none uppercase tracking-widest text-caption">
@@ -229,6 +242,68 @@ export default function SettingsPage() {
         Cleanup runs automatically 30 seconds after server start and then every 24 hours.
         Changes take effect on the next cleanup cycle.
       </p>
+
+      <Card className="bg-surface-1 border-white/10 rounded-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+            <Timer className="h-4 w-4 text-accent" />
+            Remediation SLAs
+          </CardTitle>
+          <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+            Days a vulnerability may stay open after an image first reported it. Overdue findings
+            show on the dashboard and in a weekly breach report sent to the notification webhooks.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {SLA_SEVERITIES.map((severity) => {
+            const key = SLA_SETTING_KEYS[severity] as keyof Settings;
+            return (
+              <div key={severity} className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor={key} className="text-caption uppercase tracking-widest text-muted-foreground/60">{severity.toLowerCase()}</Label>
+                  <p className="text-caption uppercase tracking-widest text-muted-foreground/50">0 &ndash; 730 days, 0 for no SLA</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={key}
+                    type="number"
+                    min={0}
+                    max={730}
+                    className="w-24 text-right"
+                    value={settings[key]}
+                    onChange={(e) => update(key, e.target.value)}
+                  />
+                  <span className="text-caption uppercase tracking-widest text-muted-foreground/50">days</span>
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="slaBreachReport" className="text-caption uppercase tracking-widest text-muted-foreground/60">Weekly breach report</Label>
+              <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                Lists overdue findings once a week; nothing is sent when there are none
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="slaBreachReport"
+                checked={settings.slaBreachReport === "true"}
+                onCheckedChange={(checked) =>
+                  update("slaBreachReport", checked ? "true" : "false")
+                }
+              />
+              <Badge variant={settings.slaBreachReport === "true" ? "default" : "secondary"}>
+                {settings.slaBreachReport === "true" ? "Enabled" : "Disabled"}
+              </Badge>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <OidcSettingsCard />
+
+      <ThreatFeedsCard />
     </div>
   );
 }
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CreateApiTokenDialog } from "@/components/dialogs/create-api-token-dialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  lastUsedIp?: string | null;
+  revokedAt?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  user: { id: string; username: string; authSource: string };
+}
+
+function getTokenStatus(token: ApiToken): { label: string; variant: "default" | "secondary" | "destructive" } {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "default" };
+}
+
+export default function ApiTokensPage() {
+  const { user: currentUser, authEnabled, loading: sessionLoading } = useCurrentUser();
+  const isAdmin = currentUser?.role === "ADMIN";
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tokens${showAll ? "?all=true" : ""}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setTokens(data.tokens);
+    } catch (error) {
+      console.error("Failed to fetch API tokens:", error);
+      toast.error("Failed to load API tokens");
+    } finally {
+      setLoading(false);
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke token "${token.name}"? Clients using it will be rejected immediately.`)) return;
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to revoke token");
+        return;
+      }
+      toast.success(`Token "${token.name}" revoked`);
+      fetchTokens();
+    } catch {
+      toast.error("Failed to revoke token");
+    }
+  };
+
+  const signedIn = !sessionLoading && authEnabled && !!currentUser;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="flex items-start justify-between gap-4 mb-8">
+            <div className="space-y-1">
+              <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Account</p>
+              <h1 className="text-2xl tracking-tight text-foreground">
+                API Tokens
+              </h1>
+              <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                Scoped tokens for CI pipelines and scripts
+              </p>
+            </div>
+            <Button
+              onClick={() => setIsCreateDialogOpen(true)}
+              disabled={!signedIn}
+              className="rounded-none uppercase tracking-widest text-caption"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Create Token
+            </Button>
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                  <KeyRound className="h-4 w-4 text-accent" />
+                  Tokens
+                </CardTitle>
+                <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                  Send as Authorization: Bearer &lt;token&gt;. A token can never do more than its owner&apos;s role allows.
+                </CardDescription>
+              </div>
+              {isAdmin && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <Label htmlFor="show-all-tokens" className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                    All users
+                  </Label>
+                  <Switch id="show-all-tokens" checked={showAll} onCheckedChange={setShowAll} />
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    Loading tokens...
+                  </div>
+                </div>
+              ) : !signedIn ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    API tokens are available once user accounts are set up
+                  </div>
+                </div>
+              ) : tokens.length === 0 ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    No API tokens yet
+                  </div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="text-caption uppercase tracking-widest">Token</TableHead>
+                      {showAll && <TableHead className="text-caption uppercase tracking-widest">Owner</TableHead>}
+                      <TableHead className="text-caption uppercase tracking-widest">Scopes</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Expires</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Last Used</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Status</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tokens.map((token) => {
+                      const status = getTokenStatus(token);
+                      return (
+                        <TableRow key={token.id} className="border-white/10">
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="text-body-sm text-foreground">{token.name}</span>
+                              <span className="text-caption font-mono text-muted-foreground/60">{token.tokenPrefix}…</span>
+                            </div>
+                          </TableCell>
+                          {showAll && (
+                            <TableCell className="text-body-sm text-foreground">
+                              {token.user.username}
+                              {token.user.authSource === "SERVICE" && (
+                                <Badge variant="secondary" className="ml-2 rounded-none uppercase tracking-widest text-caption">Service</Badge>
+                              )}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1 max-w-xs">
+                              {token.scopes.map((scope) => (
+                                <Badge key={scope} variant="outline" className="rounded-none font-mono text-caption border-white/10">
+                                  {scope}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                            {token.expiresAt
+                              ? formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })
+                              : "Never"}
+                          </TableCell>
+                          <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                            {token.lastUsedAt ? (
+                              <span title={token.lastUsedIp || undefined}>
+                                {formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}
+                              </span>
+                            ) : "Never"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={status.variant} className="rounded-none uppercase tracking-widest text-caption">
+                              {status.label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Revoke token"
+                              disabled={!!token.revokedAt}
+                              onClick={() => handleRevoke(token)}
+                              className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <CreateApiTokenDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        onTokenCreated={fetchTokens}
+        isAdmin={isAdmin}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { KeyRound, Plus, Trash2, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AddUserDialog } from "@/components/dialogs/add-user-dialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { USER_ROLES } from "@/lib/auth/roles";
+
+interface User {
+  id: string;
+  username: string;
+  displayName?: string | null;
+  email?: string | null;
+  authSource: "LOCAL" | "OIDC" | "SERVICE";
+  role: string;
+  isActive: boolean;
+  lastLoginAt?: string | null;
+  createdAt: string;
+  _count?: { sessions: number };
+}
+
+export default function UsersPage() {
+  const { user: currentUser } = useCurrentUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [passwordUser, setPasswordUser] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/users");
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setUsers(data.users);
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+      toast.error("Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const updateUser = async (id: string, changes: Record<string, unknown>, successMessage: string) => {
+    try {
+      const response = await fetch(`/api/users/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to update user");
+        return false;
+      }
+      toast.success(successMessage);
+      fetchUsers();
+      return true;
+    } catch {
+      toast.error("Failed to update user");
+      return false;
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    if (!confirm(`Delete user ${user.username}? Their sessions will be revoked.`)) return;
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        toast.error(err.error || "Failed to delete user");
+        return;
+      }
+      setUsers((prev) => prev.filter((u) => u.id !== user.id));
+      toast.success(`User ${user.username} deleted`);
+    } catch {
+      toast.error("Failed to delete user");
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!passwordUser) return;
+    const updated = await updateUser(
+      passwordUser.id,
+      { password: newPassword },
+      `Password updated for ${passwordUser.username}`
+    );
+    if (updated) {
+      setPasswordUser(null);
+      setNewPassword("");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="@container/main flex flex-col gap-2 p-4 lg:p-6">
+        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+          <div className="flex items-start justify-between gap-4 mb-8">
+            <div className="space-y-1">
+              <p className="text-caption uppercase tracking-headline text-muted-foreground/30">Administration</p>
+              <h1 className="text-2xl tracking-tight text-foreground">
+                Users
+              </h1>
+              <p className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                Manage dashboard accounts and their roles
+              </p>
+            </div>
+            <Button onClick={() => setIsAddDialogOpen(true)} className="rounded-none uppercase tracking-widest text-caption">
+              <Plus className="mr-2 h-4 w-4" />
+              Add User
+            </Button>
+          </div>
+
+          <Card className="bg-surface-1 border-white/10 rounded-none">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+                <Users className="h-4 w-4 text-accent" />
+                Accounts
+              </CardTitle>
+              <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                Viewers read, triagers classify CVEs, operators run scans, patches and schedules,
+                admins manage repositories, agents, users and settings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                    Loading users...
+                  </div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="text-caption uppercase tracking-widest">User</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Role</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Active</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest">Last Login</TableHead>
+                      <TableHead className="text-caption uppercase tracking-widest text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((user) => {
+                      const isSelf = user.id === currentUser?.id;
+                      return (
+                        <TableRow key={user.id} className="border-white/10">
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="text-body-sm text-foreground">
+                                {user.username}
+                                {user.authSource === "OIDC" && (
+                                  <Badge variant="secondary" className="ml-2 rounded-none uppercase tracking-widest text-caption">SSO</Badge>
+                                )}
+                                {user.authSource === "SERVICE" && (
+                                  <Badge variant="secondary" className="ml-2 rounded-none uppercase tracking-widest text-caption">Service</Badge>
+                                )}
+                                {isSelf && <span className="ml-2 text-caption uppercase tracking-widest text-muted-foreground/50">(you)</span>}
+                              </span>
+                              {(user.displayName || user.email) && (
+                                <span className="text-caption text-muted-foreground/60">
+                                  {[user.displayName, user.email].filter(Boolean).join(" · ")}
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={user.role}
+                              onValueChange={(role) => updateUser(user.id, { role }, `${user.username} is now ${role}`)}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {USER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {role}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={user.isActive}
+                              disabled={isSelf}
+                              onCheckedChange={(isActive) =>
+                                updateUser(user.id, { isActive }, `${user.username} ${isActive ? "activated" : "deactivated"}`)
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                            {user.lastLoginAt
+                              ? formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })
+                              : "Never"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Set password"
+                                disabled={user.authSource !== "LOCAL"}
+                                onClick={() => setPasswordUser(user)}
+                                className="rounded-none border-white/10 hover:bg-white/5"
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Delete user"
+                                disabled={isSelf}
+                                onClick={() => handleDelete(user)}
+                                className="rounded-none border-white/10 hover:bg-white/5 text-red-400"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AddUserDialog
+        open={isAddDialogOpen}
+        onOpenChange={setIsAddDialogOpen}
+        onUserAdded={() => {
+          setIsAddDialogOpen(false);
+          fetchUsers();
+        }}
+      />
+
+      <Dialog open={!!passwordUser} onOpenChange={(open) => { if (!open) { setPasswordUser(null); setNewPassword(""); } }}>
+        <DialogContent className="max-w-md border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+          <div className="p-8 border-b border-white/10 bg-surface-1">
+            <DialogHeader className="space-y-3">
+              <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">Set Password</DialogTitle>
+              <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+                {passwordUser?.username} will be signed out of all sessions
+              </DialogDescription>
+            </DialogHeader>
+          </div>
+          <div className="p-8 space-y-2">
+            <Label htmlFor="reset-password" className="text-caption uppercase tracking-widest text-muted-foreground/60">New password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+            <Button
+              variant="outline"
+              onClick={() => { setPasswordUser(null); setNewPassword(""); }}
+              className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleResetPassword}
+              disabled={!newPassword}
+              className="rounded-none uppercase tracking-widest text-caption"
+            >
+              Save Password
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
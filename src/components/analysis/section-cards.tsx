@@ -5,10 +5,12 @@ import {
   AlertTriangle,
   Eye,
   CheckCheck,
+  Timer,
 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { SlaSummary } from "@/lib/sla/rules";
 import {
   Card,
   CardAction,
@@ -53,12 +55,15 @@ interface SectionCardsProps {
     completeScans: number;
     completionRate: number;
   };
+  // Remediation SLA counts; the card is left out until they are loaded
+  sla?: SlaSummary | null;
 }
 
 export function SectionCards({
   loading = false,
   scanData,
   stats,
+  sla,
 }: SectionCardsProps) {
   // Use unique image:tag count for "Images Scanned"
   const totalImages = stats.uniqueImageTags || stats.totalScans;
@@ -94,10 +99,14 @@ export function SectionCards({
     averageRiskScore > 50 ? "high" : averageRiskScore > 30 ? "medium" : "low";
   const criticalTrend = totalCriticalVulns > 5 ? "up" : "down";
 
+  const gridClassName = sla || loading
+    ? "grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-5"
+    : "grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-4";
+
   // Loading state - show skeleton cards matching the actual card design
   if (loading) {
     return (
-      <div className="grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
+      <div className={gridClassName}>
         {/* Total Images Scanned Skeleton */}
         <Card className="@container/card bg-surface-1 border-white/10 rounded-none">
           <CardHeader>
@@ -157,12 +166,27 @@ export function SectionCards({
             <Skeleton className="h-4 w-28" />
           </CardFooter>
         </Card>
+
+        {/* Overdue Remediations Skeleton */}
+        <Card className="@container/card bg-surface-1 border-white/10 rounded-none">
+          <CardHeader>
+            <CardDescription>Overdue Remediations</CardDescription>
+            <Skeleton className="h-8 w-12 @[250px]/card:h-10" />
+            <CardAction>
+              <Skeleton className="h-6 w-16" />
+            </CardAction>
+          </CardHeader>
+          <CardFooter className="flex-col items-start gap-1.5 text-sm">
+            <Skeleton className="h-4 w-28" />
+            <Skeleton className="h-4 w-32" />
+          </CardFooter>
+        </Card>
       </div>
     );
   }
 
   return (
-    <div className="grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
+    <div className={gridClassName}>
       <Card className="@container/card bg-surface-1 border-white/10 rounded-none">
         <CardHeader>
           <CardDescription className="uppercase tracking-widest text-caption text-muted-foreground/60">Total Images Scanned</CardDescription>
@@ -283,6 +307,32 @@ export function SectionCards({
           </div>
         </CardFooter>
       </Card>
+
+      {sla && (
+        <Card className="@container/card bg-surface-1 border-white/10 rounded-none">
+          <CardHeader>
+            <CardDescription className="uppercase tracking-widest text-caption text-muted-foreground/60">Overdue Remediations</CardDescription>
+            <CardTitle className="text-2xl tracking-tight tabular-nums @[250px]/card:text-3xl text-foreground">
+              {sla.total.OVERDUE}
+            </CardTitle>
+            <CardAction>
+              <Badge variant={sla.bySeverity.CRITICAL.OVERDUE > 0 ? "destructive" : "outline"} className="rounded-none uppercase tracking-widest text-caption">
+                <Timer className="h-3 w-3 mr-1" />
+                {sla.bySeverity.CRITICAL.OVERDUE} Critical
+              </Badge>
+            </CardAction>
+          </CardHeader>
+          <CardFooter className="flex-col items-start gap-1.5 text-sm">
+            <div className="line-clamp-1 flex gap-2 text-body-sm uppercase tracking-caps">
+              {sla.total.DUE_SOON} due within a week{" "}
+              <Timer className="h-4 w-4" />
+            </div>
+            <div className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              {sla.bySeverity.HIGH.OVERDUE} high, {sla.bySeverity.MEDIUM.OVERDUE + sla.bySeverity.LOW.OVERDUE} medium or low past SLA
+            </div>
+          </CardFooter>
+        </Card>
+      )}
     </div>
   );
 }
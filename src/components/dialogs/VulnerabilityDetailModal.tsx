@@ -22,10 +22,12 @@ import {
   Database,
   Fingerprint,
   Link2,
+  FileCheck,
 } from "lucide-react";
 import { formatDate, renderValue } from "@/lib/utils/format-utils";
 import { copyToClipboard } from "@/lib/clipboard";
 import { getSeverityCssClass } from "@/lib/utils/severity-utils";
+import { formatVexJustification, isSuppressingVexStatus, VEX_STATUS_LABELS } from "@/lib/vex/rules";
 
 interface VulnerabilityDetailModalProps {
   isOpen: boolean;
@@ -224,6 +226,67 @@ export function VulnerabilityDetailModal({
                     </div>
                   </div>
                 )}
+
+                {/* Imported VEX statement */}
+                {vulnerability.vex && (
+                  <div className="border border-white/10 p-4 bg-surface-1">
+                    <div className="flex items-center gap-3 mb-3">
+                      <FileCheck className="h-4 w-4 text-accent" />
+                      <h3 className="text-sm uppercase tracking-wide-caps text-foreground">
+                        VEX Statement
+                      </h3>
+                    </div>
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="flex flex-col">
+                          <label className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                            Status
+                          </label>
+                          <div className="mt-1">
+                            <Badge
+                              variant="outline"
+                              className={`${isSuppressingVexStatus(vulnerability.vex.status) ? "bg-green-900/20 text-green-400 border-green-500/30" : "border-white/10"} rounded-none uppercase tracking-widest text-caption`}
+                            >
+                              {VEX_STATUS_LABELS[vulnerability.vex.status as keyof typeof VEX_STATUS_LABELS]}
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="flex flex-col">
+                          <label className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                            Source
+                          </label>
+                          <p className="text-body-sm mt-1">
+                            {vulnerability.vex.source}
+                            <span className="text-muted-foreground">
+                              {" "}({vulnerability.vex.format === "CYCLONEDX" ? "CycloneDX VEX" : "OpenVEX"}
+                              {vulnerability.vex.timestamp ? `, ${formatDate(vulnerability.vex.timestamp)}` : ""})
+                            </span>
+                          </p>
+                        </div>
+                      </div>
+                      {vulnerability.vex.justification && (
+                        <div className="flex flex-col">
+                          <label className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                            Justification
+                          </label>
+                          <p className="text-body-sm mt-1 text-muted-foreground">
+                            {formatVexJustification(vulnerability.vex.justification)}
+                          </p>
+                        </div>
+                      )}
+                      {(vulnerability.vex.impactStatement || vulnerability.vex.actionStatement) && (
+                        <div className="flex flex-col">
+                          <label className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                            {vulnerability.vex.impactStatement ? "Impact Statement" : "Action Statement"}
+                          </label>
+                          <p className="text-body-sm mt-1 text-muted-foreground">
+                            {vulnerability.vex.impactStatement || vulnerability.vex.actionStatement}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             </TabsContent>
 
@@ -40,6 +40,8 @@ export function AddRepositoryDialog({ open, onOpenChange, onRepositoryAdded }: A
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle')
   const [testResult, setTestResult] = useState<{ repositoryCount?: number; error?: string } | null>(null)
 
+  const usesProtocol = ['generic', 'gitlab', 'nexus', 'harbor', 'quay', 'artifactory'].includes(config.type)
+
   const handleTypeSelect = (type: RepositoryType) => {
     setSelectedType(type)
     const registryInfo = repositoryTypes.find(t => t.type === type)
@@ -57,9 +59,9 @@ export function AddRepositoryDialog({ open, onOpenChange, onRepositoryAdded }: A
         setTestStatus('testing')
         setTestResult(null)
 
-        // Prepare the config with protocol for generic, gitlab, and nexus registries
+        // Prepare the config with protocol for self-hosted registries
         const testConfig = { ...config, type: config.type.toUpperCase() }
-        if ((config.type === 'generic' || config.type === 'gitlab' || config.type === 'nexus') && config.registryUrl) {
+        if (usesProtocol && config.registryUrl) {
             testConfig.registryUrl = `${protocol}://${config.registryUrl.replace(/^https?:\/\//, '')}`
         }
         if (config.type === 'gcr') {
@@ -98,9 +100,9 @@ export function AddRepositoryDialog({ open, onOpenChange, onRepositoryAdded }: A
   }
 
     const handleAddRepository = async () => {
-        // Prepare the config with protocol for generic, gitlab, and nexus registries
+        // Prepare the config with protocol for self-hosted registries
         const saveConfig = { ...config, type: config.type.toUpperCase() }
-        if ((config.type === 'generic' || config.type === 'gitlab' || config.type === 'nexus') && config.registryUrl) {
+        if (usesProtocol && config.registryUrl) {
             saveConfig.registryUrl = `${protocol}://${config.registryUrl.replace(/^https?:\/\//, '')}`
         }
         if (config.type === 'gcr') {
@@ -162,8 +164,10 @@ export function AddRepositoryDialog({ open, onOpenChange, onRepositoryAdded }: A
 
   const canTestConnection = config.type === 'gcr'
     ? !!(config.name && config.garProjectId && config.garRepositoryName && config.password)
+    : config.type === 'ecr'
+    ? !!(config.name && config.registryUrl) && !!config.username === !!config.password
     : !!(config.name && config.username && config.password &&
-        ((config.type !== 'generic' && config.type !== 'gitlab') || config.registryUrl))
+        (!['generic', 'gitlab', 'harbor', 'quay', 'artifactory'].includes(config.type) || config.registryUrl))
 
   const canAddRepository = testStatus === 'success'
 
@@ -211,7 +215,7 @@ export function AddRepositoryDialog({ open, onOpenChange, onRepositoryAdded }: A
                   </>
                 ) : (
                   <>
-                    <div className="flex gap-2"><span className="text-caption uppercase tracking-widest text-muted-foreground/50 w-24 shrink-0">Registry</span><span className="text-body-sm text-foreground">{(config.type === 'generic' || config.type === 'gitlab' || config.type === 'nexus') && config.registryUrl ? `${protocol}://${config.registryUrl}` : config.registryUrl}</span></div>
+                    <div className="flex gap-2"><span className="text-caption uppercase tracking-widest text-muted-foreground/50 w-24 shrink-0">Registry</span><span className="text-body-sm text-foreground">{usesProtocol && config.registryUrl ? `${protocol}://${config.registryUrl}` : config.registryUrl}</span></div>
                     <div className="flex gap-2"><span className="text-caption uppercase tracking-widest text-muted-foreground/50 w-24 shrink-0">Username</span><span className="text-body-sm text-foreground">{config.username}</span></div>
                   </>
                 )}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { ROLE_DESCRIPTIONS, USER_ROLES } from "@/lib/auth/roles"
+
+interface AddUserDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onUserAdded: () => void
+}
+
+const emptyForm = {
+  username: "",
+  displayName: "",
+  email: "",
+  password: "",
+  role: "VIEWER",
+  serviceAccount: false,
+}
+
+export function AddUserDialog({ open, onOpenChange, onUserAdded }: AddUserDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const handleClose = () => {
+    setForm(emptyForm)
+    onOpenChange(false)
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          username: form.username,
+          displayName: form.displayName || undefined,
+          email: form.email || undefined,
+          password: form.serviceAccount ? undefined : form.password,
+          role: form.role,
+          serviceAccount: form.serviceAccount,
+        }),
+      })
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}))
+        toast.error(err.error || "Failed to create user")
+        return
+      }
+      toast.success(`User ${form.username} created`)
+      setForm(emptyForm)
+      onUserAdded()
+    } catch {
+      toast.error("Failed to create user")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-lg border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">Add User</DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Create a local or service account and assign its role
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-username" className="text-caption uppercase tracking-widest text-muted-foreground/60">Username</Label>
+            <Input
+              id="new-username"
+              value={form.username}
+              onChange={(e) => setForm({ ...form, username: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-displayName" className="text-caption uppercase tracking-widest text-muted-foreground/60">Display name</Label>
+              <Input
+                id="new-displayName"
+                placeholder="Optional"
+                value={form.displayName}
+                onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-email" className="text-caption uppercase tracking-widest text-muted-foreground/60">Email</Label>
+              <Input
+                id="new-email"
+                type="email"
+                placeholder="Optional"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="new-serviceAccount" className="text-caption uppercase tracking-widest text-muted-foreground/60">Service account</Label>
+              <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                Cannot sign in; authenticates with API tokens only
+              </p>
+            </div>
+            <Switch
+              id="new-serviceAccount"
+              checked={form.serviceAccount}
+              onCheckedChange={(serviceAccount) => setForm({ ...form, serviceAccount, password: "" })}
+            />
+          </div>
+          {!form.serviceAccount && (
+            <div className="space-y-2">
+              <Label htmlFor="new-password" className="text-caption uppercase tracking-widest text-muted-foreground/60">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Role</Label>
+            <Select value={form.role} onValueChange={(role) => setForm({ ...form, role })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {role}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              {ROLE_DESCRIPTIONS[form.role as keyof typeof ROLE_DESCRIPTIONS]}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={handleClose} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !form.username || (!form.serviceAccount && !form.password)}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Creating..." : "Create User"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Copy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+export interface IssuedAgentKey {
+  agentName: string
+  apiKey: string
+}
+
+interface CreateAgentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onAgentCreated: () => void
+  // A key issued elsewhere (e.g. by rotation) to show instead of the form
+  issuedKey?: IssuedAgentKey | null
+}
+
+export function CreateAgentDialog({ open, onOpenChange, onAgentCreated, issuedKey }: CreateAgentDialogProps) {
+  const [name, setName] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [createdKey, setCreatedKey] = useState<IssuedAgentKey | null>(null)
+  const shownKey = issuedKey ?? createdKey
+
+  const handleClose = () => {
+    setName("")
+    setCreatedKey(null)
+    onOpenChange(false)
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/agents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create agent")
+        return
+      }
+      setCreatedKey({ agentName: data.name, apiKey: data.apiKey })
+      onAgentCreated()
+    } catch {
+      toast.error("Failed to create agent")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyKey = async () => {
+    if (!shownKey) return
+    try {
+      await navigator.clipboard.writeText(shownKey.apiKey)
+      toast.success("Key copied to clipboard")
+    } catch {
+      toast.error("Failed to copy key")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-lg border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {issuedKey ? "Key Rotated" : createdKey ? "Agent Created" : "Create Agent"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              {shownKey
+                ? `Copy the key of ${shownKey.agentName} now; it will not be shown again`
+                : "Each sensor authenticates with the key of its agent"}
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        {shownKey ? (
+          <div className="p-8 space-y-2">
+            <Label htmlFor="agent-key" className="text-caption uppercase tracking-widest text-muted-foreground/60">API Key</Label>
+            <div className="flex gap-2">
+              <Input id="agent-key" readOnly value={shownKey.apiKey} className="font-mono" onFocus={(e) => e.target.select()} />
+              <Button
+                variant="outline"
+                size="sm"
+                title="Copy key"
+                onClick={copyKey}
+                className="rounded-none border-white/10 hover:bg-white/5 h-9"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Pass it to the sensor as HG_API_KEY
+            </p>
+          </div>
+        ) : (
+          <div className="p-8 space-y-2">
+            <Label htmlFor="agent-name" className="text-caption uppercase tracking-widest text-muted-foreground/60">Name</Label>
+            <Input
+              id="agent-name"
+              placeholder="e.g. build-cluster-sensor"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          {shownKey ? (
+            <Button onClick={handleClose} className="rounded-none uppercase tracking-widest text-caption">
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={saving || !name.trim()}
+                className="rounded-none uppercase tracking-widest text-caption"
+              >
+                {saving ? "Creating..." : "Create Agent"}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
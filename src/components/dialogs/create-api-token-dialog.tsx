@@ -0,0 +1,249 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Copy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { API_TOKEN_SCOPES, SCOPE_DESCRIPTIONS } from "@/lib/auth/scopes"
+
+interface CreateApiTokenDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onTokenCreated: () => void
+  // Admins can also issue tokens for service accounts
+  isAdmin: boolean
+}
+
+interface ServiceAccount {
+  id: string
+  username: string
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+]
+
+const SELF = "self"
+
+const emptyForm = {
+  name: "",
+  owner: SELF,
+  scopes: ["scans:read", "reports:read"] as string[],
+  expiry: "90",
+}
+
+export function CreateApiTokenDialog({ open, onOpenChange, onTokenCreated, isAdmin }: CreateApiTokenDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccount[]>([])
+
+  useEffect(() => {
+    if (!open || !isAdmin) return
+    fetch("/api/users")
+      .then((response) => (response.ok ? response.json() : { users: [] }))
+      .then((data) =>
+        setServiceAccounts(
+          (data.users || []).filter((u: any) => u.authSource === "SERVICE" && u.isActive)
+        )
+      )
+      .catch(() => setServiceAccounts([]))
+  }, [open, isAdmin])
+
+  const handleClose = () => {
+    setForm(emptyForm)
+    setCreatedToken(null)
+    onOpenChange(false)
+  }
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setForm({
+      ...form,
+      scopes: checked ? [...form.scopes, scope] : form.scopes.filter((s) => s !== scope),
+    })
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          scopes: form.scopes,
+          expiresInDays: form.expiry === "never" ? null : Number(form.expiry),
+          userId: form.owner === SELF ? undefined : form.owner,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create API token")
+        return
+      }
+      setCreatedToken(data.token)
+      onTokenCreated()
+    } catch {
+      toast.error("Failed to create API token")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyToken = async () => {
+    if (!createdToken) return
+    try {
+      await navigator.clipboard.writeText(createdToken)
+      toast.success("Token copied to clipboard")
+    } catch {
+      toast.error("Failed to copy token")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-lg border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {createdToken ? "Token Created" : "Create API Token"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              {createdToken
+                ? "Copy the token now; it will not be shown again"
+                : "Tokens act as their owner, limited to the selected scopes"}
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        {createdToken ? (
+          <div className="p-8 space-y-2">
+            <Label htmlFor="created-token" className="text-caption uppercase tracking-widest text-muted-foreground/60">Token</Label>
+            <div className="flex gap-2">
+              <Input id="created-token" readOnly value={createdToken} className="font-mono" onFocus={(e) => e.target.select()} />
+              <Button
+                variant="outline"
+                size="sm"
+                title="Copy token"
+                onClick={copyToken}
+                className="rounded-none border-white/10 hover:bg-white/5 h-9"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Send it as an Authorization: Bearer header
+            </p>
+          </div>
+        ) : (
+          <div className="p-8 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="token-name" className="text-caption uppercase tracking-widest text-muted-foreground/60">Name</Label>
+              <Input
+                id="token-name"
+                placeholder="e.g. GitHub Actions"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {isAdmin && (
+                <div className="space-y-2">
+                  <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Owner</Label>
+                  <Select value={form.owner} onValueChange={(owner) => setForm({ ...form, owner })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SELF}>Personal (you)</SelectItem>
+                      {serviceAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.username} (service)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Expires</Label>
+                <Select value={form.expiry} onValueChange={(expiry) => setForm({ ...form, expiry })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Scopes</Label>
+              <div className="space-y-2 border border-white/10 p-4 max-h-64 overflow-y-auto">
+                {API_TOKEN_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-start gap-3 cursor-pointer">
+                    <Checkbox
+                      checked={form.scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span className="flex flex-col">
+                      <span className="text-body-sm font-mono text-foreground">{scope}</span>
+                      <span className="text-caption text-muted-foreground/60">{SCOPE_DESCRIPTIONS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          {createdToken ? (
+            <Button onClick={handleClose} className="rounded-none uppercase tracking-widest text-caption">
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={saving || !form.name.trim() || form.scopes.length === 0}
+                className="rounded-none uppercase tracking-widest text-caption"
+              >
+                {saving ? "Creating..." : "Create Token"}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
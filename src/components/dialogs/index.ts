@@ -8,3 +8,13 @@ export { VulnerabilityDetailsModal } from './vulnerability-details-modal';
 export { VulnerabilitySelectionModal } from './vulnerability-selection-modal';
 export { PackageDetailModal } from './PackageDetailModal';
 export { VulnerabilityDetailModal } from './VulnerabilityDetailModal';
+export { AddUserDialog } from './add-user-dialog';
+export { CreateApiTokenDialog } from './create-api-token-dialog';
+export { SecurityPolicyDialog } from './security-policy-dialog';
+export { ScanDiffDialog } from './scan-diff-dialog';
+export { VulnerabilityExceptionDialog } from './vulnerability-exception-dialog';
+export { NotificationChannelDialog } from './notification-channel-dialog';
+export { NotificationRuleDialog } from './notification-rule-dialog';
+export { CreateAgentDialog } from './create-agent-dialog';
+export { ScanRulesDialog } from './scan-rules-dialog';
+export { RepositoryWebhookDialog } from './repository-webhook-dialog';
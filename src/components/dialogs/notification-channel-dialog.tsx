@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  CHANNEL_FIELDS,
+  CHANNEL_TYPE_LABELS,
+  CHANNEL_TYPES,
+  type ChannelConfig,
+} from "@/lib/notification-routing/rules"
+
+export interface NotificationChannel {
+  id: string
+  name: string
+  type: typeof CHANNEL_TYPES[number]
+  enabled: boolean
+  // Secrets come back masked and are kept when saved unchanged
+  config: ChannelConfig
+  createdBy?: string | null
+  _count?: { rules: number }
+}
+
+interface NotificationChannelDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  // Edit this channel instead of creating a new one
+  channel?: NotificationChannel | null
+}
+
+const emptyForm = {
+  name: "",
+  type: "SLACK" as NotificationChannel["type"],
+  enabled: true,
+  config: {} as ChannelConfig,
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+export function NotificationChannelDialog({ open, onOpenChange, onSaved, channel }: NotificationChannelDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm(channel ? { name: channel.name, type: channel.type, enabled: channel.enabled, config: channel.config } : emptyForm)
+  }, [open, channel])
+
+  const fields = CHANNEL_FIELDS[form.type]
+  const complete = form.name.trim() && fields.every((field) => field.optional || form.config[field.key])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(channel ? `/api/notifications/channels/${channel.id}` : "/api/notifications/channels", {
+        method: channel ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save channel")
+        return
+      }
+      toast.success(channel ? `Channel "${form.name}" updated` : `Channel "${form.name}" created`)
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error("Failed to save channel")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {channel ? "Edit Channel" : "Add Channel"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Where notifications are sent; rules decide which ones
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="channel-name" className={labelClass}>Name</Label>
+              <Input
+                id="channel-name"
+                placeholder="e.g. Security team"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClass}>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(type) => setForm({ ...form, type: type as NotificationChannel["type"], config: {} })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CHANNEL_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{CHANNEL_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`channel-${field.key}`} className={labelClass}>
+                {field.label}{field.optional ? " (optional)" : ""}
+              </Label>
+              <Input
+                id={`channel-${field.key}`}
+                type={field.secret ? "password" : "text"}
+                placeholder={field.placeholder}
+                className="font-mono"
+                value={form.config[field.key] ?? ""}
+                onChange={(e) => setForm({ ...form, config: { ...form.config, [field.key]: e.target.value } })}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Switch id="channel-enabled" checked={form.enabled} onCheckedChange={(enabled) => setForm({ ...form, enabled })} />
+            <Label htmlFor="channel-enabled" className={labelClass}>Enabled</Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !complete}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Saving..." : channel ? "Save Channel" : "Add Channel"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,294 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENTS,
+  RULE_SEVERITIES,
+  type RoutableEvent,
+} from "@/lib/notification-routing/rules"
+import type { NotificationChannel } from "./notification-channel-dialog"
+
+export interface NotificationRule {
+  id: string
+  name: string
+  enabled: boolean
+  channelId: string
+  events: RoutableEvent[]
+  minSeverity: typeof RULE_SEVERITIES[number] | null
+  imagePattern: string | null
+  repositoryId: string | null
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+  timezone: string
+  channel: { id: string; name: string; type: NotificationChannel["type"]; enabled: boolean }
+  repository: { id: string; name: string } | null
+}
+
+interface NotificationRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  channels: NotificationChannel[]
+  // Edit this rule instead of creating a new one
+  rule?: NotificationRule | null
+}
+
+interface Repository {
+  id: string
+  name: string
+}
+
+const emptyForm = {
+  name: "",
+  enabled: true,
+  channelId: "",
+  events: ["SCAN_COMPLETED"] as RoutableEvent[],
+  minSeverity: "HIGH" as NotificationRule["minSeverity"],
+  imagePattern: "",
+  repositoryId: "",
+  quietHoursStart: "",
+  quietHoursEnd: "",
+  timezone: "UTC",
+}
+
+function toForm(rule: NotificationRule): typeof emptyForm {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    channelId: rule.channelId,
+    events: rule.events,
+    minSeverity: rule.minSeverity,
+    imagePattern: rule.imagePattern || "",
+    repositoryId: rule.repositoryId || "",
+    quietHoursStart: rule.quietHoursStart || "",
+    quietHoursEnd: rule.quietHoursEnd || "",
+    timezone: rule.timezone,
+  }
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+export function NotificationRuleDialog({ open, onOpenChange, onSaved, channels, rule }: NotificationRuleDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [repositories, setRepositories] = useState<Repository[]>([])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(rule ? toForm(rule) : {
+      ...emptyForm,
+      channelId: channels[0]?.id ?? "",
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    })
+    fetch("/api/repositories")
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((data) => setRepositories(data.data || []))
+      .catch(() => setRepositories([]))
+  }, [open, rule, channels])
+
+  const toggleEvent = (event: RoutableEvent, checked: boolean) => {
+    setForm({ ...form, events: checked ? [...form.events, event] : form.events.filter((e) => e !== event) })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(rule ? `/api/notifications/rules/${rule.id}` : "/api/notifications/rules", {
+        method: rule ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          imagePattern: form.imagePattern || null,
+          repositoryId: form.repositoryId || null,
+          quietHoursStart: form.quietHoursStart || null,
+          quietHoursEnd: form.quietHoursEnd || null,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save rule")
+        return
+      }
+      toast.success(rule ? `Rule "${form.name}" updated` : `Rule "${form.name}" created`)
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error("Failed to save rule")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {rule ? "Edit Rule" : "Create Rule"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Matching events are sent to the channel
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name" className={labelClass}>Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Production criticals"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClass}>Channel</Label>
+              <Select value={form.channelId} onValueChange={(channelId) => setForm({ ...form, channelId })}>
+                <SelectTrigger><SelectValue placeholder="Select a channel" /></SelectTrigger>
+                <SelectContent>
+                  {channels.map((channel) => (
+                    <SelectItem key={channel.id} value={channel.id}>{channel.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className={labelClass}>Events</Label>
+            <div className="grid grid-cols-2 gap-2 border border-white/10 p-4">
+              {NOTIFICATION_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-body-sm text-foreground">
+                  <Checkbox
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {NOTIFICATION_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Severity at least</Label>
+              <Select
+                value={form.minSeverity ?? "any"}
+                onValueChange={(value) => setForm({ ...form, minSeverity: value === "any" ? null : value as NotificationRule["minSeverity"] })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any severity</SelectItem>
+                  {RULE_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClass}>Repository</Label>
+              <Select
+                value={form.repositoryId || "any"}
+                onValueChange={(value) => setForm({ ...form, repositoryId: value === "any" ? "" : value })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any repository</SelectItem>
+                  {repositories.map((repository) => (
+                    <SelectItem key={repository.id} value={repository.id}>{repository.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-pattern" className={labelClass}>Image pattern (regex on name:tag, optional)</Label>
+            <Input
+              id="rule-pattern"
+              placeholder="^myorg/.*:prod-"
+              className="font-mono"
+              value={form.imagePattern}
+              onChange={(e) => setForm({ ...form, imagePattern: e.target.value })}
+            />
+            <p className="text-caption text-muted-foreground/50">
+              With an image or repository filter, events not about an image (agents, expired exceptions, digests) are skipped
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-quiet-start" className={labelClass}>Quiet from</Label>
+              <Input
+                id="rule-quiet-start"
+                type="time"
+                value={form.quietHoursStart}
+                onChange={(e) => setForm({ ...form, quietHoursStart: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-quiet-end" className={labelClass}>Quiet until</Label>
+              <Input
+                id="rule-quiet-end"
+                type="time"
+                value={form.quietHoursEnd}
+                onChange={(e) => setForm({ ...form, quietHoursEnd: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-timezone" className={labelClass}>Time zone</Label>
+              <Input
+                id="rule-timezone"
+                placeholder="Europe/Berlin"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="rule-enabled" checked={form.enabled} onCheckedChange={(enabled) => setForm({ ...form, enabled })} />
+            <Label htmlFor="rule-enabled" className={labelClass}>Enabled</Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !form.name.trim() || !form.channelId || form.events.length === 0}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Saving..." : rule ? "Save Rule" : "Create Rule"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Copy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface RepositoryWebhookDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  repository: { id: string; name: string } | null
+}
+
+interface WebhookState {
+  enabled: boolean
+  url: string
+  formats: Record<string, string>
+}
+
+// How each registry passes the secret along with its notifications
+const SECRET_HINTS: Record<string, string> = {
+  distribution: "Authorization: Bearer <secret> header in the notification endpoint",
+  harbor: "Auth header of the webhook policy",
+  gitlab: "X-Gitlab-Token header of the registry notification endpoint",
+  ghcr: "Secret of a repository or organization webhook for package events",
+  nexus: "Secret key of the webhook capability",
+  gitea: "Secret of a webhook for package events",
+  quay: "?secret=<secret> appended to the webhook URL",
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+export function RepositoryWebhookDialog({ open, onOpenChange, repository }: RepositoryWebhookDialogProps) {
+  const [webhook, setWebhook] = useState<WebhookState | null>(null)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchWebhook = useCallback(async () => {
+    if (!repository) return
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/webhook`)
+      setWebhook(response.ok ? await response.json() : null)
+    } catch {
+      setWebhook(null)
+    }
+  }, [repository])
+
+  useEffect(() => {
+    if (!open) return
+    setSecret(null)
+    fetchWebhook()
+  }, [open, fetchWebhook])
+
+  const handleEnable = async () => {
+    if (!repository) return
+    if (webhook?.enabled && !confirm("Replace the secret? Registries using the current one are rejected until updated.")) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/webhook`, { method: "POST" })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to enable webhook")
+        return
+      }
+      setSecret(data.secret)
+      fetchWebhook()
+    } catch {
+      toast.error("Failed to enable webhook")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!repository || !confirm(`Disable the push webhook of ${repository.name}?`)) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/webhook`, { method: "DELETE" })
+      if (!response.ok) {
+        toast.error("Failed to disable webhook")
+        return
+      }
+      toast.success("Webhook disabled")
+      setSecret(null)
+      fetchWebhook()
+    } catch {
+      toast.error("Failed to disable webhook")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value)
+      toast.success(`${label} copied to clipboard`)
+    } catch {
+      toast.error(`Failed to copy ${label.toLowerCase()}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              Push Webhook{repository ? ` · ${repository.name}` : ""}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              {webhook?.enabled ? "Pushed tags are scanned right away" : "Let the registry report pushes instead of waiting for the next sync"}
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[60vh] overflow-y-auto">
+          {webhook && (
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url" className={labelClass}>Webhook URL</Label>
+              <div className="flex gap-2">
+                <Input id="webhook-url" readOnly value={webhook.url} className="font-mono" onFocus={(e) => e.target.select()} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Copy URL"
+                  onClick={() => copy(webhook.url, "URL")}
+                  className="rounded-none border-white/10 hover:bg-white/5 h-9"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {secret && (
+            <div className="space-y-2">
+              <Label htmlFor="webhook-secret" className={labelClass}>Secret</Label>
+              <div className="flex gap-2">
+                <Input id="webhook-secret" readOnly value={secret} className="font-mono" onFocus={(e) => e.target.select()} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Copy secret"
+                  onClick={() => copy(secret, "Secret")}
+                  className="rounded-none border-white/10 hover:bg-white/5 h-9"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                Copy the secret now; it will not be shown again
+              </p>
+            </div>
+          )}
+
+          {webhook && (
+            <div className="space-y-2">
+              <Label className={labelClass}>Supported registries</Label>
+              <div className="border border-white/10 divide-y divide-white/10">
+                {Object.entries(webhook.formats).map(([format, label]) => (
+                  <div key={format} className="flex justify-between gap-4 px-4 py-2">
+                    <span className="text-body-sm text-foreground">{label}</span>
+                    <span className="text-caption text-muted-foreground text-right">{SECRET_HINTS[format]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          {webhook?.enabled && (
+            <Button
+              variant="outline"
+              onClick={handleDisable}
+              disabled={saving}
+              className="rounded-none border-white/10 hover:bg-red-950/20 text-red-400 hover:text-red-300 hover:border-red-500/30 uppercase tracking-widest text-caption"
+            >
+              Disable
+            </Button>
+          )}
+          <Button
+            onClick={handleEnable}
+            disabled={saving || !webhook}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {webhook?.enabled ? "Rotate Secret" : "Enable Webhook"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
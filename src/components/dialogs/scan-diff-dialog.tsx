@@ -0,0 +1,351 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ArrowRight, Download } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { getSeverityCssClass } from "@/lib/utils/severity-utils"
+import type { ScanDiff, VulnerabilityDiffEntry } from "@/lib/scanner/ScanDiff"
+
+export interface DiffableScan {
+  id: string
+  tag: string
+  startedAt: string
+  status: string
+}
+
+interface ScanDiffDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scans: DiffableScan[]
+  // Preselect this scan as the newer side of the comparison
+  headScanId?: string
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+const COMPLETED = ["SUCCESS", "PARTIAL"]
+
+function scanLabel(scan: DiffableScan) {
+  return `${scan.tag} · ${new Date(scan.startedAt).toLocaleString()}`
+}
+
+function VulnerabilityList({ entries, empty }: { entries: VulnerabilityDiffEntry[]; empty: string }) {
+  if (entries.length === 0) {
+    return <p className="py-6 text-center text-caption uppercase tracking-widest text-muted-foreground/40">{empty}</p>
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-white/10">
+          <TableHead className="text-caption uppercase tracking-widest">Severity</TableHead>
+          <TableHead className="text-caption uppercase tracking-widest">Vulnerability</TableHead>
+          <TableHead className="text-caption uppercase tracking-widest">Package</TableHead>
+          <TableHead className="text-caption uppercase tracking-widest">Fixed In</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={`${entry.cveId}-${entry.packageName}`} className="border-white/10">
+            <TableCell>
+              <Badge className={`${getSeverityCssClass(entry.severity)} text-white rounded-none`}>{entry.severity}</Badge>
+            </TableCell>
+            <TableCell className="font-mono text-body-sm">{entry.cveId}</TableCell>
+            <TableCell className="font-mono text-body-sm">
+              {entry.packageName}
+              {entry.installedVersion && <span className="text-muted-foreground"> @ {entry.installedVersion}</span>}
+            </TableCell>
+            <TableCell className="font-mono text-body-sm text-green-600">{entry.fixedVersion || "-"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone?: string }) {
+  return (
+    <div className="border border-white/10 p-4">
+      <p className={labelClass}>{label}</p>
+      <p className={`text-2xl tracking-tight mt-1 ${tone ?? "text-foreground"}`}>{value}</p>
+    </div>
+  )
+}
+
+export function ScanDiffDialog({ open, onOpenChange, scans, headScanId }: ScanDiffDialogProps) {
+  const completedScans = useMemo(
+    () => scans
+      .filter((scan) => COMPLETED.includes(scan.status))
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()),
+    [scans]
+  )
+  const [baseId, setBaseId] = useState("")
+  const [headId, setHeadId] = useState("")
+  const [diff, setDiff] = useState<ScanDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Callers pass a fresh array on every render; only reset the selection when the scans change
+  const scanIds = completedScans.map((scan) => scan.id).join(",")
+
+  // Default to the chosen (or latest) scan against the one before it
+  useEffect(() => {
+    if (!open) return
+    const ids = scanIds ? scanIds.split(",") : []
+    const headIndex = Math.max(0, ids.indexOf(headScanId ?? ""))
+    setHeadId(ids[headIndex] ?? "")
+    setBaseId(ids[headIndex + 1] ?? "")
+  }, [open, headScanId, scanIds])
+
+  useEffect(() => {
+    if (!open || !baseId || !headId || baseId === headId) {
+      setDiff(null)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    fetch(`/api/scans/diff?base=${baseId}&head=${headId}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+        if (!cancelled) setDiff(data)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to compare scans")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, baseId, headId])
+
+  const downloadUrl = (format: "json" | "markdown") =>
+    `/api/scans/diff?base=${baseId}&head=${headId}&format=${format}&download=true`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              Compare Scans
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              What the newer scan fixed and what it introduced
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto">
+          {completedScans.length < 2 ? (
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              At least two completed scans are needed to compare
+            </p>
+          ) : (
+            <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-4">
+              <div className="space-y-2">
+                <Label className={labelClass}>Base (older)</Label>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger aria-label="Base scan"><SelectValue placeholder="Select a scan" /></SelectTrigger>
+                  <SelectContent>
+                    {completedScans.map((scan) => (
+                      <SelectItem key={scan.id} value={scan.id}>{scanLabel(scan)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+              <div className="space-y-2">
+                <Label className={labelClass}>Head (newer)</Label>
+                <Select value={headId} onValueChange={setHeadId}>
+                  <SelectTrigger aria-label="Head scan"><SelectValue placeholder="Select a scan" /></SelectTrigger>
+                  <SelectContent>
+                    {completedScans.map((scan) => (
+                      <SelectItem key={scan.id} value={scan.id}>{scanLabel(scan)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {baseId && baseId === headId && (
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">Pick two different scans</p>
+          )}
+          {loading && (
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">Comparing scans...</p>
+          )}
+          {error && <p className="text-caption uppercase tracking-widest text-red-400">{error}</p>}
+
+          {diff && !loading && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Introduced" value={diff.summary.vulnerabilities.introduced} tone="text-red-400" />
+                <Stat label="Fixed" value={diff.summary.vulnerabilities.fixed} tone="text-green-500" />
+                <Stat label="Unchanged" value={diff.summary.vulnerabilities.unchanged} />
+                <Stat label="Packages Changed" value={diff.summary.packages.added + diff.summary.packages.removed + diff.summary.packages.upgraded + diff.summary.packages.downgraded} />
+              </div>
+
+              <Tabs defaultValue="introduced">
+                <TabsList className="grid w-full grid-cols-5">
+                  <TabsTrigger value="introduced">Introduced ({diff.summary.vulnerabilities.introduced})</TabsTrigger>
+                  <TabsTrigger value="fixed">Fixed ({diff.summary.vulnerabilities.fixed})</TabsTrigger>
+                  <TabsTrigger value="packages">Packages</TabsTrigger>
+                  <TabsTrigger value="compliance">Compliance</TabsTrigger>
+                  <TabsTrigger value="layers">Layers</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="introduced">
+                  <VulnerabilityList entries={diff.vulnerabilities.introduced} empty="No new vulnerabilities" />
+                </TabsContent>
+                <TabsContent value="fixed">
+                  <VulnerabilityList entries={diff.vulnerabilities.fixed} empty="No vulnerabilities fixed" />
+                </TabsContent>
+
+                <TabsContent value="packages">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-white/10">
+                        <TableHead className="text-caption uppercase tracking-widest">Change</TableHead>
+                        <TableHead className="text-caption uppercase tracking-widest">Package</TableHead>
+                        <TableHead className="text-caption uppercase tracking-widest">Before</TableHead>
+                        <TableHead className="text-caption uppercase tracking-widest">After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[
+                        ...diff.packages.upgraded.map((pkg) => ({ change: "Upgraded", name: pkg.name, before: pkg.fromVersion, after: pkg.toVersion })),
+                        ...diff.packages.downgraded.map((pkg) => ({ change: "Downgraded", name: pkg.name, before: pkg.fromVersion, after: pkg.toVersion })),
+                        ...diff.packages.added.map((pkg) => ({ change: "Added", name: pkg.name, before: null, after: pkg.version })),
+                        ...diff.packages.removed.map((pkg) => ({ change: "Removed", name: pkg.name, before: pkg.version, after: null })),
+                      ].map((row) => (
+                        <TableRow key={`${row.change}-${row.name}`} className="border-white/10">
+                          <TableCell className="text-caption uppercase tracking-widest">{row.change}</TableCell>
+                          <TableCell className="font-mono text-body-sm">{row.name}</TableCell>
+                          <TableCell className="font-mono text-body-sm text-muted-foreground">{row.before ?? "-"}</TableCell>
+                          <TableCell className="font-mono text-body-sm">{row.after ?? "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="pt-3 text-caption uppercase tracking-widest text-muted-foreground/40">
+                    {diff.summary.packages.unchanged} packages unchanged
+                  </p>
+                </TabsContent>
+
+                <TabsContent value="compliance">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-white/10">
+                        <TableHead className="text-caption uppercase tracking-widest">Change</TableHead>
+                        <TableHead className="text-caption uppercase tracking-widest">Severity</TableHead>
+                        <TableHead className="text-caption uppercase tracking-widest">Rule</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[
+                        ...diff.compliance.introduced.map((finding) => ({ change: "Introduced", ...finding })),
+                        ...diff.compliance.resolved.map((finding) => ({ change: "Resolved", ...finding })),
+                      ].map((row) => (
+                        <TableRow key={`${row.change}-${row.source}-${row.ruleId}`} className="border-white/10">
+                          <TableCell className="text-caption uppercase tracking-widest">{row.change}</TableCell>
+                          <TableCell>
+                            <Badge className={`${getSeverityCssClass(row.severity)} text-white rounded-none`}>{row.severity}</Badge>
+                          </TableCell>
+                          <TableCell className="text-body-sm">
+                            <span className="font-mono">{row.ruleId}</span> {row.ruleName}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="pt-3 text-caption uppercase tracking-widest text-muted-foreground/40">
+                    {diff.summary.compliance.unchanged} findings unchanged
+                  </p>
+                </TabsContent>
+
+                <TabsContent value="layers">
+                  {diff.layers ? (
+                    <div className="space-y-2">
+                      <p className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                        {diff.layers.shared} shared layers · {diff.layers.added.length} new · {diff.layers.removed.length} removed
+                      </p>
+                      {[
+                        ...diff.layers.added.map((layer) => ({ change: "+", ...layer })),
+                        ...diff.layers.removed.map((layer) => ({ change: "-", ...layer })),
+                      ].map((layer) => (
+                        <div key={`${layer.change}${layer.digest}`} className="flex gap-3 border border-white/10 p-3 font-mono text-caption">
+                          <span className={layer.change === "+" ? "text-accent" : "text-muted-foreground"}>{layer.change}</span>
+                          <span className="text-muted-foreground">{layer.digest.slice(7, 19)}</span>
+                          <span className="truncate">{layer.command || "-"}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="py-6 text-center text-caption uppercase tracking-widest text-muted-foreground/40">
+                      Layer analysis is not available for both scans
+                    </p>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button
+            variant="outline"
+            asChild
+            disabled={!diff}
+            className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+          >
+            <a href={diff ? downloadUrl("markdown") : undefined} aria-disabled={!diff}>
+              <Download className="h-4 w-4 mr-2" />
+              Markdown
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            asChild
+            disabled={!diff}
+            className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+          >
+            <a href={diff ? downloadUrl("json") : undefined} aria-disabled={!diff}>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </a>
+          </Button>
+          <Button onClick={() => onOpenChange(false)} className="rounded-none uppercase tracking-widest text-caption">
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
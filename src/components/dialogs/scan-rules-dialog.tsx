@@ -0,0 +1,248 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+
+export interface ScanRule {
+  id: string
+  name: string
+  imagePattern: string | null
+  tagPattern: string
+  onNewTag: boolean
+  onDigestChange: boolean
+  enabled: boolean
+  lastTriggeredAt: string | null
+}
+
+interface ScanRulesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  repository: { id: string; name: string } | null
+}
+
+const emptyForm = {
+  name: "",
+  imagePattern: "",
+  tagPattern: "",
+  onNewTag: true,
+  onDigestChange: false,
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+function describeTriggers(rule: ScanRule): string {
+  if (rule.onNewTag && rule.onDigestChange) return "New tags and digest changes"
+  return rule.onNewTag ? "New tags" : "Digest changes"
+}
+
+export function ScanRulesDialog({ open, onOpenChange, repository }: ScanRulesDialogProps) {
+  const [rules, setRules] = useState<ScanRule[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const fetchRules = useCallback(async () => {
+    if (!repository) return
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/scan-rules`)
+      const data = await response.json().catch(() => ({}))
+      setRules(response.ok ? data.rules || [] : [])
+    } catch {
+      setRules([])
+    }
+  }, [repository])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(emptyForm)
+    fetchRules()
+  }, [open, fetchRules])
+
+  const saveRule = async (rule: ScanRule, changes: Partial<ScanRule>) => {
+    if (!repository) return
+    const response = await fetch(`/api/repositories/${repository.id}/scan-rules/${rule.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: rule.name,
+        imagePattern: rule.imagePattern,
+        tagPattern: rule.tagPattern,
+        onNewTag: rule.onNewTag,
+        onDigestChange: rule.onDigestChange,
+        enabled: rule.enabled,
+        ...changes,
+      }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      toast.error(data.error || "Failed to update rule")
+      return
+    }
+    fetchRules()
+  }
+
+  const deleteRule = async (rule: ScanRule) => {
+    if (!repository || !confirm(`Delete the rule "${rule.name}"?`)) return
+    const response = await fetch(`/api/repositories/${repository.id}/scan-rules/${rule.id}`, { method: "DELETE" })
+    if (!response.ok) {
+      toast.error("Failed to delete rule")
+      return
+    }
+    toast.success(`Rule "${rule.name}" deleted`)
+    fetchRules()
+  }
+
+  const handleCreate = async () => {
+    if (!repository) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/scan-rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, imagePattern: form.imagePattern || null }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create rule")
+        return
+      }
+      toast.success(`Rule "${form.name}" created`)
+      setForm(emptyForm)
+      fetchRules()
+    } catch {
+      toast.error("Failed to create rule")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              Auto-Scan Rules{repository ? ` · ${repository.name}` : ""}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Syncs scan new or moved tags matching the first enabled rule
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[60vh] overflow-y-auto">
+          {rules.length === 0 ? (
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">No rules yet</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-4 border border-white/10 p-3">
+                  <Switch
+                    checked={rule.enabled}
+                    aria-label={`Enable ${rule.name}`}
+                    onCheckedChange={(enabled) => saveRule(rule, { enabled })}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="text-body-sm text-foreground">{rule.name}</div>
+                    <div className="font-mono text-caption text-muted-foreground truncate">
+                      {rule.imagePattern ? `${rule.imagePattern} : ` : ""}{rule.tagPattern}
+                    </div>
+                    <div className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                      {describeTriggers(rule)}
+                      {rule.lastTriggeredAt && ` · last scan ${formatDistanceToNow(new Date(rule.lastTriggeredAt), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Delete rule"
+                    onClick={() => deleteRule(rule)}
+                    className="rounded-none border-white/10 hover:bg-red-950/20 text-red-400 hover:text-red-300 hover:border-red-500/30"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 border-t border-white/10 pt-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scan-rule-name" className={labelClass}>Name</Label>
+                <Input
+                  id="scan-rule-name"
+                  placeholder="e.g. Release tags"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scan-rule-tag" className={labelClass}>Tag pattern (regex)</Label>
+                <Input
+                  id="scan-rule-tag"
+                  placeholder="^v\d+"
+                  className="font-mono"
+                  value={form.tagPattern}
+                  onChange={(e) => setForm({ ...form, tagPattern: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scan-rule-image" className={labelClass}>Image pattern (regex, optional)</Label>
+              <Input
+                id="scan-rule-image"
+                placeholder="^myorg/api$"
+                className="font-mono"
+                value={form.imagePattern}
+                onChange={(e) => setForm({ ...form, imagePattern: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 text-body-sm text-foreground">
+                <Checkbox
+                  checked={form.onNewTag}
+                  onCheckedChange={(checked) => setForm({ ...form, onNewTag: checked === true })}
+                />
+                Scan new tags
+              </label>
+              <label className="flex items-center gap-2 text-body-sm text-foreground">
+                <Checkbox
+                  checked={form.onDigestChange}
+                  onCheckedChange={(checked) => setForm({ ...form, onDigestChange: checked === true })}
+                />
+                Rescan when the digest changes
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Close
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !form.name.trim() || !form.tagPattern.trim() || (!form.onNewTag && !form.onDigestChange)}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Adding..." : "Add Rule"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
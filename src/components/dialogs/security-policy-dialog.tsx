@@ -0,0 +1,393 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  COMPLIANCE_GRADES,
+  POLICY_SEVERITIES,
+  type PolicyRule,
+  type PolicyRuleType,
+} from "@/lib/policy/rules"
+
+export interface SecurityPolicy {
+  id: string
+  name: string
+  description?: string | null
+  enabled: boolean
+  action: "FAIL" | "WARN"
+  scope: "GLOBAL" | "REPOSITORY" | "IMAGE_PATTERN"
+  repositoryId?: string | null
+  imagePattern?: string | null
+  rules: PolicyRule[]
+  repository?: { id: string; name: string } | null
+}
+
+interface SecurityPolicyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  // Edit this policy instead of creating a new one
+  policy?: SecurityPolicy | null
+}
+
+interface Repository {
+  id: string
+  name: string
+}
+
+const RULE_TYPES: { value: PolicyRuleType; label: string }[] = [
+  { value: "vulnerability", label: "Vulnerabilities" },
+  { value: "compliance_grade", label: "Compliance grade" },
+  { value: "compliance_finding", label: "Compliance findings" },
+  { value: "license", label: "Package licenses" },
+]
+
+const DEFAULT_RULES: Record<PolicyRuleType, PolicyRule> = {
+  vulnerability: { type: "vulnerability", severity: "CRITICAL", fixAvailable: true },
+  compliance_grade: { type: "compliance_grade", minGrade: "B" },
+  compliance_finding: { type: "compliance_finding", severity: "HIGH" },
+  license: { type: "license", denied: ["GPL-3.0", "AGPL-3.0"] },
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  enabled: true,
+  action: "FAIL" as SecurityPolicy["action"],
+  scope: "GLOBAL" as SecurityPolicy["scope"],
+  repositoryId: "",
+  imagePattern: "",
+  rules: [DEFAULT_RULES.vulnerability] as PolicyRule[],
+}
+
+function toForm(policy: SecurityPolicy): typeof emptyForm {
+  return {
+    name: policy.name,
+    description: policy.description || "",
+    enabled: policy.enabled,
+    action: policy.action,
+    scope: policy.scope,
+    repositoryId: policy.repositoryId || "",
+    imagePattern: policy.imagePattern || "",
+    rules: policy.rules,
+  }
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+function RuleEditor({ rule, onChange }: { rule: PolicyRule; onChange: (rule: PolicyRule) => void }) {
+  switch (rule.type) {
+    case "vulnerability":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className={labelClass}>Severity at least</Label>
+            <Select value={rule.severity} onValueChange={(severity) => onChange({ ...rule, severity: severity as typeof rule.severity })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {POLICY_SEVERITIES.map((severity) => (
+                  <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className={labelClass}>Fix</Label>
+            <Select
+              value={rule.fixAvailable === undefined ? "any" : rule.fixAvailable ? "fixed" : "unfixed"}
+              onValueChange={(value) => onChange({ ...rule, fixAvailable: value === "any" ? undefined : value === "fixed" })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="fixed">Fix available</SelectItem>
+                <SelectItem value="unfixed">No fix available</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className={labelClass}>Older than (days)</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="Any age"
+              value={rule.olderThanDays ?? ""}
+              onChange={(e) => onChange({ ...rule, olderThanDays: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className={labelClass}>Minimum CVSS</Label>
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              placeholder="Any score"
+              value={rule.minCvss ?? ""}
+              onChange={(e) => onChange({ ...rule, minCvss: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </div>
+        </div>
+      )
+
+    case "compliance_grade":
+      return (
+        <div className="space-y-1">
+          <Label className={labelClass}>Minimum grade</Label>
+          <Select value={rule.minGrade} onValueChange={(minGrade) => onChange({ ...rule, minGrade: minGrade as typeof rule.minGrade })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {COMPLIANCE_GRADES.map((grade) => (
+                <SelectItem key={grade} value={grade}>{grade}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+
+    case "compliance_finding":
+      return (
+        <div className="space-y-1">
+          <Label className={labelClass}>Severity at least</Label>
+          <Select value={rule.severity} onValueChange={(severity) => onChange({ ...rule, severity: severity as typeof rule.severity })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {POLICY_SEVERITIES.map((severity) => (
+                <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+
+    case "license":
+      return (
+        <div className="space-y-1">
+          <Label className={labelClass}>Denied licenses (SPDX, comma separated)</Label>
+          <Input
+            placeholder="GPL-3.0, AGPL-3.0"
+            value={rule.denied.join(", ")}
+            onChange={(e) => onChange({ ...rule, denied: e.target.value.split(",").map((id) => id.trim()).filter(Boolean) })}
+          />
+        </div>
+      )
+  }
+}
+
+export function SecurityPolicyDialog({ open, onOpenChange, onSaved, policy }: SecurityPolicyDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [repositories, setRepositories] = useState<Repository[]>([])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(policy ? toForm(policy) : emptyForm)
+    fetch("/api/repositories")
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((data) => setRepositories(data.data || []))
+      .catch(() => setRepositories([]))
+  }, [open, policy])
+
+  const updateRule = (index: number, rule: PolicyRule) => {
+    setForm({ ...form, rules: form.rules.map((r, i) => (i === index ? rule : r)) })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(policy ? `/api/policies/${policy.id}` : "/api/policies", {
+        method: policy ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          description: form.description || null,
+          repositoryId: form.scope === "REPOSITORY" ? form.repositoryId : null,
+          imagePattern: form.scope === "IMAGE_PATTERN" ? form.imagePattern : null,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save policy")
+        return
+      }
+      toast.success(policy ? `Policy "${form.name}" updated` : `Policy "${form.name}" created`)
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error("Failed to save policy")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {policy ? "Edit Policy" : "Create Policy"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              A scan violates the policy when any rule matches
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name" className={labelClass}>Name</Label>
+              <Input
+                id="policy-name"
+                placeholder="e.g. No fixable criticals"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClass}>On violation</Label>
+              <Select value={form.action} onValueChange={(action) => setForm({ ...form, action: action as SecurityPolicy["action"] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FAIL">Fail the scan</SelectItem>
+                  <SelectItem value="WARN">Warn only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="policy-description" className={labelClass}>Description</Label>
+            <Textarea
+              id="policy-description"
+              rows={2}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Applies to</Label>
+              <Select value={form.scope} onValueChange={(scope) => setForm({ ...form, scope: scope as SecurityPolicy["scope"] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="GLOBAL">All images</SelectItem>
+                  <SelectItem value="REPOSITORY">One repository</SelectItem>
+                  <SelectItem value="IMAGE_PATTERN">Image name pattern</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope === "REPOSITORY" && (
+              <div className="space-y-2">
+                <Label className={labelClass}>Repository</Label>
+                <Select value={form.repositoryId} onValueChange={(repositoryId) => setForm({ ...form, repositoryId })}>
+                  <SelectTrigger><SelectValue placeholder="Select a repository" /></SelectTrigger>
+                  <SelectContent>
+                    {repositories.map((repository) => (
+                      <SelectItem key={repository.id} value={repository.id}>{repository.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.scope === "IMAGE_PATTERN" && (
+              <div className="space-y-2">
+                <Label htmlFor="policy-pattern" className={labelClass}>Pattern (regex on name:tag)</Label>
+                <Input
+                  id="policy-pattern"
+                  placeholder="^myorg/.*:prod-"
+                  className="font-mono"
+                  value={form.imagePattern}
+                  onChange={(e) => setForm({ ...form, imagePattern: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className={labelClass}>Rules</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, rules: [...form.rules, DEFAULT_RULES.vulnerability] })}
+                className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+            {form.rules.map((rule, index) => (
+              <div key={index} className="border border-white/10 p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={rule.type}
+                    onValueChange={(type) => updateRule(index, DEFAULT_RULES[type as PolicyRuleType])}
+                  >
+                    <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {RULE_TYPES.map((ruleType) => (
+                        <SelectItem key={ruleType.value} value={ruleType.value}>{ruleType.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title="Remove rule"
+                    disabled={form.rules.length === 1}
+                    onClick={() => setForm({ ...form, rules: form.rules.filter((_, i) => i !== index) })}
+                    className="rounded-none border-white/10 hover:bg-white/5 text-red-400 h-9"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <RuleEditor rule={rule} onChange={(updated) => updateRule(index, updated)} />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="policy-enabled" checked={form.enabled} onCheckedChange={(enabled) => setForm({ ...form, enabled })} />
+            <Label htmlFor="policy-enabled" className={labelClass}>Enabled</Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !form.name.trim() || form.rules.length === 0}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Saving..." : policy ? "Save Policy" : "Create Policy"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -51,6 +51,13 @@ interface VulnerabilityDetailsModalProps {
     falsePositiveImages: string[];
     exploitAvailable?: boolean;
     epssScore?: number;
+    knownExploited?: boolean;
+    kev?: {
+      dateAdded: string;
+      dueDate: string | null;
+      requiredAction: string | null;
+      knownRansomwareUse: boolean;
+    };
     cweIds?: string[];
   } | null;
   isOpen: boolean;
@@ -196,6 +203,27 @@ export function VulnerabilityDetailsModal({
                     </Badge>
                   </div>
                 )}
+                {vulnerability.knownExploited && (
+                  <div className="col-span-2">
+                    <span className="text-caption uppercase tracking-widest text-muted-foreground/50">CISA KEV: </span>
+                    <Badge variant="destructive" className="ml-2 rounded-none uppercase tracking-widest text-caption">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Known Exploited
+                    </Badge>
+                    {vulnerability.kev?.knownRansomwareUse && (
+                      <Badge variant="destructive" className="ml-1 rounded-none uppercase tracking-widest text-caption">
+                        Ransomware
+                      </Badge>
+                    )}
+                    {vulnerability.kev && (
+                      <p className="mt-2 text-body-sm text-muted-foreground">
+                        Added {new Date(vulnerability.kev.dateAdded).toLocaleDateString()}
+                        {vulnerability.kev.dueDate && `, remediation due ${new Date(vulnerability.kev.dueDate).toLocaleDateString()}`}
+                        {vulnerability.kev.requiredAction && `. ${vulnerability.kev.requiredAction}`}
+                      </p>
+                    )}
+                  </div>
+                )}
                 {vulnerability.cweIds && vulnerability.cweIds.length > 0 && (
                   <div className="col-span-2">
                     <span className="text-caption uppercase tracking-widest text-muted-foreground/50">CWE IDs: </span>
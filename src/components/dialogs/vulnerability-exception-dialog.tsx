@@ -0,0 +1,304 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { EXCEPTION_JUSTIFICATIONS, JUSTIFICATION_LABELS } from "@/lib/exceptions/rules"
+
+export interface VulnerabilityException {
+  id: string
+  scope: "IMAGE" | "IMAGE_PATTERN" | "REPOSITORY" | "GLOBAL"
+  imageId: string | null
+  repositoryId: string | null
+  imagePattern: string | null
+  cveId: string | null
+  packageName: string | null
+  justification: typeof EXCEPTION_JUSTIFICATIONS[number]
+  reason: string
+  status: "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED"
+  expiresAt?: string | null
+  requestedBy?: string | null
+  approvedBy?: string | null
+  decidedAt?: string | null
+  decisionComment?: string | null
+  createdAt: string
+  image?: { id: string; name: string; tag: string } | null
+  repository?: { id: string; name: string } | null
+}
+
+interface VulnerabilityExceptionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  // Edit this exception instead of requesting a new one
+  exception?: VulnerabilityException | null
+  // Prefill a new request, e.g. from a finding on the scan page
+  defaults?: { imageId?: string; cveId?: string; packageName?: string }
+}
+
+interface Option {
+  id: string
+  label: string
+}
+
+// New requests expire after 90 days unless changed
+const DEFAULT_EXPIRY_DAYS = 90
+
+function dateInputValue(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+const emptyForm = {
+  scope: "IMAGE" as VulnerabilityException["scope"],
+  imageId: "",
+  repositoryId: "",
+  imagePattern: "",
+  cveId: "",
+  packageName: "",
+  justification: "RISK_ACCEPTED" as VulnerabilityException["justification"],
+  reason: "",
+  expiresAt: "",
+}
+
+function toForm(exception: VulnerabilityException): typeof emptyForm {
+  return {
+    scope: exception.scope,
+    imageId: exception.imageId || "",
+    repositoryId: exception.repositoryId || "",
+    imagePattern: exception.imagePattern || "",
+    cveId: exception.cveId || "",
+    packageName: exception.packageName || "",
+    justification: exception.justification,
+    reason: exception.reason,
+    expiresAt: exception.expiresAt ? exception.expiresAt.slice(0, 10) : "",
+  }
+}
+
+const labelClass = "text-caption uppercase tracking-widest text-muted-foreground/60"
+
+export function VulnerabilityExceptionDialog({ open, onOpenChange, onSaved, exception, defaults }: VulnerabilityExceptionDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [images, setImages] = useState<Option[]>([])
+  const [repositories, setRepositories] = useState<Option[]>([])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(exception ? toForm(exception) : {
+      ...emptyForm,
+      imageId: defaults?.imageId || "",
+      cveId: defaults?.cveId || "",
+      packageName: defaults?.packageName || "",
+      expiresAt: dateInputValue(new Date(Date.now() + DEFAULT_EXPIRY_DAYS * 24 * 60 * 60 * 1000)),
+    })
+    fetch("/api/images?limit=100")
+      .then((response) => (response.ok ? response.json() : { images: [] }))
+      .then((data) => {
+        const options: Option[] = (data.images || []).map((image: any) => ({ id: image.id, label: `${image.name}:${image.tag}` }))
+        // Keep the image of the exception being edited selectable even if it is not among the latest
+        const current = exception?.image
+        setImages(current && !options.some((option) => option.id === current.id)
+          ? [{ id: current.id, label: `${current.name}:${current.tag}` }, ...options]
+          : options)
+      })
+      .catch(() => setImages([]))
+    fetch("/api/repositories")
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((data) => setRepositories((data.data || []).map((repository: any) => ({ id: repository.id, label: repository.name }))))
+      .catch(() => setRepositories([]))
+  }, [open, exception, defaults])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(exception ? `/api/exceptions/${exception.id}` : "/api/exceptions", {
+        method: exception ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          cveId: form.cveId || null,
+          packageName: form.packageName || null,
+          imageId: form.scope === "IMAGE" ? form.imageId : null,
+          repositoryId: form.scope === "REPOSITORY" ? form.repositoryId : null,
+          imagePattern: form.scope === "IMAGE_PATTERN" ? form.imagePattern : null,
+          // End of the chosen day, so an exception expiring "today" covers today
+          expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save exception")
+        return
+      }
+      toast.success(exception ? "Exception updated and sent for approval" : "Exception requested; it applies once approved")
+      onSaved()
+      onOpenChange(false)
+    } catch {
+      toast.error("Failed to save exception")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border-white/10 rounded-none shadow-2xl p-0 overflow-hidden">
+        <div className="p-8 border-b border-white/10 bg-surface-1">
+          <DialogHeader className="space-y-3">
+            <DialogTitle className="text-sm uppercase tracking-wide-caps text-foreground">
+              {exception ? "Edit Exception" : "Request Exception"}
+            </DialogTitle>
+            <DialogDescription className="text-body-sm text-muted-foreground uppercase tracking-widest">
+              Approved exceptions hide findings from risk scores, policies and reports until they expire
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exception-cve" className={labelClass}>CVE</Label>
+              <Input
+                id="exception-cve"
+                placeholder="CVE-2024-1234"
+                className="font-mono"
+                value={form.cveId}
+                onChange={(e) => setForm({ ...form, cveId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-package" className={labelClass}>Package</Label>
+              <Input
+                id="exception-package"
+                placeholder="Any package"
+                className="font-mono"
+                value={form.packageName}
+                onChange={(e) => setForm({ ...form, packageName: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Applies to</Label>
+              <Select value={form.scope} onValueChange={(scope) => setForm({ ...form, scope: scope as VulnerabilityException["scope"] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="IMAGE">One image</SelectItem>
+                  <SelectItem value="IMAGE_PATTERN">Image name pattern</SelectItem>
+                  <SelectItem value="REPOSITORY">One repository</SelectItem>
+                  <SelectItem value="GLOBAL">All images</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope === "IMAGE" && (
+              <div className="space-y-2">
+                <Label className={labelClass}>Image</Label>
+                <Select value={form.imageId} onValueChange={(imageId) => setForm({ ...form, imageId })}>
+                  <SelectTrigger><SelectValue placeholder="Select an image" /></SelectTrigger>
+                  <SelectContent>
+                    {images.map((image) => (
+                      <SelectItem key={image.id} value={image.id}>{image.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.scope === "REPOSITORY" && (
+              <div className="space-y-2">
+                <Label className={labelClass}>Repository</Label>
+                <Select value={form.repositoryId} onValueChange={(repositoryId) => setForm({ ...form, repositoryId })}>
+                  <SelectTrigger><SelectValue placeholder="Select a repository" /></SelectTrigger>
+                  <SelectContent>
+                    {repositories.map((repository) => (
+                      <SelectItem key={repository.id} value={repository.id}>{repository.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.scope === "IMAGE_PATTERN" && (
+              <div className="space-y-2">
+                <Label htmlFor="exception-pattern" className={labelClass}>Pattern (regex on name:tag)</Label>
+                <Input
+                  id="exception-pattern"
+                  placeholder="^myorg/.*:prod-"
+                  className="font-mono"
+                  value={form.imagePattern}
+                  onChange={(e) => setForm({ ...form, imagePattern: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Justification</Label>
+              <Select
+                value={form.justification}
+                onValueChange={(justification) => setForm({ ...form, justification: justification as VulnerabilityException["justification"] })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EXCEPTION_JUSTIFICATIONS.map((justification) => (
+                    <SelectItem key={justification} value={justification}>{JUSTIFICATION_LABELS[justification]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-expires" className={labelClass}>Expires</Label>
+              <Input
+                id="exception-expires"
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exception-reason" className={labelClass}>Reason</Label>
+            <Textarea
+              id="exception-reason"
+              rows={3}
+              placeholder="Why the finding can be accepted, and any compensating controls"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-white/10 py-4 px-8">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !form.reason.trim() || (!form.cveId.trim() && !form.packageName.trim())}
+            className="rounded-none uppercase tracking-widest text-caption"
+          >
+            {saving ? "Saving..." : exception ? "Save Exception" : "Request Exception"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,9 +10,17 @@ import {
   GitBranch,
   CalendarDays,
   ArrowUpRight,
+  KeyRound,
+  ShieldCheck,
+  ShieldOff,
+  Users,
+  Bell,
+  Server,
 } from "lucide-react";
 
 import { NavMain } from "@/components/layout/nav-main";
+import { UserMenu } from "@/components/layout/user-menu";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { VersionNotification } from "@/components/shared/version-notification";
 import {
   Sidebar,
@@ -31,11 +39,28 @@ const data = {
     { title: "Vulnerabilities", url: "/library", icon: BookOpen },
     { title: "Repositories", url: "/repositories", icon: GitBranch },
     { title: "Scheduled Scans", url: "/scheduled-scans", icon: CalendarDays },
+    { title: "Policies", url: "/policies", icon: ShieldCheck },
+    { title: "Exceptions", url: "/exceptions", icon: ShieldOff },
     { title: "Settings", url: "/settings", icon: Settings },
   ],
+  navAccount: [
+    { title: "API Tokens", url: "/tokens", icon: KeyRound },
+  ],
+  navAdmin: [
+    { title: "Users", url: "/users", icon: Users },
+    { title: "Agents", url: "/agents", icon: Server },
+    { title: "Notifications", url: "/notifications", icon: Bell },
+  ],
 };
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const session = useCurrentUser();
+  const navItems = [
+    ...data.navMain,
+    ...(session.user ? data.navAccount : []),
+    ...(session.user?.role === "ADMIN" ? data.navAdmin : []),
+  ];
+
   return (
     <Sidebar
       collapsible="offcanvas"
@@ -63,9 +88,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         </Link>
       </SidebarHeader>
       <SidebarContent className="font-body">
-        <NavMain items={data.navMain} />
+        <NavMain items={navItems} />
       </SidebarContent>
       <SidebarFooter className="border-t border-white/10 p-0 bg-surface-1">
+        <UserMenu session={session} />
         <a
           href="https://harborguard.co"
           target="_blank"
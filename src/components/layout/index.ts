@@ -1,3 +1,4 @@
 export { AppSidebar } from './app-sidebar';
 export { SiteHeader } from './site-header';
 export { NavMain } from './nav-main';
+export { UserMenu } from './user-menu';
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { LogOut, ShieldAlert } from "lucide-react";
+import type { useCurrentUser } from "@/hooks/useCurrentUser";
+
+export function UserMenu({
+  session,
+}: {
+  session: ReturnType<typeof useCurrentUser>;
+}) {
+  const { user, authEnabled, setupRequired, loading, logout } = session;
+
+  if (loading || !authEnabled) {
+    return null;
+  }
+
+  if (setupRequired) {
+    return (
+      <Link
+        href="/login"
+        className="group flex items-center justify-between gap-3 px-6 py-4 border-b border-white/10 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className="text-caption text-muted-foreground/50 uppercase tracking-widest">
+            No users configured
+          </span>
+          <span className="text-body-sm uppercase tracking-caps text-foreground group-hover:text-accent transition-colors">
+            Secure this instance
+          </span>
+        </div>
+        <ShieldAlert className="w-4 h-4 text-muted-foreground/40 group-hover:text-accent transition-colors shrink-0" />
+      </Link>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-6 py-4 border-b border-white/10">
+      <div className="flex flex-col gap-1 min-w-0">
+        <span className="text-caption text-muted-foreground/50 uppercase tracking-widest">
+          {user.role}
+        </span>
+        <span className="text-body-sm tracking-caps text-foreground truncate">
+          {user.displayName || user.username}
+        </span>
+      </div>
+      <button
+        type="button"
+        title="Sign out"
+        onClick={logout}
+        className="h-8 w-8 flex items-center justify-center text-muted-foreground/40 hover:text-foreground hover:bg-white/5 transition-colors shrink-0"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -74,7 +74,23 @@ export function RegistryConfigForm({
         </div>
       )}
 
-      {(config.type === 'generic' || config.type === 'gitlab' || config.type === 'nexus' || config.type === 'gitea') && (
+      {config.type === 'ecr' && (
+        <div className="space-y-2">
+          <Label htmlFor="registryUrl" className="text-caption uppercase tracking-widest text-muted-foreground/60">Registry URL <span className="text-red-400">*</span></Label>
+          <Input
+            id="registryUrl"
+            value={config.registryUrl}
+            onChange={(e) => onConfigChange(prev => ({ ...prev, registryUrl: e.target.value.replace(/^https?:\/\//, '') }))}
+            placeholder="123456789012.dkr.ecr.us-east-1.amazonaws.com"
+            className="rounded-none border-white/10 bg-transparent text-body-sm"
+          />
+          <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+            The private registry of your AWS account. The region is taken from it.
+          </p>
+        </div>
+      )}
+
+      {(config.type === 'generic' || config.type === 'gitlab' || config.type === 'nexus' || config.type === 'gitea' || config.type === 'harbor' || config.type === 'quay' || config.type === 'artifactory') && (
         <>
           <div className="space-y-2">
             <Label htmlFor="registryUrl" className="text-caption uppercase tracking-widest text-muted-foreground/60">Registry URL</Label>
@@ -230,6 +246,10 @@ export function RegistryConfigForm({
                config.type === 'gitlab' ? 'GitLab Username' :
                config.type === 'nexus' ? 'Nexus Username' :
                config.type === 'gitea' ? 'Username' :
+               config.type === 'ecr' ? 'Access Key ID' :
+               config.type === 'harbor' ? 'Username or Robot Account' :
+               config.type === 'quay' ? 'Robot Account or Username' :
+               config.type === 'artifactory' ? 'Artifactory Username' :
                config.type === 'acr' ? 'Username' : 'Username'}
             </Label>
             <Input
@@ -238,6 +258,9 @@ export function RegistryConfigForm({
               onChange={(e) => onConfigChange(prev => ({ ...prev, username: e.target.value }))}
               placeholder={
                 config.type === 'acr' ? 'Admin username or service principal client ID' :
+                config.type === 'ecr' ? 'AKIA... (leave empty to use the server\'s AWS credentials)' :
+                config.type === 'harbor' ? 'admin or robot$project+scanner' :
+                config.type === 'quay' ? 'myorg+scanner' :
                 'Enter username'
               }
               className="rounded-none border-white/10 bg-transparent text-body-sm"
@@ -251,6 +274,10 @@ export function RegistryConfigForm({
                config.type === 'gitlab' ? 'GitLab Password' :
                config.type === 'nexus' ? 'Nexus Password' :
                config.type === 'gitea' ? 'Personal Access Token' :
+               config.type === 'ecr' ? 'Secret Access Key' :
+               config.type === 'harbor' ? 'Password or Robot Secret' :
+               config.type === 'quay' ? 'Robot Token or OAuth Token' :
+               config.type === 'artifactory' ? 'Password, API Key or Access Token' :
                config.type === 'acr' ? 'Password' : 'Password/Token'}
             </Label>
             <Input
@@ -265,6 +292,10 @@ export function RegistryConfigForm({
                 config.type === 'nexus' ? 'Enter Nexus password' :
                 config.type === 'gitea' ? 'Enter Gitea/Forgejo PAT with package:read scope' :
                 config.type === 'acr' ? 'Admin password or service principal client secret' :
+                config.type === 'ecr' ? 'Secret of the access key' :
+                config.type === 'harbor' ? 'Enter Harbor password or robot account secret' :
+                config.type === 'quay' ? 'Robot token, or an OAuth token with repo:read for a user' :
+                config.type === 'artifactory' ? 'Enter password, API key or access token' :
                 'Enter password or token'
               }
               className="rounded-none border-white/10 bg-transparent text-body-sm"
@@ -273,6 +304,37 @@ export function RegistryConfigForm({
         </>
       )}
 
+      {config.type === 'ecr' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="organization" className="text-caption uppercase tracking-widest text-muted-foreground/60">Role ARN (optional)</Label>
+            <Input
+              id="organization"
+              value={config.organization}
+              onChange={(e) => onConfigChange(prev => ({ ...prev, organization: e.target.value }))}
+              placeholder="arn:aws:iam::123456789012:role/harborguard-ecr-read"
+              className="rounded-none border-white/10 bg-transparent text-body-sm"
+            />
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              Role to assume with the access key, e.g. for registries in another account
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="authUrl" className="text-caption uppercase tracking-widest text-muted-foreground/60">ECR API Endpoint (optional)</Label>
+            <Input
+              id="authUrl"
+              value={config.authUrl}
+              onChange={(e) => onConfigChange(prev => ({ ...prev, authUrl: e.target.value }))}
+              placeholder="https://api.ecr.us-east-1.amazonaws.com"
+              className="rounded-none border-white/10 bg-transparent text-body-sm"
+            />
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              Leave blank for the public endpoint of the region. Set it for VPC endpoints.
+            </p>
+          </div>
+        </>
+      )}
+
       {config.type === 'ghcr' && (
         <div className="space-y-2">
           <Label htmlFor="organization" className="text-caption uppercase tracking-widest text-muted-foreground/60">Organization (optional)</Label>
@@ -302,6 +364,54 @@ export function RegistryConfigForm({
         </div>
       )}
 
+      {config.type === 'harbor' && (
+        <div className="space-y-2">
+          <Label htmlFor="organization" className="text-caption uppercase tracking-widest text-muted-foreground/60">Project (optional)</Label>
+          <Input
+            id="organization"
+            value={config.organization}
+            onChange={(e) => onConfigChange(prev => ({ ...prev, organization: e.target.value }))}
+            placeholder="library"
+            className="rounded-none border-white/10 bg-transparent text-body-sm"
+          />
+          <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+            Limit discovery to one Harbor project. Project robot accounts default to their own project.
+          </p>
+        </div>
+      )}
+
+      {config.type === 'quay' && (
+        <div className="space-y-2">
+          <Label htmlFor="organization" className="text-caption uppercase tracking-widest text-muted-foreground/60">Organization (optional)</Label>
+          <Input
+            id="organization"
+            value={config.organization}
+            onChange={(e) => onConfigChange(prev => ({ ...prev, organization: e.target.value }))}
+            placeholder="myorg"
+            className="rounded-none border-white/10 bg-transparent text-body-sm"
+          />
+          <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+            Organization or user namespace to list. Defaults to the robot account&apos;s organization or the username.
+          </p>
+        </div>
+      )}
+
+      {config.type === 'artifactory' && (
+        <div className="space-y-2">
+          <Label htmlFor="organization" className="text-caption uppercase tracking-widest text-muted-foreground/60">Repository Key (optional)</Label>
+          <Input
+            id="organization"
+            value={config.organization}
+            onChange={(e) => onConfigChange(prev => ({ ...prev, organization: e.target.value }))}
+            placeholder="docker-local"
+            className="rounded-none border-white/10 bg-transparent text-body-sm"
+          />
+          <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+            Limit discovery to one Docker repository. Virtual repositories list what they aggregate, remote ones what they have cached. Empty lists all local repositories.
+          </p>
+        </div>
+      )}
+
       {config.type === 'nexus' && (
         <>
           <div className="space-y-2">
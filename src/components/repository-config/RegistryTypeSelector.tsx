@@ -2,9 +2,9 @@
 
 import React from "react"
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Container, Github, GitlabIcon, Server, Package, Cloud, Globe, GitBranch } from "lucide-react"
+import { Container, Github, GitlabIcon, Server, Package, Cloud, CloudCog, Globe, GitBranch, Anchor, Ship, Warehouse } from "lucide-react"
 
-type RepositoryType = 'dockerhub' | 'ghcr' | 'gitlab' | 'generic' | 'nexus' | 'acr' | 'gcr' | 'gitea'
+type RepositoryType = 'dockerhub' | 'ghcr' | 'gitlab' | 'generic' | 'nexus' | 'acr' | 'gcr' | 'gitea' | 'ecr' | 'harbor' | 'quay' | 'artifactory'
 
 interface RegistryTypeSelectorProps {
   onTypeSelect: (type: RepositoryType) => void;
@@ -67,6 +67,34 @@ const repositoryTypes = [
     icon: <Globe className="h-8 w-8" />,
     registryUrl: '',
   },
+  {
+    type: 'ecr' as const,
+    title: 'Amazon ECR',
+    description: 'Connect to Amazon Elastic Container Registry with IAM credentials',
+    icon: <CloudCog className="h-8 w-8" />,
+    registryUrl: '',
+  },
+  {
+    type: 'harbor' as const,
+    title: 'Harbor',
+    description: 'Connect to Harbor projects with a user or robot account',
+    icon: <Anchor className="h-8 w-8" />,
+    registryUrl: '',
+  },
+  {
+    type: 'quay' as const,
+    title: 'Quay',
+    description: 'Connect to quay.io or Red Hat Quay organizations with a robot account',
+    icon: <Ship className="h-8 w-8" />,
+    registryUrl: 'quay.io',
+  },
+  {
+    type: 'artifactory' as const,
+    title: 'JFrog Artifactory',
+    description: 'Connect to Artifactory Docker repositories (local, remote or virtual)',
+    icon: <Warehouse className="h-8 w-8" />,
+    registryUrl: '',
+  },
 ]
 
 export { repositoryTypes }
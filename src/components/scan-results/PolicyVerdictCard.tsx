@@ -0,0 +1,193 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ChevronDown, ChevronRight, RefreshCw, ShieldCheck, ShieldAlert, ShieldX } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+type Verdict = "PASS" | "WARN" | "FAIL";
+
+interface PolicyViolation {
+  rule: number;
+  type: string;
+  findingId: string;
+  severity?: string;
+  message: string;
+}
+
+interface PolicyResult {
+  policyId: string;
+  policyName: string;
+  action: "FAIL" | "WARN";
+  passed: boolean;
+  violationCount: number;
+  violations: PolicyViolation[];
+}
+
+interface PolicyVerdictResponse {
+  verdict: Verdict | null;
+  policyCount: number;
+  violationCount: number;
+  evaluatedAt: string | null;
+  results: PolicyResult[];
+}
+
+const VERDICT_STYLES: Record<Verdict, { icon: React.ElementType; className: string; label: string }> = {
+  PASS: { icon: ShieldCheck, className: "text-green-400", label: "Passed" },
+  WARN: { icon: ShieldAlert, className: "text-yellow-400", label: "Passed with warnings" },
+  FAIL: { icon: ShieldX, className: "text-red-400", label: "Failed" },
+};
+
+// Violations shown before a policy is expanded
+const COLLAPSED_VIOLATIONS = 5;
+
+interface PolicyVerdictCardProps {
+  scanId: string;
+}
+
+export function PolicyVerdictCard({ scanId }: PolicyVerdictCardProps) {
+  const { can } = useCurrentUser();
+  const [data, setData] = React.useState<PolicyVerdictResponse | null>(null);
+  const [evaluating, setEvaluating] = React.useState(false);
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
+
+  React.useEffect(() => {
+    fetch(`/api/scans/${scanId}/policy`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setData)
+      .catch(() => setData(null));
+  }, [scanId]);
+
+  const handleEvaluate = async () => {
+    setEvaluating(true);
+    try {
+      const response = await fetch(`/api/scans/${scanId}/policy`, { method: "POST" });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(result.error || "Failed to evaluate policies");
+        return;
+      }
+      setData(result);
+      toast.success("Policies re-evaluated");
+    } catch {
+      toast.error("Failed to evaluate policies");
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const toggle = (policyId: string) => {
+    const next = new Set(expanded);
+    if (next.has(policyId)) {
+      next.delete(policyId);
+    } else {
+      next.add(policyId);
+    }
+    setExpanded(next);
+  };
+
+  if (!data) return null;
+
+  const style = data.verdict ? VERDICT_STYLES[data.verdict] : null;
+  const Icon = style?.icon ?? ShieldCheck;
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none" data-testid="policy-verdict">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+            <Icon className={`h-4 w-4 ${style?.className ?? "text-muted-foreground"}`} />
+            Policy Verdict
+            {style && (
+              <span className={`text-caption uppercase tracking-widest ${style.className}`}>{style.label}</span>
+            )}
+          </CardTitle>
+          <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+            {data.verdict === null
+              ? "Not evaluated"
+              : data.policyCount === 0
+                ? "No security policies apply to this image"
+                : `${data.policyCount} ${data.policyCount === 1 ? "policy" : "policies"} evaluated, ${data.violationCount} violations`}
+            {" · "}
+            <Link href="/policies" className="hover:text-foreground transition-colors">Manage policies</Link>
+          </CardDescription>
+        </div>
+        {can("OPERATOR") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleEvaluate}
+            disabled={evaluating}
+            className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption shrink-0"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${evaluating ? "animate-spin" : ""}`} />
+            Re-evaluate
+          </Button>
+        )}
+      </CardHeader>
+      {data.results.length > 0 && (
+        <CardContent className="space-y-2">
+          {data.results.map((result) => {
+            const isExpanded = expanded.has(result.policyId);
+            const violations = isExpanded ? result.violations : result.violations.slice(0, COLLAPSED_VIOLATIONS);
+            return (
+              <div key={result.policyId} className="border border-white/10">
+                <button
+                  type="button"
+                  onClick={() => toggle(result.policyId)}
+                  disabled={result.passed}
+                  className="flex w-full items-center justify-between gap-4 px-4 py-3 text-left hover:bg-white/5 disabled:hover:bg-transparent"
+                >
+                  <span className="flex items-center gap-2 text-body-sm text-foreground">
+                    {!result.passed && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                    {result.policyName}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {!result.passed && (
+                      <span className="text-caption uppercase tracking-widest text-muted-foreground/60">
+                        {result.violationCount} violations
+                      </span>
+                    )}
+                    <Badge
+                      variant={result.passed ? "outline" : result.action === "FAIL" ? "destructive" : "secondary"}
+                      className="rounded-none uppercase tracking-widest text-caption border-white/10"
+                    >
+                      {result.passed ? "Pass" : result.action === "FAIL" ? "Fail" : "Warn"}
+                    </Badge>
+                  </span>
+                </button>
+                {!result.passed && (
+                  <ul className="border-t border-white/10 px-4 py-2 space-y-1">
+                    {violations.map((violation, index) => (
+                      <li key={`${violation.findingId}-${index}`} className="text-caption font-mono text-muted-foreground">
+                        {violation.message}
+                      </li>
+                    ))}
+                    {result.violationCount > violations.length && (
+                      <li className="text-caption uppercase tracking-widest text-muted-foreground/40">
+                        {isExpanded
+                          ? `${result.violationCount - violations.length} more not stored`
+                          : `${result.violationCount - violations.length} more`}
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
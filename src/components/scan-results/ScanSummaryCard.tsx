@@ -11,6 +11,9 @@ import {
   ChevronDown,
   FileText,
   Sheet,
+  FileCheck,
+  FileCode,
+  Boxes,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -39,8 +42,13 @@ interface ScanSummaryCardProps {
   diveResults: any;
   onGeneratePdf: () => void;
   onGenerateXlsx: () => void;
+  onGenerateSarif: () => void;
   onDownloadZip: () => void;
   onDownloadReport: (reportType: string) => void;
+  // VEX status of the image, as OpenVEX or CycloneDX
+  onExportVex?: (format: "openvex" | "cyclonedx") => void;
+  // Package inventory as CycloneDX (JSON or XML) or SPDX
+  onExportSbom?: (format: "cyclonedx" | "cyclonedx-xml" | "spdx") => void;
 }
 
 function ToolBadge({ name, url }: { name: string; url: string }) {
@@ -72,8 +80,11 @@ export function ScanSummaryCard({
   diveResults,
   onGeneratePdf,
   onGenerateXlsx,
+  onGenerateSarif,
   onDownloadZip,
   onDownloadReport,
+  onExportVex,
+  onExportSbom,
 }: ScanSummaryCardProps) {
   return (
     <Card className="bg-surface-1 border-white/10 rounded-none">
@@ -101,6 +112,38 @@ export function ScanSummaryCard({
                   <Sheet className="h-4 w-4 mr-2" />
                   Export as XLSX (Multi-page)
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={onGenerateSarif} className="text-body-sm uppercase tracking-widest">
+                  <FileCode className="h-4 w-4 mr-2" />
+                  Export as SARIF
+                </DropdownMenuItem>
+                {onExportVex && (
+                  <>
+                    <DropdownMenuItem onClick={() => onExportVex("openvex")} className="text-body-sm uppercase tracking-widest">
+                      <FileCheck className="h-4 w-4 mr-2" />
+                      Export as OpenVEX
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onExportVex("cyclonedx")} className="text-body-sm uppercase tracking-widest">
+                      <FileCheck className="h-4 w-4 mr-2" />
+                      Export as CycloneDX VEX
+                    </DropdownMenuItem>
+                  </>
+                )}
+                {onExportSbom && (
+                  <>
+                    <DropdownMenuItem onClick={() => onExportSbom("cyclonedx")} className="text-body-sm uppercase tracking-widest">
+                      <Boxes className="h-4 w-4 mr-2" />
+                      SBOM as CycloneDX JSON
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onExportSbom("cyclonedx-xml")} className="text-body-sm uppercase tracking-widest">
+                      <Boxes className="h-4 w-4 mr-2" />
+                      SBOM as CycloneDX XML
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onExportSbom("spdx")} className="text-body-sm uppercase tracking-widest">
+                      <Boxes className="h-4 w-4 mr-2" />
+                      SBOM as SPDX JSON
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
             <Button
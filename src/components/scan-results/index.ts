@@ -6,3 +6,4 @@ export { OsvResultsTab } from "./OsvResultsTab";
 export { DiveResultsTab } from "./DiveResultsTab";
 export { ScanSummaryCard } from "./ScanSummaryCard";
 export { RawScannerTabs } from "./RawScannerTabs";
+export { PolicyVerdictCard } from "./PolicyVerdictCard";
@@ -381,6 +381,12 @@ export function PrivateRepositoriesTab({
                                 repositoryTags[repo.id].map((tag: any) => (
                                   <SelectItem key={tag.name} value={tag.name}>
                                     {tag.name}
+                                    {tag.immutable && (
+                                      <span className="ml-2 text-xs text-muted-foreground">immutable</span>
+                                    )}
+                                    {tag.labels?.map((label: string) => (
+                                      <span key={label} className="ml-2 text-xs text-muted-foreground">{label}</span>
+                                    ))}
                                   </SelectItem>
                                 ))
                               ) : (
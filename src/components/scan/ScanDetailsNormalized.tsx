@@ -25,7 +25,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CveClassificationDialog } from "@/components/dialogs/cve-classification-dialog";
 import { VulnerabilityDetailModal } from "@/components/dialogs/VulnerabilityDetailModal";
 import { PackageDetailModal } from "@/components/dialogs/PackageDetailModal";
-import { VulnerabilitiesTab } from "./findings/VulnerabilitiesTab";
+import { VulnerabilityExceptionDialog } from "@/components/dialogs/vulnerability-exception-dialog";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { VulnerabilitiesTab, type ConfidenceFilter, type SlaFilter } from "./findings/VulnerabilitiesTab";
 import { PackagesTab } from "./findings/PackagesTab";
 import { ComplianceTab } from "./findings/ComplianceTab";
 import { EfficiencyTab } from "./findings/EfficiencyTab";
@@ -54,6 +56,8 @@ export function ScanDetailsNormalized({
   const [efficiencySearch, setEfficiencySearch] = useState("");
   const [severityFilter, setSeverityFilter] = useState("all");
   const [sourceFilter, setSourceFilter] = useState("all");
+  const [confidenceFilter, setConfidenceFilter] = useState<ConfidenceFilter>("all");
+  const [slaFilter, setSlaFilter] = useState<SlaFilter>("all");
   const [sortField, setSortField] = useState("severity");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [selectedCveId, setSelectedCveId] = useState<string>("");
@@ -63,6 +67,9 @@ export function ScanDetailsNormalized({
   const [vulnerabilityModalOpen, setVulnerabilityModalOpen] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<any>(null);
   const [packageModalOpen, setPackageModalOpen] = useState(false);
+  const [exceptionDefaults, setExceptionDefaults] = useState<{ imageId?: string; cveId?: string; packageName?: string }>({});
+  const [exceptionDialogOpen, setExceptionDialogOpen] = useState(false);
+  const { can } = useCurrentUser();
 
   // Fetch normalized findings
   useEffect(() => {
@@ -131,6 +138,10 @@ export function ScanDetailsNormalized({
     return <div className="p-4">No findings available</div>;
   }
 
+  // Count each vulnerability once, not once per scanner that reported it
+  const vulnerabilityTotal = findings.vulnerabilities?.unique?.total ?? findings.vulnerabilities?.total ?? 0;
+  const vulnerabilityBySeverity = findings.vulnerabilities?.unique?.bySeverity ?? findings.vulnerabilities?.bySeverity;
+
   // Filter out false positives if needed
   const filterFalsePositives = (items: any[]) => {
     if (showFalsePositives) return items;
@@ -146,9 +157,9 @@ export function ScanDetailsNormalized({
             <CardTitle className="text-caption uppercase tracking-widest text-muted-foreground/60">Vulnerabilities</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl tracking-tight text-foreground">{findings.vulnerabilities?.total || 0}</div>
+            <div className="text-2xl tracking-tight text-foreground">{vulnerabilityTotal}</div>
             <div className="flex gap-2 mt-2">
-              {findings.vulnerabilities?.bySeverity && Object.entries(findings.vulnerabilities.bySeverity).map(([sev, count]) => (
+              {vulnerabilityBySeverity && Object.entries(vulnerabilityBySeverity).map(([sev, count]) => (
                 (count as number) > 0 && (
                   <span key={sev} className="text-caption uppercase tracking-widest text-muted-foreground/50">
                     {sev}: {count as number}
@@ -232,7 +243,7 @@ export function ScanDetailsNormalized({
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="vulnerabilities" className="flex items-center gap-2">
             <Bug className="h-4 w-4" />
-            Vulnerabilities ({findings.vulnerabilities?.total || 0})
+            Vulnerabilities ({vulnerabilityTotal})
           </TabsTrigger>
           <TabsTrigger value="packages" className="flex items-center gap-2">
             <Package className="h-4 w-4" />
@@ -252,8 +263,13 @@ export function ScanDetailsNormalized({
         <TabsContent value="vulnerabilities">
           <VulnerabilitiesTab
             vulnerabilities={filterFalsePositives(findings.vulnerabilities?.findings || [])}
+            scannerCount={findings.vulnerabilities?.unique?.scannerCount || 1}
             vulnerabilitySearch={vulnerabilitySearch}
             onVulnerabilitySearchChange={setVulnerabilitySearch}
+            confidenceFilter={confidenceFilter}
+            onConfidenceFilterChange={setConfidenceFilter}
+            slaFilter={slaFilter}
+            onSlaFilterChange={setSlaFilter}
             sortField={sortField}
             sortOrder={sortOrder}
             onSortFieldChange={setSortField}
@@ -270,6 +286,10 @@ export function ScanDetailsNormalized({
               setSelectedPackageName(packageName);
               setClassificationDialogOpen(true);
             }}
+            onRequestExceptionClick={can("TRIAGER") ? (vuln) => {
+              setExceptionDefaults({ imageId: scanData?.image?.id, cveId: vuln.cveId, packageName: vuln.packageName });
+              setExceptionDialogOpen(true);
+            } : undefined}
           />
         </TabsContent>
 
@@ -366,6 +386,13 @@ export function ScanDetailsNormalized({
           }
         }}
       />
+
+      <VulnerabilityExceptionDialog
+        open={exceptionDialogOpen}
+        onOpenChange={setExceptionDialogOpen}
+        onSaved={fetchFindings}
+        defaults={exceptionDefaults}
+      />
     </div>
   );
 }
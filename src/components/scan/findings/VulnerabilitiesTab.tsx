@@ -7,6 +7,7 @@ import {
   ArrowDownAZ,
   Info,
   MessageSquare,
+  ShieldOff,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -18,6 +19,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -27,12 +35,26 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { VulnerabilityUrlMenu } from "@/components/shared/vulnerability-url-menu";
-import { getSeverityCssClass } from "@/lib/utils/severity-utils";
+import { SlaBadge } from "@/components/shared/sla-badge";
+import { getSeverityCssClass, getSeverityWeight } from "@/lib/utils/severity-utils";
+import { formatExceptionLabel } from "@/lib/exceptions/rules";
+import { formatVexJustification, formatVexLabel, isSuppressingVexStatus } from "@/lib/vex/rules";
+import { getSlaStatus, type SlaStatus } from "@/lib/sla/rules";
+
+export type ConfidenceFilter = "all" | "unanimous" | "multiple" | "single";
+
+export type SlaFilter = "all" | SlaStatus;
 
 interface VulnerabilitiesTabProps {
   vulnerabilities: any[];
+  // Vulnerability scanners that ran, for findings without a stored correlation
+  scannerCount: number;
   vulnerabilitySearch: string;
   onVulnerabilitySearchChange: (value: string) => void;
+  confidenceFilter: ConfidenceFilter;
+  onConfidenceFilterChange: (value: ConfidenceFilter) => void;
+  slaFilter: SlaFilter;
+  onSlaFilterChange: (value: SlaFilter) => void;
   sortField: string;
   sortOrder: "asc" | "desc";
   onSortFieldChange: (field: string) => void;
@@ -42,6 +64,64 @@ interface VulnerabilitiesTabProps {
   getSourceBadge: (source: string) => React.ReactNode;
   onVulnerabilityClick: (vuln: any) => void;
   onClassifyClick: (cveId: string, packageName: string) => void;
+  // Shown to users who may request exceptions
+  onRequestExceptionClick?: (vuln: any) => void;
+}
+
+/**
+ * Collapse the per-scanner findings into one row per vulnerability and
+ * package, keeping the most severe report and the scanners that agree on it.
+ */
+function groupByCorrelation(items: any[], scannerCount: number) {
+  const groups = new Map<string, any[]>();
+  for (const item of items) {
+    const key = item.correlationKey ?? `${item.cveId}|${item.packageName}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return [...groups.entries()].map(([key, findings]) => {
+    const primary = findings.reduce((best, finding) =>
+      getSeverityWeight(finding.severity) > getSeverityWeight(best.severity) ? finding : best
+    );
+    const sources = [...new Set<string>(findings.map(finding => finding.source))].sort();
+    // Show the CVE rather than a GHSA alias when a scanner reported it
+    const canonicalId = key.slice(0, key.indexOf('|')).toUpperCase();
+    const correlation = primary.correlation;
+    return {
+      ...primary,
+      cveId: findings.find(finding => finding.cveId?.toUpperCase() === canonicalId)?.cveId ?? primary.cveId,
+      correlationKey: key,
+      cvssScore: Math.max(...findings.map(finding => finding.cvssScore ?? 0)) || primary.cvssScore,
+      fixedVersion: primary.fixedVersion ?? findings.find(finding => finding.fixedVersion)?.fixedVersion,
+      sources,
+      sourceCount: correlation?.sourceCount ?? sources.length,
+      scannerCount: correlation?.scannerCount ?? Math.max(scannerCount, sources.length),
+      exception: findings.find(finding => finding.exception)?.exception ?? null,
+      vex: findings.find(finding => finding.vex)?.vex ?? null,
+      sla: primary.sla ?? null,
+      // Deadline of findings that still count, for sorting and filtering
+      slaDueAt: primary.sla && !primary.sla.resolvedAt && !primary.sla.suppressed ? primary.sla.dueAt : null,
+      findings,
+    };
+  });
+}
+
+function filterByConfidence(items: any[], filter: ConfidenceFilter) {
+  switch (filter) {
+    case "unanimous":
+      return items.filter(item => item.sourceCount >= item.scannerCount);
+    case "multiple":
+      return items.filter(item => item.sourceCount > 1);
+    case "single":
+      return items.filter(item => item.sourceCount === 1);
+    default:
+      return items;
+  }
+}
+
+function filterBySla(items: any[], filter: SlaFilter) {
+  if (filter === "all") return items;
+  return items.filter(item => getSlaStatus(item.slaDueAt) === filter);
 }
 
 function filterVulnerabilities(items: any[], search: string) {
@@ -78,6 +158,12 @@ function sortFindings(items: any[], field: string, sortOrder: "asc" | "desc") {
       bVal = bVal || 0;
     }
 
+    // No deadline sorts after every deadline
+    if (field === 'slaDueAt') {
+      aVal = aVal ? new Date(aVal).getTime() : Number.MAX_SAFE_INTEGER;
+      bVal = bVal ? new Date(bVal).getTime() : Number.MAX_SAFE_INTEGER;
+    }
+
     if (sortOrder === 'asc') {
       return aVal > bVal ? 1 : -1;
     } else {
@@ -96,8 +182,13 @@ function getSeverityBadge(severity: string) {
 
 export function VulnerabilitiesTab({
   vulnerabilities,
+  scannerCount,
   vulnerabilitySearch,
   onVulnerabilitySearchChange,
+  confidenceFilter,
+  onConfidenceFilterChange,
+  slaFilter,
+  onSlaFilterChange,
   sortField,
   sortOrder,
   onSortFieldChange,
@@ -107,6 +198,7 @@ export function VulnerabilitiesTab({
   getSourceBadge,
   onVulnerabilityClick,
   onClassifyClick,
+  onRequestExceptionClick,
 }: VulnerabilitiesTabProps) {
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -116,6 +208,13 @@ export function VulnerabilitiesTab({
     }
   };
 
+  const grouped = groupByCorrelation(vulnerabilities || [], scannerCount);
+  const rows = sortFindings(
+    filterBySla(filterByConfidence(filterVulnerabilities(grouped, vulnerabilitySearch), confidenceFilter), slaFilter),
+    sortField,
+    sortOrder
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -123,17 +222,41 @@ export function VulnerabilitiesTab({
           <div>
             <CardTitle>Vulnerability Findings</CardTitle>
             <CardDescription>
-              Security vulnerabilities detected by scanners
+              {grouped.length} unique vulnerabilities from {vulnerabilities?.length || 0} scanner findings
             </CardDescription>
           </div>
-          <div className="relative w-64">
-            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search vulnerabilities..."
-              value={vulnerabilitySearch}
-              onChange={(e) => onVulnerabilitySearchChange(e.target.value)}
-              className="pl-8"
-            />
+          <div className="flex items-center gap-2">
+            <Select value={confidenceFilter} onValueChange={(value) => onConfidenceFilterChange(value as ConfidenceFilter)}>
+              <SelectTrigger className="w-[190px]">
+                <SelectValue placeholder="Confidence" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Confidence</SelectItem>
+                <SelectItem value="unanimous">Found by All Scanners</SelectItem>
+                <SelectItem value="multiple">Found by 2+ Scanners</SelectItem>
+                <SelectItem value="single">Single Scanner Only</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={slaFilter} onValueChange={(value) => onSlaFilterChange(value as SlaFilter)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="SLA" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any SLA</SelectItem>
+                <SelectItem value="OVERDUE">Overdue</SelectItem>
+                <SelectItem value="DUE_SOON">Due Within 7 Days</SelectItem>
+                <SelectItem value="ON_TRACK">On Track</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="relative w-64">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search vulnerabilities..."
+                value={vulnerabilitySearch}
+                onChange={(e) => onVulnerabilitySearchChange(e.target.value)}
+                className="pl-8"
+              />
+            </div>
           </div>
         </div>
       </CardHeader>
@@ -160,7 +283,7 @@ export function VulnerabilitiesTab({
                   sortOrder === 'asc' ? <ArrowUpAZ className="inline h-4 w-4 ml-1" /> : <ArrowDownAZ className="inline h-4 w-4 ml-1" />
                 )}
               </TableHead>
-              <TableHead>Source</TableHead>
+              <TableHead>Found By</TableHead>
               <TableHead
                 className="cursor-pointer"
                 onClick={() => handleSort('cvssScore')}
@@ -171,16 +294,25 @@ export function VulnerabilitiesTab({
                 )}
               </TableHead>
               <TableHead>Fixed Version</TableHead>
+              <TableHead
+                className="cursor-pointer"
+                onClick={() => handleSort('slaDueAt')}
+              >
+                SLA
+                {sortField === 'slaDueAt' && (
+                  sortOrder === 'asc' ? <ArrowUpAZ className="inline h-4 w-4 ml-1" /> : <ArrowDownAZ className="inline h-4 w-4 ml-1" />
+                )}
+              </TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortFindings(filterVulnerabilities(vulnerabilities, vulnerabilitySearch), sortField, sortOrder).map((vuln: any) => {
+            {rows.map((vuln: any) => {
               const comment = getComment(vuln.cveId);
               return (
                 <TableRow
-                  key={`${vuln.id}-${vuln.source}`}
-                  className={`${isFalsePositive(vuln.cveId) ? 'opacity-50' : ''} cursor-pointer hover:bg-white/5`}
+                  key={vuln.correlationKey}
+                  className={`${isFalsePositive(vuln.cveId) || vuln.exception || (vuln.vex && isSuppressingVexStatus(vuln.vex.status)) ? 'opacity-50' : ''} cursor-pointer hover:bg-white/5`}
                   onClick={() => onVulnerabilityClick(vuln)}
                 >
                   <TableCell>
@@ -190,6 +322,20 @@ export function VulnerabilitiesTab({
                         {isFalsePositive(vuln.cveId) && (
                           <Badge variant="outline" className="text-xs">FP</Badge>
                         )}
+                        {vuln.exception && (
+                          <Badge variant="outline" className="text-xs" title={vuln.exception.reason}>
+                            {formatExceptionLabel(vuln.exception)}
+                          </Badge>
+                        )}
+                        {vuln.vex && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            title={vuln.vex.impactStatement || (vuln.vex.justification ? formatVexJustification(vuln.vex.justification) : undefined)}
+                          >
+                            {formatVexLabel(vuln.vex)}
+                          </Badge>
+                        )}
                       </div>
                       {comment && (
                         <div className="flex items-start gap-1 mt-1">
@@ -206,11 +352,30 @@ export function VulnerabilitiesTab({
                     )}
                   </TableCell>
                   <TableCell>{getSeverityBadge(vuln.severity)}</TableCell>
-                  <TableCell>{getSourceBadge(vuln.source)}</TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap gap-1">
+                        {vuln.sources.map((source: string) => (
+                          <React.Fragment key={source}>{getSourceBadge(source)}</React.Fragment>
+                        ))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        found by {vuln.sourceCount}/{vuln.scannerCount} scanners
+                      </div>
+                    </div>
+                  </TableCell>
                   <TableCell>{vuln.cvssScore?.toFixed(1) || '-'}</TableCell>
                   <TableCell className="font-mono text-sm text-green-600">
                     {vuln.fixedVersion || '-'}
                   </TableCell>
+                  <TableCell>
+                    <SlaBadge
+                      dueAt={vuln.sla?.dueAt}
+                      firstSeenAt={vuln.sla?.firstSeenAt}
+                      resolvedAt={vuln.sla?.resolvedAt}
+                      suppressed={vuln.sla?.suppressed}
+                    />
+                  </TableCell>
                   <TableCell onClick={(e) => e.stopPropagation()}>
                     <div className="flex gap-2">
                       <VulnerabilityUrlMenu
@@ -227,6 +392,19 @@ export function VulnerabilitiesTab({
                       >
                         <Info className="h-4 w-4" />
                       </Button>
+                      {onRequestExceptionClick && !vuln.exception && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Request exception"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRequestExceptionClick(vuln);
+                          }}
+                        >
+                          <ShieldOff className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
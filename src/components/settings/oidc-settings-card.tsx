@@ -0,0 +1,375 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { USER_ROLES } from "@/lib/auth/roles";
+
+interface RoleMapping {
+  group: string;
+  role: string;
+}
+
+interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecretSet: boolean;
+  clientSecretFromEnv: boolean;
+  scopes: string;
+  groupsClaim: string;
+  usernameClaim: string;
+  roleMappings: RoleMapping[];
+  defaultRole: string | null;
+  autoProvision: boolean;
+  redirectUri: string;
+}
+
+const NO_DEFAULT_ROLE = "none";
+
+/**
+ * Admin-only card for configuring OpenID Connect single sign-on. Renders
+ * nothing for users who cannot read the settings.
+ */
+export function OidcSettingsCard() {
+  const [settings, setSettings] = React.useState<OidcSettings | null>(null);
+  const [clientSecret, setClientSecret] = React.useState("");
+  const [dirty, setDirty] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [testing, setTesting] = React.useState(false);
+
+  React.useEffect(() => {
+    fetch("/api/settings/oidc")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setSettings(data))
+      .catch(() => setSettings(null));
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  function update<K extends keyof OidcSettings>(key: K, value: OidcSettings[K]) {
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev));
+    setDirty(true);
+  }
+
+  function updateMapping(index: number, changes: Partial<RoleMapping>) {
+    update(
+      "roleMappings",
+      settings!.roleMappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping))
+    );
+  }
+
+  async function save() {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/oidc", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled: settings.enabled,
+          issuer: settings.issuer,
+          clientId: settings.clientId,
+          ...(clientSecret ? { clientSecret } : {}),
+          scopes: settings.scopes,
+          groupsClaim: settings.groupsClaim,
+          usernameClaim: settings.usernameClaim,
+          roleMappings: settings.roleMappings.filter((m) => m.group.trim()),
+          defaultRole: settings.defaultRole,
+          autoProvision: settings.autoProvision,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        toast.error(err.error || "Failed to save single sign-on settings");
+        return;
+      }
+      setSettings(await res.json());
+      setClientSecret("");
+      setDirty(false);
+      toast.success("Single sign-on settings saved");
+    } catch {
+      toast.error("Failed to save single sign-on settings");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function clearSecret() {
+    const res = await fetch("/api/settings/oidc", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ clientSecret: "" }),
+    });
+    if (res.ok) {
+      setSettings(await res.json());
+      toast.success("Client secret removed");
+    } else {
+      toast.error("Failed to remove client secret");
+    }
+  }
+
+  async function testDiscovery() {
+    if (!settings) return;
+    setTesting(true);
+    try {
+      const res = await fetch("/api/settings/oidc/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ issuer: settings.issuer }),
+      });
+      const result = await res.json();
+      if (res.ok && result.success) {
+        toast.success("Issuer discovery succeeded", { description: result.authorizationEndpoint });
+      } else {
+        toast.error(result.error || "Issuer discovery failed");
+      }
+    } catch {
+      toast.error("Issuer discovery failed");
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+              <KeyRound className="h-4 w-4 text-accent" />
+              Single Sign-On (OIDC)
+            </CardTitle>
+            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Sign users in through an OpenID Connect provider. Group claims are mapped to roles on every
+              login; unknown users are created automatically when auto-provisioning is on.
+            </CardDescription>
+          </div>
+          <Button onClick={save} disabled={saving || !dirty} className="rounded-none uppercase tracking-widest text-caption shrink-0">
+            {saving ? "Saving..." : "Save SSO"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="oidcEnabled" className="text-caption uppercase tracking-widest text-muted-foreground/60">Enable single sign-on</Label>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="oidcEnabled"
+              checked={settings.enabled}
+              onCheckedChange={(checked) => update("enabled", checked)}
+            />
+            <Badge variant={settings.enabled ? "default" : "secondary"}>
+              {settings.enabled ? "Enabled" : "Disabled"}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="oidcIssuer" className="text-caption uppercase tracking-widest text-muted-foreground/60">Issuer URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="oidcIssuer"
+                placeholder="https://login.example.com/realms/company"
+                value={settings.issuer}
+                onChange={(e) => update("issuer", e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={testDiscovery}
+                disabled={testing || !settings.issuer}
+                className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+              >
+                {testing ? "Testing..." : "Test"}
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidcClientId" className="text-caption uppercase tracking-widest text-muted-foreground/60">Client ID</Label>
+            <Input
+              id="oidcClientId"
+              value={settings.clientId}
+              onChange={(e) => update("clientId", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidcClientSecret" className="text-caption uppercase tracking-widest text-muted-foreground/60">Client secret</Label>
+            <div className="flex gap-2">
+              <Input
+                id="oidcClientSecret"
+                type="password"
+                autoComplete="off"
+                disabled={settings.clientSecretFromEnv}
+                placeholder={
+                  settings.clientSecretFromEnv
+                    ? "Set via OIDC_CLIENT_SECRET"
+                    : settings.clientSecretSet
+                      ? "Stored (leave blank to keep)"
+                      : "Optional for public clients"
+                }
+                value={clientSecret}
+                onChange={(e) => {
+                  setClientSecret(e.target.value);
+                  setDirty(true);
+                }}
+              />
+              {settings.clientSecretSet && !settings.clientSecretFromEnv && (
+                <Button
+                  variant="outline"
+                  title="Remove stored secret"
+                  onClick={clearSecret}
+                  className="rounded-none border-white/10 hover:bg-white/5"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidcScopes" className="text-caption uppercase tracking-widest text-muted-foreground/60">Scopes</Label>
+            <Input
+              id="oidcScopes"
+              value={settings.scopes}
+              onChange={(e) => update("scopes", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="oidcGroupsClaim" className="text-caption uppercase tracking-widest text-muted-foreground/60">Groups claim</Label>
+              <Input
+                id="oidcGroupsClaim"
+                value={settings.groupsClaim}
+                onChange={(e) => update("groupsClaim", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidcUsernameClaim" className="text-caption uppercase tracking-widest text-muted-foreground/60">Username claim</Label>
+              <Input
+                id="oidcUsernameClaim"
+                value={settings.usernameClaim}
+                onChange={(e) => update("usernameClaim", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Redirect URI</Label>
+            <p className="text-body-sm font-mono text-muted-foreground break-all">{settings.redirectUri}</p>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Register this URI with your identity provider
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Group to role mapping</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update("roleMappings", [...settings.roleMappings, { group: "", role: "VIEWER" }])}
+              className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption"
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add Mapping
+            </Button>
+          </div>
+          {settings.roleMappings.length === 0 ? (
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40">
+              No mappings. Every user gets the default role.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {settings.roleMappings.map((mapping, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    placeholder="Group name"
+                    aria-label="Group name"
+                    value={mapping.group}
+                    onChange={(e) => updateMapping(index, { group: e.target.value })}
+                  />
+                  <Select value={mapping.role} onValueChange={(role) => updateMapping(index, { role })}>
+                    <SelectTrigger className="w-40 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    title="Remove mapping"
+                    onClick={() => update("roleMappings", settings.roleMappings.filter((_, i) => i !== index))}
+                    className="rounded-none border-white/10 hover:bg-white/5 shrink-0"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+            A user in several mapped groups receives the highest role
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-caption uppercase tracking-widest text-muted-foreground/60">Default role</Label>
+            <Select
+              value={settings.defaultRole ?? NO_DEFAULT_ROLE}
+              onValueChange={(value) => update("defaultRole", value === NO_DEFAULT_ROLE ? null : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_DEFAULT_ROLE}>Deny access</SelectItem>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {role}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Used when no group matches
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="oidcAutoProvision" className="text-caption uppercase tracking-widest text-muted-foreground/60">Auto-provision users</Label>
+              <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                Create accounts on first login
+              </p>
+            </div>
+            <Switch
+              id="oidcAutoProvision"
+              checked={settings.autoProvision}
+              onCheckedChange={(checked) => update("autoProvision", checked)}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { FolderSync, Radar, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ThreatFeedName } from "@/lib/threat-feeds/rules";
+
+interface FeedImport {
+  source: string;
+  fileName: string | null;
+  feedVersion: string | null;
+  feedDate: string | null;
+  entryCount: number;
+  findingCount: number;
+  importedBy: string | null;
+  createdAt: string;
+}
+
+interface FeedStatus {
+  entries: number;
+  lastImport: FeedImport | null;
+}
+
+interface ThreatFeedStatus {
+  epss: FeedStatus;
+  kev: FeedStatus;
+  feedsDirectory: string | null;
+}
+
+const FEEDS: Array<{ feed: ThreatFeedName; title: string; description: string; accept: string }> = [
+  {
+    feed: "epss",
+    title: "EPSS Scores",
+    description: "FIRST epss_scores-YYYY-MM-DD.csv.gz",
+    accept: ".csv,.gz,text/csv,application/gzip",
+  },
+  {
+    feed: "kev",
+    title: "CISA KEV Catalog",
+    description: "known_exploited_vulnerabilities.json",
+    accept: ".json,application/json",
+  },
+];
+
+/**
+ * Status and manual upload of the EPSS and KEV feeds used to prioritize
+ * vulnerabilities. Files can also be dropped into THREAT_FEEDS_DIR.
+ */
+export function ThreatFeedsCard() {
+  const [status, setStatus] = React.useState<ThreatFeedStatus | null>(null);
+  const [importing, setImporting] = React.useState<ThreatFeedName | null>(null);
+  const [syncing, setSyncing] = React.useState(false);
+  const fileInputs = React.useRef<Partial<Record<ThreatFeedName, HTMLInputElement | null>>>({});
+
+  const fetchStatus = React.useCallback(() => {
+    fetch("/api/threat-feeds")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setStatus(data))
+      .catch(() => setStatus(null));
+  }, []);
+
+  React.useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  if (!status) {
+    return null;
+  }
+
+  async function upload(feed: ThreatFeedName, file: File) {
+    setImporting(feed);
+    try {
+      const res = await fetch(`/api/threat-feeds/${feed}?fileName=${encodeURIComponent(file.name)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Failed to import feed");
+        return;
+      }
+      toast.success(`Imported ${data.import.entryCount.toLocaleString()} entries`, {
+        description: `${data.import.findingCount.toLocaleString()} finding(s) enriched, ${data.imagesUpdated} image(s) re-scored`,
+      });
+      fetchStatus();
+    } catch {
+      toast.error("Failed to import feed");
+    } finally {
+      setImporting(null);
+      const input = fileInputs.current[feed];
+      if (input) input.value = "";
+    }
+  }
+
+  async function syncDirectory() {
+    setSyncing(true);
+    try {
+      const res = await fetch("/api/threat-feeds/sync", { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Failed to sync feed directory");
+        return;
+      }
+      const results: Array<{ status: string; error?: string }> = data.results;
+      const failed = results.filter((result) => result.status === "failed");
+      if (failed.length > 0) {
+        toast.error(failed[0].error || "Failed to import a feed file");
+      } else if (results.some((result) => result.status === "imported")) {
+        toast.success("Feed files imported");
+      } else {
+        toast.success("Feeds are up to date");
+      }
+      fetchStatus();
+    } catch {
+      toast.error("Failed to sync feed directory");
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  return (
+    <Card className="bg-surface-1 border-white/10 rounded-none">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-body-sm uppercase tracking-caps text-foreground">
+              <Radar className="h-4 w-4 text-accent" />
+              Threat Intelligence Feeds
+            </CardTitle>
+            <CardDescription className="text-caption uppercase tracking-widest text-muted-foreground/50">
+              Exploit probability (EPSS) and known exploitation (CISA KEV) weigh into risk scores and
+              vulnerability ordering. Upload downloaded files here or mount them into
+              {status.feedsDirectory ? ` ${status.feedsDirectory}` : " THREAT_FEEDS_DIR"}.
+            </CardDescription>
+          </div>
+          {status.feedsDirectory && (
+            <Button
+              variant="outline"
+              onClick={syncDirectory}
+              disabled={syncing}
+              className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption shrink-0"
+            >
+              <FolderSync className="mr-2 h-4 w-4" />
+              {syncing ? "Syncing..." : "Sync Now"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {FEEDS.map(({ feed, title, description, accept }) => {
+          const { entries, lastImport } = status[feed];
+          return (
+            <div key={feed} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-caption uppercase tracking-widest text-muted-foreground/60">{title}</span>
+                  <Badge variant={entries > 0 ? "default" : "secondary"}>
+                    {entries > 0 ? `${entries.toLocaleString()} entries` : "Not loaded"}
+                  </Badge>
+                </div>
+                <p className="text-caption uppercase tracking-widest text-muted-foreground/50">
+                  {lastImport
+                    ? `${lastImport.feedVersion ? `${lastImport.feedVersion} · ` : ""}${
+                        lastImport.feedDate ? `published ${new Date(lastImport.feedDate).toLocaleDateString()} · ` : ""
+                      }imported ${new Date(lastImport.createdAt).toLocaleString()} · ${lastImport.findingCount.toLocaleString()} findings matched`
+                    : description}
+                </p>
+              </div>
+              <input
+                ref={(element) => {
+                  fileInputs.current[feed] = element;
+                }}
+                type="file"
+                accept={accept}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) upload(feed, file);
+                }}
+              />
+              <Button
+                variant="outline"
+                disabled={importing !== null}
+                onClick={() => fileInputs.current[feed]?.click()}
+                className="rounded-none border-white/10 hover:bg-white/5 uppercase tracking-widest text-caption shrink-0"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {importing === feed ? "Importing..." : "Upload"}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
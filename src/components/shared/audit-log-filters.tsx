@@ -24,6 +24,7 @@ export interface AuditLogFilters {
   eventType?: string
   category?: string
   userIp?: string
+  username?: string
   resource?: string
   search?: string
   startDate?: string
@@ -154,6 +155,16 @@ export function AuditLogFilters({ filters, onFiltersChange }: AuditLogFiltersPro
         />
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="username" className="text-caption uppercase tracking-widest text-muted-foreground/60">User</Label>
+        <Input
+          id="username"
+          placeholder="Filter by username..."
+          value={filters.username || ""}
+          onChange={(e) => updateFilter("username", e.target.value)}
+        />
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="resource" className="text-caption uppercase tracking-widest text-muted-foreground/60">Resource</Label>
         <Input
@@ -3,3 +3,4 @@ export { VersionNotification } from './version-notification';
 export { AuditLogFilters } from './audit-log-filters';
 export { ScheduleScanForm } from './schedule-scan-form';
 export { BulkScanJobsList } from './bulk-scan-jobs-list';
+export { SlaBadge } from './sla-badge';
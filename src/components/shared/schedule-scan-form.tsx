@@ -48,6 +48,7 @@ export function ScheduleScanForm({
     description: scan?.description || "",
     enabled: scan?.enabled ?? true,
     schedule: scan?.schedule || "",
+    missedRunPolicy: scan?.missedRunPolicy || "RUN_ONCE",
     imageSelectionMode: scan?.imageSelectionMode || "SPECIFIC",
     imagePattern: scan?.imagePattern || "",
     selectedImageIds:
@@ -217,6 +218,29 @@ export function ScheduleScanForm({
             Leave empty for manual execution only
           </p>
         </div>
+
+        {formData.schedule && (
+          <div className="space-y-2">
+            <Label htmlFor="missedRunPolicy" className="text-caption uppercase tracking-widest text-muted-foreground/60">Missed Runs</Label>
+            <Select
+              value={formData.missedRunPolicy}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, missedRunPolicy: value }))
+              }
+            >
+              <SelectTrigger id="missedRunPolicy" className="rounded-none border-white/10 text-caption uppercase tracking-widest">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-overlay border-white/10 rounded-none">
+                <SelectItem value="RUN_ONCE">Run Once to Catch Up</SelectItem>
+                <SelectItem value="SKIP">Skip Until Next Run</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-caption uppercase tracking-widest text-muted-foreground/40 mt-1">
+              What to do when a run was missed, e.g. while the server was down
+            </p>
+          </div>
+        )}
       </div>
 
       <Card className="bg-surface-1 border-white/10 rounded-none">
@@ -0,0 +1,43 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { formatSlaDue, getSlaStatus } from "@/lib/sla/rules"
+
+interface SlaBadgeProps {
+  dueAt?: string | Date | null
+  firstSeenAt?: string | Date | null
+  resolvedAt?: string | Date | null
+  // Covered by a false positive, exception or VEX statement
+  suppressed?: boolean
+}
+
+/**
+ * Remediation deadline of a finding: highlighted once overdue or due within a
+ * week, muted when there is no SLA or it no longer counts.
+ */
+export function SlaBadge({ dueAt, firstSeenAt, resolvedAt, suppressed }: SlaBadgeProps) {
+  const title = [
+    firstSeenAt ? `First seen ${new Date(firstSeenAt).toLocaleDateString()}` : null,
+    dueAt ? `due ${new Date(dueAt).toLocaleDateString()}` : null,
+  ].filter(Boolean).join(", ") || undefined
+
+  if (resolvedAt) {
+    return <Badge variant="outline" title={title}>Resolved</Badge>
+  }
+  if (!dueAt) {
+    return <span className="text-body-sm text-muted-foreground/40">—</span>
+  }
+
+  const status = getSlaStatus(dueAt)
+  if (suppressed) {
+    return <span className="text-body-sm text-muted-foreground/40" title={title}>{formatSlaDue(dueAt)}</span>
+  }
+  return (
+    <Badge
+      variant={status === "OVERDUE" ? "destructive" : status === "DUE_SOON" ? "secondary" : "outline"}
+      title={title}
+    >
+      {formatSlaDue(dueAt)}
+    </Badge>
+  )
+}
@@ -10,3 +10,4 @@ export { useDockerImages } from './useDockerImages';
 export { useSwarmServices } from './useSwarmServices';
 export { useVersionCheck } from './useVersionCheck';
 export { useIsMobile } from './useMobile';
+export { useCurrentUser } from './useCurrentUser';
@@ -0,0 +1,79 @@
+/**
+ * Hook for the signed-in dashboard user and the instance's auth state
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+export type UserRole = 'VIEWER' | 'TRIAGER' | 'OPERATOR' | 'ADMIN';
+
+export interface CurrentUser {
+  id: string;
+  username: string;
+  displayName?: string | null;
+  email?: string | null;
+  authSource: 'LOCAL' | 'OIDC' | 'SERVICE';
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: string | null;
+}
+
+interface SessionState {
+  authEnabled: boolean;
+  setupRequired: boolean;
+  ssoEnabled: boolean;
+  user: CurrentUser | null;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  VIEWER: 0,
+  TRIAGER: 1,
+  OPERATOR: 2,
+  ADMIN: 3,
+};
+
+export function useCurrentUser() {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session', { cache: 'no-store' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setSession(await response.json());
+    } catch {
+      setSession(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const logout = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    window.location.href = '/login';
+  }, []);
+
+  /**
+   * Whether the current user may perform actions requiring `role`. Always
+   * true while authentication is not enforced (disabled or setup mode).
+   */
+  const can = useCallback((role: UserRole) => {
+    if (!session || !session.authEnabled || session.setupRequired) return true;
+    if (!session.user) return false;
+    return ROLE_RANK[session.user.role] >= ROLE_RANK[role];
+  }, [session]);
+
+  return {
+    user: session?.user ?? null,
+    authEnabled: session?.authEnabled ?? false,
+    setupRequired: session?.setupRequired ?? false,
+    ssoEnabled: session?.ssoEnabled ?? false,
+    loading,
+    refresh,
+    logout,
+    can,
+  };
+}
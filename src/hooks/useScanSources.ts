@@ -20,6 +20,8 @@ export interface RepositoryImage {
 
 export interface RepositoryTag {
   name: string
+  labels?: string[]
+  immutable?: boolean
 }
 
 export interface UseScanSourcesReturn {
@@ -16,8 +16,22 @@ export interface VulnerabilityData {
   fixedVersion?: string;
   publishedDate?: string;
   references?: string[];
+  epssScore?: number;
+  epssPercentile?: number;
+  knownExploited?: boolean;
+  kev?: {
+    dateAdded: string;
+    dueDate: string | null;
+    requiredAction: string | null;
+    knownRansomwareUse: boolean;
+  };
+  // Earliest remediation deadline among the images with the CVE open
+  slaDueAt?: string;
 }
 
+// Server-side ordering across all pages, see /api/vulnerabilities
+export type VulnerabilityPrioritization = 'severity' | 'cvss' | 'epss' | 'kev' | 'sla';
+
 interface PaginationState {
   total: number;
   limit: number;
@@ -33,6 +47,7 @@ interface VulnerabilityStats {
   totalFalsePositives: number;
   cvesWithFalsePositives: number;
   highRiskCves: number;
+  knownExploitedCves: number;
   fixablePercent: number;
 }
 
@@ -51,6 +66,9 @@ export function useVulnerabilityLibrary() {
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState('');
   const [severityFilter, setSeverityFilter] = useState<string>('');
+  const [exploitFilter, setExploitFilter] = useState<string>('');
+  const [slaFilter, setSlaFilter] = useState<string>('');
+  const [prioritization, setPrioritization] = useState<VulnerabilityPrioritization>('severity');
   const [sortField, setSortField] = useState<string>('severity');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [page, setPage] = useState(1);
@@ -75,6 +93,10 @@ export function useVulnerabilityLibrary() {
 
       if (search) params.append('search', search);
       if (severityFilter) params.append('severity', severityFilter);
+      if (exploitFilter === 'kev') params.append('kev', 'true');
+      else if (exploitFilter) params.append('minEpss', exploitFilter);
+      if (slaFilter) params.append('sla', slaFilter);
+      if (prioritization !== 'severity') params.append('sort', prioritization);
 
       const response = await fetch(`/api/vulnerabilities?${params}`);
       if (!response.ok) throw new Error('Failed to fetch vulnerabilities');
@@ -88,12 +110,12 @@ export function useVulnerabilityLibrary() {
     } finally {
       setLoading(false);
     }
-  }, [search, severityFilter, page, pageSize]);
+  }, [search, severityFilter, exploitFilter, slaFilter, prioritization, page, pageSize]);
 
-  // Reset to page 1 when search or filter changes
+  // Reset to page 1 when search, filter or ordering changes
   useEffect(() => {
     setPage(1);
-  }, [search, severityFilter]);
+  }, [search, severityFilter, exploitFilter, slaFilter, prioritization]);
 
   useEffect(() => {
     fetchVulnerabilities();
@@ -117,6 +139,19 @@ export function useVulnerabilityLibrary() {
           aValue = a.cvssScore || 0;
           bValue = b.cvssScore || 0;
           break;
+        case 'epssScore':
+          aValue = a.epssScore ?? -1;
+          bValue = b.epssScore ?? -1;
+          break;
+        case 'slaDueAt':
+          // No deadline sorts after every deadline
+          aValue = a.slaDueAt ? new Date(a.slaDueAt).getTime() : Number.MAX_SAFE_INTEGER;
+          bValue = b.slaDueAt ? new Date(b.slaDueAt).getTime() : Number.MAX_SAFE_INTEGER;
+          break;
+        case 'knownExploited':
+          aValue = a.knownExploited ? 1 : 0;
+          bValue = b.knownExploited ? 1 : 0;
+          break;
         case 'affectedImages':
           aValue = a.totalAffectedImages;
           bValue = b.totalAffectedImages;
@@ -141,6 +176,13 @@ export function useVulnerabilityLibrary() {
     });
   }, [vulnerabilities, sortField, sortOrder]);
 
+  // Keep the server's order for the new page until a column is sorted
+  const changePrioritization = useCallback((value: VulnerabilityPrioritization) => {
+    setPrioritization(value);
+    setSortField(value === 'severity' ? 'severity' : '');
+    setSortOrder('desc');
+  }, []);
+
   // Toggle sort field/order
   const handleSort = useCallback((field: string) => {
     setSortField((prev) => {
@@ -173,6 +215,9 @@ export function useVulnerabilityLibrary() {
     const highRiskCves = vulnerabilities.filter(
       (v) => (v.cvssScore || 0) >= 7.0
     ).length;
+    const knownExploitedCves = vulnerabilities.filter(
+      (v) => v.knownExploited
+    ).length;
 
     return {
       totalCves,
@@ -182,6 +227,7 @@ export function useVulnerabilityLibrary() {
       totalFalsePositives,
       cvesWithFalsePositives,
       highRiskCves,
+      knownExploitedCves,
       fixablePercent:
         totalCves > 0 ? Math.round((fixableCves / totalCves) * 100) : 0,
     };
@@ -213,6 +259,12 @@ export function useVulnerabilityLibrary() {
     setSearch,
     severityFilter,
     setSeverityFilter,
+    exploitFilter,
+    setExploitFilter,
+    slaFilter,
+    setSlaFilter,
+    prioritization,
+    setPrioritization: changePrioritization,
 
     // Actions
     refresh: fetchVulnerabilities,
@@ -2,7 +2,27 @@ export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     const { scheduleAutoCleanup } = await import('./lib/cleanup');
     scheduleAutoCleanup();
+    const { scheduledScanScheduler } = await import('./lib/scheduler/ScheduledScanScheduler');
+    scheduledScanScheduler.start();
+    const { exceptionExpiryScheduler } = await import('./lib/exceptions/expiry');
+    exceptionExpiryScheduler.start();
+    const { startThreatFeedScheduler } = await import('./lib/threat-feeds/sync');
+    startThreatFeedScheduler();
+    const { slaScheduler } = await import('./lib/sla/report');
+    slaScheduler.start();
+    const { importEnvironmentChannels } = await import('./lib/notification-routing/service');
+    await importEnvironmentChannels();
+    const { notificationScheduler } = await import('./lib/notification-routing/scheduler');
+    notificationScheduler.start();
+    const { agentLeaseScheduler } = await import('./lib/agent/leases');
+    agentLeaseScheduler.start();
+    const { startRegistrySyncScheduler } = await import('./lib/registry/sync/RegistrySyncService');
+    startRegistrySyncScheduler();
     await bootstrapAgentKey();
+    const { migrateRepositoryCredentials } = await import('./lib/registry/credentials');
+    await migrateRepositoryCredentials();
+    const { bootstrapAdminUser } = await import('./lib/auth/users');
+    await bootstrapAdminUser();
     await initializeDemoMode();
   }
 }
@@ -17,6 +37,16 @@ async function bootstrapAgentKey() {
 
     const hash = crypto.createHash('sha256').update(bootstrapKey).digest('hex');
 
+    // Seed each key only once, so rotating its key or deleting the agent on the
+    // Agents page is not undone at the next start
+    const seeded = await prisma.appSetting.findUnique({ where: { key: 'agentBootstrapKeyHash' } });
+    if (seeded?.value === hash) return;
+    await prisma.appSetting.upsert({
+      where: { key: 'agentBootstrapKeyHash' },
+      create: { key: 'agentBootstrapKeyHash', value: hash },
+      update: { value: hash },
+    });
+
     // Skip if an agent with this key already exists
     const existing = await prisma.agent.findFirst({ where: { apiKeyHash: hash } });
     if (existing) return;
@@ -9,14 +9,16 @@ export function generateApiKey(): { key: string; hash: string } {
   return { key: raw, hash };
 }
 
-export async function validateApiKey(key: string): Promise<{ id: string; name: string; capabilities: string[] } | null> {
+export async function validateApiKey(key: string): Promise<{ id: string; name: string; capabilities: string[]; draining: boolean } | null> {
   if (!key || !key.startsWith(API_KEY_PREFIX)) return null;
 
+  // Disabled (INACTIVE) agents are rejected, which revokes their key
+
   const hash = crypto.createHash('sha256').update(key).digest('hex');
 
   const agent = await prisma.agent.findFirst({
     where: { apiKeyHash: hash, status: { in: ['ACTIVE', 'DISCONNECTED'] } },
-    select: { id: true, name: true, capabilities: true },
+    select: { id: true, name: true, capabilities: true, draining: true },
   });
 
   return agent;
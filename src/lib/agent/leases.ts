@@ -0,0 +1,201 @@
+/**
+ * Leases on agent jobs.
+ *
+ * A job handed to an agent is held for AGENT_JOB_LEASE_SECONDS, and every
+ * heartbeat or status update of the agent renews it. Jobs whose lease ran
+ * out go back to the queue; once they used up AGENT_JOB_MAX_ATTEMPTS they
+ * fail along with their scan. Each hand-out is kept as an attempt, so an
+ * agent's history also shows the jobs it lost.
+ */
+import type { AgentJob, AgentJobAttemptOutcome, AgentJobStatus } from '@/generated/prisma';
+import { auditLogger } from '@/lib/audit-logger';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { notifyScanFailure } from '@/lib/notification-routing/events';
+import { prisma } from '@/lib/prisma';
+import { createIntervalScheduler } from '@/lib/scheduler/interval';
+import { scannerService } from '@/lib/scanner/ScannerService';
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Statuses of jobs an agent holds a lease on
+const HELD_STATUSES: AgentJobStatus[] = ['ASSIGNED', 'RUNNING'];
+
+export function leaseExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + config.agentJobLeaseSeconds * 1000);
+}
+
+async function closeAttempt(
+  jobId: string,
+  agentId: string | null,
+  outcome: AgentJobAttemptOutcome,
+  errorMessage: string | null,
+  now: Date,
+): Promise<void> {
+  await prisma.agentJobAttempt.updateMany({
+    where: { jobId, agentId, outcome: null },
+    data: { outcome, endedAt: now, errorMessage },
+  });
+}
+
+/**
+ * Fail a scan whose agent job failed, unless results were uploaded for it
+ * already, and notify about it.
+ */
+export async function failJobScan(scanId: string, error: string): Promise<void> {
+  const { count } = await prisma.scan.updateMany({
+    where: { id: scanId, status: { in: ['PENDING', 'RUNNING'] } },
+    data: { status: 'FAILED', errorMessage: error, finishedAt: new Date() },
+  });
+  if (count === 0) return;
+
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: { requestId: true, image: { select: { name: true, tag: true } } },
+  });
+  if (!scan) return;
+
+  scannerService.markScanComplete(scan.requestId, 'FAILED', error);
+  auditLogger.scanFailed('agent', `${scan.image.name}:${scan.image.tag}`, scanId, error).catch(() => {});
+  notifyScanFailure(scanId, error).catch(() => {});
+}
+
+/**
+ * Hand a pending job to the agent with a fresh lease. Returns false when
+ * another agent claimed it first.
+ */
+export async function claimJob(
+  job: Pick<AgentJob, 'id' | 'attempts'>,
+  agentId: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { count } = await prisma.agentJob.updateMany({
+    where: { id: job.id, status: 'PENDING', attempts: job.attempts },
+    data: {
+      agentId,
+      status: 'ASSIGNED',
+      assignedAt: now,
+      attempts: { increment: 1 },
+      leaseExpiresAt: leaseExpiry(now),
+    },
+  });
+  if (count === 0) return false;
+
+  await prisma.agentJobAttempt.create({
+    data: { jobId: job.id, agentId, attempt: job.attempts + 1, assignedAt: now },
+  });
+  return true;
+}
+
+/** Renew the leases of the agent's jobs, or of one of them. Returns the number renewed. */
+export async function renewLeases(agentId: string, now: Date = new Date(), jobId?: string): Promise<number> {
+  const { count } = await prisma.agentJob.updateMany({
+    where: { agentId, status: { in: HELD_STATUSES }, ...(jobId && { id: jobId }) },
+    data: { leaseExpiresAt: leaseExpiry(now) },
+  });
+  return count;
+}
+
+/** Mark a job the agent holds as running and renew its lease */
+export async function startJob(jobId: string, agentId: string, now: Date = new Date()): Promise<boolean> {
+  const { count } = await prisma.agentJob.updateMany({
+    where: { id: jobId, agentId, status: { in: HELD_STATUSES } },
+    data: { status: 'RUNNING', leaseExpiresAt: leaseExpiry(now) },
+  });
+  return count === 1;
+}
+
+/**
+ * Record the result the agent reported for a job it holds. A failed job
+ * also fails its scan. Returns false when the agent no longer holds the job.
+ */
+export async function finishJob(
+  job: Pick<AgentJob, 'id' | 'scanId'>,
+  agentId: string,
+  outcome: 'COMPLETED' | 'FAILED',
+  errorMessage: string | null,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { count } = await prisma.agentJob.updateMany({
+    where: { id: job.id, agentId, status: { in: HELD_STATUSES } },
+    data: { status: outcome, completedAt: now, errorMessage, leaseExpiresAt: null },
+  });
+  if (count === 0) return false;
+
+  await closeAttempt(job.id, agentId, outcome, errorMessage, now);
+  if (outcome === 'FAILED' && job.scanId) {
+    await failJobScan(job.scanId, errorMessage || 'The sensor agent reported the job as failed');
+  }
+  return true;
+}
+
+/**
+ * Hand an agent's jobs back to the queue so other agents pick them up.
+ * Jobs still waiting for it are always released; with `inFlight`, also the
+ * ones it holds, for agents that can no longer report back.
+ */
+export async function releaseAgentJobs(agentId: string, { inFlight = false } = {}): Promise<number> {
+  const statuses: AgentJobStatus[] = inFlight ? ['PENDING', ...HELD_STATUSES] : ['PENDING'];
+  const jobs = await prisma.agentJob.findMany({
+    where: { agentId, status: { in: statuses } },
+    select: { id: true },
+  });
+
+  const now = new Date();
+  let released = 0;
+  for (const job of jobs) {
+    const { count } = await prisma.agentJob.updateMany({
+      where: { id: job.id, agentId, status: { in: statuses } },
+      data: { agentId: null, status: 'PENDING', assignedAt: null, leaseExpiresAt: null },
+    });
+    if (count === 0) continue;
+    released++;
+    await closeAttempt(job.id, agentId, 'RELEASED', null, now);
+  }
+  return released;
+}
+
+/**
+ * Requeue jobs whose lease expired, or fail them and their scan after the
+ * last attempt. Only the caller that changes a job acts on it, so replicas
+ * can sweep at the same time.
+ */
+export async function requeueExpiredJobs(now: Date = new Date()): Promise<{ requeued: number; failed: number }> {
+  const expired = await prisma.agentJob.findMany({
+    where: { status: { in: HELD_STATUSES }, leaseExpiresAt: { lt: now } },
+    select: { id: true, agentId: true, scanId: true, attempts: true },
+  });
+
+  const reason = `Lease expired after ${config.agentJobLeaseSeconds}s without a heartbeat or status update`;
+  let requeued = 0;
+  let failed = 0;
+  for (const job of expired) {
+    const final = job.attempts >= config.agentJobMaxAttempts;
+    const error = `${reason} on attempt ${job.attempts} of ${config.agentJobMaxAttempts}`;
+
+    // Skipped when the agent renewed the lease or finished meanwhile
+    const { count } = await prisma.agentJob.updateMany({
+      where: { id: job.id, status: { in: HELD_STATUSES }, leaseExpiresAt: { lt: now } },
+      data: final
+        ? { status: 'FAILED', completedAt: now, errorMessage: error, leaseExpiresAt: null }
+        : { status: 'PENDING', agentId: null, assignedAt: null, leaseExpiresAt: null },
+    });
+    if (count === 0) continue;
+
+    await closeAttempt(job.id, job.agentId, 'EXPIRED', reason, now);
+    if (final) {
+      failed++;
+      if (job.scanId) await failJobScan(job.scanId, error);
+    } else {
+      requeued++;
+    }
+  }
+
+  if (requeued > 0) logger.info(`[AGENT] Requeued ${requeued} job(s) with an expired lease`);
+  if (failed > 0) logger.warn(`[AGENT] Failed ${failed} job(s) whose lease expired on the last attempt`);
+  return { requeued, failed };
+}
+
+export const agentLeaseScheduler = createIntervalScheduler('AGENT', TICK_INTERVAL_MS, async now => {
+  await requeueExpiredJobs(now);
+});
@@ -0,0 +1,31 @@
+import { prisma } from '@/lib/prisma';
+import { notificationService } from '@/lib/notifications';
+
+// Agents without a heartbeat for this long are marked disconnected
+export const AGENT_STALE_MS = 2 * 60 * 1000;
+
+/**
+ * Mark active agents that stopped sending heartbeats as disconnected and
+ * notify about each. Only the caller that changes the status notifies, so
+ * replicas and concurrent agent list requests do not repeat it.
+ */
+export async function markStaleAgents(now: Date = new Date()): Promise<number> {
+  const staleThreshold = new Date(now.getTime() - AGENT_STALE_MS);
+  const stale = await prisma.agent.findMany({
+    where: { status: 'ACTIVE', lastSeenAt: { lt: staleThreshold } },
+    select: { id: true, name: true, lastSeenAt: true },
+  });
+
+  let marked = 0;
+  for (const agent of stale) {
+    const { count } = await prisma.agent.updateMany({
+      where: { id: agent.id, status: 'ACTIVE', lastSeenAt: { lt: staleThreshold } },
+      data: { status: 'DISCONNECTED' },
+    });
+    if (count === 1) {
+      marked++;
+      await notificationService.notifyAgentOffline(agent.name, agent.lastSeenAt);
+    }
+  }
+  return marked;
+}
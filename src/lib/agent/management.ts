@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export const MAX_AGENT_NAME_LENGTH = 100;
+
+export interface AgentJobStats {
+  // Jobs handed to the agent, counting each attempt
+  total: number;
+  completed: number;
+  failed: number;
+  // Jobs it lost because their lease ran out
+  expired: number;
+  // Share of finished attempts that failed or expired, or null before any finished
+  failureRate: number | null;
+}
+
+/** Agent administration is only served to loopback and private network clients */
+export function isLocalRequest(request: NextRequest): boolean {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+  const ip = forwarded?.split(',')[0] || realIP || 'localhost';
+  const allowedIPs = ['127.0.0.1', '::1', 'localhost', '::ffff:127.0.0.1'];
+  if (allowedIPs.some((a) => ip === a)) return true;
+  if (ip.startsWith('10.')) return true;
+  if (ip.startsWith('172.')) {
+    const secondOctet = parseInt(ip.split('.')[1], 10);
+    if (secondOctet >= 16 && secondOctet <= 31) return true;
+  }
+  return false;
+}
+
+/** Job attempt counts of the given agents, also of those without any */
+export async function getAgentJobStats(agentIds: string[]): Promise<Map<string, AgentJobStats>> {
+  const groups = await prisma.agentJobAttempt.groupBy({
+    by: ['agentId', 'outcome'],
+    where: { agentId: { in: agentIds } },
+    _count: { _all: true },
+  });
+
+  const stats = new Map<string, AgentJobStats>(
+    agentIds.map((id) => [id, { total: 0, completed: 0, failed: 0, expired: 0, failureRate: null }]),
+  );
+  for (const group of groups) {
+    const entry = group.agentId && stats.get(group.agentId);
+    if (!entry) continue;
+    entry.total += group._count._all;
+    if (group.outcome === 'COMPLETED') entry.completed += group._count._all;
+    if (group.outcome === 'FAILED') entry.failed += group._count._all;
+    if (group.outcome === 'EXPIRED') entry.expired += group._count._all;
+  }
+  for (const entry of stats.values()) {
+    const finished = entry.completed + entry.failed + entry.expired;
+    entry.failureRate = finished > 0 ? (entry.failed + entry.expired) / finished : null;
+  }
+  return stats;
+}
@@ -496,6 +496,34 @@ export const openApiSpec = {
             },
             description: 'Filter by severity',
           },
+          {
+            name: 'sort',
+            in: 'query',
+            schema: {
+              type: 'string',
+              enum: ['severity', 'cvss', 'epss', 'kev', 'sla'],
+              default: 'severity',
+            },
+            description: 'Sort order; kev lists known exploited vulnerabilities first, then by EPSS score; sla lists the earliest remediation deadline first',
+          },
+          {
+            name: 'kev',
+            in: 'query',
+            schema: { type: 'boolean' },
+            description: 'Only vulnerabilities in the CISA KEV catalog',
+          },
+          {
+            name: 'minEpss',
+            in: 'query',
+            schema: { type: 'number', minimum: 0, maximum: 1 },
+            description: 'Only vulnerabilities with at least this EPSS probability',
+          },
+          {
+            name: 'sla',
+            in: 'query',
+            schema: { type: 'string', enum: ['overdue', 'due_soon', 'on_track'] },
+            description: 'Only vulnerabilities whose earliest remediation deadline has this status',
+          },
         ],
         responses: {
           '200': {
@@ -749,6 +777,23 @@ export const openApiSpec = {
             type: 'string',
             description: 'Affected package name',
           },
+          epssScore: {
+            type: 'number',
+            description: 'EPSS probability of exploitation in the next 30 days (0-1)',
+          },
+          epssPercentile: {
+            type: 'number',
+            description: 'EPSS percentile (0-1)',
+          },
+          knownExploited: {
+            type: 'boolean',
+            description: 'Listed in the CISA Known Exploited Vulnerabilities catalog',
+          },
+          slaDueAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Earliest remediation SLA deadline among the images with the vulnerability open',
+          },
         },
       },
     },
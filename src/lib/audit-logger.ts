@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest } from 'next/server';
 import { EventType, LogCategory, LogAction } from '@/generated/prisma';
+import { getRequestUser } from '@/lib/auth/context';
 
 export type AuditEventType = 
   | 'page_view'
@@ -13,6 +14,16 @@ export type AuditEventType =
   | 'bulk_scan_start'
   | 'user_login'
   | 'user_logout'
+  | 'user_change'
+  | 'api_token_change'
+  | 'policy_change'
+  | 'exception_change'
+  | 'vex_change'
+  | 'threat_feed_import'
+  | 'notification_change'
+  | 'agent_change'
+  | 'scan_rule_change'
+  | 'repository_webhook_change'
   | 'system_error';
 
 // Map our custom event types to Prisma EventType enum
@@ -28,6 +39,16 @@ function mapEventType(eventType: AuditEventType): EventType {
     case 'bulk_scan_start': return EventType.SCAN_START
     case 'user_login': return EventType.USER_LOGIN
     case 'user_logout': return EventType.SYSTEM_EVENT
+    case 'user_change': return EventType.SYSTEM_EVENT
+    case 'api_token_change': return EventType.SYSTEM_EVENT
+    case 'policy_change': return EventType.SYSTEM_EVENT
+    case 'exception_change': return EventType.SYSTEM_EVENT
+    case 'vex_change': return EventType.SYSTEM_EVENT
+    case 'threat_feed_import': return EventType.SYSTEM_EVENT
+    case 'notification_change': return EventType.SYSTEM_EVENT
+    case 'agent_change': return EventType.SYSTEM_EVENT
+    case 'scan_rule_change': return EventType.SYSTEM_EVENT
+    case 'repository_webhook_change': return EventType.SYSTEM_EVENT
     case 'system_error': return EventType.SYSTEM_EVENT
     default: return EventType.SYSTEM_EVENT
   }
@@ -47,9 +68,12 @@ function mapLogCategory(category: AuditCategory): LogCategory {
 // Map common action strings to Prisma LogAction enum
 function mapLogAction(action: string): LogAction {
   const actionLower = action.toLowerCase()
-  if (actionLower.includes('create')) return LogAction.CREATE
+  if (actionLower.includes('create') || actionLower.includes('import')) return LogAction.CREATE
   if (actionLower.includes('update')) return LogAction.UPDATE
-  if (actionLower.includes('delete')) return LogAction.DELETE
+  if (actionLower.includes('approve') || actionLower.includes('reject')) return LogAction.UPDATE
+  if (actionLower.includes('rotate')) return LogAction.UPDATE
+  if (actionLower.includes('enable') || actionLower.includes('disable')) return LogAction.UPDATE
+  if (actionLower.includes('delete') || actionLower.includes('revoke')) return LogAction.DELETE
   if (actionLower.includes('view') || actionLower.includes('read')) return LogAction.VIEW
   if (actionLower.includes('scan')) return LogAction.SCAN
   if (actionLower.includes('upload')) return LogAction.UPLOAD
@@ -67,6 +91,7 @@ export interface AuditLogData {
   userIp: string;
   userAgent?: string;
   userId?: string;
+  username?: string;
   resource?: string;
   action: string;
   details?: Record<string, any>;
@@ -128,6 +153,7 @@ export async function logAuditEvent(data: AuditLogData): Promise<void> {
         userIp: data.userIp,
         userAgent: data.userAgent,
         userId: data.userId,
+        username: data.username,
         resource: data.resource,
         action: data.action ? mapLogAction(data.action) : LogAction.VIEW,
         details: data.details,
@@ -141,7 +167,7 @@ export async function logAuditEvent(data: AuditLogData): Promise<void> {
 }
 
 /**
- * Log audit event from Next.js request
+ * Log audit event from Next.js request, attributed to the signed-in user
  */
 export async function logAuditEventFromRequest(
   request: NextRequest,
@@ -152,18 +178,24 @@ export async function logAuditEventFromRequest(
     resource?: string;
     details?: Record<string, any>;
     userId?: string;
+    username?: string;
   } = {}
 ): Promise<void> {
   const userIp = getUserIpFromRequest(request);
   const userAgent = request.headers.get('user-agent') || undefined;
-  const metadata = getRequestMetadata(request);
+  const user = getRequestUser(request);
+  const metadata = {
+    ...getRequestMetadata(request),
+    ...(user?.tokenId ? { apiTokenId: user.tokenId } : {}),
+  };
 
   await logAuditEvent({
     eventType,
     category,
     userIp,
     userAgent,
-    userId: options.userId,
+    userId: options.userId ?? user?.id,
+    username: options.username ?? user?.username,
     resource: options.resource,
     action,
     details: options.details,
@@ -311,6 +343,276 @@ export const auditLogger = {
     );
   },
 
+  /**
+   * Log a successful or failed sign-in
+   */
+  userLogin: async (
+    request: NextRequest,
+    username: string,
+    success: boolean,
+    userId?: string,
+    method: 'password' | 'oidc' = 'password',
+    reason?: string
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'user_login',
+      'security',
+      success ? `User login: ${username}` : `Failed user login: ${username}`,
+      {
+        resource: username,
+        details: { username, success, method, ...(reason ? { reason } : {}) },
+        userId,
+        username: success ? username : undefined,
+      }
+    );
+  },
+
+  /**
+   * Log sign-out
+   */
+  userLogout: async (request: NextRequest, username: string, userId: string) => {
+    await logAuditEventFromRequest(
+      request,
+      'user_logout',
+      'security',
+      `User logout: ${username}`,
+      { resource: username, userId, username }
+    );
+  },
+
+  /**
+   * Log creation, update or deletion of a user account
+   */
+  userChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'delete',
+    targetUsername: string,
+    changes?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'user_change',
+      'security',
+      `${action.charAt(0).toUpperCase()}${action.slice(1)}d user ${targetUsername}`,
+      {
+        resource: `user:${targetUsername}`,
+        details: { targetUsername, ...changes }
+      }
+    );
+  },
+
+  /**
+   * Log creation or revocation of an API token
+   */
+  apiTokenChange: async (
+    request: NextRequest,
+    action: 'create' | 'revoke',
+    tokenName: string,
+    ownerUsername: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'api_token_change',
+      'security',
+      action === 'create'
+        ? `Created API token "${tokenName}" for ${ownerUsername}`
+        : `Revoked API token "${tokenName}" of ${ownerUsername}`,
+      {
+        resource: `api_token:${tokenName}`,
+        details: { tokenName, owner: ownerUsername, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log creation, update or deletion of a security policy
+   */
+  policyChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'delete',
+    policyName: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'policy_change',
+      'security',
+      `${action.charAt(0).toUpperCase()}${action.slice(1)}d security policy "${policyName}"`,
+      {
+        resource: `policy:${policyName}`,
+        details: { policyName, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log a request, update, decision or deletion of a vulnerability exception
+   */
+  exceptionChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'approve' | 'reject' | 'delete',
+    match: string,
+    details?: Record<string, any>
+  ) => {
+    const verb = {
+      create: 'Created',
+      update: 'Updated',
+      approve: 'Approved',
+      reject: 'Rejected',
+      delete: 'Deleted',
+    }[action];
+    await logAuditEventFromRequest(
+      request,
+      'exception_change',
+      'security',
+      `${verb} vulnerability exception for ${match}`,
+      {
+        resource: `exception:${match}`,
+        details: { match, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log an import or deletion of a VEX document
+   */
+  vexChange: async (
+    request: NextRequest,
+    action: 'import' | 'delete',
+    source: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'vex_change',
+      'security',
+      `${action === 'import' ? 'Imported' : 'Deleted'} VEX document from ${source}`,
+      {
+        resource: `vex:${source}`,
+        details: { source, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log an import of an EPSS or KEV feed file
+   */
+  threatFeedImport: async (
+    request: NextRequest,
+    feed: string,
+    fileName: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'threat_feed_import',
+      'action',
+      `Imported ${feed.toUpperCase()} feed from ${fileName}`,
+      {
+        resource: `threat_feed:${feed}`,
+        details: { feed, fileName, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log creation, update or deletion of a notification channel or routing rule
+   */
+  notificationChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'delete',
+    kind: 'channel' | 'rule',
+    name: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'notification_change',
+      'action',
+      `${action.charAt(0).toUpperCase()}${action.slice(1)}d notification ${kind} "${name}"`,
+      {
+        resource: `notification_${kind}:${name}`,
+        details: { name, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log creation, update, key rotation or deletion of a scan agent
+   */
+  agentChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'rotate_key' | 'delete',
+    agentName: string,
+    details?: Record<string, any>
+  ) => {
+    const message = {
+      create: `Created agent "${agentName}"`,
+      update: `Updated agent "${agentName}"`,
+      rotate_key: `Rotated API key of agent "${agentName}"`,
+      delete: `Deleted agent "${agentName}"`,
+    }[action];
+    await logAuditEventFromRequest(
+      request,
+      'agent_change',
+      'security',
+      message,
+      {
+        resource: `agent:${agentName}`,
+        details: { agentName, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log creation, update or deletion of a repository's auto-scan rule
+   */
+  scanRuleChange: async (
+    request: NextRequest,
+    action: 'create' | 'update' | 'delete',
+    repositoryName: string,
+    ruleName: string,
+    details?: Record<string, any>
+  ) => {
+    await logAuditEventFromRequest(
+      request,
+      'scan_rule_change',
+      'action',
+      `${action.charAt(0).toUpperCase()}${action.slice(1)}d auto-scan rule "${ruleName}" of repository "${repositoryName}"`,
+      {
+        resource: `repository:${repositoryName}`,
+        details: { repositoryName, ruleName, ...details }
+      }
+    );
+  },
+
+  /**
+   * Log enabling, secret rotation or disabling of a repository's push webhook
+   */
+  repositoryWebhookChange: async (
+    request: NextRequest,
+    action: 'enable' | 'rotate_secret' | 'disable',
+    repositoryName: string
+  ) => {
+    const message = {
+      enable: `Enabled push webhook of repository "${repositoryName}"`,
+      rotate_secret: `Rotated push webhook secret of repository "${repositoryName}"`,
+      disable: `Disabled push webhook of repository "${repositoryName}"`,
+    }[action];
+    await logAuditEventFromRequest(
+      request,
+      'repository_webhook_change',
+      'security',
+      message,
+      {
+        resource: `repository:${repositoryName}`,
+        details: { repositoryName, action }
+      }
+    );
+  },
+
   /**
    * Log system errors
    */
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { AuthUser } from './context';
+
+export const API_TOKEN_PREFIX = 'hg_pat_';
+
+// Characters kept in tokenPrefix so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiTokenAuth {
+  user: AuthUser;
+  tokenId: string;
+  scopes: string[];
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Create a token for a user. The plaintext is only returned here; the database
+ * keeps a SHA-256 hash and a short display prefix.
+ */
+export async function createApiToken(data: {
+  userId: string;
+  name: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  createdBy?: string;
+}): Promise<{ token: string; id: string }> {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId: data.userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+      createdBy: data.createdBy,
+    },
+    select: { id: true },
+  });
+
+  return { token, id: apiToken.id };
+}
+
+/**
+ * Resolve the owner behind an API token, or null if the token is unknown,
+ * revoked, expired or belongs to a deactivated user.
+ */
+export async function validateApiToken(token: string, userIp?: string): Promise<ApiTokenAuth | null> {
+  if (!isApiToken(token)) return null;
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+  if (!apiToken || apiToken.revokedAt || !apiToken.user.isActive) return null;
+
+  const now = new Date();
+  if (apiToken.expiresAt && apiToken.expiresAt <= now) return null;
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now, lastUsedIp: userIp },
+    }).catch(() => {});
+  }
+
+  return {
+    user: {
+      id: apiToken.user.id,
+      username: apiToken.user.username,
+      role: apiToken.user.role,
+    },
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes,
+  };
+}
+
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdBy: true,
+  createdAt: true,
+  user: { select: { id: true, username: true, authSource: true } },
+} as const;
@@ -0,0 +1,40 @@
+import type { UserRole } from '@/generated/prisma';
+import { isUserRole } from './roles';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  // Set when the request was authenticated with an API token rather than a session
+  tokenId?: string;
+}
+
+// Set by the middleware after authenticating a request; incoming copies are always stripped
+export const USER_ID_HEADER = 'x-harborguard-user-id';
+export const USERNAME_HEADER = 'x-harborguard-username';
+export const USER_ROLE_HEADER = 'x-harborguard-user-role';
+export const API_TOKEN_ID_HEADER = 'x-harborguard-api-token-id';
+
+export const AUTH_HEADERS = [USER_ID_HEADER, USERNAME_HEADER, USER_ROLE_HEADER, API_TOKEN_ID_HEADER];
+
+export function setRequestUserHeaders(headers: Headers, user: AuthUser): void {
+  headers.set(USER_ID_HEADER, user.id);
+  headers.set(USERNAME_HEADER, user.username);
+  headers.set(USER_ROLE_HEADER, user.role);
+  if (user.tokenId) {
+    headers.set(API_TOKEN_ID_HEADER, user.tokenId);
+  }
+}
+
+/**
+ * The signed-in user (or API token owner) for an API request, as resolved by the middleware.
+ * Null when authentication is disabled or no users have been created yet.
+ */
+export function getRequestUser(request: Request): AuthUser | null {
+  const id = request.headers.get(USER_ID_HEADER);
+  const username = request.headers.get(USERNAME_HEADER);
+  const role = request.headers.get(USER_ROLE_HEADER);
+  if (!id || !username || !isUserRole(role)) return null;
+  const tokenId = request.headers.get(API_TOKEN_ID_HEADER);
+  return tokenId ? { id, username, role, tokenId } : { id, username, role };
+}
@@ -0,0 +1,9 @@
+export * from './api-tokens';
+export * from './context';
+export * from './oidc';
+export * from './password';
+export * from './redirects';
+export * from './roles';
+export * from './scopes';
+export * from './session';
+export * from './users';
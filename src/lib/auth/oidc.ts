@@ -0,0 +1,452 @@
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE).
+ *
+ * Provider settings live in the app_settings table so admins can manage them
+ * from the settings page. ID tokens are verified locally against the issuer's
+ * JWKS; group claims are mapped to HarborGuard roles on every login.
+ */
+
+import crypto from 'crypto';
+import type { UserRole } from '@/generated/prisma';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { hasRole, isUserRole } from './roles';
+import { USERNAME_PATTERN } from './users';
+
+export interface OidcRoleMapping {
+  group: string;
+  role: UserRole;
+}
+
+export interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  groupsClaim: string;
+  usernameClaim: string;
+  roleMappings: OidcRoleMapping[];
+  // Role for users whose groups match no mapping; null denies the login
+  defaultRole: UserRole | null;
+  autoProvision: boolean;
+}
+
+export const OIDC_SETTING_KEYS = {
+  enabled: 'oidcEnabled',
+  issuer: 'oidcIssuer',
+  clientId: 'oidcClientId',
+  clientSecret: 'oidcClientSecret',
+  scopes: 'oidcScopes',
+  groupsClaim: 'oidcGroupsClaim',
+  usernameClaim: 'oidcUsernameClaim',
+  roleMappings: 'oidcRoleMappings',
+  defaultRole: 'oidcDefaultRole',
+  autoProvision: 'oidcAutoProvision',
+} as const;
+
+const DEFAULT_SCOPES = 'openid profile email groups';
+
+export const OIDC_TRANSACTION_COOKIE = 'hg_oidc';
+export const OIDC_TRANSACTION_TTL_SECONDS = 10 * 60;
+
+const METADATA_CACHE_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const HTTP_TIMEOUT_MS = 10_000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcTransaction {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next: string;
+}
+
+export interface OidcLoginResult {
+  user: { id: string; username: string; role: UserRole };
+  created: boolean;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Load the OIDC configuration. The client secret may also come from
+ * OIDC_CLIENT_SECRET so it does not have to be stored in the database.
+ */
+export async function getOidcSettings(): Promise<OidcSettings> {
+  const rows = await prisma.appSetting.findMany({
+    where: { key: { in: Object.values(OIDC_SETTING_KEYS) } },
+  });
+  const values = new Map(rows.map(row => [row.key, row.value]));
+
+  let roleMappings: OidcRoleMapping[] = [];
+  try {
+    const parsed = JSON.parse(values.get(OIDC_SETTING_KEYS.roleMappings) || '[]');
+    if (Array.isArray(parsed)) {
+      roleMappings = parsed.filter(m => typeof m?.group === 'string' && isUserRole(m?.role));
+    }
+  } catch {
+    logger.warn('[OIDC] Ignoring unparseable role mapping setting');
+  }
+
+  const defaultRole = values.get(OIDC_SETTING_KEYS.defaultRole);
+
+  return {
+    enabled: values.get(OIDC_SETTING_KEYS.enabled) === 'true',
+    issuer: stripTrailingSlash(values.get(OIDC_SETTING_KEYS.issuer) || ''),
+    clientId: values.get(OIDC_SETTING_KEYS.clientId) || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || values.get(OIDC_SETTING_KEYS.clientSecret) || undefined,
+    scopes: values.get(OIDC_SETTING_KEYS.scopes) || DEFAULT_SCOPES,
+    groupsClaim: values.get(OIDC_SETTING_KEYS.groupsClaim) || 'groups',
+    usernameClaim: values.get(OIDC_SETTING_KEYS.usernameClaim) || 'preferred_username',
+    roleMappings,
+    defaultRole: isUserRole(defaultRole) ? defaultRole : null,
+    autoProvision: values.get(OIDC_SETTING_KEYS.autoProvision) !== 'false',
+  };
+}
+
+export function isOidcConfigured(settings: OidcSettings): boolean {
+  return settings.enabled && !!settings.issuer && !!settings.clientId;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init?.headers },
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  const text = await response.text();
+  let body: any;
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new Error(`${url} returned a non-JSON response (HTTP ${response.status})`);
+  }
+  if (!response.ok) {
+    const detail = body.error_description || body.error || `HTTP ${response.status}`;
+    throw new Error(`${url} failed: ${detail}`);
+  }
+  return body;
+}
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+export async function discoverProvider(issuer: string): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${issuer}/.well-known/openid-configuration`) as ProviderMetadata;
+  if (stripTrailingSlash(metadata.issuer || '') !== issuer) {
+    throw new Error(`Discovery document issuer "${metadata.issuer}" does not match configured issuer "${issuer}"`);
+  }
+  for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (!metadata[field]) {
+      throw new Error(`Discovery document is missing ${field}`);
+    }
+  }
+
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const findKey = (keys: any[]) => keys.find(key => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'));
+
+  let cached = jwksCache.get(jwksUri);
+  let jwk = cached && Date.now() - cached.fetchedAt < METADATA_CACHE_MS ? findKey(cached.keys) : undefined;
+
+  // Unknown kid usually means the provider rotated keys; refetch once
+  if (!jwk) {
+    const body = await fetchJson(jwksUri);
+    cached = { keys: Array.isArray(body.keys) ? body.keys : [], fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+    jwk = findKey(cached.keys);
+  }
+
+  if (!jwk) {
+    throw new Error(`No signing key${kid ? ` with kid "${kid}"` : ''} found in JWKS`);
+  }
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; options?: Partial<crypto.VerifyKeyObjectInput> }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  PS384: { hash: 'sha384', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 } },
+  PS512: { hash: 'sha512', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 } },
+  ES256: { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', options: { dsaEncoding: 'ieee-p1363' } },
+};
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verify an ID token's signature and standard claims; returns the claims.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  settings: OidcSettings,
+  metadata: ProviderMetadata,
+  expectedNonce: string
+): Promise<Record<string, any>> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('ID token is not a JWS compact serialization');
+  }
+
+  const header = decodeSegment(parts[0]);
+  const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm "${header.alg}"`);
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, header.kid);
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    { key, ...algorithm.options } as crypto.VerifyKeyObjectInput,
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!valid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeSegment(parts[1]);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (stripTrailingSlash(claims.iss || '') !== settings.issuer) {
+    throw new Error('ID token issuer does not match');
+  }
+  const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(settings.clientId)) {
+    throw new Error('ID token audience does not include this client');
+  }
+  if (audiences.length > 1 && claims.azp && claims.azp !== settings.clientId) {
+    throw new Error('ID token authorized party does not match');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('ID token was issued in the future');
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a login: returns the provider authorization URL and the transaction
+ * to keep in a short-lived cookie until the callback.
+ */
+export async function createAuthorizationRequest(
+  settings: OidcSettings,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; transaction: OidcTransaction }> {
+  const metadata = await discoverProvider(settings.issuer);
+  const transaction: OidcTransaction = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    next,
+  };
+  const codeChallenge = crypto.createHash('sha256').update(transaction.codeVerifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', settings.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', settings.scopes);
+  url.searchParams.set('state', transaction.state);
+  url.searchParams.set('nonce', transaction.nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), transaction };
+}
+
+/**
+ * Exchange the authorization code and return the verified ID token claims.
+ */
+export async function completeAuthorization(
+  settings: OidcSettings,
+  code: string,
+  redirectUri: string,
+  transaction: OidcTransaction
+): Promise<Record<string, any>> {
+  const metadata = await discoverProvider(settings.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: transaction.codeVerifier,
+    client_id: settings.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (settings.clientSecret) {
+    // client_secret_basic, the default token endpoint auth method
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (typeof tokens.id_token !== 'string') {
+    throw new Error('Token response did not include an ID token');
+  }
+
+  return verifyIdToken(tokens.id_token, settings, metadata, transaction.nonce);
+}
+
+function getClaim(claims: Record<string, any>, path: string): any {
+  // Dotted paths reach nested claims such as Keycloak's realm_access.roles
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), claims as any);
+}
+
+export function getGroups(claims: Record<string, any>, groupsClaim: string): string[] {
+  const value = getClaim(claims, groupsClaim);
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(/[,\s]+/).filter(Boolean);
+  return [];
+}
+
+/**
+ * Highest role granted by the user's groups, falling back to the default role.
+ */
+export function resolveRole(groups: string[], settings: OidcSettings): UserRole | null {
+  let role: UserRole | null = null;
+  for (const mapping of settings.roleMappings) {
+    if (groups.includes(mapping.group) && (!role || hasRole(mapping.role, role))) {
+      role = mapping.role;
+    }
+  }
+  return role ?? settings.defaultRole;
+}
+
+function deriveUsername(claims: Record<string, any>, settings: OidcSettings): string {
+  const candidate = [getClaim(claims, settings.usernameClaim), claims.preferred_username, claims.email, claims.sub]
+    .find(value => typeof value === 'string' && value.length > 0) as string;
+  const sanitized = candidate.replace(/[^a-zA-Z0-9._@-]/g, '-').slice(0, 64);
+  return USERNAME_PATTERN.test(sanitized) ? sanitized : `oidc-${crypto.createHash('sha256').update(claims.sub).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Find or provision the HarborGuard user for verified ID token claims and
+ * sync their role from the group mapping. Throws with a user-facing message
+ * when the login is not permitted.
+ */
+export async function provisionOidcUser(claims: Record<string, any>, settings: OidcSettings): Promise<OidcLoginResult> {
+  const externalId = `${settings.issuer}#${claims.sub}`;
+  const groups = getGroups(claims, settings.groupsClaim);
+  const role = resolveRole(groups, settings);
+
+  if (!role) {
+    throw new Error('Your account is not permitted to access HarborGuard (no group is mapped to a role)');
+  }
+
+  const profile = {
+    displayName: typeof claims.name === 'string' ? claims.name : null,
+    email: typeof claims.email === 'string' ? claims.email : null,
+  };
+
+  const existing = await prisma.user.findUnique({ where: { externalId } });
+  if (existing) {
+    if (!existing.isActive) {
+      throw new Error('Your HarborGuard account has been deactivated');
+    }
+    const user = await prisma.user.update({
+      where: { id: existing.id },
+      data: { role, ...profile, lastLoginAt: new Date() },
+    });
+    return { user, created: false };
+  }
+
+  if (!settings.autoProvision) {
+    throw new Error('No HarborGuard account exists for this identity and auto-provisioning is disabled');
+  }
+
+  let username = deriveUsername(claims, settings);
+  const taken = await prisma.user.findUnique({ where: { username } });
+  if (taken) {
+    if (taken.authSource !== 'OIDC') {
+      // Never attach an SSO identity to a local or service account of the same name
+      throw new Error(`The username "${username}" belongs to a ${taken.authSource === 'SERVICE' ? 'service' : 'local'} account`);
+    }
+    username = `${username.slice(0, 55)}-${crypto.createHash('sha256').update(externalId).digest('hex').slice(0, 8)}`;
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      username,
+      authSource: 'OIDC',
+      externalId,
+      role,
+      ...profile,
+      lastLoginAt: new Date(),
+    },
+  });
+  logger.info(`[OIDC] Provisioned user "${username}" with role ${role}`);
+  return { user, created: true };
+}
+
+export function encodeTransaction(transaction: OidcTransaction): string {
+  return Buffer.from(JSON.stringify(transaction)).toString('base64url');
+}
+
+export function decodeTransaction(value: string | undefined): OidcTransaction | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed.state === 'string' && typeof parsed.nonce === 'string' && typeof parsed.codeVerifier === 'string') {
+      return { state: parsed.state, nonce: parsed.nonce, codeVerifier: parsed.codeVerifier, next: parsed.next || '/' };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/**
+ * Public base URL used for the redirect URI. Behind a reverse proxy set
+ * NEXT_PUBLIC_APP_URL so it matches what is registered with the provider.
+ */
+export function getPublicBaseUrl(request: Request): string {
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    return stripTrailingSlash(process.env.NEXT_PUBLIC_APP_URL);
+  }
+  const url = new URL(request.url);
+  const proto = request.headers.get('x-forwarded-proto')?.split(',')[0].trim() || url.protocol.replace(':', '');
+  const host = request.headers.get('x-forwarded-host')?.split(',')[0].trim() || request.headers.get('host') || url.host;
+  return `${proto}://${host}`;
+}
+
+export function getOidcRedirectUri(request: Request): string {
+  return `${getPublicBaseUrl(request)}/api/auth/oidc/callback`;
+}
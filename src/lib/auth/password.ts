@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+const SCRYPT_KEYLEN = 64;
+const SCRYPT_PREFIX = 'scrypt';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEYLEN, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (both base64).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const derived = await scrypt(password, salt);
+  return `${SCRYPT_PREFIX}$${salt.toString('base64')}$${derived.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (!stored) {
+    // Still spend the hashing time so unknown usernames are not distinguishable by latency
+    await scrypt(password, crypto.randomBytes(16));
+    return false;
+  }
+
+  const [prefix, salt, hash] = stored.split('$');
+  if (prefix !== SCRYPT_PREFIX || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const derived = await scrypt(password, Buffer.from(salt, 'base64'));
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
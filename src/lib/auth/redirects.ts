@@ -0,0 +1,23 @@
+/**
+ * Where to send the browser after signing in. Used by the login page and the
+ * SSO routes, so this module must stay free of server-only imports.
+ */
+
+/**
+ * Accept only same-origin relative paths. Browsers treat `\` like `/`, so
+ * `/\evil.com` is as much a protocol-relative URL as `//evil.com`.
+ */
+export function safeNextPath(next: string | null | undefined): string {
+  if (!next || !/^\/(?![/\\])/.test(next) || /[\\\x00-\x1f]/.test(next)) return '/';
+  return next;
+}
+
+/**
+ * Resolve a post-login path against the app's origin, falling back to `/`
+ * when it would leave that origin.
+ */
+export function resolveNextUrl(next: string | null | undefined, baseUrl: string): URL {
+  const base = new URL(baseUrl);
+  const url = new URL(safeNextPath(next), base);
+  return url.origin === base.origin ? url : new URL('/', base);
+}
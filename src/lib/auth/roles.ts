@@ -0,0 +1,103 @@
+import type { UserRole } from '@/generated/prisma';
+
+export const USER_ROLES: UserRole[] = ['VIEWER', 'TRIAGER', 'OPERATOR', 'ADMIN'];
+
+// Each role includes every permission of the roles ranked below it
+const ROLE_RANK: Record<UserRole, number> = {
+  VIEWER: 0,
+  TRIAGER: 1,
+  OPERATOR: 2,
+  ADMIN: 3,
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  VIEWER: 'Read-only access to images, scans and reports',
+  TRIAGER: 'Viewer plus CVE classification, exception requests and VEX imports',
+  OPERATOR: 'Triager plus scans, patches and schedules',
+  ADMIN: 'Full access including repositories, agents, users and settings',
+};
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * How an API route is authorized:
+ * - `public`: no authentication
+ * - `self`: the route authenticates its own callers (agent keys, upload keys)
+ * - a role: a signed-in user with at least this role
+ */
+export type RouteAccess = 'public' | 'self' | UserRole;
+
+const PUBLIC_ROUTES = [
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/oidc/',
+  '/api/auth/session',
+  '/api/auth/setup',
+  '/api/health',
+  '/api/ready',
+  '/api/version',
+  '/api/openapi.json',
+];
+
+const SELF_AUTHENTICATED_ROUTES = [
+  '/api/agent/',
+  '/api/scans/upload',
+  // Registries prove they know the repository's webhook secret
+  '/api/webhooks/registry/',
+];
+
+interface AccessRule {
+  pattern: RegExp;
+  methods: 'read' | 'write' | 'any';
+  role: UserRole;
+}
+
+// First match wins; anything not listed needs VIEWER to read and ADMIN to write
+const ACCESS_RULES: AccessRule[] = [
+  // Administrative data is hidden from non-admins even for reads
+  { pattern: /^\/api\/(users|agents|admin|notifications)(\/|$)/, methods: 'any', role: 'ADMIN' },
+  { pattern: /^\/api\/settings\/oidc(\/|$)/, methods: 'any', role: 'ADMIN' },
+  // Everyone manages their own API tokens; the route limits non-admins to their own
+  { pattern: /^\/api\/tokens(\/|$)/, methods: 'any', role: 'VIEWER' },
+  { pattern: /^\/api\/audit-logs(\/|$)/, methods: 'read', role: 'ADMIN' },
+  // Client-side audit events (e.g. scan completion) are recorded for any signed-in user
+  { pattern: /^\/api\/audit-logs(\/|$)/, methods: 'write', role: 'VIEWER' },
+  { pattern: /\/cve-classifications(\/|$)/, methods: 'write', role: 'TRIAGER' },
+  // Triagers request exceptions; only admins approve or reject them
+  { pattern: /^\/api\/exceptions\/[^/]+\/decision$/, methods: 'write', role: 'ADMIN' },
+  { pattern: /^\/api\/exceptions(\/|$)/, methods: 'write', role: 'TRIAGER' },
+  // Imported VEX statements suppress findings like approved triage decisions
+  { pattern: /^\/api\/vex(\/|$)/, methods: 'write', role: 'TRIAGER' },
+  { pattern: /^\/api\/(scans|patches|scheduled-scans|images|docker|kubernetes|library|vulnerabilities|scanners)(\/|$)/, methods: 'write', role: 'OPERATOR' },
+  // Feed imports change the risk scores of every image
+  { pattern: /^\/api\/threat-feeds(\/|$)/, methods: 'write', role: 'ADMIN' },
+  { pattern: /^\/api\/(repositories|settings|config)(\/|$)/, methods: 'write', role: 'ADMIN' },
+];
+
+function isReadMethod(method: string): boolean {
+  return method === 'GET' || method === 'HEAD' || method === 'OPTIONS';
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return prefix.endsWith('/') ? pathname.startsWith(prefix) : pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export function getRouteAccess(pathname: string, method: string): RouteAccess {
+  if (PUBLIC_ROUTES.some(route => matchesPrefix(pathname, route))) return 'public';
+  if (SELF_AUTHENTICATED_ROUTES.some(route => matchesPrefix(pathname, route))) return 'self';
+
+  const read = isReadMethod(method);
+  for (const rule of ACCESS_RULES) {
+    if (rule.methods === 'read' && !read) continue;
+    if (rule.methods === 'write' && read) continue;
+    if (rule.pattern.test(pathname)) return rule.role;
+  }
+
+  return read ? 'VIEWER' : 'ADMIN';
+}
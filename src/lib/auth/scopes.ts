@@ -0,0 +1,75 @@
+/**
+ * Scopes limit what an API token may do on top of its owner's role: a request
+ * needs both the role required by the route and the matching scope.
+ */
+export const API_TOKEN_SCOPES = [
+  'scans:read',
+  'scans:write',
+  'images:read',
+  'images:write',
+  'reports:read',
+  'vulnerabilities:read',
+  'vulnerabilities:write',
+  'repositories:read',
+  'repositories:write',
+  'admin',
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'scans:read': 'Read scans, scan results and schedules',
+  'scans:write': 'Start, cancel and upload scans, run patches and schedules',
+  'images:read': 'Read images, Docker and Kubernetes inventory',
+  'images:write': 'Delete, rescan and export images',
+  'reports:read': 'Download scan reports (JSON, PDF, XLSX, SARIF, SBOM)',
+  'vulnerabilities:read': 'Read vulnerabilities, CVE classifications, exceptions, VEX documents, threat feed status and remediation SLAs',
+  'vulnerabilities:write': 'Classify CVEs, request or decide exceptions and import VEX and threat feeds',
+  'repositories:read': 'Read registry repositories',
+  'repositories:write': 'Add, update, test and sync repositories',
+  'admin': 'Users, agents, tokens, settings and audit logs',
+};
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+interface ScopeRule {
+  pattern: RegExp;
+  resource: string;
+}
+
+// First match wins; unmatched routes need the admin scope
+const SCOPE_RULES: ScopeRule[] = [
+  { pattern: /^\/api\/images\/name\/[^/]+\/scan\/[^/]+\/[^/]+/, resource: 'reports' },
+  { pattern: /^\/api\/patches\/[^/]+\/download$/, resource: 'reports' },
+  { pattern: /\/cve-classifications(\/|$)/, resource: 'vulnerabilities' },
+  { pattern: /^\/api\/(vulnerabilities|library|exceptions|vex|threat-feeds|sla)(\/|$)/, resource: 'vulnerabilities' },
+  { pattern: /^\/api\/(scans|scheduled-scans|patches|scanners)(\/|$)/, resource: 'scans' },
+  { pattern: /^\/api\/(images|docker|kubernetes)(\/|$)/, resource: 'images' },
+  { pattern: /^\/api\/repositories(\/|$)/, resource: 'repositories' },
+];
+
+/**
+ * The scope an API token needs for a request. Routes without a resource-specific
+ * scope (users, agents, tokens, settings, audit logs, ...) need `admin`.
+ */
+export function getRequiredScope(pathname: string, method: string): ApiTokenScope {
+  const read = method === 'GET' || method === 'HEAD' || method === 'OPTIONS';
+  // Reports are downloads only; other methods on those paths use the next matching rule
+  const rule = SCOPE_RULES.find(r => (read || r.resource !== 'reports') && r.pattern.test(pathname));
+  if (!rule) return 'admin';
+  return `${rule.resource}:${read ? 'read' : 'write'}` as ApiTokenScope;
+}
+
+/**
+ * Whether a token's scopes cover the required scope. `admin` covers everything
+ * and a write scope implies read access to the same resource.
+ */
+export function hasScope(scopes: string[], required: ApiTokenScope): boolean {
+  if (scopes.includes('admin') || scopes.includes(required)) return true;
+  if (required.endsWith(':read')) {
+    return scopes.includes(required.replace(/:read$/, ':write'));
+  }
+  return false;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { prisma } from '@/lib/prisma';
+import type { AuthUser } from './context';
+
+export const SESSION_COOKIE = 'hg_session';
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function createSession(
+  userId: string,
+  meta: { userIp?: string; userAgent?: string } = {}
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.sessionTtlHours * 60 * 60 * 1000);
+
+  await prisma.userSession.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt,
+      userIp: meta.userIp,
+      userAgent: meta.userAgent,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve the user behind a session token, or null if the session is unknown,
+ * expired or belongs to a deactivated user.
+ */
+export async function validateSession(token: string | undefined): Promise<AuthUser | null> {
+  if (!token) return null;
+
+  const session = await prisma.userSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+  if (!session) return null;
+
+  const now = new Date();
+  if (session.expiresAt <= now || !session.user.isActive) {
+    await prisma.userSession.delete({ where: { id: session.id } }).catch(() => {});
+    return null;
+  }
+
+  if (now.getTime() - session.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now },
+    }).catch(() => {});
+  }
+
+  return {
+    id: session.user.id,
+    username: session.user.username,
+    role: session.user.role,
+  };
+}
+
+export async function revokeSession(token: string | undefined): Promise<void> {
+  if (!token) return;
+  await prisma.userSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await prisma.userSession.deleteMany({ where: { userId } });
+}
+
+export function getSessionToken(request: NextRequest): string | undefined {
+  return request.cookies.get(SESSION_COOKIE)?.value;
+}
+
+// Self-hosted instances are often served over plain HTTP, so only mark the
+// cookie Secure when the request actually arrived over HTTPS
+export function isHttpsRequest(request: NextRequest): boolean {
+  const forwardedProto = request.headers.get('x-forwarded-proto')?.split(',')[0].trim();
+  return forwardedProto ? forwardedProto === 'https' : request.nextUrl.protocol === 'https:';
+}
+
+export function setSessionCookie(request: NextRequest, response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: isHttpsRequest(request),
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
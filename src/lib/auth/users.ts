@@ -0,0 +1,93 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { hashPassword, MIN_PASSWORD_LENGTH } from './password';
+
+let usersExist = false;
+let lastCheckedAt = 0;
+
+// While no users exist the check is repeated at most this often
+const NO_USERS_RECHECK_MS = 5_000;
+
+/**
+ * Whether any user account exists. Until the first account is created the
+ * instance runs in setup mode and requests are not authenticated.
+ */
+export async function hasUsers(): Promise<boolean> {
+  if (usersExist) return true;
+  if (Date.now() - lastCheckedAt < NO_USERS_RECHECK_MS) return false;
+
+  usersExist = (await prisma.user.count()) > 0;
+  lastCheckedAt = Date.now();
+  return usersExist;
+}
+
+export function markUsersExist(): void {
+  usersExist = true;
+}
+
+export const USERNAME_PATTERN = /^[a-zA-Z0-9._@-]+$/;
+export const USERNAME_PATTERN_MESSAGE = 'Username may only contain letters, digits, ".", "_", "@" and "-"';
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Whether removing admin rights from (or deleting) this user would leave no
+ * active admin who can sign in (service accounts cannot).
+ */
+export async function isLastActiveAdmin(userId: string): Promise<boolean> {
+  const admins = await prisma.user.findMany({
+    where: { role: 'ADMIN', isActive: true, authSource: { not: 'SERVICE' } },
+    select: { id: true },
+  });
+  return admins.length === 1 && admins[0].id === userId;
+}
+
+/**
+ * Create the initial admin from HG_ADMIN_USERNAME / HG_ADMIN_PASSWORD when the
+ * instance has no users yet.
+ */
+export async function bootstrapAdminUser(): Promise<void> {
+  const username = process.env.HG_ADMIN_USERNAME;
+  const password = process.env.HG_ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  try {
+    if (await prisma.user.count() > 0) return;
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      logger.warn(`[AUTH] HG_ADMIN_PASSWORD ignored: ${passwordError}`);
+      return;
+    }
+
+    await prisma.user.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+        role: 'ADMIN',
+      },
+    });
+    markUsersExist();
+    logger.info(`[AUTH] Created initial admin user "${username}" from HG_ADMIN_USERNAME`);
+  } catch (error) {
+    logger.warn('[AUTH] Failed to bootstrap admin user:', error);
+  }
+}
+
+export const userSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  email: true,
+  authSource: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
@@ -2,6 +2,7 @@ import { prisma } from '@/lib/prisma';
 import { scannerService } from '@/lib/scanner';
 import { config } from '@/lib/config';
 import type { ScanRequest } from '@/types';
+import { notifyImageDiscovered } from '@/lib/notification-routing/events';
 
 export interface BulkScanResult {
   batchId: string;
@@ -422,6 +423,7 @@ export class BulkScanService {
             },
             select: { id: true, name: true, tag: true, source: true, digest: true },
           });
+          notifyImageDiscovered(image.id).catch(() => {});
         }
         results.push(image);
       }
@@ -9,11 +9,20 @@ export interface AppConfig {
   scanTimeoutMinutes: number;
   enabledScanners: string[];
   
+  // Distributed agents
+  agentJobLeaseSeconds: number;
+  agentJobMaxAttempts: number;
+  
   // Logging
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   
   // Maintenance  
   cleanupOldScansDays: number;
+  schedulerEnabled: boolean;
+  
+  // Authentication
+  authEnabled: boolean;
+  sessionTtlHours: number;
   
   // Network
   port: number;
@@ -29,6 +38,9 @@ export interface AppConfig {
   appriseUrls?: string;
   notifyOnHighSeverity: boolean;
   
+  // Threat intelligence
+  threatFeedsDir?: string;
+  
   // Monitoring
   healthCheckEnabled: boolean;
   versionCheckEnabled: boolean;
@@ -49,11 +61,20 @@ function parseEnvConfig(): AppConfig {
       .split(',')
       .map(s => s.trim()),
     
+    // Distributed agents
+    agentJobLeaseSeconds: parseInt(process.env.AGENT_JOB_LEASE_SECONDS || '300'),
+    agentJobMaxAttempts: parseInt(process.env.AGENT_JOB_MAX_ATTEMPTS || '3'),
+    
     // Logging
     logLevel: (process.env.LOG_LEVEL?.toLowerCase() as any) || 'info',
     
     // Maintenance
     cleanupOldScansDays: parseInt(process.env.CLEANUP_OLD_SCANS_DAYS || '30'),
+    schedulerEnabled: process.env.SCHEDULER_ENABLED?.toLowerCase() !== 'false',
+    
+    // Authentication
+    authEnabled: process.env.AUTH_ENABLED?.toLowerCase() !== 'false',
+    sessionTtlHours: parseInt(process.env.SESSION_TTL_HOURS || '12'),
     
     // Network
     port: parseInt(process.env.PORT || '3000'),
@@ -69,6 +90,9 @@ function parseEnvConfig(): AppConfig {
     appriseUrls: process.env.APPRISE_URLS,
     notifyOnHighSeverity: process.env.NOTIFY_ON_HIGH_SEVERITY?.toLowerCase() === 'true',
     
+    // Threat intelligence
+    threatFeedsDir: process.env.THREAT_FEEDS_DIR,
+    
     // Monitoring
     healthCheckEnabled: process.env.HEALTH_CHECK_ENABLED?.toLowerCase() !== 'false',
     versionCheckEnabled: process.env.VERSION_CHECK_ENABLED?.toLowerCase() !== 'false',
@@ -93,6 +117,15 @@ function validateConfig(config: AppConfig): void {
     errors.push('SCAN_TIMEOUT_MINUTES must be between 5 and 180');
   }
   
+  // Validate agent job leases
+  if (isNaN(config.agentJobLeaseSeconds) || config.agentJobLeaseSeconds < 30 || config.agentJobLeaseSeconds > 3600) {
+    errors.push('AGENT_JOB_LEASE_SECONDS must be between 30 and 3600');
+  }
+  
+  if (isNaN(config.agentJobMaxAttempts) || config.agentJobMaxAttempts < 1 || config.agentJobMaxAttempts > 10) {
+    errors.push('AGENT_JOB_MAX_ATTEMPTS must be between 1 and 10');
+  }
+  
   // Validate log level
   if (!['debug', 'info', 'warn', 'error'].includes(config.logLevel)) {
     errors.push('LOG_LEVEL must be one of: debug, info, warn, error');
@@ -103,6 +136,11 @@ function validateConfig(config: AppConfig): void {
     errors.push('CLEANUP_OLD_SCANS_DAYS must be between 1 and 365');
   }
   
+  // Validate session lifetime
+  if (isNaN(config.sessionTtlHours) || config.sessionTtlHours < 1 || config.sessionTtlHours > 720) {
+    errors.push('SESSION_TTL_HOURS must be between 1 and 720');
+  }
+  
   // Validate port
   if (config.port < 1000 || config.port > 65535) {
     errors.push('PORT must be between 1000 and 65535');
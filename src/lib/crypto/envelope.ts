@@ -0,0 +1,167 @@
+/**
+ * Envelope encryption for secrets stored in the database.
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is in turn encrypted with the master key. The stored string records
+ * which master key was used, so values written under an older key can still be
+ * read while it is listed in HG_MASTER_KEY_PREVIOUS and re-encrypted later.
+ *
+ * Master keys are 32 random bytes, base64 or hex encoded, supplied through
+ * HG_MASTER_KEY or a file named by HG_MASTER_KEY_FILE:
+ *
+ *   openssl rand -base64 32
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from '@/lib/logger';
+
+const ENVELOPE_PREFIX = 'hgenc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface MasterKeyring {
+  current: MasterKey | null;
+  all: Map<string, MasterKey>;
+}
+
+let keyring: MasterKeyring | null = null;
+let plaintextWarningLogged = false;
+
+function parseMasterKey(value: string, source: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${source} must be ${KEY_LENGTH} bytes encoded as base64 or hex (e.g. "openssl rand -base64 32")`);
+  }
+
+  // The id only identifies the key; it reveals nothing usable about it
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function loadKeyring(): MasterKeyring {
+  let currentValue = process.env.HG_MASTER_KEY;
+  let currentSource = 'HG_MASTER_KEY';
+  if (!currentValue && process.env.HG_MASTER_KEY_FILE) {
+    currentSource = `HG_MASTER_KEY_FILE (${process.env.HG_MASTER_KEY_FILE})`;
+    currentValue = fs.readFileSync(process.env.HG_MASTER_KEY_FILE, 'utf8');
+  }
+
+  const current = currentValue ? parseMasterKey(currentValue, currentSource) : null;
+  const all = new Map<string, MasterKey>();
+  if (current) all.set(current.id, current);
+
+  (process.env.HG_MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .forEach((value, index) => {
+      const previous = parseMasterKey(value, `HG_MASTER_KEY_PREVIOUS entry ${index + 1}`);
+      if (!all.has(previous.id)) all.set(previous.id, previous);
+    });
+
+  return { current, all };
+}
+
+function getKeyring(): MasterKeyring {
+  if (!keyring) keyring = loadKeyring();
+  return keyring;
+}
+
+/**
+ * Drop the cached keys so the next call re-reads the environment.
+ */
+export function resetMasterKeys(): void {
+  keyring = null;
+}
+
+export function isMasterKeyConfigured(): boolean {
+  return getKeyring().current !== null;
+}
+
+/**
+ * Id of the current master key, or null when none is configured.
+ */
+export function getCurrentMasterKeyId(): string | null {
+  return getKeyring().current?.id ?? null;
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Id of the master key a stored value was encrypted with, or null for plaintext.
+ */
+export function getEncryptionKeyId(value: string | null | undefined): string | null {
+  if (!isEncrypted(value)) return null;
+  return value!.slice(ENVELOPE_PREFIX.length).split(':')[0] || null;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Encrypt a secret for storage. Without a master key the value is returned
+ * unchanged (and a warning is logged once), matching the behaviour of
+ * installations created before encryption existed.
+ */
+export function encryptSecret(plaintext: string): string {
+  if (!plaintext || isEncrypted(plaintext)) return plaintext;
+
+  const { current } = getKeyring();
+  if (!current) {
+    if (!plaintextWarningLogged) {
+      logger.warn('[CRYPTO] HG_MASTER_KEY is not set; secrets are stored unencrypted');
+      plaintextWarningLogged = true;
+    }
+    return plaintext;
+  }
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(current.key, dataKey);
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return `${ENVELOPE_PREFIX}${current.id}:${wrappedKey}:${payload}`;
+}
+
+/**
+ * Decrypt a stored secret. Plaintext values written before encryption was
+ * enabled are returned as is.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [keyId, wrappedKey, payload] = value.slice(ENVELOPE_PREFIX.length).split(':');
+  const masterKey = getKeyring().all.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Secret was encrypted with master key ${keyId}, which is not configured (set HG_MASTER_KEY or add it to HG_MASTER_KEY_PREVIOUS)`);
+  }
+
+  const dataKey = open(masterKey.key, wrappedKey);
+  return open(dataKey, payload).toString('utf8');
+}
@@ -0,0 +1,86 @@
+/**
+ * Expiry of vulnerability exceptions.
+ *
+ * Lookups already ignore exceptions past their expiry date; every instance
+ * also checks every fifteen minutes for approved exceptions that have expired,
+ * marks them EXPIRED, re-evaluates the latest scans of the images they
+ * covered and sends a notification.
+ */
+import type { VulnerabilityException } from '@/generated/prisma';
+import { logAuditEvent } from '@/lib/audit-logger';
+import { logger } from '@/lib/logger';
+import { notificationService } from '@/lib/notifications';
+import { reevaluateImages } from '@/lib/policy/reevaluate';
+import { prisma } from '@/lib/prisma';
+import { createIntervalScheduler } from '@/lib/scheduler/interval';
+import { describeExceptionMatch, exceptionAppliesTo } from './rules';
+import { EXCEPTION_IMAGE_SELECT, toExceptionTarget } from './service';
+
+const TICK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Re-evaluate policies and risk scores of the latest completed scan of every
+ * image the exceptions cover, after exceptions were approved, removed or
+ * expired. Returns the number of images refreshed.
+ */
+export async function refreshExceptionTargets(exceptions: VulnerabilityException[]): Promise<number> {
+  if (exceptions.length === 0) return 0;
+
+  const images = exceptions.every(exception => exception.scope === 'IMAGE')
+    ? await prisma.image.findMany({
+        where: { id: { in: exceptions.map(exception => exception.imageId!).filter(Boolean) } },
+        select: EXCEPTION_IMAGE_SELECT,
+      })
+    : await prisma.image.findMany({ select: EXCEPTION_IMAGE_SELECT });
+
+  const affected = images.filter(image => {
+    const target = toExceptionTarget(image);
+    return exceptions.some(exception => exceptionAppliesTo(exception, target));
+  });
+
+  await reevaluateImages(affected);
+
+  return affected.length;
+}
+
+/**
+ * Mark approved exceptions past their expiry date as expired, so the findings
+ * they covered count again, and notify about them. Returns the expired exceptions.
+ */
+export async function expireExceptions(now: Date = new Date()): Promise<VulnerabilityException[]> {
+  const due = await prisma.vulnerabilityException.findMany({
+    where: { status: 'APPROVED', expiresAt: { lte: now } },
+  });
+  if (due.length === 0) return [];
+
+  // Only the rows this call moved to EXPIRED, in case another replica got there first
+  const claimed: VulnerabilityException[] = [];
+  for (const exception of due) {
+    const { count } = await prisma.vulnerabilityException.updateMany({
+      where: { id: exception.id, status: 'APPROVED' },
+      data: { status: 'EXPIRED' },
+    });
+    if (count === 1) claimed.push({ ...exception, status: 'EXPIRED' });
+  }
+  if (claimed.length === 0) return [];
+
+  logger.info(`[EXCEPTIONS] ${claimed.length} exception(s) expired`);
+
+  await logAuditEvent({
+    eventType: 'exception_change',
+    category: 'security',
+    userIp: 'system',
+    resource: 'vulnerability_exceptions',
+    action: `Updated ${claimed.length} vulnerability exception(s) past their expiry date to expired`,
+    details: { expired: claimed.map(exception => ({ id: exception.id, match: describeExceptionMatch(exception) })) },
+  });
+
+  await notificationService.notifyExceptionsExpired(claimed.map(describeExceptionMatch));
+  await refreshExceptionTargets(claimed);
+
+  return claimed;
+}
+
+export const exceptionExpiryScheduler = createIntervalScheduler('EXCEPTIONS', TICK_INTERVAL_MS, async now => {
+  await expireExceptions(now);
+});
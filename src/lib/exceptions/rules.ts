@@ -0,0 +1,172 @@
+/**
+ * Vulnerability exceptions: time-boxed, approved risk acceptance for findings.
+ *
+ * An exception matches findings by CVE, package or both, within a scope (one
+ * image, an image name pattern, a repository or everything). Only approved,
+ * unexpired exceptions suppress findings. This module is free of database
+ * access so the API, the evaluators and the UI share the same definitions.
+ */
+import { z } from 'zod';
+import type { ExceptionJustification, ExceptionScope, ExceptionStatus } from '@/generated/prisma';
+
+export const EXCEPTION_SCOPES = ['IMAGE', 'IMAGE_PATTERN', 'REPOSITORY', 'GLOBAL'] as const;
+
+export const EXCEPTION_JUSTIFICATIONS = [
+  'FALSE_POSITIVE',
+  'NOT_AFFECTED',
+  'MITIGATED',
+  'RISK_ACCEPTED',
+  'NO_FIX_AVAILABLE',
+] as const;
+
+export const EXCEPTION_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'] as const;
+
+export const JUSTIFICATION_LABELS: Record<ExceptionJustification, string> = {
+  FALSE_POSITIVE: 'False positive',
+  NOT_AFFECTED: 'Not affected',
+  MITIGATED: 'Mitigated',
+  RISK_ACCEPTED: 'Risk accepted',
+  NO_FIX_AVAILABLE: 'No fix available',
+};
+
+export interface ExceptionMatcher {
+  scope: ExceptionScope;
+  imageId: string | null;
+  repositoryId: string | null;
+  imagePattern: string | null;
+  cveId: string | null;
+  packageName: string | null;
+}
+
+export interface ExceptionTarget {
+  id: string;
+  name: string;
+  tag: string;
+  repositoryIds: Set<string>;
+}
+
+export interface ExceptionFinding {
+  cveId: string;
+  packageName: string;
+  // Advisory ids the scanner reported for the same vulnerability
+  aliases?: string[];
+}
+
+/**
+ * Whether an exception's scope covers an image. Invalid patterns match nothing.
+ */
+export function exceptionAppliesTo(exception: ExceptionMatcher, target: ExceptionTarget): boolean {
+  switch (exception.scope) {
+    case 'GLOBAL':
+      return true;
+    case 'IMAGE':
+      return exception.imageId === target.id;
+    case 'REPOSITORY':
+      return !!exception.repositoryId && target.repositoryIds.has(exception.repositoryId);
+    case 'IMAGE_PATTERN':
+      if (!exception.imagePattern) return false;
+      try {
+        return new RegExp(exception.imagePattern).test(`${target.name}:${target.tag}`);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Whether an exception covers a finding. The CVE matches the finding's id or
+ * any alias; the package name is compared case-insensitively.
+ */
+export function exceptionMatchesFinding(exception: Pick<ExceptionMatcher, 'cveId' | 'packageName'>, finding: ExceptionFinding): boolean {
+  if (!exception.cveId && !exception.packageName) return false;
+  if (exception.cveId) {
+    const cveId = exception.cveId.toUpperCase();
+    const ids = [finding.cveId, ...(finding.aliases ?? [])].map(id => id.toUpperCase());
+    if (!ids.includes(cveId)) return false;
+  }
+  if (exception.packageName && exception.packageName.toLowerCase() !== finding.packageName.toLowerCase()) {
+    return false;
+  }
+  return true;
+}
+
+/** The first of the (already scoped) exceptions that covers the finding */
+export function findException<T extends Pick<ExceptionMatcher, 'cveId' | 'packageName'>>(
+  exceptions: T[],
+  finding: ExceptionFinding
+): T | undefined {
+  return exceptions.find(exception => exceptionMatchesFinding(exception, finding));
+}
+
+export function isExceptionActive(
+  exception: { status: ExceptionStatus; expiresAt: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  return exception.status === 'APPROVED' && (!exception.expiresAt || new Date(exception.expiresAt) > now);
+}
+
+/**
+ * Human-readable summary of what an exception matches, e.g. "CVE-2024-1234 in openssl".
+ */
+export function describeExceptionMatch(exception: Pick<ExceptionMatcher, 'cveId' | 'packageName'>): string {
+  if (exception.cveId && exception.packageName) return `${exception.cveId} in ${exception.packageName}`;
+  if (exception.cveId) return `${exception.cveId} in any package`;
+  return `Any vulnerability in ${exception.packageName}`;
+}
+
+/**
+ * Short label for a finding covered by an exception, e.g. "Risk accepted until 2026-12-31".
+ */
+export function formatExceptionLabel(exception: { justification: ExceptionJustification; expiresAt: Date | string | null }): string {
+  const label = JUSTIFICATION_LABELS[exception.justification];
+  return exception.expiresAt ? `${label} until ${new Date(exception.expiresAt).toISOString().slice(0, 10)}` : label;
+}
+
+/**
+ * Body of an exception request, or of an update to a pending one.
+ */
+export const VulnerabilityExceptionInputSchema = z.object({
+  scope: z.enum(EXCEPTION_SCOPES).default('IMAGE'),
+  imageId: z.string().nullable().optional(),
+  repositoryId: z.string().nullable().optional(),
+  imagePattern: z.string().trim().nullable().optional(),
+  cveId: z.string().trim().max(100).nullable().optional().transform(id => id ? id.toUpperCase() : null),
+  packageName: z.string().trim().max(200).nullable().optional().transform(name => name || null),
+  justification: z.enum(EXCEPTION_JUSTIFICATIONS),
+  reason: z.string().trim().min(1, 'Explain why the exception is needed').max(2000),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).superRefine((exception, ctx) => {
+  if (!exception.cveId && !exception.packageName) {
+    ctx.addIssue({ code: 'custom', message: 'Specify a CVE, a package or both', path: ['cveId'] });
+  }
+  if (exception.scope === 'IMAGE' && !exception.imageId) {
+    ctx.addIssue({ code: 'custom', message: 'Select an image for image-scoped exceptions', path: ['imageId'] });
+  }
+  if (exception.scope === 'REPOSITORY' && !exception.repositoryId) {
+    ctx.addIssue({ code: 'custom', message: 'Select a repository for repository-scoped exceptions', path: ['repositoryId'] });
+  }
+  if (exception.scope === 'IMAGE_PATTERN') {
+    if (!exception.imagePattern) {
+      ctx.addIssue({ code: 'custom', message: 'Image pattern is required for pattern-scoped exceptions', path: ['imagePattern'] });
+    } else {
+      try {
+        new RegExp(exception.imagePattern);
+      } catch {
+        ctx.addIssue({ code: 'custom', message: `Invalid image pattern: ${exception.imagePattern}`, path: ['imagePattern'] });
+      }
+    }
+  }
+  if (exception.expiresAt && exception.expiresAt.getTime() <= Date.now()) {
+    ctx.addIssue({ code: 'custom', message: 'Expiry date must be in the future', path: ['expiresAt'] });
+  }
+});
+
+export type VulnerabilityExceptionInput = z.infer<typeof VulnerabilityExceptionInputSchema>;
+
+/**
+ * Body of an approve or reject decision.
+ */
+export const ExceptionDecisionSchema = z.object({
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  comment: z.string().trim().max(2000).nullable().optional(),
+});
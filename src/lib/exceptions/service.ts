@@ -0,0 +1,89 @@
+/**
+ * Server-side lookup of the exceptions that apply to an image, and helpers
+ * shared by the exception API routes.
+ */
+import type { VulnerabilityException } from '@/generated/prisma';
+import { prisma } from '@/lib/prisma';
+import { exceptionAppliesTo, type ExceptionTarget, type VulnerabilityExceptionInput } from './rules';
+
+export interface ExceptionImage {
+  id: string;
+  name: string;
+  tag: string;
+  primaryRepositoryId: string | null;
+  repositoryImages: Array<{ repositoryId: string }>;
+}
+
+export function toExceptionTarget(image: ExceptionImage): ExceptionTarget {
+  return {
+    id: image.id,
+    name: image.name,
+    tag: image.tag,
+    repositoryIds: new Set([
+      ...(image.primaryRepositoryId ? [image.primaryRepositoryId] : []),
+      ...image.repositoryImages.map(ri => ri.repositoryId),
+    ]),
+  };
+}
+
+export const EXCEPTION_IMAGE_SELECT = {
+  id: true,
+  name: true,
+  tag: true,
+  primaryRepositoryId: true,
+  repositoryImages: { select: { repositoryId: true } },
+} as const;
+
+/**
+ * The approved, unexpired exceptions whose scope covers an image.
+ */
+export async function getActiveExceptions(image: ExceptionImage, now: Date = new Date()): Promise<VulnerabilityException[]> {
+  const exceptions = await prisma.vulnerabilityException.findMany({
+    where: {
+      status: 'APPROVED',
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  const target = toExceptionTarget(image);
+  return exceptions.filter(exception => exceptionAppliesTo(exception, target));
+}
+
+export async function getActiveExceptionsForImage(imageId: string, now: Date = new Date()): Promise<VulnerabilityException[]> {
+  const image = await prisma.image.findUnique({ where: { id: imageId }, select: EXCEPTION_IMAGE_SELECT });
+  return image ? getActiveExceptions(image, now) : [];
+}
+
+export const EXCEPTION_INCLUDE = {
+  image: { select: { id: true, name: true, tag: true } },
+  repository: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Check that the image or repository an exception is scoped to exists.
+ * Returns an error message, or null when the scope is valid.
+ */
+export async function validateExceptionScope(input: VulnerabilityExceptionInput): Promise<string | null> {
+  if (input.scope === 'IMAGE') {
+    const image = await prisma.image.findUnique({ where: { id: input.imageId! }, select: { id: true } });
+    if (!image) return 'Image not found';
+  }
+  if (input.scope === 'REPOSITORY') {
+    const repository = await prisma.repository.findUnique({ where: { id: input.repositoryId! }, select: { id: true } });
+    if (!repository) return 'Repository not found';
+  }
+  return null;
+}
+
+/** Columns for a validated request; scope fields that do not apply are cleared */
+export function toExceptionData(input: VulnerabilityExceptionInput) {
+  const { scope, imageId, repositoryId, imagePattern, ...exception } = input;
+  return {
+    ...exception,
+    expiresAt: exception.expiresAt ?? null,
+    scope,
+    imageId: scope === 'IMAGE' ? imageId : null,
+    repositoryId: scope === 'REPOSITORY' ? repositoryId : null,
+    imagePattern: scope === 'IMAGE_PATTERN' ? imagePattern : null,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Daily and weekly digests: new critical vulnerabilities, fixed ones, the
+ * riskiest images and failing scheduled scans of the period. Every morning
+ * one replica claims the period's digest and routes it like any other event.
+ */
+import { logger } from '@/lib/logger';
+import { notificationService } from '@/lib/notifications';
+import { prisma } from '@/lib/prisma';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+// A type rather than an interface, so it can be stored as the JSON payload of deliveries
+export type DigestSummary = {
+  period: DigestPeriod;
+  since: string;
+  until: string;
+  newCriticals: {
+    total: number;
+    items: Array<{ cveId: string; imageName: string }>;
+  };
+  fixed: {
+    total: number;
+    bySeverity: { critical: number; high: number; medium: number; low: number };
+    items: Array<{ cveId: string; imageName: string; severity: string }>;
+  };
+  riskyImages: Array<{ imageName: string; riskScore: number; critical: number; high: number; scanId: string }>;
+  failingScheduledScans: Array<{ name: string; failures: number; status: string; error: string | null }>;
+};
+
+// Digests go out at this hour (UTC), weekly ones on Mondays; quiet hours still apply
+const DIGEST_HOUR_UTC = 8;
+
+const PERIOD_MS: Record<DigestPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Kept in the app settings table so replicas agree on the last digest sent
+const DIGEST_SENT_KEYS: Record<DigestPeriod, string> = {
+  daily: 'notificationDigestDaily',
+  weekly: 'notificationDigestWeekly',
+};
+
+// Entries listed per section; the totals cover all of them
+const DIGEST_ITEM_LIMIT = 10;
+const RISKY_IMAGE_LIMIT = 5;
+
+/**
+ * The day (or, weekly, the Monday) a digest covering the time up to now
+ * belongs to, or null before it is due.
+ */
+function duePeriod(period: DigestPeriod, now: Date): string | null {
+  if (now.getUTCHours() < DIGEST_HOUR_UTC) return null;
+  if (period === 'weekly' && now.getUTCDay() !== 1) return null;
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Take the period's digest for this instance. Returns false when it was sent
+ * already or another replica claimed it first.
+ */
+async function claimDigest(period: DigestPeriod, periodId: string): Promise<boolean> {
+  const key = DIGEST_SENT_KEYS[period];
+  const last = await prisma.appSetting.findUnique({ where: { key } });
+  if (!last) {
+    const { count } = await prisma.appSetting.createMany({
+      data: [{ key, value: periodId }],
+      skipDuplicates: true,
+    });
+    return count === 1;
+  }
+  if (last.value === periodId) return false;
+
+  const { count } = await prisma.appSetting.updateMany({
+    where: { key, value: last.value },
+    data: { value: periodId },
+  });
+  return count === 1;
+}
+
+/** Latest completed scan of every image, riskiest first */
+async function findRiskyImages(): Promise<DigestSummary['riskyImages']> {
+  const rows = await prisma.$queryRaw<Array<{
+    scanId: string;
+    name: string;
+    tag: string;
+    riskScore: number;
+    critical: number | null;
+    high: number | null;
+  }>>`
+    SELECT latest."scanId", latest.name, latest.tag, latest."riskScore",
+           m."vulnerabilityCritical" AS critical, m."vulnerabilityHigh" AS high
+    FROM (
+      SELECT DISTINCT ON (s."imageId") s.id AS "scanId", s."riskScore", s."metadataId", i.name, i.tag
+      FROM scans s
+      JOIN images i ON i.id = s."imageId"
+      WHERE s.status IN ('SUCCESS', 'PARTIAL')
+      ORDER BY s."imageId", s."startedAt" DESC
+    ) latest
+    LEFT JOIN scan_metadata m ON m.id = latest."metadataId"
+    WHERE latest."riskScore" IS NOT NULL AND latest."riskScore" > 0
+    ORDER BY latest."riskScore" DESC
+    LIMIT ${RISKY_IMAGE_LIMIT}`;
+
+  return rows.map(row => ({
+    imageName: `${row.name}:${row.tag}`,
+    riskScore: Number(row.riskScore),
+    critical: Number(row.critical ?? 0),
+    high: Number(row.high ?? 0),
+    scanId: row.scanId,
+  }));
+}
+
+/** Scheduled scans with failed or partly failed runs in the period, latest run first */
+async function findFailingScheduledScans(since: Date, until: Date): Promise<DigestSummary['failingScheduledScans']> {
+  const runs = await prisma.scheduledScanHistory.findMany({
+    where: {
+      startedAt: { gte: since, lt: until },
+      OR: [{ status: { in: ['FAILED', 'PARTIAL'] } }, { failedImages: { gt: 0 } }],
+    },
+    orderBy: { startedAt: 'desc' },
+    select: { scheduledScanId: true, status: true, errorMessage: true, scheduledScan: { select: { name: true } } },
+  });
+
+  const byScan = new Map<string, DigestSummary['failingScheduledScans'][number]>();
+  for (const run of runs) {
+    const existing = byScan.get(run.scheduledScanId);
+    if (existing) {
+      existing.failures++;
+      continue;
+    }
+    byScan.set(run.scheduledScanId, {
+      name: run.scheduledScan.name,
+      failures: 1,
+      status: run.status,
+      error: run.errorMessage,
+    });
+  }
+  return [...byScan.values()];
+}
+
+/**
+ * Collect the digest of the period ending now. Vulnerabilities count per
+ * image name, as tracked for remediation SLAs; suppressed ones are left out.
+ */
+export async function buildDigest(period: DigestPeriod, now: Date = new Date()): Promise<DigestSummary> {
+  const since = new Date(now.getTime() - PERIOD_MS[period]);
+
+  const newCriticalWhere = { severity: 'CRITICAL', suppressed: false, resolvedAt: null, firstSeenAt: { gte: since, lt: now } } as const;
+  const fixedWhere = { resolvedAt: { gte: since, lt: now } };
+
+  const [newCriticalTotal, newCriticals, fixedCounts, fixed, riskyImages, failingScheduledScans] = await Promise.all([
+    prisma.vulnerabilitySla.count({ where: newCriticalWhere }),
+    prisma.vulnerabilitySla.findMany({
+      where: newCriticalWhere,
+      orderBy: { firstSeenAt: 'desc' },
+      take: DIGEST_ITEM_LIMIT,
+      select: { cveId: true, imageName: true },
+    }),
+    prisma.vulnerabilitySla.groupBy({ by: ['severity'], where: fixedWhere, _count: { _all: true } }),
+    prisma.vulnerabilitySla.findMany({
+      where: fixedWhere,
+      orderBy: [{ severity: 'asc' }, { resolvedAt: 'desc' }],
+      take: DIGEST_ITEM_LIMIT,
+      select: { cveId: true, imageName: true, severity: true },
+    }),
+    findRiskyImages(),
+    findFailingScheduledScans(since, now),
+  ]);
+
+  const bySeverity = { critical: 0, high: 0, medium: 0, low: 0 };
+  let fixedTotal = 0;
+  for (const row of fixedCounts) {
+    fixedTotal += row._count._all;
+    if (row.severity !== 'INFO') bySeverity[row.severity.toLowerCase() as keyof typeof bySeverity] += row._count._all;
+  }
+
+  return {
+    period,
+    since: since.toISOString(),
+    until: now.toISOString(),
+    newCriticals: { total: newCriticalTotal, items: newCriticals },
+    fixed: { total: fixedTotal, bySeverity, items: fixed },
+    riskyImages,
+    failingScheduledScans,
+  };
+}
+
+/**
+ * Send the digests that are due and not sent yet, unless no rule subscribes
+ * to them. Returns the periods sent.
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<DigestPeriod[]> {
+  const sent: DigestPeriod[] = [];
+  for (const period of ['daily', 'weekly'] as const) {
+    const periodId = duePeriod(period, now);
+    if (!periodId) continue;
+
+    const event = period === 'daily' ? 'DAILY_DIGEST' : 'WEEKLY_DIGEST';
+    const subscribed = await prisma.notificationRule.count({
+      where: { enabled: true, events: { has: event }, channel: { enabled: true } },
+    });
+    if (subscribed === 0 || !(await claimDigest(period, periodId))) continue;
+
+    await notificationService.notifyDigest(await buildDigest(period, now));
+    logger.info(`[NOTIFY] Sent the ${period} digest`);
+    sent.push(period);
+  }
+  return sent;
+}
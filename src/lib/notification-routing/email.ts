@@ -0,0 +1,175 @@
+/**
+ * Email templates. Every notification is rendered as HTML with a plain text
+ * alternative: scan results with their vulnerability counts, digests with a
+ * section per topic. Styles are inlined since mail clients drop style sheets.
+ */
+import type { NotificationPayload } from '@/lib/notifications';
+import { getSeverityHashColor } from '@/lib/utils/severity-utils';
+import type { DigestSummary } from './digest';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SEVERITY_KEYS = ['critical', 'high', 'medium', 'low'] as const;
+
+const FONT = "font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif";
+const CELL = 'padding:6px 12px;border-bottom:1px solid #e5e7eb;font-size:13px;text-align:left';
+const HEAD = `${CELL};color:#6b7280;font-size:11px;text-transform:uppercase;letter-spacing:0.08em`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+/** A table with a header row; cells are escaped */
+function htmlTable(headers: string[], rows: string[][]): string {
+  return `<table role="presentation" cellspacing="0" cellpadding="0" style="width:100%;border-collapse:collapse;margin:8px 0 20px">`
+    + `<tr>${headers.map(header => `<th style="${HEAD}">${escapeHtml(header)}</th>`).join('')}</tr>`
+    + rows.map(row => `<tr>${row.map(cell => `<td style="${CELL}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')
+    + '</table>';
+}
+
+function htmlSection(title: string, body: string): string {
+  return `<h2 style="margin:24px 0 4px;font-size:14px;color:#111827">${escapeHtml(title)}</h2>${body}`;
+}
+
+function htmlNote(text: string): string {
+  return `<p style="margin:4px 0 20px;font-size:13px;color:#6b7280">${escapeHtml(text)}</p>`;
+}
+
+function vulnerabilityCountsHtml(counts: NonNullable<NotificationPayload['vulnerabilityCount']>): string {
+  const cells = SEVERITY_KEYS.map(key =>
+    `<td style="padding:12px;text-align:center;border:1px solid #e5e7eb">`
+    + `<div style="font-size:22px;font-weight:600;color:${getSeverityHashColor(key)}">${counts[key]}</div>`
+    + `<div style="font-size:11px;color:#6b7280;text-transform:uppercase;letter-spacing:0.08em">${capitalize(key)}</div></td>`
+  ).join('');
+  return `<table role="presentation" cellspacing="0" cellpadding="0" style="width:100%;border-collapse:collapse;margin:16px 0"><tr>${cells}</tr></table>`;
+}
+
+function layout(payload: NotificationPayload, content: string): string {
+  const color = getSeverityHashColor(payload.severity);
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(payload.title)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;${FONT}">
+<table role="presentation" cellspacing="0" cellpadding="0" style="max-width:640px;width:100%;margin:0 auto;background:#ffffff;border-top:4px solid ${color}">
+<tr><td style="padding:24px 32px">
+<p style="margin:0 0 4px;font-size:11px;color:#6b7280;text-transform:uppercase;letter-spacing:0.12em">Harbor Guard · ${escapeHtml(payload.severity.toUpperCase())}</p>
+<h1 style="margin:0 0 16px;font-size:20px;color:#111827">${escapeHtml(payload.title)}</h1>
+${content}
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #e5e7eb;font-size:11px;color:#9ca3af">Sent by Harbor Guard at ${escapeHtml(formatDate(new Date().toISOString()))}. Notification rules decide which messages this address receives.</td></tr>
+</table>
+</body></html>`;
+}
+
+function renderDigestHtml(digest: DigestSummary): string {
+  const sections = [
+    htmlSection(`New critical vulnerabilities (${digest.newCriticals.total})`, digest.newCriticals.items.length > 0
+      ? htmlTable(['CVE', 'Image'], digest.newCriticals.items.map(item => [item.cveId, item.imageName]))
+        + (digest.newCriticals.total > digest.newCriticals.items.length
+          ? htmlNote(`And ${digest.newCriticals.total - digest.newCriticals.items.length} more.`)
+          : '')
+      : htmlNote('No new critical vulnerabilities.')),
+    htmlSection(`Fixed vulnerabilities (${digest.fixed.total})`, digest.fixed.items.length > 0
+      ? htmlNote(SEVERITY_KEYS.map(key => `${capitalize(key)}: ${digest.fixed.bySeverity[key]}`).join(' · '))
+        + htmlTable(['CVE', 'Image', 'Severity'], digest.fixed.items.map(item => [item.cveId, item.imageName, item.severity]))
+      : htmlNote('No vulnerabilities were fixed.')),
+    htmlSection('Top risky images', digest.riskyImages.length > 0
+      ? htmlTable(['Image', 'Risk score', 'Critical', 'High'], digest.riskyImages.map(image =>
+        [image.imageName, String(image.riskScore), String(image.critical), String(image.high)]))
+      : htmlNote('No scanned images carry risk.')),
+    htmlSection(`Failing scheduled scans (${digest.failingScheduledScans.length})`, digest.failingScheduledScans.length > 0
+      ? htmlTable(['Scheduled scan', 'Failed runs', 'Last status', 'Last error'], digest.failingScheduledScans.map(scan =>
+        [scan.name, String(scan.failures), scan.status, scan.error ?? '']))
+      : htmlNote('All scheduled scans succeeded.')),
+  ];
+  return htmlNote(`${formatDate(digest.since)} to ${formatDate(digest.until)}`) + sections.join('');
+}
+
+function renderDigestText(digest: DigestSummary): string {
+  const lines = [`${formatDate(digest.since)} to ${formatDate(digest.until)}`, ''];
+
+  lines.push(`NEW CRITICAL VULNERABILITIES (${digest.newCriticals.total})`);
+  lines.push(...(digest.newCriticals.items.length > 0
+    ? digest.newCriticals.items.map(item => `- ${item.cveId} in ${item.imageName}`)
+    : ['None.']));
+  if (digest.newCriticals.total > digest.newCriticals.items.length) {
+    lines.push(`- and ${digest.newCriticals.total - digest.newCriticals.items.length} more`);
+  }
+
+  lines.push('', `FIXED VULNERABILITIES (${digest.fixed.total})`);
+  if (digest.fixed.total > 0) {
+    lines.push(SEVERITY_KEYS.map(key => `${capitalize(key)}: ${digest.fixed.bySeverity[key]}`).join(', '));
+    lines.push(...digest.fixed.items.map(item => `- ${item.cveId} in ${item.imageName} (${item.severity})`));
+  } else {
+    lines.push('None.');
+  }
+
+  lines.push('', 'TOP RISKY IMAGES');
+  lines.push(...(digest.riskyImages.length > 0
+    ? digest.riskyImages.map(image => `- ${image.imageName}: risk ${image.riskScore} (${image.critical} critical, ${image.high} high)`)
+    : ['None.']));
+
+  lines.push('', `FAILING SCHEDULED SCANS (${digest.failingScheduledScans.length})`);
+  lines.push(...(digest.failingScheduledScans.length > 0
+    ? digest.failingScheduledScans.map(scan => `- ${scan.name}: ${scan.failures} failed run(s), last ${scan.status}${scan.error ? `: ${scan.error}` : ''}`)
+    : ['None.']));
+
+  return lines.join('\n');
+}
+
+/** Render a notification as an email */
+export function renderEmail(payload: NotificationPayload): RenderedEmail {
+  const subject = `[Harbor Guard] ${payload.title}${payload.imageName ? `: ${payload.imageName}` : ''}`;
+  const footer = `\n\n--\nSent by Harbor Guard at ${formatDate(new Date().toISOString())}`;
+
+  if (payload.digest) {
+    return {
+      subject,
+      text: `${payload.title}\n\n${renderDigestText(payload.digest)}${footer}`,
+      html: layout(payload, renderDigestHtml(payload.digest)),
+    };
+  }
+
+  const details: string[][] = [
+    ...(payload.imageName ? [['Image', payload.imageName]] : []),
+    ...(payload.scanId ? [['Scan', payload.scanId]] : []),
+    ['Severity', payload.severity.toUpperCase()],
+  ];
+  const counts = payload.vulnerabilityCount;
+
+  const text = [
+    payload.title,
+    '',
+    payload.message,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(counts ? ['', `Vulnerabilities: ${SEVERITY_KEYS.map(key => `${capitalize(key)} ${counts[key]}`).join(', ')}`] : []),
+  ].join('\n');
+
+  const html = layout(payload,
+    `<p style="margin:0 0 16px;font-size:14px;line-height:1.5;color:#374151">${escapeHtml(payload.message)}</p>`
+    + (counts ? vulnerabilityCountsHtml(counts) : '')
+    + `<table role="presentation" cellspacing="0" cellpadding="0" style="width:100%;border-collapse:collapse">`
+    + details.map(([label, value]) =>
+      `<tr><td style="${CELL};color:#6b7280;width:120px">${escapeHtml(label)}</td><td style="${CELL};font-family:monospace">${escapeHtml(value)}</td></tr>`
+    ).join('')
+    + '</table>');
+
+  return { subject, text: text + footer, html };
+}
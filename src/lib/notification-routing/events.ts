@@ -0,0 +1,158 @@
+/**
+ * Notifications raised by scans and images: scans starting, completing or
+ * failing, critical vulnerabilities the previous scan of the image did not
+ * report, policy violations and images seen for the first time.
+ */
+import { notificationService } from '@/lib/notifications';
+import { prisma } from '@/lib/prisma';
+import type { PolicyResult } from '@/lib/policy/evaluator';
+import type { NotificationTarget } from './rules';
+
+const TARGET_IMAGE_SELECT = {
+  id: true,
+  name: true,
+  tag: true,
+  primaryRepositoryId: true,
+  repositoryImages: { select: { repositoryId: true } },
+} as const;
+
+function toTarget(image: {
+  id: string;
+  name: string;
+  tag: string;
+  primaryRepositoryId: string | null;
+  repositoryImages: Array<{ repositoryId: string }>;
+}): NotificationTarget {
+  return {
+    id: image.id,
+    name: image.name,
+    tag: image.tag,
+    repositoryIds: [
+      ...(image.primaryRepositoryId ? [image.primaryRepositoryId] : []),
+      ...image.repositoryImages.map(ri => ri.repositoryId),
+    ],
+  };
+}
+
+/** The notification target of an image row, for the rules' image filters */
+export async function getImageTarget(imageId: string): Promise<NotificationTarget | undefined> {
+  const image = await prisma.image.findUnique({ where: { id: imageId }, select: TARGET_IMAGE_SELECT });
+  return image ? toTarget(image) : undefined;
+}
+
+/**
+ * Critical CVEs of the scan that the previous completed scan of the same
+ * image name and tag did not report. On the first scan every critical is new.
+ */
+async function findNewCriticals(scanId: string, image: { name: string; tag: string }, startedAt: Date): Promise<string[]> {
+  const previous = await prisma.scan.findFirst({
+    where: {
+      id: { not: scanId },
+      status: { in: ['SUCCESS', 'PARTIAL'] },
+      startedAt: { lt: startedAt },
+      image: { name: image.name, tag: image.tag },
+    },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true },
+  });
+
+  const criticals = async (id: string) => new Set((await prisma.scanVulnerabilityFinding.findMany({
+    where: { scanId: id, severity: 'CRITICAL' },
+    distinct: ['cveId'],
+    select: { cveId: true },
+  })).map(finding => finding.cveId));
+
+  const current = await criticals(scanId);
+  const before = previous ? await criticals(previous.id) : new Set<string>();
+  return [...current].filter(cveId => !before.has(cveId)).sort();
+}
+
+/**
+ * Notify about a scan whose results were just ingested: its completion (or
+ * failure), new critical vulnerabilities and a failing or warning verdict.
+ */
+export async function notifyScanResults(scanId: string): Promise<void> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      status: true,
+      startedAt: true,
+      errorMessage: true,
+      image: { select: TARGET_IMAGE_SELECT },
+      metadata: {
+        select: { vulnerabilityCritical: true, vulnerabilityHigh: true, vulnerabilityMedium: true, vulnerabilityLow: true },
+      },
+      policyEvaluation: { select: { verdict: true, violationCount: true, results: true } },
+    },
+  });
+  if (!scan) return;
+
+  const imageName = `${scan.image.name}:${scan.image.tag}`;
+  const target = toTarget(scan.image);
+
+  if (scan.status !== 'SUCCESS' && scan.status !== 'PARTIAL') {
+    await notificationService.notifyScanFailed(imageName, scanId, scan.errorMessage || `Scan ended with status ${scan.status}`, target);
+    return;
+  }
+
+  await notificationService.notifyScanComplete(imageName, scanId, {
+    critical: scan.metadata?.vulnerabilityCritical ?? 0,
+    high: scan.metadata?.vulnerabilityHigh ?? 0,
+    medium: scan.metadata?.vulnerabilityMedium ?? 0,
+    low: scan.metadata?.vulnerabilityLow ?? 0,
+  }, target);
+
+  const newCriticals = await findNewCriticals(scanId, scan.image, scan.startedAt);
+  await notificationService.notifyNewCriticals(imageName, scanId, newCriticals, target);
+
+  const evaluation = scan.policyEvaluation;
+  if (evaluation && evaluation.verdict !== 'PASS') {
+    const violated = (evaluation.results as unknown as PolicyResult[])
+      .filter(result => !result.passed)
+      .map(result => result.policyName);
+    await notificationService.notifyPolicyViolation(imageName, scanId, evaluation.verdict, violated, evaluation.violationCount, target);
+  }
+}
+
+/** Notify about a scan that started running */
+export async function notifyScanStarted(scanId: string): Promise<void> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: { image: { select: TARGET_IMAGE_SELECT } },
+  });
+  if (!scan) return;
+  await notificationService.notifyScanStarted(`${scan.image.name}:${scan.image.tag}`, scanId, scan.image.id, toTarget(scan.image));
+}
+
+/**
+ * Whether no image with this name and tag is known yet. Checked before an
+ * image row is created, as new digests of known tags are not discoveries.
+ */
+export async function isNewImage(name: string, tag: string): Promise<boolean> {
+  return !(await prisma.image.findFirst({ where: { name, tag }, select: { id: true } }));
+}
+
+/** Notify about an image whose name and tag were seen for the first time */
+export async function notifyImageDiscovered(imageId: string): Promise<void> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: { ...TARGET_IMAGE_SELECT, digest: true, source: true, registry: true },
+  });
+  if (!image) return;
+  await notificationService.notifyImageDiscovered(
+    `${image.name}:${image.tag}`,
+    image.id,
+    { digest: image.digest, source: image.source, registry: image.registry },
+    toTarget(image)
+  );
+}
+
+/** Notify about a scan that failed before producing results */
+export async function notifyScanFailure(scanId: string, error: string): Promise<void> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: { image: { select: TARGET_IMAGE_SELECT } },
+  });
+  if (!scan) return;
+  await notificationService.notifyScanFailed(`${scan.image.name}:${scan.image.tag}`, scanId, error, toTarget(scan.image));
+}
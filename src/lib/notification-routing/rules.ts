@@ -0,0 +1,286 @@
+/**
+ * Notification channels and the rules that route events to them.
+ *
+ * A rule sends the events it subscribes to, at or above its severity
+ * threshold and about the images it filters on, to one channel; deliveries
+ * due during its quiet hours wait until they end. This module is free of
+ * database access so the same definitions can be used by the API, the
+ * dispatcher and the UI.
+ */
+import { z } from 'zod';
+import type { NotificationChannelType, NotificationEvent, Severity } from '@/generated/prisma';
+
+export const CHANNEL_TYPES = ['EMAIL', 'WEBHOOK', 'TEAMS', 'SLACK', 'GOTIFY', 'APPRISE'] as const satisfies readonly NotificationChannelType[];
+
+export const CHANNEL_TYPE_LABELS: Record<NotificationChannelType, string> = {
+  EMAIL: 'Email (SMTP)',
+  WEBHOOK: 'Webhook (signed JSON)',
+  TEAMS: 'Microsoft Teams',
+  SLACK: 'Slack',
+  GOTIFY: 'Gotify',
+  APPRISE: 'Apprise',
+};
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  // Masked in API responses and kept when a masked value is sent back
+  secret?: boolean;
+  optional?: boolean;
+  format?: 'url' | 'port' | 'email' | 'emails';
+}
+
+export const CHANNEL_FIELDS: Record<NotificationChannelType, ChannelField[]> = {
+  // Port 465 uses TLS from the start; other ports upgrade with STARTTLS when the server offers it
+  EMAIL: [
+    { key: 'host', label: 'SMTP host', placeholder: 'smtp.example.com' },
+    { key: 'port', label: 'Port', placeholder: '587', optional: true, format: 'port' },
+    { key: 'username', label: 'Username', placeholder: 'harborguard', optional: true },
+    { key: 'password', label: 'Password', placeholder: 'SMTP password', secret: true, optional: true },
+    { key: 'from', label: 'From address', placeholder: 'harborguard@example.com', format: 'email' },
+    { key: 'recipients', label: 'Recipients (comma separated)', placeholder: 'security@example.com, ops@example.com', format: 'emails' },
+  ],
+  // Requests are signed with the secret; see buildWebhookBody for the envelope
+  WEBHOOK: [
+    { key: 'url', label: 'Endpoint URL', placeholder: 'https://automation.example.com/harborguard', format: 'url' },
+    { key: 'secret', label: 'Signing secret', placeholder: 'openssl rand -hex 32', secret: true },
+  ],
+  TEAMS: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://outlook.office.com/webhook/...', secret: true, format: 'url' },
+  ],
+  SLACK: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://hooks.slack.com/services/...', secret: true, format: 'url' },
+  ],
+  GOTIFY: [
+    { key: 'serverUrl', label: 'Server URL', placeholder: 'https://gotify.example.com', format: 'url' },
+    { key: 'appToken', label: 'Application token', placeholder: 'AC5X0f7ISmwz-zJ', secret: true },
+  ],
+  APPRISE: [
+    { key: 'apiUrl', label: 'API URL', placeholder: 'https://apprise.example.com', format: 'url' },
+    { key: 'configKey', label: 'Configuration key', placeholder: 'harborguard', optional: true },
+    { key: 'urls', label: 'Notification URLs (comma separated)', placeholder: 'discord://webhook/...', secret: true, optional: true },
+  ],
+};
+
+/** Settings of a channel, keyed by the fields of its type */
+export type ChannelConfig = Record<string, string>;
+
+// Stands in for secret values in API responses
+export const SECRET_MASK = '********';
+
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+
+/** The addresses of a comma or semicolon separated recipient list */
+export function parseRecipients(value: string | undefined): string[] {
+  return (value ?? '').split(/[,;]/).map(address => address.trim()).filter(Boolean);
+}
+
+function fieldFormatError(field: ChannelField, value: string): string | null {
+  switch (field.format) {
+    case 'url':
+      return /^https?:\/\//.test(value) ? null : `${field.label} must start with http:// or https://`;
+    case 'port': {
+      const port = Number(value);
+      return Number.isInteger(port) && port >= 1 && port <= 65535 ? null : `${field.label} must be between 1 and 65535`;
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : `${field.label} is not an email address`;
+    case 'emails': {
+      const invalid = parseRecipients(value).find(address => !EMAIL_PATTERN.test(address));
+      if (invalid) return `${field.label}: ${invalid} is not an email address`;
+      return parseRecipients(value).length > 0 ? null : `${field.label} is required`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Events a rule can subscribe to; TEST is only sent from the channel's test button
+export const NOTIFICATION_EVENTS = [
+  'SCAN_STARTED',
+  'SCAN_COMPLETED',
+  'SCAN_FAILED',
+  'POLICY_VIOLATION',
+  'NEW_CRITICAL',
+  'IMAGE_DISCOVERED',
+  'AGENT_OFFLINE',
+  'PATCH_COMPLETED',
+  'EXCEPTIONS_EXPIRED',
+  'SLA_BREACH',
+  'SYSTEM_ALERT',
+  'DAILY_DIGEST',
+  'WEEKLY_DIGEST',
+] as const satisfies readonly NotificationEvent[];
+
+// Summaries sent on a schedule; they are not about one image and have no severity
+export const DIGEST_EVENTS = ['DAILY_DIGEST', 'WEEKLY_DIGEST'] as const satisfies readonly NotificationEvent[];
+
+export type RoutableEvent = typeof NOTIFICATION_EVENTS[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  SCAN_STARTED: 'Scan started',
+  SCAN_COMPLETED: 'Scan completed',
+  SCAN_FAILED: 'Scan failed',
+  POLICY_VIOLATION: 'Policy violation',
+  NEW_CRITICAL: 'New critical vulnerability',
+  IMAGE_DISCOVERED: 'Image discovered',
+  AGENT_OFFLINE: 'Agent offline',
+  PATCH_COMPLETED: 'Patch completed',
+  EXCEPTIONS_EXPIRED: 'Exceptions expired',
+  SLA_BREACH: 'SLA breach report',
+  SYSTEM_ALERT: 'System alert',
+  DAILY_DIGEST: 'Daily digest',
+  WEEKLY_DIGEST: 'Weekly digest',
+  TEST: 'Test message',
+};
+
+export const RULE_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'] as const satisfies readonly Severity[];
+
+export type NotificationSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+const SEVERITY_RANK: Record<Severity, number> = { CRITICAL: 4, HIGH: 3, MEDIUM: 2, LOW: 1, INFO: 0 };
+
+/** The image an event is about, for the image and repository filters */
+export interface NotificationTarget {
+  // The image row, reported to webhooks
+  id?: string;
+  name: string;
+  tag: string;
+  repositoryIds: string[];
+}
+
+export interface RoutingRule {
+  enabled: boolean;
+  events: NotificationEvent[];
+  minSeverity: Severity | null;
+  imagePattern: string | null;
+  repositoryId: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+/**
+ * Whether a rule routes the event. Rules filtering on an image or repository
+ * never match events that are not about an image, like an agent going offline.
+ * Digests are sent regardless of the severity threshold.
+ */
+export function ruleMatches(
+  rule: RoutingRule,
+  event: NotificationEvent,
+  severity: NotificationSeverity,
+  target?: NotificationTarget
+): boolean {
+  if (!rule.enabled || !rule.events.includes(event)) return false;
+  const digest = (DIGEST_EVENTS as readonly NotificationEvent[]).includes(event);
+  if (rule.minSeverity && !digest && SEVERITY_RANK[severity.toUpperCase() as Severity] < SEVERITY_RANK[rule.minSeverity]) return false;
+  if (rule.repositoryId && !target?.repositoryIds.includes(rule.repositoryId)) return false;
+  if (rule.imagePattern) {
+    if (!target) return false;
+    try {
+      return new RegExp(rule.imagePattern).test(`${target.name}:${target.tag}`);
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function parseClock(value: string): number {
+  const [, hours, minutes] = CLOCK_PATTERN.exec(value)!;
+  return Number(hours) * 60 + Number(minutes);
+}
+
+function minutesInTimeZone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * When the rule's quiet hours end if the given time falls within them, or
+ * null when notifications may go out now. Quiet hours may span midnight.
+ */
+export function quietHoursEnd(
+  rule: Pick<RoutingRule, 'quietHoursStart' | 'quietHoursEnd' | 'timezone'>,
+  now: Date = new Date()
+): Date | null {
+  if (!rule.quietHoursStart || !rule.quietHoursEnd) return null;
+  const start = parseClock(rule.quietHoursStart);
+  const end = parseClock(rule.quietHoursEnd);
+  if (start === end) return null;
+
+  const current = minutesInTimeZone(now, rule.timezone);
+  const quiet = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!quiet) return null;
+
+  const remaining = (end - current + 24 * 60) % (24 * 60);
+  return new Date(Math.floor(now.getTime() / 60_000) * 60_000 + remaining * 60_000);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const NotificationChannelInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.enum(CHANNEL_TYPES),
+  enabled: z.boolean().default(true),
+  config: z.record(z.string(), z.string().trim()).default({}),
+}).superRefine((channel, ctx) => {
+  for (const field of CHANNEL_FIELDS[channel.type]) {
+    const value = channel.config[field.key];
+    if (!value) {
+      if (!field.optional) {
+        ctx.addIssue({ code: 'custom', message: `${field.label} is required`, path: ['config', field.key] });
+      }
+      continue;
+    }
+    const error = value === SECRET_MASK ? null : fieldFormatError(field, value);
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error, path: ['config', field.key] });
+    }
+  }
+});
+
+export type NotificationChannelInput = z.infer<typeof NotificationChannelInputSchema>;
+
+export const NotificationRuleInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  enabled: z.boolean().default(true),
+  channelId: z.string().min(1, 'Select a channel'),
+  events: z.array(z.enum(NOTIFICATION_EVENTS)).min(1, 'Select at least one event'),
+  minSeverity: z.enum(RULE_SEVERITIES).nullable().optional(),
+  imagePattern: z.string().trim().nullable().optional(),
+  repositoryId: z.string().nullable().optional(),
+  quietHoursStart: z.string().regex(CLOCK_PATTERN, 'Quiet hours must be given as HH:MM').nullable().optional(),
+  quietHoursEnd: z.string().regex(CLOCK_PATTERN, 'Quiet hours must be given as HH:MM').nullable().optional(),
+  timezone: z.string().trim().default('UTC'),
+}).superRefine((rule, ctx) => {
+  if (rule.imagePattern) {
+    try {
+      new RegExp(rule.imagePattern);
+    } catch {
+      ctx.addIssue({ code: 'custom', message: `Invalid image pattern: ${rule.imagePattern}`, path: ['imagePattern'] });
+    }
+  }
+  if (!rule.quietHoursStart !== !rule.quietHoursEnd) {
+    ctx.addIssue({ code: 'custom', message: 'Quiet hours need both a start and an end', path: ['quietHoursEnd'] });
+  }
+  if (!isValidTimeZone(rule.timezone)) {
+    ctx.addIssue({ code: 'custom', message: `Unknown time zone: ${rule.timezone}`, path: ['timezone'] });
+  }
+});
+
+export type NotificationRuleInput = z.infer<typeof NotificationRuleInputSchema>;
@@ -0,0 +1,45 @@
+/**
+ * Background notification work: every minute, send the deliveries that are
+ * due (retries and those held back by quiet hours), the daily and weekly
+ * digests once they are due, and check for agents that went offline, which
+ * are otherwise only noticed when the agent list is viewed. Old delivery log
+ * entries are pruned once a day.
+ */
+import { markStaleAgents } from '@/lib/agent/liveness';
+import { logger } from '@/lib/logger';
+import { notificationService } from '@/lib/notifications';
+import { createIntervalScheduler } from '@/lib/scheduler/interval';
+import { sendDueDigests } from './digest';
+import { pruneDeliveries } from './service';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Sent and failed deliveries are kept in the log this long
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+let lastPrune: number | null = null;
+
+async function runNotificationWork(now: Date): Promise<void> {
+  const offline = await markStaleAgents(now);
+  if (offline > 0) {
+    logger.info(`[NOTIFY] ${offline} agent(s) went offline`);
+  }
+
+  await sendDueDigests(now);
+
+  const attempted = await notificationService.processDueDeliveries(now);
+  if (attempted > 0) {
+    logger.debug(`[NOTIFY] Attempted ${attempted} due notification delivery(ies)`);
+  }
+
+  if (lastPrune === null || now.getTime() - lastPrune >= PRUNE_INTERVAL_MS) {
+    const pruned = await pruneDeliveries(new Date(now.getTime() - DELIVERY_RETENTION_MS));
+    lastPrune = now.getTime();
+    if (pruned > 0) {
+      logger.info(`[NOTIFY] Pruned ${pruned} old notification delivery(ies)`);
+    }
+  }
+}
+
+export const notificationScheduler = createIntervalScheduler('NOTIFY', TICK_INTERVAL_MS, runNotificationWork);
@@ -0,0 +1,268 @@
+/**
+ * Notification channels, routing and the delivery log.
+ *
+ * Every routed notification becomes a delivery row before it is sent, so
+ * failed sends are retried with backoff and deliveries held back by quiet
+ * hours go out later. Sending itself is done by the notification service.
+ */
+import type { NotificationChannel, NotificationChannelType, NotificationEvent, Prisma } from '@/generated/prisma';
+import { config } from '@/lib/config';
+import { decryptSecret, encryptSecret } from '@/lib/crypto/envelope';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import {
+  CHANNEL_FIELDS,
+  quietHoursEnd,
+  ruleMatches,
+  SECRET_MASK,
+  type ChannelConfig,
+  type NotificationSeverity,
+  type NotificationTarget,
+} from './rules';
+
+// Delay before each retry; a delivery fails for good after the last one
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// A delivery still SENDING after this long is assumed lost with its instance
+const SEND_LEASE_MS = 5 * 60_000;
+
+// Recorded once the environment channels were imported, so deleting them sticks
+const ENV_IMPORTED_KEY = 'notificationEnvImported';
+
+export interface NotificationResult {
+  ok: boolean;
+  responseStatus?: number;
+  error?: string;
+}
+
+export function readChannelConfig(channel: Pick<NotificationChannel, 'config'>): ChannelConfig {
+  return JSON.parse(decryptSecret(channel.config));
+}
+
+export function writeChannelConfig(channelConfig: ChannelConfig): string {
+  return encryptSecret(JSON.stringify(channelConfig));
+}
+
+/**
+ * The channel's settings for the API, with secrets masked. Configs that can
+ * no longer be decrypted (master key removed) come back empty.
+ */
+export function maskChannelConfig(channel: Pick<NotificationChannel, 'type' | 'config'>): ChannelConfig {
+  let stored: ChannelConfig;
+  try {
+    stored = readChannelConfig(channel);
+  } catch (error) {
+    logger.warn('[NOTIFY] Failed to read channel settings:', error);
+    return {};
+  }
+  const masked: ChannelConfig = {};
+  for (const field of CHANNEL_FIELDS[channel.type]) {
+    const value = stored[field.key];
+    if (value) masked[field.key] = field.secret ? SECRET_MASK : value;
+  }
+  return masked;
+}
+
+/** A channel as returned by the API, with its secrets masked */
+export function toChannelResponse<T extends Pick<NotificationChannel, 'type' | 'config'>>(channel: T): Omit<T, 'config'> & { config: ChannelConfig } {
+  return { ...channel, config: maskChannelConfig(channel) };
+}
+
+/**
+ * Settings to store from an API request: only the fields of the type, with
+ * masked secrets replaced by the stored values.
+ */
+export function mergeChannelConfig(
+  type: NotificationChannelType,
+  incoming: ChannelConfig,
+  existing?: Pick<NotificationChannel, 'type' | 'config'>
+): ChannelConfig {
+  const stored = existing && existing.type === type ? readChannelConfig(existing) : {};
+  const merged: ChannelConfig = {};
+  for (const field of CHANNEL_FIELDS[type]) {
+    const value = incoming[field.key] === SECRET_MASK ? stored[field.key] : incoming[field.key];
+    if (value) merged[field.key] = value;
+  }
+  return merged;
+}
+
+/** A masked secret without a stored value behind it, e.g. after a type change */
+export function findMissingChannelField(type: NotificationChannelType, channelConfig: ChannelConfig): string | null {
+  const missing = CHANNEL_FIELDS[type].find(field => !field.optional && !channelConfig[field.key]);
+  return missing ? `${missing.label} is required` : null;
+}
+
+/**
+ * Create deliveries for the rules that route the event, one per channel.
+ * Returns the ids of the deliveries due now; those held back by quiet hours
+ * are picked up by the scheduler once they end.
+ */
+export async function queueNotification(
+  event: NotificationEvent,
+  title: string,
+  severity: NotificationSeverity,
+  payload: Prisma.InputJsonValue,
+  target?: NotificationTarget,
+  now: Date = new Date()
+): Promise<string[]> {
+  const rules = await prisma.notificationRule.findMany({
+    where: { enabled: true, events: { has: event }, channel: { enabled: true } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // A channel matched by several rules gets the earliest delivery among them
+  const byChannel = new Map<string, { ruleId: string; dueAt: Date }>();
+  for (const rule of rules) {
+    if (!ruleMatches(rule, event, severity, target)) continue;
+    const dueAt = quietHoursEnd(rule, now) ?? now;
+    const current = byChannel.get(rule.channelId);
+    if (!current || dueAt < current.dueAt) byChannel.set(rule.channelId, { ruleId: rule.id, dueAt });
+  }
+
+  const due: string[] = [];
+  for (const [channelId, { ruleId, dueAt }] of byChannel) {
+    const delivery = await prisma.notificationDelivery.create({
+      data: { channelId, ruleId, event, title, payload, nextAttemptAt: dueAt },
+      select: { id: true },
+    });
+    if (dueAt <= now) due.push(delivery.id);
+  }
+  return due;
+}
+
+/**
+ * Take a due delivery for this instance and count the attempt. Returns false
+ * when it is not due or another replica took it first.
+ */
+export async function claimDelivery(id: string, now: Date = new Date()): Promise<boolean> {
+  const { count } = await prisma.notificationDelivery.updateMany({
+    where: { id, status: { in: ['PENDING', 'RETRYING', 'SENDING'] }, nextAttemptAt: { lte: now } },
+    data: { status: 'SENDING', attempts: { increment: 1 }, nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+  });
+  return count === 1;
+}
+
+/**
+ * Store the outcome of an attempt. Failures are retried with backoff unless
+ * retries are off (test messages) or this was the last attempt.
+ */
+export async function recordDeliveryResult(
+  id: string,
+  attempts: number,
+  result: NotificationResult,
+  options: { retry?: boolean; now?: Date } = {}
+): Promise<void> {
+  const now = options.now ?? new Date();
+  if (result.ok) {
+    await prisma.notificationDelivery.update({
+      where: { id },
+      data: { status: 'SENT', sentAt: now, nextAttemptAt: null, responseStatus: result.responseStatus ?? null, lastError: null },
+    });
+    return;
+  }
+
+  const retry = options.retry !== false && attempts < MAX_DELIVERY_ATTEMPTS;
+  await prisma.notificationDelivery.update({
+    where: { id },
+    data: {
+      status: retry ? 'RETRYING' : 'FAILED',
+      nextAttemptAt: retry ? new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]) : null,
+      responseStatus: result.responseStatus ?? null,
+      lastError: result.error ?? null,
+    },
+  });
+}
+
+/** Deliveries whose send time has come, oldest first */
+export async function findDueDeliveries(now: Date = new Date(), limit = 50): Promise<string[]> {
+  const rows = await prisma.notificationDelivery.findMany({
+    where: { status: { in: ['PENDING', 'RETRYING', 'SENDING'] }, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+  return rows.map(row => row.id);
+}
+
+/** Queue a retrying or failed delivery to be sent again right away */
+export async function requeueDelivery(id: string, now: Date = new Date()): Promise<boolean> {
+  const { count } = await prisma.notificationDelivery.updateMany({
+    where: { id, status: { in: ['RETRYING', 'FAILED'] } },
+    data: { status: 'PENDING', nextAttemptAt: now },
+  });
+  return count === 1;
+}
+
+/** Delete delivery log entries created before the given time */
+export async function pruneDeliveries(before: Date): Promise<number> {
+  const { count } = await prisma.notificationDelivery.deleteMany({
+    where: { createdAt: { lt: before }, status: { in: ['SENT', 'FAILED'] } },
+  });
+  return count;
+}
+
+/**
+ * Turn the notification targets configured through environment variables
+ * into channels, once. Each gets a rule with the previous behaviour: scan
+ * results and alerts of high severity and above, enabled only when
+ * NOTIFY_ON_HIGH_SEVERITY was set.
+ */
+export async function importEnvironmentChannels(): Promise<void> {
+  const channels: Array<{ name: string; type: NotificationChannelType; config: ChannelConfig }> = [];
+  if (config.teamsWebhookUrl) {
+    channels.push({ name: 'Teams', type: 'TEAMS', config: { webhookUrl: config.teamsWebhookUrl } });
+  }
+  if (config.slackWebhookUrl) {
+    channels.push({ name: 'Slack', type: 'SLACK', config: { webhookUrl: config.slackWebhookUrl } });
+  }
+  if (config.gotifyServerUrl && config.gotifyAppToken) {
+    channels.push({ name: 'Gotify', type: 'GOTIFY', config: { serverUrl: config.gotifyServerUrl, appToken: config.gotifyAppToken } });
+  }
+  if (config.appriseApiUrl) {
+    channels.push({
+      name: 'Apprise',
+      type: 'APPRISE',
+      config: {
+        apiUrl: config.appriseApiUrl,
+        ...(config.appriseConfigKey && { configKey: config.appriseConfigKey }),
+        ...(config.appriseUrls && { urls: config.appriseUrls }),
+      },
+    });
+  }
+  if (channels.length === 0) return;
+
+  try {
+    // Only the first replica to boot imports them
+    const { count } = await prisma.appSetting.createMany({
+      data: [{ key: ENV_IMPORTED_KEY, value: new Date().toISOString() }],
+      skipDuplicates: true,
+    });
+    if (count === 0) return;
+
+    for (const channel of channels) {
+      const existing = await prisma.notificationChannel.findUnique({ where: { name: channel.name }, select: { id: true } });
+      if (existing) continue;
+      await prisma.notificationChannel.create({
+        data: {
+          name: channel.name,
+          type: channel.type,
+          config: writeChannelConfig(channel.config),
+          createdBy: 'environment',
+          rules: {
+            create: {
+              name: 'High and critical findings',
+              enabled: config.notifyOnHighSeverity,
+              events: ['SCAN_COMPLETED', 'EXCEPTIONS_EXPIRED', 'SLA_BREACH', 'SYSTEM_ALERT'],
+              minSeverity: 'HIGH',
+              createdBy: 'environment',
+            },
+          },
+        },
+      });
+    }
+    logger.info(`[NOTIFY] Imported ${channels.length} notification channel(s) from environment variables`);
+  } catch (error) {
+    logger.error('[NOTIFY] Failed to import notification channels from environment variables:', error);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Generic JSON webhooks. Each delivery is posted as a versioned envelope and
+ * signed with HMAC-SHA256 over "<timestamp>.<body>", so receivers can check
+ * both the sender and the freshness of a request. The delivery id stays the
+ * same across retries and can be used to drop duplicates.
+ */
+import { createHmac } from 'crypto';
+import type { NotificationEvent } from '@/generated/prisma';
+import type { NotificationPayload } from '@/lib/notifications';
+
+// Bumped when fields of the envelope are renamed or removed; new fields may be added anytime
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-HarborGuard-Event',
+  delivery: 'X-HarborGuard-Delivery',
+  timestamp: 'X-HarborGuard-Timestamp',
+  signature: 'X-HarborGuard-Signature',
+} as const;
+
+export const WEBHOOK_EVENT_TYPES: Record<NotificationEvent, string> = {
+  SCAN_STARTED: 'scan.started',
+  SCAN_COMPLETED: 'scan.completed',
+  SCAN_FAILED: 'scan.failed',
+  POLICY_VIOLATION: 'policy.violated',
+  NEW_CRITICAL: 'vulnerability.new_critical',
+  IMAGE_DISCOVERED: 'image.discovered',
+  AGENT_OFFLINE: 'agent.offline',
+  PATCH_COMPLETED: 'patch.completed',
+  EXCEPTIONS_EXPIRED: 'exception.expired',
+  SLA_BREACH: 'sla.breach_report',
+  SYSTEM_ALERT: 'system.alert',
+  DAILY_DIGEST: 'digest.daily',
+  WEEKLY_DIGEST: 'digest.weekly',
+  TEST: 'webhook.test',
+};
+
+/** The delivery being sent, which identifies the webhook request */
+export interface WebhookDelivery {
+  id: string;
+  event: NotificationEvent;
+  createdAt: Date;
+}
+
+/** The JSON body of a webhook request */
+export function buildWebhookBody(delivery: WebhookDelivery, payload: NotificationPayload): string {
+  const { title, message, severity, digest, details, ...subject } = payload;
+  return JSON.stringify({
+    version: WEBHOOK_PAYLOAD_VERSION,
+    id: delivery.id,
+    type: WEBHOOK_EVENT_TYPES[delivery.event],
+    createdAt: delivery.createdAt.toISOString(),
+    severity,
+    title,
+    message,
+    data: { ...subject, ...details, ...(digest && { digest }) },
+  });
+}
+
+/** The signature header value for a body sent at the given Unix time (seconds) */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
@@ -1,16 +1,31 @@
 /**
  * Notification utilities for Harbor Guard
- * Supports Teams and Slack webhooks for high severity findings
+ * Sends events to the email (SMTP), webhook, Teams, Slack, Gotify and Apprise
+ * channels their routing rules select, recording each delivery for retries
  */
 
-import { config } from './config';
+import nodemailer from 'nodemailer';
+import type { NotificationChannel, NotificationChannelType, NotificationEvent } from '@/generated/prisma';
 import { logger } from './logger';
+import { prisma } from './prisma';
 import { getSeverityHashColor } from './utils/severity-utils';
-
-interface NotificationPayload {
+import type { DigestSummary } from './notification-routing/digest';
+import { renderEmail } from './notification-routing/email';
+import { buildWebhookBody, signWebhook, WEBHOOK_EVENT_TYPES, WEBHOOK_HEADERS, type WebhookDelivery } from './notification-routing/webhook';
+import { parseRecipients, type ChannelConfig, type NotificationSeverity, type NotificationTarget } from './notification-routing/rules';
+import {
+  claimDelivery,
+  findDueDeliveries,
+  queueNotification,
+  readChannelConfig,
+  recordDeliveryResult,
+  type NotificationResult,
+} from './notification-routing/service';
+
+export interface NotificationPayload {
   title: string;
   message: string;
-  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  severity: NotificationSeverity;
   scanId?: string;
   imageId?: string;
   imageName?: string;
@@ -20,113 +35,221 @@ interface NotificationPayload {
     medium: number;
     low: number;
   };
+  // Set on daily and weekly digests, rendered as sections in emails
+  digest?: DigestSummary;
+  // Event specific fields for webhooks, e.g. the violated policies
+  details?: Record<string, string | number | boolean | null | string[]>;
 }
 
+// SMTP servers that do not answer within this time fail the attempt
+const SMTP_TIMEOUT_MS = 30_000;
+
 export class NotificationService {
   /**
-   * Send notification to configured webhooks
+   * Route an event to the channels whose rules match it and send the
+   * deliveries that are due. Failures are retried by the scheduler and never
+   * reach the caller.
    */
-  async sendNotification(payload: NotificationPayload): Promise<void> {
-    // Only send notifications for high severity findings if configured
-    if (!config.notifyOnHighSeverity || !this.shouldNotify(payload.severity)) {
-      logger.debug(`Skipping notification for ${payload.severity} severity`);
-      return;
+  async notify(event: NotificationEvent, payload: NotificationPayload, target?: NotificationTarget): Promise<void> {
+    try {
+      const stored = { ...payload, ...(target?.id && !payload.imageId && { imageId: target.id }) };
+      const due = await queueNotification(event, payload.title, payload.severity, stored, target);
+      if (due.length === 0) {
+        logger.debug(`No notification rules matched ${event} (${payload.severity})`);
+        return;
+      }
+      await Promise.allSettled(due.map(id => this.deliver(id)));
+    } catch (error) {
+      logger.error(`Failed to send ${event} notifications:`, error);
     }
+  }
 
-    const promises: Promise<void>[] = [];
+  /**
+   * Send one delivery from the log, if it is due and no other instance took it
+   */
+  async deliver(deliveryId: string): Promise<void> {
+    if (!(await claimDelivery(deliveryId))) return;
 
-    if (config.teamsWebhookUrl) {
-      promises.push(this.sendTeamsNotification(payload));
-    }
+    const delivery = await prisma.notificationDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { channel: true },
+    });
+    if (!delivery) return;
 
-    if (config.slackWebhookUrl) {
-      promises.push(this.sendSlackNotification(payload));
-    }
+    const result = delivery.channel.enabled
+      ? await this.sendToChannel(delivery.channel, delivery.payload as unknown as NotificationPayload, delivery)
+      : { ok: false, error: 'Channel is disabled' };
+    await recordDeliveryResult(delivery.id, delivery.attempts, result, { retry: delivery.channel.enabled });
+  }
 
-    if (config.gotifyServerUrl && config.gotifyAppToken) {
-      promises.push(this.sendGotifyNotification(payload));
+  /**
+   * Send the deliveries whose time has come: retries and those held back by
+   * quiet hours. Returns the number attempted.
+   */
+  async processDueDeliveries(now: Date = new Date()): Promise<number> {
+    const due = await findDueDeliveries(now);
+    for (const id of due) {
+      await this.deliver(id).catch(error => {
+        logger.error(`Failed to process notification delivery ${id}:`, error);
+      });
     }
+    return due.length;
+  }
 
-    if (config.appriseApiUrl) {
-      promises.push(this.sendAppriseNotification(payload));
+  /**
+   * Send a test message, or the current digest to preview it, to a channel,
+   * bypassing its rules. The attempt is recorded in the delivery log but not
+   * retried.
+   */
+  async sendTest(channel: NotificationChannel, requestedBy?: string, digest?: DigestSummary): Promise<NotificationResult> {
+    const payload: NotificationPayload = digest
+      ? this.digestPayload(digest)
+      : {
+        title: 'Harbor Guard Test Notification',
+        message: `This is a test message for the "${channel.name}" channel${requestedBy ? `, sent by ${requestedBy}` : ''}.`,
+        severity: 'info',
+      };
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        channelId: channel.id,
+        event: 'TEST',
+        title: payload.title,
+        payload: { ...payload },
+        status: 'SENDING',
+        attempts: 1,
+      },
+    });
+    const result = await this.sendToChannel(channel, payload, delivery);
+    await recordDeliveryResult(delivery.id, 1, result, { retry: false });
+    return result;
+  }
+
+  /**
+   * Send a delivery's payload to a channel with its stored settings
+   */
+  async sendToChannel(
+    channel: Pick<NotificationChannel, 'type' | 'config'>,
+    payload: NotificationPayload,
+    delivery: WebhookDelivery
+  ): Promise<NotificationResult> {
+    try {
+      const settings = readChannelConfig(channel);
+      const responseStatus = await this.send(channel.type, settings, payload, delivery);
+      return { ok: true, responseStatus };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const responseStatus = error instanceof Error && 'status' in error ? Number(error.status) : undefined;
+      return { ok: false, error: errorMessage, responseStatus };
     }
+  }
 
-    if (promises.length === 0) {
-      logger.debug('No webhook URLs configured, skipping notifications');
-      return;
+  private async send(
+    type: NotificationChannelType,
+    settings: ChannelConfig,
+    payload: NotificationPayload,
+    delivery: WebhookDelivery
+  ): Promise<number> {
+    switch (type) {
+      case 'EMAIL': return this.sendEmailNotification(settings, payload);
+      case 'WEBHOOK': return this.sendWebhookNotification(settings, payload, delivery);
+      case 'TEAMS': return this.sendTeamsNotification(settings, payload);
+      case 'SLACK': return this.sendSlackNotification(settings, payload);
+      case 'GOTIFY': return this.sendGotifyNotification(settings, payload);
+      case 'APPRISE': return this.sendAppriseNotification(settings, payload);
     }
+  }
 
-    try {
-      await Promise.allSettled(promises);
-      logger.info(`Sent notifications for ${payload.severity} severity finding`);
-    } catch (error) {
-      logger.error('Failed to send notifications:', error);
+  /**
+   * POST a JSON message, returning the response status. Errors carry the
+   * status of rejected requests.
+   */
+  private async postJson(service: string, url: string, body: unknown, headers: Record<string, string> = {}): Promise<number> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`${service} returned ${response.status}: ${response.statusText}`),
+        { status: response.status }
+      );
     }
+
+    logger.webhook(`Successfully sent ${service} notification`);
+    return response.status;
   }
 
   /**
-   * Check if we should notify for this severity level
+   * Send a signed JSON webhook. The signature covers the timestamp header and
+   * the raw body.
    */
-  private shouldNotify(severity: string): boolean {
-    return severity === 'critical' || severity === 'high';
+  private async sendWebhookNotification(settings: ChannelConfig, payload: NotificationPayload, delivery: WebhookDelivery): Promise<number> {
+    const body = buildWebhookBody(delivery, payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    return this.postJson('Webhook', settings.url, body, {
+      'User-Agent': 'HarborGuard-Webhook',
+      [WEBHOOK_HEADERS.event]: WEBHOOK_EVENT_TYPES[delivery.event],
+      [WEBHOOK_HEADERS.delivery]: delivery.id,
+      [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+      [WEBHOOK_HEADERS.signature]: signWebhook(settings.secret, timestamp, body),
+    });
   }
 
   /**
-   * Send notification to Microsoft Teams
+   * Send notification by email, returning the SMTP reply code. Port 465 uses
+   * TLS from the start; other ports upgrade with STARTTLS when offered.
    */
-  private async sendTeamsNotification(payload: NotificationPayload): Promise<void> {
-    if (!config.teamsWebhookUrl) return;
+  private async sendEmailNotification(settings: ChannelConfig, payload: NotificationPayload): Promise<number> {
+    const port = settings.port ? Number(settings.port) : 587;
+    const transport = nodemailer.createTransport({
+      host: settings.host,
+      port,
+      secure: port === 465,
+      auth: settings.username ? { user: settings.username, pass: settings.password ?? '' } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+    const email = renderEmail(payload);
 
     try {
-      const teamsMessage = this.formatTeamsMessage(payload);
-      
-      const response = await fetch(config.teamsWebhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(teamsMessage),
+      const info = await transport.sendMail({
+        from: settings.from,
+        to: parseRecipients(settings.recipients),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
       });
-
-      if (!response.ok) {
-        throw new Error(`Teams webhook returned ${response.status}: ${response.statusText}`);
-      }
-
-      logger.webhook('Successfully sent Teams notification');
+      logger.webhook(`Successfully sent email notification to ${info.accepted.length} recipient(s)`);
+      return Number.parseInt(info.response, 10) || 250;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to send Teams notification:', errorMessage);
-      throw error;
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      throw Object.assign(
+        new Error(`SMTP server ${settings.host}:${port} failed: ${error instanceof Error ? error.message : String(error)}`),
+        responseCode ? { status: responseCode } : {}
+      );
+    } finally {
+      transport.close();
     }
   }
 
   /**
-   * Send notification to Slack
+   * Send notification to Microsoft Teams
    */
-  private async sendSlackNotification(payload: NotificationPayload): Promise<void> {
-    if (!config.slackWebhookUrl) return;
-
-    try {
-      const slackMessage = this.formatSlackMessage(payload);
-      
-      const response = await fetch(config.slackWebhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(slackMessage),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Slack webhook returned ${response.status}: ${response.statusText}`);
-      }
+  private async sendTeamsNotification(settings: ChannelConfig, payload: NotificationPayload): Promise<number> {
+    return this.postJson('Teams webhook', settings.webhookUrl, this.formatTeamsMessage(payload));
+  }
 
-      logger.webhook('Successfully sent Slack notification');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to send Slack notification:', errorMessage);
-      throw error;
-    }
+  /**
+   * Send notification to Slack
+   */
+  private async sendSlackNotification(settings: ChannelConfig, payload: NotificationPayload): Promise<number> {
+    return this.postJson('Slack webhook', settings.webhookUrl, this.formatSlackMessage(payload));
   }
 
   /**
@@ -231,65 +354,23 @@ export class NotificationService {
   /**
    * Send notification to Gotify
    */
-  private async sendGotifyNotification(payload: NotificationPayload): Promise<void> {
-    if (!config.gotifyServerUrl || !config.gotifyAppToken) return;
-
-    try {
-      const gotifyMessage = this.formatGotifyMessage(payload);
-      
-      const response = await fetch(`${config.gotifyServerUrl}/message?token=${config.gotifyAppToken}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(gotifyMessage),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Gotify API returned ${response.status}: ${response.statusText}`);
-      }
-
-      logger.webhook('Successfully sent Gotify notification');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to send Gotify notification:', errorMessage);
-      throw error;
-    }
+  private async sendGotifyNotification(settings: ChannelConfig, payload: NotificationPayload): Promise<number> {
+    return this.postJson(
+      'Gotify API',
+      `${settings.serverUrl}/message?token=${encodeURIComponent(settings.appToken)}`,
+      this.formatGotifyMessage(payload)
+    );
   }
 
   /**
    * Send notification via Apprise
    */
-  private async sendAppriseNotification(payload: NotificationPayload): Promise<void> {
-    if (!config.appriseApiUrl) return;
-
-    try {
-      const appriseMessage = this.formatAppriseMessage(payload);
-      
-      // Determine the endpoint based on configuration
-      let endpoint = `${config.appriseApiUrl}/notify`;
-      if (config.appriseConfigKey) {
-        endpoint = `${config.appriseApiUrl}/notify/${config.appriseConfigKey}`;
-      }
-      
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(appriseMessage),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Apprise API returned ${response.status}: ${response.statusText}`);
-      }
-
-      logger.webhook('Successfully sent Apprise notification');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to send Apprise notification:', errorMessage);
-      throw error;
-    }
+  private async sendAppriseNotification(settings: ChannelConfig, payload: NotificationPayload): Promise<number> {
+    // Determine the endpoint based on configuration
+    const endpoint = settings.configKey
+      ? `${settings.apiUrl}/notify/${settings.configKey}`
+      : `${settings.apiUrl}/notify`;
+    return this.postJson('Apprise API', endpoint, this.formatAppriseMessage(settings, payload));
   }
 
   /**
@@ -333,7 +414,7 @@ export class NotificationService {
   /**
    * Format message for Apprise
    */
-  private formatAppriseMessage(payload: NotificationPayload): any {
+  private formatAppriseMessage(settings: ChannelConfig, payload: NotificationPayload): any {
     const severityIcon = this.getSeverityIcon(payload.severity);
     const appriseType = this.getAppriseType(payload.severity);
 
@@ -361,8 +442,8 @@ export class NotificationService {
     };
 
     // If specific URLs are configured, use them
-    if (config.appriseUrls) {
-      message.urls = config.appriseUrls;
+    if (settings.urls) {
+      message.urls = settings.urls;
     }
 
     return message;
@@ -396,33 +477,220 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send notification about a scan that started running
+   */
+  async notifyScanStarted(imageName: string, scanId: string, imageId: string, target?: NotificationTarget): Promise<void> {
+    await this.notify('SCAN_STARTED', {
+      title: 'Scan Started',
+      message: `Scan of ${imageName} started.`,
+      severity: 'info',
+      scanId,
+      imageId,
+      imageName
+    }, target);
+  }
+
+  /**
+   * Send notification about an image name and tag seen for the first time
+   */
+  async notifyImageDiscovered(
+    imageName: string,
+    imageId: string,
+    details: { digest: string; source: string; registry: string | null },
+    target?: NotificationTarget
+  ): Promise<void> {
+    await this.notify('IMAGE_DISCOVERED', {
+      title: 'Image Discovered',
+      message: `New image ${imageName}${details.registry ? ` from ${details.registry}` : ''}.`,
+      severity: 'info',
+      imageId,
+      imageName,
+      details
+    }, target);
+  }
+
   /**
    * Send scan completion notification
    */
   async notifyScanComplete(
     imageName: string,
     scanId: string,
-    vulnerabilities: { critical: number; high: number; medium: number; low: number }
+    vulnerabilities: { critical: number; high: number; medium: number; low: number },
+    target?: NotificationTarget
   ): Promise<void> {
-    if (vulnerabilities.critical > 0 || vulnerabilities.high > 0) {
-      const severity = vulnerabilities.critical > 0 ? 'critical' : 'high';
-      
-      await this.sendNotification({
-        title: 'High-Risk Vulnerabilities Detected',
-        message: `Scan completed for ${imageName} with ${vulnerabilities.critical + vulnerabilities.high} high-risk vulnerabilities found.`,
-        severity,
-        scanId,
-        imageName,
-        vulnerabilityCount: vulnerabilities
-      });
-    }
+    const severity: NotificationSeverity = vulnerabilities.critical > 0 ? 'critical'
+      : vulnerabilities.high > 0 ? 'high'
+      : vulnerabilities.medium > 0 ? 'medium'
+      : vulnerabilities.low > 0 ? 'low'
+      : 'info';
+    const highRisk = vulnerabilities.critical + vulnerabilities.high;
+
+    await this.notify('SCAN_COMPLETED', {
+      title: highRisk > 0 ? 'High-Risk Vulnerabilities Detected' : 'Scan Completed',
+      message: highRisk > 0
+        ? `Scan completed for ${imageName} with ${highRisk} high-risk vulnerabilities found.`
+        : `Scan completed for ${imageName} with no high-risk vulnerabilities.`,
+      severity,
+      scanId,
+      imageName,
+      vulnerabilityCount: vulnerabilities
+    }, target);
+  }
+
+  /**
+   * Send scan failure notification
+   */
+  async notifyScanFailed(imageName: string, scanId: string, error: string, target?: NotificationTarget): Promise<void> {
+    await this.notify('SCAN_FAILED', {
+      title: 'Scan Failed',
+      message: `Scan of ${imageName} failed: ${error}`,
+      severity: 'high',
+      scanId,
+      imageName,
+      details: { error }
+    }, target);
+  }
+
+  /**
+   * Send notification about critical vulnerabilities the previous scan did not report
+   */
+  async notifyNewCriticals(imageName: string, scanId: string, cveIds: string[], target?: NotificationTarget): Promise<void> {
+    if (cveIds.length === 0) return;
+    const listed = cveIds.slice(0, 10).join(', ');
+    const more = cveIds.length > 10 ? ` and ${cveIds.length - 10} more` : '';
+
+    await this.notify('NEW_CRITICAL', {
+      title: 'New Critical Vulnerabilities',
+      message: `${cveIds.length} new critical vulnerabilit${cveIds.length === 1 ? 'y' : 'ies'} in ${imageName}: ${listed}${more}.`,
+      severity: 'critical',
+      scanId,
+      imageName,
+      details: { cveIds }
+    }, target);
+  }
+
+  /**
+   * Send notification about a scan violating security policies
+   */
+  async notifyPolicyViolation(
+    imageName: string,
+    scanId: string,
+    verdict: 'FAIL' | 'WARN',
+    policies: string[],
+    violationCount: number,
+    target?: NotificationTarget
+  ): Promise<void> {
+    await this.notify('POLICY_VIOLATION', {
+      title: verdict === 'FAIL' ? 'Security Policy Failed' : 'Security Policy Warning',
+      message: `${imageName} violates ${policies.length} security polic${policies.length === 1 ? 'y' : 'ies'} with ${violationCount} violation(s): ${policies.join(', ')}.`,
+      severity: verdict === 'FAIL' ? 'high' : 'medium',
+      scanId,
+      imageName,
+      details: { verdict, policies, violationCount }
+    }, target);
+  }
+
+  /**
+   * Send notification about an agent that stopped sending heartbeats
+   */
+  async notifyAgentOffline(agentName: string, lastSeenAt: Date | null): Promise<void> {
+    await this.notify('AGENT_OFFLINE', {
+      title: 'Sensor Agent Offline',
+      message: `Agent "${agentName}" has not sent a heartbeat since ${lastSeenAt ? lastSeenAt.toISOString() : 'it registered'}.`,
+      severity: 'high',
+      details: { agentName, lastSeenAt: lastSeenAt?.toISOString() ?? null }
+    });
+  }
+
+  /**
+   * Send patch completion notification
+   */
+  async notifyPatchCompleted(
+    imageName: string,
+    patchedImageName: string | null,
+    patchedCount: number,
+    failedCount: number,
+    target?: NotificationTarget
+  ): Promise<void> {
+    await this.notify('PATCH_COMPLETED', {
+      title: 'Patch Completed',
+      message: `Patched ${patchedCount} vulnerabilit${patchedCount === 1 ? 'y' : 'ies'} in ${imageName}${failedCount > 0 ? ` (${failedCount} failed)` : ''}${patchedImageName ? `; the patched image is ${patchedImageName}` : ''}.`,
+      severity: failedCount > 0 ? 'medium' : 'info',
+      imageName,
+      details: { patchedImageName, patchedCount, failedCount }
+    }, target);
+  }
+
+  /**
+   * Send notification about expired vulnerability exceptions
+   */
+  async notifyExceptionsExpired(matches: string[]): Promise<void> {
+    if (matches.length === 0) return;
+    const listed = matches.slice(0, 10).join(', ');
+    const more = matches.length > 10 ? ` and ${matches.length - 10} more` : '';
+
+    await this.notify('EXCEPTIONS_EXPIRED', {
+      title: 'Vulnerability Exceptions Expired',
+      message: `${matches.length} vulnerability exception(s) expired and the findings they covered are active again: ${listed}${more}.`,
+      severity: 'high',
+      details: { exceptions: matches }
+    });
+  }
+
+  /**
+   * Send the weekly report of findings past their remediation SLA
+   */
+  async notifySlaBreaches(
+    counts: { critical: number; high: number; medium: number; low: number },
+    breaches: string[],
+    total: number
+  ): Promise<void> {
+    if (total === 0) return;
+    const more = total > breaches.length ? ` and ${total - breaches.length} more` : '';
+
+    await this.notify('SLA_BREACH', {
+      title: 'Remediation SLA Breaches',
+      message: `${total} vulnerability finding(s) are past their remediation deadline: ${breaches.join(', ')}${more}.`,
+      severity: counts.critical > 0 ? 'critical' : 'high',
+      vulnerabilityCount: counts,
+      details: { breaches, total }
+    });
+  }
+
+  /**
+   * The payload of a digest; chat channels get the summary line, emails the
+   * full digest
+   */
+  private digestPayload(digest: DigestSummary): NotificationPayload {
+    const label = digest.period === 'daily' ? 'day' : 'week';
+    const failing = digest.failingScheduledScans.length;
+    const risky = digest.riskyImages.slice(0, 3)
+      .map(image => `${image.imageName} (${image.riskScore})`)
+      .join(', ');
+
+    return {
+      title: digest.period === 'daily' ? 'Daily Security Digest' : 'Weekly Security Digest',
+      message: `In the past ${label}: ${digest.newCriticals.total} new critical vulnerabilit${digest.newCriticals.total === 1 ? 'y' : 'ies'}, `
+        + `${digest.fixed.total} fixed, ${failing} failing scheduled scan${failing === 1 ? '' : 's'}.`
+        + (risky ? ` Riskiest images: ${risky}.` : ''),
+      severity: digest.newCriticals.total > 0 ? 'critical' : failing > 0 ? 'medium' : 'info',
+      digest,
+    };
+  }
+
+  /**
+   * Send a daily or weekly digest
+   */
+  async notifyDigest(digest: DigestSummary): Promise<void> {
+    await this.notify(digest.period === 'daily' ? 'DAILY_DIGEST' : 'WEEKLY_DIGEST', this.digestPayload(digest));
   }
 
   /**
    * Send system alert notification
    */
-  async notifySystemAlert(title: string, message: string, severity: 'critical' | 'high' | 'medium' | 'low' | 'info' = 'info'): Promise<void> {
-    await this.sendNotification({
+  async notifySystemAlert(title: string, message: string, severity: NotificationSeverity = 'info'): Promise<void> {
+    await this.notify('SYSTEM_ALERT', {
       title,
       message,
       severity
@@ -5,6 +5,8 @@ import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { notificationService } from '@/lib/notifications';
+import { getImageTarget } from '@/lib/notification-routing/events';
 import type {
   PatchOperation,
   PatchOperationStatus,
@@ -245,6 +247,7 @@ export class PatchExecutorTarUnshare {
 
       // Handle patched image
       let patchedImageId: string | null = null;
+      let patchedImageRef: string | null = null;
       
       if (!request.dryRun && successCount > 0) {
         await this.updatePatchOperationStatus(patchOperation.id, 'PUSHING');
@@ -273,6 +276,7 @@ export class PatchExecutorTarUnshare {
         );
         
         patchedImageId = patchedImage.id;
+        patchedImageRef = `${finalImageName}:${finalImageTag}`;
         
       // Move patched tar to reports directory for download
       // Use a unique filename that includes the patch operation ID and target image name
@@ -301,6 +305,10 @@ export class PatchExecutorTarUnshare {
         completedAt: new Date()
       });
 
+      getImageTarget(image.id)
+        .then(target => notificationService.notifyPatchCompleted(`${image.name}:${image.tag}`, patchedImageRef, successCount, failedCount, target))
+        .catch(error => logger.error(`Failed to send patch notification for ${patchOperation.id}:`, error));
+
       // Final summary logging
       logger.info('=== FINAL PATCH SUMMARY ===');
       logger.info(`Operation ID: ${patchOperation.id}`);
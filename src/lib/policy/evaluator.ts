@@ -0,0 +1,230 @@
+import type { PolicyAction, PolicyVerdict, Prisma, ScanPolicyEvaluation, SecurityPolicy, VulnerabilityException } from '@/generated/prisma';
+import { findException } from '@/lib/exceptions/rules';
+import { getActiveExceptions } from '@/lib/exceptions/service';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { findingAliases } from '@/lib/scanner/FindingCorrelator';
+import { findSuppressingVexStatement, type VexImage } from '@/lib/vex/rules';
+import { getVexStatements, type ImportedVexStatement } from '@/lib/vex/service';
+import { evaluateRule, PolicyRulesSchema, type PolicyFindings, type PolicyRule, type PolicyViolation } from './rules';
+
+// Violations stored per policy; the full count is kept in violationCount
+const MAX_STORED_VIOLATIONS = 100;
+
+export interface PolicyResult {
+  policyId: string;
+  policyName: string;
+  action: PolicyAction;
+  passed: boolean;
+  violationCount: number;
+  violations: PolicyViolation[];
+}
+
+interface PolicyTarget {
+  name: string;
+  tag: string;
+  repositoryIds: Set<string>;
+}
+
+function appliesTo(policy: SecurityPolicy, target: PolicyTarget): boolean {
+  switch (policy.scope) {
+    case 'GLOBAL':
+      return true;
+    case 'REPOSITORY':
+      return !!policy.repositoryId && target.repositoryIds.has(policy.repositoryId);
+    case 'IMAGE_PATTERN':
+      if (!policy.imagePattern) return false;
+      try {
+        return new RegExp(policy.imagePattern).test(`${target.name}:${target.tag}`);
+      } catch {
+        logger.warn(`[POLICY] Ignoring policy "${policy.name}": invalid image pattern ${policy.imagePattern}`);
+        return false;
+      }
+  }
+}
+
+function parseRules(policy: SecurityPolicy): PolicyRule[] {
+  const parsed = PolicyRulesSchema.safeParse(policy.rules);
+  if (!parsed.success) {
+    logger.warn(`[POLICY] Ignoring policy "${policy.name}": invalid rules (${parsed.error.issues[0]?.message})`);
+    return [];
+  }
+  return parsed.data;
+}
+
+async function loadFindings(
+  scanId: string,
+  image: VexImage,
+  rules: PolicyRule[],
+  exceptions: VulnerabilityException[],
+  vexStatements: ImportedVexStatement[]
+): Promise<PolicyFindings> {
+  const uses = (type: PolicyRule['type']) => rules.some(rule => rule.type === type);
+
+  const [scan, scanVulnerabilities, packages, compliance] = await Promise.all([
+    prisma.scan.findUnique({ where: { id: scanId }, select: { metadata: { select: { complianceGrade: true } } } }),
+    uses('vulnerability')
+      ? prisma.scanVulnerabilityFinding.findMany({
+          where: { scanId },
+          select: {
+            cveId: true,
+            packageName: true,
+            installedVersion: true,
+            fixedVersion: true,
+            severity: true,
+            cvssScore: true,
+            publishedDate: true,
+            rawFinding: true,
+          },
+        })
+      : [],
+    uses('license')
+      ? prisma.scanPackageFinding.findMany({
+          where: { scanId, license: { not: null } },
+          select: { packageName: true, version: true, license: true },
+        })
+      : [],
+    uses('compliance_finding')
+      ? prisma.scanComplianceFinding.findMany({
+          where: { scanId },
+          select: { ruleId: true, ruleName: true, severity: true, message: true },
+        })
+      : [],
+  ]);
+
+  // Findings covered by an approved exception, or that a VEX statement says
+  // do not affect the image, do not violate policies
+  const vulnerabilities = scanVulnerabilities.filter(finding => {
+    const match = { ...finding, aliases: findingAliases(finding.rawFinding) };
+    return !findException(exceptions, match) && !findSuppressingVexStatement(vexStatements, image, match);
+  });
+
+  // Scanners rarely report a publication date, so age falls back to when the
+  // CVE was first found in any scan of this image
+  const firstSeen = new Map<string, Date>();
+  const needsAge = rules.some(rule => rule.type === 'vulnerability' && rule.olderThanDays !== undefined);
+  if (needsAge && vulnerabilities.length > 0) {
+    const earliest = await prisma.scanVulnerabilityFinding.groupBy({
+      by: ['cveId'],
+      where: {
+        cveId: { in: [...new Set(vulnerabilities.map(v => v.cveId))] },
+        scan: { image: { name: image.name } },
+      },
+      _min: { createdAt: true },
+    });
+    for (const row of earliest) {
+      if (row._min.createdAt) firstSeen.set(row.cveId, row._min.createdAt);
+    }
+  }
+
+  return {
+    vulnerabilities,
+    packages,
+    compliance,
+    complianceGrade: scan?.metadata?.complianceGrade ?? null,
+    firstSeen,
+    now: new Date(),
+  };
+}
+
+/**
+ * The enabled policies that apply to an image, by scope.
+ */
+export async function getApplicablePolicies(image: {
+  name: string;
+  tag: string;
+  primaryRepositoryId: string | null;
+  repositoryImages: Array<{ repositoryId: string }>;
+}): Promise<SecurityPolicy[]> {
+  const target: PolicyTarget = {
+    name: image.name,
+    tag: image.tag,
+    repositoryIds: new Set([
+      ...(image.primaryRepositoryId ? [image.primaryRepositoryId] : []),
+      ...image.repositoryImages.map(ri => ri.repositoryId),
+    ]),
+  };
+
+  const policies = await prisma.securityPolicy.findMany({
+    where: { enabled: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return policies.filter(policy => appliesTo(policy, target));
+}
+
+/**
+ * Evaluate the applicable policies against a scan's findings, less those
+ * covered by an approved exception or a suppressing VEX statement, and store
+ * the verdict. Any violated FAIL policy fails the scan, violated WARN policies
+ * only warn; a scan with no applicable policies passes.
+ *
+ * Returns null for scans that did not complete, which get no verdict.
+ */
+export async function evaluateScanPolicies(scanId: string): Promise<ScanPolicyEvaluation | null> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      status: true,
+      image: {
+        select: {
+          id: true,
+          name: true,
+          tag: true,
+          digest: true,
+          registry: true,
+          primaryRepositoryId: true,
+          repositoryImages: { select: { repositoryId: true } },
+        },
+      },
+    },
+  });
+  if (!scan) throw new Error(`Scan ${scanId} not found`);
+
+  if (scan.status !== 'SUCCESS' && scan.status !== 'PARTIAL') {
+    await prisma.scanPolicyEvaluation.deleteMany({ where: { scanId } });
+    return null;
+  }
+
+  const policies = (await getApplicablePolicies(scan.image))
+    .map(policy => ({ policy, rules: parseRules(policy) }))
+    .filter(({ rules }) => rules.length > 0);
+
+  const [exceptions, vexStatements] = policies.length > 0
+    ? await Promise.all([getActiveExceptions(scan.image), getVexStatements(scan.image)])
+    : [[], []];
+  const findings = await loadFindings(scanId, scan.image, policies.flatMap(({ rules }) => rules), exceptions, vexStatements);
+
+  const results: PolicyResult[] = policies.map(({ policy, rules }) => {
+    const violations = rules.flatMap((rule, index) => evaluateRule(rule, index, findings));
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      action: policy.action,
+      passed: violations.length === 0,
+      violationCount: violations.length,
+      violations: violations.slice(0, MAX_STORED_VIOLATIONS),
+    };
+  });
+
+  const failed = results.filter(result => !result.passed);
+  const verdict: PolicyVerdict = failed.some(result => result.action === 'FAIL')
+    ? 'FAIL'
+    : failed.length > 0 ? 'WARN' : 'PASS';
+
+  const data = {
+    verdict,
+    policyCount: results.length,
+    violationCount: failed.reduce((sum, result) => sum + result.violationCount, 0),
+    results: results as unknown as Prisma.InputJsonValue,
+    evaluatedAt: new Date(),
+  };
+
+  const evaluation = await prisma.scanPolicyEvaluation.upsert({
+    where: { scanId },
+    create: { scanId, ...data },
+    update: data,
+  });
+
+  logger.info(`[POLICY] Scan ${scanId}: ${verdict} (${results.length} policies, ${data.violationCount} violations)`);
+  return evaluation;
+}
@@ -0,0 +1,38 @@
+/**
+ * Re-evaluation of images after the findings that count for them changed,
+ * e.g. when an exception is approved or a VEX document is imported.
+ */
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { recalculateImageRiskScores } from '@/lib/scan-aggregations-server';
+import { refreshImageSla } from '@/lib/sla/service';
+import { evaluateScanPolicies } from './evaluator';
+
+/**
+ * Re-evaluate policies on the latest completed scan of each image and
+ * recalculate its risk scores and SLA tracking. Failures are logged per image.
+ */
+export async function reevaluateImages(images: Array<{ id: string; name: string; tag: string }>): Promise<void> {
+  for (const image of images) {
+    try {
+      const latest = await prisma.scan.findFirst({
+        where: { imageId: image.id, status: { in: ['SUCCESS', 'PARTIAL'] } },
+        orderBy: { startedAt: 'desc' },
+        select: { id: true },
+      });
+      if (latest) await evaluateScanPolicies(latest.id);
+      await recalculateImageRiskScores(image.id);
+    } catch (error) {
+      logger.error(`[POLICY] Failed to re-evaluate ${image.name}:${image.tag}:`, error);
+    }
+  }
+
+  // Tracked per image name, so once for all tags
+  for (const name of new Set(images.map(image => image.name))) {
+    try {
+      await refreshImageSla(name);
+    } catch (error) {
+      logger.error(`[SLA] Failed to refresh SLA tracking for ${name}:`, error);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Security policy rules and how they match scan findings.
+ *
+ * A policy is a list of rules; the policy is violated when any of its rules
+ * matches at least one finding. This module is free of database access so the
+ * same definitions can be used by the API, the evaluator and the UI.
+ */
+import { z } from 'zod';
+import type { Severity } from '@/generated/prisma';
+import { getSeverityWeight } from '@/lib/utils/severity-utils';
+
+export const POLICY_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'] as const;
+
+// Best first; Dockle reports A-F
+export const COMPLIANCE_GRADES = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+
+const VulnerabilityRuleSchema = z.object({
+  type: z.literal('vulnerability'),
+  // Findings at this severity or above match
+  severity: z.enum(POLICY_SEVERITIES),
+  // Only match findings that have (true) or lack (false) a fixed version
+  fixAvailable: z.boolean().optional(),
+  // Only match vulnerabilities known for more than this many days
+  olderThanDays: z.number().int().min(1).max(3650).optional(),
+  minCvss: z.number().min(0).max(10).optional(),
+});
+
+const ComplianceGradeRuleSchema = z.object({
+  type: z.literal('compliance_grade'),
+  // Grades worse than this match
+  minGrade: z.enum(COMPLIANCE_GRADES),
+});
+
+const ComplianceFindingRuleSchema = z.object({
+  type: z.literal('compliance_finding'),
+  severity: z.enum(POLICY_SEVERITIES),
+});
+
+const LicenseRuleSchema = z.object({
+  type: z.literal('license'),
+  // SPDX identifiers; "GPL-3.0" also matches GPL-3.0-only, GPL-3.0-or-later and GPL-3.0+
+  denied: z.array(z.string().trim().min(1)).min(1, 'List at least one denied license'),
+});
+
+export const PolicyRuleSchema = z.discriminatedUnion('type', [
+  VulnerabilityRuleSchema,
+  ComplianceGradeRuleSchema,
+  ComplianceFindingRuleSchema,
+  LicenseRuleSchema,
+]);
+
+export const PolicyRulesSchema = z.array(PolicyRuleSchema).min(1, 'Add at least one rule').max(20);
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyRuleType = PolicyRule['type'];
+
+export interface PolicyViolation {
+  // Index of the rule in the policy
+  rule: number;
+  type: PolicyRuleType;
+  // CVE id, compliance rule id, package name or "complianceGrade"
+  findingId: string;
+  packageName?: string;
+  version?: string | null;
+  severity?: Severity;
+  message: string;
+}
+
+export interface PolicyFindings {
+  vulnerabilities: Array<{
+    cveId: string;
+    packageName: string;
+    installedVersion: string | null;
+    fixedVersion: string | null;
+    severity: Severity;
+    cvssScore: number | null;
+    publishedDate: Date | null;
+  }>;
+  packages: Array<{ packageName: string; version: string | null; license: string | null }>;
+  compliance: Array<{ ruleId: string; ruleName: string; severity: Severity; message: string }>;
+  complianceGrade: string | null;
+  // When a CVE was first found in this image, for rules with olderThanDays
+  firstSeen: Map<string, Date>;
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function atLeast(severity: Severity, minimum: Severity): boolean {
+  return getSeverityWeight(severity) >= getSeverityWeight(minimum);
+}
+
+function normalizeLicenseId(id: string): string {
+  return id.trim().toUpperCase().replace(/(-ONLY|-OR-LATER|\+)$/, '');
+}
+
+/**
+ * Licenses named in an SPDX expression such as "(MIT OR GPL-3.0-or-later)".
+ * Every alternative is returned, so a dual-licensed package matches if any
+ * of its licenses is denied.
+ */
+function getLicenseIds(expression: string): string[] {
+  return expression
+    .split(/[\s(),;/]+/)
+    .filter(token => token && !['AND', 'OR', 'WITH'].includes(token.toUpperCase()))
+    .map(normalizeLicenseId);
+}
+
+function evaluateVulnerabilityRule(
+  rule: z.infer<typeof VulnerabilityRuleSchema>,
+  index: number,
+  findings: PolicyFindings
+): PolicyViolation[] {
+  const violations = new Map<string, PolicyViolation>();
+
+  for (const finding of findings.vulnerabilities) {
+    if (!atLeast(finding.severity, rule.severity)) continue;
+    if (rule.fixAvailable !== undefined && !!finding.fixedVersion !== rule.fixAvailable) continue;
+    if (rule.minCvss !== undefined && (finding.cvssScore ?? 0) < rule.minCvss) continue;
+
+    let ageDays: number | null = null;
+    if (rule.olderThanDays !== undefined) {
+      const knownSince = finding.publishedDate ?? findings.firstSeen.get(finding.cveId);
+      if (!knownSince) continue;
+      ageDays = Math.floor((findings.now.getTime() - knownSince.getTime()) / DAY_MS);
+      if (ageDays <= rule.olderThanDays) continue;
+    }
+
+    // Scanners report the same CVE separately; keep one violation per package version
+    const key = `${finding.cveId}|${finding.packageName}|${finding.installedVersion ?? ''}`;
+    const existing = violations.get(key);
+    if (existing && getSeverityWeight(existing.severity!) >= getSeverityWeight(finding.severity)) continue;
+
+    const details = [
+      finding.fixedVersion ? `fixed in ${finding.fixedVersion}` : 'no fix available',
+      ageDays !== null ? `known for ${ageDays} days` : null,
+    ].filter(Boolean).join(', ');
+
+    violations.set(key, {
+      rule: index,
+      type: rule.type,
+      findingId: finding.cveId,
+      packageName: finding.packageName,
+      version: finding.installedVersion,
+      severity: finding.severity,
+      message: `${finding.severity} ${finding.cveId} in ${finding.packageName}${finding.installedVersion ? ` ${finding.installedVersion}` : ''} (${details})`,
+    });
+  }
+
+  return [...violations.values()];
+}
+
+/**
+ * The findings that violate a single rule. `index` is recorded on each
+ * violation so the UI can point at the rule that matched.
+ */
+export function evaluateRule(rule: PolicyRule, index: number, findings: PolicyFindings): PolicyViolation[] {
+  switch (rule.type) {
+    case 'vulnerability':
+      return evaluateVulnerabilityRule(rule, index, findings);
+
+    case 'compliance_grade': {
+      const grade = findings.complianceGrade?.toUpperCase();
+      const rank = COMPLIANCE_GRADES.indexOf(grade as typeof COMPLIANCE_GRADES[number]);
+      // Scans without a Dockle grade cannot be judged by this rule
+      if (rank < 0 || rank <= COMPLIANCE_GRADES.indexOf(rule.minGrade)) return [];
+      return [{
+        rule: index,
+        type: rule.type,
+        findingId: 'complianceGrade',
+        message: `Compliance grade ${grade} is below the required ${rule.minGrade}`,
+      }];
+    }
+
+    case 'compliance_finding': {
+      const violations = new Map<string, PolicyViolation>();
+      for (const finding of findings.compliance) {
+        if (!atLeast(finding.severity, rule.severity) || violations.has(finding.ruleId)) continue;
+        violations.set(finding.ruleId, {
+          rule: index,
+          type: rule.type,
+          findingId: finding.ruleId,
+          severity: finding.severity,
+          message: `${finding.ruleId} ${finding.ruleName || finding.message}`.trim(),
+        });
+      }
+      return [...violations.values()];
+    }
+
+    case 'license': {
+      const denied = new Set(rule.denied.map(normalizeLicenseId));
+      const violations = new Map<string, PolicyViolation>();
+      for (const pkg of findings.packages) {
+        if (!pkg.license) continue;
+        const match = getLicenseIds(pkg.license).find(id => denied.has(id));
+        const key = `${pkg.packageName}|${pkg.version ?? ''}`;
+        if (!match || violations.has(key)) continue;
+        violations.set(key, {
+          rule: index,
+          type: rule.type,
+          findingId: pkg.packageName,
+          packageName: pkg.packageName,
+          version: pkg.version,
+          message: `${pkg.packageName}${pkg.version ? ` ${pkg.version}` : ''} is licensed under ${pkg.license}`,
+        });
+      }
+      return [...violations.values()];
+    }
+  }
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "No HIGH+ vulnerabilities with a fix available".
+ */
+export function describeRule(rule: PolicyRule): string {
+  switch (rule.type) {
+    case 'vulnerability': {
+      const conditions = [
+        rule.fixAvailable === true ? 'with a fix available' : null,
+        rule.fixAvailable === false ? 'without a fix' : null,
+        rule.olderThanDays !== undefined ? `older than ${rule.olderThanDays} days` : null,
+        rule.minCvss !== undefined ? `with CVSS ≥ ${rule.minCvss}` : null,
+      ].filter(Boolean);
+      const severity = rule.severity === 'CRITICAL' ? 'CRITICAL' : `${rule.severity}+`;
+      return [`No ${severity} vulnerabilities`, ...conditions].join(' ');
+    }
+    case 'compliance_grade':
+      return `Compliance grade must be ${rule.minGrade} or better`;
+    case 'compliance_finding':
+      return `No ${rule.severity === 'CRITICAL' ? 'CRITICAL' : `${rule.severity}+`} compliance findings`;
+    case 'license':
+      return `No packages licensed under ${rule.denied.join(', ')}`;
+  }
+}
+
+/**
+ * Body of a policy create or update request.
+ */
+export const SecurityPolicyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  enabled: z.boolean().default(true),
+  action: z.enum(['FAIL', 'WARN']).default('FAIL'),
+  scope: z.enum(['GLOBAL', 'REPOSITORY', 'IMAGE_PATTERN']).default('GLOBAL'),
+  repositoryId: z.string().nullable().optional(),
+  imagePattern: z.string().trim().nullable().optional(),
+  rules: PolicyRulesSchema,
+}).superRefine((policy, ctx) => {
+  if (policy.scope === 'REPOSITORY' && !policy.repositoryId) {
+    ctx.addIssue({ code: 'custom', message: 'Select a repository for repository-scoped policies', path: ['repositoryId'] });
+  }
+  if (policy.scope === 'IMAGE_PATTERN') {
+    if (!policy.imagePattern) {
+      ctx.addIssue({ code: 'custom', message: 'Image pattern is required for pattern-scoped policies', path: ['imagePattern'] });
+      return;
+    }
+    try {
+      new RegExp(policy.imagePattern);
+    } catch {
+      ctx.addIssue({ code: 'custom', message: `Invalid image pattern: ${policy.imagePattern}`, path: ['imagePattern'] });
+    }
+  }
+});
+
+export type SecurityPolicyInput = z.infer<typeof SecurityPolicyInputSchema>;
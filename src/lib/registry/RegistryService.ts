@@ -1,6 +1,7 @@
 import { PrismaClient, type Repository } from '@/generated/prisma';
 import { RegistryProviderFactory } from './providers/RegistryProviderFactory';
 import { RegistryMetadataCache } from './cache/RegistryMetadataCache';
+import { encryptRepositoryPassword, getRepositoryPassword } from './credentials';
 import type { 
   RegistryImage, 
   ImageTag, 
@@ -223,6 +224,7 @@ export class RegistryService {
     username: string;
     password: string;
     organization?: string;
+    authUrl?: string;
     protocol?: string;
     skipTlsVerify?: boolean;
     registryPort?: number;
@@ -268,9 +270,10 @@ export class RegistryService {
       protocol,
       registryUrl: cleanRegistryUrl,
       username: repositoryData.username,
-      encryptedPassword: repositoryData.password, // TODO: encrypt in production
+      // Plaintext is fine here: this object is only used for validation and the connection test
+      encryptedPassword: repositoryData.password,
       organization: repositoryData.organization || null,
-      authUrl: null,
+      authUrl: repositoryData.authUrl || null,
       groupId: null,
       skipTlsVerify: repositoryData.skipTlsVerify || false,
       registryPort: repositoryData.registryPort || null,
@@ -281,6 +284,8 @@ export class RegistryService {
       capabilities: null,
       rateLimits: null,
       healthCheck: null,
+      webhookSecret: null,
+      tagsSyncedAt: null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -337,8 +342,9 @@ export class RegistryService {
           name: repositoryData.name,
           type: upperType,
           protocol,
-          encryptedPassword: repositoryData.password, // TODO: encrypt
+          encryptedPassword: encryptRepositoryPassword(repositoryData.password),
           organization: repositoryData.organization || null,
+          authUrl: repositoryData.authUrl || null,
           skipTlsVerify: repositoryData.skipTlsVerify || false,
           registryPort: repositoryData.registryPort || null,
           status,
@@ -369,8 +375,9 @@ export class RegistryService {
         protocol,
         registryUrl: cleanRegistryUrl,
         username: repositoryData.username,
-        encryptedPassword: repositoryData.password, // TODO: encrypt
+        encryptedPassword: encryptRepositoryPassword(repositoryData.password),
         organization: repositoryData.organization || null,
+        authUrl: repositoryData.authUrl || null,
         skipTlsVerify: repositoryData.skipTlsVerify || false,
         registryPort: repositoryData.registryPort || null,
         status,
@@ -445,7 +452,7 @@ export class RegistryService {
     
     if (data.name) updateData.name = data.name;
     if (data.username) updateData.username = data.username;
-    if (data.password) updateData.encryptedPassword = data.password; // TODO: encrypt
+    if (data.password) updateData.encryptedPassword = encryptRepositoryPassword(data.password);
     if (data.organization !== undefined) updateData.organization = data.organization || null;
     if (data.registryUrl) updateData.registryUrl = data.registryUrl;
     
@@ -474,7 +481,7 @@ export class RegistryService {
 
     return {
       username: repository.username,
-      password: repository.encryptedPassword, // TODO: decrypt in production
+      password: getRepositoryPassword(repository),
       registryUrl: repository.registryUrl
     };
   }
@@ -1,5 +1,6 @@
 import { PrismaClient, Repository, RepositoryType, RepositoryStatus } from '@/generated/prisma';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from './credentials';
 
 export interface RepositoryCredentials {
   username: string;
@@ -66,13 +67,11 @@ export class RepositoryService {
     const repository = await this.getActiveById(id);
     if (!repository) return null;
     
-    // TODO: Implement proper credential decryption
-    // For now, returning plain text (should be encrypted in production)
     return {
       ...repository,
       credentials: repository.username && repository.encryptedPassword ? {
         username: repository.username,
-        password: repository.encryptedPassword // Should decrypt here
+        password: getRepositoryPassword(repository)
       } : undefined
     };
   }
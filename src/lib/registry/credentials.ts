@@ -0,0 +1,105 @@
+import type { Repository } from '@/generated/prisma';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import {
+  decryptSecret,
+  encryptSecret,
+  getCurrentMasterKeyId,
+  getEncryptionKeyId,
+  isMasterKeyConfigured,
+} from '@/lib/crypto/envelope';
+
+/**
+ * Encrypt a registry password or token for Repository.encryptedPassword.
+ */
+export function encryptRepositoryPassword(password: string): string {
+  return encryptSecret(password);
+}
+
+/**
+ * The plaintext registry password or token of a repository. Unsaved
+ * repositories (connection tests) carry plaintext, which passes through.
+ */
+export function getRepositoryPassword(repository: Pick<Repository, 'encryptedPassword'>): string {
+  return repository.encryptedPassword ? decryptSecret(repository.encryptedPassword) : '';
+}
+
+export interface CredentialReencryptionResult {
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+/**
+ * Re-encrypt stored registry credentials and webhook secrets with the
+ * current master key.
+ *
+ * By default only plaintext values and values encrypted with an older key
+ * are rewritten; with `all` every value gets a fresh data key.
+ */
+export async function reencryptRepositoryCredentials(
+  options: { all?: boolean } = {}
+): Promise<CredentialReencryptionResult> {
+  const currentKeyId = getCurrentMasterKeyId();
+  if (!currentKeyId) {
+    throw new Error('HG_MASTER_KEY (or HG_MASTER_KEY_FILE) must be set to encrypt registry credentials');
+  }
+
+  const repositories = await prisma.repository.findMany({
+    where: { OR: [{ encryptedPassword: { not: '' } }, { webhookSecret: { not: null } }] },
+    select: { id: true, name: true, encryptedPassword: true, webhookSecret: true },
+  });
+
+  const result: CredentialReencryptionResult = { updated: 0, unchanged: 0, failed: 0 };
+  const needsUpdate = (value: string | null): value is string =>
+    !!value && (options.all || getEncryptionKeyId(value) !== currentKeyId);
+
+  for (const repository of repositories) {
+    const { encryptedPassword, webhookSecret } = repository;
+    if (!needsUpdate(encryptedPassword) && !needsUpdate(webhookSecret)) {
+      result.unchanged++;
+      continue;
+    }
+
+    try {
+      // Only replace the values we read, in case the repository was updated meanwhile
+      const update = await prisma.repository.updateMany({
+        where: { id: repository.id, encryptedPassword, webhookSecret },
+        data: {
+          ...(needsUpdate(encryptedPassword) && { encryptedPassword: encryptSecret(decryptSecret(encryptedPassword)) }),
+          ...(needsUpdate(webhookSecret) && { webhookSecret: encryptSecret(decryptSecret(webhookSecret)) }),
+        },
+      });
+      if (update.count > 0) {
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error(`[CRYPTO] Failed to re-encrypt credentials of repository "${repository.name}":`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Startup migration: encrypt plaintext credentials and move rows off retired
+ * master keys once HG_MASTER_KEY is configured.
+ */
+export async function migrateRepositoryCredentials(): Promise<void> {
+  try {
+    if (!isMasterKeyConfigured()) {
+      logger.warn('[CRYPTO] HG_MASTER_KEY is not set; registry credentials are stored unencrypted');
+      return;
+    }
+
+    const result = await reencryptRepositoryCredentials();
+    if (result.updated > 0 || result.failed > 0) {
+      logger.info(`[CRYPTO] Encrypted registry credentials: ${result.updated} updated, ${result.failed} failed`);
+    }
+  } catch (error) {
+    logger.error('[CRYPTO] Failed to migrate registry credentials:', error);
+  }
+}
@@ -10,6 +10,10 @@ import { NexusProvider } from './nexus/NexusProvider';
 import { ACRProvider } from './acr/ACRProvider';
 import { GARProvider } from './gar/GARProvider';
 import { GiteaProvider } from './gitea/GiteaProvider';
+import { ECRProvider } from './ecr/ECRProvider';
+import { HarborProvider } from './harbor/HarborProvider';
+import { QuayProvider } from './quay/QuayProvider';
+import { ArtifactoryProvider } from './artifactory/ArtifactoryProvider';
 
 export class RegistryProviderFactory {
   private static providers = new Map<RepositoryType, new (repository: Repository) => EnhancedRegistryProvider>();
@@ -24,11 +28,10 @@ export class RegistryProviderFactory {
     this.register('ACR', ACRProvider);
     this.register('GCR', GARProvider);
     this.register('GITEA', GiteaProvider);
-    // ECR, QUAY, HARBOR, ARTIFACTORY use GenericOCI as fallback
-    this.register('ECR', GenericOCIProvider);
-    this.register('QUAY', GenericOCIProvider);
-    this.register('HARBOR', GenericOCIProvider);
-    this.register('ARTIFACTORY', GenericOCIProvider);
+    this.register('ECR', ECRProvider);
+    this.register('HARBOR', HarborProvider);
+    this.register('QUAY', QuayProvider);
+    this.register('ARTIFACTORY', ArtifactoryProvider);
   }
   
   /**
@@ -84,6 +87,22 @@ export class RegistryProviderFactory {
       return new GiteaProvider(repository);
     }
 
+    if (ECRProvider.canHandle(repository)) {
+      return new ECRProvider(repository);
+    }
+
+    if (HarborProvider.canHandle(repository)) {
+      return new HarborProvider(repository);
+    }
+
+    if (QuayProvider.canHandle(repository)) {
+      return new QuayProvider(repository);
+    }
+
+    if (ArtifactoryProvider.canHandle(repository)) {
+      return new ArtifactoryProvider(repository);
+    }
+
     // GenericOCIProvider is the fallback for any other registry
     if (GenericOCIProvider.canHandle(repository)) {
       return new GenericOCIProvider(repository);
@@ -137,6 +156,8 @@ export class RegistryProviderFactory {
         capabilities: null,
         rateLimits: null,
         healthCheck: null,
+        webhookSecret: null,
+        tagsSyncedAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -11,6 +11,7 @@ import type {
   RegistryConfig
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 export interface ACRProviderConfig extends RegistryConfig {
   registryName: string;
@@ -54,7 +55,7 @@ export class ACRProvider extends EnhancedRegistryProvider {
       registryName,
       registryUrl,
       username: repository.username,
-      password: repository.encryptedPassword // TODO: decrypt in production
+      password: getRepositoryPassword(repository)
     };
   }
 
@@ -0,0 +1,296 @@
+import type { Repository } from '@/generated/prisma';
+import { EnhancedRegistryProvider } from '../base/EnhancedRegistryProvider';
+import type {
+  RegistryImage,
+  ImageTag,
+  ImageMetadata,
+  ConnectionTestResult,
+  ListImagesOptions,
+  RegistryCapability,
+  RateLimit,
+  RegistryConfig
+} from '../../types';
+import { getRepositoryPassword } from '../../credentials';
+
+export interface ArtifactoryProviderConfig extends RegistryConfig {
+  registryHost: string;
+  protocol: string;
+  username: string;
+  password: string;
+  repositoryKey: string | null;
+  skipTlsVerify: boolean;
+}
+
+type ArtifactoryRepositoryClass = 'LOCAL' | 'REMOTE' | 'VIRTUAL' | 'FEDERATED';
+
+interface ArtifactoryRepository {
+  key: string;
+  type: ArtifactoryRepositoryClass;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * JFrog Artifactory provider using the Docker API of each repository
+ * (`/artifactory/api/docker/<key>/v2`) with the repository path access
+ * method, so images are addressed as `<host>/<key>/<image>:<tag>`.
+ *
+ * With a repository key in `organization` only that repository is listed;
+ * a virtual repository lists everything it aggregates and a remote
+ * repository lists the images it has cached. Without one, all local and
+ * federated Docker repositories are listed, skipping virtual repositories
+ * (which would repeat them) and remote ones (which only mirror upstream).
+ * The password may be an API key or an access token.
+ */
+export class ArtifactoryProvider extends EnhancedRegistryProvider {
+  protected config: ArtifactoryProviderConfig;
+
+  constructor(repository: Repository) {
+    super(repository);
+    this.config = this.parseConfig(repository) as ArtifactoryProviderConfig;
+  }
+
+  getProviderName(): string {
+    return 'JFrog Artifactory';
+  }
+
+  getSupportedCapabilities(): RegistryCapability[] {
+    return ['LIST_IMAGES', 'GET_TAGS', 'GET_METADATA'];
+  }
+
+  getRateLimits(): RateLimit {
+    return {
+      requestsPerHour: 10000,
+      requestsPerMinute: 300,
+      burstLimit: 100
+    };
+  }
+
+  protected parseConfig(repository: Repository): ArtifactoryProviderConfig {
+    let registryHost = repository.registryUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    if (repository.registryPort && !registryHost.includes(':')) {
+      registryHost = `${registryHost}:${repository.registryPort}`;
+    }
+
+    return {
+      registryHost,
+      protocol: repository.protocol || 'https',
+      username: repository.username,
+      password: getRepositoryPassword(repository),
+      repositoryKey: repository.organization?.trim() || null,
+      skipTlsVerify: repository.skipTlsVerify
+    };
+  }
+
+  validateConfiguration(): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!this.config.registryHost) {
+      errors.push('Registry URL is required for Artifactory');
+    }
+    if (!this.config.username || !this.config.password) {
+      errors.push('Username and password, API key or access token are required for Artifactory');
+    }
+    if (this.config.repositoryKey && !/^[A-Za-z0-9._-]+$/.test(this.config.repositoryKey)) {
+      errors.push('Repository key may only contain letters, digits, ".", "_" and "-"');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const auth = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
+    return { Authorization: `Basic ${auth}` };
+  }
+
+  async getSkopeoAuthArgs(): Promise<string> {
+    if (!this.config.username || !this.config.password) {
+      return '--no-creds';
+    }
+    return this.formatSkopeoCreds(this.config.username, this.config.password);
+  }
+
+  protected shouldVerifyTLS(): boolean {
+    return !this.config.skipTlsVerify && super.shouldVerifyTLS();
+  }
+
+  private getApiUrl(path: string): string {
+    return `${this.config.protocol}://${this.config.registryHost}/artifactory/api${path}`;
+  }
+
+  protected async makeAuthenticatedRequest(url: string, options?: RequestInit): Promise<Response> {
+    const headers = await this.getAuthHeaders();
+    const fetchOptions: RequestInit & { dispatcher?: any } = {
+      ...options,
+      headers: { Accept: 'application/json', ...headers, ...options?.headers }
+    };
+
+    if (this.config.skipTlsVerify) {
+      const { Agent } = await import('undici');
+      fetchOptions.dispatcher = new Agent({
+        connect: {
+          rejectUnauthorized: false
+        }
+      });
+    }
+
+    await this.handleRateLimit();
+    this.logRequest(options?.method || 'GET', url);
+    const response = await fetch(url, fetchOptions);
+
+    if (!response.ok) {
+      // Artifactory reports errors as {"errors": [{"status": 404, "message": "..."}]}
+      const body = await response.json().catch(() => null);
+      const message = body?.errors?.[0]?.message || response.statusText;
+      if (response.status === 401) {
+        throw new Error(`HTTP 401: Authentication failed. Check the Artifactory username and password, API key or access token. ${message}`);
+      }
+      throw new Error(`HTTP ${response.status}: ${message}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * The Docker repositories to list: the configured one, or every local and
+   * federated Docker repository
+   */
+  private async getDockerRepositories(): Promise<ArtifactoryRepository[]> {
+    if (this.config.repositoryKey) {
+      const repo = await (await this.makeAuthenticatedRequest(
+        this.getApiUrl(`/repositories/${encodeURIComponent(this.config.repositoryKey)}`)
+      )).json();
+      if (String(repo.packageType).toLowerCase() !== 'docker') {
+        throw new Error(`Artifactory repository ${this.config.repositoryKey} is a ${repo.packageType} repository, not a Docker repository`);
+      }
+      return [{ key: repo.key, type: String(repo.rclass).toUpperCase() as ArtifactoryRepositoryClass }];
+    }
+
+    const repositories = await (await this.makeAuthenticatedRequest(
+      this.getApiUrl('/repositories?packageType=docker')
+    )).json() as ArtifactoryRepository[];
+    return repositories.filter(repo => repo.type === 'LOCAL' || repo.type === 'FEDERATED');
+  }
+
+  /**
+   * Follow `n`/`last` pagination of a Docker API list in one repository
+   */
+  private async getAllPages(key: string, path: string, field: 'repositories' | 'tags', limit = Infinity): Promise<string[]> {
+    const items: string[] = [];
+    let last: string | undefined;
+
+    while (items.length < limit) {
+      const query = new URLSearchParams({ n: String(PAGE_SIZE), ...(last ? { last } : {}) });
+      const response = await this.makeAuthenticatedRequest(
+        this.getApiUrl(`/docker/${encodeURIComponent(key)}/v2/${path}?${query}`)
+      );
+      const batch: string[] = (await response.json())[field] || [];
+      items.push(...batch);
+      if (batch.length < PAGE_SIZE) break;
+      last = batch[batch.length - 1];
+    }
+
+    return items.slice(0, limit);
+  }
+
+  async listImages(options: ListImagesOptions = {}): Promise<RegistryImage[]> {
+    const end = options.limit ? (options.offset || 0) + options.limit : Infinity;
+    const fetchLimit = options.query || options.namespace ? Infinity : end;
+    const images: RegistryImage[] = [];
+
+    for (const repo of await this.getDockerRepositories()) {
+      if (images.length >= fetchLimit) break;
+      const names = await this.getAllPages(repo.key, '_catalog', 'repositories', fetchLimit - images.length);
+      for (const name of names) {
+        const fullName = `${repo.key}/${name}`;
+        const { namespace, imageName } = this.parseImageName(fullName);
+        images.push({
+          namespace,
+          name: imageName,
+          fullName,
+          description: `Artifactory ${repo.type.toLowerCase()} repository ${repo.key}: ${name}`,
+          isPrivate: true
+        });
+      }
+    }
+
+    const query = options.query?.toLowerCase();
+    return images
+      .filter(image => !options.namespace || image.fullName.startsWith(`${options.namespace}/`))
+      .filter(image => !query || image.fullName.toLowerCase().includes(query))
+      .slice(options.offset || 0, end);
+  }
+
+  /**
+   * Split "<repository key>/<image>" into its parts, dropping a registry host
+   * prefix
+   */
+  private splitImage(image: string): { key: string; name: string } {
+    const fullName = image.replace(new RegExp(`^${this.escapeRegExp(this.config.registryHost)}/`), '');
+    const slash = fullName.indexOf('/');
+    if (slash === -1) {
+      if (!this.config.repositoryKey) {
+        throw new Error(`Image ${image} has no Artifactory repository key`);
+      }
+      return { key: this.config.repositoryKey, name: fullName };
+    }
+    return { key: fullName.substring(0, slash), name: fullName.substring(slash + 1) };
+  }
+
+  async getTags(namespace: string | null, imageName: string): Promise<ImageTag[]> {
+    const { key, name } = this.splitImage(this.buildFullName(namespace, imageName));
+    const tags = await this.getAllPages(key, `${name}/tags/list`, 'tags');
+
+    return tags.map(tag => ({
+      name: tag,
+      size: null,
+      lastUpdated: null,
+      digest: null
+    }));
+  }
+
+  async getImageMetadata(namespace: string | null, imageName: string): Promise<ImageMetadata> {
+    const { key } = this.splitImage(this.buildFullName(namespace, imageName));
+    const tags = await this.getTags(namespace, imageName);
+
+    return {
+      namespace,
+      name: imageName,
+      description: `Artifactory repository ${key}`,
+      isPrivate: true,
+      tags,
+      availableTags: tags
+    };
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const info = await (await this.makeAuthenticatedRequest(this.getApiUrl('/system/version'))).json();
+      const images = await this.listImages({ limit: 100 });
+      const version = info.version ? ` ${info.version}` : '';
+      const scope = this.config.repositoryKey ? ` (repository ${this.config.repositoryKey})` : '';
+
+      return {
+        success: true,
+        message: `Successfully connected to Artifactory${version} at ${this.config.registryHost}${scope}`,
+        repositoryCount: images.length,
+        capabilities: this.getSupportedCapabilities()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: error instanceof Error ? error : new Error('Unknown error')
+      };
+    }
+  }
+
+  formatFullImageReference(image: string, tag: string): string {
+    const { key, name } = this.splitImage(image);
+    return `${this.config.registryHost}/${key}/${name}:${tag || 'latest'}`;
+  }
+
+  static canHandle(repository: Repository): boolean {
+    return repository.type === 'ARTIFACTORY';
+  }
+}
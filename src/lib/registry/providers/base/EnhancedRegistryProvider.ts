@@ -2,6 +2,7 @@ import { promisify } from 'util';
 import { exec } from 'child_process';
 import type { Repository } from '@/generated/prisma';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 import type {
   RegistryImage,
   ImageTag,
@@ -114,7 +115,7 @@ export abstract class EnhancedRegistryProvider {
    * Pull an image from the registry to local tar archive
    */
   async pullImage(image: string, tag: string, destination: string): Promise<void> {
-    const imageRef = this.formatFullImageReference(image, tag);
+    const imageRef = this.formatPinnedReference(image, tag);
     const authArgs = await this.getSkopeoAuthArgs();
     const srcAuthArgs = authArgs.replace('--creds', '--src-creds').replace('--no-creds', '--src-no-creds');
     const tlsVerify = this.shouldVerifyTLS() ? '' : '--src-tls-verify=false';
@@ -184,7 +185,7 @@ export abstract class EnhancedRegistryProvider {
    * Inspect an image to get detailed metadata
    */
   async inspectImage(image: string, tag: string): Promise<ImageInspection> {
-    const imageRef = this.formatFullImageReference(image, tag);
+    const imageRef = this.formatPinnedReference(image, tag);
     const authArgs = await this.getSkopeoAuthArgs();
     const tlsVerify = this.shouldVerifyTLS() ? '' : '--tls-verify=false';
 
@@ -456,6 +457,38 @@ export abstract class EnhancedRegistryProvider {
     return namespace ? `${namespace}/${imageName}` : imageName;
   }
   
+  /**
+   * Skopeo `--creds` argument, escaped for the double-quoted shell string the
+   * command runs in, so `$`, `"`, `\` and backticks are passed as typed
+   */
+  protected formatSkopeoCreds(username: string, password: string): string {
+    const escape = (value: string) => value.replace(/[\\"$`]/g, '\\$&');
+    return `--creds "${escape(username)}:${escape(password)}"`;
+  }
+
+  /**
+   * Match a configured value (e.g. a registry host) literally in a RegExp
+   */
+  protected escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  protected isDigestReference(tagOrDigest: string): boolean {
+    return /^sha256:[a-f0-9]{64}$/.test(tagOrDigest);
+  }
+
+  /**
+   * Format a reference to a tag or, when given a `sha256:` digest, to that
+   * exact manifest. Providers only format `name:tag`, so the digest takes
+   * the tag's place.
+   */
+  protected formatPinnedReference(image: string, tagOrDigest: string): string {
+    if (!this.isDigestReference(tagOrDigest)) {
+      return this.formatFullImageReference(image, tagOrDigest);
+    }
+    return this.formatFullImageReference(image, 'latest').replace(/:latest$/, `@${tagOrDigest}`);
+  }
+
   /**
    * Format an image reference for the registry
    */
@@ -625,7 +658,7 @@ export abstract class EnhancedRegistryProvider {
 
     // Exchange credentials for a bearer token
     const credentials = Buffer.from(
-      `${this.repository.username}:${this.repository.encryptedPassword}`
+      `${this.repository.username}:${getRepositoryPassword(this.repository)}`
     ).toString('base64');
 
     try {
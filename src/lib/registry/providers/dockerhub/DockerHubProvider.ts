@@ -12,6 +12,7 @@ import type {
   RateLimit
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 export class DockerHubProvider extends EnhancedRegistryProvider {
   private token?: string;
@@ -42,7 +43,7 @@ export class DockerHubProvider extends EnhancedRegistryProvider {
   protected parseConfig(repository: Repository): DockerHubConfig {
     return {
       username: repository.username,
-      password: repository.encryptedPassword, // TODO: decrypt in production
+      password: getRepositoryPassword(repository),
       organization: repository.organization || undefined,
       apiBaseUrl: 'https://hub.docker.com/v2'
     };
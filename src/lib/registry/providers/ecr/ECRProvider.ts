@@ -0,0 +1,489 @@
+import crypto from 'crypto';
+import type { Repository } from '@/generated/prisma';
+import { EnhancedRegistryProvider } from '../base/EnhancedRegistryProvider';
+import type {
+  RegistryImage,
+  ImageTag,
+  ImageMetadata,
+  ConnectionTestResult,
+  ListImagesOptions,
+  RegistryCapability,
+  RateLimit,
+  RegistryConfig,
+  RegistryVulnerability
+} from '../../types';
+import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
+import { signAwsRequest, type AwsCredentials } from './aws-signing';
+
+export interface ECRProviderConfig extends RegistryConfig {
+  registryHost: string;
+  accountId: string | null;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  roleArn: string | null;
+  apiEndpoint: string;
+}
+
+interface ECRAuthorization {
+  password: string;
+  expiresAt: Date;
+}
+
+const ECR_HOST_PATTERN = /^(\d{12})\.dkr\.ecr(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com(?:\.cn)?$/;
+
+// Tokens are valid for 12 hours; renew well before so pulls never race the expiry
+const TOKEN_REFRESH_MARGIN_MS = 30 * 60 * 1000;
+const ROLE_SESSION_SECONDS = 3600;
+const PAGE_SIZE = 1000;
+
+// Providers are created per request, so tokens are shared by credentials
+const authorizations = new Map<string, ECRAuthorization>();
+const roleSessions = new Map<string, AwsCredentials>();
+
+/**
+ * Amazon Elastic Container Registry provider.
+ *
+ * Access keys (username and password) or, when they are left empty, the
+ * server's AWS_* environment credentials sign ECR API requests, optionally
+ * after assuming the role ARN stored in `organization`. GetAuthorizationToken
+ * exchanges them for the 12 hour registry password skopeo pulls with.
+ * `authUrl` overrides the ECR API endpoint, e.g. for VPC endpoints.
+ */
+export class ECRProvider extends EnhancedRegistryProvider {
+  protected config: ECRProviderConfig;
+
+  constructor(repository: Repository) {
+    super(repository);
+    this.config = this.parseConfig(repository) as ECRProviderConfig;
+  }
+
+  getProviderName(): string {
+    return 'Amazon Elastic Container Registry';
+  }
+
+  getSupportedCapabilities(): RegistryCapability[] {
+    return ['LIST_IMAGES', 'GET_TAGS', 'GET_METADATA', 'DELETE_IMAGES', 'VULNERABILITY_SCANNING'];
+  }
+
+  getRateLimits(): RateLimit {
+    // DescribeImages and DescribeRepositories allow 10 requests per second per account
+    return {
+      requestsPerHour: 36000,
+      requestsPerMinute: 600,
+      burstLimit: 20
+    };
+  }
+
+  protected parseConfig(repository: Repository): ECRProviderConfig {
+    const registryHost = repository.registryUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    const match = registryHost.match(ECR_HOST_PATTERN);
+    const region = match?.[2] || process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || '';
+
+    return {
+      registryHost,
+      accountId: match?.[1] ?? null,
+      region,
+      accessKeyId: repository.username,
+      secretAccessKey: getRepositoryPassword(repository),
+      roleArn: repository.organization || null,
+      apiEndpoint: (repository.authUrl || `https://api.ecr.${region}.amazonaws.com`).replace(/\/$/, '')
+    };
+  }
+
+  validateConfiguration(): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!this.config.registryHost) {
+      errors.push('Registry URL is required (e.g. 123456789012.dkr.ecr.us-east-1.amazonaws.com)');
+    }
+    if (!this.config.region) {
+      errors.push('Region could not be determined from the registry URL; use the account registry URL or set AWS_REGION');
+    }
+    if (!!this.config.accessKeyId !== !!this.config.secretAccessKey) {
+      errors.push('Access key ID and secret access key must be provided together');
+    }
+    if (!this.config.accessKeyId && !process.env.AWS_ACCESS_KEY_ID) {
+      errors.push('Access keys are required unless AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are set on the server');
+    }
+    if (this.config.roleArn && !/^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/.test(this.config.roleArn)) {
+      errors.push('Role ARN must look like arn:aws:iam::123456789012:role/name');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  // ===== Authentication =====
+
+  /**
+   * Exchange the AWS credentials for a new registry password
+   */
+  async refreshAuth(): Promise<void> {
+    const data = await this.callEcr('GetAuthorizationToken', {});
+    const authorization = data.authorizationData?.[0];
+    if (!authorization?.authorizationToken) {
+      throw new Error('ECR returned no authorization token');
+    }
+
+    // The token is base64 of "AWS:<password>"
+    const decoded = Buffer.from(authorization.authorizationToken, 'base64').toString('utf8');
+    authorizations.set(this.cacheKey(), {
+      password: decoded.slice(decoded.indexOf(':') + 1),
+      expiresAt: new Date(this.parseTimestamp(authorization.expiresAt) ?? Date.now() + 12 * 3600 * 1000)
+    });
+    logger.info(`Obtained ECR authorization token for ${this.config.registryHost}`);
+  }
+
+  private async getRegistryPassword(): Promise<string> {
+    const cached = authorizations.get(this.cacheKey());
+    if (!cached || cached.expiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshAuth();
+    }
+    return authorizations.get(this.cacheKey())!.password;
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const password = await this.getRegistryPassword();
+    return { Authorization: `Basic ${Buffer.from(`AWS:${password}`).toString('base64')}` };
+  }
+
+  async getSkopeoAuthArgs(): Promise<string> {
+    const password = await this.getRegistryPassword();
+    return `--creds "AWS:${password}"`;
+  }
+
+  private cacheKey(): string {
+    const { apiEndpoint, region, accessKeyId, secretAccessKey, roleArn } = this.config;
+    return crypto.createHash('sha256')
+      .update([apiEndpoint, region, accessKeyId, secretAccessKey, roleArn ?? ''].join('\n'))
+      .digest('hex');
+  }
+
+  private baseCredentials(): AwsCredentials {
+    if (this.config.accessKeyId) {
+      return { accessKeyId: this.config.accessKeyId, secretAccessKey: this.config.secretAccessKey };
+    }
+    if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
+      throw new Error('No AWS credentials configured for this repository or the server');
+    }
+    return {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      sessionToken: process.env.AWS_SESSION_TOKEN
+    };
+  }
+
+  private async getCredentials(): Promise<AwsCredentials> {
+    const base = this.baseCredentials();
+    if (!this.config.roleArn) return base;
+
+    const cached = roleSessions.get(this.cacheKey());
+    if (cached?.expiration && cached.expiration.getTime() - Date.now() > 5 * 60 * 1000) {
+      return cached;
+    }
+
+    const endpoint = process.env.AWS_ENDPOINT_URL_STS || `https://sts.${this.config.region}.amazonaws.com`;
+    const body = new URLSearchParams({
+      Action: 'AssumeRole',
+      Version: '2011-06-15',
+      RoleArn: this.config.roleArn,
+      RoleSessionName: 'harborguard',
+      DurationSeconds: String(ROLE_SESSION_SECONDS)
+    }).toString();
+
+    this.logRequest('POST', `${endpoint} AssumeRole`);
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: signAwsRequest({
+        method: 'POST',
+        url: endpoint,
+        region: this.config.region,
+        service: 'sts',
+        credentials: base,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8' },
+        body
+      }),
+      body
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      const message = text.match(/<Message>([^<]*)<\/Message>/)?.[1] || `HTTP ${response.status}`;
+      throw new Error(`Failed to assume role ${this.config.roleArn}: ${message}`);
+    }
+
+    const field = (name: string) => text.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1];
+    const accessKeyId = field('AccessKeyId');
+    const secretAccessKey = field('SecretAccessKey');
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error(`STS returned no credentials for role ${this.config.roleArn}`);
+    }
+
+    const credentials: AwsCredentials = {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: field('SessionToken'),
+      expiration: new Date(field('Expiration') || Date.now() + ROLE_SESSION_SECONDS * 1000)
+    };
+    roleSessions.set(this.cacheKey(), credentials);
+    return credentials;
+  }
+
+  /**
+   * Call an action of the ECR API (JSON 1.1 protocol)
+   */
+  private async callEcr(action: string, payload: Record<string, unknown>): Promise<any> {
+    const credentials = await this.getCredentials();
+    const url = `${this.config.apiEndpoint}/`;
+    const body = JSON.stringify(payload);
+
+    this.logRequest('POST', `${url} ${action}`);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: signAwsRequest({
+          method: 'POST',
+          url,
+          region: this.config.region,
+          service: 'ecr',
+          credentials,
+          headers: {
+            'Content-Type': 'application/x-amz-json-1.1',
+            'X-Amz-Target': `AmazonEC2ContainerRegistry_V20150921.${action}`
+          },
+          body
+        }),
+        body
+      });
+    } catch (error) {
+      throw new Error(`Cannot reach the ECR API at ${this.config.apiEndpoint}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const type = String(data.__type || '').split('#').pop() || `HTTP ${response.status}`;
+      throw new Error(`${type}: ${data.message || data.Message || response.statusText}`);
+    }
+    return data;
+  }
+
+  /**
+   * Call a paginated ECR action and collect the items of every page
+   */
+  private async callEcrPaginated<T>(
+    action: string,
+    payload: Record<string, unknown>,
+    itemsKey: string,
+    limit = Infinity
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      await this.handleRateLimit();
+      const data = await this.callEcr(action, {
+        ...payload,
+        maxResults: Math.min(PAGE_SIZE, limit - items.length),
+        ...(nextToken ? { nextToken } : {})
+      });
+      items.push(...(data[itemsKey] || []));
+      nextToken = data.nextToken;
+    } while (nextToken && items.length < limit);
+
+    return items;
+  }
+
+  private parseTimestamp(value: unknown): number | null {
+    if (typeof value === 'number') return value * 1000;
+    if (typeof value === 'string') {
+      const time = new Date(value).getTime();
+      return Number.isNaN(time) ? null : time;
+    }
+    return null;
+  }
+
+  private registryIdPayload(): Record<string, string> {
+    return this.config.accountId ? { registryId: this.config.accountId } : {};
+  }
+
+  // ===== Registry API operations =====
+
+  async listImages(options: ListImagesOptions = {}): Promise<RegistryImage[]> {
+    const limit = options.limit ? (options.offset || 0) + options.limit : Infinity;
+    const filtered = Boolean(options.namespace || options.query);
+    const repositories = await this.callEcrPaginated<any>(
+      'DescribeRepositories',
+      this.registryIdPayload(),
+      'repositories',
+      filtered ? Infinity : limit
+    );
+
+    let names: any[] = repositories;
+    if (options.namespace) {
+      names = names.filter(repo => repo.repositoryName.startsWith(`${options.namespace}/`));
+    }
+    if (options.query) {
+      const query = options.query.toLowerCase();
+      names = names.filter(repo => repo.repositoryName.toLowerCase().includes(query));
+    }
+    names = names.slice(options.offset || 0, options.limit ? (options.offset || 0) + options.limit : undefined);
+
+    return names.map(repo => {
+      const { namespace, imageName } = this.parseImageName(repo.repositoryName);
+      const createdAt = this.parseTimestamp(repo.createdAt);
+      return {
+        namespace,
+        name: imageName,
+        fullName: repo.repositoryName,
+        description: `ECR repository: ${repo.repositoryUri || `${this.config.registryHost}/${repo.repositoryName}`}`,
+        isPrivate: true,
+        lastUpdated: createdAt ? new Date(createdAt) : undefined
+      };
+    });
+  }
+
+  async getTags(namespace: string | null, imageName: string): Promise<ImageTag[]> {
+    const repositoryName = this.buildFullName(namespace, imageName);
+    const details = await this.callEcrPaginated<any>(
+      'DescribeImages',
+      { ...this.registryIdPayload(), repositoryName, filter: { tagStatus: 'TAGGED' } },
+      'imageDetails'
+    );
+
+    return details.flatMap(detail => {
+      const pushedAt = this.parseTimestamp(detail.imagePushedAt);
+      return (detail.imageTags || []).map((tag: string) => ({
+        name: tag,
+        size: detail.imageSizeInBytes ?? null,
+        created: pushedAt ? new Date(pushedAt) : undefined,
+        lastUpdated: pushedAt ? new Date(pushedAt) : null,
+        digest: detail.imageDigest || null
+      }));
+    });
+  }
+
+  async getImageMetadata(namespace: string | null, imageName: string): Promise<ImageMetadata> {
+    const tags = await this.getTags(namespace, imageName);
+    const lastUpdated = tags.reduce<Date | undefined>(
+      (latest, tag) => (tag.created && (!latest || tag.created > latest) ? tag.created : latest),
+      undefined
+    );
+
+    return {
+      namespace,
+      name: imageName,
+      description: `ECR repository: ${this.config.registryHost}/${this.buildFullName(namespace, imageName)}`,
+      isPrivate: true,
+      lastUpdated,
+      tags,
+      availableTags: tags
+    };
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      await this.refreshAuth();
+      const images = await this.listImages({ limit: 100 });
+
+      return {
+        success: true,
+        message: `Successfully connected to ECR registry: ${this.config.registryHost}`,
+        repositoryCount: images.length,
+        capabilities: this.getSupportedCapabilities()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: error instanceof Error ? error : new Error('Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Findings of ECR's own image scanning, basic or enhanced (Amazon Inspector).
+   * Images that were never scanned have no findings.
+   */
+  async getVulnerabilities(image: string, tag: string): Promise<RegistryVulnerability[]> {
+    const repositoryName = this.stripRegistry(image);
+    const findings: RegistryVulnerability[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      let data: any;
+      try {
+        data = await this.callEcr('DescribeImageScanFindings', {
+          ...this.registryIdPayload(),
+          repositoryName,
+          imageId: { imageTag: tag || 'latest' },
+          maxResults: PAGE_SIZE,
+          ...(nextToken ? { nextToken } : {})
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('ScanNotFoundException')) return [];
+        throw error;
+      }
+
+      const result = data.imageScanFindings || {};
+      for (const finding of result.findings || []) {
+        findings.push({
+          id: finding.name,
+          severity: this.mapSeverity(finding.severity),
+          title: finding.name,
+          description: finding.description
+        });
+      }
+      for (const finding of result.enhancedFindings || []) {
+        const details = finding.packageVulnerabilityDetails || {};
+        findings.push({
+          id: details.vulnerabilityId || finding.findingArn,
+          severity: this.mapSeverity(finding.severity),
+          title: finding.title || details.vulnerabilityId,
+          description: finding.description,
+          fixedVersion: details.vulnerablePackages?.find((pkg: any) => pkg.fixedInVersion)?.fixedInVersion
+        });
+      }
+      nextToken = data.nextToken;
+    } while (nextToken);
+
+    return findings;
+  }
+
+  private mapSeverity(severity: string | undefined): RegistryVulnerability['severity'] {
+    const value = (severity || '').toUpperCase();
+    return value === 'CRITICAL' || value === 'HIGH' || value === 'MEDIUM' || value === 'LOW' ? value : 'INFO';
+  }
+
+  async deleteImage(image: string, tag: string): Promise<void> {
+    const repositoryName = this.stripRegistry(image);
+    const data = await this.callEcr('BatchDeleteImage', {
+      ...this.registryIdPayload(),
+      repositoryName,
+      imageIds: [{ imageTag: tag }]
+    });
+
+    const failure = data.failures?.[0];
+    if (failure) {
+      throw new Error(`Failed to delete ${repositoryName}:${tag}: ${failure.failureReason || failure.failureCode}`);
+    }
+    logger.info(`Deleted image ${repositoryName}:${tag} from ECR registry ${this.config.registryHost}`);
+  }
+
+  private stripRegistry(image: string): string {
+    return image.startsWith(`${this.config.registryHost}/`)
+      ? image.substring(this.config.registryHost.length + 1)
+      : image;
+  }
+
+  formatFullImageReference(image: string, tag: string): string {
+    return `${this.config.registryHost}/${this.stripRegistry(image)}:${tag || 'latest'}`;
+  }
+
+  static canHandle(repository: Repository): boolean {
+    return (
+      repository.type === 'ECR' ||
+      ECR_HOST_PATTERN.test((repository.registryUrl || '').replace(/^https?:\/\//, '').replace(/\/$/, ''))
+    );
+  }
+}
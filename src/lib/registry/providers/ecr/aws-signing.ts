@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** When temporary credentials from an assumed role expire */
+  expiration?: Date;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 and return the headers to send
+ * with it. Only the headers passed in and Host are signed, which is all the
+ * ECR and STS APIs require.
+ */
+export function signAwsRequest(options: {
+  method: string;
+  url: string;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  headers: Record<string, string>;
+  body: string;
+  now?: Date;
+}): Record<string, string> {
+  const { method, region, service, credentials, body } = options;
+  const url = new URL(options.url);
+  const amzDate = (options.now ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...options.headers,
+    'X-Amz-Date': amzDate,
+    ...(credentials.sessionToken ? { 'X-Amz-Security-Token': credentials.sessionToken } : {})
+  };
+  const signed = Object.entries({ ...headers, Host: url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim()] as const)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const signedHeaders = signed.map(([name]) => name).join(';');
+
+  const query = [...url.searchParams.entries()]
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    method.toUpperCase(),
+    url.pathname || '/',
+    query,
+    signed.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    sha256(body)
+  ].join('\n');
+
+  const scope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const dateKey = hmac(`AWS4${credentials.secretAccessKey}`, date);
+  const signingKey = hmac(hmac(hmac(dateKey, region), service), 'aws4_request');
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
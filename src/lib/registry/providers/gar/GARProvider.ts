@@ -12,6 +12,7 @@ import type {
   RegistryConfig
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 interface GARParsedConfig extends RegistryConfig {
   clientEmail: string;
@@ -69,7 +70,7 @@ export class GARProvider extends EnhancedRegistryProvider {
     let serviceAccount: { client_email?: string; private_key?: string; project_id?: string };
 
     try {
-      serviceAccount = JSON.parse(repository.encryptedPassword || '{}');
+      serviceAccount = JSON.parse(getRepositoryPassword(repository) || '{}');
     } catch {
       serviceAccount = {};
     }
@@ -11,6 +11,7 @@ import type {
   RateLimit
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 export class GenericOCIProvider extends EnhancedRegistryProvider {
   protected config: GenericOCIConfig;
@@ -49,7 +50,7 @@ export class GenericOCIProvider extends EnhancedRegistryProvider {
   protected parseConfig(repository: Repository): GenericOCIConfig {
     return {
       username: repository.username,
-      password: repository.encryptedPassword, // TODO: decrypt in production
+      password: getRepositoryPassword(repository),
       registryUrl: repository.registryUrl,
       protocol: repository.protocol
     };
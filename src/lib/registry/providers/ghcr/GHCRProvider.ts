@@ -12,6 +12,7 @@ import type {
   RateLimit
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 export class GHCRProvider extends EnhancedRegistryProvider {
   protected config: GHCRConfig;
@@ -40,7 +41,7 @@ export class GHCRProvider extends EnhancedRegistryProvider {
   protected parseConfig(repository: Repository): GHCRConfig {
     return {
       username: repository.username || '',
-      token: repository.encryptedPassword || '', // TODO: decrypt in production
+      token: getRepositoryPassword(repository),
       organization: repository.organization || undefined,
       apiBaseUrl: 'https://api.github.com'
     };
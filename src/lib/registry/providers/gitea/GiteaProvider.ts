@@ -11,6 +11,7 @@ import type {
   GiteaConfig
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 /**
  * Gitea/Forgejo container registry provider.
@@ -54,7 +55,7 @@ export class GiteaProvider extends EnhancedRegistryProvider {
   protected parseConfig(repository: Repository): GiteaConfig {
     return {
       username: repository.username || '',
-      pat: repository.encryptedPassword || '',
+      pat: getRepositoryPassword(repository),
       registryUrl: repository.registryUrl || '',
       organization: repository.organization || repository.username || ''
     };
@@ -11,6 +11,7 @@ import type {
   RegistryConfig
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 interface GitLabConfig extends RegistryConfig {
   registryUrl: string;  // Base registry URL (e.g., https://104.236.206.145:5050)
@@ -185,7 +186,7 @@ export class GitLabRegistryHandler extends EnhancedRegistryProvider {
       registryUrl,
       authUrl,
       username: repository.username,
-      password: repository.encryptedPassword, // Should be decrypted in production
+      password: getRepositoryPassword(repository),
       projectId: repository.organization || undefined,
       groupId: repository.groupId || undefined,
       skipTlsVerify: repository.skipTlsVerify || false
@@ -0,0 +1,362 @@
+import type { Repository } from '@/generated/prisma';
+import { EnhancedRegistryProvider } from '../base/EnhancedRegistryProvider';
+import type {
+  RegistryImage,
+  ImageTag,
+  ImageMetadata,
+  ConnectionTestResult,
+  ListImagesOptions,
+  RegistryCapability,
+  RateLimit,
+  RegistryConfig,
+  RegistryVulnerability
+} from '../../types';
+import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
+
+export interface HarborProviderConfig extends RegistryConfig {
+  registryHost: string;
+  protocol: string;
+  username: string;
+  password: string;
+  project: string | null;
+  skipTlsVerify: boolean;
+}
+
+// The largest page size the Harbor API accepts
+const PAGE_SIZE = 100;
+
+/**
+ * Harbor provider using the Harbor v2 API (`/api/v2.0`).
+ *
+ * Works with users and robot accounts (`robot$name`, or `robot$project+name`
+ * for project robots). Discovery is scoped to the project in `organization`;
+ * for project robots it defaults to the robot's project, since they cannot
+ * list other projects. Tags carry Harbor's artifact labels and immutability,
+ * and vulnerabilities come from the reports of Harbor's scanner (Trivy).
+ */
+export class HarborProvider extends EnhancedRegistryProvider {
+  protected config: HarborProviderConfig;
+
+  constructor(repository: Repository) {
+    super(repository);
+    this.config = this.parseConfig(repository) as HarborProviderConfig;
+  }
+
+  getProviderName(): string {
+    return 'Harbor';
+  }
+
+  getSupportedCapabilities(): RegistryCapability[] {
+    return ['LIST_IMAGES', 'GET_TAGS', 'GET_METADATA', 'DELETE_IMAGES', 'VULNERABILITY_SCANNING'];
+  }
+
+  getRateLimits(): RateLimit {
+    // Self-hosted; Harbor applies no API rate limits of its own
+    return {
+      requestsPerHour: 10000,
+      requestsPerMinute: 300,
+      burstLimit: 100
+    };
+  }
+
+  protected parseConfig(repository: Repository): HarborProviderConfig {
+    let registryHost = repository.registryUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    if (repository.registryPort && !registryHost.includes(':')) {
+      registryHost = `${registryHost}:${repository.registryPort}`;
+    }
+    const robotProject = repository.username.match(/^robot\$([^+]+)\+/)?.[1] ?? null;
+
+    return {
+      registryHost,
+      protocol: repository.protocol || 'https',
+      username: repository.username,
+      password: getRepositoryPassword(repository),
+      project: repository.organization?.trim() || robotProject,
+      skipTlsVerify: repository.skipTlsVerify
+    };
+  }
+
+  validateConfiguration(): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!this.config.registryHost) {
+      errors.push('Registry URL is required for Harbor');
+    }
+    if (!!this.config.username !== !!this.config.password) {
+      errors.push('Username and password (or robot account name and secret) must be provided together');
+    }
+    if (this.config.project && !/^[a-z0-9]+(?:[._-][a-z0-9]+)*$/.test(this.config.project)) {
+      errors.push('Project must be a Harbor project name (lowercase letters, digits, ".", "_" and "-")');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    if (!this.config.username) return {};
+    const auth = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
+    return { Authorization: `Basic ${auth}` };
+  }
+
+  async getSkopeoAuthArgs(): Promise<string> {
+    if (!this.config.username || !this.config.password) {
+      return '--no-creds';
+    }
+    // Robot account names contain "$", which the shell would expand inside double quotes
+    return this.formatSkopeoCreds(this.config.username, this.config.password);
+  }
+
+  protected shouldVerifyTLS(): boolean {
+    return !this.config.skipTlsVerify && super.shouldVerifyTLS();
+  }
+
+  private getApiUrl(path: string): string {
+    return `${this.config.protocol}://${this.config.registryHost}/api/v2.0${path}`;
+  }
+
+  // Harbor expects "/" inside repository names to be encoded twice
+  private encodeRepository(name: string): string {
+    return encodeURIComponent(encodeURIComponent(name));
+  }
+
+  /**
+   * Split "project/repository" into the project and the repository name
+   * within it, dropping a registry host prefix.
+   */
+  private splitImage(image: string): { project: string; repository: string } {
+    const name = image.startsWith(`${this.config.registryHost}/`)
+      ? image.substring(this.config.registryHost.length + 1)
+      : image;
+    const slash = name.indexOf('/');
+    if (slash === -1) {
+      if (!this.config.project) {
+        throw new Error(`Image ${image} has no Harbor project`);
+      }
+      return { project: this.config.project, repository: name };
+    }
+    return { project: name.substring(0, slash), repository: name.substring(slash + 1) };
+  }
+
+  private artifactPath(image: string, reference: string): string {
+    const { project, repository } = this.splitImage(image);
+    return `/projects/${encodeURIComponent(project)}/repositories/${this.encodeRepository(repository)}/artifacts/${encodeURIComponent(reference)}`;
+  }
+
+  protected async makeAuthenticatedRequest(url: string, options?: RequestInit): Promise<Response> {
+    const headers = await this.getAuthHeaders();
+    const fetchOptions: RequestInit & { dispatcher?: any } = {
+      ...options,
+      headers: { Accept: 'application/json', ...headers, ...options?.headers }
+    };
+
+    if (this.config.skipTlsVerify) {
+      const { Agent } = await import('undici');
+      fetchOptions.dispatcher = new Agent({
+        connect: {
+          rejectUnauthorized: false
+        }
+      });
+    }
+
+    this.logRequest(options?.method || 'GET', url);
+    const response = await fetch(url, fetchOptions);
+
+    if (!response.ok) {
+      // Harbor reports errors as {"errors": [{"code": "...", "message": "..."}]}
+      const body = await response.json().catch(() => null);
+      const message = body?.errors?.[0]?.message || response.statusText;
+      if (response.status === 401) {
+        throw new Error(`HTTP 401: Authentication failed. Check the Harbor username or robot account and its secret. ${message}`);
+      }
+      throw new Error(`HTTP ${response.status}: ${message}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Fetch every page of a Harbor list endpoint
+   */
+  private async getAllPages<T>(path: string, params: Record<string, string> = {}, limit = Infinity): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let page = 1; items.length < limit; page++) {
+      await this.handleRateLimit();
+      const query = new URLSearchParams({ ...params, page: String(page), page_size: String(PAGE_SIZE) });
+      const response = await this.makeAuthenticatedRequest(this.getApiUrl(`${path}?${query}`));
+      const batch = await response.json() as T[];
+      items.push(...batch);
+      // Harbor reports the full count; without it, a short page is the last one
+      const total = response.headers.get('x-total-count');
+      if (batch.length === 0 || (total !== null ? items.length >= Number(total) : batch.length < PAGE_SIZE)) break;
+    }
+
+    return items.slice(0, limit);
+  }
+
+  private async listProjects(): Promise<string[]> {
+    if (this.config.project) return [this.config.project];
+    const projects = await this.getAllPages<{ name: string }>('/projects');
+    return projects.map(project => project.name);
+  }
+
+  async listImages(options: ListImagesOptions = {}): Promise<RegistryImage[]> {
+    const projects = options.namespace
+      ? [options.namespace.split('/')[0]]
+      : await this.listProjects();
+    const end = options.limit ? (options.offset || 0) + options.limit : Infinity;
+    const params: Record<string, string> = options.query ? { q: `name=~${options.query}` } : {};
+
+    const repositories: any[] = [];
+    for (const project of projects) {
+      if (repositories.length >= end) break;
+      repositories.push(...await this.getAllPages<any>(
+        `/projects/${encodeURIComponent(project)}/repositories`,
+        params,
+        end - repositories.length
+      ));
+    }
+
+    return repositories
+      .filter(repo => !options.namespace || repo.name.startsWith(`${options.namespace}/`))
+      .slice(options.offset || 0, end)
+      .map(repo => {
+        const { namespace, imageName } = this.parseImageName(repo.name);
+        return {
+          namespace,
+          name: imageName,
+          fullName: repo.name,
+          description: repo.description || `Harbor repository: ${repo.name}`,
+          isPrivate: true,
+          pullCount: repo.pull_count,
+          lastUpdated: this.formatDate(repo.update_time)
+        };
+      });
+  }
+
+  async getTags(namespace: string | null, imageName: string): Promise<ImageTag[]> {
+    const { project, repository } = this.splitImage(this.buildFullName(namespace, imageName));
+    const artifacts = await this.getAllPages<any>(
+      `/projects/${encodeURIComponent(project)}/repositories/${this.encodeRepository(repository)}/artifacts`,
+      { with_tag: 'true', with_label: 'true', with_immutable_status: 'true' }
+    );
+
+    return artifacts.flatMap(artifact => (artifact.tags || []).map((tag: any) => ({
+      name: tag.name,
+      size: artifact.size ?? null,
+      created: this.formatDate(tag.push_time || artifact.push_time),
+      lastModified: this.formatDate(artifact.pull_time),
+      lastUpdated: this.formatDate(tag.push_time || artifact.push_time) ?? null,
+      digest: artifact.digest || null,
+      labels: (artifact.labels || []).map((label: any) => label.name),
+      immutable: Boolean(tag.immutable)
+    })));
+  }
+
+  async getImageMetadata(namespace: string | null, imageName: string): Promise<ImageMetadata> {
+    const { project, repository } = this.splitImage(this.buildFullName(namespace, imageName));
+    const response = await this.makeAuthenticatedRequest(
+      this.getApiUrl(`/projects/${encodeURIComponent(project)}/repositories/${this.encodeRepository(repository)}`)
+    );
+    const repo = await response.json();
+    const tags = await this.getTags(namespace, imageName);
+
+    return {
+      namespace,
+      name: imageName,
+      description: repo.description || undefined,
+      isPrivate: true,
+      pullCount: repo.pull_count,
+      lastUpdated: this.formatDate(repo.update_time),
+      tags,
+      availableTags: tags
+    };
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const info = await (await this.makeAuthenticatedRequest(this.getApiUrl('/systeminfo'))).json();
+      if (this.config.project) {
+        // Fails for projects the account cannot see
+        await this.makeAuthenticatedRequest(this.getApiUrl(`/projects/${encodeURIComponent(this.config.project)}`));
+      }
+      const images = await this.listImages({ limit: 100 });
+      const version = info.harbor_version ? ` ${info.harbor_version}` : '';
+      const scope = this.config.project ? ` (project ${this.config.project})` : '';
+
+      return {
+        success: true,
+        message: `Successfully connected to Harbor${version} at ${this.config.registryHost}${scope}`,
+        repositoryCount: images.length,
+        capabilities: this.getSupportedCapabilities()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: error instanceof Error ? error : new Error('Unknown error')
+      };
+    }
+  }
+
+  /**
+   * The vulnerability report Harbor's scanner produced for the artifact.
+   * Artifacts that were never scanned have none.
+   */
+  async getVulnerabilities(image: string, tag: string): Promise<RegistryVulnerability[]> {
+    let reports: Record<string, any>;
+    try {
+      const response = await this.makeAuthenticatedRequest(
+        this.getApiUrl(`${this.artifactPath(image, tag || 'latest')}/additions/vulnerabilities`)
+      );
+      reports = await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('HTTP 404')) return [];
+      throw error;
+    }
+
+    // Keyed by report MIME type, e.g. "application/vnd.security.vulnerability.report; version=1.1"
+    const report = Object.values(reports || {}).find(value => Array.isArray(value?.vulnerabilities));
+    return (report?.vulnerabilities || []).map((vulnerability: any) => ({
+      id: vulnerability.id,
+      severity: this.mapSeverity(vulnerability.severity),
+      title: `${vulnerability.id} in ${vulnerability.package} ${vulnerability.version}`.trim(),
+      description: vulnerability.description || undefined,
+      fixedVersion: vulnerability.fix_version || undefined
+    }));
+  }
+
+  private mapSeverity(severity: string | undefined): RegistryVulnerability['severity'] {
+    const value = (severity || '').toUpperCase();
+    return value === 'CRITICAL' || value === 'HIGH' || value === 'MEDIUM' || value === 'LOW' ? value : 'INFO';
+  }
+
+  /**
+   * Delete the artifact a tag points at, with all of its tags. Harbor
+   * refuses when one of them is immutable.
+   */
+  async deleteImage(image: string, tag: string): Promise<void> {
+    const path = this.artifactPath(image, tag);
+    const artifact = await (await this.makeAuthenticatedRequest(
+      this.getApiUrl(`${path}?with_tag=true&with_immutable_status=true`)
+    )).json();
+
+    const immutable = (artifact.tags || []).filter((t: any) => t.immutable).map((t: any) => t.name);
+    if (immutable.length > 0) {
+      throw new Error(`Cannot delete ${image}:${tag}: tag ${immutable.join(', ')} is immutable in Harbor`);
+    }
+
+    await this.makeAuthenticatedRequest(this.getApiUrl(path), { method: 'DELETE' });
+    logger.info(`Deleted artifact ${artifact.digest} (${image}:${tag}) from Harbor at ${this.config.registryHost}`);
+  }
+
+  formatFullImageReference(image: string, tag: string): string {
+    const { project, repository } = this.splitImage(image);
+    return `${this.config.registryHost}/${project}/${repository}:${tag || 'latest'}`;
+  }
+
+  static canHandle(repository: Repository): boolean {
+    return repository.type === 'HARBOR';
+  }
+}
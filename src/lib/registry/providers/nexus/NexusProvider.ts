@@ -11,6 +11,7 @@ import type {
   RateLimit
 } from '../../types';
 import { logger } from '@/lib/logger';
+import { getRepositoryPassword } from '../../credentials';
 
 /**
  * Nexus Repository Manager provider implementation
@@ -63,8 +64,7 @@ export class NexusProvider extends EnhancedRegistryProvider {
     return {
       username: repository.username,
       // TODO: Implement proper password encryption/decryption
-      // Currently using plaintext password stored in encryptedPassword field
-      password: repository.encryptedPassword,
+      password: getRepositoryPassword(repository),
       registryUrl: repository.registryUrl,
       protocol: repository.protocol,
       repositoryName,
@@ -424,7 +424,7 @@ export class NexusProvider extends EnhancedRegistryProvider {
     const tlsVerify = this.shouldVerifyTLS() ? '' : '--tls-verify=false';
 
     // First attempt: try without repository name
-    const imageRef = this.formatFullImageReference(image, tag);
+    const imageRef = this.formatPinnedReference(image, tag);
     const command = `skopeo inspect ${authArgs} ${tlsVerify} docker://${imageRef}`;
 
     logger.debug(`[Nexus] Attempting to inspect image: ${imageRef}`);
@@ -461,7 +461,7 @@ export class NexusProvider extends EnhancedRegistryProvider {
 
       // Second attempt: try with repository name prefix using the Docker registry port
       const registryUrl = this.getDockerRegistryUrl();
-      const imageRefWithRepo = `${registryUrl}/${this.config.repositoryName}/${image}:${tag || 'latest'}`;
+      const imageRefWithRepo = `${registryUrl}/${this.config.repositoryName}/${image}${this.isDigestReference(tag) ? `@${tag}` : `:${tag || 'latest'}`}`;
       const fallbackCommand = `skopeo inspect ${authArgs} ${tlsVerify} docker://${imageRefWithRepo}`;
 
       logger.debug(`[Nexus] Attempting with repository name: ${imageRefWithRepo}`);
@@ -504,7 +504,7 @@ export class NexusProvider extends EnhancedRegistryProvider {
     const tlsVerify = this.shouldVerifyTLS() ? '' : '--src-tls-verify=false';
 
     // First attempt: try without repository name
-    const imageRef = this.formatFullImageReference(image, tag);
+    const imageRef = this.formatPinnedReference(image, tag);
     const command = `skopeo copy ${srcAuthArgs} ${tlsVerify} docker://${imageRef} docker-archive:${destination}`;
 
     logger.info(`[Nexus] Attempting to pull image: ${imageRef} to ${destination}`);
@@ -516,7 +516,7 @@ export class NexusProvider extends EnhancedRegistryProvider {
 
       // Second attempt: try with repository name prefix using the Docker registry port
       const registryUrl = this.getDockerRegistryUrl();
-      const imageRefWithRepo = `${registryUrl}/${this.config.repositoryName}/${image}:${tag || 'latest'}`;
+      const imageRefWithRepo = `${registryUrl}/${this.config.repositoryName}/${image}${this.isDigestReference(tag) ? `@${tag}` : `:${tag || 'latest'}`}`;
       const fallbackCommand = `skopeo copy ${srcAuthArgs} ${tlsVerify} docker://${imageRefWithRepo} docker-archive:${destination}`;
 
       logger.info(`[Nexus] Attempting with repository name: ${imageRefWithRepo}`);
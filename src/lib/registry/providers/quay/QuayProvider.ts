@@ -0,0 +1,347 @@
+import type { Repository } from '@/generated/prisma';
+import { EnhancedRegistryProvider } from '../base/EnhancedRegistryProvider';
+import type {
+  RegistryImage,
+  ImageTag,
+  ImageMetadata,
+  ConnectionTestResult,
+  ListImagesOptions,
+  RegistryCapability,
+  RateLimit,
+  RegistryConfig
+} from '../../types';
+import { getRepositoryPassword } from '../../credentials';
+
+export interface QuayProviderConfig extends RegistryConfig {
+  registryHost: string;
+  protocol: string;
+  username: string;
+  password: string;
+  namespace: string | null;
+  isRobot: boolean;
+  skipTlsVerify: boolean;
+}
+
+interface QuayRepository {
+  name: string;
+  description?: string;
+  isPublic?: boolean;
+  /** Unix seconds */
+  lastModified?: number;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * Quay provider for quay.io and self-hosted Quay.
+ *
+ * Robot accounts (`namespace+name` with the robot token) can only use the
+ * registry API, so they list repositories through `/v2/_catalog` and tags
+ * through `/v2/<name>/tags/list`. Any other username is used with an OAuth
+ * access token (from an application in the organization) against the Quay
+ * API (`/api/v1`), which also returns tag digests, sizes and dates.
+ * Discovery is scoped to the namespace in `organization`, defaulting to the
+ * robot's namespace or the username.
+ */
+export class QuayProvider extends EnhancedRegistryProvider {
+  protected config: QuayProviderConfig;
+
+  constructor(repository: Repository) {
+    super(repository);
+    this.config = this.parseConfig(repository) as QuayProviderConfig;
+  }
+
+  getProviderName(): string {
+    return 'Quay';
+  }
+
+  getSupportedCapabilities(): RegistryCapability[] {
+    return ['LIST_IMAGES', 'GET_TAGS', 'GET_METADATA'];
+  }
+
+  getRateLimits(): RateLimit {
+    // quay.io throttles bursts of API requests per client
+    return {
+      requestsPerHour: 5000,
+      requestsPerMinute: 120,
+      burstLimit: 20
+    };
+  }
+
+  protected parseConfig(repository: Repository): QuayProviderConfig {
+    let registryHost = (repository.registryUrl || 'quay.io').replace(/^https?:\/\//, '').replace(/\/$/, '');
+    if (repository.registryPort && !registryHost.includes(':')) {
+      registryHost = `${registryHost}:${repository.registryPort}`;
+    }
+    const isRobot = repository.username.includes('+');
+
+    return {
+      registryHost,
+      protocol: repository.protocol || 'https',
+      username: repository.username,
+      password: getRepositoryPassword(repository),
+      namespace: repository.organization?.trim() ||
+        (isRobot ? repository.username.split('+')[0] : repository.username) || null,
+      isRobot,
+      skipTlsVerify: repository.skipTlsVerify
+    };
+  }
+
+  validateConfiguration(): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!this.config.password) {
+      errors.push('A robot token or an OAuth access token is required for Quay');
+    }
+    if (!this.config.namespace) {
+      errors.push('Organization or user namespace is required for Quay');
+    } else if (!/^[a-z0-9_]+(?:[._-][a-z0-9_]+)*$/.test(this.config.namespace)) {
+      errors.push('Namespace must be a Quay organization or user name');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    if (this.config.isRobot) {
+      const auth = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
+      return { Authorization: `Basic ${auth}` };
+    }
+    return { Authorization: `Bearer ${this.config.password}` };
+  }
+
+  async getSkopeoAuthArgs(): Promise<string> {
+    if (!this.config.password) {
+      return '--no-creds';
+    }
+    // Quay accepts OAuth access tokens for pulls under the "$oauthtoken" user
+    const username = this.config.isRobot ? this.config.username : '$oauthtoken';
+    return this.formatSkopeoCreds(username, this.config.password);
+  }
+
+  protected shouldVerifyTLS(): boolean {
+    return !this.config.skipTlsVerify && super.shouldVerifyTLS();
+  }
+
+  private getBaseUrl(): string {
+    return `${this.config.protocol}://${this.config.registryHost}`;
+  }
+
+  private async send(url: string, headers: Record<string, string>): Promise<Response> {
+    const fetchOptions: RequestInit & { dispatcher?: any } = {
+      headers: { Accept: 'application/json', ...headers }
+    };
+
+    if (this.config.skipTlsVerify) {
+      const { Agent } = await import('undici');
+      fetchOptions.dispatcher = new Agent({
+        connect: {
+          rejectUnauthorized: false
+        }
+      });
+    }
+
+    this.logRequest('GET', url);
+    return fetch(url, fetchOptions);
+  }
+
+  /**
+   * GET from the registry API as the robot account, exchanging its token
+   * for a registry bearer token when Quay challenges for one
+   */
+  private async registryRequest(path: string): Promise<Response> {
+    await this.handleRateLimit();
+    const url = `${this.getBaseUrl()}${path}`;
+    let response = await this.send(url, await this.getAuthHeaders());
+
+    const challenge = response.headers.get('www-authenticate') || '';
+    if (response.status === 401 && challenge.toLowerCase().startsWith('bearer ')) {
+      const params = Object.fromEntries([...challenge.matchAll(/(\w+)="([^"]*)"/g)].map(m => [m[1], m[2]]));
+      const tokenUrl = new URL(params.realm);
+      if (params.service) tokenUrl.searchParams.set('service', params.service);
+      if (params.scope) tokenUrl.searchParams.set('scope', params.scope);
+
+      const tokenResponse = await this.send(tokenUrl.toString(), await this.getAuthHeaders());
+      if (!tokenResponse.ok) {
+        throw new Error(`HTTP ${tokenResponse.status}: Authentication failed. Check the robot account name and token.`);
+      }
+      const { token } = await tokenResponse.json();
+      response = await this.send(url, { Authorization: `Bearer ${token}` });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`HTTP ${response.status}: ${errorText}`);
+    }
+    return response;
+  }
+
+  /**
+   * GET from the Quay API with the OAuth access token
+   */
+  private async apiRequest(path: string, params: Record<string, string> = {}): Promise<any> {
+    await this.handleRateLimit();
+    const query = new URLSearchParams(params).toString();
+    const response = await this.send(
+      `${this.getBaseUrl()}/api/v1${path}${query ? `?${query}` : ''}`,
+      await this.getAuthHeaders()
+    );
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.error_message || body?.detail || response.statusText;
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`HTTP ${response.status}: Authentication failed. Use a robot account or an OAuth access token with repo:read. ${message}`);
+      }
+      throw new Error(`HTTP ${response.status}: ${message}`);
+    }
+    return response.json();
+  }
+
+  private async listRepositories(limit: number): Promise<QuayRepository[]> {
+    const repositories: QuayRepository[] = [];
+
+    if (this.config.isRobot) {
+      // The catalog lists every repository the robot can read, across namespaces
+      let path: string | null = `/v2/_catalog?n=${PAGE_SIZE}`;
+      while (path && repositories.length < limit) {
+        const response = await this.registryRequest(path);
+        const data = await response.json();
+        for (const name of data.repositories || []) {
+          if (name.startsWith(`${this.config.namespace}/`)) repositories.push({ name });
+        }
+        const next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+        path = next ? (({ pathname, search }) => pathname + search)(new URL(next, this.getBaseUrl())) : null;
+      }
+      return repositories.slice(0, limit);
+    }
+
+    let nextPage: string | undefined;
+    do {
+      const data = await this.apiRequest('/repository', {
+        namespace: this.config.namespace!,
+        last_modified: 'true',
+        ...(nextPage ? { next_page: nextPage } : {})
+      });
+      for (const repo of data.repositories || []) {
+        repositories.push({
+          name: `${repo.namespace}/${repo.name}`,
+          description: repo.description || undefined,
+          isPublic: repo.is_public,
+          lastModified: repo.last_modified
+        });
+      }
+      nextPage = data.next_page;
+    } while (nextPage && repositories.length < limit);
+
+    return repositories.slice(0, limit);
+  }
+
+  async listImages(options: ListImagesOptions = {}): Promise<RegistryImage[]> {
+    const end = options.limit ? (options.offset || 0) + options.limit : Infinity;
+    let repositories = await this.listRepositories(options.query || options.namespace ? Infinity : end);
+
+    if (options.namespace) {
+      repositories = repositories.filter(repo => repo.name.startsWith(`${options.namespace}/`));
+    }
+    if (options.query) {
+      const query = options.query.toLowerCase();
+      repositories = repositories.filter(repo => repo.name.toLowerCase().includes(query));
+    }
+
+    return repositories.slice(options.offset || 0, end).map(repo => {
+      const { namespace, imageName } = this.parseImageName(repo.name);
+      return {
+        namespace,
+        name: imageName,
+        fullName: repo.name,
+        description: repo.description || `Quay repository: ${repo.name}`,
+        isPrivate: repo.isPublic === undefined ? true : !repo.isPublic,
+        lastUpdated: repo.lastModified ? new Date(repo.lastModified * 1000) : undefined
+      };
+    });
+  }
+
+  async getTags(namespace: string | null, imageName: string): Promise<ImageTag[]> {
+    const fullName = this.buildFullName(namespace || this.config.namespace, imageName);
+
+    if (this.config.isRobot) {
+      const data = await (await this.registryRequest(`/v2/${fullName}/tags/list`)).json();
+      return (data.tags || []).map((tag: string) => ({
+        name: tag,
+        size: null,
+        lastUpdated: null,
+        digest: null
+      }));
+    }
+
+    const tags: ImageTag[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.apiRequest(`/repository/${fullName}/tag/`, {
+        onlyActiveTags: 'true',
+        limit: String(PAGE_SIZE),
+        page: String(page)
+      });
+      for (const tag of data.tags || []) {
+        tags.push({
+          name: tag.name,
+          size: tag.size ?? null,
+          created: tag.start_ts ? new Date(tag.start_ts * 1000) : undefined,
+          lastModified: this.formatDate(tag.last_modified),
+          lastUpdated: this.formatDate(tag.last_modified) ?? null,
+          digest: tag.manifest_digest || null
+        });
+      }
+      if (!data.has_additional) break;
+    }
+    return tags;
+  }
+
+  async getImageMetadata(namespace: string | null, imageName: string): Promise<ImageMetadata> {
+    const tags = await this.getTags(namespace, imageName);
+    if (this.config.isRobot) {
+      return { namespace, name: imageName, isPrivate: true, tags, availableTags: tags };
+    }
+
+    const fullName = this.buildFullName(namespace || this.config.namespace, imageName);
+    const repo = await this.apiRequest(`/repository/${fullName}`);
+    return {
+      namespace,
+      name: imageName,
+      description: repo.description || undefined,
+      isPrivate: !repo.is_public,
+      tags,
+      availableTags: tags
+    };
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const images = await this.listImages({ limit: 100 });
+      const account = this.config.isRobot ? `robot ${this.config.username}` : 'OAuth token';
+
+      return {
+        success: true,
+        message: `Successfully connected to Quay at ${this.config.registryHost} (${account}, namespace ${this.config.namespace})`,
+        repositoryCount: images.length,
+        capabilities: this.getSupportedCapabilities()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: error instanceof Error ? error : new Error('Unknown error')
+      };
+    }
+  }
+
+  formatFullImageReference(image: string, tag: string): string {
+    const name = image.replace(new RegExp(`^${this.escapeRegExp(this.config.registryHost)}/`), '');
+    const fullName = name.includes('/') ? name : `${this.config.namespace}/${name}`;
+    return `${this.config.registryHost}/${fullName}:${tag || 'latest'}`;
+  }
+
+  static canHandle(repository: Repository): boolean {
+    return repository.type === 'QUAY';
+  }
+}
@@ -1,5 +1,12 @@
 import { PrismaClient } from '@/generated/prisma';
+import { config } from '@/lib/config';
+import { prisma as defaultPrisma } from '@/lib/prisma';
 import { RegistryService } from '../RegistryService';
+import { TagWatcher } from './TagWatcher';
+
+// Largest image listing of a sync; tags of images past it are not tracked
+const IMAGE_LIMIT = 1000;
+const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
 
 export interface SyncOptions {
   intervalMs?: number;
@@ -10,12 +17,14 @@ export interface SyncOptions {
 export class RegistrySyncService {
   private prisma: PrismaClient;
   private registryService: RegistryService;
+  private tagWatcher: TagWatcher;
   private syncIntervals: Map<string, NodeJS.Timeout> = new Map();
   private syncStatus: Map<string, { lastSync: Date; syncing: boolean; error?: string }> = new Map();
   
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.registryService = new RegistryService(prisma);
+    this.tagWatcher = new TagWatcher(prisma, this.registryService);
   }
   
   /**
@@ -44,12 +53,13 @@ export class RegistrySyncService {
     
     console.info(`[RegistrySyncService] Starting sync for repository ${repositoryId} with interval ${intervalMs}ms`);
     
-    // Perform initial sync
-    this.syncRepository(repositoryId);
+    // Perform initial sync. Syncs bypass the metadata cache, which can hold
+    // tag lists for up to an hour, so tag changes are found right away
+    this.syncRepository(repositoryId, true);
     
     // Set up interval for regular syncing
     const interval = setInterval(() => {
-      this.syncRepository(repositoryId);
+      this.syncRepository(repositoryId, true);
     }, intervalMs);
     
     this.syncIntervals.set(repositoryId, interval);
@@ -78,7 +88,8 @@ export class RegistrySyncService {
   }
   
   /**
-   * Sync a specific repository - fetch all images and their tags
+   * Sync a specific repository - fetch all images and their tags, persist
+   * the tags and start the scans the repository's auto-scan rules ask for
    */
   async syncRepository(repositoryId: string, forceRefresh: boolean = false): Promise<void> {
     const status = this.syncStatus.get(repositoryId) || { lastSync: new Date(0), syncing: false };
@@ -105,11 +116,13 @@ export class RegistrySyncService {
       // List all images
       const images = await this.registryService.listImages(repositoryId, { 
         forceRefresh,
-        limit: 1000 
+        limit: IMAGE_LIMIT
       });
       
       console.info(`[RegistrySyncService] Found ${images.length} images in repository ${repository.name}`);
       
+      const tagSync = await this.tagWatcher.begin(repositoryId);
+      
       // Fetch tags for each image
       let totalTags = 0;
       for (const image of images) {
@@ -124,14 +137,18 @@ export class RegistrySyncService {
           totalTags += tags.length;
           console.debug(`[RegistrySyncService] Found ${tags.length} tags for ${image.namespace ? `${image.namespace}/` : ''}${image.name}`);
           
-          // Store tags in cache (already handled by RegistryService)
-          // You could also store them in a separate tags table if needed
-          
+          await tagSync.recordImageTags(image.fullName, tags);
         } catch (error) {
           console.error(`[RegistrySyncService] Failed to fetch tags for ${image.name}:`, error);
         }
       }
       
+      // A truncated listing can't tell removed images from the ones past the limit
+      if (images.length < IMAGE_LIMIT) {
+        await tagSync.recordRemovedImages(images.map(image => image.fullName));
+      }
+      const changes = await tagSync.finish();
+      
       // Update repository with sync information
       await this.prisma.repository.update({
         where: { id: repositoryId },
@@ -141,7 +158,7 @@ export class RegistrySyncService {
         }
       });
       
-      console.info(`[RegistrySyncService] Sync completed for repository ${repository.name}: ${images.length} images, ${totalTags} total tags`);
+      console.info(`[RegistrySyncService] Sync completed for repository ${repository.name}: ${images.length} images, ${totalTags} total tags, ${changes.new} new, ${changes.moved} moved, ${changes.deleted} deleted, ${changes.scansStarted} scans started`);
       
       this.syncStatus.set(repositoryId, {
         lastSync: new Date(),
@@ -282,4 +299,29 @@ export class RegistrySyncService {
       .sort((a, b) => b.pushed.getTime() - a.pushed.getTime())
       .slice(0, limit);
   }
-}
\ No newline at end of file
+}
+
+declare global {
+  var __harborguard_registry_sync: RegistrySyncService | undefined;
+}
+
+/**
+ * The sync service shared by the API routes and the auto-sync started at boot
+ */
+export function getRegistrySyncService(): RegistrySyncService {
+  return globalThis.__harborguard_registry_sync
+    || (globalThis.__harborguard_registry_sync = new RegistrySyncService(defaultPrisma));
+}
+
+export function startRegistrySyncScheduler() {
+  if (!config.schedulerEnabled) {
+    console.info('[RegistrySyncService] Registry auto-sync disabled via SCHEDULER_ENABLED');
+    return;
+  }
+  // Let the server finish starting before the first syncs hit the registries
+  setTimeout(() => {
+    getRegistrySyncService().startAutoSync(AUTO_SYNC_INTERVAL_MS).catch(error => {
+      console.error('[RegistrySyncService] Failed to start auto-sync:', error);
+    });
+  }, 10_000);
+}
@@ -0,0 +1,302 @@
+import type { PrismaClient, RepositoryScanRule, RepositoryTagEventType } from '@/generated/prisma';
+import { logger } from '@/lib/logger';
+import { scannerService } from '@/lib/scanner/ScannerService';
+import type { RegistryService } from '../RegistryService';
+import type { ImageTag } from '../types';
+
+// Keeps a new image with hundreds of matching tags from flooding the scan queue
+export const MAX_RULE_SCANS_PER_SYNC = 50;
+
+export interface TagChange {
+  id: string;
+  imageName: string;
+  tag: string;
+  type: RepositoryTagEventType;
+  digest: string | null;
+}
+
+export interface TagChangeSummary {
+  new: number;
+  moved: number;
+  deleted: number;
+  scansStarted: number;
+}
+
+interface CompiledRule {
+  rule: RepositoryScanRule;
+  image: RegExp | null;
+  tag: RegExp;
+}
+
+/**
+ * Persists the tags found by registry syncs, records which ones are new,
+ * moved to another digest or were deleted, and starts the scans asked for
+ * by the repository's auto-scan rules.
+ *
+ * Every change is applied with a conditional update, so a tag change is
+ * recorded and scanned once even when several replicas sync at the same time.
+ */
+export class TagWatcher {
+  private prisma: PrismaClient;
+  private registryService: RegistryService;
+
+  constructor(prisma: PrismaClient, registryService: RegistryService) {
+    this.prisma = prisma;
+    this.registryService = registryService;
+  }
+
+  /**
+   * Start watching a sync of the repository. The first sync of a repository
+   * only records its tags, so existing tags are not reported as new.
+   */
+  async begin(repositoryId: string): Promise<TagSyncSession> {
+    // Only a completed sync sets the baseline, not tags pushed through the webhook before it
+    const [repository, rules] = await Promise.all([
+      this.prisma.repository.findUnique({ where: { id: repositoryId }, select: { tagsSyncedAt: true } }),
+      this.prisma.repositoryScanRule.findMany({ where: { repositoryId, enabled: true }, orderBy: { createdAt: 'asc' } })
+    ]);
+
+    const compiled: CompiledRule[] = [];
+    for (const rule of rules) {
+      try {
+        compiled.push({
+          rule,
+          image: rule.imagePattern ? new RegExp(rule.imagePattern) : null,
+          tag: new RegExp(rule.tagPattern)
+        });
+      } catch (error) {
+        logger.warn(`[TagWatcher] Skipping scan rule ${rule.name} with an invalid pattern:`, error);
+      }
+    }
+
+    return new TagSyncSession(this.prisma, this.registryService, repositoryId, compiled, !repository?.tagsSyncedAt);
+  }
+
+  /**
+   * Record a push reported by the registry's webhook. Returns null when the
+   * tag already points at the pushed digest, e.g. for a redelivery.
+   */
+  async recordPush(repositoryId: string, imageName: string, tag: string, digest: string | null): Promise<TagChange | null> {
+    const now = new Date();
+    const existing = await this.prisma.repositoryTag.findUnique({
+      where: { repositoryId_imageName_tag: { repositoryId, imageName, tag } }
+    });
+
+    let type: RepositoryTagEventType;
+    if (!existing) {
+      try {
+        await this.prisma.repositoryTag.create({
+          data: { repositoryId, imageName, tag, digest, firstSeenAt: now, lastSeenAt: now }
+        });
+      } catch {
+        // Recorded by a concurrent delivery
+        return null;
+      }
+      type = 'NEW';
+    } else if (digest && !existing.deletedAt && existing.digest === digest) {
+      return null;
+    } else {
+      // Without a digest in the notification the tag's digest is unknown until the next lookup
+      const { count } = await this.prisma.repositoryTag.updateMany({
+        where: { id: existing.id, digest: existing.digest, deletedAt: existing.deletedAt },
+        data: { digest, deletedAt: null, lastSeenAt: now }
+      });
+      if (count === 0) return null;
+      type = existing.deletedAt ? 'NEW' : 'MOVED';
+    }
+
+    const event = await this.prisma.repositoryTagEvent.create({
+      data: {
+        repositoryId,
+        imageName,
+        tag,
+        type,
+        previousDigest: existing?.digest ?? null,
+        digest,
+        source: 'webhook',
+        createdAt: now
+      }
+    });
+    return { id: event.id, imageName, tag, type, digest };
+  }
+}
+
+export class TagSyncSession {
+  private changes: TagChange[] = [];
+  private now = new Date();
+  private provider: Awaited<ReturnType<RegistryService['getProvider']>> | null = null;
+
+  constructor(
+    private prisma: PrismaClient,
+    private registryService: RegistryService,
+    private repositoryId: string,
+    private rules: CompiledRule[],
+    private baseline: boolean
+  ) {}
+
+  /**
+   * Record the tags an image currently has in the registry
+   */
+  async recordImageTags(imageName: string, tags: ImageTag[]): Promise<void> {
+    const stored = await this.prisma.repositoryTag.findMany({
+      where: { repositoryId: this.repositoryId, imageName }
+    });
+    const storedByTag = new Map(stored.map(tag => [tag.tag, tag]));
+    const seen: string[] = [];
+
+    for (const tag of tags) {
+      const existing = storedByTag.get(tag.name);
+      const digest = tag.digest || await this.resolveDigest(imageName, tag.name);
+
+      if (!existing) {
+        try {
+          await this.prisma.repositoryTag.create({
+            data: { repositoryId: this.repositoryId, imageName, tag: tag.name, digest, firstSeenAt: this.now, lastSeenAt: this.now }
+          });
+        } catch {
+          // Recorded by another replica meanwhile
+          continue;
+        }
+        if (!this.baseline) await this.recordChange(imageName, tag.name, 'NEW', null, digest);
+      } else if (existing.deletedAt) {
+        const { count } = await this.prisma.repositoryTag.updateMany({
+          where: { id: existing.id, deletedAt: { not: null } },
+          data: { deletedAt: null, digest, lastSeenAt: this.now }
+        });
+        if (count === 1) await this.recordChange(imageName, tag.name, 'NEW', existing.digest, digest);
+      } else if (digest && existing.digest && digest !== existing.digest) {
+        const { count } = await this.prisma.repositoryTag.updateMany({
+          where: { id: existing.id, digest: existing.digest },
+          data: { digest, lastSeenAt: this.now }
+        });
+        if (count === 1) await this.recordChange(imageName, tag.name, 'MOVED', existing.digest, digest);
+      } else if (digest && !existing.digest) {
+        await this.prisma.repositoryTag.update({
+          where: { id: existing.id },
+          data: { digest, lastSeenAt: this.now }
+        });
+      } else {
+        seen.push(existing.id);
+      }
+    }
+
+    if (seen.length > 0) {
+      await this.prisma.repositoryTag.updateMany({
+        where: { id: { in: seen } },
+        data: { lastSeenAt: this.now }
+      });
+    }
+
+    const listed = new Set(tags.map(tag => tag.name));
+    await this.markDeleted(stored.filter(tag => !tag.deletedAt && !listed.has(tag.tag)));
+  }
+
+  /**
+   * Record the tags of images no longer in the registry as deleted. Only
+   * call this when the image listing was complete.
+   */
+  async recordRemovedImages(listedImages: string[]): Promise<void> {
+    const removed = await this.prisma.repositoryTag.findMany({
+      where: { repositoryId: this.repositoryId, deletedAt: null, imageName: { notIn: listedImages } }
+    });
+    await this.markDeleted(removed);
+  }
+
+  /**
+   * Start the scans the repository's rules ask for and summarize the changes
+   */
+  async finish(): Promise<TagChangeSummary> {
+    let scansStarted = 0;
+    await this.prisma.repository.update({
+      where: { id: this.repositoryId },
+      data: { tagsSyncedAt: this.now }
+    });
+
+    for (const change of this.changes) {
+      if (change.type === 'DELETED') continue;
+      const match = this.rules.find(({ rule, image, tag }) =>
+        (change.type === 'NEW' ? rule.onNewTag : rule.onDigestChange)
+        && (!image || image.test(change.imageName))
+        && tag.test(change.tag)
+      );
+      if (!match) continue;
+
+      if (scansStarted >= MAX_RULE_SCANS_PER_SYNC) {
+        logger.warn(`[TagWatcher] Scan limit of ${MAX_RULE_SCANS_PER_SYNC} per sync reached, not scanning ${change.imageName}:${change.tag}`);
+        continue;
+      }
+
+      try {
+        const { scanId } = await scannerService.startScan({
+          image: change.imageName,
+          tag: change.tag,
+          // Scan the manifest the event recorded even if the tag moves again before the scan runs
+          ...(change.digest && { digest: change.digest }),
+          source: 'registry',
+          repositoryId: this.repositoryId
+        });
+        await this.prisma.repositoryTagEvent.update({
+          where: { id: change.id },
+          data: { ruleId: match.rule.id, scanId }
+        });
+        await this.prisma.repositoryScanRule.update({
+          where: { id: match.rule.id },
+          data: { lastTriggeredAt: new Date() }
+        });
+        scansStarted++;
+        logger.info(`[TagWatcher] Rule ${match.rule.name} started scan ${scanId} of ${change.imageName}:${change.tag}`);
+      } catch (error) {
+        logger.error(`[TagWatcher] Failed to start scan of ${change.imageName}:${change.tag}:`, error);
+      }
+    }
+
+    return {
+      new: this.changes.filter(change => change.type === 'NEW').length,
+      moved: this.changes.filter(change => change.type === 'MOVED').length,
+      deleted: this.changes.filter(change => change.type === 'DELETED').length,
+      scansStarted
+    };
+  }
+
+  private async markDeleted(tags: Array<{ id: string; imageName: string; tag: string; digest: string | null }>): Promise<void> {
+    for (const tag of tags) {
+      const { count } = await this.prisma.repositoryTag.updateMany({
+        where: { id: tag.id, deletedAt: null },
+        data: { deletedAt: this.now }
+      });
+      if (count === 1) await this.recordChange(tag.imageName, tag.tag, 'DELETED', tag.digest, null);
+    }
+  }
+
+  private async recordChange(
+    imageName: string,
+    tag: string,
+    type: RepositoryTagEventType,
+    previousDigest: string | null,
+    digest: string | null
+  ): Promise<void> {
+    const event = await this.prisma.repositoryTagEvent.create({
+      data: { repositoryId: this.repositoryId, imageName, tag, type, previousDigest, digest, createdAt: this.now }
+    });
+    this.changes.push({ id: event.id, imageName, tag, type, digest });
+  }
+
+  /**
+   * Most registries list tags without digests. Look them up only for tags a
+   * rule rescans on digest changes, since each lookup is a registry request.
+   */
+  private async resolveDigest(imageName: string, tag: string): Promise<string | null> {
+    const watched = this.rules.some(({ rule, image, tag: tagPattern }) =>
+      rule.onDigestChange && (!image || image.test(imageName)) && tagPattern.test(tag)
+    );
+    if (!watched) return null;
+
+    try {
+      this.provider = this.provider || await this.registryService.getProvider(this.repositoryId);
+      return await this.provider.getImageDigest(imageName, tag) || null;
+    } catch (error) {
+      logger.warn(`[TagWatcher] Failed to get the digest of ${imageName}:${tag}:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Auto-scan rules of a repository.
+ *
+ * Registry syncs record which tags are new or moved to another digest; the
+ * first enabled rule matching the image and tag of such a change starts a
+ * scan of it. This module is free of database access so the same
+ * definitions can be used by the API, the sync and the UI.
+ */
+import { z } from 'zod';
+
+export const MAX_PATTERN_LENGTH = 200;
+
+/** The error of a rule pattern, or null when it compiles */
+export function getPatternError(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+}
+
+const PatternSchema = z.string()
+  .trim()
+  .min(1, 'Pattern is required')
+  .max(MAX_PATTERN_LENGTH, `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`)
+  .refine(pattern => getPatternError(pattern) === null, { message: 'Pattern is not a valid regular expression' });
+
+export const ScanRuleInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  imagePattern: PatternSchema.nullable().optional(),
+  tagPattern: PatternSchema,
+  onNewTag: z.boolean().default(true),
+  onDigestChange: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+}).refine(rule => rule.onNewTag || rule.onDigestChange, {
+  message: 'Scan on new tags, on digest changes, or both',
+});
+
+export type ScanRuleInput = z.infer<typeof ScanRuleInputSchema>;
@@ -20,6 +20,8 @@ export interface ImageTag {
   lastUpdated?: Date | null; // Deprecated, use created or lastModified
   digest?: string | null;
   platform?: string;
+  labels?: string[]; // Registry-side labels, e.g. Harbor artifact labels
+  immutable?: boolean; // Protected from deletion and overwrite by the registry
 }
 
 export interface ImageMetadata {
@@ -0,0 +1,202 @@
+/**
+ * Push notifications of container registries.
+ *
+ * Each registry reports pushes in its own format and proves it knows the
+ * webhook secret in its own way: an HMAC signature of the body (GitHub,
+ * Gitea, Nexus), a token header (GitLab, or the Authorization header set in
+ * Docker Distribution and Harbor) or, for registries that only let you set
+ * a URL (Quay), a `secret` query parameter.
+ */
+import crypto from 'crypto';
+
+export const WEBHOOK_FORMATS = ['distribution', 'harbor', 'gitlab', 'ghcr', 'nexus', 'gitea', 'quay'] as const;
+
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+export const WEBHOOK_FORMAT_LABELS: Record<WebhookFormat, string> = {
+  distribution: 'Docker Distribution',
+  harbor: 'Harbor',
+  gitlab: 'GitLab',
+  ghcr: 'GitHub (package event)',
+  nexus: 'Nexus',
+  gitea: 'Gitea',
+  quay: 'Quay',
+};
+
+/** A tag pushed to the registry; digest is null when the format omits it */
+export interface RegistryPush {
+  image: string;
+  tag: string;
+  digest: string | null;
+}
+
+export interface ParsedWebhook {
+  format: WebhookFormat;
+  pushes: RegistryPush[];
+}
+
+const DIGEST_PATTERN = /^sha256:[a-f0-9]{64}$/;
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function hmac(algorithm: 'sha1' | 'sha256', secret: string, body: string): string {
+  return crypto.createHmac(algorithm, secret).update(body).digest('hex');
+}
+
+/**
+ * Whether the request proves it knows the secret. Any one valid proof is
+ * enough; a request without any is rejected.
+ */
+export function verifyWebhookSecret(
+  secret: string,
+  headers: Headers,
+  rawBody: string,
+  searchParams: URLSearchParams
+): boolean {
+  const proofs: boolean[] = [];
+
+  const githubSignature = headers.get('x-hub-signature-256');
+  if (githubSignature) {
+    proofs.push(safeEqual(githubSignature.toLowerCase(), `sha256=${hmac('sha256', secret, rawBody)}`));
+  }
+  const giteaSignature = headers.get('x-gitea-signature');
+  if (giteaSignature) {
+    proofs.push(safeEqual(giteaSignature.toLowerCase(), hmac('sha256', secret, rawBody)));
+  }
+  const nexusSignature = headers.get('x-nexus-webhook-signature');
+  if (nexusSignature) {
+    proofs.push(safeEqual(nexusSignature.toLowerCase(), hmac('sha1', secret, rawBody)));
+  }
+
+  const gitlabToken = headers.get('x-gitlab-token');
+  if (gitlabToken) proofs.push(safeEqual(gitlabToken, secret));
+
+  // Harbor sends its auth header verbatim; Distribution setups usually use a bearer token
+  const authorization = headers.get('authorization');
+  if (authorization) proofs.push(safeEqual(authorization.replace(/^Bearer\s+/i, ''), secret));
+
+  const querySecret = searchParams.get('secret');
+  if (querySecret) proofs.push(safeEqual(querySecret, secret));
+
+  return proofs.some(Boolean);
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function asDigest(value: unknown): string | null {
+  const digest = asString(value);
+  return digest && DIGEST_PATTERN.test(digest) ? digest : null;
+}
+
+// Docker Distribution notification envelope, also sent by GitLab's registry
+function parseDistribution(body: any): RegistryPush[] {
+  const events: any[] = Array.isArray(body?.events) ? body.events : [];
+  return events
+    .filter(event => event?.action === 'push' && asString(event?.target?.tag))
+    .map(event => ({
+      image: event.target.repository,
+      tag: event.target.tag,
+      digest: asDigest(event.target.digest),
+    }))
+    .filter(push => asString(push.image));
+}
+
+function parseHarbor(body: any): RegistryPush[] {
+  if (body?.type !== 'PUSH_ARTIFACT') return [];
+  const image = asString(body.event_data?.repository?.repo_full_name);
+  const resources: any[] = Array.isArray(body.event_data?.resources) ? body.event_data.resources : [];
+  if (!image) return [];
+  return resources
+    .filter(resource => asString(resource?.tag))
+    .map(resource => ({ image, tag: resource.tag, digest: asDigest(resource.digest) }));
+}
+
+function parseGitHubPackage(body: any): RegistryPush[] {
+  const pkg = body?.package;
+  if (!['published', 'updated'].includes(body?.action) || String(pkg?.package_type).toLowerCase() !== 'container') return [];
+  const owner = asString(pkg.owner?.login);
+  const name = asString(pkg.name);
+  const tag = asString(pkg.package_version?.container_metadata?.tag?.name);
+  if (!owner || !name || !tag) return [];
+  return [{
+    image: `${owner}/${name}`.toLowerCase(),
+    tag,
+    digest: asDigest(pkg.package_version.container_metadata.tag.digest) ?? asDigest(pkg.package_version.name),
+  }];
+}
+
+function parseGitea(body: any): RegistryPush[] {
+  const pkg = body?.package;
+  if (body?.action !== 'created' || pkg?.type !== 'container') return [];
+  const owner = asString(pkg.owner?.login) ?? asString(pkg.owner?.username);
+  const name = asString(pkg.name);
+  const version = asString(pkg.version);
+  // Untagged manifests are published with their digest as the version
+  if (!owner || !name || !version || version.startsWith('sha256:')) return [];
+  return [{ image: `${owner}/${name}`.toLowerCase(), tag: version, digest: null }];
+}
+
+function parseNexus(body: any): RegistryPush[] {
+  const component = body?.component;
+  if (!['CREATED', 'UPDATED'].includes(body?.action) || component?.format !== 'docker') return [];
+  const image = asString(component.name);
+  const tag = asString(component.version);
+  if (!image || !tag) return [];
+  return [{ image, tag, digest: null }];
+}
+
+function parseQuay(body: any): RegistryPush[] {
+  const image = asString(body?.repository);
+  const tags: unknown[] = Array.isArray(body?.updated_tags) ? body.updated_tags : [];
+  if (!image) return [];
+  return tags.filter((tag): tag is string => asString(tag) !== null).map(tag => ({ image, tag, digest: null }));
+}
+
+/**
+ * Identify the format of a notification from its headers and body.
+ * Returns null for bodies of no known format.
+ */
+export function detectWebhookFormat(headers: Headers, body: any): WebhookFormat | null {
+  // Gitea also sends X-GitHub-Event for compatibility, so it is checked first
+  if (headers.get('x-gitea-event') || headers.get('x-forgejo-event')) return 'gitea';
+  if (headers.get('x-github-event')) return 'ghcr';
+  if (headers.get('x-nexus-webhook-id')) return 'nexus';
+  if (Array.isArray(body?.events)) return headers.get('x-gitlab-token') ? 'gitlab' : 'distribution';
+  if (body?.event_data && typeof body?.type === 'string') return 'harbor';
+  if (Array.isArray(body?.updated_tags)) return 'quay';
+  return null;
+}
+
+/**
+ * The tags a notification reports as pushed, once per image and tag.
+ * Other events (pulls, deletions, pings) yield no pushes.
+ */
+export function parseRegistryWebhook(headers: Headers, body: any): ParsedWebhook | null {
+  const format = detectWebhookFormat(headers, body);
+  if (!format) return null;
+
+  const parsers: Record<WebhookFormat, (body: any) => RegistryPush[]> = {
+    distribution: parseDistribution,
+    gitlab: parseDistribution,
+    harbor: parseHarbor,
+    ghcr: parseGitHubPackage,
+    gitea: parseGitea,
+    nexus: parseNexus,
+    quay: parseQuay,
+  };
+
+  const seen = new Set<string>();
+  const pushes = parsers[format](body).filter(push => {
+    const key = `${push.image}:${push.tag}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { format, pushes };
+}
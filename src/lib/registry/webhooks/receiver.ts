@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import type { Repository } from '@/generated/prisma';
+import { decryptSecret, encryptSecret } from '@/lib/crypto/envelope';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { scannerService } from '@/lib/scanner/ScannerService';
+import { RegistryService } from '../RegistryService';
+import { TagWatcher } from '../sync/TagWatcher';
+import type { RegistryPush } from './formats';
+
+export interface PushResult extends RegistryPush {
+  status: 'queued' | 'duplicate' | 'failed';
+  scanId?: string;
+  error?: string;
+}
+
+const tagWatcher = new TagWatcher(prisma, new RegistryService(prisma));
+
+/** A new webhook secret, returned once and stored encrypted */
+export function generateWebhookSecret(): { secret: string; encrypted: string } {
+  const secret = `hg_wh_${crypto.randomBytes(24).toString('hex')}`;
+  return { secret, encrypted: encryptSecret(secret) };
+}
+
+/** The plaintext webhook secret of a repository, or null while the webhook is off */
+export function getWebhookSecret(repository: Pick<Repository, 'webhookSecret'>): string | null {
+  return repository.webhookSecret ? decryptSecret(repository.webhookSecret) : null;
+}
+
+/**
+ * Record the pushed tags in the repository's discovery feed and queue a
+ * scan of each. The scan pulls the pushed digest (or the tag, when the
+ * format has none) with the repository's credentials; pushes of a digest
+ * the tag already points at are not scanned again.
+ */
+export async function handleRegistryPushes(repositoryId: string, pushes: RegistryPush[]): Promise<PushResult[]> {
+  const results: PushResult[] = [];
+
+  for (const push of pushes) {
+    try {
+      const change = await tagWatcher.recordPush(repositoryId, push.image, push.tag, push.digest);
+      if (!change) {
+        results.push({ ...push, status: 'duplicate' });
+        continue;
+      }
+
+      // Pin the pull to the pushed manifest so a tag moved since is not scanned instead
+      const { scanId } = await scannerService.startScan({
+        image: push.image,
+        tag: push.tag,
+        ...(push.digest && { digest: push.digest }),
+        source: 'registry',
+        repositoryId
+      });
+      await prisma.repositoryTagEvent.update({ where: { id: change.id }, data: { scanId } });
+      results.push({ ...push, status: 'queued', scanId });
+    } catch (error) {
+      logger.error(`[WEBHOOK] Failed to queue scan of pushed ${push.image}:${push.tag}:`, error);
+      results.push({ ...push, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,382 @@
+/**
+ * SARIF 2.1.0 log of a scan's vulnerability, compliance and secret findings,
+ * for upload to code-scanning dashboards and IDEs.
+ */
+import type { Prisma, ScanComplianceFinding, ScanVulnerabilityFinding, Severity, VulnerabilityException } from '@/generated/prisma';
+import { findException, formatExceptionLabel } from '@/lib/exceptions/rules';
+import { buildAliasMap, findingAliases, getCorrelationKey, parseCorrelationKey } from '@/lib/scanner/FindingCorrelator';
+import { mapSeverityToEnum } from '@/lib/utils/severity-utils';
+import { findSuppressingVexStatement, formatVexLabel, type VexImage } from '@/lib/vex/rules';
+import type { ImportedVexStatement } from '@/lib/vex/service';
+import type { DockleReport, GrypeReport, TrivyLayer, TrivyReport } from '@/types/scanner';
+
+export interface SarifScan {
+  id: string;
+  status: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  image: VexImage;
+  metadata: { scannerVersions: Prisma.JsonValue | null } | null;
+}
+
+export type SarifVulnerabilityFinding = Pick<
+  ScanVulnerabilityFinding,
+  'source' | 'cveId' | 'packageName' | 'installedVersion' | 'fixedVersion' | 'severity' | 'cvssScore'
+  | 'title' | 'description' | 'vulnerabilityUrl' | 'filePath' | 'layerId' | 'rawFinding'
+>;
+
+export type SarifComplianceFinding = Pick<
+  ScanComplianceFinding,
+  'source' | 'ruleId' | 'ruleName' | 'category' | 'severity' | 'message' | 'description' | 'remediation' | 'filePath' | 'lineNumber'
+>;
+
+export interface SarifReportInput {
+  // Normalized findings of the scan; raw scanner output is used when there are none
+  vulnerabilities: SarifVulnerabilityFinding[];
+  compliance: SarifComplianceFinding[];
+  scannerData: { trivy?: TrivyReport; grype?: GrypeReport; dockle?: DockleReport };
+  exceptions?: VulnerabilityException[];
+  vexStatements?: ImportedVexStatement[];
+}
+
+interface FindingLocation {
+  path: string | null;
+  layer: string | null;
+  startLine?: number | null;
+  endLine?: number | null;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'HarborGuard';
+const TOOL_URI = 'https://github.com/HarborGuard/HarborGuard';
+const DOCKLE_CHECKPOINTS_URI = 'https://github.com/goodwithtech/dockle/blob/master/CHECKPOINT.md';
+
+// Paths reported by the scanners are relative to the image's root filesystem
+const IMAGE_ROOT = 'IMAGE_ROOT';
+
+const SEVERITY_ORDER: Severity[] = ['INFO', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const SARIF_LEVEL: Record<Severity, 'error' | 'warning' | 'note'> = {
+  CRITICAL: 'error',
+  HIGH: 'error',
+  MEDIUM: 'warning',
+  LOW: 'note',
+  INFO: 'note',
+};
+
+// Scores code-scanning dashboards bucket into critical/high/medium/low when no CVSS score is known
+const SECURITY_SEVERITY: Record<Severity, number> = {
+  CRITICAL: 9.5,
+  HIGH: 8.0,
+  MEDIUM: 5.5,
+  LOW: 2.0,
+  INFO: 0.0,
+};
+
+const DOCKLE_SEVERITY: Record<string, Severity> = {
+  FATAL: 'CRITICAL',
+  WARN: 'MEDIUM',
+  INFO: 'INFO',
+};
+
+function maxSeverity(a: Severity, b: Severity): Severity {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+function layerDigest(layer: TrivyLayer | undefined): string | null {
+  return layer?.Digest ?? layer?.DiffID ?? null;
+}
+
+/** Vulnerability findings read from raw Trivy and Grype output, with their locations */
+function rawVulnerabilityFindings(scannerData: SarifReportInput['scannerData']): SarifVulnerabilityFinding[] {
+  const findings: SarifVulnerabilityFinding[] = [];
+
+  for (const result of scannerData.trivy?.Results ?? []) {
+    for (const vuln of result.Vulnerabilities ?? []) {
+      findings.push({
+        source: 'trivy',
+        cveId: vuln.VulnerabilityID,
+        packageName: vuln.PkgName,
+        installedVersion: vuln.InstalledVersion || null,
+        fixedVersion: vuln.FixedVersion || null,
+        severity: mapSeverityToEnum(vuln.Severity),
+        cvssScore: vuln.CVSS?.nvd?.V3Score ?? vuln.CVSS?.redhat?.V3Score ?? null,
+        title: vuln.Title ?? null,
+        description: vuln.Description || null,
+        vulnerabilityUrl: vuln.PrimaryURL ?? null,
+        // Language packages are reported per lock or manifest file, OS packages per image
+        filePath: vuln.PkgPath ?? (result.Class === 'lang-pkgs' ? result.Target : null),
+        layerId: layerDigest(vuln.Layer),
+        rawFinding: null,
+      });
+    }
+  }
+
+  for (const match of scannerData.grype?.matches ?? []) {
+    const locations = match.artifact?.locations?.length ? match.artifact.locations : [{ path: '', layerID: '' }];
+    const aliases = (match.relatedVulnerabilities ?? []).map(related => related.id).filter(id => id !== match.vulnerability.id);
+    for (const location of locations) {
+      findings.push({
+        source: 'grype',
+        cveId: match.vulnerability.id,
+        packageName: match.artifact.name,
+        installedVersion: match.artifact.version || null,
+        fixedVersion: match.vulnerability.fix?.versions?.[0] ?? null,
+        severity: mapSeverityToEnum(match.vulnerability.severity),
+        cvssScore: match.vulnerability.cvss?.[0]?.metrics?.baseScore ?? null,
+        title: null,
+        description: match.vulnerability.description || null,
+        vulnerabilityUrl: match.vulnerability.dataSource || null,
+        filePath: location.path || null,
+        layerId: location.layerID || null,
+        rawFinding: aliases.length > 0 ? { aliases } : null,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function rawComplianceFindings(dockle: DockleReport | undefined): SarifComplianceFinding[] {
+  return (dockle?.details ?? []).map(detail => ({
+    source: 'dockle',
+    ruleId: detail.code,
+    ruleName: detail.title,
+    category: 'Best Practice',
+    severity: DOCKLE_SEVERITY[detail.level] ?? 'INFO',
+    message: detail.alerts?.length ? detail.alerts.join('\n') : detail.title,
+    description: null,
+    remediation: null,
+    filePath: null,
+    lineNumber: null,
+  }));
+}
+
+/**
+ * Build the SARIF log. Vulnerabilities reported by several scanners, under
+ * CVE or GHSA ids, become one result per package; findings covered by an
+ * approved exception or a suppressing VEX statement are kept but carry an
+ * accepted suppression.
+ */
+export function generateSarifReport(scan: SarifScan, input: SarifReportInput) {
+  const { image } = scan;
+  const exceptions = input.exceptions ?? [];
+  const vexStatements = input.vexStatements ?? [];
+  const imageUri = encodeURI(image.name);
+
+  const rules: any[] = [];
+  const ruleIndex = new Map<string, number>();
+  const addRule = (rule: { id: string } & Record<string, unknown>) => {
+    if (!ruleIndex.has(rule.id)) {
+      ruleIndex.set(rule.id, rules.length);
+      rules.push(rule);
+    }
+    return ruleIndex.get(rule.id)!;
+  };
+
+  // Findings without a file are reported against the image itself
+  const toLocations = (locations: FindingLocation[]) => {
+    const items = locations.length > 0 ? locations : [{ path: null, layer: null }];
+    return items.map(location => ({
+      physicalLocation: {
+        artifactLocation: location.path
+          ? { uri: encodeURI(location.path.replace(/^\/+/, '')), uriBaseId: IMAGE_ROOT }
+          : { uri: imageUri },
+        ...(location.startLine
+          ? { region: { startLine: location.startLine, ...(location.endLine ? { endLine: location.endLine } : {}) } }
+          : {}),
+      },
+      ...(location.layer ? { logicalLocations: [{ name: location.layer, kind: 'layer' }] } : {}),
+    }));
+  };
+
+  const results: any[] = [];
+
+  // Vulnerabilities, one result per advisory and package
+  const rawVulnerabilities = rawVulnerabilityFindings(input.scannerData);
+  const vulnerabilities = input.vulnerabilities.length > 0 ? input.vulnerabilities : rawVulnerabilities;
+  const aliasMap = buildAliasMap([...vulnerabilities, ...rawVulnerabilities]);
+
+  // Normalized findings rarely carry a path, so locations also come from the raw output
+  const locationsByKey = new Map<string, Map<string, FindingLocation>>();
+  for (const finding of [...vulnerabilities, ...rawVulnerabilities]) {
+    if (!finding.filePath && !finding.layerId) continue;
+    const key = getCorrelationKey(finding, aliasMap);
+    const locations = locationsByKey.get(key) ?? new Map<string, FindingLocation>();
+    locations.set(`${finding.filePath ?? ''}|${finding.layerId ?? ''}`, { path: finding.filePath, layer: finding.layerId });
+    locationsByKey.set(key, locations);
+  }
+
+  type Group = { finding: SarifVulnerabilityFinding; ids: Set<string>; sources: Set<string>; severity: Severity; cvssScore: number | null };
+  const groups = new Map<string, Group>();
+  for (const finding of vulnerabilities) {
+    const key = getCorrelationKey(finding, aliasMap);
+    const group = groups.get(key) ?? { finding, ids: new Set<string>(), sources: new Set<string>(), severity: finding.severity, cvssScore: null };
+    group.ids.add(finding.cveId.toUpperCase());
+    for (const alias of findingAliases(finding.rawFinding)) group.ids.add(alias.toUpperCase());
+    group.sources.add(finding.source);
+    group.severity = maxSeverity(group.severity, finding.severity);
+    if (finding.cvssScore != null) group.cvssScore = Math.max(group.cvssScore ?? 0, finding.cvssScore);
+    // Prefer the richest description of the vulnerability
+    if (!group.finding.description && finding.description) group.finding = { ...group.finding, description: finding.description, title: group.finding.title ?? finding.title };
+    if (!group.finding.fixedVersion && finding.fixedVersion) group.finding = { ...group.finding, fixedVersion: finding.fixedVersion };
+    groups.set(key, group);
+  }
+
+  for (const [key, { finding, ids, sources, severity, cvssScore }] of groups) {
+    const { vulnerabilityId } = parseCorrelationKey(key);
+    const aliases = [...ids].filter(id => id !== vulnerabilityId).sort();
+    const securitySeverity = (cvssScore ?? SECURITY_SEVERITY[severity]).toFixed(1);
+
+    const index = addRule({
+      id: vulnerabilityId,
+      shortDescription: { text: finding.title || vulnerabilityId },
+      fullDescription: { text: finding.description || finding.title || vulnerabilityId },
+      ...(finding.vulnerabilityUrl ? { helpUri: finding.vulnerabilityUrl } : {}),
+      help: {
+        text: [
+          `Vulnerability ${vulnerabilityId}`,
+          aliases.length > 0 ? `Aliases: ${aliases.join(', ')}` : null,
+          `Severity: ${severity}`,
+          finding.vulnerabilityUrl ? `Link: ${finding.vulnerabilityUrl}` : null,
+        ].filter(Boolean).join('\n'),
+      },
+      defaultConfiguration: { level: SARIF_LEVEL[severity] },
+      properties: {
+        tags: ['security', 'vulnerability', severity],
+        precision: 'very-high',
+        'security-severity': securitySeverity,
+      },
+    });
+    // A rule is shared by every package with the vulnerability; keep the worst severity
+    const rule = rules[index];
+    if (Number(securitySeverity) > Number(rule.properties['security-severity'])) {
+      rule.properties['security-severity'] = securitySeverity;
+      rule.defaultConfiguration.level = SARIF_LEVEL[severity];
+    }
+
+    const match = { cveId: finding.cveId, packageName: finding.packageName, installedVersion: finding.installedVersion, aliases: [...ids] };
+    const exception = findException(exceptions, match);
+    const statement = exception ? undefined : findSuppressingVexStatement(vexStatements, image, match);
+    const justification = exception
+      ? `${formatExceptionLabel(exception)}: ${exception.reason}`
+      : statement
+        ? `${formatVexLabel(statement)}${statement.impactStatement ? `: ${statement.impactStatement}` : ''}`
+        : null;
+
+    const version = finding.installedVersion ? ` ${finding.installedVersion}` : '';
+    results.push({
+      ruleId: vulnerabilityId,
+      ruleIndex: index,
+      level: SARIF_LEVEL[severity],
+      message: {
+        text: `Package ${finding.packageName}${version} is affected by ${vulnerabilityId} (${severity})`
+          + (finding.fixedVersion ? `; fixed in ${finding.fixedVersion}` : '; no fix available'),
+      },
+      locations: toLocations([...(locationsByKey.get(key)?.values() ?? [])]),
+      partialFingerprints: { 'harborguardFinding/v1': key },
+      ...(justification ? { suppressions: [{ kind: 'external', status: 'accepted', justification }] } : {}),
+      properties: {
+        packageName: finding.packageName,
+        installedVersion: finding.installedVersion,
+        fixedVersion: finding.fixedVersion,
+        aliases,
+        scanners: [...sources].sort(),
+        ...(cvssScore != null ? { cvssScore } : {}),
+      },
+    });
+  }
+
+  // Compliance checks of the image configuration
+  const compliance = input.compliance.length > 0 ? input.compliance : rawComplianceFindings(input.scannerData.dockle);
+  for (const finding of compliance) {
+    const isDockle = finding.source === 'dockle';
+    const index = addRule({
+      id: finding.ruleId,
+      shortDescription: { text: finding.ruleName },
+      fullDescription: { text: finding.description || finding.ruleName },
+      ...(isDockle ? { helpUri: `${DOCKLE_CHECKPOINTS_URI}#${finding.ruleId.toLowerCase()}` } : {}),
+      ...(finding.remediation ? { help: { text: finding.remediation } } : {}),
+      defaultConfiguration: { level: SARIF_LEVEL[finding.severity] },
+      properties: {
+        tags: ['security', 'compliance', finding.category],
+        precision: 'high',
+        'security-severity': SECURITY_SEVERITY[finding.severity].toFixed(1),
+      },
+    });
+    results.push({
+      ruleId: finding.ruleId,
+      ruleIndex: index,
+      level: SARIF_LEVEL[finding.severity],
+      message: { text: finding.message || finding.ruleName },
+      locations: toLocations(finding.filePath ? [{ path: finding.filePath, layer: null, startLine: finding.lineNumber }] : []),
+      partialFingerprints: { 'harborguardFinding/v1': `${finding.ruleId}|${finding.filePath ?? ''}` },
+      properties: { category: finding.category, scanners: [finding.source] },
+    });
+  }
+
+  // Secrets found in image files. The matched text is left out of the log.
+  for (const result of input.scannerData.trivy?.Results ?? []) {
+    for (const secret of result.Secrets ?? []) {
+      const severity = mapSeverityToEnum(secret.Severity);
+      const index = addRule({
+        id: secret.RuleID,
+        shortDescription: { text: secret.Title },
+        fullDescription: { text: `${secret.Title} (${secret.Category})` },
+        defaultConfiguration: { level: SARIF_LEVEL[severity] },
+        properties: {
+          tags: ['security', 'secret', secret.Category],
+          precision: 'high',
+          'security-severity': SECURITY_SEVERITY[severity].toFixed(1),
+        },
+      });
+      results.push({
+        ruleId: secret.RuleID,
+        ruleIndex: index,
+        level: SARIF_LEVEL[severity],
+        message: { text: `${secret.Title} found in ${result.Target}` },
+        locations: toLocations([{
+          path: result.Target,
+          layer: layerDigest(secret.Layer),
+          startLine: secret.StartLine,
+          endLine: secret.EndLine,
+        }]),
+        partialFingerprints: { 'harborguardFinding/v1': `${secret.RuleID}|${result.Target}|${secret.StartLine ?? ''}` },
+        properties: { category: secret.Category, scanners: ['trivy'] },
+      });
+    }
+  }
+
+  const scannerVersions = scan.metadata?.scannerVersions;
+  const extensions = scannerVersions && typeof scannerVersions === 'object' && !Array.isArray(scannerVersions)
+    ? Object.entries(scannerVersions).map(([name, version]) => ({ name, ...(typeof version === 'string' ? { version } : {}) }))
+    : [];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules },
+        ...(extensions.length > 0 ? { extensions } : {}),
+      },
+      // Code scanning groups uploads by everything before the last slash
+      automationDetails: { id: `harborguard/${image.name}:${image.tag}/${scan.id}` },
+      invocations: [{
+        executionSuccessful: scan.status === 'SUCCESS' || scan.status === 'PARTIAL',
+        startTimeUtc: scan.startedAt.toISOString(),
+        ...(scan.finishedAt ? { endTimeUtc: scan.finishedAt.toISOString() } : {}),
+      }],
+      originalUriBaseIds: {
+        [IMAGE_ROOT]: { uri: 'file:///', description: { text: `Root filesystem of ${image.name}:${image.tag}` } },
+      },
+      results,
+      properties: {
+        imageName: image.name,
+        imageTag: image.tag,
+        imageDigest: image.digest,
+        scanId: scan.id,
+      },
+    }],
+  };
+}
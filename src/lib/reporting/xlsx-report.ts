@@ -1,5 +1,9 @@
 import * as XLSX from 'xlsx'
+import type { VulnerabilityException } from '@/generated/prisma'
+import { findException, formatExceptionLabel } from '@/lib/exceptions/rules'
 import { getSeverityHexColor } from '@/lib/utils/severity-utils'
+import { findSuppressingVexStatement, formatVexLabel } from '@/lib/vex/rules'
+import type { ImportedVexStatement } from '@/lib/vex/service'
 
 interface VulnerabilityData {
   package: string
@@ -35,7 +39,13 @@ function addCellStyle(worksheet: any, cell: string, style: any) {
   worksheet[cell].s = style
 }
 
-export function generateXlsxReport(scan: any, decodedImageName: string, scannerDataOverride?: Record<string, any>): Buffer {
+export function generateXlsxReport(
+  scan: any,
+  decodedImageName: string,
+  scannerDataOverride?: Record<string, any>,
+  exceptions: VulnerabilityException[] = [],
+  vexStatements: ImportedVexStatement[] = []
+): Buffer {
   const workbook = XLSX.utils.book_new()
 
   const metadata = scan.metadata
@@ -46,6 +56,20 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
   const syftPackages = (sd.syft ?? metadata?.syftResults)?.artifacts || []
   const osvVulns = (sd.osv ?? metadata?.osvResults)?.results || []
 
+  // Findings covered by an approved exception or a suppressing VEX statement are listed but labelled
+  const exceptionLabel = (cveId: string, packageName: string) => {
+    if (!cveId) return ''
+    const finding = { cveId, packageName: packageName || '' }
+    const exception = findException(exceptions, finding)
+    if (exception) return formatExceptionLabel(exception)
+    const statement = scan.image ? findSuppressingVexStatement(vexStatements, scan.image, finding) : undefined
+    return statement ? formatVexLabel(statement) : ''
+  }
+  const exceptedCount = new Set([
+    ...trivyVulns.filter((v: any) => exceptionLabel(v.VulnerabilityID, v.PkgName)).map((v: any) => `${v.VulnerabilityID}|${v.PkgName}`),
+    ...grypeVulns.filter((m: any) => exceptionLabel(m.vulnerability?.id, m.artifact?.name)).map((m: any) => `${m.vulnerability?.id}|${m.artifact?.name}`),
+  ]).size
+
   // Calculate summary statistics
   const vulnSummary = {
     critical: metadata?.vulnerabilityCritical || 0,
@@ -95,6 +119,7 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
   summaryData.push(['', 'RISK & COMPLIANCE'])
   summaryData.push(['', 'Risk Score', scan.riskScore !== null ? `${scan.riskScore.toFixed(1)}%` : 'N/A'])
   summaryData.push(['', 'Compliance Score', metadata?.complianceScore !== null && metadata?.complianceScore !== undefined ? `${metadata.complianceScore.toFixed(1)}%` : 'N/A'])
+  summaryData.push(['', 'Excepted Findings', exceptedCount])
   summaryData.push([''])
 
   // Scanner Results Section
@@ -189,7 +214,7 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
     const trivyData = [
       ['TRIVY VULNERABILITY REPORT'],
       [''],
-      ['Package', 'Vulnerability ID', 'Severity', 'Installed Version', 'Fixed Version', 'Title']
+      ['Package', 'Vulnerability ID', 'Severity', 'Installed Version', 'Fixed Version', 'Title', 'Exception']
     ]
 
     trivyVulns.forEach((vuln: any) => {
@@ -199,7 +224,8 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
         vuln.Severity || '',
         vuln.InstalledVersion || '',
         vuln.FixedVersion || 'Not available',
-        vuln.Title || ''
+        vuln.Title || '',
+        exceptionLabel(vuln.VulnerabilityID, vuln.PkgName)
       ])
     })
 
@@ -220,7 +246,7 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
 
     // Apply title and header row styling
     addCellStyle(trivySheet, 'A1', titleStyle)
-    for (let col = 0; col < 6; col++) {
+    for (let col = 0; col < 7; col++) {
       const cellAddress = XLSX.utils.encode_cell({ r: 2, c: col })
       addCellStyle(trivySheet, cellAddress, headerStyle)
     }
@@ -240,7 +266,8 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
 
     trivySheet['!cols'] = [
       { wch: 35 }, { wch: 25 }, { wch: 12 },
-      { wch: 20 }, { wch: 20 }, { wch: 50 }
+      { wch: 20 }, { wch: 20 }, { wch: 50 },
+      { wch: 30 }
     ]
 
     XLSX.utils.book_append_sheet(workbook, trivySheet, 'Trivy')
@@ -251,7 +278,7 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
     const grypeData = [
       ['GRYPE VULNERABILITY REPORT'],
       [''],
-      ['Package', 'Vulnerability ID', 'Severity', 'Version', 'Fixed Version', 'Type']
+      ['Package', 'Vulnerability ID', 'Severity', 'Version', 'Fixed Version', 'Type', 'Exception']
     ]
 
     grypeVulns.forEach((match: any) => {
@@ -261,7 +288,8 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
         match.vulnerability?.severity || '',
         match.artifact?.version || '',
         match.vulnerability?.fix?.versions?.[0] || 'Not available',
-        match.artifact?.type || ''
+        match.artifact?.type || '',
+        exceptionLabel(match.vulnerability?.id, match.artifact?.name)
       ])
     })
 
@@ -276,7 +304,7 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
       alignment: { horizontal: 'center', vertical: 'center' }
     }
 
-    for (let col = 0; col < 6; col++) {
+    for (let col = 0; col < 7; col++) {
       const cellAddress = XLSX.utils.encode_cell({ r: 2, c: col })
       addCellStyle(grypeSheet, cellAddress, headerStyle)
     }
@@ -296,7 +324,8 @@ export function generateXlsxReport(scan: any, decodedImageName: string, scannerD
 
     grypeSheet['!cols'] = [
       { wch: 35 }, { wch: 25 }, { wch: 12 },
-      { wch: 20 }, { wch: 20 }, { wch: 15 }
+      { wch: 20 }, { wch: 20 }, { wch: 15 },
+      { wch: 30 }
     ]
 
     XLSX.utils.book_append_sheet(workbook, grypeSheet, 'Grype')
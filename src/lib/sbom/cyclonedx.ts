@@ -0,0 +1,178 @@
+/**
+ * CycloneDX 1.5 SBOMs, as JSON or XML.
+ */
+import { randomUUID } from 'crypto';
+import { imagePackageUrl } from '@/lib/vex/export';
+import { combineLicenses, type SbomModel } from './model';
+
+const TOOL_NAME = 'HarborGuard';
+const CYCLONEDX_XML_NAMESPACE = 'http://cyclonedx.org/schema/bom/1.5';
+
+interface CycloneDxProperty {
+  name: string;
+  value: string;
+}
+
+type CycloneDxLicense = { expression: string } | { license: { name: string } };
+
+interface CycloneDxComponent {
+  type: string;
+  'bom-ref': string;
+  supplier?: { name: string };
+  name: string;
+  version?: string;
+  hashes?: Array<{ alg: string; content: string }>;
+  licenses?: CycloneDxLicense[];
+  purl?: string;
+  properties?: CycloneDxProperty[];
+}
+
+export interface CycloneDxBom {
+  bomFormat: 'CycloneDX';
+  specVersion: '1.5';
+  serialNumber: string;
+  version: number;
+  metadata: {
+    timestamp: string;
+    tools: { components: Array<{ type: 'application'; name: string; version?: string }> };
+    component: CycloneDxComponent;
+  };
+  components: CycloneDxComponent[];
+  dependencies: Array<{ ref: string; dependsOn: string[] }>;
+}
+
+function property(name: string, value: string | number | null | undefined): CycloneDxProperty[] {
+  return value === null || value === undefined || value === '' ? [] : [{ name: `harborguard:${name}`, value: String(value) }];
+}
+
+// An expression when every license is an SPDX one, free-text names otherwise
+function toLicenses(licenses: string[]): CycloneDxLicense[] | undefined {
+  if (licenses.length === 0) return undefined;
+  const expression = combineLicenses(licenses);
+  return expression ? [{ expression }] : licenses.map(name => ({ license: { name } }));
+}
+
+export function buildCycloneDxSbom(model: SbomModel): CycloneDxBom {
+  const { image, metadata } = model.scan;
+  const imageRef = imagePackageUrl(image);
+  const digest = image.digest.match(/^sha256:([a-f0-9]{64})$/);
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: model.createdAt.toISOString(),
+      tools: {
+        components: [
+          { type: 'application', name: TOOL_NAME },
+          ...model.tools.map(tool => ({ type: 'application' as const, name: tool.name, ...(tool.version ? { version: tool.version } : {}) })),
+        ],
+      },
+      component: {
+        type: 'container',
+        'bom-ref': imageRef,
+        name: image.registry ? `${image.registry}/${image.name}` : image.name,
+        version: image.tag,
+        ...(digest ? { hashes: [{ alg: 'SHA-256', content: digest[1] }] } : {}),
+        purl: imageRef,
+        properties: [
+          ...property('image:digest', image.digest),
+          ...property('image:platform', image.platform),
+          ...property('image:os', metadata?.dockerOs),
+          ...property('image:architecture', metadata?.dockerArchitecture),
+          ...property('image:size', image.sizeBytes?.toString()),
+          ...property('image:created', metadata?.dockerCreated?.toISOString()),
+          ...property('scan:id', model.scan.id),
+        ],
+      },
+    },
+    components: model.packages.map(pkg => ({
+      type: 'library',
+      'bom-ref': pkg.ref,
+      ...(pkg.supplier ? { supplier: { name: pkg.supplier } } : {}),
+      name: pkg.name,
+      ...(pkg.version ? { version: pkg.version } : {}),
+      ...(pkg.licenses.length > 0 ? { licenses: toLicenses(pkg.licenses) } : {}),
+      ...(pkg.purl ? { purl: pkg.purl } : {}),
+      properties: [
+        ...property('package:type', pkg.type),
+        ...pkg.sources.flatMap(source => property('package:foundBy', source)),
+        ...pkg.paths.flatMap(path => property('package:path', path)),
+        ...pkg.layers.flatMap(layer => property('package:layer', layer)),
+      ],
+    })),
+    dependencies: [
+      { ref: imageRef, dependsOn: model.roots },
+      ...model.packages.map(pkg => ({ ref: pkg.ref, dependsOn: pkg.dependsOn })),
+    ],
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name: string, content: string | string[], attributes: Record<string, string> = {}, indent = ''): string {
+  const attrs = Object.entries(attributes).map(([key, value]) => ` ${key}="${escapeXml(value)}"`).join('');
+  if (typeof content === 'string') return `${indent}<${name}${attrs}>${escapeXml(content)}</${name}>`;
+  if (content.length === 0) return `${indent}<${name}${attrs}/>`;
+  return `${indent}<${name}${attrs}>\n${content.join('\n')}\n${indent}</${name}>`;
+}
+
+// Child elements in the order the XML schema requires
+function componentXml(component: CycloneDxComponent, indent: string): string {
+  const inner = `${indent}  `;
+  const children: string[] = [];
+  if (component.supplier) children.push(element('supplier', [element('name', component.supplier.name, {}, `${inner}  `)], {}, inner));
+  children.push(element('name', component.name, {}, inner));
+  if (component.version) children.push(element('version', component.version, {}, inner));
+  if (component.hashes) {
+    children.push(element('hashes', component.hashes.map(hash => element('hash', hash.content, { alg: hash.alg }, `${inner}  `)), {}, inner));
+  }
+  if (component.licenses) {
+    children.push(element('licenses', component.licenses.map(license => 'expression' in license
+      ? element('expression', license.expression, {}, `${inner}  `)
+      : element('license', [element('name', license.license.name, {}, `${inner}    `)], {}, `${inner}  `)), {}, inner));
+  }
+  if (component.purl) children.push(element('purl', component.purl, {}, inner));
+  if (component.properties?.length) {
+    children.push(element('properties', component.properties.map(prop => element('property', prop.value, { name: prop.name }, `${inner}  `)), {}, inner));
+  }
+  return element('component', children, { type: component.type, 'bom-ref': component['bom-ref'] }, indent);
+}
+
+/** The XML form of a CycloneDX JSON BOM built by buildCycloneDxSbom */
+export function toCycloneDxXml(bom: CycloneDxBom): string {
+  const tools = bom.metadata.tools.components.map(tool => element('component', [
+    element('name', tool.name, {}, '          '),
+    ...(tool.version ? [element('version', tool.version, {}, '          ')] : []),
+  ], { type: tool.type }, '        '));
+
+  const body = [
+    element('metadata', [
+      element('timestamp', bom.metadata.timestamp, {}, '    '),
+      element('tools', [element('components', tools, {}, '      ')], {}, '    '),
+      componentXml(bom.metadata.component, '    '),
+    ], {}, '  '),
+    element('components', bom.components.map(component => componentXml(component, '    ')), {}, '  '),
+    element('dependencies', bom.dependencies.map(dependency => element(
+      'dependency',
+      dependency.dependsOn.map(ref => element('dependency', [], { ref }, '      ')),
+      { ref: dependency.ref },
+      '    '
+    )), {}, '  '),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${element('bom', body, {
+    xmlns: CYCLONEDX_XML_NAMESPACE,
+    serialNumber: bom.serialNumber,
+    version: String(bom.version),
+  })}\n`;
+}
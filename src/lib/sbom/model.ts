@@ -0,0 +1,237 @@
+/**
+ * Package inventory of a scan, merged across scanners, that the CycloneDX and
+ * SPDX documents are written from.
+ */
+import { createHash } from 'crypto';
+import type { Prisma, ScanPackageFinding } from '@/generated/prisma';
+import type { VexImage } from '@/lib/vex/rules';
+import type { SyftReport } from '@/types/scanner';
+
+export const SBOM_FORMATS = ['cyclonedx', 'cyclonedx-xml', 'spdx'] as const;
+
+export type SbomFormat = typeof SBOM_FORMATS[number];
+
+export interface SbomImage extends VexImage {
+  platform: string | null;
+  sizeBytes: bigint | null;
+}
+
+export interface SbomScan {
+  id: string;
+  status: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  image: SbomImage;
+  metadata: {
+    dockerOs: string | null;
+    dockerArchitecture: string | null;
+    dockerCreated: Date | null;
+    scannerVersions: Prisma.JsonValue | null;
+  } | null;
+}
+
+export type SbomPackageFinding = Pick<
+  ScanPackageFinding,
+  'source' | 'packageName' | 'version' | 'type' | 'purl' | 'license' | 'vendor' | 'publisher' | 'filePath' | 'layerId' | 'dependencies'
+>;
+
+export interface SbomPackage {
+  // Unique within the document
+  ref: string;
+  name: string;
+  version: string | null;
+  type: string;
+  purl: string | null;
+  licenses: string[];
+  supplier: string | null;
+  paths: string[];
+  layers: string[];
+  sources: string[];
+  dependsOn: string[];
+}
+
+export interface SbomModel {
+  scan: SbomScan;
+  packages: SbomPackage[];
+  // Packages no other package depends on, which the image depends on directly
+  roots: string[];
+  tools: Array<{ name: string; version: string | null }>;
+  createdAt: Date;
+}
+
+const LICENSE_ID = /^(?:DocumentRef-[A-Za-z0-9.-]+:)?(?:LicenseRef-)?[A-Za-z0-9.-]+\+?$/;
+const LICENSE_OPERATORS = new Set(['AND', 'OR', 'WITH']);
+
+/**
+ * Whether a string is a syntactically valid SPDX license expression, e.g.
+ * "MIT", "(GPL-2.0-only OR MIT) AND BSD-3-Clause".
+ */
+export function isLicenseExpression(value: string): boolean {
+  const tokens = value.match(/\(|\)|[^\s()]+/g) ?? [];
+  let depth = 0;
+  let expectOperand = true;
+  for (const token of tokens) {
+    if (token === '(') {
+      if (!expectOperand) return false;
+      depth++;
+    } else if (token === ')') {
+      if (expectOperand || depth === 0) return false;
+      depth--;
+    } else if (LICENSE_OPERATORS.has(token)) {
+      if (expectOperand) return false;
+      expectOperand = true;
+    } else {
+      if (!expectOperand || !LICENSE_ID.test(token)) return false;
+      expectOperand = false;
+    }
+  }
+  return tokens.length > 0 && !expectOperand && depth === 0;
+}
+
+/** Licenses of a package as scanners report them, e.g. "MIT, Apache-2.0" */
+export function splitLicenses(value: string | null | undefined): string[] {
+  const license = value?.trim();
+  if (!license) return [];
+  if (isLicenseExpression(license)) return [license];
+  return license.split(/\s*[,;]\s*/).filter(Boolean);
+}
+
+/**
+ * One expression covering all of a package's licenses, or null when any of
+ * them is not an SPDX expression.
+ */
+export function combineLicenses(licenses: string[]): string | null {
+  if (licenses.length === 0 || !licenses.every(isLicenseExpression)) return null;
+  if (licenses.length === 1) return licenses[0];
+  return licenses.map(license => (/\s(OR|AND)\s/.test(license) ? `(${license})` : license)).join(' AND ');
+}
+
+/** Digest of a string, short enough for identifiers */
+export function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+function purlType(purl: string | null): string | null {
+  const match = purl?.match(/^pkg:([^/]+)\//);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function purlWithoutQualifiers(purl: string): string {
+  return purl.split(/[?#]/)[0];
+}
+
+// Scanners report the same package with different qualifiers or package types
+function packageKey(finding: Pick<SbomPackageFinding, 'packageName' | 'version' | 'type' | 'purl'>): string {
+  return `${purlType(finding.purl) ?? finding.type.toLowerCase()}|${finding.packageName.toLowerCase()}|${finding.version ?? ''}`;
+}
+
+function addUnique(list: string[], value: string | null | undefined) {
+  if (value && !list.includes(value)) list.push(value);
+}
+
+/**
+ * Merge the package findings of a scan into one entry per package. Dependency
+ * relationships come from the findings' `dependencies` (package URLs, names or
+ * name@version) and from Syft's `dependency-of` relationships when its raw
+ * output is available.
+ */
+export function buildSbomModel(
+  scan: SbomScan,
+  findings: SbomPackageFinding[],
+  syft?: Pick<SyftReport, 'artifacts' | 'artifactRelationships'> | null,
+  createdAt: Date = new Date()
+): SbomModel {
+  const byKey = new Map<string, SbomPackage>();
+  const declared = new Map<SbomPackage, string[]>();
+
+  for (const finding of findings) {
+    const key = packageKey(finding);
+    let pkg = byKey.get(key);
+    if (!pkg) {
+      pkg = {
+        ref: finding.purl ?? `pkg-${shortHash(key)}`,
+        name: finding.packageName,
+        version: finding.version,
+        type: finding.type,
+        purl: finding.purl,
+        licenses: [],
+        supplier: null,
+        paths: [],
+        layers: [],
+        sources: [],
+        dependsOn: [],
+      };
+      byKey.set(key, pkg);
+    }
+    if (!pkg.purl && finding.purl) pkg.purl = finding.purl;
+    if (pkg.licenses.length === 0) pkg.licenses = splitLicenses(finding.license);
+    pkg.supplier ??= finding.vendor ?? finding.publisher ?? null;
+    addUnique(pkg.paths, finding.filePath);
+    addUnique(pkg.layers, finding.layerId);
+    addUnique(pkg.sources, finding.source);
+    if (Array.isArray(finding.dependencies)) {
+      const list = declared.get(pkg) ?? [];
+      for (const dependency of finding.dependencies) if (typeof dependency === 'string') addUnique(list, dependency);
+      declared.set(pkg, list);
+    }
+  }
+
+  // bom-refs must be unique; two packages can share a purl when only the type differs
+  const packages = [...byKey.values()];
+  const seenRefs = new Set<string>();
+  for (const pkg of packages) {
+    if (seenRefs.has(pkg.ref)) pkg.ref = `${pkg.ref}#${shortHash(packageKey({ ...pkg, packageName: pkg.name }))}`;
+    seenRefs.add(pkg.ref);
+  }
+
+  // Resolve package URLs, name@version and unambiguous names to packages
+  const lookup = new Map<string, SbomPackage | null>();
+  const index = (key: string, pkg: SbomPackage) => lookup.set(key, lookup.has(key) && lookup.get(key) !== pkg ? null : pkg);
+  for (const pkg of packages) {
+    if (pkg.purl) {
+      index(pkg.purl, pkg);
+      index(purlWithoutQualifiers(pkg.purl), pkg);
+    }
+    if (pkg.version) index(`${pkg.name}@${pkg.version}`, pkg);
+    index(pkg.name, pkg);
+  }
+  const resolve = (reference: string) =>
+    lookup.get(reference) ?? (reference.startsWith('pkg:') ? lookup.get(purlWithoutQualifiers(reference)) : undefined) ?? null;
+
+  const dependsOn = (pkg: SbomPackage, dependency: SbomPackage | null) => {
+    if (dependency && dependency !== pkg) addUnique(pkg.dependsOn, dependency.ref);
+  };
+  for (const [pkg, references] of declared) {
+    for (const reference of references) dependsOn(pkg, resolve(reference));
+  }
+
+  if (syft?.artifacts && syft.artifactRelationships) {
+    const byArtifact = new Map<string, SbomPackage | null>();
+    for (const artifact of syft.artifacts) {
+      byArtifact.set(
+        artifact.id,
+        (artifact.purl ? resolve(artifact.purl) : null) ?? resolve(`${artifact.name}@${artifact.version}`)
+      );
+    }
+    // "parent is a dependency of child"
+    for (const relationship of syft.artifactRelationships) {
+      if (relationship.type !== 'dependency-of') continue;
+      const dependent = byArtifact.get(relationship.child);
+      if (dependent) dependsOn(dependent, byArtifact.get(relationship.parent) ?? null);
+    }
+  }
+
+  const dependedOn = new Set(packages.flatMap(pkg => pkg.dependsOn));
+  const scannerVersions = scan.metadata?.scannerVersions;
+  const tools = scannerVersions && typeof scannerVersions === 'object' && !Array.isArray(scannerVersions)
+    ? Object.entries(scannerVersions).map(([name, version]) => ({ name, version: typeof version === 'string' ? version : null }))
+    : [];
+
+  return {
+    scan,
+    packages,
+    roots: packages.filter(pkg => !dependedOn.has(pkg.ref)).map(pkg => pkg.ref),
+    tools,
+    createdAt,
+  };
+}
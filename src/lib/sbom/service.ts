@@ -0,0 +1,60 @@
+/**
+ * Loading a scan's package inventory and rendering it as a validated SBOM.
+ */
+import { prisma } from '@/lib/prisma';
+import { loadScannerDataFromS3 } from '@/lib/storage/s3';
+import { buildCycloneDxSbom, toCycloneDxXml } from './cyclonedx';
+import { buildSbomModel, type SbomFormat, type SbomModel } from './model';
+import { buildSpdxSbom } from './spdx';
+import { validateCycloneDxSbom, validateSpdxSbom, type SbomValidationResult } from './validate';
+
+export interface RenderedSbom {
+  body: string;
+  contentType: string;
+  extension: string;
+  validation: SbomValidationResult;
+}
+
+/**
+ * The package inventory of a scan, or null when the scan does not exist.
+ * Syft's raw output is only read for its dependency relationships.
+ */
+export async function loadSbomModel(scanId: string): Promise<SbomModel | null> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      id: true,
+      status: true,
+      startedAt: true,
+      finishedAt: true,
+      image: { select: { name: true, tag: true, digest: true, registry: true, platform: true, sizeBytes: true } },
+      metadata: true,
+    },
+  });
+  if (!scan) return null;
+
+  const [findings, syft] = await Promise.all([
+    prisma.scanPackageFinding.findMany({ where: { scanId }, orderBy: [{ packageName: 'asc' }, { version: 'asc' }] }),
+    loadScannerDataFromS3(scan.metadata, 'syft'),
+  ]);
+  return buildSbomModel(scan, findings, syft);
+}
+
+/** Serialize the SBOM in the requested format, validating it on the way */
+export function renderSbom(model: SbomModel, format: SbomFormat): RenderedSbom {
+  if (format === 'spdx') {
+    const document = buildSpdxSbom(model);
+    return {
+      body: JSON.stringify(document, null, 2),
+      contentType: 'application/spdx+json',
+      extension: 'spdx.json',
+      validation: validateSpdxSbom(document),
+    };
+  }
+
+  const bom = buildCycloneDxSbom(model);
+  const validation = validateCycloneDxSbom(bom);
+  return format === 'cyclonedx-xml'
+    ? { body: toCycloneDxXml(bom), contentType: 'application/vnd.cyclonedx+xml', extension: 'cdx.xml', validation }
+    : { body: JSON.stringify(bom, null, 2), contentType: 'application/vnd.cyclonedx+json', extension: 'cdx.json', validation };
+}
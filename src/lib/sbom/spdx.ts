@@ -0,0 +1,134 @@
+/**
+ * SPDX 2.3 SBOMs, as JSON.
+ */
+import { randomUUID } from 'crypto';
+import { imagePackageUrl } from '@/lib/vex/export';
+import { combineLicenses, isLicenseExpression, shortHash, type SbomModel, type SbomPackage } from './model';
+
+const TOOL_NAME = 'HarborGuard';
+const NAMESPACE_BASE = 'https://github.com/HarborGuard/HarborGuard/spdx';
+const NOASSERTION = 'NOASSERTION';
+
+export const SPDX_DOCUMENT_ID = 'SPDXRef-DOCUMENT';
+const SPDX_IMAGE_ID = 'SPDXRef-Image';
+
+interface SpdxPackage {
+  SPDXID: string;
+  name: string;
+  versionInfo?: string;
+  supplier?: string;
+  downloadLocation: string;
+  filesAnalyzed: false;
+  checksums?: Array<{ algorithm: string; checksumValue: string }>;
+  sourceInfo?: string;
+  licenseConcluded: string;
+  licenseDeclared: string;
+  copyrightText: string;
+  externalRefs?: Array<{ referenceCategory: string; referenceType: string; referenceLocator: string }>;
+  primaryPackagePurpose: string;
+}
+
+export interface SpdxDocument {
+  spdxVersion: 'SPDX-2.3';
+  dataLicense: 'CC0-1.0';
+  SPDXID: string;
+  name: string;
+  documentNamespace: string;
+  creationInfo: { created: string; creators: string[] };
+  packages: SpdxPackage[];
+  relationships: Array<{ spdxElementId: string; relationshipType: string; relatedSpdxElement: string }>;
+  hasExtractedLicensingInfos?: Array<{ licenseId: string; extractedText: string; name: string }>;
+}
+
+function idString(value: string): string {
+  return value.replace(/[^A-Za-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '') || 'unknown';
+}
+
+/** SPDX identifiers allow letters, digits, "." and "-" only */
+function spdxPackageId(pkg: SbomPackage): string {
+  return `SPDXRef-Package-${idString(pkg.name)}-${shortHash(pkg.ref)}`;
+}
+
+// SPDX timestamps have no fractional seconds
+function spdxTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`;
+}
+
+export function buildSpdxSbom(model: SbomModel): SpdxDocument {
+  const { image } = model.scan;
+  const imageRef = imagePackageUrl(image);
+  const digest = image.digest.match(/^sha256:([a-f0-9]{64})$/);
+
+  // Licenses outside the SPDX list are declared as LicenseRef-s
+  const extracted = new Map<string, { licenseId: string; extractedText: string; name: string }>();
+  const declaredLicense = (licenses: string[]) => {
+    if (licenses.length === 0) return NOASSERTION;
+    return combineLicenses(licenses.map(license => {
+      if (isLicenseExpression(license)) return license;
+      const licenseId = `LicenseRef-${idString(license)}`;
+      if (!extracted.has(licenseId)) extracted.set(licenseId, { licenseId, extractedText: license, name: license });
+      return licenseId;
+    }))!;
+  };
+
+  const ids = new Map(model.packages.map(pkg => [pkg.ref, spdxPackageId(pkg)]));
+
+  const imagePackage: SpdxPackage = {
+    SPDXID: SPDX_IMAGE_ID,
+    name: image.registry ? `${image.registry}/${image.name}` : image.name,
+    versionInfo: image.tag,
+    downloadLocation: NOASSERTION,
+    filesAnalyzed: false,
+    ...(digest ? { checksums: [{ algorithm: 'SHA256', checksumValue: digest[1] }] } : {}),
+    licenseConcluded: NOASSERTION,
+    licenseDeclared: NOASSERTION,
+    copyrightText: NOASSERTION,
+    externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: imageRef }],
+    primaryPackagePurpose: 'CONTAINER',
+  };
+
+  const packages: SpdxPackage[] = model.packages.map(pkg => ({
+    SPDXID: ids.get(pkg.ref)!,
+    name: pkg.name,
+    ...(pkg.version ? { versionInfo: pkg.version } : {}),
+    supplier: pkg.supplier ? `Organization: ${pkg.supplier}` : NOASSERTION,
+    downloadLocation: NOASSERTION,
+    filesAnalyzed: false,
+    ...(pkg.paths.length > 0 ? { sourceInfo: `acquired package info from ${pkg.paths.join(', ')}` } : {}),
+    licenseConcluded: NOASSERTION,
+    licenseDeclared: declaredLicense(pkg.licenses),
+    copyrightText: NOASSERTION,
+    ...(pkg.purl
+      ? { externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: pkg.purl }] }
+      : {}),
+    primaryPackagePurpose: 'LIBRARY',
+  }));
+
+  const relationships = [
+    { spdxElementId: SPDX_DOCUMENT_ID, relationshipType: 'DESCRIBES', relatedSpdxElement: SPDX_IMAGE_ID },
+    ...model.packages.map(pkg => ({ spdxElementId: SPDX_IMAGE_ID, relationshipType: 'CONTAINS', relatedSpdxElement: ids.get(pkg.ref)! })),
+    ...model.packages.flatMap(pkg => pkg.dependsOn.map(ref => ({
+      spdxElementId: ids.get(pkg.ref)!,
+      relationshipType: 'DEPENDS_ON',
+      relatedSpdxElement: ids.get(ref)!,
+    }))),
+  ];
+
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: SPDX_DOCUMENT_ID,
+    name: `${image.name}:${image.tag}`,
+    documentNamespace: `${NAMESPACE_BASE}/${encodeURIComponent(image.name)}-${encodeURIComponent(image.tag)}-${randomUUID()}`,
+    creationInfo: {
+      created: spdxTimestamp(model.createdAt),
+      creators: [
+        `Tool: ${TOOL_NAME}`,
+        ...model.tools.map(tool => `Tool: ${tool.name}${tool.version ? `-${tool.version}` : ''}`),
+      ],
+    },
+    packages: [imagePackage, ...packages],
+    relationships,
+    ...(extracted.size > 0 ? { hasExtractedLicensingInfos: [...extracted.values()] } : {}),
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Structural validation of generated SBOMs: required fields, identifier
+ * formats and that every reference points at an element of the document.
+ */
+import { z } from 'zod';
+import { isLicenseExpression } from './model';
+
+export interface SbomValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const CYCLONEDX_COMPONENT_TYPES = [
+  'application', 'framework', 'library', 'container', 'platform', 'operating-system',
+  'device', 'device-driver', 'firmware', 'file', 'machine-learning-model', 'data',
+] as const;
+
+const CycloneDxComponentSchema = z.object({
+  type: z.enum(CYCLONEDX_COMPONENT_TYPES),
+  'bom-ref': z.string().min(1),
+  name: z.string().min(1, 'Component name is required'),
+  version: z.string().optional(),
+  purl: z.string().startsWith('pkg:', 'Package URLs start with "pkg:"').optional(),
+  hashes: z.array(z.object({ alg: z.string(), content: z.string().regex(/^[a-fA-F0-9]+$/) })).optional(),
+  licenses: z.union([
+    z.array(z.object({ expression: z.string() })).length(1),
+    z.array(z.object({ license: z.object({ id: z.string().optional(), name: z.string().optional() }) })),
+  ]).optional(),
+  properties: z.array(z.object({ name: z.string().min(1), value: z.string() })).optional(),
+});
+
+const CycloneDxSchema = z.object({
+  bomFormat: z.literal('CycloneDX'),
+  specVersion: z.literal('1.5'),
+  serialNumber: z.string().regex(/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/, 'Invalid serial number'),
+  version: z.number().int().min(1),
+  metadata: z.object({
+    timestamp: z.string().datetime(),
+    component: CycloneDxComponentSchema,
+  }),
+  components: z.array(CycloneDxComponentSchema),
+  dependencies: z.array(z.object({ ref: z.string(), dependsOn: z.array(z.string()) })),
+});
+
+const SPDX_ID = /^SPDXRef-[A-Za-z0-9.-]+$/;
+
+const SpdxSchema = z.object({
+  spdxVersion: z.literal('SPDX-2.3'),
+  dataLicense: z.literal('CC0-1.0'),
+  SPDXID: z.literal('SPDXRef-DOCUMENT'),
+  name: z.string().min(1),
+  documentNamespace: z.string().url().refine(uri => !uri.includes('#'), 'The document namespace must not contain "#"'),
+  creationInfo: z.object({
+    created: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/, 'Creation time must be YYYY-MM-DDThh:mm:ssZ'),
+    creators: z.array(z.string().regex(/^(Tool|Organization|Person): .+/, 'Creators start with "Tool:", "Organization:" or "Person:"')).min(1),
+  }),
+  packages: z.array(z.object({
+    SPDXID: z.string().regex(SPDX_ID, 'Invalid SPDX identifier'),
+    name: z.string().min(1, 'Package name is required'),
+    downloadLocation: z.string().min(1),
+    licenseConcluded: z.string(),
+    licenseDeclared: z.string(),
+    copyrightText: z.string(),
+    externalRefs: z.array(z.object({
+      referenceCategory: z.enum(['SECURITY', 'PACKAGE-MANAGER', 'PERSISTENT-ID', 'OTHER']),
+      referenceType: z.string().min(1),
+      referenceLocator: z.string().regex(/^\S+$/, 'Reference locators cannot contain spaces'),
+    })).optional(),
+  })).min(1),
+  relationships: z.array(z.object({
+    spdxElementId: z.string(),
+    relationshipType: z.string().regex(/^[A-Z_]+$/),
+    relatedSpdxElement: z.string(),
+  })),
+  hasExtractedLicensingInfos: z.array(z.object({
+    licenseId: z.string().regex(/^LicenseRef-[A-Za-z0-9.-]+$/),
+    extractedText: z.string().min(1),
+  })).optional(),
+});
+
+function schemaErrors(error: z.ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+export function validateCycloneDxSbom(document: unknown): SbomValidationResult {
+  const parsed = CycloneDxSchema.safeParse(document);
+  if (!parsed.success) return { valid: false, errors: schemaErrors(parsed.error) };
+  const bom = parsed.data;
+
+  const errors: string[] = [];
+  const refs = new Set<string>();
+  for (const component of [bom.metadata.component, ...bom.components]) {
+    if (refs.has(component['bom-ref'])) errors.push(`Duplicate bom-ref ${component['bom-ref']}`);
+    refs.add(component['bom-ref']);
+    const expression = component.licenses?.find(license => 'expression' in license);
+    if (expression && 'expression' in expression && !isLicenseExpression(expression.expression)) {
+      errors.push(`${component.name}: invalid license expression "${expression.expression}"`);
+    }
+  }
+
+  const described = new Set<string>();
+  for (const dependency of bom.dependencies) {
+    if (!refs.has(dependency.ref)) errors.push(`Dependency on unknown component ${dependency.ref}`);
+    if (described.has(dependency.ref)) errors.push(`Dependencies of ${dependency.ref} are listed twice`);
+    described.add(dependency.ref);
+    for (const ref of dependency.dependsOn) {
+      if (!refs.has(ref)) errors.push(`${dependency.ref} depends on unknown component ${ref}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function validateSpdxSbom(document: unknown): SbomValidationResult {
+  const parsed = SpdxSchema.safeParse(document);
+  if (!parsed.success) return { valid: false, errors: schemaErrors(parsed.error) };
+  const spdx = parsed.data;
+
+  const errors: string[] = [];
+  const ids = new Set<string>([spdx.SPDXID]);
+  for (const pkg of spdx.packages) {
+    if (ids.has(pkg.SPDXID)) errors.push(`Duplicate SPDX identifier ${pkg.SPDXID}`);
+    ids.add(pkg.SPDXID);
+  }
+
+  // Every LicenseRef used must be declared in the document
+  const licenseRefs = new Set((spdx.hasExtractedLicensingInfos ?? []).map(info => info.licenseId));
+  for (const pkg of spdx.packages) {
+    for (const license of [pkg.licenseDeclared, pkg.licenseConcluded]) {
+      if (license === 'NOASSERTION' || license === 'NONE') continue;
+      if (!isLicenseExpression(license)) {
+        errors.push(`${pkg.SPDXID}: invalid license expression "${license}"`);
+        continue;
+      }
+      for (const ref of license.match(/LicenseRef-[A-Za-z0-9.-]+/g) ?? []) {
+        if (!licenseRefs.has(ref)) errors.push(`${pkg.SPDXID}: ${ref} is not declared`);
+      }
+    }
+  }
+
+  for (const relationship of spdx.relationships) {
+    for (const id of [relationship.spdxElementId, relationship.relatedSpdxElement]) {
+      if (!ids.has(id)) errors.push(`${relationship.relationshipType} relationship references unknown element ${id}`);
+    }
+  }
+  if (!spdx.relationships.some(r => r.spdxElementId === spdx.SPDXID && r.relationshipType === 'DESCRIBES')) {
+    errors.push('The document does not describe any package');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
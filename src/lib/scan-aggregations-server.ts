@@ -5,9 +5,22 @@
 
 import { prisma } from '@/lib/prisma';
 import { getSeverityScore } from '@/lib/utils/severity-utils';
+import { findException, type ExceptionFinding } from '@/lib/exceptions/rules';
+import { getActiveExceptionsForImage } from '@/lib/exceptions/service';
+import { findingAliases } from '@/lib/scanner/FindingCorrelator';
+import { findSuppressingVexStatement } from '@/lib/vex/rules';
+import { getVexStatements } from '@/lib/vex/service';
+import { exploitRiskMultiplier, type ExploitSignals } from '@/lib/threat-feeds/rules';
 
 /**
- * Recalculate image risk scores based on vulnerabilities and CVE classifications
+ * Recalculate image risk scores based on vulnerabilities, CVE classifications,
+ * vulnerability exceptions and imported VEX statements. False positives,
+ * findings covered by an approved exception and findings a VEX statement says
+ * do not affect the image do not count.
+ *
+ * Each finding scores 0-100 from its severity and CVSS score, weighted up by
+ * its EPSS probability or a CISA KEV listing; the scan's risk score is the
+ * average over its findings.
  */
 export async function recalculateImageRiskScores(imageId: string): Promise<void> {
   try {
@@ -27,63 +40,60 @@ export async function recalculateImageRiskScores(imageId: string): Promise<void>
 
     console.log(`Recalculating risk scores for ${scans.length} scans of image ${imageId}`);
 
+    const [falsePositives, exceptions, vexStatements] = await Promise.all([
+      prisma.cveClassification.findMany({
+        where: { imageId, isFalsePositive: true },
+        select: { imageVulnerability: { select: { vulnerability: { select: { cveId: true } } } } }
+      }),
+      getActiveExceptionsForImage(imageId),
+      getVexStatements(scans[0].image)
+    ]);
+    const falsePositiveCves = new Set(falsePositives.map(cls => cls.imageVulnerability.vulnerability.cveId));
+
     // For each scan, recalculate risk score based on vulnerabilities and classifications
     for (const scan of scans) {
       try {
         let totalRiskScore = 0;
         let vulnerabilityCount = 0;
 
-        // Get scan results from metadata
-        const trivyResults = scan.metadata?.trivyResults as any;
-        const scanResults = { trivy: trivyResults };
-        
-        if (scanResults?.trivy?.Results) {
-          for (const result of scanResults.trivy.Results) {
-            if (result.Vulnerabilities) {
-              for (const vuln of result.Vulnerabilities) {
-                // Check if this vulnerability has a classification
-                const vulnerability = await prisma.vulnerability.findUnique({
-                  where: { cveId: vuln.VulnerabilityID }
-                });
-
-                if (vulnerability) {
-                  const imageVuln = await prisma.imageVulnerability.findFirst({
-                    where: {
-                      imageId: scan.imageId,
-                      vulnerabilityId: vulnerability.id
-                    },
-                    include: {
-                      cveClassifications: true
-                    }
-                  });
+        const countVulnerability = (
+          finding: ExceptionFinding,
+          severity: string,
+          cvssScore: number,
+          signals: ExploitSignals = { epssScore: null, knownExploited: false }
+        ) => {
+          if (falsePositiveCves.has(finding.cveId) || findException(exceptions, finding)) return;
+          if (findSuppressingVexStatement(vexStatements, scans[0].image, finding)) return;
+          vulnerabilityCount++;
+          totalRiskScore += Math.min(100, Math.max(getSeverityScore(severity), cvssScore * 10) * exploitRiskMultiplier(signals));
+        };
 
-                  const isMarkedFalsePositive = imageVuln?.cveClassifications?.some(
-                    cls => cls.isFalsePositive
-                  ) ?? false;
+        // Normalized findings, once per vulnerability and package however many scanners reported it
+        const findings = await prisma.scanVulnerabilityFinding.findMany({
+          where: { scanId: scan.id },
+          select: { cveId: true, packageName: true, severity: true, cvssScore: true, rawFinding: true, epssScore: true, knownExploited: true }
+        });
+        const seen = new Set<string>();
+        for (const finding of findings) {
+          const key = `${finding.cveId}|${finding.packageName}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          countVulnerability({ ...finding, aliases: findingAliases(finding.rawFinding) }, finding.severity, finding.cvssScore ?? 0, finding);
+        }
 
-                  // Only count if not marked as false positive
-                  if (!isMarkedFalsePositive) {
-                    vulnerabilityCount++;
-                    
-                    // Calculate risk score based on severity
-                    const severityScore = getSeverityScore(vuln.Severity);
-                    const cvssScore = vuln.CVSS?.nvd?.V3Score || vuln.CVSS?.redhat?.V3Score || 0;
-                    totalRiskScore += Math.max(severityScore, cvssScore * 10);
-                  }
-                } else {
-                  // No classification exists, count as normal
-                  vulnerabilityCount++;
-                  const severityScore = getSeverityScore(vuln.Severity);
-                  const cvssScore = vuln.CVSS?.nvd?.V3Score || vuln.CVSS?.redhat?.V3Score || 0;
-                  totalRiskScore += Math.max(severityScore, cvssScore * 10);
-                }
-              }
+        // Scans from before findings were normalized only have the raw Trivy results
+        const trivyResults = scan.metadata?.trivyResults as any;
+        if (findings.length === 0 && trivyResults?.Results) {
+          for (const result of trivyResults.Results) {
+            for (const vuln of result.Vulnerabilities ?? []) {
+              const cvssScore = vuln.CVSS?.nvd?.V3Score || vuln.CVSS?.redhat?.V3Score || 0;
+              countVulnerability({ cveId: vuln.VulnerabilityID, packageName: vuln.PkgName ?? '' }, vuln.Severity, cvssScore);
             }
           }
         }
 
         // Calculate final risk score (0-100)
-        const finalRiskScore = Math.min(100, Math.max(0, totalRiskScore / Math.max(1, vulnerabilityCount) * 10));
+        const finalRiskScore = Math.min(100, Math.max(0, totalRiskScore / Math.max(1, vulnerabilityCount)));
 
         // Update scan with new risk score
         await prisma.scan.update({
@@ -104,4 +114,4 @@ export async function recalculateImageRiskScores(imageId: string): Promise<void>
     console.error('Error recalculating image risk scores:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
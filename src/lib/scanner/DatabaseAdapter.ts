@@ -5,6 +5,7 @@ import type { ScanRequest } from '@/types';
 import { RepositoryService } from '@/lib/registry/RepositoryService';
 import { RegistryProviderFactory } from '@/lib/registry/providers/RegistryProviderFactory';
 import type { Repository } from '@/generated/prisma';
+import { isNewImage, notifyImageDiscovered } from '@/lib/notification-routing/events';
 
 export class DatabaseAdapter implements IDatabaseAdapter {
   private repositoryService: RepositoryService;
@@ -59,6 +60,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
       const imageRef = request.dockerImageId || `${request.image}:${request.tag}`;
       const imageData = await inspectDockerImage(imageRef);
       const digest = imageData.Id;
+      const discovered = await isNewImage(request.image, request.tag);
 
       const result = await prisma.$transaction(async (tx) => {
         const image = await tx.image.upsert({
@@ -77,6 +79,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
         });
         return { scanId: scan.id, imageId: image.id };
       });
+      if (discovered) notifyImageDiscovered(result.imageId).catch(() => {});
       return result;
     } catch (error) {
       console.error('Failed to initialize local Docker scan record:', error);
@@ -88,6 +91,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
   private async initializeTarScanRecord(requestId: string, request: ScanRequest) {
     try {
       const digest = `sha256:tar-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      const discovered = await isNewImage(request.image, request.tag);
       const result = await prisma.$transaction(async (tx) => {
         const image = await tx.image.create({
           data: { name: request.image, tag: request.tag, source: 'FILE_UPLOAD', digest, platform: 'linux/amd64', sizeBytes: null, registryType: 'TAR' }
@@ -97,6 +101,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
         });
         return { scanId: scan.id, imageId: image.id };
       });
+      if (discovered) notifyImageDiscovered(result.imageId).catch(() => {});
       return result;
     } catch (error) {
       console.error('Failed to initialize tar scan record:', error);
@@ -141,6 +146,9 @@ export class DatabaseAdapter implements IDatabaseAdapter {
       if (registryUrl) {
         imageRef = `${registryUrl.replace(/^https?:\/\//, '')}/${cleanImageName}:${request.tag}`;
       }
+      if (request.digest) {
+        imageRef = imageRef.replace(/:[^:/]+$/, `@${request.digest}`);
+      }
 
       // Get repository
       let repository: Repository | null = null;
@@ -173,14 +181,15 @@ export class DatabaseAdapter implements IDatabaseAdapter {
         console.log('[DatabaseAdapter] Creating provider for repository type:', repository.type);
         const provider = RegistryProviderFactory.createFromRepository(repository);
         console.log('[DatabaseAdapter] Provider created:', provider.getProviderName());
-        const inspection = await provider.inspectImage(cleanImageName, request.tag);
+        // A pinned digest inspects exactly the requested manifest
+        const inspection = await provider.inspectImage(cleanImageName, request.digest || request.tag);
         digest = inspection.digest;
         metadata = inspection.config || {};
         imageSize = this.resolveImageSize(inspection, metadata);
       } catch (inspectError) {
         // Dashboard-only image may not have skopeo — create a placeholder digest
         console.warn('[DatabaseAdapter] Image inspection failed, using placeholder:', inspectError instanceof Error ? inspectError.message : inspectError);
-        digest = `pending:${cleanImageName}:${request.tag}:${Date.now()}`;
+        digest = request.digest || `pending:${cleanImageName}:${request.tag}:${Date.now()}`;
       }
 
       const imageData: any = {
@@ -192,6 +201,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
         registryType: registryTypeValue,
       };
       if (request.repositoryId) imageData.primaryRepositoryId = request.repositoryId;
+      const discovered = await isNewImage(cleanImageName, request.tag);
 
       const result = await prisma.$transaction(async (tx) => {
         const image = await tx.image.upsert({
@@ -219,6 +229,7 @@ export class DatabaseAdapter implements IDatabaseAdapter {
         });
         return { scanId: scan.id, imageId: image.id };
       });
+      if (discovered) notifyImageDiscovered(result.imageId).catch(() => {});
       return result;
     } catch (error) {
       console.error('Failed to initialize scan record:', error);
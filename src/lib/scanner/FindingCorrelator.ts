@@ -0,0 +1,176 @@
+/**
+ * Cross-scanner correlation of vulnerability findings.
+ *
+ * Trivy, Grype and OSV report largely the same vulnerabilities for an image,
+ * sometimes under different advisory ids (GHSA-… vs CVE-…). Findings are
+ * grouped by vulnerability and package, with aliases resolved to the CVE, so a
+ * vulnerability counts once however many scanners reported it.
+ */
+import type { Prisma, Severity } from '@/generated/prisma';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getSeverityWeight } from '@/lib/utils/severity-utils';
+
+export const VULNERABILITY_SCANNERS = ['trivy', 'grype', 'osv'];
+
+export const CORRELATION_FINDING_TYPE = 'vulnerability';
+
+export interface CorrelatableFinding {
+  source: string;
+  cveId: string;
+  packageName: string;
+  severity: Severity;
+  rawFinding?: Prisma.JsonValue | null;
+}
+
+export interface VulnerabilityCorrelation {
+  correlationKey: string;
+  sources: string[];
+  sourceCount: number;
+  confidenceScore: number;
+  severity: Severity;
+}
+
+function normalizeId(id: string): string {
+  return id.trim().toUpperCase();
+}
+
+/** Advisory ids the scanner reported as aliases of the finding's own id */
+export function findingAliases(rawFinding: Prisma.JsonValue | null | undefined): string[] {
+  if (!rawFinding || typeof rawFinding !== 'object' || Array.isArray(rawFinding)) return [];
+  const aliases = rawFinding.aliases;
+  if (!Array.isArray(aliases)) return [];
+  return aliases.filter((alias): alias is string => typeof alias === 'string' && alias.trim() !== '');
+}
+
+/**
+ * Map every advisory id seen in the findings to the id its group is
+ * correlated under: the lowest CVE id among its aliases, or the lowest id
+ * when none of them is a CVE.
+ */
+export function buildAliasMap(findings: Pick<CorrelatableFinding, 'cveId' | 'rawFinding'>[]): Map<string, string> {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const finding of findings) {
+    const ids = [finding.cveId, ...findingAliases(finding.rawFinding)].map(normalizeId).filter(Boolean);
+    for (const id of ids) {
+      if (!parent.has(id)) parent.set(id, id);
+    }
+    for (const id of ids.slice(1)) {
+      const a = find(ids[0]);
+      const b = find(id);
+      if (a !== b) parent.set(b, a);
+    }
+  }
+
+  const members = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    members.set(root, [...(members.get(root) ?? []), id]);
+  }
+
+  const canonical = new Map<string, string>();
+  for (const ids of members.values()) {
+    const sorted = [...ids].sort();
+    const target = sorted.find(id => id.startsWith('CVE-')) ?? sorted[0];
+    for (const id of ids) canonical.set(id, target);
+  }
+  return canonical;
+}
+
+export function getCorrelationKey(finding: Pick<CorrelatableFinding, 'cveId' | 'packageName'>, aliasMap: Map<string, string>): string {
+  const id = normalizeId(finding.cveId);
+  return `${aliasMap.get(id) ?? id}|${finding.packageName.toLowerCase()}`;
+}
+
+/** Split a correlation key into the canonical advisory id and package name */
+export function parseCorrelationKey(key: string): { vulnerabilityId: string; packageName: string } {
+  const separator = key.indexOf('|');
+  if (separator === -1) return { vulnerabilityId: key, packageName: '' };
+  return { vulnerabilityId: key.slice(0, separator), packageName: key.slice(separator + 1) };
+}
+
+/**
+ * Number of vulnerability scanners that ran for a scan: those listed in the
+ * scan's scanner versions, plus any that reported findings without one.
+ */
+export function countVulnerabilityScanners(scannerVersions: Prisma.JsonValue | null | undefined, sources: Iterable<string>): number {
+  const scanners = new Set<string>();
+  if (scannerVersions && typeof scannerVersions === 'object' && !Array.isArray(scannerVersions)) {
+    for (const name of Object.keys(scannerVersions)) {
+      if (VULNERABILITY_SCANNERS.includes(name.toLowerCase())) scanners.add(name.toLowerCase());
+    }
+  }
+  for (const source of sources) scanners.add(source.toLowerCase());
+  return Math.max(1, scanners.size);
+}
+
+export function correlateVulnerabilities(findings: CorrelatableFinding[], scannerCount: number): VulnerabilityCorrelation[] {
+  const aliasMap = buildAliasMap(findings);
+  const groups = new Map<string, { sources: Set<string>; severity: Severity }>();
+
+  for (const finding of findings) {
+    const key = getCorrelationKey(finding, aliasMap);
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { sources: new Set([finding.source.toLowerCase()]), severity: finding.severity });
+      continue;
+    }
+    group.sources.add(finding.source.toLowerCase());
+    if (getSeverityWeight(finding.severity) > getSeverityWeight(group.severity)) {
+      group.severity = finding.severity;
+    }
+  }
+
+  return [...groups.entries()].map(([correlationKey, group]) => {
+    const sources = [...group.sources].sort();
+    return {
+      correlationKey,
+      sources,
+      sourceCount: sources.length,
+      confidenceScore: Math.min(1, sources.length / Math.max(scannerCount, sources.length)),
+      severity: group.severity,
+    };
+  });
+}
+
+/**
+ * Recompute and store the vulnerability correlations of a scan, replacing
+ * any from an earlier ingest. Returns the number of correlated findings.
+ */
+export async function correlateScanFindings(scanId: string): Promise<number> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      metadata: { select: { scannerVersions: true } },
+      vulnerabilityFindings: {
+        select: { source: true, cveId: true, packageName: true, severity: true, rawFinding: true },
+      },
+    },
+  });
+  if (!scan) throw new Error(`Scan ${scanId} not found`);
+
+  const findings = scan.vulnerabilityFindings;
+  const scannerCount = countVulnerabilityScanners(scan.metadata?.scannerVersions, findings.map(f => f.source));
+  const correlations = correlateVulnerabilities(findings, scannerCount);
+
+  await prisma.$transaction([
+    prisma.scanFindingCorrelation.deleteMany({ where: { scanId, findingType: CORRELATION_FINDING_TYPE } }),
+    prisma.scanFindingCorrelation.createMany({
+      data: correlations.map(correlation => ({
+        scanId,
+        findingType: CORRELATION_FINDING_TYPE,
+        ...correlation,
+      })),
+    }),
+  ]);
+
+  logger.debug(`[CORRELATION] Scan ${scanId}: ${findings.length} vulnerability findings from ${scannerCount} scanners correlated into ${correlations.length}`);
+  return correlations.length;
+}
@@ -0,0 +1,425 @@
+/**
+ * Scan-to-scan diff: what a rebuild (or a different tag) fixed and what it
+ * introduced, across vulnerabilities, packages, compliance findings and layers.
+ *
+ * Vulnerabilities are matched with the same CVE+package correlation used for
+ * de-duplication, so a finding reported by several scanners is one entry.
+ */
+import type { ScanStatus, Severity } from '@/generated/prisma';
+import { prisma } from '@/lib/prisma';
+import { getSeverityWeight } from '@/lib/utils/severity-utils';
+import { buildAliasMap, getCorrelationKey } from './FindingCorrelator';
+
+// Longest list rendered per Markdown section; the JSON export is complete
+const MARKDOWN_MAX_ROWS = 50;
+
+export interface ScanDiffSide {
+  scanId: string;
+  image: string;
+  tag: string;
+  digest: string;
+  status: ScanStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface VulnerabilityDiffEntry {
+  cveId: string;
+  packageName: string;
+  installedVersion: string | null;
+  fixedVersion: string | null;
+  severity: Severity;
+  cvssScore: number | null;
+  sources: string[];
+}
+
+export interface PackageDiffEntry {
+  name: string;
+  type: string;
+  version: string | null;
+}
+
+export interface PackageChangeEntry {
+  name: string;
+  type: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+}
+
+export interface ComplianceDiffEntry {
+  source: string;
+  ruleId: string;
+  ruleName: string;
+  category: string;
+  severity: Severity;
+}
+
+export interface LayerDiffEntry {
+  digest: string;
+  command: string | null;
+  sizeBytes: string;
+}
+
+export interface ScanDiff {
+  base: ScanDiffSide;
+  head: ScanDiffSide;
+  generatedAt: string;
+  summary: {
+    vulnerabilities: { introduced: number; fixed: number; unchanged: number };
+    introducedBySeverity: Record<Severity, number>;
+    fixedBySeverity: Record<Severity, number>;
+    packages: { added: number; removed: number; upgraded: number; downgraded: number; unchanged: number };
+    compliance: { introduced: number; resolved: number; unchanged: number };
+    layers: { added: number; removed: number; shared: number } | null;
+  };
+  vulnerabilities: {
+    introduced: VulnerabilityDiffEntry[];
+    fixed: VulnerabilityDiffEntry[];
+    unchanged: VulnerabilityDiffEntry[];
+  };
+  packages: {
+    added: PackageDiffEntry[];
+    removed: PackageDiffEntry[];
+    upgraded: PackageChangeEntry[];
+    downgraded: PackageChangeEntry[];
+  };
+  compliance: {
+    introduced: ComplianceDiffEntry[];
+    resolved: ComplianceDiffEntry[];
+  };
+  // Null when either scan has no layer analysis
+  layers: {
+    added: LayerDiffEntry[];
+    removed: LayerDiffEntry[];
+    shared: number;
+  } | null;
+}
+
+type ScanWithFindings = NonNullable<Awaited<ReturnType<typeof loadScan>>>;
+
+function loadScan(scanId: string) {
+  return prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      id: true,
+      tag: true,
+      status: true,
+      startedAt: true,
+      finishedAt: true,
+      image: { select: { name: true, digest: true } },
+      vulnerabilityFindings: {
+        select: {
+          source: true,
+          cveId: true,
+          packageName: true,
+          installedVersion: true,
+          fixedVersion: true,
+          severity: true,
+          cvssScore: true,
+          rawFinding: true,
+        },
+      },
+      packageFindings: { select: { packageName: true, type: true, version: true } },
+      complianceFindings: { select: { source: true, ruleId: true, ruleName: true, category: true, severity: true } },
+      metadata: {
+        select: {
+          diveResult: {
+            select: { layers: { select: { digest: true, command: true, sizeBytes: true, layerIndex: true } } },
+          },
+        },
+      },
+    },
+  });
+}
+
+function emptySeverityCounts(): Record<Severity, number> {
+  return { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0, INFO: 0 };
+}
+
+function bySeverityDesc(a: { severity: Severity; cveId?: string }, b: { severity: Severity; cveId?: string }): number {
+  return getSeverityWeight(b.severity) - getSeverityWeight(a.severity) || (a.cveId ?? '').localeCompare(b.cveId ?? '');
+}
+
+/**
+ * Compare two package versions segment by segment (numeric where both
+ * segments are numbers). Good enough to tell upgrades from downgrades across
+ * the version schemes scanners report; not a full semver/dpkg comparator.
+ */
+export function compareVersions(a: string, b: string): number {
+  const split = (version: string) => version.replace(/^v/i, '').split(/[.\-+~:_]/);
+  const left = split(a);
+  const right = split(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '';
+    const y = right[i] ?? '';
+    if (x === y) continue;
+    const nx = Number(x);
+    const ny = Number(y);
+    if (x !== '' && y !== '' && !isNaN(nx) && !isNaN(ny)) return nx < ny ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+function summarizeVulnerabilities(scan: ScanWithFindings, aliasMap: Map<string, string>): Map<string, VulnerabilityDiffEntry> {
+  const entries = new Map<string, VulnerabilityDiffEntry>();
+  for (const finding of scan.vulnerabilityFindings) {
+    const key = getCorrelationKey(finding, aliasMap);
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, {
+        cveId: finding.cveId,
+        packageName: finding.packageName,
+        installedVersion: finding.installedVersion,
+        fixedVersion: finding.fixedVersion,
+        severity: finding.severity,
+        cvssScore: finding.cvssScore,
+        sources: [finding.source],
+      });
+      continue;
+    }
+    if (!entry.sources.includes(finding.source)) entry.sources.push(finding.source);
+    if (getSeverityWeight(finding.severity) > getSeverityWeight(entry.severity)) entry.severity = finding.severity;
+    if ((finding.cvssScore ?? 0) > (entry.cvssScore ?? 0)) entry.cvssScore = finding.cvssScore;
+    entry.fixedVersion ??= finding.fixedVersion;
+    entry.installedVersion ??= finding.installedVersion;
+    // Prefer the CVE id over an advisory alias for display
+    if (!entry.cveId.toUpperCase().startsWith('CVE-') && finding.cveId.toUpperCase().startsWith('CVE-')) {
+      entry.cveId = finding.cveId;
+    }
+  }
+  return entries;
+}
+
+function summarizePackages(scan: ScanWithFindings): Map<string, PackageDiffEntry> {
+  const packages = new Map<string, PackageDiffEntry>();
+  for (const pkg of scan.packageFindings) {
+    const key = `${pkg.type.toLowerCase()}|${pkg.packageName}`;
+    const existing = packages.get(key);
+    // Several sources may list the package; keep the highest version seen
+    if (!existing || (pkg.version && (!existing.version || compareVersions(pkg.version, existing.version) > 0))) {
+      packages.set(key, { name: pkg.packageName, type: pkg.type, version: pkg.version });
+    }
+  }
+  return packages;
+}
+
+function summarizeCompliance(scan: ScanWithFindings): Map<string, ComplianceDiffEntry> {
+  const findings = new Map<string, ComplianceDiffEntry>();
+  for (const finding of scan.complianceFindings) {
+    findings.set(`${finding.source}|${finding.ruleId}`, finding);
+  }
+  return findings;
+}
+
+function toSide(scan: ScanWithFindings): ScanDiffSide {
+  return {
+    scanId: scan.id,
+    image: scan.image.name,
+    tag: scan.tag,
+    digest: scan.image.digest,
+    status: scan.status,
+    startedAt: scan.startedAt,
+    finishedAt: scan.finishedAt,
+  };
+}
+
+function diffLayers(base: ScanWithFindings, head: ScanWithFindings): ScanDiff['layers'] {
+  const baseLayers = base.metadata?.diveResult?.layers;
+  const headLayers = head.metadata?.diveResult?.layers;
+  if (!baseLayers?.length || !headLayers?.length) return null;
+
+  const toEntry = (layer: typeof baseLayers[number]): LayerDiffEntry => ({
+    digest: layer.digest,
+    command: layer.command,
+    sizeBytes: layer.sizeBytes.toString(),
+  });
+  const baseDigests = new Set(baseLayers.map(layer => layer.digest));
+  const headDigests = new Set(headLayers.map(layer => layer.digest));
+  const byIndex = (a: { layerIndex: number }, b: { layerIndex: number }) => a.layerIndex - b.layerIndex;
+
+  return {
+    added: headLayers.filter(layer => !baseDigests.has(layer.digest)).sort(byIndex).map(toEntry),
+    removed: baseLayers.filter(layer => !headDigests.has(layer.digest)).sort(byIndex).map(toEntry),
+    shared: headLayers.filter(layer => baseDigests.has(layer.digest)).length,
+  };
+}
+
+/**
+ * Diff two scans. `base` is the older side: "introduced" means present in
+ * `head` only, "fixed" means present in `base` only. Returns null if either
+ * scan does not exist.
+ */
+export async function diffScans(baseScanId: string, headScanId: string): Promise<ScanDiff | null> {
+  const [base, head] = await Promise.all([loadScan(baseScanId), loadScan(headScanId)]);
+  if (!base || !head) return null;
+
+  // One alias map over both scans so a GHSA in one matches the CVE in the other
+  const aliasMap = buildAliasMap([...base.vulnerabilityFindings, ...head.vulnerabilityFindings]);
+  const baseVulns = summarizeVulnerabilities(base, aliasMap);
+  const headVulns = summarizeVulnerabilities(head, aliasMap);
+
+  const introduced = [...headVulns.entries()].filter(([key]) => !baseVulns.has(key)).map(([, entry]) => entry).sort(bySeverityDesc);
+  const fixed = [...baseVulns.entries()].filter(([key]) => !headVulns.has(key)).map(([, entry]) => entry).sort(bySeverityDesc);
+  const unchanged = [...headVulns.entries()].filter(([key]) => baseVulns.has(key)).map(([, entry]) => entry).sort(bySeverityDesc);
+
+  const introducedBySeverity = emptySeverityCounts();
+  introduced.forEach(entry => introducedBySeverity[entry.severity]++);
+  const fixedBySeverity = emptySeverityCounts();
+  fixed.forEach(entry => fixedBySeverity[entry.severity]++);
+
+  const basePackages = summarizePackages(base);
+  const headPackages = summarizePackages(head);
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  const added = [...headPackages.entries()].filter(([key]) => !basePackages.has(key)).map(([, pkg]) => pkg).sort(byName);
+  const removed = [...basePackages.entries()].filter(([key]) => !headPackages.has(key)).map(([, pkg]) => pkg).sort(byName);
+  const upgraded: PackageChangeEntry[] = [];
+  const downgraded: PackageChangeEntry[] = [];
+  let unchangedPackages = 0;
+  for (const [key, pkg] of headPackages) {
+    const previous = basePackages.get(key);
+    if (!previous) continue;
+    if (previous.version === pkg.version) {
+      unchangedPackages++;
+      continue;
+    }
+    const change = { name: pkg.name, type: pkg.type, fromVersion: previous.version, toVersion: pkg.version };
+    if (previous.version && pkg.version && compareVersions(pkg.version, previous.version) < 0) {
+      downgraded.push(change);
+    } else {
+      upgraded.push(change);
+    }
+  }
+  upgraded.sort(byName);
+  downgraded.sort(byName);
+
+  const baseCompliance = summarizeCompliance(base);
+  const headCompliance = summarizeCompliance(head);
+  const introducedCompliance = [...headCompliance.entries()].filter(([key]) => !baseCompliance.has(key)).map(([, finding]) => finding).sort(bySeverityDesc);
+  const resolvedCompliance = [...baseCompliance.entries()].filter(([key]) => !headCompliance.has(key)).map(([, finding]) => finding).sort(bySeverityDesc);
+
+  const layers = diffLayers(base, head);
+
+  return {
+    base: toSide(base),
+    head: toSide(head),
+    generatedAt: new Date().toISOString(),
+    summary: {
+      vulnerabilities: { introduced: introduced.length, fixed: fixed.length, unchanged: unchanged.length },
+      introducedBySeverity,
+      fixedBySeverity,
+      packages: {
+        added: added.length,
+        removed: removed.length,
+        upgraded: upgraded.length,
+        downgraded: downgraded.length,
+        unchanged: unchangedPackages,
+      },
+      compliance: {
+        introduced: introducedCompliance.length,
+        resolved: resolvedCompliance.length,
+        unchanged: [...headCompliance.keys()].filter(key => baseCompliance.has(key)).length,
+      },
+      layers: layers ? { added: layers.added.length, removed: layers.removed.length, shared: layers.shared } : null,
+    },
+    vulnerabilities: { introduced, fixed, unchanged },
+    packages: { added, removed, upgraded, downgraded },
+    compliance: { introduced: introducedCompliance, resolved: resolvedCompliance },
+    layers,
+  };
+}
+
+/** Latest completed scan of an image tag, for tag-vs-tag comparisons */
+export async function findLatestScanForTag(imageName: string, tag: string): Promise<string | null> {
+  const scan = await prisma.scan.findFirst({
+    where: { image: { name: imageName }, tag, status: { in: ['SUCCESS', 'PARTIAL'] } },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true },
+  });
+  return scan?.id ?? null;
+}
+
+function escapeCell(value: string | null | undefined): string {
+  return (value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function severityCounts(counts: Record<Severity, number>): string {
+  const parts = (Object.entries(counts) as [Severity, number][])
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity.toLowerCase()}`);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+function truncated(total: number): string[] {
+  return total > MARKDOWN_MAX_ROWS ? ['', `_…and ${total - MARKDOWN_MAX_ROWS} more; see the JSON export._`] : [];
+}
+
+function vulnerabilityTable(entries: VulnerabilityDiffEntry[], showFix: boolean): string[] {
+  const lines = [
+    showFix ? '| Severity | Vulnerability | Package | Installed | Fixed in |' : '| Severity | Vulnerability | Package | Installed |',
+    showFix ? '| --- | --- | --- | --- | --- |' : '| --- | --- | --- | --- |',
+  ];
+  for (const entry of entries.slice(0, MARKDOWN_MAX_ROWS)) {
+    const cells = [entry.severity, entry.cveId, entry.packageName, entry.installedVersion ?? ''];
+    if (showFix) cells.push(entry.fixedVersion ?? '');
+    lines.push(`| ${cells.map(escapeCell).join(' | ')} |`);
+  }
+  return [...lines, ...truncated(entries.length)];
+}
+
+/** Render a diff as Markdown suitable for a pull request comment */
+export function renderScanDiffMarkdown(diff: ScanDiff): string {
+  const { summary } = diff;
+  const label = (side: ScanDiffSide) => `\`${side.image}:${side.tag}\` (${side.digest.slice(0, 19)})`;
+  const lines: string[] = [
+    `## Scan diff: ${diff.head.image}`,
+    '',
+    `Comparing ${label(diff.base)} → ${label(diff.head)}`,
+    '',
+    '| | Introduced | Fixed | Unchanged |',
+    '| --- | --- | --- | --- |',
+    `| Vulnerabilities | ${summary.vulnerabilities.introduced}${severityCounts(summary.introducedBySeverity)} | ${summary.vulnerabilities.fixed}${severityCounts(summary.fixedBySeverity)} | ${summary.vulnerabilities.unchanged} |`,
+    `| Compliance findings | ${summary.compliance.introduced} | ${summary.compliance.resolved} | ${summary.compliance.unchanged} |`,
+    '',
+    `**Packages:** ${summary.packages.added} added, ${summary.packages.removed} removed, ${summary.packages.upgraded} upgraded, ${summary.packages.downgraded} downgraded`,
+  ];
+  if (summary.layers) {
+    lines.push('', `**Layers:** ${summary.layers.added} new, ${summary.layers.removed} removed, ${summary.layers.shared} shared`);
+  }
+
+  if (diff.vulnerabilities.introduced.length > 0) {
+    lines.push('', '### Introduced vulnerabilities', '', ...vulnerabilityTable(diff.vulnerabilities.introduced, true));
+  }
+  if (diff.vulnerabilities.fixed.length > 0) {
+    lines.push('', '### Fixed vulnerabilities', '', ...vulnerabilityTable(diff.vulnerabilities.fixed, false));
+  }
+
+  const { packages } = diff;
+  if (packages.upgraded.length + packages.downgraded.length + packages.added.length + packages.removed.length > 0) {
+    lines.push('', '### Package changes', '', '| Package | Type | Before | After |', '| --- | --- | --- | --- |');
+    const rows = [
+      ...packages.upgraded.map(pkg => [pkg.name, pkg.type, pkg.fromVersion, pkg.toVersion]),
+      ...packages.downgraded.map(pkg => [pkg.name, pkg.type, pkg.fromVersion, `${pkg.toVersion} (downgrade)`]),
+      ...packages.added.map(pkg => [pkg.name, pkg.type, '—', pkg.version]),
+      ...packages.removed.map(pkg => [pkg.name, pkg.type, pkg.version, '—']),
+    ];
+    for (const row of rows.slice(0, MARKDOWN_MAX_ROWS)) {
+      lines.push(`| ${row.map(cell => escapeCell(cell)).join(' | ')} |`);
+    }
+    lines.push(...truncated(rows.length));
+  }
+
+  if (diff.compliance.introduced.length + diff.compliance.resolved.length > 0) {
+    lines.push('', '### Compliance', '', '| Change | Severity | Rule | Title |', '| --- | --- | --- | --- |');
+    const rows = [
+      ...diff.compliance.introduced.map(finding => ['Introduced', finding.severity, finding.ruleId, finding.ruleName]),
+      ...diff.compliance.resolved.map(finding => ['Resolved', finding.severity, finding.ruleId, finding.ruleName]),
+    ];
+    for (const row of rows.slice(0, MARKDOWN_MAX_ROWS)) {
+      lines.push(`| ${row.map(cell => escapeCell(cell)).join(' | ')} |`);
+    }
+    lines.push(...truncated(rows.length));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
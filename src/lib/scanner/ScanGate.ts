@@ -0,0 +1,246 @@
+/**
+ * CI gate: wait for a scan to finish and reduce it to a pass/fail verdict.
+ *
+ * The gate polls the database rather than the in-memory job tracker so it
+ * also sees scans completed by remote sensor agents.
+ */
+import type { PolicyVerdict, ScanStatus } from '@/generated/prisma';
+import { findException } from '@/lib/exceptions/rules';
+import { EXCEPTION_IMAGE_SELECT, getActiveExceptions, type ExceptionImage } from '@/lib/exceptions/service';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { evaluateScanPolicies } from '@/lib/policy/evaluator';
+import type { PolicyResult } from '@/lib/policy/evaluator';
+import { findingAliases } from '@/lib/scanner/FindingCorrelator';
+import { findSuppressingVexStatement, type VexImage } from '@/lib/vex/rules';
+import { getVexStatements, VEX_IMAGE_SELECT } from '@/lib/vex/service';
+
+export const GATE_SEVERITIES = ['critical', 'high', 'medium', 'low', 'none'] as const;
+export type GateSeverity = typeof GATE_SEVERITIES[number];
+
+// Exit codes suggested to CI callers
+export const GATE_EXIT_PASS = 0;
+export const GATE_EXIT_FAIL = 1;
+export const GATE_EXIT_ERROR = 2;
+
+const POLL_INTERVAL_MS = 2000;
+// How long a finished scan may take to get its policy verdict before the gate evaluates it itself
+const EVALUATION_GRACE_MS = 30 * 1000;
+
+const TERMINAL_STATUSES: ScanStatus[] = ['SUCCESS', 'PARTIAL', 'FAILED', 'CANCELLED'];
+const COMPLETED_STATUSES: ScanStatus[] = ['SUCCESS', 'PARTIAL'];
+
+type GateCounts = { critical: number; high: number; medium: number; low: number; info: number };
+
+export interface ScanGateResult {
+  // False when the wait timed out; call the gate again with the scanId to keep waiting
+  done: boolean;
+  scanId: string;
+  requestId: string;
+  image: string;
+  digest: string;
+  reused: boolean;
+  status: ScanStatus;
+  scanPath: string;
+  counts: GateCounts;
+  policy: {
+    verdict: PolicyVerdict | null;
+    violationCount: number;
+    failedPolicies: string[];
+    warnedPolicies: string[];
+  };
+  failOn: GateSeverity;
+  // Null while the scan is still running
+  passed: boolean | null;
+  exitCode: number | null;
+  reasons: string[];
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * A scan of the image with this digest that the gate can use instead of
+ * starting a new one: a scan still in progress, or a completed scan that is
+ * not older than `maxAgeHours`.
+ */
+export async function findReusableScan(digest: string, maxAgeHours: number): Promise<{ id: string; requestId: string } | null> {
+  const image = await prisma.image.findUnique({ where: { digest }, select: { id: true } });
+  if (!image) return null;
+
+  const inProgress = await prisma.scan.findFirst({
+    where: { imageId: image.id, status: { in: ['PENDING', 'RUNNING'] } },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true, requestId: true },
+  });
+  if (inProgress) return inProgress;
+
+  if (maxAgeHours <= 0) return null;
+  return prisma.scan.findFirst({
+    where: {
+      imageId: image.id,
+      status: { in: COMPLETED_STATUSES },
+      finishedAt: { gte: new Date(Date.now() - maxAgeHours * 60 * 60 * 1000) },
+    },
+    orderBy: { finishedAt: 'desc' },
+    select: { id: true, requestId: true },
+  });
+}
+
+/**
+ * Wait until the scan has finished and, if it completed, has a policy
+ * verdict. Returns false if `timeoutMs` passes first or the caller went away.
+ */
+export async function waitForScan(scanId: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!signal?.aborted) {
+    const scan = await prisma.scan.findUnique({
+      where: { id: scanId },
+      select: { status: true, updatedAt: true, policyEvaluation: { select: { id: true } } },
+    });
+    if (!scan) throw new Error(`Scan ${scanId} not found`);
+
+    if (TERMINAL_STATUSES.includes(scan.status)) {
+      if (!COMPLETED_STATUSES.includes(scan.status) || scan.policyEvaluation) return true;
+
+      // Results are stored after the status changes and the verdict is written
+      // last; scans from before policies existed never got one
+      if (Date.now() - scan.updatedAt.getTime() >= EVALUATION_GRACE_MS || Date.now() >= deadline) {
+        logger.warn(`[GATE] Scan ${scanId} finished without a policy verdict; evaluating now`);
+        await evaluateScanPolicies(scanId);
+        return true;
+      }
+    }
+
+    if (Date.now() >= deadline) return false;
+    await sleep(Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())), signal);
+  }
+
+  return false;
+}
+
+/**
+ * Findings of the scan by severity, each vulnerability once per package and
+ * without those covered by an approved exception or a suppressing VEX
+ * statement, as policy evaluation counts them. Null for scans from before
+ * findings were normalized, which only have the metadata totals.
+ */
+async function countOpenFindings(
+  scanId: string,
+  image: ExceptionImage & VexImage
+): Promise<GateCounts | null> {
+  const findings = await prisma.scanVulnerabilityFinding.findMany({
+    where: { scanId },
+    select: { cveId: true, packageName: true, installedVersion: true, severity: true, rawFinding: true },
+  });
+  if (findings.length === 0) return null;
+
+  const [exceptions, vexStatements] = await Promise.all([getActiveExceptions(image), getVexStatements(image)]);
+  const counts: GateCounts = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+  const seen = new Set<string>();
+  for (const finding of findings) {
+    const key = `${finding.cveId}|${finding.packageName}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const match = { ...finding, aliases: findingAliases(finding.rawFinding) };
+    if (findException(exceptions, match) || findSuppressingVexStatement(vexStatements, image, match)) continue;
+    counts[finding.severity.toLowerCase() as keyof GateCounts]++;
+  }
+  return counts;
+}
+
+/**
+ * The gate verdict of a scan. A completed scan fails when any FAIL policy is
+ * violated or it has open findings at or above `failOn`; a scan that did not
+ * complete maps to the error exit code.
+ */
+export async function getScanGateResult(scanId: string, failOn: GateSeverity, reused: boolean): Promise<ScanGateResult> {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: {
+      id: true,
+      requestId: true,
+      status: true,
+      errorMessage: true,
+      image: { select: { ...EXCEPTION_IMAGE_SELECT, ...VEX_IMAGE_SELECT } },
+      metadata: {
+        select: {
+          vulnerabilityCritical: true,
+          vulnerabilityHigh: true,
+          vulnerabilityMedium: true,
+          vulnerabilityLow: true,
+          vulnerabilityInfo: true,
+        },
+      },
+      policyEvaluation: true,
+    },
+  });
+  if (!scan) throw new Error(`Scan ${scanId} not found`);
+
+  const counts = await countOpenFindings(scanId, scan.image) ?? {
+    critical: scan.metadata?.vulnerabilityCritical ?? 0,
+    high: scan.metadata?.vulnerabilityHigh ?? 0,
+    medium: scan.metadata?.vulnerabilityMedium ?? 0,
+    low: scan.metadata?.vulnerabilityLow ?? 0,
+    info: scan.metadata?.vulnerabilityInfo ?? 0,
+  };
+
+  const policyResults = (scan.policyEvaluation?.results ?? []) as unknown as PolicyResult[];
+  const violated = policyResults.filter(result => !result.passed);
+  const policy = {
+    verdict: scan.policyEvaluation?.verdict ?? null,
+    violationCount: scan.policyEvaluation?.violationCount ?? 0,
+    failedPolicies: violated.filter(result => result.action === 'FAIL').map(result => result.policyName),
+    warnedPolicies: violated.filter(result => result.action === 'WARN').map(result => result.policyName),
+  };
+
+  const done = TERMINAL_STATUSES.includes(scan.status);
+  const reasons: string[] = [];
+  let passed: boolean | null = null;
+  let exitCode: number | null = null;
+
+  if (done && !COMPLETED_STATUSES.includes(scan.status)) {
+    reasons.push(`Scan ${scan.status.toLowerCase()}${scan.errorMessage ? `: ${scan.errorMessage}` : ''}`);
+    passed = false;
+    exitCode = GATE_EXIT_ERROR;
+  } else if (done) {
+    if (failOn !== 'none') {
+      const threshold = GATE_SEVERITIES.indexOf(failOn);
+      for (const severity of GATE_SEVERITIES.slice(0, threshold + 1)) {
+        const count = counts[severity as keyof typeof counts];
+        if (count > 0) reasons.push(`${count} ${severity} vulnerabilities (fail-on ${failOn})`);
+      }
+    }
+    for (const name of policy.failedPolicies) {
+      reasons.push(`Policy "${name}" violated`);
+    }
+    passed = reasons.length === 0;
+    exitCode = passed ? GATE_EXIT_PASS : GATE_EXIT_FAIL;
+  }
+
+  return {
+    done,
+    scanId: scan.id,
+    requestId: scan.requestId,
+    image: `${scan.image.name}:${scan.image.tag}`,
+    digest: scan.image.digest,
+    reused,
+    status: scan.status,
+    scanPath: `/images/${encodeURIComponent(scan.image.name)}/${scan.id}`,
+    counts,
+    policy,
+    failOn,
+    passed,
+    exitCode,
+    reasons,
+  };
+}
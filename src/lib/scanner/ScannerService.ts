@@ -5,7 +5,7 @@ import { scanQueue } from './ScanQueue';
 import { detectScanMode, executeScanViaSensor, dispatchScanToAgent, ingestEnvelope } from './SensorBridge';
 import type { ScanRequest, ScanJob, ScanStatus } from '@/types';
 import { logger } from '@/lib/logger';
-import { notificationService } from '@/lib/notifications';
+import { notifyScanFailure, notifyScanStarted } from '@/lib/notification-routing/events';
 import { auditLogger } from '@/lib/audit-logger';
 // Template types removed - using basic ScanRequest
 
@@ -133,6 +133,7 @@ export class ScannerService {
   }
 
   private async executeScan(requestId: string, request: ScanRequest, scanId: string, imageId: string) {
+    notifyScanStarted(scanId).catch(() => {});
     try {
       const mode = await detectScanMode();
       logger.info(`[ScannerService] Scan mode: ${mode} for ${requestId}`);
@@ -157,18 +158,9 @@ export class ScannerService {
         );
 
         this.updateJobStatus(requestId, 'RUNNING', 90, undefined, 'Storing results');
+        // Notifications are sent by the ingest
         await ingestEnvelope(scanId, envelope);
 
-        // Send notifications
-        const { critical, high } = envelope.aggregates.vulnerabilityCounts;
-        if (critical > 0 || high > 0) {
-          await notificationService.notifyScanComplete(
-            `${request.image}:${request.tag}`,
-            scanId,
-            envelope.aggregates.vulnerabilityCounts,
-          );
-        }
-
         this.updateJobStatus(requestId, 'SUCCESS', 100, undefined, 'Scan completed successfully');
         await scanQueue.completeScan(requestId);
         auditLogger.scanComplete('system', `${request.image}:${request.tag}`, scanId).catch(() => {});
@@ -186,6 +178,7 @@ export class ScannerService {
       this.updateJobStatus(requestId, 'FAILED', undefined, errorMessage);
       await scanQueue.completeScan(requestId, errorMessage);
       auditLogger.scanFailed('system', `${request.image}:${request.tag}`, scanId, errorMessage).catch(() => {});
+      notifyScanFailure(scanId, errorMessage).catch(() => {});
       return;
     } catch (error) {
       console.error(`Scan execution failed for ${requestId}:`, error);
@@ -201,6 +194,7 @@ export class ScannerService {
       this.updateJobStatus(requestId, 'FAILED', undefined, errorMessage);
       await scanQueue.completeScan(requestId, errorMessage);
       auditLogger.scanFailed('system', `${request.image}:${request.tag}`, scanId, errorMessage).catch(() => {});
+      notifyScanFailure(scanId, errorMessage).catch(() => {});
       throw error;
     }
   }
@@ -231,11 +225,11 @@ export class ScannerService {
   }
 
   /**
-   * Called when an agent uploads results for a dispatched scan.
-   * Updates the in-memory job tracker so SSE/status endpoints reflect completion.
+   * Called when an agent uploads results for a dispatched scan, or its job
+   * failed. Updates the in-memory job tracker so SSE/status endpoints reflect completion.
    */
-  markScanComplete(requestId: string, status: 'SUCCESS' | 'PARTIAL' | 'FAILED'): void {
-    this.updateJobStatus(requestId, status, 100, undefined, 'Scan completed by sensor');
+  markScanComplete(requestId: string, status: 'SUCCESS' | 'PARTIAL' | 'FAILED', error?: string): void {
+    this.updateJobStatus(requestId, status, 100, error, error ? 'Sensor job failed' : 'Scan completed by sensor');
   }
 
   getScanJob(requestId: string): ScanJob | undefined {
@@ -12,6 +12,11 @@ import { prisma } from '@/lib/prisma';
 import type { ScanRequest } from '@/types';
 import { logger } from '@/lib/logger';
 import { mapSeverityToEnum } from '@/lib/utils/severity-utils';
+import { evaluateScanPolicies } from '@/lib/policy/evaluator';
+import { correlateScanFindings } from './FindingCorrelator';
+import { enrichScanFindings } from '@/lib/threat-feeds/import';
+import { refreshScanSla } from '@/lib/sla/service';
+import { notifyScanResults } from '@/lib/notification-routing/events';
 
 const execFileAsync = promisify(execFile);
 
@@ -70,6 +75,14 @@ export async function detectScanMode(): Promise<ScanMode> {
 // Local sensor execution (monolith mode)
 // -------------------------------------------------------------------------
 
+/**
+ * The reference the sensor pulls: pinned to the digest when the request has
+ * one, so the scanned image is the one requested even if the tag has moved.
+ */
+function formatScanImageRef(request: ScanRequest): string {
+  return request.digest ? `${request.image}@${request.digest}` : `${request.image}:${request.tag}`;
+}
+
 export async function executeScanViaSensor(
   scanId: string,
   request: ScanRequest,
@@ -77,7 +90,7 @@ export async function executeScanViaSensor(
 ): Promise<ScanEnvelope> {
   const imageRef = request.source === 'tar' && request.tarPath
     ? request.tarPath
-    : `${request.image}:${request.tag}`;
+    : formatScanImageRef(request);
 
   const sourceFlag = request.source === 'tar'
     ? 'tar'
@@ -156,7 +169,7 @@ export async function dispatchScanToAgent(
 
   const imageRef = request.source === 'tar' && request.tarPath
     ? request.tarPath
-    : `${request.image}:${request.tag}`;
+    : formatScanImageRef(request);
 
   const payload: any = {
     scan: {
@@ -245,6 +258,8 @@ export async function ingestEnvelope(
         title: v.title ?? null,
         description: v.description ?? null,
         vulnerabilityUrl: v.vulnerabilityUrl ?? null,
+        // Kept for GHSA/CVE alias resolution when correlating across scanners
+        rawFinding: Array.isArray(v.aliases) && v.aliases.length > 0 ? { aliases: v.aliases } : undefined,
       })),
     });
   }
@@ -289,4 +304,39 @@ export async function ingestEnvelope(
       })),
     });
   }
+
+  // Correlations are derived data and can be rebuilt; keep the ingest going
+  try {
+    await correlateScanFindings(scanId);
+  } catch (error) {
+    logger.error(`[CORRELATION] Failed to correlate findings for scan ${scanId}:`, error);
+  }
+
+  // EPSS and KEV data is re-applied on every feed import; keep the ingest going
+  try {
+    await enrichScanFindings(scanId);
+  } catch (error) {
+    logger.error(`[THREAT FEEDS] Failed to enrich findings for scan ${scanId}:`, error);
+  }
+
+  // A policy problem must not fail the ingest; the verdict can be re-evaluated later
+  try {
+    await evaluateScanPolicies(scanId);
+  } catch (error) {
+    logger.error(`[POLICY] Failed to evaluate policies for scan ${scanId}:`, error);
+  }
+
+  // SLA rows are refreshed daily as well; keep the ingest going
+  try {
+    await refreshScanSla(scanId);
+  } catch (error) {
+    logger.error(`[SLA] Failed to refresh SLA tracking for scan ${scanId}:`, error);
+  }
+
+  // After policies, so violations are part of the notifications
+  try {
+    await notifyScanResults(scanId);
+  } catch (error) {
+    logger.error(`[NOTIFY] Failed to send notifications for scan ${scanId}:`, error);
+  }
 }
@@ -0,0 +1,164 @@
+/**
+ * Cron scheduler for ScheduledScan definitions.
+ *
+ * Every instance polls for due schedules once a minute. A schedule is claimed
+ * by atomically moving its nextRunAt forward (compare-and-swap on the previous
+ * value), so with several dashboard replicas only one of them fires each run.
+ */
+
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { getNextRunAt } from './cron';
+import { createIntervalScheduler } from './interval';
+import { resolveScheduledScanImages, startScheduledScanExecution } from './ScheduledScanExecutor';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// A run is considered missed (rather than just picked up on the next tick)
+// once it is overdue by more than this
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Fire every enabled schedule whose nextRunAt has passed.
+ */
+async function runDueScheduledScans(now: Date): Promise<void> {
+  await initializeMissingNextRuns(now);
+
+  const dueScans = await prisma.scheduledScan.findMany({
+    where: {
+      enabled: true,
+      schedule: { not: null },
+      nextRunAt: { lte: now },
+    },
+    include: {
+      selectedImages: {
+        include: {
+          image: true,
+        },
+      },
+    },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  for (const scheduledScan of dueScans) {
+    try {
+      await runIfClaimed(scheduledScan, now);
+    } catch (error) {
+      logger.error(`[SCHEDULER] Failed to run scheduled scan ${scheduledScan.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Schedules created before the scheduler existed (or re-enabled without an
+ * update) may have a cron expression but no nextRunAt yet.
+ */
+async function initializeMissingNextRuns(now: Date): Promise<void> {
+  const pending = await prisma.scheduledScan.findMany({
+    where: { enabled: true, schedule: { not: null }, nextRunAt: null },
+    select: { id: true, schedule: true },
+  });
+
+  for (const scheduledScan of pending) {
+    const nextRunAt = computeNextRun(scheduledScan.id, scheduledScan.schedule!, now);
+    if (!nextRunAt) continue;
+    await prisma.scheduledScan.updateMany({
+      where: { id: scheduledScan.id, nextRunAt: null },
+      data: { nextRunAt },
+    });
+  }
+}
+
+async function runIfClaimed(scheduledScan: any, now: Date): Promise<void> {
+  const dueAt: Date = scheduledScan.nextRunAt;
+  const nextRunAt = computeNextRun(scheduledScan.id, scheduledScan.schedule, now);
+
+  // Atomically claim this run — only succeeds if no other replica moved nextRunAt first
+  const claim = await prisma.scheduledScan.updateMany({
+    where: { id: scheduledScan.id, enabled: true, nextRunAt: dueAt },
+    data: { nextRunAt },
+  });
+  if (claim.count === 0) return;
+
+  // An unparseable expression leaves nextRunAt null so it is not retried every tick
+  if (!nextRunAt) return;
+
+  const missed = now.getTime() - dueAt.getTime() > MISSED_RUN_GRACE_MS;
+  const auditInfo = {
+    scheduledFor: dueAt.toISOString(),
+    schedule: scheduledScan.schedule,
+    missed,
+    missedRunPolicy: scheduledScan.missedRunPolicy,
+  };
+
+  if (missed && scheduledScan.missedRunPolicy === 'SKIP') {
+    logger.info(`[SCHEDULER] Skipping missed run of "${scheduledScan.name}" scheduled for ${dueAt.toISOString()}`);
+    await prisma.scheduledScanHistory.create({
+      data: {
+        scheduledScanId: scheduledScan.id,
+        executionId: `skipped-${scheduledScan.id}-${dueAt.getTime()}`,
+        status: 'CANCELLED',
+        totalImages: 0,
+        startedAt: now,
+        completedAt: now,
+        triggerSource: 'SCHEDULED',
+        triggeredBy: 'scheduler',
+        errorMessage: `Missed run scheduled for ${dueAt.toISOString()} was skipped`,
+        auditInfo,
+      },
+    });
+    return;
+  }
+
+  // The run is already claimed, so a failure here must still leave a history row
+  let images: any[] | null;
+  let resolveError: string | null = null;
+  try {
+    images = await resolveScheduledScanImages(scheduledScan);
+  } catch (error) {
+    images = [];
+    resolveError = error instanceof Error ? error.message : String(error);
+  }
+  if (!images || images.length === 0) {
+    const errorMessage = resolveError
+      ? `Failed to resolve images: ${resolveError}`
+      : images === null
+      ? 'Repository-based selection not yet implemented'
+      : 'No images found to scan';
+    logger.warn(`[SCHEDULER] Scheduled scan "${scheduledScan.name}" not started: ${errorMessage}`);
+    await prisma.scheduledScanHistory.create({
+      data: {
+        scheduledScanId: scheduledScan.id,
+        executionId: `failed-${scheduledScan.id}-${dueAt.getTime()}`,
+        status: 'FAILED',
+        totalImages: 0,
+        startedAt: now,
+        completedAt: now,
+        triggerSource: 'SCHEDULED',
+        triggeredBy: 'scheduler',
+        errorMessage,
+        auditInfo,
+      },
+    });
+    return;
+  }
+
+  const { executionId } = await startScheduledScanExecution(scheduledScan.id, images, {
+    triggerSource: 'SCHEDULED',
+    triggeredBy: 'scheduler',
+    auditInfo,
+  });
+  logger.info(`[SCHEDULER] Started "${scheduledScan.name}" (${images.length} images), execution ${executionId}; next run ${nextRunAt.toISOString()}`);
+}
+
+function computeNextRun(scheduledScanId: string, schedule: string, from: Date): Date | null {
+  try {
+    return getNextRunAt(schedule, from);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn(`[SCHEDULER] Invalid cron expression "${schedule}" on scheduled scan ${scheduledScanId}: ${errorMessage}`);
+    return null;
+  }
+}
+
+export const scheduledScanScheduler = createIntervalScheduler('SCHEDULER', TICK_INTERVAL_MS, runDueScheduledScans);
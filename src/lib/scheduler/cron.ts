@@ -0,0 +1,183 @@
+/**
+ * Minimal 5-field cron expression parser used by the scheduled scan runner.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/10`, `0-30/5`),
+ * month/day names (`JAN`, `MON-FRI`) and the common `@daily`-style macros.
+ * Expressions are evaluated in the server's local timezone.
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Upper bound for the next-run search; a valid expression always matches within this window
+const MAX_SEARCH_YEARS = 5;
+
+function resolveName(token: string, names: string[] | undefined, offset: number): string {
+  if (!names) return token;
+  const index = names.indexOf(token.toUpperCase());
+  return index === -1 ? token : String(index + offset);
+}
+
+function parseNumber(token: string, fieldName: string): number {
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid value "${token}" in ${fieldName} field`);
+  }
+  return parseInt(token, 10);
+}
+
+function parseField(
+  expression: string,
+  fieldName: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0,
+): CronField {
+  const values = new Set<number>();
+  const wildcard = expression === '*' || expression === '?';
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseNumber(stepPart, fieldName) : 1;
+    if (step < 1) {
+      throw new Error(`Step must be at least 1 in ${fieldName} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(resolveName(from, names, nameOffset), fieldName);
+      end = parseNumber(resolveName(to, names, nameOffset), fieldName);
+    } else {
+      start = parseNumber(resolveName(rangePart, names, nameOffset), fieldName);
+      // "5/15" means "starting at 5, every 15"
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Value out of range in ${fieldName} field (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+/**
+ * Parse a cron expression. Throws with a descriptive message when invalid.
+ */
+export function parseCron(expression: string): ParsedCron {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const dayOfWeek = parseField(fields[4], 'day-of-week', 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.delete(7);
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(fields[0], 'minute', 0, 59),
+    hour: parseField(fields[1], 'hour', 0, 23),
+    dayOfMonth: parseField(fields[2], 'day-of-month', 1, 31),
+    month: parseField(fields[3], 'month', 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+}
+
+/**
+ * Validate a cron expression, returning the parse error message if invalid.
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    getNextRunAt(parseCron(expression));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.dayOfMonth.values.has(date.getDate());
+  const dowMatch = cron.dayOfWeek.values.has(date.getDay());
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Compute the first time strictly after `from` that matches the expression.
+ */
+export function getNextRunAt(expression: string | ParsedCron, from: Date = new Date()): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(from.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (candidate <= limit) {
+    if (!cron.month.values.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error('Cron expression never matches within the next five years');
+}
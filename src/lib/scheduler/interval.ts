@@ -0,0 +1,83 @@
+/**
+ * Background work that every instance runs on a fixed interval, e.g. expiring
+ * exceptions or sending due notifications. Replicas coordinate through the
+ * database (conditional updates), not through the scheduler.
+ */
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+// Work that came due while the server was down is handled shortly after boot
+const INITIAL_TICK_DELAY_MS = 10_000;
+
+export interface IntervalScheduler {
+  /** Start ticking, unless background work is disabled via SCHEDULER_ENABLED */
+  start(): void;
+  stop(): void;
+  /** Run one pass now; skipped while the previous pass is still running */
+  tick(now?: Date): Promise<void>;
+}
+
+declare global {
+  var __harborguard_schedulers: Map<string, IntervalScheduler> | undefined;
+}
+
+/**
+ * The scheduler running `tick` every `intervalMs`. There is one per name in
+ * the process, so a module reloaded in development does not start a second
+ * timer. `name` prefixes the scheduler's log lines, e.g. "SLA".
+ */
+export function createIntervalScheduler(
+  name: string,
+  intervalMs: number,
+  tick: (now: Date) => Promise<void>
+): IntervalScheduler {
+  const schedulers = globalThis.__harborguard_schedulers
+    || (globalThis.__harborguard_schedulers = new Map());
+  const existing = schedulers.get(name);
+  if (existing) return existing;
+
+  let timer: NodeJS.Timeout | null = null;
+  let initialTimer: NodeJS.Timeout | null = null;
+  let ticking = false;
+
+  const scheduler: IntervalScheduler = {
+    start() {
+      if (timer) return;
+      if (!config.schedulerEnabled) {
+        logger.info(`[${name}] Scheduler disabled via SCHEDULER_ENABLED`);
+        return;
+      }
+      logger.info(`[${name}] Starting scheduler`);
+      timer = setInterval(() => scheduler.tick().catch(error => {
+        logger.error(`[${name}] Tick failed:`, error);
+      }), intervalMs);
+      initialTimer = setTimeout(() => scheduler.tick().catch(error => {
+        logger.error(`[${name}] Initial tick failed:`, error);
+      }), INITIAL_TICK_DELAY_MS);
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      if (initialTimer) {
+        clearTimeout(initialTimer);
+        initialTimer = null;
+      }
+    },
+
+    async tick(now: Date = new Date()) {
+      if (ticking) return;
+      ticking = true;
+      try {
+        await tick(now);
+      } finally {
+        ticking = false;
+      }
+    },
+  };
+
+  schedulers.set(name, scheduler);
+  return scheduler;
+}
@@ -0,0 +1,106 @@
+/**
+ * Periodic SLA work: every instance refreshes all SLA rows once a day (which
+ * also backfills them after an upgrade), and one of them sends the weekly
+ * report of findings past their remediation deadline.
+ */
+import { logger } from '@/lib/logger';
+import { notificationService } from '@/lib/notifications';
+import { prisma } from '@/lib/prisma';
+import { createIntervalScheduler } from '@/lib/scheduler/interval';
+import { daysUntilDue } from './rules';
+import { refreshAllSla, slaStatusWhere } from './service';
+
+const TICK_INTERVAL_MS = 60 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const REPORT_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Kept in the app settings table so replicas agree on when the report went out
+const REPORT_SENT_KEY = 'slaReportLastSentAt';
+const REPORT_ENABLED_KEY = 'slaBreachReport';
+
+// Breaches named in the notification; the counts cover all of them
+const REPORT_BREACH_LIMIT = 10;
+
+/**
+ * Take this week's report for this instance. Returns null when the report
+ * was sent less than a week ago or another replica claimed it first, else a
+ * function that gives the claim back so a failed send is retried next tick.
+ */
+async function claimWeeklyReport(now: Date): Promise<(() => Promise<void>) | null> {
+  const claimed = now.toISOString();
+  const last = await prisma.appSetting.findUnique({ where: { key: REPORT_SENT_KEY } });
+  if (!last) {
+    const { count } = await prisma.appSetting.createMany({
+      data: [{ key: REPORT_SENT_KEY, value: claimed }],
+      skipDuplicates: true,
+    });
+    return count === 1
+      ? async () => { await prisma.appSetting.deleteMany({ where: { key: REPORT_SENT_KEY, value: claimed } }); }
+      : null;
+  }
+  if (now.getTime() - new Date(last.value).getTime() < REPORT_INTERVAL_MS) return null;
+
+  const { count } = await prisma.appSetting.updateMany({
+    where: { key: REPORT_SENT_KEY, value: last.value },
+    data: { value: claimed },
+  });
+  return count === 1
+    ? async () => {
+        await prisma.appSetting.updateMany({
+          where: { key: REPORT_SENT_KEY, value: claimed },
+          data: { value: last.value },
+        });
+      }
+    : null;
+}
+
+/**
+ * Notify about every open finding past its due date. Returns the number of
+ * breaches reported; nothing is sent when there are none.
+ */
+export async function sendSlaBreachReport(now: Date = new Date()): Promise<number> {
+  const breaches = await prisma.vulnerabilitySla.findMany({
+    where: slaStatusWhere('OVERDUE', now),
+    orderBy: { dueAt: 'asc' },
+  });
+  if (breaches.length === 0) return 0;
+
+  const counts = { critical: 0, high: 0, medium: 0, low: 0 };
+  for (const breach of breaches) {
+    if (breach.severity !== 'INFO') counts[breach.severity.toLowerCase() as keyof typeof counts]++;
+  }
+
+  await notificationService.notifySlaBreaches(
+    counts,
+    breaches.slice(0, REPORT_BREACH_LIMIT).map(breach =>
+      `${breach.cveId} in ${breach.imageName} (${breach.severity}, ${-daysUntilDue(breach.dueAt!, now)}d overdue)`
+    ),
+    breaches.length
+  );
+  logger.info(`[SLA] Sent breach report for ${breaches.length} overdue finding(s)`);
+  return breaches.length;
+}
+
+let lastRefresh: number | null = null;
+
+async function runSlaWork(now: Date): Promise<void> {
+  // Also creates the rows of scans ingested before SLA tracking existed, shortly after boot
+  if (lastRefresh === null || now.getTime() - lastRefresh >= REFRESH_INTERVAL_MS) {
+    const names = await refreshAllSla(now);
+    lastRefresh = now.getTime();
+    logger.debug(`[SLA] Refreshed SLA tracking for ${names} image(s)`);
+  }
+
+  const enabled = await prisma.appSetting.findUnique({ where: { key: REPORT_ENABLED_KEY } });
+  const release = enabled?.value !== 'false' ? await claimWeeklyReport(now) : null;
+  if (release) {
+    try {
+      await sendSlaBreachReport(now);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  }
+}
+
+export const slaScheduler = createIntervalScheduler('SLA', TICK_INTERVAL_MS, runSlaWork);
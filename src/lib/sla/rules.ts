@@ -0,0 +1,84 @@
+/**
+ * Remediation SLA policy: how many days each severity may stay open after it
+ * was first seen, and how a due date reads. Shared by the server and the UI,
+ * so it has no server dependencies.
+ */
+
+export const SLA_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const;
+
+export type SlaSeverity = typeof SLA_SEVERITIES[number];
+
+/** Days allowed per severity; 0 means the severity has no SLA */
+export type SlaPolicy = Record<SlaSeverity, number>;
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  CRITICAL: 7,
+  HIGH: 30,
+  MEDIUM: 90,
+  LOW: 180,
+};
+
+// Keys in the app settings table
+export const SLA_SETTING_KEYS: Record<SlaSeverity, string> = {
+  CRITICAL: 'slaCriticalDays',
+  HIGH: 'slaHighDays',
+  MEDIUM: 'slaMediumDays',
+  LOW: 'slaLowDays',
+};
+
+export const SLA_STATUSES = ['OVERDUE', 'DUE_SOON', 'ON_TRACK'] as const;
+
+export type SlaStatus = typeof SLA_STATUSES[number];
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  OVERDUE: 'Overdue',
+  DUE_SOON: 'Due soon',
+  ON_TRACK: 'On track',
+};
+
+export type SlaCounts = Record<SlaStatus, number>;
+
+/** Open, unsuppressed findings per status, as returned by /api/sla */
+export interface SlaSummary {
+  policy: SlaPolicy;
+  total: SlaCounts;
+  bySeverity: Record<SlaSeverity, SlaCounts>;
+}
+
+/** Findings due within this many days count as due soon */
+export const DUE_SOON_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isSlaSeverity(severity: string): severity is SlaSeverity {
+  return (SLA_SEVERITIES as readonly string[]).includes(severity);
+}
+
+/** When a finding first seen at the given time is due, or null without an SLA */
+export function computeSlaDueDate(firstSeenAt: Date, severity: string, policy: SlaPolicy): Date | null {
+  const upper = severity.toUpperCase();
+  if (!isSlaSeverity(upper) || policy[upper] <= 0) return null;
+  return new Date(firstSeenAt.getTime() + policy[upper] * DAY_MS);
+}
+
+export function getSlaStatus(dueAt: Date | string | null | undefined, now: Date = new Date()): SlaStatus | null {
+  if (!dueAt) return null;
+  const due = new Date(dueAt).getTime();
+  if (due < now.getTime()) return 'OVERDUE';
+  if (due < now.getTime() + DUE_SOON_DAYS * DAY_MS) return 'DUE_SOON';
+  return 'ON_TRACK';
+}
+
+/** Whole days until the due date, negative once it passed */
+export function daysUntilDue(dueAt: Date | string, now: Date = new Date()): number {
+  const remaining = new Date(dueAt).getTime() - now.getTime();
+  return remaining < 0 ? -Math.ceil(-remaining / DAY_MS) : Math.floor(remaining / DAY_MS);
+}
+
+/** e.g. "3d overdue", "Due in 5d", "Due today" or "—" without an SLA */
+export function formatSlaDue(dueAt: Date | string | null | undefined, now: Date = new Date()): string {
+  if (!dueAt) return '—';
+  const days = daysUntilDue(dueAt, now);
+  if (days < 0) return `${-days}d overdue`;
+  return days === 0 ? 'Due today' : `Due in ${days}d`;
+}
@@ -0,0 +1,270 @@
+/**
+ * Remediation SLA tracking.
+ *
+ * A CVE's clock starts with the oldest scan of an image name (any tag or
+ * digest) that reported it, and stops once the latest scan of every tag of
+ * that name no longer does. Rows are refreshed after each ingest and
+ * re-evaluation; the status (overdue, due soon) is derived from the due date
+ * when read.
+ */
+import { Prisma, type Severity } from '@/generated/prisma';
+import { findException } from '@/lib/exceptions/rules';
+import { EXCEPTION_IMAGE_SELECT, getActiveExceptions } from '@/lib/exceptions/service';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { findingAliases } from '@/lib/scanner/FindingCorrelator';
+import { findSuppressingVexStatement } from '@/lib/vex/rules';
+import { getVexStatements, VEX_IMAGE_SELECT } from '@/lib/vex/service';
+import {
+  computeSlaDueDate,
+  DEFAULT_SLA_POLICY,
+  DUE_SOON_DAYS,
+  SLA_SETTING_KEYS,
+  SLA_SEVERITIES,
+  type SlaCounts,
+  type SlaPolicy,
+  type SlaStatus,
+  type SlaSummary,
+} from './rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<Severity, number> = { CRITICAL: 4, HIGH: 3, MEDIUM: 2, LOW: 1, INFO: 0 };
+
+const SLA_IMAGE_SELECT = { ...EXCEPTION_IMAGE_SELECT, ...VEX_IMAGE_SELECT } as const;
+
+interface OpenCve {
+  severity: Severity;
+  // Every finding of the CVE is a false positive, excepted or not affected
+  suppressed: boolean;
+  earliestSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+/** Days per severity from the settings, falling back to the defaults */
+export async function getSlaPolicy(): Promise<SlaPolicy> {
+  const rows = await prisma.appSetting.findMany({ where: { key: { in: Object.values(SLA_SETTING_KEYS) } } });
+  const policy = { ...DEFAULT_SLA_POLICY };
+  for (const severity of SLA_SEVERITIES) {
+    const value = Number(rows.find(row => row.key === SLA_SETTING_KEYS[severity])?.value);
+    if (Number.isInteger(value) && value >= 0) policy[severity] = value;
+  }
+  return policy;
+}
+
+/** CVEs reported by the latest completed scan of each tag of the image name */
+async function collectOpenCves(imageName: string): Promise<Map<string, OpenCve>> {
+  const images = await prisma.image.findMany({ where: { name: imageName }, select: SLA_IMAGE_SELECT });
+  const open = new Map<string, OpenCve>();
+  if (images.length === 0) return open;
+
+  const [falsePositives, vexStatements] = await Promise.all([
+    prisma.cveClassification.findMany({
+      where: { imageId: { in: images.map(image => image.id) }, isFalsePositive: true },
+      select: { imageId: true, imageVulnerability: { select: { vulnerability: { select: { cveId: true } } } } },
+    }),
+    getVexStatements(images[0]),
+  ]);
+
+  for (const image of images) {
+    const latest = await prisma.scan.findFirst({
+      where: { imageId: image.id, status: { in: ['SUCCESS', 'PARTIAL'] } },
+      orderBy: { startedAt: 'desc' },
+      select: { id: true, startedAt: true },
+    });
+    if (!latest) continue;
+
+    const [findings, exceptions] = await Promise.all([
+      prisma.scanVulnerabilityFinding.findMany({
+        where: { scanId: latest.id },
+        select: { cveId: true, packageName: true, installedVersion: true, severity: true, rawFinding: true },
+      }),
+      getActiveExceptions(image),
+    ]);
+    const falsePositiveCves = new Set(falsePositives
+      .filter(classification => classification.imageId === image.id)
+      .map(classification => classification.imageVulnerability.vulnerability.cveId));
+
+    for (const finding of findings) {
+      const match = { ...finding, aliases: findingAliases(finding.rawFinding) };
+      const suppressed = falsePositiveCves.has(finding.cveId)
+        || Boolean(findException(exceptions, match))
+        || Boolean(findSuppressingVexStatement(vexStatements, image, match));
+
+      const existing = open.get(finding.cveId);
+      if (!existing) {
+        open.set(finding.cveId, { severity: finding.severity, suppressed, earliestSeenAt: latest.startedAt, lastSeenAt: latest.startedAt });
+        continue;
+      }
+      if (SEVERITY_RANK[finding.severity] > SEVERITY_RANK[existing.severity]) existing.severity = finding.severity;
+      existing.suppressed = existing.suppressed && suppressed;
+      if (latest.startedAt < existing.earliestSeenAt) existing.earliestSeenAt = latest.startedAt;
+      if (latest.startedAt > existing.lastSeenAt) existing.lastSeenAt = latest.startedAt;
+    }
+  }
+
+  return open;
+}
+
+/**
+ * When each CVE was first reported for the image name. For CVEs that were
+ * resolved before, only scans after the resolution count, so a reintroduced
+ * CVE gets a new clock.
+ */
+async function findFirstSeen(imageName: string, cveIds: string[]): Promise<Map<string, Date>> {
+  if (cveIds.length === 0) return new Map();
+  const rows = await prisma.$queryRaw<Array<{ cveId: string; firstSeenAt: Date }>>`
+    SELECT f."cveId", MIN(s."startedAt") AS "firstSeenAt"
+    FROM scan_vulnerability_findings f
+    JOIN scans s ON s.id = f."scanId"
+    JOIN images i ON i.id = s."imageId"
+    LEFT JOIN vulnerability_sla r ON r."imageName" = i.name AND r."cveId" = f."cveId"
+    WHERE i.name = ${imageName}
+      AND f."cveId" IN (${Prisma.join(cveIds)})
+      AND (r."resolvedAt" IS NULL OR s."startedAt" > r."resolvedAt")
+    GROUP BY f."cveId"`;
+  return new Map(rows.map(row => [row.cveId, row.firstSeenAt]));
+}
+
+/**
+ * Bring the SLA rows of an image name in line with its latest scans: start
+ * the clock for new CVEs, update severity and suppression of open ones and
+ * resolve the ones no longer reported.
+ */
+export async function refreshImageSla(imageName: string, now: Date = new Date(), policy?: SlaPolicy): Promise<void> {
+  const slaPolicy = policy ?? await getSlaPolicy();
+  const open = await collectOpenCves(imageName);
+  const existing = new Map((await prisma.vulnerabilitySla.findMany({ where: { imageName } })).map(row => [row.cveId, row]));
+
+  const started = [...open.keys()].filter(cveId => !existing.get(cveId) || existing.get(cveId)!.resolvedAt);
+  const firstSeen = await findFirstSeen(imageName, started);
+
+  const created: Prisma.VulnerabilitySlaCreateManyInput[] = [];
+  for (const [cveId, cve] of open) {
+    const row = existing.get(cveId);
+    if (!row || row.resolvedAt) {
+      const firstSeenAt = firstSeen.get(cveId) ?? cve.earliestSeenAt;
+      const data = {
+        severity: cve.severity,
+        firstSeenAt,
+        lastSeenAt: cve.lastSeenAt,
+        dueAt: computeSlaDueDate(firstSeenAt, cve.severity, slaPolicy),
+        resolvedAt: null,
+        suppressed: cve.suppressed,
+      };
+      if (row) {
+        await prisma.vulnerabilitySla.update({ where: { imageName_cveId: { imageName, cveId } }, data });
+      } else {
+        created.push({ imageName, cveId, ...data });
+      }
+      continue;
+    }
+
+    if (row.severity !== cve.severity || row.suppressed !== cve.suppressed || row.lastSeenAt.getTime() !== cve.lastSeenAt.getTime()) {
+      await prisma.vulnerabilitySla.update({
+        where: { imageName_cveId: { imageName, cveId } },
+        data: {
+          severity: cve.severity,
+          suppressed: cve.suppressed,
+          lastSeenAt: cve.lastSeenAt,
+          dueAt: computeSlaDueDate(row.firstSeenAt, cve.severity, slaPolicy),
+        },
+      });
+    }
+  }
+
+  // A concurrent refresh of the same image may have created some of them
+  if (created.length > 0) {
+    await prisma.vulnerabilitySla.createMany({ data: created, skipDuplicates: true });
+  }
+
+  await prisma.vulnerabilitySla.updateMany({
+    where: { imageName, resolvedAt: null, cveId: { notIn: [...open.keys()] } },
+    data: { resolvedAt: now },
+  });
+}
+
+/** Refresh the SLA rows of the name of an image row */
+export async function refreshSlaForImage(imageId: string): Promise<void> {
+  const image = await prisma.image.findUnique({ where: { id: imageId }, select: { name: true } });
+  if (image) await refreshImageSla(image.name);
+}
+
+/** Refresh the SLA rows of the image a scan belongs to */
+export async function refreshScanSla(scanId: string): Promise<void> {
+  const scan = await prisma.scan.findUnique({ where: { id: scanId }, select: { image: { select: { name: true } } } });
+  if (scan) await refreshImageSla(scan.image.name);
+}
+
+/**
+ * Refresh every image name, including names whose images were all deleted so
+ * their open rows get resolved. Returns the number of names refreshed.
+ */
+export async function refreshAllSla(now: Date = new Date()): Promise<number> {
+  const [images, tracked] = await Promise.all([
+    prisma.image.findMany({ distinct: ['name'], select: { name: true } }),
+    prisma.vulnerabilitySla.findMany({ where: { resolvedAt: null }, distinct: ['imageName'], select: { imageName: true } }),
+  ]);
+  const names = new Set([...images.map(image => image.name), ...tracked.map(row => row.imageName)]);
+  const policy = await getSlaPolicy();
+
+  for (const name of names) {
+    try {
+      await refreshImageSla(name, now, policy);
+    } catch (error) {
+      logger.error(`[SLA] Failed to refresh ${name}:`, error);
+    }
+  }
+  return names.size;
+}
+
+/** Recompute the due dates of all rows after the SLA settings changed */
+export async function recalculateSlaDueDates(policy: SlaPolicy): Promise<void> {
+  for (const severity of SLA_SEVERITIES) {
+    if (policy[severity] > 0) {
+      await prisma.$executeRaw`
+        UPDATE vulnerability_sla
+        SET "dueAt" = "firstSeenAt" + make_interval(days => ${policy[severity]}::int)
+        WHERE severity = ${severity}::"Severity"`;
+    } else {
+      await prisma.vulnerabilitySla.updateMany({ where: { severity }, data: { dueAt: null } });
+    }
+  }
+}
+
+/** Open, unsuppressed rows in the given status; rows without an SLA have none */
+export function slaStatusWhere(status: SlaStatus, now: Date = new Date()): Prisma.VulnerabilitySlaWhereInput {
+  const dueSoon = new Date(now.getTime() + DUE_SOON_DAYS * DAY_MS);
+  const dueAt = status === 'OVERDUE'
+    ? { lt: now }
+    : status === 'DUE_SOON'
+      ? { gte: now, lt: dueSoon }
+      : { gte: dueSoon };
+  return { resolvedAt: null, suppressed: false, dueAt };
+}
+
+/** Counts of open findings per status and severity */
+export async function getSlaSummary(now: Date = new Date()): Promise<SlaSummary> {
+  const policy = await getSlaPolicy();
+  const empty = (): SlaCounts => ({ OVERDUE: 0, DUE_SOON: 0, ON_TRACK: 0 });
+  const summary: SlaSummary = {
+    policy,
+    total: empty(),
+    bySeverity: { CRITICAL: empty(), HIGH: empty(), MEDIUM: empty(), LOW: empty() },
+  };
+
+  for (const status of ['OVERDUE', 'DUE_SOON', 'ON_TRACK'] as const) {
+    const groups = await prisma.vulnerabilitySla.groupBy({
+      by: ['severity'],
+      where: slaStatusWhere(status, now),
+      _count: { _all: true },
+    });
+    for (const group of groups) {
+      if (group.severity === 'INFO') continue;
+      summary.bySeverity[group.severity][status] = group._count._all;
+      summary.total[status] += group._count._all;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,228 @@
+/**
+ * Importing downloaded EPSS and KEV files and enriching vulnerabilities and
+ * scan findings with them.
+ *
+ * Each import replaces the previous feed contents. Findings are matched on
+ * their CVE id, or for advisories such as GHSA ids on the lowest CVE id among
+ * the aliases the scanner reported.
+ */
+import { createHash } from 'crypto';
+import { Prisma, type ThreatFeed, type ThreatFeedImport } from '@/generated/prisma';
+import { logger } from '@/lib/logger';
+import { reevaluateImages } from '@/lib/policy/reevaluate';
+import { prisma } from '@/lib/prisma';
+import { parseEpssCsv, parseKevCatalog, type ParsedEpssFeed, type ParsedKevCatalog } from './parse';
+import type { ThreatFeedName } from './rules';
+
+const INSERT_CHUNK_SIZE = 5000;
+
+// Replacing the EPSS table inserts a quarter of a million rows
+const IMPORT_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ThreatFeedImportOptions {
+  source: string;
+  fileName: string | null;
+  importedBy: string | null;
+}
+
+export type ThreatFeedImportResult =
+  | { success: true; import: ThreatFeedImport; imagesUpdated: number }
+  | { success: false; error: string };
+
+export function feedChecksum(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function toThreatFeed(feed: ThreatFeedName): ThreatFeed {
+  return feed === 'epss' ? 'EPSS' : 'KEV';
+}
+
+// The CVE id a finding is scored under, see the module comment
+const FINDING_CVE_ID = Prisma.sql`COALESCE(
+  CASE WHEN UPPER(f."cveId") LIKE 'CVE-%' THEN UPPER(f."cveId") END,
+  (SELECT MIN(UPPER(alias)) FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(f."rawFinding"->'aliases') = 'array' THEN f."rawFinding"->'aliases' ELSE '[]'::jsonb END
+  ) AS alias WHERE UPPER(alias) LIKE 'CVE-%')
+)`;
+
+/**
+ * Copy the current feed values onto findings, clearing them where the feed
+ * no longer lists the CVE. Limited to one scan when scanId is given. Returns
+ * the scans whose findings changed.
+ */
+async function enrichFindings(feed: ThreatFeed, scanId?: string): Promise<string[]> {
+  const scanFilter = scanId ? Prisma.sql`WHERE f."scanId" = ${scanId}` : Prisma.empty;
+  const rows = feed === 'EPSS'
+    ? await prisma.$queryRaw<Array<{ scanId: string }>>`
+        WITH matched AS (
+          SELECT f.id, e.score, e.percentile
+          FROM scan_vulnerability_findings f
+          LEFT JOIN epss_scores e ON e."cveId" = ${FINDING_CVE_ID}
+          ${scanFilter}
+        ), updated AS (
+          UPDATE scan_vulnerability_findings f
+          SET "epssScore" = matched.score, "epssPercentile" = matched.percentile
+          FROM matched
+          WHERE f.id = matched.id
+            AND (f."epssScore" IS DISTINCT FROM matched.score OR f."epssPercentile" IS DISTINCT FROM matched.percentile)
+          RETURNING f."scanId"
+        )
+        SELECT DISTINCT "scanId" FROM updated`
+    : await prisma.$queryRaw<Array<{ scanId: string }>>`
+        WITH matched AS (
+          SELECT f.id, k."cveId" IS NOT NULL AS exploited
+          FROM scan_vulnerability_findings f
+          LEFT JOIN kev_entries k ON k."cveId" = ${FINDING_CVE_ID}
+          ${scanFilter}
+        ), updated AS (
+          UPDATE scan_vulnerability_findings f
+          SET "knownExploited" = matched.exploited
+          FROM matched
+          WHERE f.id = matched.id AND f."knownExploited" <> matched.exploited
+          RETURNING f."scanId"
+        )
+        SELECT DISTINCT "scanId" FROM updated`;
+  return rows.map(row => row.scanId);
+}
+
+async function enrichVulnerabilities(feed: ThreatFeed): Promise<void> {
+  if (feed === 'EPSS') {
+    await prisma.$executeRaw`
+      UPDATE vulnerabilities v
+      SET "epssScore" = e.score, "epssPercentile" = e.percentile
+      FROM vulnerabilities existing
+      LEFT JOIN epss_scores e ON e."cveId" = UPPER(existing."cveId")
+      WHERE v.id = existing.id
+        AND (v."epssScore" IS DISTINCT FROM e.score OR v."epssPercentile" IS DISTINCT FROM e.percentile)`;
+  } else {
+    await prisma.$executeRaw`
+      UPDATE vulnerabilities v
+      SET "knownExploited" = k."cveId" IS NOT NULL, "kevDateAdded" = k."dateAdded"
+      FROM vulnerabilities existing
+      LEFT JOIN kev_entries k ON k."cveId" = UPPER(existing."cveId")
+      WHERE v.id = existing.id
+        AND (v."knownExploited" <> (k."cveId" IS NOT NULL) OR v."kevDateAdded" IS DISTINCT FROM k."dateAdded")`;
+  }
+}
+
+/**
+ * Apply the imported feeds to the findings of a newly ingested scan. Run
+ * before the scan's policies are evaluated.
+ */
+export async function enrichScanFindings(scanId: string): Promise<void> {
+  const [epss, kev] = await Promise.all([prisma.epssScore.count(), prisma.kevEntry.count()]);
+  if (epss > 0) await enrichFindings('EPSS', scanId);
+  if (kev > 0) await enrichFindings('KEV', scanId);
+}
+
+/** Feed values for a Vulnerability row about to be created */
+export async function threatIntelFields(cveId: string): Promise<{
+  epssScore: number | null;
+  epssPercentile: number | null;
+  knownExploited: boolean;
+  kevDateAdded: Date | null;
+}> {
+  const id = cveId.toUpperCase();
+  const [epss, kev] = await Promise.all([
+    prisma.epssScore.findUnique({ where: { cveId: id } }),
+    prisma.kevEntry.findUnique({ where: { cveId: id }, select: { dateAdded: true } }),
+  ]);
+  return {
+    epssScore: epss?.score ?? null,
+    epssPercentile: epss?.percentile ?? null,
+    knownExploited: Boolean(kev),
+    kevDateAdded: kev?.dateAdded ?? null,
+  };
+}
+
+async function replaceEpssScores(parsed: ParsedEpssFeed): Promise<void> {
+  await prisma.$transaction(async tx => {
+    await tx.epssScore.deleteMany();
+    for (let i = 0; i < parsed.scores.length; i += INSERT_CHUNK_SIZE) {
+      await tx.epssScore.createMany({
+        data: parsed.scores.slice(i, i + INSERT_CHUNK_SIZE).map(score => ({ ...score, scoreDate: parsed.scoreDate })),
+        skipDuplicates: true,
+      });
+    }
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+}
+
+async function replaceKevEntries(parsed: ParsedKevCatalog): Promise<void> {
+  await prisma.$transaction(async tx => {
+    await tx.kevEntry.deleteMany();
+    for (let i = 0; i < parsed.entries.length; i += INSERT_CHUNK_SIZE) {
+      await tx.kevEntry.createMany({ data: parsed.entries.slice(i, i + INSERT_CHUNK_SIZE), skipDuplicates: true });
+    }
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+}
+
+/**
+ * Parse and import a downloaded feed file, enrich vulnerabilities and
+ * findings with it and re-evaluate the images whose latest findings changed.
+ */
+export async function importThreatFeedFile(
+  feed: ThreatFeedName,
+  content: Buffer,
+  options: ThreatFeedImportOptions
+): Promise<ThreatFeedImportResult> {
+  const threatFeed = toThreatFeed(feed);
+  let summary: { entryCount: number; feedVersion: string | null; feedDate: Date | null };
+
+  if (threatFeed === 'EPSS') {
+    const parsed = parseEpssCsv(content);
+    if (!parsed.success) return parsed;
+    await replaceEpssScores(parsed.data);
+    summary = { entryCount: parsed.data.scores.length, feedVersion: parsed.data.modelVersion, feedDate: parsed.data.scoreDate };
+  } else {
+    const parsed = parseKevCatalog(content);
+    if (!parsed.success) return parsed;
+    await replaceKevEntries(parsed.data);
+    summary = { entryCount: parsed.data.entries.length, feedVersion: parsed.data.catalogVersion, feedDate: parsed.data.dateReleased };
+  }
+
+  await enrichVulnerabilities(threatFeed);
+  const changedScans = await enrichFindings(threatFeed);
+  const findingCount = await prisma.scanVulnerabilityFinding.count({
+    where: threatFeed === 'EPSS' ? { epssScore: { not: null } } : { knownExploited: true },
+  });
+
+  const record = await prisma.threatFeedImport.create({
+    data: {
+      feed: threatFeed,
+      source: options.source,
+      fileName: options.fileName,
+      checksum: feedChecksum(content),
+      feedVersion: summary.feedVersion,
+      feedDate: summary.feedDate,
+      entryCount: summary.entryCount,
+      findingCount,
+      importedBy: options.importedBy,
+    },
+  });
+
+  logger.info(`[THREAT FEEDS] Imported ${summary.entryCount} ${threatFeed} entries from ${options.fileName ?? options.source}, ${findingCount} finding(s) enriched`);
+
+  const images = changedScans.length > 0
+    ? await prisma.image.findMany({
+        where: { scans: { some: { id: { in: changedScans } } } },
+        select: { id: true, name: true, tag: true },
+      })
+    : [];
+  await reevaluateImages(images);
+
+  return { success: true, import: record, imagesUpdated: images.length };
+}
+
+/** The latest import of each feed and how many entries are loaded */
+export async function getThreatFeedStatus() {
+  const [epssImport, kevImport, epssCount, kevCount] = await Promise.all([
+    prisma.threatFeedImport.findFirst({ where: { feed: 'EPSS' }, orderBy: { createdAt: 'desc' } }),
+    prisma.threatFeedImport.findFirst({ where: { feed: 'KEV' }, orderBy: { createdAt: 'desc' } }),
+    prisma.epssScore.count(),
+    prisma.kevEntry.count(),
+  ]);
+  return {
+    epss: { entries: epssCount, lastImport: epssImport },
+    kev: { entries: kevCount, lastImport: kevImport },
+  };
+}
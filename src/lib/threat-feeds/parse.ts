@@ -0,0 +1,157 @@
+/**
+ * Parsing of downloaded threat intelligence feeds: the FIRST EPSS scores CSV
+ * (optionally gzipped, as published) and the CISA Known Exploited
+ * Vulnerabilities catalog JSON.
+ */
+import { gunzipSync } from 'zlib';
+import { z } from 'zod';
+
+export interface ParsedEpssScore {
+  cveId: string;
+  score: number;
+  percentile: number;
+}
+
+export interface ParsedEpssFeed {
+  modelVersion: string | null;
+  scoreDate: Date | null;
+  scores: ParsedEpssScore[];
+}
+
+export interface ParsedKevEntry {
+  cveId: string;
+  vendorProject: string | null;
+  product: string | null;
+  vulnerabilityName: string | null;
+  dateAdded: Date;
+  dueDate: Date | null;
+  requiredAction: string | null;
+  knownRansomwareUse: boolean;
+  notes: string | null;
+}
+
+export interface ParsedKevCatalog {
+  catalogVersion: string | null;
+  dateReleased: Date | null;
+  entries: ParsedKevEntry[];
+}
+
+export type FeedParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const CVE_ID = /^CVE-\d{4}-\d{4,}$/i;
+
+/** The file's text, decompressing it first when it is gzipped */
+export function decodeFeedFile(content: Buffer): string {
+  const gzipped = content.length > 2 && content[0] === 0x1f && content[1] === 0x8b;
+  return (gzipped ? gunzipSync(content) : content).toString('utf8');
+}
+
+// "#model_version:v2023.03.01,score_date:2024-01-01T00:00:00+0000"
+function parseEpssHeader(line: string): Pick<ParsedEpssFeed, 'modelVersion' | 'scoreDate'> {
+  const fields = new Map(line.slice(1).split(',').map(field => {
+    const separator = field.indexOf(':');
+    return [field.slice(0, separator).trim(), field.slice(separator + 1).trim()] as const;
+  }));
+  const scoreDate = fields.get('score_date') ? new Date(fields.get('score_date')!.replace(/([+-]\d{2})(\d{2})$/, '$1:$2')) : null;
+  return {
+    modelVersion: fields.get('model_version') || null,
+    scoreDate: scoreDate && !isNaN(scoreDate.getTime()) ? scoreDate : null,
+  };
+}
+
+export function parseEpssCsv(content: Buffer | string): FeedParseResult<ParsedEpssFeed> {
+  const text = typeof content === 'string' ? content : decodeFeedFile(content);
+  const lines = text.split(/\r?\n/);
+
+  let header: Pick<ParsedEpssFeed, 'modelVersion' | 'scoreDate'> = { modelVersion: null, scoreDate: null };
+  let columns: { cve: number; epss: number; percentile: number } | null = null;
+  const scores: ParsedEpssScore[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      header = parseEpssHeader(line);
+      continue;
+    }
+
+    const cells = line.split(',').map(cell => cell.trim());
+    if (!columns) {
+      const names = cells.map(cell => cell.toLowerCase());
+      columns = { cve: names.indexOf('cve'), epss: names.indexOf('epss'), percentile: names.indexOf('percentile') };
+      if (columns.cve < 0 || columns.epss < 0 || columns.percentile < 0) {
+        return { success: false, error: 'Not an EPSS scores file: expected the columns cve, epss and percentile' };
+      }
+      continue;
+    }
+
+    const cveId = cells[columns.cve]?.toUpperCase();
+    const score = Number(cells[columns.epss]);
+    const percentile = Number(cells[columns.percentile]);
+    if (!cveId || !CVE_ID.test(cveId) || !(score >= 0 && score <= 1) || !(percentile >= 0 && percentile <= 1)) {
+      return { success: false, error: `Invalid EPSS row on line ${i + 1}` };
+    }
+    scores.push({ cveId, score, percentile });
+  }
+
+  if (!columns) return { success: false, error: 'Not an EPSS scores file: no header row' };
+  if (scores.length === 0) return { success: false, error: 'The EPSS file contains no scores' };
+  return { success: true, data: { ...header, scores } };
+}
+
+const optionalText = z.string().nullish().transform(value => value?.trim() || null);
+
+// Dates are "YYYY-MM-DD"
+const KevDate = z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Dates must be YYYY-MM-DD').transform(value => new Date(`${value.slice(0, 10)}T00:00:00Z`));
+
+const KevCatalogSchema = z.object({
+  catalogVersion: z.string().optional(),
+  dateReleased: z.string().datetime({ offset: true }).optional(),
+  vulnerabilities: z.array(z.object({
+    cveID: z.string().regex(CVE_ID, 'Invalid CVE id'),
+    vendorProject: optionalText,
+    product: optionalText,
+    vulnerabilityName: optionalText,
+    dateAdded: KevDate,
+    requiredAction: optionalText,
+    dueDate: KevDate.nullish(),
+    knownRansomwareCampaignUse: z.string().optional(),
+    notes: optionalText,
+  })).min(1, 'The KEV catalog contains no vulnerabilities'),
+});
+
+export function parseKevCatalog(content: Buffer | string): FeedParseResult<ParsedKevCatalog> {
+  let json: unknown;
+  try {
+    json = JSON.parse(typeof content === 'string' ? content : decodeFeedFile(content));
+  } catch {
+    return { success: false, error: 'The KEV catalog is not valid JSON' };
+  }
+
+  const parsed = KevCatalogSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { success: false, error: `Not a KEV catalog: ${issue?.path.length ? `${issue.path.join('.')}: ` : ''}${issue?.message}` };
+  }
+
+  return {
+    success: true,
+    data: {
+      catalogVersion: parsed.data.catalogVersion ?? null,
+      dateReleased: parsed.data.dateReleased ? new Date(parsed.data.dateReleased) : null,
+      entries: parsed.data.vulnerabilities.map(vulnerability => ({
+        cveId: vulnerability.cveID.toUpperCase(),
+        vendorProject: vulnerability.vendorProject,
+        product: vulnerability.product,
+        vulnerabilityName: vulnerability.vulnerabilityName,
+        dateAdded: vulnerability.dateAdded,
+        dueDate: vulnerability.dueDate ?? null,
+        requiredAction: vulnerability.requiredAction,
+        knownRansomwareUse: vulnerability.knownRansomwareCampaignUse?.toLowerCase() === 'known',
+        notes: vulnerability.notes,
+      })),
+    },
+  };
+}
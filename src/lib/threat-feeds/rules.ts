@@ -0,0 +1,29 @@
+/**
+ * How exploitation evidence from the threat feeds weighs on findings. Shared
+ * by the risk score and the UI, so it has no server dependencies.
+ */
+
+export const THREAT_FEEDS = ['epss', 'kev'] as const;
+
+export type ThreatFeedName = typeof THREAT_FEEDS[number];
+
+export interface ExploitSignals {
+  epssScore: number | null;
+  knownExploited: boolean;
+}
+
+/**
+ * Factor applied to a finding's severity score: known exploitation doubles
+ * it, otherwise it grows with the EPSS probability up to 1.5x.
+ */
+export function exploitRiskMultiplier(signals: ExploitSignals): number {
+  if (signals.knownExploited) return 2;
+  return 1 + 0.5 * Math.min(1, Math.max(0, signals.epssScore ?? 0));
+}
+
+/** EPSS probability as a percentage, e.g. 0.97123 -> "97.1%" */
+export function formatEpss(score: number | null | undefined): string {
+  if (score === null || score === undefined) return '—';
+  const percent = score * 100;
+  return percent > 0 && percent < 0.1 ? '<0.1%' : `${percent.toFixed(1)}%`;
+}
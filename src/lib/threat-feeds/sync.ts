@@ -0,0 +1,107 @@
+/**
+ * Import of feed files from a mounted directory (THREAT_FEEDS_DIR), for
+ * air-gapped installs where the files are downloaded elsewhere and copied in.
+ *
+ * Every instance checks the directory hourly. A file is imported when its
+ * checksum differs from the last import of that feed, so dropping in a new
+ * download is enough to refresh the scores.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { logAuditEvent } from '@/lib/audit-logger';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { createIntervalScheduler } from '@/lib/scheduler/interval';
+import { feedChecksum, importThreatFeedFile, toThreatFeed } from './import';
+import type { ThreatFeedName } from './rules';
+
+const TICK_INTERVAL_MS = 60 * 60 * 1000;
+
+// File names as published by FIRST and CISA
+const FEED_FILE_PATTERNS: Record<ThreatFeedName, RegExp> = {
+  epss: /^epss_scores.*\.csv(\.gz)?$/i,
+  kev: /^known_exploited_vulnerabilities.*\.json$/i,
+};
+
+export interface ThreatFeedSyncResult {
+  feed: ThreatFeedName;
+  file: string;
+  status: 'imported' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+/** The most recently modified file in the directory matching the feed's name */
+async function findFeedFile(directory: string, feed: ThreatFeedName): Promise<string | null> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  let newest: { file: string; modified: number } | null = null;
+  for (const entry of entries) {
+    if (!entry.isFile() || !FEED_FILE_PATTERNS[feed].test(entry.name)) continue;
+    const file = path.join(directory, entry.name);
+    const { mtimeMs } = await fs.stat(file);
+    if (!newest || mtimeMs > newest.modified) newest = { file, modified: mtimeMs };
+  }
+  return newest?.file ?? null;
+}
+
+/**
+ * Import the newest EPSS and KEV files in the directory that were not imported
+ * yet. Feeds without a file in the directory are left alone.
+ */
+export async function syncThreatFeedsDir(
+  directory: string,
+  importedBy: string | null = null
+): Promise<ThreatFeedSyncResult[]> {
+  const results: ThreatFeedSyncResult[] = [];
+
+  for (const feed of ['epss', 'kev'] as const) {
+    const file = await findFeedFile(directory, feed);
+    if (!file) continue;
+
+    const content = await fs.readFile(file);
+    const last = await prisma.threatFeedImport.findFirst({
+      where: { feed: toThreatFeed(feed) },
+      orderBy: { createdAt: 'desc' },
+      select: { checksum: true },
+    });
+    if (last?.checksum === feedChecksum(content)) {
+      results.push({ feed, file, status: 'unchanged' });
+      continue;
+    }
+
+    const result = await importThreatFeedFile(feed, content, { source: file, fileName: path.basename(file), importedBy });
+    if (!result.success) {
+      logger.warn(`[THREAT FEEDS] Skipping ${file}: ${result.error}`);
+      results.push({ feed, file, status: 'failed', error: result.error });
+      continue;
+    }
+
+    results.push({ feed, file, status: 'imported' });
+    await logAuditEvent({
+      eventType: 'threat_feed_import',
+      category: 'action',
+      userIp: 'system',
+      resource: `threat_feed:${feed}`,
+      action: `Imported ${feed.toUpperCase()} feed from ${file}`,
+      details: {
+        importId: result.import.id,
+        entryCount: result.import.entryCount,
+        findingCount: result.import.findingCount,
+        imagesUpdated: result.imagesUpdated,
+        importedBy,
+      },
+    });
+  }
+
+  return results;
+}
+
+export const threatFeedScheduler = createIntervalScheduler('THREAT FEEDS', TICK_INTERVAL_MS, async () => {
+  await syncThreatFeedsDir(config.threatFeedsDir!);
+});
+
+/** Watch THREAT_FEEDS_DIR for new feed files, when one is configured */
+export function startThreatFeedScheduler() {
+  if (!config.threatFeedsDir) return;
+  threatFeedScheduler.start();
+}
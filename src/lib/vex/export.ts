@@ -0,0 +1,127 @@
+/**
+ * OpenVEX and CycloneDX VEX documents describing the status of an image's
+ * vulnerabilities.
+ */
+import { randomUUID } from 'crypto';
+import type { VexStatus } from '@/generated/prisma';
+import { toCycloneDxJustification, toOpenVexJustification, type VexImage } from './rules';
+
+export const VEX_EXPORT_FORMATS = ['openvex', 'cyclonedx'] as const;
+
+export type VexExportFormat = typeof VEX_EXPORT_FORMATS[number];
+
+export interface VexExportEntry {
+  vulnerabilityId: string;
+  aliases: string[];
+  packageName: string;
+  packageVersion: string | null;
+  packageUrl: string;
+  status: VexStatus;
+  justification: string | null;
+  impactStatement: string | null;
+  actionStatement: string | null;
+  timestamp: Date;
+}
+
+const TOOL_NAME = 'HarborGuard';
+
+const OPENVEX_STATUS: Record<VexStatus, string> = {
+  NOT_AFFECTED: 'not_affected',
+  AFFECTED: 'affected',
+  FIXED: 'fixed',
+  UNDER_INVESTIGATION: 'under_investigation',
+};
+
+const CYCLONEDX_STATE: Record<VexStatus, string> = {
+  NOT_AFFECTED: 'not_affected',
+  AFFECTED: 'exploitable',
+  FIXED: 'resolved',
+  UNDER_INVESTIGATION: 'in_triage',
+};
+
+/** pkg:oci URL identifying the image by digest, with its repository and tag */
+export function imagePackageUrl(image: VexImage): string {
+  const repository = image.registry ? `${image.registry}/${image.name}` : image.name;
+  const name = image.name.split('/').pop()!;
+  return `pkg:oci/${encodeURIComponent(name)}@${encodeURIComponent(image.digest)}`
+    + `?repository_url=${encodeURIComponent(repository)}&tag=${encodeURIComponent(image.tag)}`;
+}
+
+/** Package URL for a finding when the scanners did not report one */
+export function genericPackageUrl(name: string, version: string | null): string {
+  return `pkg:generic/${encodeURIComponent(name)}${version ? `@${encodeURIComponent(version)}` : ''}`;
+}
+
+export function buildOpenVex(image: VexImage, entries: VexExportEntry[], issuedAt: Date = new Date()) {
+  const product = imagePackageUrl(image);
+  return {
+    '@context': 'https://openvex.dev/ns/v0.2.0',
+    '@id': `urn:uuid:${randomUUID()}`,
+    author: TOOL_NAME,
+    timestamp: issuedAt.toISOString(),
+    version: 1,
+    tooling: TOOL_NAME,
+    statements: entries.map(entry => {
+      const justification = entry.status === 'NOT_AFFECTED' ? toOpenVexJustification(entry.justification) : undefined;
+      return {
+        vulnerability: {
+          name: entry.vulnerabilityId,
+          ...(entry.aliases.length > 0 ? { aliases: entry.aliases } : {}),
+        },
+        timestamp: entry.timestamp.toISOString(),
+        products: [{ '@id': product, subcomponents: [{ '@id': entry.packageUrl }] }],
+        status: OPENVEX_STATUS[entry.status],
+        ...(justification ? { justification } : {}),
+        // not_affected needs a justification or an impact statement, affected an action statement
+        ...(entry.status === 'NOT_AFFECTED' && (entry.impactStatement || !justification)
+          ? { impact_statement: entry.impactStatement || 'Not affected' }
+          : {}),
+        ...(entry.status === 'AFFECTED'
+          ? { action_statement: entry.actionStatement || 'No remediation planned yet' }
+          : {}),
+      };
+    }),
+  };
+}
+
+export function buildCycloneDxVex(image: VexImage, entries: VexExportEntry[], issuedAt: Date = new Date()) {
+  const imageRef = imagePackageUrl(image);
+  const components = new Map<string, { type: string; 'bom-ref': string; name: string; version?: string; purl: string }>();
+  for (const entry of entries) {
+    if (components.has(entry.packageUrl)) continue;
+    components.set(entry.packageUrl, {
+      type: 'library',
+      'bom-ref': entry.packageUrl,
+      name: entry.packageName,
+      ...(entry.packageVersion ? { version: entry.packageVersion } : {}),
+      purl: entry.packageUrl,
+    });
+  }
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: issuedAt.toISOString(),
+      tools: { components: [{ type: 'application', name: TOOL_NAME }] },
+      component: { type: 'container', 'bom-ref': imageRef, name: image.name, version: image.tag, purl: imageRef },
+    },
+    components: [...components.values()],
+    vulnerabilities: entries.map(entry => {
+      const justification = entry.status === 'NOT_AFFECTED' ? toCycloneDxJustification(entry.justification) : undefined;
+      const detail = entry.impactStatement || entry.actionStatement;
+      return {
+        id: entry.vulnerabilityId,
+        analysis: {
+          state: CYCLONEDX_STATE[entry.status],
+          ...(justification ? { justification } : {}),
+          ...(detail ? { detail } : {}),
+          lastUpdated: entry.timestamp.toISOString(),
+        },
+        affects: [{ ref: entry.packageUrl }],
+      };
+    }),
+  };
+}
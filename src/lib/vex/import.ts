@@ -0,0 +1,72 @@
+/**
+ * Storing imported VEX documents and re-evaluating the images they cover.
+ */
+import type { VexDocument, VexStatement } from '@/generated/prisma';
+import { logger } from '@/lib/logger';
+import { reevaluateImages } from '@/lib/policy/reevaluate';
+import { prisma } from '@/lib/prisma';
+import type { ParsedVexDocument } from './parse';
+
+/**
+ * Store a parsed document. A document with the same format and id imported
+ * before is replaced, so publishing an updated VEX file supersedes the old one.
+ * The replaced documents come back with their statements' vulnerability ids,
+ * whose findings need refreshing too.
+ */
+export async function importVexDocument(
+  parsed: ParsedVexDocument,
+  options: { source: string; importedBy: string | null }
+): Promise<{
+  document: VexDocument;
+  replaced: (VexDocument & { statements: Pick<VexStatement, 'vulnerabilityId' | 'aliases'>[] })[];
+}> {
+  return prisma.$transaction(async tx => {
+    const replaced = parsed.documentId
+      ? await tx.vexDocument.findMany({
+          where: { format: parsed.format, documentId: parsed.documentId },
+          include: { statements: { select: { vulnerabilityId: true, aliases: true } } },
+        })
+      : [];
+    if (replaced.length > 0) {
+      await tx.vexDocument.deleteMany({ where: { id: { in: replaced.map(document => document.id) } } });
+    }
+
+    const document = await tx.vexDocument.create({
+      data: {
+        format: parsed.format,
+        documentId: parsed.documentId,
+        source: options.source,
+        author: parsed.author,
+        issuedAt: parsed.issuedAt,
+        importedBy: options.importedBy,
+      },
+    });
+    await tx.vexStatement.createMany({
+      data: parsed.statements.map(statement => ({
+        ...statement,
+        documentId: document.id,
+        products: statement.products.map(product => ({ ...product })),
+      })),
+    });
+    return { document, replaced };
+  });
+}
+
+/**
+ * Re-evaluate policies and risk scores of images with findings for any of the
+ * vulnerabilities, after statements about them were imported or removed.
+ * Returns the number of images refreshed.
+ */
+export async function refreshVexTargets(vulnerabilityIds: string[]): Promise<number> {
+  const ids = [...new Set(vulnerabilityIds)];
+  if (ids.length === 0) return 0;
+
+  const images = await prisma.image.findMany({
+    where: { scans: { some: { vulnerabilityFindings: { some: { cveId: { in: ids, mode: 'insensitive' } } } } } },
+    select: { id: true, name: true, tag: true },
+  });
+  await reevaluateImages(images);
+
+  logger.info(`[VEX] Re-evaluated ${images.length} image(s) for ${ids.length} vulnerabilit${ids.length === 1 ? 'y' : 'ies'}`);
+  return images.length;
+}
@@ -0,0 +1,256 @@
+/**
+ * Parsing of imported OpenVEX and CycloneDX VEX documents into statements.
+ */
+import { z } from 'zod';
+import type { VexFormat, VexStatus } from '@/generated/prisma';
+import type { VexProduct } from './rules';
+
+export interface ParsedVexStatement {
+  vulnerabilityId: string;
+  aliases: string[];
+  products: VexProduct[];
+  status: VexStatus;
+  justification: string | null;
+  impactStatement: string | null;
+  actionStatement: string | null;
+  timestamp: Date | null;
+}
+
+export interface ParsedVexDocument {
+  format: VexFormat;
+  documentId: string | null;
+  author: string | null;
+  issuedAt: Date | null;
+  statements: ParsedVexStatement[];
+}
+
+export type VexParseResult =
+  | { success: true; data: ParsedVexDocument }
+  | { success: false; error: string };
+
+// OpenVEX products and subcomponents are IRIs, or objects carrying one
+const OpenVexComponentSchema = z.union([
+  z.string(),
+  z.object({
+    '@id': z.string().optional(),
+    identifiers: z.object({ purl: z.string().optional() }).optional(),
+    subcomponents: z.array(z.union([
+      z.string(),
+      z.object({ '@id': z.string().optional(), identifiers: z.object({ purl: z.string().optional() }).optional() }),
+    ])).optional(),
+  }),
+]);
+
+type OpenVexComponent = z.infer<typeof OpenVexComponentSchema>;
+
+const OpenVexSchema = z.object({
+  '@context': z.string().refine(context => context.startsWith('https://openvex.dev/ns'), 'Unsupported OpenVEX context'),
+  '@id': z.string().optional(),
+  author: z.string().optional(),
+  timestamp: z.coerce.date().optional(),
+  statements: z.array(z.object({
+    // v0.0.x uses a plain id, later versions an object with aliases
+    vulnerability: z.union([
+      z.string(),
+      z.object({ name: z.string().optional(), '@id': z.string().optional(), aliases: z.array(z.string()).optional() }),
+    ]),
+    products: z.array(OpenVexComponentSchema).min(1, 'Each statement needs at least one product'),
+    subcomponents: z.array(OpenVexComponentSchema).optional(),
+    status: z.enum(['not_affected', 'affected', 'fixed', 'under_investigation']),
+    justification: z.string().optional(),
+    impact_statement: z.string().optional(),
+    action_statement: z.string().optional(),
+    timestamp: z.coerce.date().optional(),
+  })).min(1, 'The document has no statements'),
+});
+
+const CycloneDxComponentSchema = z.object({
+  'bom-ref': z.string().optional(),
+  type: z.string().optional(),
+  name: z.string(),
+  version: z.string().optional(),
+  purl: z.string().optional(),
+});
+
+type CycloneDxComponent = z.infer<typeof CycloneDxComponentSchema>;
+
+const CYCLONEDX_STATES = [
+  'resolved',
+  'resolved_with_pedigree',
+  'exploitable',
+  'in_triage',
+  'false_positive',
+  'not_affected',
+] as const;
+
+const CycloneDxSchema = z.object({
+  bomFormat: z.literal('CycloneDX'),
+  serialNumber: z.string().optional(),
+  metadata: z.object({
+    timestamp: z.coerce.date().optional(),
+    authors: z.array(z.object({ name: z.string().optional() })).optional(),
+    supplier: z.object({ name: z.string().optional() }).optional(),
+    manufacture: z.object({ name: z.string().optional() }).optional(),
+    component: CycloneDxComponentSchema.optional(),
+  }).optional(),
+  components: z.array(CycloneDxComponentSchema).optional(),
+  vulnerabilities: z.array(z.object({
+    id: z.string(),
+    references: z.array(z.object({ id: z.string() })).optional(),
+    updated: z.coerce.date().optional(),
+    analysis: z.object({
+      state: z.enum(CYCLONEDX_STATES).optional(),
+      justification: z.string().optional(),
+      response: z.array(z.string()).optional(),
+      detail: z.string().optional(),
+      lastUpdated: z.coerce.date().optional(),
+    }).optional(),
+    affects: z.array(z.object({ ref: z.string() })).optional(),
+  })).min(1, 'The document has no vulnerabilities'),
+});
+
+const OPENVEX_STATUS: Record<string, VexStatus> = {
+  not_affected: 'NOT_AFFECTED',
+  affected: 'AFFECTED',
+  fixed: 'FIXED',
+  under_investigation: 'UNDER_INVESTIGATION',
+};
+
+const CYCLONEDX_STATUS: Record<typeof CYCLONEDX_STATES[number], VexStatus> = {
+  resolved: 'FIXED',
+  resolved_with_pedigree: 'FIXED',
+  exploitable: 'AFFECTED',
+  in_triage: 'UNDER_INVESTIGATION',
+  false_positive: 'NOT_AFFECTED',
+  not_affected: 'NOT_AFFECTED',
+};
+
+function openVexComponentId(component: OpenVexComponent): string | null {
+  if (typeof component === 'string') return component;
+  return component['@id'] ?? component.identifiers?.purl ?? null;
+}
+
+function parseOpenVex(document: unknown): VexParseResult {
+  const parsed = OpenVexSchema.safeParse(document);
+  if (!parsed.success) return { success: false, error: parsed.error.issues[0]?.message || 'Invalid OpenVEX document' };
+  const vex = parsed.data;
+
+  const statements: ParsedVexStatement[] = [];
+  for (const statement of vex.statements) {
+    const vulnerability = typeof statement.vulnerability === 'string'
+      ? { name: statement.vulnerability, aliases: [] }
+      : { name: statement.vulnerability.name ?? statement.vulnerability['@id'], aliases: statement.vulnerability.aliases ?? [] };
+    if (!vulnerability.name) return { success: false, error: 'A statement has no vulnerability name' };
+
+    // Statement-level subcomponents (v0.0.x) apply to every product
+    const shared = (statement.subcomponents ?? []).map(openVexComponentId).filter((id): id is string => !!id);
+    const products = statement.products.flatMap(product => {
+      const id = openVexComponentId(product);
+      if (!id) return [];
+      const own = typeof product === 'string' ? [] : (product.subcomponents ?? []).map(openVexComponentId);
+      return [{ id, subcomponents: [...shared, ...own.filter((sub): sub is string => !!sub)] }];
+    });
+    if (products.length === 0) return { success: false, error: `The statement for ${vulnerability.name} has no product identifiers` };
+
+    statements.push({
+      vulnerabilityId: vulnerability.name.toUpperCase(),
+      aliases: vulnerability.aliases.map(alias => alias.toUpperCase()),
+      products,
+      status: OPENVEX_STATUS[statement.status],
+      justification: statement.justification ?? null,
+      impactStatement: statement.impact_statement ?? null,
+      actionStatement: statement.action_statement ?? null,
+      timestamp: statement.timestamp ?? vex.timestamp ?? null,
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      format: 'OPENVEX',
+      documentId: vex['@id'] ?? null,
+      author: vex.author ?? null,
+      issuedAt: vex.timestamp ?? null,
+      statements,
+    },
+  };
+}
+
+function componentId(component: CycloneDxComponent): string {
+  return component.purl ?? (component.version ? `${component.name}:${component.version}` : component.name);
+}
+
+function parseCycloneDx(document: unknown): VexParseResult {
+  const parsed = CycloneDxSchema.safeParse(document);
+  if (!parsed.success) return { success: false, error: parsed.error.issues[0]?.message || 'Invalid CycloneDX document' };
+  const bom = parsed.data;
+
+  const byRef = new Map<string, CycloneDxComponent>();
+  for (const component of [bom.metadata?.component, ...(bom.components ?? [])]) {
+    if (component?.['bom-ref']) byRef.set(component['bom-ref'], component);
+  }
+  // Refs may be BOM-Links (urn:cdx:serial/version#bom-ref) into another BOM
+  const resolve = (ref: string) => {
+    const bomRef = ref.startsWith('urn:cdx:') && ref.includes('#') ? ref.slice(ref.indexOf('#') + 1) : ref;
+    const component = byRef.get(bomRef);
+    return component ? componentId(component) : bomRef;
+  };
+
+  // A container described by the BOM scopes the package refs to that image
+  const subject = bom.metadata?.component;
+  const imageId = subject && subject.type === 'container' ? componentId(subject) : null;
+
+  const statements: ParsedVexStatement[] = [];
+  for (const vulnerability of bom.vulnerabilities) {
+    const analysis = vulnerability.analysis;
+    // Vulnerabilities without an analysis state are findings, not VEX statements
+    if (!analysis?.state) continue;
+
+    const refs = (vulnerability.affects ?? []).map(affect => resolve(affect.ref));
+    let products: VexProduct[];
+    if (imageId) {
+      const packages = refs.filter(ref => ref !== imageId);
+      products = [{ id: imageId, subcomponents: refs.includes(imageId) ? [] : packages }];
+    } else {
+      products = refs.map(id => ({ id, subcomponents: [] }));
+    }
+    if (products.length === 0) return { success: false, error: `${vulnerability.id} does not reference any affected component` };
+
+    statements.push({
+      vulnerabilityId: vulnerability.id.toUpperCase(),
+      aliases: (vulnerability.references ?? []).map(reference => reference.id.toUpperCase()),
+      products,
+      status: CYCLONEDX_STATUS[analysis.state],
+      justification: analysis.justification ?? null,
+      impactStatement: analysis.detail ?? null,
+      actionStatement: analysis.response?.length ? analysis.response.join(', ') : null,
+      timestamp: analysis.lastUpdated ?? vulnerability.updated ?? bom.metadata?.timestamp ?? null,
+    });
+  }
+  if (statements.length === 0) return { success: false, error: 'No vulnerability in the document has an analysis state' };
+
+  return {
+    success: true,
+    data: {
+      format: 'CYCLONEDX',
+      documentId: bom.serialNumber ?? null,
+      author: bom.metadata?.authors?.find(author => author.name)?.name
+        ?? bom.metadata?.supplier?.name
+        ?? bom.metadata?.manufacture?.name
+        ?? null,
+      issuedAt: bom.metadata?.timestamp ?? null,
+      statements,
+    },
+  };
+}
+
+/**
+ * Parse an OpenVEX document or a CycloneDX BOM carrying VEX analysis.
+ */
+export function parseVexDocument(document: unknown): VexParseResult {
+  if (document && typeof document === 'object') {
+    if ('@context' in document) return parseOpenVex(document);
+    if ('bomFormat' in document) return parseCycloneDx(document);
+  }
+  return { success: false, error: 'Not an OpenVEX or CycloneDX VEX document' };
+}
@@ -0,0 +1,314 @@
+/**
+ * VEX (Vulnerability Exploitability eXchange) statements and how they match
+ * findings.
+ *
+ * A statement says whether products are affected by a vulnerability. Products
+ * are image references (a pkg:oci or pkg:docker URL, or "name:tag") optionally
+ * narrowed to subcomponents, or package URLs that apply wherever the package
+ * is installed. When several statements cover a finding the most recent one
+ * decides; NOT_AFFECTED and FIXED suppress the finding. This module is free of
+ * database access so the API, the evaluators and the UI share it.
+ */
+import type { VexStatus } from '@/generated/prisma';
+
+export const VEX_STATUSES = ['NOT_AFFECTED', 'AFFECTED', 'FIXED', 'UNDER_INVESTIGATION'] as const;
+
+export const VEX_STATUS_LABELS: Record<VexStatus, string> = {
+  NOT_AFFECTED: 'Not affected',
+  AFFECTED: 'Affected',
+  FIXED: 'Fixed',
+  UNDER_INVESTIGATION: 'Under investigation',
+};
+
+export const OPENVEX_JUSTIFICATIONS = [
+  'component_not_present',
+  'vulnerable_code_not_present',
+  'vulnerable_code_not_in_execute_path',
+  'vulnerable_code_cannot_be_controlled_by_adversary',
+  'inline_mitigations_already_exist',
+] as const;
+
+export const CYCLONEDX_JUSTIFICATIONS = [
+  'code_not_present',
+  'code_not_reachable',
+  'requires_configuration',
+  'requires_dependency',
+  'requires_environment',
+  'protected_by_compiler',
+  'protected_at_runtime',
+  'protected_at_perimeter',
+  'protected_by_mitigating_control',
+] as const;
+
+type OpenVexJustification = typeof OPENVEX_JUSTIFICATIONS[number];
+type CycloneDxJustification = typeof CYCLONEDX_JUSTIFICATIONS[number];
+
+const CYCLONEDX_TO_OPENVEX: Record<CycloneDxJustification, OpenVexJustification> = {
+  code_not_present: 'vulnerable_code_not_present',
+  code_not_reachable: 'vulnerable_code_not_in_execute_path',
+  requires_configuration: 'vulnerable_code_cannot_be_controlled_by_adversary',
+  requires_dependency: 'component_not_present',
+  requires_environment: 'vulnerable_code_cannot_be_controlled_by_adversary',
+  protected_by_compiler: 'inline_mitigations_already_exist',
+  protected_at_runtime: 'inline_mitigations_already_exist',
+  protected_at_perimeter: 'inline_mitigations_already_exist',
+  protected_by_mitigating_control: 'inline_mitigations_already_exist',
+};
+
+const OPENVEX_TO_CYCLONEDX: Record<OpenVexJustification, CycloneDxJustification> = {
+  component_not_present: 'code_not_present',
+  vulnerable_code_not_present: 'code_not_present',
+  vulnerable_code_not_in_execute_path: 'code_not_reachable',
+  vulnerable_code_cannot_be_controlled_by_adversary: 'requires_environment',
+  inline_mitigations_already_exist: 'protected_by_mitigating_control',
+};
+
+/** A justification in OpenVEX vocabulary, translating CycloneDX values */
+export function toOpenVexJustification(justification: string | null | undefined): OpenVexJustification | undefined {
+  if (!justification) return undefined;
+  if ((OPENVEX_JUSTIFICATIONS as readonly string[]).includes(justification)) return justification as OpenVexJustification;
+  return CYCLONEDX_TO_OPENVEX[justification as CycloneDxJustification];
+}
+
+/** A justification in CycloneDX vocabulary, translating OpenVEX values */
+export function toCycloneDxJustification(justification: string | null | undefined): CycloneDxJustification | undefined {
+  if (!justification) return undefined;
+  if ((CYCLONEDX_JUSTIFICATIONS as readonly string[]).includes(justification)) return justification as CycloneDxJustification;
+  return OPENVEX_TO_CYCLONEDX[justification as OpenVexJustification];
+}
+
+export interface VexProduct {
+  id: string;
+  // Packages within the product the statement is limited to; empty for the whole product
+  subcomponents: string[];
+}
+
+export interface VexStatementMatcher {
+  vulnerabilityId: string;
+  aliases: string[];
+  products: VexProduct[];
+  status: VexStatus;
+  timestamp: Date | string | null;
+}
+
+export interface VexImage {
+  name: string;
+  tag: string;
+  digest: string;
+  registry?: string | null;
+}
+
+export interface VexFinding {
+  cveId: string;
+  packageName: string;
+  installedVersion?: string | null;
+  aliases?: string[];
+}
+
+/** Product list as stored in the statements' JSON column; malformed entries are dropped */
+export function parseVexProducts(value: unknown): VexProduct[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((product): product is { id: string; subcomponents?: unknown } => typeof product?.id === 'string')
+    .map(product => ({
+      id: product.id,
+      subcomponents: Array.isArray(product.subcomponents)
+        ? product.subcomponents.filter((s): s is string => typeof s === 'string')
+        : [],
+    }));
+}
+
+export interface PackageUrl {
+  type: string;
+  namespace: string | null;
+  name: string;
+  version: string | null;
+  qualifiers: Record<string, string>;
+}
+
+/** Parse a package URL (pkg:type/namespace/name@version?qualifiers#subpath) */
+export function parsePackageUrl(value: string): PackageUrl | null {
+  if (!value.startsWith('pkg:')) return null;
+  let rest = value.slice(4);
+  const hash = rest.indexOf('#');
+  if (hash >= 0) rest = rest.slice(0, hash);
+
+  const qualifiers: Record<string, string> = {};
+  const query = rest.indexOf('?');
+  if (query >= 0) {
+    for (const pair of rest.slice(query + 1).split('&')) {
+      const [key, val = ''] = pair.split('=');
+      if (key) qualifiers[key.toLowerCase()] = safeDecode(val);
+    }
+    rest = rest.slice(0, query);
+  }
+
+  // The version separator comes after the last path segment; npm scopes may contain "@"
+  let version: string | null = null;
+  const at = rest.lastIndexOf('@');
+  if (at > rest.lastIndexOf('/')) {
+    version = safeDecode(rest.slice(at + 1));
+    rest = rest.slice(0, at);
+  }
+
+  const parts = rest.split('/').filter(Boolean).map(safeDecode);
+  if (parts.length < 2) return null;
+  const [type, ...path] = parts;
+  const name = path.pop()!;
+  return { type: type.toLowerCase(), namespace: path.length > 0 ? path.join('/') : null, name, version, qualifiers };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const IMAGE_PURL_TYPES = new Set(['oci', 'docker']);
+
+function normalizeRepository(name: string): string {
+  return name.toLowerCase().replace(/^(index\.)?docker\.io\//, '').replace(/^library\//, '');
+}
+
+function isRegistryHost(segment: string): boolean {
+  return segment.includes('.') || segment.includes(':') || segment === 'localhost';
+}
+
+/**
+ * Whether a repository reference names the image, with or without the
+ * registry host in front.
+ */
+function repositoryMatches(reference: string, image: VexImage): boolean {
+  const ref = normalizeRepository(reference);
+  const name = normalizeRepository(image.name);
+  if (ref === name) return true;
+  if (image.registry && ref === normalizeRepository(`${image.registry}/${image.name}`)) return true;
+  const slash = ref.indexOf('/');
+  return slash > 0 && isRegistryHost(ref.slice(0, slash)) && normalizeRepository(ref.slice(slash + 1)) === name;
+}
+
+/** Whether a product identifier refers to the image (any package in it) */
+export function productMatchesImage(productId: string, image: VexImage): boolean {
+  const purl = parsePackageUrl(productId);
+  if (purl) {
+    if (!IMAGE_PURL_TYPES.has(purl.type)) return false;
+    if (purl.type === 'oci') {
+      const repositoryUrl = purl.qualifiers.repository_url;
+      const repositoryOk = repositoryUrl
+        ? repositoryMatches(repositoryUrl, image)
+        : normalizeRepository(image.name).split('/').pop() === purl.name.toLowerCase();
+      if (!repositoryOk) return false;
+      if (purl.version && purl.version.toLowerCase() !== image.digest.toLowerCase()) return false;
+      return !purl.qualifiers.tag || purl.qualifiers.tag === image.tag;
+    }
+    const repository = purl.namespace ? `${purl.namespace}/${purl.name}` : purl.name;
+    if (!repositoryMatches(repository, image)) return false;
+    if (!purl.version) return true;
+    return purl.version.startsWith('sha256:')
+      ? purl.version.toLowerCase() === image.digest.toLowerCase()
+      : purl.version === image.tag;
+  }
+
+  // Plain references: name, name:tag or name@digest
+  let rest = productId.trim();
+  let digest: string | null = null;
+  let tag: string | null = null;
+  const at = rest.indexOf('@');
+  if (at >= 0) {
+    digest = rest.slice(at + 1);
+    rest = rest.slice(0, at);
+  }
+  const colon = rest.lastIndexOf(':');
+  if (colon > rest.lastIndexOf('/')) {
+    tag = rest.slice(colon + 1);
+    rest = rest.slice(0, colon);
+  }
+  if (!rest || !repositoryMatches(rest, image)) return false;
+  if (digest && digest.toLowerCase() !== image.digest.toLowerCase()) return false;
+  return !tag || tag === image.tag;
+}
+
+/** Whether a product identifier is a package URL, which applies in every image */
+function isPackageProduct(productId: string): boolean {
+  const purl = parsePackageUrl(productId);
+  return !!purl && !IMAGE_PURL_TYPES.has(purl.type);
+}
+
+/** Whether a package reference (package URL or plain name) names the finding's package */
+function packageMatches(reference: string, finding: VexFinding): boolean {
+  const packageName = finding.packageName.toLowerCase();
+  const purl = parsePackageUrl(reference);
+  if (!purl) return reference.trim().toLowerCase() === packageName;
+
+  const names = [purl.name];
+  if (purl.namespace) names.push(`${purl.namespace}/${purl.name}`, `${purl.namespace}:${purl.name}`);
+  if (!names.some(name => name.toLowerCase() === packageName)) return false;
+  return !purl.version || !finding.installedVersion || purl.version === finding.installedVersion;
+}
+
+/**
+ * Whether a statement can cover any finding of the image, i.e. it names the
+ * image or is about packages that may be installed in it.
+ */
+export function vexStatementAppliesTo(statement: Pick<VexStatementMatcher, 'products'>, image: VexImage): boolean {
+  return statement.products.some(product => productMatchesImage(product.id, image) || isPackageProduct(product.id));
+}
+
+/**
+ * Whether a statement covers a finding of the image. The vulnerability matches
+ * the finding's id or any alias on either side.
+ */
+export function vexStatementMatchesFinding(statement: VexStatementMatcher, image: VexImage, finding: VexFinding): boolean {
+  const statementIds = [statement.vulnerabilityId, ...statement.aliases].map(id => id.toUpperCase());
+  const findingIds = [finding.cveId, ...(finding.aliases ?? [])].map(id => id.toUpperCase());
+  if (!findingIds.some(id => statementIds.includes(id))) return false;
+
+  return statement.products.some(product => {
+    if (productMatchesImage(product.id, image)) {
+      return product.subcomponents.length === 0 || product.subcomponents.some(sub => packageMatches(sub, finding));
+    }
+    return isPackageProduct(product.id) && packageMatches(product.id, finding);
+  });
+}
+
+/** The most recent of the statements covering the finding */
+export function findVexStatement<T extends VexStatementMatcher>(statements: T[], image: VexImage, finding: VexFinding): T | undefined {
+  let latest: T | undefined;
+  for (const statement of statements) {
+    if (!vexStatementMatchesFinding(statement, image, finding)) continue;
+    if (!latest || statementTime(statement) >= statementTime(latest)) latest = statement;
+  }
+  return latest;
+}
+
+function statementTime(statement: VexStatementMatcher): number {
+  return statement.timestamp ? new Date(statement.timestamp).getTime() : 0;
+}
+
+export function isSuppressingVexStatus(status: VexStatus): boolean {
+  return status === 'NOT_AFFECTED' || status === 'FIXED';
+}
+
+/** The statement deciding the finding, when it says the image is not affected or the issue is fixed */
+export function findSuppressingVexStatement<T extends VexStatementMatcher>(
+  statements: T[],
+  image: VexImage,
+  finding: VexFinding
+): T | undefined {
+  const statement = findVexStatement(statements, image, finding);
+  return statement && isSuppressingVexStatus(statement.status) ? statement : undefined;
+}
+
+/** e.g. "vulnerable code not in execute path" */
+export function formatVexJustification(justification: string): string {
+  return justification.replace(/_/g, ' ');
+}
+
+/**
+ * Short label for a finding covered by a VEX statement, e.g. "VEX: Not affected (Acme)".
+ */
+export function formatVexLabel(statement: { status: VexStatus; source: string }): string {
+  return `VEX: ${VEX_STATUS_LABELS[statement.status]} (${statement.source})`;
+}
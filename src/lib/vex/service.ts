@@ -0,0 +1,231 @@
+/**
+ * Server-side lookup of imported VEX statements, and the VEX status of an
+ * image's vulnerabilities for export.
+ */
+import type { CveClassification, VexFormat, VexStatus, VulnerabilityException } from '@/generated/prisma';
+import { exceptionAppliesTo, findException } from '@/lib/exceptions/rules';
+import { EXCEPTION_IMAGE_SELECT, getActiveExceptions, toExceptionTarget } from '@/lib/exceptions/service';
+import { prisma } from '@/lib/prisma';
+import { buildAliasMap, findingAliases, getCorrelationKey, parseCorrelationKey } from '@/lib/scanner/FindingCorrelator';
+import { genericPackageUrl, type VexExportEntry } from './export';
+import {
+  findVexStatement,
+  parseVexProducts,
+  vexStatementAppliesTo,
+  type VexImage,
+  type VexStatementMatcher,
+} from './rules';
+
+export interface ImportedVexStatement extends VexStatementMatcher {
+  id: string;
+  documentId: string;
+  justification: string | null;
+  impactStatement: string | null;
+  actionStatement: string | null;
+  timestamp: Date | null;
+  // Of the document the statement was imported from
+  source: string;
+  author: string | null;
+  format: VexFormat;
+}
+
+export const VEX_IMAGE_SELECT = {
+  name: true,
+  tag: true,
+  digest: true,
+  registry: true,
+} as const;
+
+/**
+ * Imported statements that may cover findings of an image, whatever their status.
+ */
+export async function getVexStatements(image: VexImage): Promise<ImportedVexStatement[]> {
+  const statements = await prisma.vexStatement.findMany({
+    include: { document: { select: { source: true, author: true, format: true, issuedAt: true, createdAt: true } } },
+  });
+  return statements
+    .map(({ document, products, ...statement }) => ({
+      ...statement,
+      products: parseVexProducts(products),
+      timestamp: statement.timestamp ?? document.issuedAt ?? document.createdAt,
+      source: document.source,
+      author: document.author,
+      format: document.format,
+    }))
+    .filter(statement => vexStatementAppliesTo(statement, image));
+}
+
+export async function getVexStatementsForImage(imageId: string): Promise<{ image: VexImage | null; statements: ImportedVexStatement[] }> {
+  const image = await prisma.image.findUnique({ where: { id: imageId }, select: VEX_IMAGE_SELECT });
+  return { image, statements: image ? await getVexStatements(image) : [] };
+}
+
+/** Finding fields a VEX statement in API responses and reports shows */
+export function toVexSummary(statement: ImportedVexStatement) {
+  return {
+    id: statement.id,
+    documentId: statement.documentId,
+    status: statement.status,
+    justification: statement.justification,
+    impactStatement: statement.impactStatement,
+    actionStatement: statement.actionStatement,
+    timestamp: statement.timestamp,
+    source: statement.source,
+    author: statement.author,
+    format: statement.format,
+  };
+}
+
+interface Assessment {
+  status: VexStatus;
+  justification: string | null;
+  impactStatement: string | null;
+  actionStatement: string | null;
+}
+
+// How each kind of approved exception reads as a VEX statement
+const EXCEPTION_ASSESSMENTS: Record<VulnerabilityException['justification'], (reason: string) => Assessment> = {
+  FALSE_POSITIVE: reason => ({ status: 'NOT_AFFECTED', justification: 'component_not_present', impactStatement: reason, actionStatement: null }),
+  NOT_AFFECTED: reason => ({ status: 'NOT_AFFECTED', justification: 'vulnerable_code_not_in_execute_path', impactStatement: reason, actionStatement: null }),
+  MITIGATED: reason => ({ status: 'NOT_AFFECTED', justification: 'inline_mitigations_already_exist', impactStatement: reason, actionStatement: null }),
+  RISK_ACCEPTED: reason => ({ status: 'AFFECTED', justification: null, impactStatement: null, actionStatement: `Risk accepted: ${reason}` }),
+  NO_FIX_AVAILABLE: reason => ({ status: 'AFFECTED', justification: null, impactStatement: null, actionStatement: `No fix available: ${reason}` }),
+};
+
+function classificationAssessment(classification: CveClassification): Assessment {
+  return classification.isFalsePositive
+    ? { status: 'NOT_AFFECTED', justification: 'component_not_present', impactStatement: classification.comment, actionStatement: null }
+    : { status: 'AFFECTED', justification: null, impactStatement: null, actionStatement: classification.comment };
+}
+
+// Earlier scans of the image name compared against, to report fixed vulnerabilities
+const FIXED_LOOKBACK_SCANS = 10;
+
+/**
+ * The VEX status of every vulnerability in the latest completed scan of an
+ * image, plus vulnerabilities of earlier scans of the same image name that are
+ * gone (fixed). Decisions are taken, in order, from approved exceptions, CVE
+ * classifications, imported VEX statements and pending exceptions; anything
+ * not triaged is under investigation. Returns null when the image does not exist.
+ */
+export async function getImageVexEntries(imageId: string): Promise<{ image: VexImage; entries: VexExportEntry[] } | null> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: { ...EXCEPTION_IMAGE_SELECT, ...VEX_IMAGE_SELECT },
+  });
+  if (!image) return null;
+
+  const latest = await prisma.scan.findFirst({
+    where: { imageId, status: { in: ['SUCCESS', 'PARTIAL'] } },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true, startedAt: true, finishedAt: true },
+  });
+  if (!latest) return { image, entries: [] };
+
+  const findingSelect = { cveId: true, packageName: true, installedVersion: true, rawFinding: true } as const;
+  const [findings, packages, earlierScans, exceptions, pending, classifications, statements] = await Promise.all([
+    prisma.scanVulnerabilityFinding.findMany({ where: { scanId: latest.id }, select: findingSelect }),
+    prisma.scanPackageFinding.findMany({
+      where: { scanId: latest.id, purl: { not: null } },
+      select: { packageName: true, version: true, purl: true },
+    }),
+    prisma.scan.findMany({
+      where: { image: { name: image.name }, status: { in: ['SUCCESS', 'PARTIAL'] }, startedAt: { lt: latest.startedAt } },
+      orderBy: { startedAt: 'desc' },
+      take: FIXED_LOOKBACK_SCANS,
+      select: { id: true, finishedAt: true, startedAt: true },
+    }),
+    getActiveExceptions(image),
+    prisma.vulnerabilityException.findMany({ where: { status: 'PENDING' } }),
+    prisma.cveClassification.findMany({
+      where: { imageId },
+      include: { imageVulnerability: { select: { vulnerability: { select: { cveId: true } } } } },
+    }),
+    getVexStatements(image),
+  ]);
+
+  const earlierFindings = earlierScans.length > 0
+    ? await prisma.scanVulnerabilityFinding.findMany({
+        where: { scanId: { in: earlierScans.map(scan => scan.id) } },
+        select: findingSelect,
+      })
+    : [];
+
+  const target = toExceptionTarget(image);
+  const pendingExceptions = pending.filter(exception => exceptionAppliesTo(exception, target));
+  const classificationByCve = new Map(
+    classifications.map(classification => [classification.imageVulnerability.vulnerability.cveId.toUpperCase(), classification])
+  );
+  const purlByPackage = new Map(packages.map(pkg => [`${pkg.packageName}|${pkg.version ?? ''}`, pkg.purl!]));
+  const aliasMap = buildAliasMap([...findings, ...earlierFindings]);
+  const scannedAt = latest.finishedAt ?? latest.startedAt;
+
+  // One entry per vulnerability and package, with every advisory id seen for it
+  type Group = { finding: typeof findings[number]; ids: Set<string> };
+  const group = (items: typeof findings) => {
+    const groups = new Map<string, Group>();
+    for (const finding of items) {
+      const key = getCorrelationKey(finding, aliasMap);
+      const entry = groups.get(key) ?? { finding, ids: new Set<string>() };
+      entry.ids.add(finding.cveId.toUpperCase());
+      for (const alias of findingAliases(finding.rawFinding)) entry.ids.add(alias.toUpperCase());
+      groups.set(key, entry);
+    }
+    return groups;
+  };
+  const current = group(findings);
+  const earlier = group(earlierFindings);
+
+  const toEntry = (key: string, { finding, ids }: Group, assessment: Assessment, timestamp: Date): VexExportEntry => {
+    const { vulnerabilityId } = parseCorrelationKey(key);
+    return {
+      vulnerabilityId,
+      aliases: [...ids].filter(id => id !== vulnerabilityId).sort(),
+      packageName: finding.packageName,
+      packageVersion: finding.installedVersion,
+      packageUrl: purlByPackage.get(`${finding.packageName}|${finding.installedVersion ?? ''}`)
+        ?? genericPackageUrl(finding.packageName, finding.installedVersion),
+      ...assessment,
+      timestamp,
+    };
+  };
+
+  const entries: VexExportEntry[] = [];
+  for (const [key, item] of current) {
+    const ids = [...item.ids];
+    const match = { cveId: item.finding.cveId, packageName: item.finding.packageName, installedVersion: item.finding.installedVersion, aliases: ids };
+    const exception = findException(exceptions, match);
+    const classification = ids.map(id => classificationByCve.get(id)).find(Boolean);
+    const statement = findVexStatement(statements, image, match);
+
+    let assessment: Assessment;
+    let timestamp = scannedAt;
+    if (exception) {
+      assessment = EXCEPTION_ASSESSMENTS[exception.justification](exception.reason);
+      timestamp = exception.decidedAt ?? exception.updatedAt;
+    } else if (classification) {
+      assessment = classificationAssessment(classification);
+      timestamp = classification.updatedAt;
+    } else if (statement) {
+      assessment = {
+        status: statement.status,
+        justification: statement.justification,
+        impactStatement: statement.impactStatement,
+        actionStatement: statement.actionStatement,
+      };
+      timestamp = statement.timestamp ?? scannedAt;
+    } else if (findException(pendingExceptions, match)) {
+      assessment = { status: 'UNDER_INVESTIGATION', justification: null, impactStatement: 'Exception requested, awaiting approval', actionStatement: null };
+    } else {
+      assessment = { status: 'UNDER_INVESTIGATION', justification: null, impactStatement: null, actionStatement: null };
+    }
+    entries.push(toEntry(key, item, assessment, timestamp));
+  }
+
+  for (const [key, item] of earlier) {
+    if (current.has(key)) continue;
+    entries.push(toEntry(key, item, { status: 'FIXED', justification: null, impactStatement: null, actionStatement: null }, scannedAt));
+  }
+
+  return { image, entries };
+}
@@ -1,5 +1,22 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { config as appConfig } from '@/lib/config';
+import { logAuditEvent } from '@/lib/audit-logger';
+import { extractBearerToken } from '@/lib/agent/api-keys';
+import {
+  AUTH_HEADERS,
+  getRequiredScope,
+  getRouteAccess,
+  getSessionToken,
+  hasRole,
+  hasScope,
+  hasUsers,
+  isApiToken,
+  setRequestUserHeaders,
+  validateApiToken,
+  validateSession,
+  type AuthUser,
+} from '@/lib/auth';
 
 
 // Define routes that should be logged
@@ -12,7 +29,11 @@ const LOGGED_ROUTES = [
   '/bulk-scan/',
   '/library/',
   '/schedules/',
-  '/templates/'
+  '/templates/',
+  '/policies',
+  '/exceptions',
+  '/tokens',
+  '/users'
 ];
 
 // Define routes that should be excluded from logging
@@ -24,6 +45,9 @@ const EXCLUDED_ROUTES = [
   '/sitemap.xml'
 ];
 
+// Pages reachable without a session
+const PUBLIC_PAGES = ['/login'];
+
 function shouldLogRoute(pathname: string): boolean {
   // Exclude API routes and static assets
   if (EXCLUDED_ROUTES.some(route => pathname.startsWith(route))) {
@@ -61,56 +85,56 @@ function getUserIp(request: NextRequest): string {
   return 'unknown';
 }
 
-async function logPageView(request: NextRequest, pathname: string) {
+function logPageView(request: NextRequest, pathname: string, user: AuthUser | null) {
+  logAuditEvent({
+    eventType: 'page_view',
+    category: 'informative',
+    userIp: getUserIp(request),
+    userAgent: request.headers.get('user-agent') || undefined,
+    userId: user?.id,
+    username: user?.username,
+    resource: pathname,
+    action: 'VIEW',
+    details: { pathname },
+    metadata: {
+      method: request.method,
+      url: request.url,
+      referer: request.headers.get('referer'),
+      timestamp: new Date().toISOString(),
+    }
+  }).catch(error => {
+    console.error('Failed to log page view:', error);
+  });
+}
+
+/**
+ * Authentication is enforced once at least one user account exists. Demo mode
+ * stays open (it is read-only for remote clients anyway).
+ */
+async function isAuthRequired(): Promise<boolean> {
+  if (!appConfig.authEnabled || process.env.NEXT_PUBLIC_DEMO_MODE === 'true') {
+    return false;
+  }
   try {
-    const userIp = getUserIp(request);
-    const userAgent = request.headers.get('user-agent') || '';
-    
-    // Make an API call to log the page view
-    const port = process.env.PORT || '3000';
-    const baseUrl = process.env.HOSTNAME 
-      ? `http://${process.env.HOSTNAME}:${port}`
-      : request.nextUrl.origin;
-    await fetch(`${baseUrl}/api/audit-logs`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        eventType: 'SYSTEM_EVENT',
-        category: 'INFORMATIVE',
-        userIp,
-        userAgent,
-        resource: pathname,
-        action: 'VIEW',
-        details: { pathname },
-        metadata: {
-          method: request.method,
-          url: request.url,
-          referer: request.headers.get('referer'),
-          timestamp: new Date().toISOString(),
-        }
-      }),
-    }).catch(error => {
-      console.error('Failed to log page view:', error);
-    });
+    return await hasUsers();
   } catch (error) {
-    console.error('Failed to log page view:', error);
+    // Fail closed: if the user table cannot be read we cannot tell who is calling
+    console.error('Failed to check user accounts:', error);
+    return true;
   }
 }
 
-export function middleware(request: NextRequest) {
+function isStaticAsset(pathname: string): boolean {
+  return /\.[a-z0-9]+$/i.test(pathname);
+}
+
+export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
   const method = request.method;
-  
-  // Skip audit-logs to avoid infinite loops
-  if (pathname.startsWith('/api/audit-logs')) {
-    return NextResponse.next();
-  }
+  const isApiRoute = pathname.startsWith('/api/');
   
   // Check for demo mode - block all write operations
-  if (process.env.NEXT_PUBLIC_DEMO_MODE === 'true') {
-    const isApiRoute = pathname.startsWith('/api/');
+  if (process.env.NEXT_PUBLIC_DEMO_MODE === 'true' && !pathname.startsWith('/api/audit-logs')) {
     const host = request.headers.get('host');
     const hostname = process.env.HOSTNAME;
     const isLocalhost = host?.includes('localhost') || host?.includes('127.0.0.1');
@@ -129,21 +153,86 @@ export function middleware(request: NextRequest) {
       );
     }
   }
+
+  // Never trust identity headers supplied by the client
+  const requestHeaders = new Headers(request.headers);
+  AUTH_HEADERS.forEach(header => requestHeaders.delete(header));
+
+  let user: AuthUser | null = null;
+  if (await isAuthRequired()) {
+    // API tokens are only accepted on API routes; agent keys (hg_ak_) are left to the agent routes
+    const bearerToken = isApiRoute ? extractBearerToken(request) : null;
+    let tokenScopes: string[] | null = null;
+
+    if (isApiToken(bearerToken)) {
+      try {
+        const tokenAuth = await validateApiToken(bearerToken, getUserIp(request));
+        if (tokenAuth) {
+          user = { ...tokenAuth.user, tokenId: tokenAuth.tokenId };
+          tokenScopes = tokenAuth.scopes;
+        }
+      } catch (error) {
+        console.error('Failed to validate API token:', error);
+      }
+    } else {
+      try {
+        user = await validateSession(getSessionToken(request));
+      } catch (error) {
+        console.error('Failed to validate session:', error);
+      }
+    }
+
+    if (isApiRoute) {
+      const access = getRouteAccess(pathname, method);
+      if (access !== 'public' && access !== 'self') {
+        if (!user) {
+          return NextResponse.json(
+            { error: isApiToken(bearerToken) ? 'Invalid, expired or revoked API token' : 'Authentication required' },
+            { status: 401 }
+          );
+        }
+        if (!hasRole(user.role, access)) {
+          return NextResponse.json(
+            { error: `Insufficient permissions: the ${access.toLowerCase()} role is required` },
+            { status: 403 }
+          );
+        }
+        if (tokenScopes) {
+          const scope = getRequiredScope(pathname, method);
+          if (!hasScope(tokenScopes, scope)) {
+            return NextResponse.json(
+              { error: `Insufficient permissions: the API token is missing the ${scope} scope` },
+              { status: 403 }
+            );
+          }
+        }
+      }
+    } else if (!user && !PUBLIC_PAGES.includes(pathname) && !isStaticAsset(pathname)) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(loginUrl);
+    }
+
+    if (user) {
+      setRequestUserHeaders(requestHeaders, user);
+    }
+  }
   
   // Log page views for relevant routes
   if (shouldLogRoute(pathname)) {
     // Don't await this to avoid slowing down the request
-    logPageView(request, pathname);
+    logPageView(request, pathname, user);
   }
   
-  return NextResponse.next();
+  return NextResponse.next({ request: { headers: requestHeaders } });
 }
 
 export const config = {
+  runtime: 'nodejs',
   matcher: [
     // Match all API routes
     '/api/:path*',
     // Match all pages
     '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
-};
\ No newline at end of file
+};
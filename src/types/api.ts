@@ -9,6 +9,7 @@ export type ScanSource = 'registry' | 'local' | 'tar';
 export interface ScanRequest {
   image: string;
   tag: string;
+  digest?: string; // Pull this manifest digest instead of whatever the tag points at
   registry?: string;
   source?: ScanSource; // 'registry', 'local', or 'tar'
   dockerImageId?: string; // For local Docker images
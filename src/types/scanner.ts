@@ -49,6 +49,7 @@ export interface TrivyReport {
     Vulnerabilities?: Array<{
       VulnerabilityID: string;
       PkgName: string;
+      PkgPath?: string;
       InstalledVersion: string;
       FixedVersion?: string;
       Severity: string;
@@ -58,6 +59,8 @@ export interface TrivyReport {
       References: string[];
       references?: string[];
       publishedDate?: string;
+      PrimaryURL?: string;
+      Layer?: TrivyLayer;
     }>;
     Misconfigurations?: Array<{
       Type: string;
@@ -76,10 +79,17 @@ export interface TrivyReport {
       EndLine: number;
       Code: any;
       Match: string;
+      Layer?: TrivyLayer;
     }>;
   }>;
 }
 
+// Image layer a Trivy finding was found in
+export interface TrivyLayer {
+  Digest?: string;
+  DiffID?: string;
+}
+
 export interface GrypeReport {
   matches: Array<{
     vulnerability: {
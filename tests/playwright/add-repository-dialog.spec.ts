@@ -4,7 +4,7 @@ import { gotoAndWait, safeClick } from "./helpers"
 /**
  * Tests for src/components/dialogs/add-repository-dialog.tsx and the
  * sub-components RegistryTypeSelector + RegistryConfigForm. The dialog
- * has 3 steps (select → configure → test) and 8 registry types with
+ * has 3 steps (select → configure → test) and 12 registry types with
  * type-conditional fields, so the surface area is large.
  *
  * Selector strategy:
@@ -119,7 +119,7 @@ test.describe("Add Repository Dialog - Step 1 (Type Selector)", () => {
     await openDialog(page)
   })
 
-  test("renders all 8 registry type cards", async ({ page }) => {
+  test("renders all 12 registry type cards", async ({ page }) => {
     const expected = [
       "Docker Hub",
       "GitHub Container Registry",
@@ -129,6 +129,10 @@ test.describe("Add Repository Dialog - Step 1 (Type Selector)", () => {
       "Sonatype Nexus3",
       "Azure Container Registry",
       "Google Artifact Registry",
+      "Amazon ECR",
+      "Harbor",
+      "Quay",
+      "JFrog Artifactory",
     ]
     // Use locator count + a DOM-level read so we don't depend on which cards
     // are inside the viewport.
@@ -143,7 +147,7 @@ test.describe("Add Repository Dialog - Step 1 (Type Selector)", () => {
   })
 
   test("Cancel closes the dialog", async ({ page }) => {
-    // With 8 source cards in the type selector + header + footer, the
+    // With 12 source cards in the type selector + header + footer, the
     // dialog is ~1000px tall — the Cancel button falls below the 900px
     // viewport in CI. Playwright's `force: true` doesn't disable the
     // in-viewport check, and scrolling inside a `fixed`-positioned
@@ -365,6 +369,52 @@ test.describe("Add Repository Dialog - GCR type", () => {
   })
 })
 
+test.describe("Add Repository Dialog - ECR type", () => {
+  test("ECR shows access keys, role ARN and API endpoint", async ({ page }) => {
+    await openDialogOn(page, "Amazon ECR")
+
+    await expect(dialogByName(page).locator('[id="registryUrl"]')).toBeVisible()
+    await expect(page.getByLabel("Access Key ID")).toBeVisible()
+    await expect(page.getByLabel("Secret Access Key")).toBeVisible()
+    await expect(page.getByLabel("Role ARN (optional)")).toBeVisible()
+    await expect(page.getByLabel("ECR API Endpoint (optional)")).toBeVisible()
+    // No protocol selector for ECR
+    await expect(dialogByName(page).locator("button[role='combobox']")).toHaveCount(0)
+  })
+})
+
+test.describe("Add Repository Dialog - Harbor type", () => {
+  test("Harbor shows registry URL, robot account fields and project scope", async ({ page }) => {
+    await openDialogOn(page, "Harbor")
+
+    await expect(dialogByName(page).locator('[id="registryUrl"]')).toBeVisible()
+    await expect(dialogByName(page).locator("button[role='combobox']")).toBeVisible()
+    await expect(page.getByLabel("Username or Robot Account")).toBeVisible()
+    await expect(page.getByLabel("Password or Robot Secret")).toBeVisible()
+    await expect(page.getByLabel("Project (optional)")).toBeVisible()
+  })
+})
+
+test.describe("Add Repository Dialog - Quay and Artifactory types", () => {
+  test("Quay prefills quay.io and shows the organization scope", async ({ page }) => {
+    await openDialogOn(page, "Quay")
+
+    await expect(dialogByName(page).locator('[id="registryUrl"]')).toHaveValue("quay.io")
+    await expect(page.getByLabel("Robot Account or Username")).toBeVisible()
+    await expect(page.getByLabel("Robot Token or OAuth Token")).toBeVisible()
+    await expect(page.getByLabel("Organization (optional)")).toBeVisible()
+  })
+
+  test("Artifactory shows the repository key scope", async ({ page }) => {
+    await openDialogOn(page, "JFrog Artifactory")
+
+    await expect(dialogByName(page).locator('[id="registryUrl"]')).toBeVisible()
+    await expect(page.getByLabel("Artifactory Username")).toBeVisible()
+    await expect(page.getByLabel("Password, API Key or Access Token")).toBeVisible()
+    await expect(page.getByLabel("Repository Key (optional)")).toBeVisible()
+  })
+})
+
 test.describe("Add Repository Dialog - Test Connection / Add Repository flow", () => {
   test("Test Connection button disabled until required fields present (DOCKERHUB)", async ({
     page,
@@ -0,0 +1,161 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Agent administration: keys, draining, disabling, job leases and history.
+ * Agents created here never run a sensor and are deleted again.
+ */
+
+test.describe("Agents API", () => {
+  test("validates agent names", async ({ request }) => {
+    expect((await request.post("/api/agents", { data: { name: "  " } })).status()).toBe(400)
+    expect((await request.post("/api/agents", { data: { name: "x".repeat(101) } })).status()).toBe(400)
+    expect((await request.patch("/api/agents/missing", { data: { draining: true } })).status()).toBe(404)
+    expect((await request.post("/api/agents/missing/rotate-key")).status()).toBe(404)
+  })
+
+  test("issues, rotates and revokes keys", async ({ request }) => {
+    const created = await request.post("/api/agents", { data: { name: `e2e-agent-${Date.now()}` } })
+    expect(created.status()).toBe(201)
+    const agent = await created.json()
+    expect(agent.apiKey).toMatch(/^hg_ak_/)
+    const heartbeat = (key: string) =>
+      request.post("/api/agent/heartbeat", { headers: { Authorization: `Bearer ${key}` }, data: {} })
+
+    try {
+      expect((await heartbeat(agent.apiKey)).status()).toBe(200)
+
+      const rotated = await request.post(`/api/agents/${agent.id}/rotate-key`)
+      expect(rotated.status()).toBe(200)
+      const { apiKey } = await rotated.json()
+      expect(apiKey).not.toBe(agent.apiKey)
+      expect((await heartbeat(agent.apiKey)).status()).toBe(401)
+      expect((await heartbeat(apiKey)).status()).toBe(200)
+
+      const listed = (await (await request.get("/api/agents")).json()).find((a: any) => a.id === agent.id)
+      expect(listed.apiKeyHash).toBeUndefined()
+      expect(listed.keyRotatedAt).toBeTruthy()
+
+      const disabled = await request.patch(`/api/agents/${agent.id}`, { data: { enabled: false } })
+      expect((await disabled.json()).status).toBe("INACTIVE")
+      expect((await heartbeat(apiKey)).status()).toBe(401)
+
+      const enabled = await request.patch(`/api/agents/${agent.id}`, { data: { enabled: true } })
+      expect((await enabled.json()).status).toBe("DISCONNECTED")
+      expect((await heartbeat(apiKey)).status()).toBe(200)
+    } finally {
+      expect((await request.delete(`/api/agents/${agent.id}`)).status()).toBe(200)
+    }
+    expect((await request.delete(`/api/agents/${agent.id}`)).status()).toBe(404)
+  })
+
+  test("hands no jobs to draining agents", async ({ request }) => {
+    const created = await request.post("/api/agents", { data: { name: `e2e-drain-${Date.now()}` } })
+    const agent = await created.json()
+
+    try {
+      const drained = await request.patch(`/api/agents/${agent.id}`, { data: { draining: true, name: "e2e-drained" } })
+      expect(drained.status()).toBe(200)
+      expect(await drained.json()).toMatchObject({ draining: true, name: "e2e-drained" })
+
+      const poll = await request.get("/api/agent/jobs", { headers: { Authorization: `Bearer ${agent.apiKey}` } })
+      expect(poll.status()).toBe(200)
+      expect(await poll.json()).toMatchObject({ jobs: [], leaseSeconds: expect.any(Number) })
+
+      const history = await request.get(`/api/agents/${agent.id}/jobs`)
+      expect(history.status()).toBe(200)
+      expect(await history.json()).toMatchObject({
+        jobs: [],
+        total: 0,
+        stats: { total: 0, completed: 0, failed: 0, failureRate: null },
+      })
+      expect((await request.get(`/api/agents/${agent.id}/jobs?status=LOST`)).status()).toBe(400)
+      expect((await request.get(`/api/agents/${agent.id}/jobs?limit=0`)).status()).toBe(400)
+    } finally {
+      await request.delete(`/api/agents/${agent.id}`)
+    }
+  })
+
+  test("renews leases with heartbeats and status updates", async ({ request }) => {
+    const agent = await (await request.post("/api/agents", { data: { name: `e2e-lease-${Date.now()}` } })).json()
+    const headers = { Authorization: `Bearer ${agent.apiKey}` }
+
+    try {
+      const heartbeat = await request.post("/api/agent/heartbeat", { headers, data: {} })
+      expect(await heartbeat.json()).toEqual({ ok: true, renewedJobs: 0 })
+
+      const invalid = await request.post("/api/agent/jobs/missing/status", { headers, data: { status: "paused" } })
+      expect(invalid.status()).toBe(400)
+      const missing = await request.post("/api/agent/jobs/missing/status", { headers, data: { status: "running" } })
+      expect(missing.status()).toBe(404)
+    } finally {
+      await request.delete(`/api/agents/${agent.id}`)
+    }
+  })
+})
+
+test.describe("Agents page", () => {
+  test("shows agents with their failure rate and job attempts", async ({ page }) => {
+    await page.route("**/api/agents", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify([{
+          id: "a1",
+          name: "build-cluster-sensor",
+          status: "ACTIVE",
+          lastSeenAt: new Date().toISOString(),
+          registeredAt: new Date().toISOString(),
+          hostname: "sensor-0",
+          os: "linux",
+          arch: "amd64",
+          sensorVersion: "1.4.0",
+          scannerVersions: { trivy: "0.58.1" },
+          capabilities: ["scan", "patch"],
+          draining: true,
+          keyRotatedAt: null,
+          metadata: { activeScans: 1 },
+          jobStats: { total: 5, completed: 3, failed: 0, expired: 1, failureRate: 0.25 },
+        }]),
+      })
+    })
+    await page.route("**/api/agents/a1/jobs**", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          jobs: [{
+            id: "j1",
+            type: "SCAN",
+            status: "FAILED",
+            createdAt: new Date().toISOString(),
+            assignedAt: null,
+            completedAt: null,
+            errorMessage: "Lease expired after 300s without a heartbeat or status update on attempt 3 of 3",
+            attempts: 3,
+            leaseExpiresAt: null,
+            attemptLog: [
+              { attempt: 1, outcome: "RELEASED", assignedAt: new Date().toISOString(), endedAt: new Date().toISOString(), errorMessage: null },
+              { attempt: 3, outcome: "EXPIRED", assignedAt: new Date().toISOString(), endedAt: new Date().toISOString(), errorMessage: "Lease expired" },
+            ],
+            scan: { id: "s1", status: "FAILED", image: { name: "nginx", tag: "1.27" } },
+          }],
+          total: 1,
+          maxAttempts: 3,
+          stats: { total: 5, completed: 3, failed: 0, expired: 1, failureRate: 0.25 },
+        }),
+      })
+    })
+
+    await gotoAndWait(page, "/agents")
+    await expect(page.getByText("build-cluster-sensor").first()).toBeVisible({ timeout: 20_000 })
+    await expect(page.getByText("25% failed").first()).toBeVisible()
+    await expect(page.getByText("Draining").first()).toBeVisible()
+
+    await page.getByRole("button", { name: /job history/i }).first().click()
+    await expect(page.getByText(/attempt 3 of 3/)).toBeVisible()
+    await expect(page.getByText("nginx:1.27")).toBeVisible()
+    await expect(page.getByText(/Attempt 3: lease expired/)).toBeVisible()
+    await expect(page.getByText("3 of 3")).toBeVisible()
+  })
+})
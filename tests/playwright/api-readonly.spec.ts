@@ -45,6 +45,16 @@ test.describe("API read-only endpoints", () => {
     expectArrayShape(body)
   })
 
+  test("GET /api/repositories never exposes registry credentials", async ({ request }) => {
+    const res = await request.get("/api/repositories")
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    for (const repository of body.data) {
+      expect(repository).not.toHaveProperty("encryptedPassword")
+      expect(repository).not.toHaveProperty("password")
+    }
+  })
+
   test("GET /api/vulnerabilities returns { vulnerabilities: [] }", async ({ request }) => {
     const res = await request.get("/api/vulnerabilities?limit=10")
     expect(res.status()).toBe(200)
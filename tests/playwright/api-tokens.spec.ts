@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * API token endpoints. Like the auth spec these never create a user, so the
+ * instance stays in setup mode where tokens cannot be issued yet.
+ */
+test.describe("API Tokens API", () => {
+  test("GET /api/tokens returns a token list", async ({ request }) => {
+    const res = await request.get("/api/tokens")
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(Array.isArray(body.tokens)).toBe(true)
+  })
+
+  test("POST /api/tokens without a user account returns 400", async ({ request }) => {
+    const res = await request.post("/api/tokens", {
+      data: { name: "ci", scopes: ["scans:read"] },
+    })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/user account/i)
+  })
+
+  test("DELETE /api/tokens/[id] for an unknown token returns 404", async ({ request }) => {
+    const res = await request.delete("/api/tokens/does-not-exist")
+    expect(res.status()).toBe(404)
+  })
+
+  test("POST /api/users refuses a service account before any admin exists", async ({ request }) => {
+    const res = await request.post("/api/users", {
+      data: { username: "ci-bot", serviceAccount: true },
+    })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/admin account/i)
+  })
+
+  test("forged token id headers are ignored", async ({ request }) => {
+    const res = await request.get("/api/tokens", {
+      headers: {
+        "x-harborguard-user-id": "forged",
+        "x-harborguard-username": "mallory",
+        "x-harborguard-user-role": "ADMIN",
+        "x-harborguard-api-token-id": "forged",
+      },
+    })
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body.tokens).toEqual([])
+  })
+})
+
+test.describe("API Tokens page", () => {
+  test("renders the token list", async ({ page }) => {
+    await gotoAndWait(page, "/tokens")
+    await expect(page.getByRole("heading", { name: "API Tokens" })).toBeVisible()
+    await expect(page.getByRole("button", { name: /create token/i })).toBeVisible()
+  })
+})
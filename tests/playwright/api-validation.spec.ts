@@ -55,6 +55,25 @@ test.describe("API input validation", () => {
     expect(body).toHaveProperty("error")
   })
 
+  test("POST /api/scheduled-scans with an invalid cron expression returns 400", async ({ request }) => {
+    // Cron validation runs before any image lookup, so nothing is persisted.
+    const res = await request.post("/api/scheduled-scans", {
+      data: { name: "bad-cron", imageSelectionMode: "ALL", schedule: "61 * * * *" },
+    })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/cron/i)
+  })
+
+  test("POST /api/scheduled-scans with an invalid image pattern returns 400", async ({ request }) => {
+    const res = await request.post("/api/scheduled-scans", {
+      data: { name: "bad-pattern", imageSelectionMode: "PATTERN", imagePattern: "nginx:(" },
+    })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/image pattern/i)
+  })
+
   test("DELETE /api/scans/cancel/bogus-id returns 4xx", async ({ request }) => {
     // The cancel route only exposes POST. Calling DELETE on the route
     // should yield a method-not-allowed / not-found 4xx, never a 200.
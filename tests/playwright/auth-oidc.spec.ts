@@ -0,0 +1,97 @@
+import { test, expect } from "@playwright/test"
+import { startMockOidcIssuer, type MockOidcIssuer } from "./mock-oidc-issuer"
+
+/**
+ * OIDC single sign-on against a local mock issuer. The mock user belongs to
+ * no mapped group and there is no default role, so every login is denied:
+ * that exercises discovery, PKCE, token exchange and ID token verification
+ * without provisioning a user (which would end setup mode for other specs).
+ */
+test.describe("OIDC single sign-on", () => {
+  test.describe.configure({ mode: "serial" })
+
+  let issuer: MockOidcIssuer
+
+  test.beforeAll(async ({ request }) => {
+    issuer = await startMockOidcIssuer()
+    const res = await request.put("/api/settings/oidc", {
+      data: {
+        enabled: true,
+        issuer: issuer.issuer,
+        clientId: issuer.clientId,
+        roleMappings: [{ group: "hg-admins", role: "ADMIN" }],
+        defaultRole: null,
+        autoProvision: true,
+      },
+    })
+    expect(res.status()).toBe(200)
+  })
+
+  test.afterAll(async ({ request }) => {
+    await request.put("/api/settings/oidc", {
+      data: { enabled: false, issuer: "", clientId: "", roleMappings: [] },
+    })
+    await issuer?.close()
+  })
+
+  test("settings never return the client secret", async ({ request }) => {
+    const put = await request.put("/api/settings/oidc", { data: { clientSecret: "s3cret-value" } })
+    expect(put.status()).toBe(200)
+    const body = await put.json()
+    expect(body.clientSecretSet).toBe(true)
+    expect(JSON.stringify(body)).not.toContain("s3cret-value")
+
+    const general = await request.get("/api/settings")
+    expect(JSON.stringify(await general.json())).not.toContain("s3cret-value")
+
+    await request.put("/api/settings/oidc", { data: { clientSecret: "" } })
+  })
+
+  test("rejects enabling without an issuer", async ({ request }) => {
+    const res = await request.put("/api/settings/oidc", {
+      data: { enabled: true, issuer: "not a url" },
+    })
+    expect(res.status()).toBe(400)
+  })
+
+  test("session reports SSO as available", async ({ request }) => {
+    const res = await request.get("/api/auth/session")
+    const body = await res.json()
+    expect(body.ssoEnabled).toBe(true)
+  })
+
+  test("login redirects to the provider with PKCE parameters", async ({ request }) => {
+    const res = await request.get("/api/auth/oidc/login?next=/images", { maxRedirects: 0 })
+    expect([302, 303, 307]).toContain(res.status())
+    const location = new URL(res.headers()["location"])
+    expect(`${location.origin}${location.pathname}`).toBe(`${issuer.issuer}/authorize`)
+    expect(location.searchParams.get("response_type")).toBe("code")
+    expect(location.searchParams.get("client_id")).toBe(issuer.clientId)
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256")
+    expect(location.searchParams.get("code_challenge")).toBeTruthy()
+    expect(location.searchParams.get("state")).toBeTruthy()
+    expect(location.searchParams.get("nonce")).toBeTruthy()
+    expect(location.searchParams.get("redirect_uri")).toMatch(/\/api\/auth\/oidc\/callback$/)
+  })
+
+  test("callback with a foreign state is rejected", async ({ request }) => {
+    const res = await request.get("/api/auth/oidc/callback?code=abc&state=forged", { maxRedirects: 0 })
+    const location = new URL(res.headers()["location"])
+    expect(location.pathname).toBe("/login")
+    expect(location.searchParams.get("error")).toMatch(/try again/i)
+  })
+
+  test("a user without a mapped group is denied after a verified login", async ({ request }) => {
+    const start = await request.get("/api/auth/oidc/login", { maxRedirects: 0 })
+    const authorize = await request.get(start.headers()["location"], { maxRedirects: 0 })
+    expect(authorize.status()).toBe(302)
+
+    const callback = await request.get(authorize.headers()["location"], { maxRedirects: 0 })
+    const location = new URL(callback.headers()["location"])
+    expect(location.pathname).toBe("/login")
+    expect(location.searchParams.get("error")).toMatch(/not permitted/i)
+
+    const session = await (await request.get("/api/auth/session")).json()
+    expect(session.user).toBeNull()
+  })
+})
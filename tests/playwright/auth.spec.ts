@@ -0,0 +1,67 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Authentication endpoints and login page. These tests never create a user:
+ * the first account switches the instance out of setup mode and would lock
+ * every other spec out of the API.
+ */
+test.describe("Auth API", () => {
+  test("GET /api/auth/session reports the auth state", async ({ request }) => {
+    const res = await request.get("/api/auth/session")
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(typeof body.authEnabled).toBe("boolean")
+    expect(typeof body.setupRequired).toBe("boolean")
+    expect(body).toHaveProperty("user")
+  })
+
+  test("POST /api/auth/login with empty body returns 400", async ({ request }) => {
+    const res = await request.post("/api/auth/login", { data: {} })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body).toHaveProperty("error")
+  })
+
+  test("POST /api/auth/login with unknown credentials returns 401", async ({ request }) => {
+    const res = await request.post("/api/auth/login", {
+      data: { username: "no-such-user", password: "definitely-wrong" },
+    })
+    expect(res.status()).toBe(401)
+    const body = await res.json()
+    expect(body.error).toMatch(/invalid username or password/i)
+  })
+
+  test("POST /api/auth/setup rejects a short password", async ({ request }) => {
+    const res = await request.post("/api/auth/setup", {
+      data: { username: "admin", password: "short" },
+    })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/at least 8 characters/i)
+  })
+
+  test("identity headers supplied by the client are ignored", async ({ request }) => {
+    const res = await request.get("/api/auth/session", {
+      headers: {
+        "x-harborguard-user-id": "forged",
+        "x-harborguard-username": "forged",
+        "x-harborguard-user-role": "ADMIN",
+      },
+    })
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body.user).toBeNull()
+  })
+})
+
+test.describe("Login page", () => {
+  test("renders the sign-in or first-admin form", async ({ page }) => {
+    await gotoAndWait(page, "/login")
+    await expect(page.locator("#username")).toBeVisible({ timeout: 20_000 })
+    await expect(page.locator("#password")).toBeVisible()
+    await expect(
+      page.getByRole("button", { name: /sign in|create admin/i })
+    ).toBeVisible()
+  })
+})
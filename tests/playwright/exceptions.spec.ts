@@ -0,0 +1,110 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+// Matches no real finding, so approving it never changes the verdict of other scans
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+const globalException = {
+  scope: "GLOBAL",
+  cveId: "CVE-1999-0000",
+  packageName: "playwright-test-package",
+  justification: "RISK_ACCEPTED",
+  reason: "Playwright: accepted for testing",
+}
+
+test.describe("Vulnerability Exceptions API", () => {
+  test("GET /api/exceptions returns an exception list", async ({ request }) => {
+    const res = await request.get("/api/exceptions")
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(Array.isArray(body.exceptions)).toBe(true)
+  })
+
+  test("GET /api/exceptions rejects an unknown status filter", async ({ request }) => {
+    const res = await request.get("/api/exceptions?status=bogus")
+    expect(res.status()).toBe(400)
+  })
+
+  test("POST /api/exceptions validates the match, scope and expiry", async ({ request }) => {
+    const noMatch = await request.post("/api/exceptions", {
+      data: { ...globalException, cveId: null, packageName: null },
+    })
+    expect(noMatch.status()).toBe(400)
+    expect((await noMatch.json()).error).toMatch(/cve, a package or both/i)
+
+    const noReason = await request.post("/api/exceptions", { data: { ...globalException, reason: " " } })
+    expect(noReason.status()).toBe(400)
+
+    const noImage = await request.post("/api/exceptions", { data: { ...globalException, scope: "IMAGE" } })
+    expect(noImage.status()).toBe(400)
+
+    const badPattern = await request.post("/api/exceptions", {
+      data: { ...globalException, scope: "IMAGE_PATTERN", imagePattern: "(" },
+    })
+    expect(badPattern.status()).toBe(400)
+    expect((await badPattern.json()).error).toMatch(/invalid image pattern/i)
+
+    const expired = await request.post("/api/exceptions", { data: { ...globalException, expiresAt: inDays(-1) } })
+    expect(expired.status()).toBe(400)
+    expect((await expired.json()).error).toMatch(/future/i)
+
+    const unknownImage = await request.post("/api/exceptions", {
+      data: { ...globalException, scope: "IMAGE", imageId: "does-not-exist" },
+    })
+    expect(unknownImage.status()).toBe(404)
+  })
+
+  test("exceptions are requested, approved, edited and deleted", async ({ request }) => {
+    const created = await request.post("/api/exceptions", { data: { ...globalException, expiresAt: inDays(30) } })
+    expect(created.status()).toBe(201)
+    const exception = await created.json()
+    expect(exception.status).toBe("PENDING")
+    expect(exception.cveId).toBe("CVE-1999-0000")
+
+    try {
+      const approved = await request.post(`/api/exceptions/${exception.id}/decision`, {
+        data: { decision: "APPROVED", comment: "Looks fine" },
+      })
+      expect(approved.status()).toBe(200)
+      const body = await approved.json()
+      expect(body.status).toBe("APPROVED")
+      expect(body.decisionComment).toBe("Looks fine")
+      expect(body.decidedAt).toBeTruthy()
+
+      const again = await request.post(`/api/exceptions/${exception.id}/decision`, { data: { decision: "REJECTED" } })
+      expect(again.status()).toBe(409)
+
+      const approvedList = await request.get("/api/exceptions?status=APPROVED")
+      const ids = (await approvedList.json()).exceptions.map((e: { id: string }) => e.id)
+      expect(ids).toContain(exception.id)
+
+      // Any change sends the exception back for approval
+      const updated = await request.put(`/api/exceptions/${exception.id}`, {
+        data: { ...globalException, justification: "MITIGATED", expiresAt: inDays(60) },
+      })
+      expect(updated.status()).toBe(200)
+      const edited = await updated.json()
+      expect(edited.status).toBe("PENDING")
+      expect(edited.justification).toBe("MITIGATED")
+      expect(edited.approvedBy).toBeNull()
+    } finally {
+      const deleted = await request.delete(`/api/exceptions/${exception.id}`)
+      expect(deleted.status()).toBe(200)
+    }
+
+    const gone = await request.get(`/api/exceptions/${exception.id}`)
+    expect(gone.status()).toBe(404)
+  })
+
+  test("POST /api/exceptions/[id]/decision for an unknown exception returns 404", async ({ request }) => {
+    const res = await request.post("/api/exceptions/does-not-exist/decision", { data: { decision: "APPROVED" } })
+    expect(res.status()).toBe(404)
+  })
+})
+
+test.describe("Vulnerability Exceptions page", () => {
+  test("renders the exception list", async ({ page }) => {
+    await gotoAndWait(page, "/exceptions")
+    await expect(page.getByRole("heading", { name: "Vulnerability Exceptions" })).toBeVisible()
+    await expect(page.getByRole("button", { name: /request exception/i })).toBeVisible()
+  })
+})
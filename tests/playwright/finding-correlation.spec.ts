@@ -0,0 +1,48 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * Cross-scanner correlation of vulnerability findings. Reads existing scans
+ * only; the checks hold for any scan, with or without stored correlations.
+ */
+test.describe("Finding correlation API", () => {
+  async function findCompletedScan(request: import("@playwright/test").APIRequestContext) {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    return (list.scans ?? []).find((s: any) => s.status === "SUCCESS" || s.status === "PARTIAL")
+  }
+
+  test("GET /api/scans/[id]/findings returns de-duplicated vulnerability totals", async ({ request }) => {
+    const scan = await findCompletedScan(request)
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/scans/${scan.id}/findings?type=vulnerabilities`)
+    expect(res.status()).toBe(200)
+    const { vulnerabilities } = await res.json()
+
+    expect(vulnerabilities.unique.total).toBeLessThanOrEqual(vulnerabilities.total)
+    expect(vulnerabilities.unique.scannerCount).toBeGreaterThanOrEqual(1)
+    for (const finding of vulnerabilities.findings) {
+      expect(finding.correlationKey).toContain("|")
+      if (finding.correlation) {
+        expect(finding.correlation.sources).toContain(finding.source)
+        expect(finding.correlation.sourceCount).toBeLessThanOrEqual(finding.correlation.scannerCount)
+        expect(finding.correlation.confidenceScore).toBeGreaterThan(0)
+        expect(finding.correlation.confidenceScore).toBeLessThanOrEqual(1)
+      }
+    }
+  })
+
+  test("GET /api/scans/[id]/findings/vulnerabilities?grouped=true groups findings by correlation", async ({ request }) => {
+    const scan = await findCompletedScan(request)
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/scans/${scan.id}/findings/vulnerabilities?grouped=true`)
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body.grouped).toBe(true)
+    for (const group of body.vulnerabilities) {
+      expect(group.sourceCount).toBe(group.sources.length)
+      const sources = new Set(group.findings.map((f: any) => f.source.toLowerCase()))
+      expect(sources.size).toBe(group.sourceCount)
+    }
+  })
+})
@@ -281,4 +281,51 @@ test.describe("Image Detail Page", () => {
       timeout: 10_000,
     })
   })
+
+  test("Compare Scans opens a diff of the latest scan against the previous one", async ({ page }) => {
+    const imageName = "library/nginx"
+    const image = makeImage({ id: "img-diff", name: imageName })
+    const older = makeScan({ id: "scan-old", imageId: "img-diff", tag: "1.26", startedAt: "2026-01-01T00:00:00.000Z" })
+    const newer = makeScan({ id: "scan-new", imageId: "img-diff", tag: "1.27", startedAt: "2026-02-01T00:00:00.000Z" })
+    await mockImagesDetail(page, { imageName, images: [image], scans: [older, newer] })
+
+    let requested: URL | null = null
+    await page.route("**/api/scans/diff?**", (route) => {
+      requested = new URL(route.request().url())
+      const counts = { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0, INFO: 0 }
+      return route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          base: { scanId: "scan-old", tag: "1.26" },
+          head: { scanId: "scan-new", tag: "1.27" },
+          summary: {
+            vulnerabilities: { introduced: 1, fixed: 2, unchanged: 5 },
+            introducedBySeverity: { ...counts, HIGH: 1 },
+            fixedBySeverity: { ...counts, LOW: 2 },
+            packages: { added: 0, removed: 0, upgraded: 1, downgraded: 0, unchanged: 40 },
+            compliance: { introduced: 0, resolved: 0, unchanged: 3 },
+            layers: null,
+          },
+          vulnerabilities: {
+            introduced: [{ cveId: "CVE-2026-1111", packageName: "zlib", installedVersion: "1.3", fixedVersion: "1.3.1", severity: "HIGH", cvssScore: 7.5, sources: ["trivy"] }],
+            fixed: [],
+            unchanged: [],
+          },
+          packages: { added: [], removed: [], upgraded: [{ name: "openssl", type: "apk", fromVersion: "3.0.1", toVersion: "3.0.2" }], downgraded: [] },
+          compliance: { introduced: [], resolved: [] },
+          layers: null,
+        }),
+      })
+    })
+
+    await gotoAndWait(page, `/images/${encodeURIComponent(imageName)}`)
+    await page.getByRole("button", { name: /compare scans/i }).click()
+
+    await expect(page.getByRole("dialog").getByText("CVE-2026-1111")).toBeVisible({ timeout: 10_000 })
+    expect(requested!.searchParams.get("base")).toBe("scan-old")
+    expect(requested!.searchParams.get("head")).toBe("scan-new")
+    await expect(page.getByRole("tab", { name: /fixed \(2\)/i })).toBeVisible()
+    await expect(page.getByRole("link", { name: /markdown/i })).toHaveAttribute("href", /format=markdown&download=true/)
+  })
 })
@@ -0,0 +1,104 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+/**
+ * Minimal JFrog Artifactory for exercising the Artifactory provider locally.
+ *
+ * Serves the repositories API and the Docker API of each repository under
+ * `/artifactory/api`, behind Basic credentials. Virtual repositories list
+ * the images of the repositories they aggregate. Docker lists follow the
+ * registry's `n`/`last` pagination.
+ */
+export interface MockArtifactoryRepository {
+  key: string
+  rclass: "local" | "remote" | "virtual" | "federated"
+  packageType?: string
+  /** Images with their tags; for virtual repositories, the aggregated keys go in `repositories` */
+  images?: Record<string, string[]>
+  repositories?: string[]
+}
+
+export interface MockArtifactory {
+  endpoint: string
+  /** Request paths received, in order, without the query string */
+  calls: string[]
+  close(): Promise<void>
+}
+
+export async function startMockArtifactory(options: {
+  username?: string
+  password?: string
+  repositories?: MockArtifactoryRepository[]
+} = {}): Promise<MockArtifactory> {
+  const credentials = `${options.username ?? "admin"}:${options.password ?? "password"}`
+  const repositories = options.repositories ?? []
+  const calls: string[] = []
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(body))
+  }
+  const sendError = (res: http.ServerResponse, status: number, message: string) =>
+    sendJson(res, status, { errors: [{ status, message }] })
+
+  const imagesOf = (repo: MockArtifactoryRepository): Record<string, string[]> =>
+    repo.rclass === "virtual"
+      ? Object.assign({}, ...repositories.filter((r) => repo.repositories?.includes(r.key)).map(imagesOf))
+      : repo.images ?? {}
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    calls.push(url.pathname)
+
+    if (Buffer.from((req.headers.authorization || "").replace(/^Basic /, ""), "base64").toString() !== credentials) {
+      return sendError(res, 401, "Bad credentials")
+    }
+
+    const path = url.pathname.replace(/^\/artifactory\/api/, "")
+    if (path === "/system/version") {
+      return sendJson(res, 200, { version: "7.90.0" })
+    }
+    if (path === "/repositories") {
+      const packageType = url.searchParams.get("packageType")
+      return sendJson(res, 200, repositories
+        .filter((repo) => !packageType || (repo.packageType ?? "docker") === packageType)
+        .map((repo) => ({ key: repo.key, type: repo.rclass.toUpperCase(), packageType: repo.packageType ?? "Docker" })))
+    }
+
+    const repoMatch = path.match(/^\/repositories\/([^/]+)$/)
+    if (repoMatch) {
+      const repo = repositories.find((r) => r.key === decodeURIComponent(repoMatch[1]))
+      if (!repo) return sendError(res, 400, "Bad Request")
+      return sendJson(res, 200, { key: repo.key, rclass: repo.rclass, packageType: repo.packageType ?? "docker", repositories: repo.repositories })
+    }
+
+    const dockerMatch = path.match(/^\/docker\/([^/]+)\/v2\/(.+)$/)
+    const repo = dockerMatch && repositories.find((r) => r.key === decodeURIComponent(dockerMatch[1]))
+    if (!dockerMatch || !repo) {
+      return sendError(res, 404, `${path} not found`)
+    }
+
+    const images = imagesOf(repo)
+    const n = Number(url.searchParams.get("n") || 100)
+    const page = (items: string[]) => {
+      const last = url.searchParams.get("last")
+      const start = last ? items.indexOf(last) + 1 : 0
+      return items.slice(start, start + n)
+    }
+    if (dockerMatch[2] === "_catalog") {
+      return sendJson(res, 200, { repositories: page(Object.keys(images).sort()) })
+    }
+    const name = dockerMatch[2].replace(/\/tags\/list$/, "")
+    if (!images[name]) return sendError(res, 404, `${name} not found`)
+    return sendJson(res, 200, { name, tags: page(images[name]) })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    endpoint,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,116 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+/**
+ * Minimal Amazon ECR API for exercising the ECR provider locally.
+ *
+ * Requests must carry a SigV4 Authorization header for the configured access
+ * key and the ecr service; the signature itself is not verified. Repository
+ * and image listings are paginated one page per `pageSize` items so callers
+ * have to follow nextToken.
+ */
+export interface MockEcrImage {
+  repositoryName: string
+  tags: string[]
+  digest: string
+  findings?: Array<{ name: string; severity: string; description?: string }>
+}
+
+export interface MockEcr {
+  endpoint: string
+  accessKeyId: string
+  /** Actions received, in order */
+  calls: string[]
+  close(): Promise<void>
+}
+
+export async function startMockEcr(options: {
+  accessKeyId?: string
+  repositories?: string[]
+  images?: MockEcrImage[]
+  pageSize?: number
+} = {}): Promise<MockEcr> {
+  const accessKeyId = options.accessKeyId ?? "AKIAMOCKECR000000000"
+  const repositories = options.repositories ?? []
+  const images = options.images ?? []
+  const pageSize = options.pageSize ?? 2
+  const calls: string[] = []
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/x-amz-json-1.1" })
+    res.end(JSON.stringify(body))
+  }
+
+  const page = <T>(items: T[], nextToken?: string) => {
+    const start = Number(nextToken || 0)
+    const next = start + pageSize < items.length ? String(start + pageSize) : undefined
+    return { items: items.slice(start, start + pageSize), nextToken: next }
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = ""
+    req.on("data", (chunk) => (raw += chunk))
+    req.on("end", () => {
+      const authorization = req.headers.authorization || ""
+      if (!authorization.startsWith(`AWS4-HMAC-SHA256 Credential=${accessKeyId}/`) || !authorization.includes("/ecr/aws4_request")) {
+        return sendJson(res, 400, {
+          __type: "UnrecognizedClientException",
+          message: "The security token included in the request is invalid.",
+        })
+      }
+
+      const action = String(req.headers["x-amz-target"] || "").split(".").pop() || ""
+      const body = raw ? JSON.parse(raw) : {}
+      calls.push(action)
+
+      switch (action) {
+        case "GetAuthorizationToken":
+          return sendJson(res, 200, {
+            authorizationData: [{
+              authorizationToken: Buffer.from("AWS:mock-registry-password").toString("base64"),
+              expiresAt: Date.now() / 1000 + 12 * 3600,
+              proxyEndpoint: "https://123456789012.dkr.ecr.us-east-1.amazonaws.com",
+            }],
+          })
+        case "DescribeRepositories": {
+          const { items, nextToken } = page(repositories, body.nextToken)
+          return sendJson(res, 200, {
+            repositories: items.map((repositoryName) => ({ repositoryName, createdAt: 1_700_000_000 })),
+            nextToken,
+          })
+        }
+        case "DescribeImages": {
+          const { items, nextToken } = page(images.filter((image) => image.repositoryName === body.repositoryName), body.nextToken)
+          return sendJson(res, 200, {
+            imageDetails: items.map((image) => ({
+              imageDigest: image.digest,
+              imageTags: image.tags,
+              imagePushedAt: 1_700_000_000,
+              imageSizeInBytes: 1024,
+            })),
+            nextToken,
+          })
+        }
+        case "DescribeImageScanFindings": {
+          const image = images.find((i) => i.repositoryName === body.repositoryName && i.tags.includes(body.imageId?.imageTag))
+          if (!image?.findings) {
+            return sendJson(res, 400, { __type: "ScanNotFoundException", message: "Image scan does not exist" })
+          }
+          return sendJson(res, 200, { imageScanFindings: { findings: image.findings } })
+        }
+        default:
+          return sendJson(res, 400, { __type: "UnknownOperationException", message: action })
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    endpoint,
+    accessKeyId,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,138 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+/**
+ * Minimal Harbor v2 API (`/api/v2.0`) for exercising the Harbor provider
+ * locally.
+ *
+ * Every request needs Basic credentials of one of the configured accounts.
+ * A project robot (`robot$<project>+<name>`) only sees its own project, as in
+ * Harbor. Lists are paginated with `page`/`page_size`, and `pageSize` caps
+ * the page size so callers have to follow pages up to `X-Total-Count`.
+ */
+export interface MockHarborArtifact {
+  repository: string
+  digest: string
+  tags: Array<{ name: string; immutable?: boolean }>
+  labels?: string[]
+  vulnerabilities?: Array<{ id: string; package: string; version: string; severity: string; fix_version?: string }>
+}
+
+export interface MockHarbor {
+  endpoint: string
+  /** Request paths received, in order, without the query string */
+  calls: string[]
+  close(): Promise<void>
+}
+
+export async function startMockHarbor(options: {
+  accounts?: Record<string, string>
+  projects?: string[]
+  repositories?: string[]
+  artifacts?: MockHarborArtifact[]
+  pageSize?: number
+} = {}): Promise<MockHarbor> {
+  const accounts = options.accounts ?? { admin: "Harbor12345" }
+  const projects = options.projects ?? []
+  const repositories = options.repositories ?? []
+  const artifacts = options.artifacts ?? []
+  const maxPageSize = options.pageSize ?? 2
+  const calls: string[] = []
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown, total?: number) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...(total !== undefined ? { "X-Total-Count": String(total) } : {}) })
+    res.end(JSON.stringify(body))
+  }
+  const sendError = (res: http.ServerResponse, status: number, code: string, message: string) =>
+    sendJson(res, status, { errors: [{ code, message }] })
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    calls.push(url.pathname)
+
+    const credentials = Buffer.from((req.headers.authorization || "").replace(/^Basic /, ""), "base64").toString()
+    const user = credentials.substring(0, credentials.indexOf(":"))
+    const password = credentials.substring(credentials.indexOf(":") + 1)
+    if (!user || accounts[user] !== password) {
+      return sendError(res, 401, "UNAUTHORIZED", "unauthorized")
+    }
+    const robotProject = user.match(/^robot\$([^+]+)\+/)?.[1]
+    const visible = (project: string) => !robotProject || robotProject === project
+
+    const pageSize = Math.min(Number(url.searchParams.get("page_size") || 10), maxPageSize)
+    const sendPage = (items: unknown[]) => {
+      const start = (Number(url.searchParams.get("page") || 1) - 1) * pageSize
+      return sendJson(res, 200, items.slice(start, start + pageSize), items.length)
+    }
+
+    const path = url.pathname.replace(/^\/api\/v2\.0/, "")
+    if (path === "/systeminfo") {
+      return sendJson(res, 200, { harbor_version: "v2.11.0-mock" })
+    }
+    if (path === "/projects") {
+      return sendPage(projects.filter(visible).map((name, i) => ({ project_id: i + 1, name })))
+    }
+
+    const match = path.match(/^\/projects\/([^/]+)(?:\/repositories(?:\/([^/]+)(?:\/artifacts(?:\/([^/]+)(\/additions\/vulnerabilities)?)?)?)?)?$/)
+    const project = match && decodeURIComponent(match[1])
+    if (!match || !project || !projects.includes(project) || !visible(project)) {
+      return sendError(res, 404, "NOT_FOUND", `${path} not found`)
+    }
+    const [, , repo, reference, additions] = match
+    const repository = repo && `${project}/${decodeURIComponent(decodeURIComponent(repo))}`
+
+    if (!path.includes("/repositories")) {
+      return sendJson(res, 200, { name: project })
+    }
+    if (!repository) {
+      const names = repositories.filter((name) => name.startsWith(`${project}/`))
+      return sendPage(names.map((name) => ({ name, pull_count: 0, update_time: "2026-01-01T00:00:00Z" })))
+    }
+    if (!repositories.includes(repository)) {
+      return sendError(res, 404, "NOT_FOUND", `repository ${repository} not found`)
+    }
+
+    const toJson = (artifact: MockHarborArtifact) => ({
+      digest: artifact.digest,
+      size: 1024,
+      push_time: "2026-01-01T00:00:00Z",
+      tags: artifact.tags.map((tag) => ({ name: tag.name, push_time: "2026-01-01T00:00:00Z", immutable: !!tag.immutable })),
+      labels: (artifact.labels || []).map((name) => ({ name })),
+    })
+    const inRepository = artifacts.filter((artifact) => artifact.repository === repository)
+    if (!reference) {
+      return sendPage(inRepository.map(toJson))
+    }
+
+    const ref = decodeURIComponent(reference)
+    const artifact = inRepository.find((a) => a.digest === ref || a.tags.some((tag) => tag.name === ref))
+    if (!artifact) {
+      return sendError(res, 404, "NOT_FOUND", `artifact ${repository}:${ref} not found`)
+    }
+    if (additions) {
+      if (!artifact.vulnerabilities) {
+        return sendError(res, 404, "NOT_FOUND", "vulnerabilities not found")
+      }
+      return sendJson(res, 200, {
+        "application/vnd.security.vulnerability.report; version=1.1": {
+          scanner: { name: "Trivy" },
+          vulnerabilities: artifact.vulnerabilities,
+        },
+      })
+    }
+    if (req.method === "DELETE") {
+      artifacts.splice(artifacts.indexOf(artifact), 1)
+      return sendJson(res, 200, {})
+    }
+    return sendJson(res, 200, toJson(artifact))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    endpoint,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,158 @@
+import crypto from "crypto"
+import http from "http"
+import type { AddressInfo } from "net"
+
+/**
+ * Minimal OpenID Connect provider for exercising the SSO flow locally.
+ *
+ * The authorize endpoint signs the configured user in without a prompt and
+ * redirects straight back with a code; the token endpoint enforces PKCE and
+ * returns an RS256-signed ID token carrying the configured claims.
+ */
+export interface MockOidcUser {
+  sub: string
+  preferred_username?: string
+  email?: string
+  name?: string
+  groups?: string[]
+  [claim: string]: unknown
+}
+
+export interface MockOidcIssuer {
+  issuer: string
+  clientId: string
+  setUser(user: MockOidcUser): void
+  close(): Promise<void>
+}
+
+interface PendingCode {
+  clientId: string
+  redirectUri: string
+  nonce?: string
+  codeChallenge?: string
+  user: MockOidcUser
+}
+
+export async function startMockOidcIssuer(options: {
+  port?: number
+  clientId?: string
+  user?: MockOidcUser
+} = {}): Promise<MockOidcIssuer> {
+  const clientId = options.clientId ?? "harborguard"
+  let user: MockOidcUser = options.user ?? {
+    sub: "mock-user-1",
+    preferred_username: "mock.user",
+    email: "mock.user@example.com",
+    name: "Mock User",
+    groups: ["hg-viewers"],
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 })
+  const kid = crypto.randomBytes(8).toString("hex")
+  const jwk = { ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }
+  const codes = new Map<string, PendingCode>()
+  let issuer = ""
+
+  const signIdToken = (claims: Record<string, unknown>): string => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url")
+    const input = `${encode({ alg: "RS256", typ: "JWT", kid })}.${encode(claims)}`
+    const signature = crypto.sign("sha256", Buffer.from(input), privateKey).toString("base64url")
+    return `${input}.${signature}`
+  }
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(body))
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", issuer)
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+      })
+    }
+
+    if (url.pathname === "/jwks") {
+      return sendJson(res, 200, { keys: [jwk] })
+    }
+
+    if (url.pathname === "/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri")
+      if (!redirectUri || url.searchParams.get("client_id") !== clientId) {
+        return sendJson(res, 400, { error: "invalid_request" })
+      }
+      const code = crypto.randomBytes(16).toString("hex")
+      codes.set(code, {
+        clientId,
+        redirectUri,
+        nonce: url.searchParams.get("nonce") ?? undefined,
+        codeChallenge: url.searchParams.get("code_challenge") ?? undefined,
+        user,
+      })
+      const callback = new URL(redirectUri)
+      callback.searchParams.set("code", code)
+      const state = url.searchParams.get("state")
+      if (state) callback.searchParams.set("state", state)
+      res.writeHead(302, { Location: callback.toString() })
+      return res.end()
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const params = new URLSearchParams(body)
+        const pending = codes.get(params.get("code") || "")
+        codes.delete(params.get("code") || "")
+        if (!pending || params.get("redirect_uri") !== pending.redirectUri) {
+          return sendJson(res, 400, { error: "invalid_grant" })
+        }
+        const challenge = crypto
+          .createHash("sha256")
+          .update(params.get("code_verifier") || "")
+          .digest("base64url")
+        if (pending.codeChallenge && challenge !== pending.codeChallenge) {
+          return sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" })
+        }
+        const now = Math.floor(Date.now() / 1000)
+        sendJson(res, 200, {
+          access_token: crypto.randomBytes(16).toString("hex"),
+          token_type: "Bearer",
+          expires_in: 300,
+          id_token: signIdToken({
+            ...pending.user,
+            iss: issuer,
+            aud: pending.clientId,
+            iat: now,
+            exp: now + 300,
+            nonce: pending.nonce,
+          }),
+        })
+      })
+      return
+    }
+
+    sendJson(res, 404, { error: "not_found" })
+  })
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve))
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    issuer,
+    clientId,
+    setUser(next) {
+      user = next
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
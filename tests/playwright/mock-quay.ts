@@ -0,0 +1,123 @@
+import http from "http"
+import type { AddressInfo } from "net"
+
+/**
+ * Minimal Quay for exercising the Quay provider locally.
+ *
+ * Robot accounts use the registry API: `/v2/...` answers with a Bearer
+ * challenge, `/v2/auth` exchanges the robot's Basic credentials for a token
+ * and the catalog is paginated through Link headers. OAuth tokens use the
+ * Quay API (`/api/v1`), whose repository list is paginated with
+ * `next_page`. Both paginate every `pageSize` items.
+ */
+export interface MockQuay {
+  endpoint: string
+  /** Request paths received, in order, without the query string */
+  calls: string[]
+  close(): Promise<void>
+}
+
+export async function startMockQuay(options: {
+  robots?: Record<string, string>
+  oauthTokens?: string[]
+  repositories?: string[]
+  tags?: Record<string, string[]>
+  pageSize?: number
+} = {}): Promise<MockQuay> {
+  const robots = options.robots ?? {}
+  const oauthTokens = options.oauthTokens ?? []
+  const repositories = options.repositories ?? []
+  const tags = options.tags ?? {}
+  const pageSize = options.pageSize ?? 2
+  const calls: string[] = []
+  const registryTokens = new Map<string, string>()
+  let endpoint = ""
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    const authorization = req.headers.authorization || ""
+    calls.push(url.pathname)
+
+    if (url.pathname === "/v2/auth") {
+      const credentials = Buffer.from(authorization.replace(/^Basic /, ""), "base64").toString()
+      const robot = credentials.substring(0, credentials.indexOf(":"))
+      if (!robot || robots[robot] !== credentials.substring(credentials.indexOf(":") + 1)) {
+        return sendJson(res, 401, { error: "Invalid Username or Password" })
+      }
+      const token = `registry-${registryTokens.size + 1}`
+      registryTokens.set(token, robot)
+      return sendJson(res, 200, { token })
+    }
+
+    if (url.pathname.startsWith("/v2/")) {
+      const robot = registryTokens.get(authorization.replace(/^Bearer /, ""))
+      if (!robot) {
+        const scope = url.pathname === "/v2/_catalog" ? "registry:catalog:*" : `repository:${url.pathname.slice(4).replace(/\/tags\/list$/, "")}:pull`
+        return sendJson(res, 401, { errors: [{ code: "UNAUTHORIZED" }] }, {
+          "WWW-Authenticate": `Bearer realm="${endpoint}/v2/auth",service="${url.host}",scope="${scope}"`,
+        })
+      }
+      const visible = repositories.filter((name) => name.startsWith(`${robot.split("+")[0]}/`))
+      if (url.pathname === "/v2/_catalog") {
+        const last = url.searchParams.get("last")
+        const start = last ? visible.indexOf(last) + 1 : 0
+        const page = visible.slice(start, start + pageSize)
+        const more = start + pageSize < visible.length
+        return sendJson(res, 200, { repositories: page }, more
+          ? { Link: `</v2/_catalog?n=${pageSize}&last=${encodeURIComponent(page[page.length - 1])}>; rel="next"` }
+          : {})
+      }
+      const name = url.pathname.slice(4).replace(/\/tags\/list$/, "")
+      if (!visible.includes(name)) return sendJson(res, 404, { errors: [{ code: "NAME_UNKNOWN" }] })
+      return sendJson(res, 200, { name, tags: tags[name] ?? [] })
+    }
+
+    if (!oauthTokens.includes(authorization.replace(/^Bearer /, ""))) {
+      return sendJson(res, 401, { error_message: "Invalid token", detail: "Invalid token" })
+    }
+    if (url.pathname === "/api/v1/repository") {
+      const namespace = url.searchParams.get("namespace")
+      const inNamespace = repositories.filter((name) => name.startsWith(`${namespace}/`))
+      const start = Number(url.searchParams.get("next_page") || 0)
+      return sendJson(res, 200, {
+        repositories: inNamespace.slice(start, start + pageSize).map((name) => ({
+          namespace,
+          name: name.substring(name.indexOf("/") + 1),
+          description: null,
+          is_public: false,
+          last_modified: 1_700_000_000,
+        })),
+        ...(start + pageSize < inNamespace.length ? { next_page: String(start + pageSize) } : {}),
+      })
+    }
+    const tagMatch = url.pathname.match(/^\/api\/v1\/repository\/(.+)\/tag\/$/)
+    if (tagMatch && repositories.includes(tagMatch[1])) {
+      return sendJson(res, 200, {
+        tags: (tags[tagMatch[1]] ?? []).map((name) => ({
+          name,
+          manifest_digest: `sha256:${Buffer.from(name).toString("hex").padEnd(64, "0")}`,
+          size: 1024,
+          start_ts: 1_700_000_000,
+          last_modified: "Tue, 14 Nov 2023 22:13:20 -0000",
+        })),
+        page: 1,
+        has_additional: false,
+      })
+    }
+    return sendJson(res, 404, { error_message: "Not Found" })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    endpoint,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
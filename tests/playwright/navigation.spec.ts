@@ -6,6 +6,8 @@ const navTargets: Array<{ name: string; urlPattern: RegExp }> = [
   { name: "Vulnerabilities", urlPattern: /\/library$/ },
   { name: "Repositories", urlPattern: /\/repositories$/ },
   { name: "Scheduled Scans", urlPattern: /\/scheduled-scans$/ },
+  { name: "Policies", urlPattern: /\/policies$/ },
+  { name: "Exceptions", urlPattern: /\/exceptions$/ },
   { name: "Settings", urlPattern: /\/settings$/ },
 ]
 
@@ -0,0 +1,294 @@
+import { createHmac } from "node:crypto"
+import http from "node:http"
+import net from "node:net"
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Notification channels, routing rules and the delivery log. Channels
+ * created here point at unreachable hosts or at an SMTP sink or webhook
+ * receiver started by the test, and are deleted again.
+ */
+
+/**
+ * A minimal SMTP server on a random local port that accepts every message
+ * and keeps its raw content.
+ */
+async function startSmtpSink(): Promise<{ port: number; messages: string[]; close: () => void }> {
+  const messages: string[] = []
+  const server = net.createServer((socket) => {
+    let buffer = ""
+    let inData = false
+    socket.write("220 sink ESMTP\r\n")
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString()
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n")
+          if (end < 0) return
+          messages.push(buffer.slice(0, end))
+          buffer = buffer.slice(end + 5)
+          inData = false
+          socket.write("250 2.0.0 queued\r\n")
+          continue
+        }
+        const lineEnd = buffer.indexOf("\r\n")
+        if (lineEnd < 0) return
+        const command = buffer.slice(0, 4).toUpperCase()
+        buffer = buffer.slice(lineEnd + 2)
+        if (command === "EHLO" || command === "HELO") socket.write("250-sink\r\n250 8BITMIME\r\n")
+        else if (command === "DATA") {
+          inData = true
+          socket.write("354 end with .\r\n")
+        } else if (command === "QUIT") socket.end("221 bye\r\n")
+        else socket.write("250 ok\r\n")
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return { port: (server.address() as net.AddressInfo).port, messages, close: () => server.close() }
+}
+
+test.describe("Notification channels API", () => {
+  test("validates channel settings", async ({ request }) => {
+    const missing = await request.post("/api/notifications/channels", {
+      data: { name: `e2e-missing-${Date.now()}`, type: "SLACK", config: {} },
+    })
+    expect(missing.status()).toBe(400)
+    expect((await missing.json()).error).toMatch(/webhook url/i)
+
+    const badUrl = await request.post("/api/notifications/channels", {
+      data: { name: `e2e-bad-url-${Date.now()}`, type: "SLACK", config: { webhookUrl: "ftp://example.invalid" } },
+    })
+    expect(badUrl.status()).toBe(400)
+  })
+
+  test("masks secrets and keeps them on update", async ({ request }) => {
+    const name = `e2e-channel-${Date.now()}`
+    const created = await request.post("/api/notifications/channels", {
+      data: { name, type: "GOTIFY", config: { serverUrl: "https://gotify.example.invalid", appToken: "secret-token" } },
+    })
+    expect(created.status()).toBe(201)
+    const channel = await created.json()
+    expect(channel.config.appToken).toBe("********")
+    expect(channel.config.serverUrl).toBe("https://gotify.example.invalid")
+
+    try {
+      const duplicate = await request.post("/api/notifications/channels", {
+        data: { name, type: "SLACK", config: { webhookUrl: "https://hooks.example.invalid" } },
+      })
+      expect(duplicate.status()).toBe(409)
+
+      const updated = await request.put(`/api/notifications/channels/${channel.id}`, {
+        data: { name, type: "GOTIFY", enabled: false, config: channel.config },
+      })
+      expect(updated.status()).toBe(200)
+      expect((await updated.json()).enabled).toBe(false)
+    } finally {
+      expect((await request.delete(`/api/notifications/channels/${channel.id}`)).status()).toBe(200)
+    }
+  })
+})
+
+test.describe("Email notifications", () => {
+  test("validates addresses and ports", async ({ request }) => {
+    const base = { host: "smtp.example.invalid", from: "harborguard@example.com", recipients: "security@example.com" }
+    for (const config of [
+      { ...base, from: "harborguard" },
+      { ...base, recipients: "security@example.com, ops" },
+      { ...base, port: "70000" },
+    ]) {
+      const res = await request.post("/api/notifications/channels", {
+        data: { name: `e2e-email-${Date.now()}`, type: "EMAIL", config },
+      })
+      expect(res.status()).toBe(400)
+    }
+  })
+
+  // The sink listens on this machine, so the app must run here as well
+  test("sends HTML and text emails to a local SMTP sink", async ({ request, baseURL }) => {
+    test.skip(!/\/\/(localhost|127\.0\.0\.1)[:/]/.test(baseURL ?? ""), "needs the app on this machine")
+    const sink = await startSmtpSink()
+    const created = await request.post("/api/notifications/channels", {
+      data: {
+        name: `e2e-smtp-${Date.now()}`,
+        type: "EMAIL",
+        config: { host: "127.0.0.1", port: String(sink.port), from: "harborguard@example.com", recipients: "a@example.com; b@example.com" },
+      },
+    })
+    expect(created.status()).toBe(201)
+    const channel = await created.json()
+
+    try {
+      const res = await request.post(`/api/notifications/channels/${channel.id}/test`)
+      expect(res.status()).toBe(200)
+      expect((await res.json()).responseStatus).toBe(250)
+      expect(sink.messages).toHaveLength(1)
+      expect(sink.messages[0]).toMatch(/Subject: \[Harbor Guard\] Harbor Guard Test Notification/)
+      expect(sink.messages[0]).toMatch(/multipart\/alternative/)
+      expect(sink.messages[0]).toMatch(/text\/html/)
+
+      const digest = await request.post(`/api/notifications/channels/${channel.id}/test?digest=weekly`)
+      expect(digest.status()).toBe(200)
+      expect(sink.messages[1]).toMatch(/Weekly Security Digest/)
+      expect(sink.messages[1]).toMatch(/FAILING SCHEDULED SCANS/)
+
+      expect((await request.post(`/api/notifications/channels/${channel.id}/test?digest=monthly`)).status()).toBe(400)
+    } finally {
+      sink.close()
+      await request.delete(`/api/notifications/channels/${channel.id}`)
+    }
+  })
+})
+
+test.describe("Webhook notifications", () => {
+  test("requires an endpoint and a signing secret", async ({ request }) => {
+    const res = await request.post("/api/notifications/channels", {
+      data: { name: `e2e-webhook-${Date.now()}`, type: "WEBHOOK", config: { url: "https://automation.example.invalid" } },
+    })
+    expect(res.status()).toBe(400)
+    expect((await res.json()).error).toMatch(/signing secret/i)
+  })
+
+  // The receiver listens on this machine, so the app must run here as well
+  test("posts a versioned payload signed with the channel secret", async ({ request, baseURL }) => {
+    test.skip(!/\/\/(localhost|127\.0\.0\.1)[:/]/.test(baseURL ?? ""), "needs the app on this machine")
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = []
+    const server = http.createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        received.push({ headers: req.headers, body })
+        res.statusCode = 202
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    const port = (server.address() as net.AddressInfo).port
+
+    const created = await request.post("/api/notifications/channels", {
+      data: {
+        name: `e2e-webhook-${Date.now()}`,
+        type: "WEBHOOK",
+        config: { url: `http://127.0.0.1:${port}/hook`, secret: "e2e-signing-secret" },
+      },
+    })
+    expect(created.status()).toBe(201)
+    const channel = await created.json()
+    expect(channel.config.secret).toBe("********")
+
+    try {
+      const res = await request.post(`/api/notifications/channels/${channel.id}/test`)
+      expect(res.status()).toBe(200)
+      expect((await res.json()).responseStatus).toBe(202)
+
+      expect(received).toHaveLength(1)
+      const { headers, body } = received[0]
+      const timestamp = headers["x-harborguard-timestamp"]
+      const signature = createHmac("sha256", "e2e-signing-secret").update(`${timestamp}.${body}`).digest("hex")
+      expect(headers["x-harborguard-signature"]).toBe(`sha256=${signature}`)
+      expect(headers["x-harborguard-event"]).toBe("webhook.test")
+
+      const payload = JSON.parse(body)
+      expect(payload.version).toBe(1)
+      expect(payload.type).toBe("webhook.test")
+      expect(payload.id).toBe(headers["x-harborguard-delivery"])
+
+      const { deliveries } = await (await request.get(`/api/notifications/deliveries?channelId=${channel.id}`)).json()
+      expect(deliveries[0].responseStatus).toBe(202)
+      expect(deliveries[0].status).toBe("SENT")
+    } finally {
+      server.close()
+      await request.delete(`/api/notifications/channels/${channel.id}`)
+    }
+  })
+})
+
+test.describe("Notification rules API", () => {
+  test("validates rules", async ({ request }) => {
+    const base = { name: "e2e rule", channelId: "missing", events: ["SCAN_COMPLETED"] }
+    expect((await request.post("/api/notifications/rules", { data: { ...base, events: [] } })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", { data: { ...base, events: ["TEST"] } })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", { data: { ...base, timezone: "Mars/Olympus" } })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", {
+      data: { ...base, quietHoursStart: "25:00", quietHoursEnd: "07:00" },
+    })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", {
+      data: { ...base, quietHoursStart: "22:00" },
+    })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", { data: { ...base, imagePattern: "([" } })).status()).toBe(400)
+    expect((await request.post("/api/notifications/rules", { data: base })).status()).toBe(404)
+  })
+
+  test("routes events of a channel and is removed with it", async ({ request }) => {
+    const created = await request.post("/api/notifications/channels", {
+      data: { name: `e2e-rules-${Date.now()}`, type: "SLACK", config: { webhookUrl: "https://hooks.example.invalid" } },
+    })
+    expect(created.status()).toBe(201)
+    const channel = await created.json()
+
+    const res = await request.post("/api/notifications/rules", {
+      data: {
+        name: "Night shift criticals",
+        channelId: channel.id,
+        events: ["NEW_CRITICAL", "SCAN_FAILED"],
+        minSeverity: "CRITICAL",
+        imagePattern: "^e2e/",
+        quietHoursStart: "22:00",
+        quietHoursEnd: "07:00",
+        timezone: "Europe/Berlin",
+      },
+    })
+    expect(res.status()).toBe(201)
+    const rule = await res.json()
+    expect(rule.channel.id).toBe(channel.id)
+    expect(rule.events).toEqual(["NEW_CRITICAL", "SCAN_FAILED"])
+
+    await request.delete(`/api/notifications/channels/${channel.id}`)
+    const { rules } = await (await request.get("/api/notifications/rules")).json()
+    expect(rules.some((r: any) => r.id === rule.id)).toBe(false)
+  })
+})
+
+test.describe("Notification delivery log", () => {
+  test("filters deliveries", async ({ request }) => {
+    const res = await request.get("/api/notifications/deliveries?status=FAILED&limit=20")
+    expect(res.status()).toBe(200)
+    const { deliveries, total } = await res.json()
+    expect(typeof total).toBe("number")
+    for (const delivery of deliveries) {
+      expect(delivery.status).toBe("FAILED")
+    }
+  })
+
+  test("validates filters", async ({ request }) => {
+    expect((await request.get("/api/notifications/deliveries?status=LOST")).status()).toBe(400)
+    expect((await request.get("/api/notifications/deliveries?event=NOPE")).status()).toBe(400)
+    expect((await request.get("/api/notifications/deliveries?limit=0")).status()).toBe(400)
+    expect((await request.post("/api/notifications/deliveries/missing/retry")).status()).toBe(404)
+  })
+
+  test("shows channels with a send test button", async ({ page }) => {
+    await page.route("**/api/notifications/channels", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          channels: [{
+            id: "c1",
+            name: "Security team",
+            type: "SLACK",
+            enabled: true,
+            config: { webhookUrl: "********" },
+            createdBy: "admin",
+            _count: { rules: 1 },
+          }],
+        }),
+      })
+    })
+
+    await gotoAndWait(page, "/notifications")
+    await expect(page.getByText("Security team").first()).toBeVisible({ timeout: 20_000 })
+    await expect(page.getByRole("button", { name: /send test/i }).first()).toBeVisible()
+  })
+})
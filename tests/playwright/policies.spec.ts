@@ -0,0 +1,90 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+// Created disabled so it never changes the verdict of scans running alongside
+const fixableCriticals = {
+  name: "Playwright: no fixable criticals",
+  enabled: false,
+  action: "FAIL",
+  scope: "GLOBAL",
+  rules: [{ type: "vulnerability", severity: "CRITICAL", fixAvailable: true }],
+}
+
+test.describe("Security Policies API", () => {
+  test("GET /api/policies returns a policy list", async ({ request }) => {
+    const res = await request.get("/api/policies")
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(Array.isArray(body.policies)).toBe(true)
+  })
+
+  test("POST /api/policies validates rules and scope", async ({ request }) => {
+    const noRules = await request.post("/api/policies", { data: { ...fixableCriticals, rules: [] } })
+    expect(noRules.status()).toBe(400)
+
+    const badPattern = await request.post("/api/policies", {
+      data: { ...fixableCriticals, scope: "IMAGE_PATTERN", imagePattern: "(" },
+    })
+    expect(badPattern.status()).toBe(400)
+    expect((await badPattern.json()).error).toMatch(/invalid image pattern/i)
+
+    const noRepository = await request.post("/api/policies", { data: { ...fixableCriticals, scope: "REPOSITORY" } })
+    expect(noRepository.status()).toBe(400)
+
+    const unknownRule = await request.post("/api/policies", {
+      data: { ...fixableCriticals, rules: [{ type: "unknown" }] },
+    })
+    expect(unknownRule.status()).toBe(400)
+  })
+
+  test("policies can be created, updated and deleted", async ({ request }) => {
+    const created = await request.post("/api/policies", { data: fixableCriticals })
+    expect(created.status()).toBe(201)
+    const policy = await created.json()
+    expect(policy.scope).toBe("GLOBAL")
+    expect(policy.rules).toEqual(fixableCriticals.rules)
+
+    try {
+      const updated = await request.put(`/api/policies/${policy.id}`, {
+        data: { ...fixableCriticals, action: "WARN", description: "Updated" },
+      })
+      expect(updated.status()).toBe(200)
+      const body = await updated.json()
+      expect(body.action).toBe("WARN")
+      expect(body.description).toBe("Updated")
+    } finally {
+      const deleted = await request.delete(`/api/policies/${policy.id}`)
+      expect(deleted.status()).toBe(200)
+    }
+
+    const gone = await request.get(`/api/policies/${policy.id}`)
+    expect(gone.status()).toBe(404)
+  })
+
+  test("GET /api/scans/[id]/policy for an unknown scan returns 404", async ({ request }) => {
+    const res = await request.get("/api/scans/does-not-exist/policy")
+    expect(res.status()).toBe(404)
+  })
+
+  test("GET /api/scans/[id]/policy returns the verdict shape", async ({ request }) => {
+    const scans = await request.get("/api/scans?limit=1")
+    const scanList = await scans.json()
+    const scan = scanList.scans?.[0]
+    test.skip(!scan, "No scans available")
+
+    const res = await request.get(`/api/scans/${scan.id}/policy`)
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body.scanId).toBe(scan.id)
+    expect([null, "PASS", "WARN", "FAIL"]).toContain(body.verdict)
+    expect(Array.isArray(body.results)).toBe(true)
+  })
+})
+
+test.describe("Security Policies page", () => {
+  test("renders the policy list", async ({ page }) => {
+    await gotoAndWait(page, "/policies")
+    await expect(page.getByRole("heading", { name: "Security Policies" })).toBeVisible()
+    await expect(page.getByRole("button", { name: /create policy/i })).toBeVisible()
+  })
+})
@@ -0,0 +1,60 @@
+import { test, expect, type APIRequestContext } from "@playwright/test"
+import { startMockArtifactory, type MockArtifactory } from "./mock-artifactory"
+
+/**
+ * JFrog Artifactory connection tests against a local mock of the
+ * Artifactory API. No repository is created here.
+ */
+test.describe("Artifactory provider", () => {
+  test.describe.configure({ mode: "serial" })
+
+  let artifactory: MockArtifactory
+
+  test.beforeAll(async () => {
+    artifactory = await startMockArtifactory({
+      username: "scanner",
+      password: "access-token",
+      repositories: [
+        { key: "docker-local", rclass: "local", images: { api: ["1.0"], "team/web": ["latest"] } },
+        { key: "docker-remote", rclass: "remote", images: { "library/nginx": ["1.25"] } },
+        { key: "docker", rclass: "virtual", repositories: ["docker-local", "docker-remote"] },
+        { key: "npm-local", rclass: "local", packageType: "npm" },
+      ],
+    })
+  })
+
+  test.afterAll(async () => {
+    await artifactory?.close()
+  })
+
+  const connect = (request: APIRequestContext, data: Record<string, string>) =>
+    request.post("/api/repositories/test", {
+      data: { type: "ARTIFACTORY", registryUrl: artifactory.endpoint, username: "scanner", password: "access-token", ...data },
+    })
+
+  test("lists local repositories only when no repository key is set", async ({ request }) => {
+    const res = await connect(request, {})
+    expect(res.status()).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, repositoryCount: 2 })
+    expect(artifactory.calls).not.toContain("/artifactory/api/docker/docker-remote/v2/_catalog")
+  })
+
+  test("a virtual repository key lists what it aggregates", async ({ request }) => {
+    const res = await connect(request, { organization: "docker" })
+    const body = await res.json()
+    expect(body).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(body.message).toMatch(/repository docker/)
+  })
+
+  test("rejects repositories that are not Docker repositories", async ({ request }) => {
+    const body = await (await connect(request, { organization: "npm-local" })).json()
+    expect(body.success).toBe(false)
+    expect(body.error).toMatch(/not a Docker repository/)
+  })
+
+  test("reports rejected credentials", async ({ request }) => {
+    const body = await (await connect(request, { password: "wrong" })).json()
+    expect(body.success).toBe(false)
+    expect(body.error).toMatch(/Authentication failed/)
+  })
+})
@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test"
+import { startMockEcr, type MockEcr } from "./mock-ecr"
+
+/**
+ * Amazon ECR connection tests against a local mock of the ECR API, set as
+ * the repository's API endpoint. No repository is created here.
+ */
+test.describe("Amazon ECR provider", () => {
+  test.describe.configure({ mode: "serial" })
+
+  let ecr: MockEcr
+  const registryUrl = "123456789012.dkr.ecr.us-east-1.amazonaws.com"
+
+  test.beforeAll(async () => {
+    ecr = await startMockEcr({ repositories: ["api", "web", "tools/builder"], pageSize: 2 })
+  })
+
+  test.afterAll(async () => {
+    await ecr?.close()
+  })
+
+  test("exchanges access keys for a token and lists every page of repositories", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "ECR", registryUrl, username: ecr.accessKeyId, password: "mock-secret", authUrl: ecr.endpoint },
+    })
+    expect(res.status()).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(ecr.calls).toEqual(["GetAuthorizationToken", "DescribeRepositories", "DescribeRepositories"])
+  })
+
+  test("reports rejected credentials", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "ECR", registryUrl, username: "AKIAWRONGKEY00000000", password: "mock-secret", authUrl: ecr.endpoint },
+    })
+    const body = await res.json()
+    expect(body.success).toBe(false)
+    expect(body.error).toMatch(/UnrecognizedClientException/)
+  })
+
+  test("validates the configuration", async ({ request }) => {
+    const missingSecret = await request.post("/api/repositories/test", {
+      data: { type: "ECR", registryUrl, username: ecr.accessKeyId, password: "", authUrl: ecr.endpoint },
+    })
+    expect((await missingSecret.json()).error).toMatch(/provided together/)
+
+    const badRole = await request.post("/api/repositories/test", {
+      data: { type: "ECR", registryUrl, username: ecr.accessKeyId, password: "mock-secret", organization: "admin", authUrl: ecr.endpoint },
+    })
+    expect((await badRole.json()).error).toMatch(/Role ARN/)
+  })
+})
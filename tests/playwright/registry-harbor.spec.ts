@@ -0,0 +1,72 @@
+import { test, expect } from "@playwright/test"
+import { startMockHarbor, type MockHarbor } from "./mock-harbor"
+
+/**
+ * Harbor connection tests against a local mock of the Harbor v2 API. No
+ * repository is created here.
+ */
+test.describe("Harbor provider", () => {
+  test.describe.configure({ mode: "serial" })
+
+  let harbor: MockHarbor
+
+  test.beforeAll(async () => {
+    harbor = await startMockHarbor({
+      accounts: { admin: "Harbor12345", "robot$team+scanner": "robot-secret" },
+      projects: ["library", "team", "tools"],
+      repositories: ["library/nginx", "library/redis", "team/api", "team/web", "team/workers/queue", "tools/builder"],
+      pageSize: 2,
+    })
+  })
+
+  test.afterAll(async () => {
+    await harbor?.close()
+  })
+
+  test.beforeEach(() => {
+    harbor.calls.length = 0
+  })
+
+  test("lists every page of projects and repositories", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "HARBOR", registryUrl: harbor.endpoint, username: "admin", password: "Harbor12345" },
+    })
+    expect(res.status()).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, repositoryCount: 6 })
+    expect(harbor.calls.filter((path) => path === "/api/v2.0/projects")).toHaveLength(2)
+    expect(harbor.calls.filter((path) => path === "/api/v2.0/projects/team/repositories")).toHaveLength(2)
+  })
+
+  test("scopes discovery to the project", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "HARBOR", registryUrl: harbor.endpoint, username: "admin", password: "Harbor12345", organization: "team" },
+    })
+    expect(await res.json()).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(harbor.calls).not.toContain("/api/v2.0/projects")
+  })
+
+  test("project robot accounts default to their own project", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "HARBOR", registryUrl: harbor.endpoint, username: "robot$team+scanner", password: "robot-secret" },
+    })
+    const body = await res.json()
+    expect(body).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(body.message).toMatch(/project team/)
+  })
+
+  test("reports rejected credentials", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "HARBOR", registryUrl: harbor.endpoint, username: "admin", password: "wrong" },
+    })
+    const body = await res.json()
+    expect(body.success).toBe(false)
+    expect(body.error).toMatch(/Authentication failed/)
+  })
+
+  test("validates the project name", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "HARBOR", registryUrl: harbor.endpoint, username: "admin", password: "Harbor12345", organization: "Team Project" },
+    })
+    expect((await res.json()).error).toMatch(/Harbor project name/)
+  })
+})
@@ -0,0 +1,64 @@
+import { test, expect } from "@playwright/test"
+import { startMockQuay, type MockQuay } from "./mock-quay"
+
+/**
+ * Quay connection tests against a local mock of Quay's registry and API.
+ * No repository is created here.
+ */
+test.describe("Quay provider", () => {
+  test.describe.configure({ mode: "serial" })
+
+  let quay: MockQuay
+
+  test.beforeAll(async () => {
+    quay = await startMockQuay({
+      robots: { "acme+scanner": "robot-token" },
+      oauthTokens: ["oauth-token"],
+      repositories: ["acme/api", "acme/web", "acme/workers/queue", "other/private"],
+      pageSize: 2,
+    })
+  })
+
+  test.afterAll(async () => {
+    await quay?.close()
+  })
+
+  test.beforeEach(() => {
+    quay.calls.length = 0
+  })
+
+  test("robot accounts list their organization through every catalog page", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "QUAY", registryUrl: quay.endpoint, username: "acme+scanner", password: "robot-token" },
+    })
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(body.message).toMatch(/namespace acme/)
+    expect(quay.calls.filter((path) => path === "/v2/auth")).toHaveLength(2)
+  })
+
+  test("OAuth tokens list the organization through the Quay API", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "QUAY", registryUrl: quay.endpoint, username: "alice", password: "oauth-token", organization: "acme" },
+    })
+    expect(await res.json()).toMatchObject({ success: true, repositoryCount: 3 })
+    expect(quay.calls).toEqual(["/api/v1/repository", "/api/v1/repository"])
+  })
+
+  test("reports rejected robot tokens", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "QUAY", registryUrl: quay.endpoint, username: "acme+scanner", password: "wrong" },
+    })
+    const body = await res.json()
+    expect(body.success).toBe(false)
+    expect(body.error).toMatch(/robot account/)
+  })
+
+  test("validates the organization", async ({ request }) => {
+    const res = await request.post("/api/repositories/test", {
+      data: { type: "QUAY", registryUrl: quay.endpoint, username: "alice", password: "oauth-token", organization: "Acme Corp" },
+    })
+    expect((await res.json()).error).toMatch(/Quay organization/)
+  })
+})
@@ -0,0 +1,136 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Registry watch: auto-scan rules of a repository and the discovery feed of
+ * tag changes found by syncs. Registries are mocked, so no sync runs here.
+ */
+
+test.describe("Registry watch API", () => {
+  test("validates auto-scan rules", async ({ request }) => {
+    const invalidPattern = await request.post("/api/repositories/missing/scan-rules", {
+      data: { name: "Release tags", tagPattern: "^v(\\d+" },
+    })
+    expect(invalidPattern.status()).toBe(400)
+    expect((await invalidPattern.json()).error).toMatch(/regular expression/)
+
+    const noTrigger = await request.post("/api/repositories/missing/scan-rules", {
+      data: { name: "Release tags", tagPattern: "^v\\d+", onNewTag: false, onDigestChange: false },
+    })
+    expect(noTrigger.status()).toBe(400)
+
+    const missing = await request.post("/api/repositories/missing/scan-rules", {
+      data: { name: "Release tags", tagPattern: "^v\\d+" },
+    })
+    expect(missing.status()).toBe(404)
+    expect((await request.get("/api/repositories/missing/scan-rules")).status()).toBe(404)
+    expect((await request.delete("/api/repositories/missing/scan-rules/missing")).status()).toBe(404)
+  })
+
+  test("filters the discovery feed", async ({ request }) => {
+    const feed = await request.get("/api/repositories/tag-events?type=MOVED&limit=5")
+    expect(feed.status()).toBe(200)
+    const { events } = await feed.json()
+    expect(events.every((event: any) => event.type === "MOVED")).toBe(true)
+
+    expect((await request.get("/api/repositories/tag-events?type=RETAGGED")).status()).toBe(400)
+    expect((await request.get("/api/repositories/tag-events?limit=0")).status()).toBe(400)
+  })
+})
+
+test.describe("Repositories page", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route("**/api/repositories", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          data: [{ id: "r1", name: "acme-registry", type: "GENERIC", protocol: "https", registryUrl: "registry.acme.dev", status: "ACTIVE" }],
+        }),
+      })
+    })
+    await page.route("**/api/repositories/sync", async (route) => {
+      await route.fulfill({ status: 200, contentType: "application/json", body: JSON.stringify({ statuses: {} }) })
+    })
+  })
+
+  test("lists tag changes with the scans rules started", async ({ page }) => {
+    await page.route("**/api/repositories/tag-events**", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          events: [
+            {
+              id: "e1",
+              imageName: "acme/api",
+              tag: "v2.4.0",
+              type: "NEW",
+              previousDigest: null,
+              digest: null,
+              createdAt: new Date().toISOString(),
+              repository: { id: "r1", name: "acme-registry" },
+              rule: { id: "rule1", name: "Release tags" },
+              scan: { id: "s1", status: "RUNNING" },
+            },
+            {
+              id: "e2",
+              imageName: "acme/api",
+              tag: "latest",
+              type: "MOVED",
+              previousDigest: "sha256:aaaaaaaaaaaaaaaa",
+              digest: "sha256:bbbbbbbbbbbbbbbb",
+              createdAt: new Date().toISOString(),
+              repository: { id: "r1", name: "acme-registry" },
+              rule: null,
+              scan: null,
+            },
+          ],
+        }),
+      })
+    })
+
+    await gotoAndWait(page, "/repositories")
+    await expect(page.getByText("Discovery Feed")).toBeVisible({ timeout: 20_000 })
+    await expect(page.getByText("acme/api:v2.4.0")).toBeVisible()
+    await expect(page.getByRole("link", { name: /Release tags · RUNNING/ })).toHaveAttribute("href", "/images/acme%2Fapi/s1")
+    await expect(page.getByText("aaaaaaaaaaaa → bbbbbbbbbbbb")).toBeVisible()
+    await expect(page.getByText("Not scanned")).toBeVisible()
+  })
+
+  test("adds auto-scan rules from the repository card", async ({ page }) => {
+    let created: any = null
+    await page.route("**/api/repositories/r1/scan-rules", async (route) => {
+      if (route.request().method() === "POST") {
+        created = route.request().postDataJSON()
+        return route.fulfill({ status: 201, contentType: "application/json", body: JSON.stringify({ id: "rule2", ...created }) })
+      }
+      return route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          rules: [{
+            id: "rule1",
+            name: "Rescan latest",
+            imagePattern: null,
+            tagPattern: "^latest$",
+            onNewTag: false,
+            onDigestChange: true,
+            enabled: true,
+            lastTriggeredAt: null,
+          }],
+        }),
+      })
+    })
+
+    await gotoAndWait(page, "/repositories")
+    await page.getByRole("button", { name: /^rules$/i }).click()
+    await expect(page.getByText("Rescan latest")).toBeVisible()
+    await expect(page.getByText("Digest changes", { exact: true })).toBeVisible()
+
+    await page.getByLabel("Name").fill("Release tags")
+    await page.getByLabel("Tag pattern (regex)").fill("^v\\d+")
+    await page.getByRole("button", { name: /add rule/i }).click()
+    await expect.poll(() => created).toMatchObject({ name: "Release tags", tagPattern: "^v\\d+", onNewTag: true, imagePattern: null })
+  })
+})
@@ -0,0 +1,115 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Push webhooks of registries: enabling and rotating the secret of a
+ * repository and how notifications are verified. Only notifications without
+ * pushes are delivered here, so no scan is started.
+ */
+
+test.describe("Registry webhooks API", () => {
+  test("rejects notifications for repositories without a webhook", async ({ request }) => {
+    const response = await request.post("/api/webhooks/registry/missing", { data: { events: [] } })
+    expect(response.status()).toBe(404)
+    expect((await request.get("/api/repositories/missing/webhook")).status()).toBe(404)
+    expect((await request.post("/api/repositories/missing/webhook")).status()).toBe(404)
+  })
+
+  test("verifies the secret of notifications", async ({ request }) => {
+    const created = await request.post("/api/repositories", {
+      data: {
+        name: `e2e-webhook-${Date.now()}`,
+        type: "GENERIC",
+        registryUrl: `e2e-webhook-${Date.now()}.registry.invalid`,
+        testConnection: false,
+      },
+    })
+    expect(created.status()).toBe(200)
+    const repository = await created.json()
+    const url = `/api/webhooks/registry/${repository.id}`
+    const harborPull = { type: "PULL_ARTIFACT", event_data: { repository: { repo_full_name: "acme/api" }, resources: [] } }
+
+    try {
+      expect(await (await request.get(`/api/repositories/${repository.id}/webhook`)).json()).toMatchObject({ enabled: false })
+      expect((await request.post(url, { data: harborPull })).status()).toBe(404)
+
+      const enabled = await request.post(`/api/repositories/${repository.id}/webhook`)
+      expect(enabled.status()).toBe(200)
+      const { secret, url: webhookUrl } = await enabled.json()
+      expect(secret).toMatch(/^hg_wh_/)
+      expect(webhookUrl).toContain(url)
+
+      expect((await request.post(url, { data: harborPull })).status()).toBe(401)
+      expect((await request.post(url, { data: harborPull, headers: { Authorization: "wrong" } })).status()).toBe(401)
+
+      const accepted = await request.post(url, { data: harborPull, headers: { Authorization: secret } })
+      expect(accepted.status()).toBe(200)
+      expect(await accepted.json()).toEqual({ format: "harbor", received: 0, results: [] })
+
+      const quayPing = await request.post(`${url}?secret=${secret}`, { data: { repository: "acme/api", updated_tags: [] } })
+      expect((await quayPing.json()).format).toBe("quay")
+
+      const unknown = await request.post(url, { data: { hello: "world" }, headers: { Authorization: `Bearer ${secret}` } })
+      expect(unknown.status()).toBe(400)
+
+      const rotated = await (await request.post(`/api/repositories/${repository.id}/webhook`)).json()
+      expect(rotated.secret).not.toBe(secret)
+      expect((await request.post(url, { data: harborPull, headers: { Authorization: secret } })).status()).toBe(401)
+
+      expect((await request.delete(`/api/repositories/${repository.id}/webhook`)).status()).toBe(200)
+      expect((await request.post(url, { data: harborPull, headers: { Authorization: rotated.secret } })).status()).toBe(404)
+    } finally {
+      await request.delete(`/api/repositories/${repository.id}`)
+    }
+  })
+})
+
+test.describe("Repositories page", () => {
+  test("enables the webhook of a repository", async ({ page }) => {
+    let enabled = false
+    await page.route("**/api/repositories", async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          data: [{ id: "r1", name: "acme-registry", type: "HARBOR", protocol: "https", registryUrl: "harbor.acme.dev", status: "ACTIVE" }],
+        }),
+      })
+    })
+    await page.route("**/api/repositories/sync", async (route) => {
+      await route.fulfill({ status: 200, contentType: "application/json", body: JSON.stringify({ statuses: {} }) })
+    })
+    await page.route("**/api/repositories/tag-events**", async (route) => {
+      await route.fulfill({ status: 200, contentType: "application/json", body: JSON.stringify({ events: [] }) })
+    })
+    await page.route("**/api/repositories/r1/webhook", async (route) => {
+      const url = "https://harborguard.acme.dev/api/webhooks/registry/r1"
+      if (route.request().method() === "POST") {
+        enabled = true
+        await route.fulfill({
+          status: 200,
+          contentType: "application/json",
+          body: JSON.stringify({ enabled: true, url, secret: "hg_wh_0123456789abcdef" }),
+        })
+        return
+      }
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({ enabled, url, formats: { harbor: "Harbor", quay: "Quay" } }),
+      })
+    })
+
+    await gotoAndWait(page, "/repositories")
+    await expect(page.getByText("acme-registry").first()).toBeVisible({ timeout: 20_000 })
+
+    await page.getByRole("button", { name: /push webhook/i }).first().click()
+    await expect(page.getByLabel("Webhook URL")).toHaveValue(/\/api\/webhooks\/registry\/r1$/)
+    await expect(page.getByText("Auth header of the webhook policy")).toBeVisible()
+
+    await page.getByRole("button", { name: "Enable Webhook" }).click()
+    await expect(page.getByLabel("Secret")).toHaveValue("hg_wh_0123456789abcdef")
+    await expect(page.getByRole("button", { name: "Rotate Secret" })).toBeVisible()
+    await expect(page.getByRole("button", { name: "Disable" })).toBeVisible()
+  })
+})
@@ -188,12 +188,12 @@ test.describe("Repositories - populated grid", () => {
     await gotoAndWait(page, "/repositories")
 
     // Find the card containing "to-delete" and click its delete button (Trash2 icon).
-    // The card buttons are: Sync / Test / Delete - delete has no text, only an icon.
+    // The card buttons are: Sync / Test / Rules / Delete - delete has no text, only an icon.
     // We scope by the card title.
     const card = page.locator('[data-slot="card"]').filter({ hasText: "to-delete" })
     await expect(card).toBeVisible()
 
-    // Delete button is the third (icon-only) action button
+    // Delete button is the last (icon-only) action button
     const actionButtons = card.getByRole("button")
     await safeClick(page, actionButtons.last())
 
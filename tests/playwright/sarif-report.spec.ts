@@ -0,0 +1,38 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * SARIF export of a scan. Uses existing scans only.
+ */
+test.describe("SARIF report API", () => {
+  test("unknown scans return 404", async ({ request }) => {
+    const res = await request.get("/api/images/name/does-not-exist/scan/also-missing/sarif-report")
+    expect(res.status()).toBe(404)
+  })
+
+  test("a completed scan exports a SARIF 2.1.0 log", async ({ request }) => {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    const scan = (list.scans ?? []).find((s: any) => (s.status === "SUCCESS" || s.status === "PARTIAL") && s.image?.name)
+    test.skip(!scan, "No completed scans available")
+
+    const imageName = encodeURIComponent(scan.image.name)
+    expect((await request.get(`/api/images/name/not-${imageName}/scan/${scan.id}/sarif-report`)).status()).toBe(404)
+
+    const res = await request.get(`/api/images/name/${imageName}/scan/${scan.id}/sarif-report`)
+    expect(res.status()).toBe(200)
+    expect(res.headers()["content-type"]).toContain("application/sarif+json")
+    expect(res.headers()["content-disposition"]).toMatch(/attachment; filename=".+\.sarif"/)
+
+    const sarif = await res.json()
+    expect(sarif.version).toBe("2.1.0")
+    const [run] = sarif.runs
+    expect(run.tool.driver.name).toBe("HarborGuard")
+    const ruleIds = run.tool.driver.rules.map((rule: any) => rule.id)
+    expect(new Set(ruleIds).size).toBe(ruleIds.length)
+    for (const result of run.results) {
+      expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId)
+      expect(["error", "warning", "note"]).toContain(result.level)
+      expect(result.locations.length).toBeGreaterThan(0)
+      expect(result.locations[0].physicalLocation.artifactLocation.uri).toBeTruthy()
+    }
+  })
+})
@@ -0,0 +1,74 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * SBOM export of a scan. Uses existing scans only.
+ */
+async function completedScan(request: any) {
+  const list = await (await request.get("/api/scans?limit=20")).json()
+  return (list.scans ?? []).find((s: any) => (s.status === "SUCCESS" || s.status === "PARTIAL") && s.image?.name)
+}
+
+test.describe("SBOM API", () => {
+  test("unknown scans return 404 and unknown formats 400", async ({ request }) => {
+    expect((await request.get("/api/images/name/does-not-exist/scan/also-missing/sbom")).status()).toBe(404)
+
+    const scan = await completedScan(request)
+    test.skip(!scan, "No completed scans available")
+    const res = await request.get(`/api/images/name/${encodeURIComponent(scan.image.name)}/scan/${scan.id}/sbom?format=swid`)
+    expect(res.status()).toBe(400)
+    expect((await res.json()).error).toMatch(/cyclonedx/)
+  })
+
+  test("exports CycloneDX JSON with the image as the root component", async ({ request }) => {
+    const scan = await completedScan(request)
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/images/name/${encodeURIComponent(scan.image.name)}/scan/${scan.id}/sbom`)
+    expect(res.status()).toBe(200)
+    expect(res.headers()["content-type"]).toContain("application/vnd.cyclonedx+json")
+    expect(res.headers()["content-disposition"]).toMatch(/attachment; filename=".+\.cdx\.json"/)
+
+    const bom = await res.json()
+    expect(bom.bomFormat).toBe("CycloneDX")
+    expect(bom.specVersion).toBe("1.5")
+    expect(bom.metadata.component.type).toBe("container")
+    const refs = new Set([bom.metadata.component["bom-ref"], ...bom.components.map((c: any) => c["bom-ref"])])
+    expect(refs.size).toBe(bom.components.length + 1)
+    for (const dependency of bom.dependencies) {
+      expect(refs.has(dependency.ref)).toBe(true)
+      for (const ref of dependency.dependsOn) expect(refs.has(ref)).toBe(true)
+    }
+  })
+
+  test("exports CycloneDX XML", async ({ request }) => {
+    const scan = await completedScan(request)
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/images/name/${encodeURIComponent(scan.image.name)}/scan/${scan.id}/sbom?format=cyclonedx-xml`)
+    expect(res.status()).toBe(200)
+    expect(res.headers()["content-type"]).toContain("application/vnd.cyclonedx+xml")
+    const xml = await res.text()
+    expect(xml).toContain('<bom xmlns="http://cyclonedx.org/schema/bom/1.5"')
+    expect(xml).toContain('<component type="container"')
+  })
+
+  test("exports SPDX 2.3 JSON describing the image", async ({ request }) => {
+    const scan = await completedScan(request)
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/images/name/${encodeURIComponent(scan.image.name)}/scan/${scan.id}/sbom?format=spdx`)
+    expect(res.status()).toBe(200)
+    expect(res.headers()["content-type"]).toContain("application/spdx+json")
+
+    const spdx = await res.json()
+    expect(spdx.spdxVersion).toBe("SPDX-2.3")
+    expect(spdx.dataLicense).toBe("CC0-1.0")
+    const ids = new Set([spdx.SPDXID, ...spdx.packages.map((p: any) => p.SPDXID)])
+    const describes = spdx.relationships.find((r: any) => r.relationshipType === "DESCRIBES")
+    expect(describes.spdxElementId).toBe("SPDXRef-DOCUMENT")
+    for (const relationship of spdx.relationships) {
+      expect(ids.has(relationship.spdxElementId)).toBe(true)
+      expect(ids.has(relationship.relatedSpdxElement)).toBe(true)
+    }
+  })
+})
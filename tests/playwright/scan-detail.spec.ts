@@ -182,7 +182,49 @@ const MOCK_FINDINGS = {
   correlations: { multiSource: 0 },
 }
 
-async function installMocks(page: import("@playwright/test").Page, opts?: { scan?: any | null }) {
+// Two scanners reporting the same vulnerability under a CVE and a GHSA id,
+// already correlated by the findings API, plus one single-scanner finding.
+const CORRELATED_FINDINGS = {
+  ...MOCK_FINDINGS,
+  vulnerabilities: {
+    total: 3,
+    bySeverity: { CRITICAL: 0, HIGH: 2, MEDIUM: 1, LOW: 0, INFO: 0 },
+    unique: { total: 2, bySeverity: { CRITICAL: 0, HIGH: 1, MEDIUM: 1, LOW: 0, INFO: 0 }, scannerCount: 3 },
+    bySource: [],
+    findings: [
+      {
+        id: "vuln1",
+        cveId: "CVE-2023-0001",
+        packageName: "openssl",
+        severity: "HIGH",
+        source: "trivy",
+        correlationKey: "CVE-2023-0001|openssl",
+        correlation: { sources: ["grype", "trivy"], sourceCount: 2, scannerCount: 3, confidenceScore: 0.67 },
+      },
+      {
+        id: "vuln2",
+        cveId: "GHSA-aaaa-bbbb-cccc",
+        packageName: "openssl",
+        severity: "HIGH",
+        source: "grype",
+        correlationKey: "CVE-2023-0001|openssl",
+        correlation: { sources: ["grype", "trivy"], sourceCount: 2, scannerCount: 3, confidenceScore: 0.67 },
+      },
+      {
+        id: "vuln3",
+        cveId: "CVE-2023-0002",
+        packageName: "zlib",
+        severity: "MEDIUM",
+        source: "osv",
+        correlationKey: "CVE-2023-0002|zlib",
+        correlation: { sources: ["osv"], sourceCount: 1, scannerCount: 3, confidenceScore: 0.33 },
+      },
+    ],
+  },
+  correlations: { total: 2, multiSource: 1, highConfidence: 0 },
+}
+
+async function installMocks(page: import("@playwright/test").Page, opts?: { scan?: any | null; findings?: any }) {
   // GET /api/scans/{id}
   await page.route("**/api/scans/test-scan-12345", async (route) => {
     if (opts?.scan === null) {
@@ -201,7 +243,7 @@ async function installMocks(page: import("@playwright/test").Page, opts?: { scan
     await route.fulfill({
       status: 200,
       contentType: "application/json",
-      body: JSON.stringify(MOCK_FINDINGS),
+      body: JSON.stringify(opts?.findings ?? MOCK_FINDINGS),
     })
   })
 
@@ -304,6 +346,23 @@ test.describe("Scan detail page", () => {
     await expect(page.getByRole("tab", { name: /efficiency/i }).first()).toBeVisible()
   })
 
+  test("vulnerabilities found by several scanners are counted and listed once", async ({ page }) => {
+    await installMocks(page, { findings: CORRELATED_FINDINGS })
+    await gotoAndWait(page, PATH)
+
+    await expect(page.getByRole("tab", { name: /vulnerabilities \(2\)/i }).first()).toBeVisible()
+    await expect(page.getByText(/2 unique vulnerabilities from 3 scanner findings/i)).toBeVisible()
+    await expect(page.getByText(/found by 2\/3 scanners/i)).toBeVisible()
+    await expect(page.getByText(/found by 1\/3 scanners/i)).toBeVisible()
+    await expect(page.getByText("GHSA-aaaa-bbbb-cccc")).toHaveCount(0)
+
+    // Confidence filter keeps only the finding more than one scanner agrees on
+    await page.getByRole("combobox").filter({ hasText: /any confidence/i }).click()
+    await page.getByRole("option", { name: /found by 2\+ scanners/i }).click()
+    await expect(page.getByText(/found by 2\/3 scanners/i)).toBeVisible()
+    await expect(page.getByText(/found by 1\/3 scanners/i)).toHaveCount(0)
+  })
+
   test("missing scanId renders graceful error state, not a white screen", async ({ page }) => {
     // Mock /api/scans/{id} as 404; the page should render an error Card with
     // "Scan Not Found" copy and a "Go Back to Image" button.
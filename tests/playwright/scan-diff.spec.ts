@@ -0,0 +1,52 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * Scan-to-scan diff API. Uses existing scans only.
+ */
+test.describe("Scan diff API", () => {
+  test("GET /api/scans/diff without scans or tags returns 400", async ({ request }) => {
+    const res = await request.get("/api/scans/diff")
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/base and head/i)
+  })
+
+  test("GET /api/scans/diff with unknown scans returns 404", async ({ request }) => {
+    const res = await request.get("/api/scans/diff?base=does-not-exist&head=also-missing")
+    expect(res.status()).toBe(404)
+  })
+
+  test("GET /api/scans/diff with a tag that has no completed scan returns 404", async ({ request }) => {
+    const res = await request.get("/api/scans/diff?image=no-such-image&baseTag=1&headTag=2")
+    expect(res.status()).toBe(404)
+    const body = await res.json()
+    expect(body.error).toMatch(/no completed scan/i)
+  })
+
+  test("diffing a scan with itself reports nothing introduced or fixed", async ({ request }) => {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    const scan = (list.scans ?? []).find((s: any) => s.status === "SUCCESS" || s.status === "PARTIAL")
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/scans/diff?base=${scan.id}&head=${scan.id}`)
+    expect(res.status()).toBe(200)
+    const diff = await res.json()
+    expect(diff.summary.vulnerabilities.introduced).toBe(0)
+    expect(diff.summary.vulnerabilities.fixed).toBe(0)
+    expect(diff.summary.packages.added + diff.summary.packages.removed + diff.summary.packages.upgraded).toBe(0)
+    expect(diff.summary.compliance.introduced).toBe(0)
+    if (diff.layers) expect(diff.layers.added).toHaveLength(0)
+  })
+
+  test("format=markdown&download=true returns a Markdown attachment", async ({ request }) => {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    const scan = (list.scans ?? []).find((s: any) => s.status === "SUCCESS" || s.status === "PARTIAL")
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.get(`/api/scans/diff?base=${scan.id}&head=${scan.id}&format=markdown&download=true`)
+    expect(res.status()).toBe(200)
+    expect(res.headers()["content-type"]).toContain("text/markdown")
+    expect(res.headers()["content-disposition"]).toMatch(/attachment; filename=".+\.md"/)
+    expect(await res.text()).toMatch(/^## Scan diff: /)
+  })
+})
@@ -0,0 +1,102 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * CI gate endpoint. These tests never start a scan: they only reuse scans
+ * that already exist, so they pass on an instance without a scanner. The
+ * exceptions they create are deleted again.
+ */
+test.describe("Scan gate API", () => {
+  test("POST /api/scans/gate without an image, digest or scanId returns 400", async ({ request }) => {
+    const res = await request.post("/api/scans/gate", { data: {} })
+    expect(res.status()).toBe(400)
+    const body = await res.json()
+    expect(body.error).toMatch(/image, a digest or a scanId/i)
+  })
+
+  test("POST /api/scans/gate rejects an unknown fail-on severity", async ({ request }) => {
+    const res = await request.post("/api/scans/gate", { data: { scanId: "x", failOn: "severe" } })
+    expect(res.status()).toBe(400)
+  })
+
+  test("POST /api/scans/gate rejects a digest that is not a sha256 digest", async ({ request }) => {
+    const res = await request.post("/api/scans/gate", { data: { image: "nginx", digest: "latest" } })
+    expect(res.status()).toBe(400)
+    expect((await res.json()).error).toMatch(/sha256/)
+  })
+
+  test("POST /api/scans/gate with an unknown scanId returns 404", async ({ request }) => {
+    const res = await request.post("/api/scans/gate", { data: { scanId: "does-not-exist", timeout: 0 } })
+    expect(res.status()).toBe(404)
+  })
+
+  test("POST /api/scans/gate with an unknown digest and no image returns 404", async ({ request }) => {
+    const res = await request.post("/api/scans/gate", {
+      data: { digest: "sha256:0000000000000000000000000000000000000000000000000000000000000000", timeout: 0 },
+    })
+    expect(res.status()).toBe(404)
+  })
+
+  test("POST /api/scans/gate returns a verdict for a finished scan", async ({ request }) => {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    const scan = (list.scans ?? []).find((s: any) => s.status === "SUCCESS" || s.status === "PARTIAL")
+    test.skip(!scan, "No completed scans available")
+
+    const res = await request.post("/api/scans/gate", {
+      data: { scanId: scan.id, failOn: "critical", timeout: 60 },
+    })
+    expect(res.status()).toBe(200)
+    const body = await res.json()
+    expect(body.done).toBe(true)
+    expect(body.reused).toBe(true)
+    expect(body.scanId).toBe(scan.id)
+    expect(typeof body.counts.critical).toBe("number")
+    expect(["PASS", "WARN", "FAIL"]).toContain(body.policy.verdict)
+    expect(body.exitCode).toBe(body.passed ? 0 : 1)
+    if (body.counts.critical > 0) expect(body.passed).toBe(false)
+  })
+
+  test("POST /api/scans/gate does not count findings covered by an approved exception", async ({ request }) => {
+    const list = await (await request.get("/api/scans?limit=20")).json()
+    const scan = (list.scans ?? []).find((s: any) =>
+      (s.status === "SUCCESS" || s.status === "PARTIAL") && s.metadata?.vulnerabilityCritical > 0)
+    test.skip(!scan, "No completed scans with critical findings available")
+
+    const findings = await (await request.get(
+      `/api/scans/${scan.id}/findings?type=vulnerabilities&severity=critical&limit=2000`
+    )).json()
+    const cveIds: string[] = [...new Set<string>(findings.vulnerabilities.findings.map((f: any) => f.cveId))]
+    test.skip(cveIds.length === 0 || cveIds.length > 25, "Critical findings are not normalized or too many to except")
+
+    const exceptionIds: string[] = []
+    try {
+      for (const cveId of cveIds) {
+        const created = await request.post("/api/exceptions", {
+          data: {
+            scope: "IMAGE",
+            imageId: scan.imageId,
+            cveId,
+            justification: "RISK_ACCEPTED",
+            reason: "Playwright: gate exception test",
+          },
+        })
+        expect(created.status()).toBe(201)
+        const exception = await created.json()
+        exceptionIds.push(exception.id)
+        const approved = await request.post(`/api/exceptions/${exception.id}/decision`, { data: { decision: "APPROVED" } })
+        expect(approved.status()).toBe(200)
+      }
+
+      const res = await request.post("/api/scans/gate", {
+        data: { scanId: scan.id, failOn: "critical", timeout: 60 },
+      })
+      expect(res.status()).toBe(200)
+      const body = await res.json()
+      expect(body.counts.critical).toBe(0)
+      expect(body.reasons.some((reason: string) => /critical vulnerabilities/.test(reason))).toBe(false)
+    } finally {
+      for (const id of exceptionIds) {
+        await request.delete(`/api/exceptions/${id}`)
+      }
+    }
+  })
+})
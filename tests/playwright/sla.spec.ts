@@ -0,0 +1,100 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+/**
+ * Remediation SLA summary, tracked findings and the SLA filter of the
+ * vulnerability library. SLA days are not changed, as that moves the due
+ * dates of every tracked finding.
+ */
+test.describe("SLA API", () => {
+  test("summarizes open findings per status and severity", async ({ request }) => {
+    const res = await request.get("/api/sla")
+    expect(res.status()).toBe(200)
+    const summary = await res.json()
+    for (const severity of ["CRITICAL", "HIGH", "MEDIUM", "LOW"]) {
+      expect(typeof summary.policy[severity]).toBe("number")
+      expect(typeof summary.bySeverity[severity].OVERDUE).toBe("number")
+    }
+    expect(summary.total.OVERDUE).toBe(
+      ["CRITICAL", "HIGH", "MEDIUM", "LOW"].reduce((sum, severity) => sum + summary.bySeverity[severity].OVERDUE, 0)
+    )
+  })
+
+  test("lists overdue findings past their due date", async ({ request }) => {
+    const res = await request.get("/api/sla/findings?status=overdue&limit=20")
+    expect(res.status()).toBe(200)
+    const { findings, total } = await res.json()
+    expect(typeof total).toBe("number")
+    for (const finding of findings) {
+      expect(finding.resolvedAt).toBeNull()
+      expect(finding.suppressed).toBe(false)
+      expect(new Date(finding.dueAt).getTime()).toBeLessThan(Date.now())
+    }
+  })
+
+  test("validates filters", async ({ request }) => {
+    expect((await request.get("/api/sla/findings?status=late")).status()).toBe(400)
+    expect((await request.get("/api/sla/findings?severity=INFO")).status()).toBe(400)
+    expect((await request.get("/api/sla/findings?limit=0")).status()).toBe(400)
+    expect((await request.get("/api/vulnerabilities?sla=late")).status()).toBe(400)
+  })
+
+  test("rejects SLA days out of range", async ({ request }) => {
+    const res = await request.put("/api/settings", { data: { slaCriticalDays: 1000 } })
+    expect(res.status()).toBe(400)
+    expect((await res.json()).error).toMatch(/slaCriticalDays/)
+  })
+})
+
+test.describe("SLA in the vulnerability library", () => {
+  test("overdue filter only returns vulnerabilities past their deadline", async ({ request }) => {
+    const res = await request.get("/api/vulnerabilities?sla=overdue&limit=20")
+    expect(res.status()).toBe(200)
+    const { vulnerabilities } = await res.json()
+    for (const vulnerability of vulnerabilities) {
+      expect(new Date(vulnerability.slaDueAt).getTime()).toBeLessThan(Date.now())
+    }
+  })
+
+  test("deadline ordering lists the earliest due date first", async ({ request }) => {
+    const res = await request.get("/api/vulnerabilities?sort=sla&limit=20")
+    expect(res.status()).toBe(200)
+    const { vulnerabilities } = await res.json()
+    const dueDates = vulnerabilities
+      .map((v: any) => v.slaDueAt)
+      .filter(Boolean)
+      .map((dueAt: string) => new Date(dueAt).getTime())
+    expect(dueDates).toEqual([...dueDates].sort((a: number, b: number) => a - b))
+  })
+
+  test("shows the SLA column", async ({ page }) => {
+    await gotoAndWait(page, "/library")
+    await expect(page.getByRole("columnheader", { name: /^SLA$/ }).first()).toBeVisible({ timeout: 20_000 })
+  })
+})
+
+test.describe("SLA on the dashboard", () => {
+  test("shows the overdue remediation count", async ({ page }) => {
+    await page.route("**/api/sla", async (route) => {
+      const counts = { OVERDUE: 0, DUE_SOON: 0, ON_TRACK: 0 }
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          policy: { CRITICAL: 7, HIGH: 30, MEDIUM: 90, LOW: 180 },
+          total: { OVERDUE: 4, DUE_SOON: 2, ON_TRACK: 9 },
+          bySeverity: {
+            CRITICAL: { OVERDUE: 3, DUE_SOON: 0, ON_TRACK: 0 },
+            HIGH: { OVERDUE: 1, DUE_SOON: 2, ON_TRACK: 9 },
+            MEDIUM: counts,
+            LOW: counts,
+          },
+        }),
+      })
+    })
+
+    await gotoAndWait(page, "/")
+    await expect(page.getByText(/overdue remediations/i).first()).toBeVisible({ timeout: 20_000 })
+    await expect(page.getByText(/3 critical/i).first()).toBeVisible()
+  })
+})
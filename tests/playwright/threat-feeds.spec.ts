@@ -0,0 +1,61 @@
+import { test, expect } from "@playwright/test"
+
+/**
+ * EPSS and KEV feed status, upload validation and the exploitation filters of
+ * the vulnerability library. Valid feed files are not uploaded, as an import
+ * replaces the feed for the whole instance.
+ */
+test.describe("Threat feeds API", () => {
+  test("reports the status of both feeds", async ({ request }) => {
+    const res = await request.get("/api/threat-feeds")
+    expect(res.status()).toBe(200)
+    const status = await res.json()
+    for (const feed of ["epss", "kev"]) {
+      expect(typeof status[feed].entries).toBe("number")
+      expect(status[feed]).toHaveProperty("lastImport")
+    }
+  })
+
+  test("rejects unknown feeds and files that are not feeds", async ({ request }) => {
+    expect((await request.post("/api/threat-feeds/nvd", { data: "x" })).status()).toBe(404)
+
+    const epss = await request.post("/api/threat-feeds/epss", {
+      headers: { "Content-Type": "text/csv" },
+      data: "id,score\nCVE-2021-44228,0.9\n",
+    })
+    expect(epss.status()).toBe(400)
+    expect((await epss.json()).error).toMatch(/EPSS/)
+
+    const kev = await request.post("/api/threat-feeds/kev", {
+      headers: { "Content-Type": "application/json" },
+      data: JSON.stringify({ vulnerabilities: [{ cveID: "not-a-cve", dateAdded: "2024-01-01" }] }),
+    })
+    expect(kev.status()).toBe(400)
+    expect((await kev.json()).error).toMatch(/KEV/)
+  })
+})
+
+test.describe("Vulnerability prioritization", () => {
+  test("returns exploitation fields and validates sort and filters", async ({ request }) => {
+    const res = await request.get("/api/vulnerabilities?limit=5&sort=epss")
+    expect(res.status()).toBe(200)
+    const { vulnerabilities } = await res.json()
+    for (const vulnerability of vulnerabilities) {
+      expect(typeof vulnerability.knownExploited).toBe("boolean")
+    }
+    const scores = vulnerabilities.map((v: any) => v.epssScore).filter((score: any) => score !== undefined)
+    expect(scores).toEqual([...scores].sort((a: number, b: number) => b - a))
+
+    expect((await request.get("/api/vulnerabilities?sort=random")).status()).toBe(400)
+    expect((await request.get("/api/vulnerabilities?minEpss=2")).status()).toBe(400)
+  })
+
+  test("known exploited filter only returns KEV vulnerabilities", async ({ request }) => {
+    const res = await request.get("/api/vulnerabilities?kev=true&limit=20")
+    expect(res.status()).toBe(200)
+    const { vulnerabilities } = await res.json()
+    for (const vulnerability of vulnerabilities) {
+      expect(vulnerability.knownExploited).toBe(true)
+    }
+  })
+})
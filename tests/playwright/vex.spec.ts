@@ -0,0 +1,114 @@
+import { test, expect } from "@playwright/test"
+import { gotoAndWait } from "./helpers"
+
+// Matches no real image or finding, so importing it never changes other scans
+const openVexDocument = (version: number) => ({
+  "@context": "https://openvex.dev/ns/v0.2.0",
+  "@id": "https://harborguard.example/vex/playwright-test",
+  author: "Playwright",
+  timestamp: new Date().toISOString(),
+  version,
+  statements: [
+    {
+      vulnerability: { name: "CVE-1999-0001", aliases: ["GHSA-play-wrig-htxx"] },
+      products: [
+        {
+          "@id": "pkg:oci/playwright-test-image?repository_url=registry.example/playwright-test-image",
+          subcomponents: [{ "@id": "pkg:npm/playwright-test-package@1.0.0" }],
+        },
+      ],
+      status: "not_affected",
+      justification: "vulnerable_code_not_in_execute_path",
+    },
+  ],
+})
+
+test.describe("VEX API", () => {
+  test("GET /api/vex returns a document list", async ({ request }) => {
+    const res = await request.get("/api/vex")
+    expect(res.status()).toBe(200)
+    expect(Array.isArray((await res.json()).documents)).toBe(true)
+  })
+
+  test("POST /api/vex rejects documents that are not VEX", async ({ request }) => {
+    const notVex = await request.post("/api/vex", { data: { hello: "world" } })
+    expect(notVex.status()).toBe(400)
+    expect((await notVex.json()).error).toMatch(/openvex or cyclonedx/i)
+
+    const noStatements = await request.post("/api/vex", { data: { ...openVexDocument(1), statements: [] } })
+    expect(noStatements.status()).toBe(400)
+
+    const noAnalysis = await request.post("/api/vex", {
+      data: { bomFormat: "CycloneDX", specVersion: "1.5", vulnerabilities: [{ id: "CVE-1999-0001" }] },
+    })
+    expect(noAnalysis.status()).toBe(400)
+    expect((await noAnalysis.json()).error).toMatch(/analysis state/i)
+  })
+
+  test("VEX documents are imported, replaced and deleted", async ({ request }) => {
+    const created = await request.post("/api/vex?source=Playwright%20Vendor", { data: openVexDocument(1) })
+    expect(created.status()).toBe(201)
+    const first = await created.json()
+    expect(first.statementCount).toBe(1)
+    expect(first.document.format).toBe("OPENVEX")
+    expect(first.document.source).toBe("Playwright Vendor")
+
+    // The same document id replaces the earlier import
+    const reimported = await request.post("/api/vex", { data: openVexDocument(2) })
+    expect(reimported.status()).toBe(201)
+    const second = await reimported.json()
+    expect(second.replaced).toBe(1)
+    expect(second.document.source).toBe("Playwright")
+
+    try {
+      expect((await request.get(`/api/vex/${first.document.id}`)).status()).toBe(404)
+
+      const detail = await request.get(`/api/vex/${second.document.id}`)
+      expect(detail.status()).toBe(200)
+      const [statement] = (await detail.json()).statements
+      expect(statement.vulnerabilityId).toBe("CVE-1999-0001")
+      expect(statement.aliases).toContain("GHSA-PLAY-WRIG-HTXX")
+      expect(statement.status).toBe("NOT_AFFECTED")
+    } finally {
+      const deleted = await request.delete(`/api/vex/${second.document.id}`)
+      expect(deleted.status()).toBe(200)
+    }
+
+    expect((await request.delete(`/api/vex/${second.document.id}`)).status()).toBe(404)
+  })
+
+  test("GET /api/images/[id]/vex validates the image and format", async ({ request }) => {
+    expect((await request.get("/api/images/does-not-exist/vex")).status()).toBe(404)
+
+    const list = await (await request.get("/api/images?limit=1")).json()
+    const image = list.images?.[0]
+    test.skip(!image, "No images available")
+
+    expect((await request.get(`/api/images/${image.id}/vex?format=spdx`)).status()).toBe(400)
+
+    const openvex = await request.get(`/api/images/${image.id}/vex`)
+    expect(openvex.status()).toBe(200)
+    expect(openvex.headers()["content-disposition"]).toContain("attachment")
+    const document = await openvex.json()
+    expect(document["@context"]).toContain("openvex.dev")
+    for (const statement of document.statements) {
+      expect(["not_affected", "affected", "fixed", "under_investigation"]).toContain(statement.status)
+      expect(statement.products[0]["@id"]).toMatch(/^pkg:oci\//)
+    }
+
+    const cyclonedx = await request.get(`/api/images/${image.id}/vex?format=cyclonedx`)
+    expect(cyclonedx.status()).toBe(200)
+    const bom = await cyclonedx.json()
+    expect(bom.bomFormat).toBe("CycloneDX")
+    expect(bom.metadata.component.type).toBe("container")
+    expect(bom.vulnerabilities.length).toBe(document.statements.length)
+  })
+})
+
+test.describe("VEX documents on the exceptions page", () => {
+  test("renders the VEX document list", async ({ page }) => {
+    await gotoAndWait(page, "/exceptions")
+    await expect(page.getByText("VEX Documents")).toBeVisible()
+    await expect(page.getByRole("button", { name: /import vex/i })).toBeVisible()
+  })
+})